@@ -22,145 +22,103 @@ import {
   ShoppingBag
 } from 'lucide-react'
 import { useAuth } from '@/contexts/auth-context'
+import { useCurrency } from '@/contexts/currency-context'
 import { useRouter } from 'next/navigation'
 import { ProtectedRoute } from '@/components/protected-route'
 
 interface CoinTransaction {
-  id: string
-  type: 'earned' | 'spent' | 'expired'
+  key: string
+  type: 'earned' | 'redeemed' | 'reversed' | 'expired'
   amount: number
+  status: 'completed' | 'void'
   description: string
-  date: Date
-  orderId?: string
-  status: 'pending' | 'completed' | 'expired'
+  orderNumber: string | null
+  expiresAt: string | null
+  createdAt: string
 }
 
 interface CoinReward {
   id: string
   name: string
   coinsRequired: number
-  discount: number
-  type: 'percentage' | 'fixed'
-  validUntil: Date
+  discountAmount: number
   isAvailable: boolean
 }
 
+interface CoinLevel {
+  name: string
+  minCoins: number
+}
+
+interface CoinSummary {
+  available: number
+  pending: number
+  totalEarned: number
+  expiringSoon: number
+  nextExpiry: string | null
+  level: CoinLevel
+  nextLevel: CoinLevel | null
+  program: {
+    earnRate: number
+    coinValue: number
+    expiryDays: number
+    maxRedemptionPercent: number
+  }
+}
+
 function CoinsPageContent() {
   const { user } = useAuth()
   const router = useRouter()
-  const [totalCoins, setTotalCoins] = useState(1250)
-  const [availableCoins, setAvailableCoins] = useState(850)
-  const [pendingCoins, setPendingCoins] = useState(400)
+  const { formatPrice } = useCurrency()
+  const [summary, setSummary] = useState<CoinSummary | null>(null)
   const [transactions, setTransactions] = useState<CoinTransaction[]>([])
   const [rewards, setRewards] = useState<CoinReward[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
-    // Mock transactions data
-    const mockTransactions: CoinTransaction[] = [
-      {
-        id: '1',
-        type: 'earned',
-        amount: 150,
-        description: 'Order ORD-2024-001 completed',
-        date: new Date('2024-01-15'),
-        orderId: 'ORD-2024-001',
-        status: 'completed'
-      },
-      {
-        id: '2',
-        type: 'earned',
-        amount: 100,
-        description: 'Order ORD-2024-002 completed',
-        date: new Date('2024-01-10'),
-        orderId: 'ORD-2024-002',
-        status: 'completed'
-      },
-      {
-        id: '3',
-        type: 'spent',
-        amount: -200,
-        description: 'Redeemed for 20% discount coupon',
-        date: new Date('2024-01-08'),
-        status: 'completed'
-      },
-      {
-        id: '4',
-        type: 'earned',
-        amount: 300,
-        description: 'Order ORD-2024-003 placed',
-        date: new Date('2024-01-05'),
-        orderId: 'ORD-2024-003',
-        status: 'pending'
-      },
-      {
-        id: '5',
-        type: 'earned',
-        amount: 50,
-        description: 'Welcome bonus',
-        date: new Date('2024-01-01'),
-        status: 'completed'
-      },
-      {
-        id: '6',
-        type: 'expired',
-        amount: -75,
-        description: 'Coins expired',
-        date: new Date('2023-12-15'),
-        status: 'expired'
-      }
-    ]
+    if (!user) return
+
+    const loadCoins = async () => {
+      try {
+        const [summaryRes, historyRes, rewardsRes] = await Promise.all([
+          fetch('/api/user/coins', { credentials: 'include' }),
+          fetch('/api/user/coins/history', { credentials: 'include' }),
+          fetch('/api/user/coins/rewards', { credentials: 'include' })
+        ])
+        const [summaryData, historyData, rewardsData] = await Promise.all([
+          summaryRes.json(),
+          historyRes.json(),
+          rewardsRes.json()
+        ])
 
-    // Mock rewards data
-    const mockRewards: CoinReward[] = [
-      {
-        id: '1',
-        name: '20% Off Next Order',
-        coinsRequired: 200,
-        discount: 20,
-        type: 'percentage',
-        validUntil: new Date('2024-02-15'),
-        isAvailable: true
-      },
-      {
-        id: '2',
-        name: 'Free Shipping',
-        coinsRequired: 150,
-        discount: 10,
-        type: 'fixed',
-        validUntil: new Date('2024-01-30'),
-        isAvailable: true
-      },
-      {
-        id: '3',
-        name: '50% Off Electronics',
-        coinsRequired: 500,
-        discount: 50,
-        type: 'percentage',
-        validUntil: new Date('2024-02-28'),
-        isAvailable: true
-      },
-      {
-        id: '4',
-        name: '$25 Cash Back',
-        coinsRequired: 1000,
-        discount: 25,
-        type: 'fixed',
-        validUntil: new Date('2024-03-15'),
-        isAvailable: false
+        if (summaryRes.ok && summaryData.success) setSummary(summaryData)
+        if (historyRes.ok && historyData.success) setTransactions(historyData.transactions || [])
+        if (rewardsRes.ok && rewardsData.success) setRewards(rewardsData.rewards || [])
+      } catch (error) {
+        logger.error('Error loading coins:', error)
+      } finally {
+        setIsLoading(false)
       }
-    ]
+    }
+
+    loadCoins()
+  }, [user])
 
-    setTransactions(mockTransactions)
-    setRewards(mockRewards)
-    setIsLoading(false)
-  }, [])
+  const availableCoins = summary?.available ?? 0
+  const pendingCoins = summary?.pending ?? 0
+  const totalCoins = summary?.totalEarned ?? 0
+  const nextLevel = summary?.nextLevel || null
+  const levelProgress = nextLevel
+    ? Math.min(100, (totalCoins / nextLevel.minCoins) * 100)
+    : 100
+  const coinsPer1000 = Math.round((summary?.program.earnRate ?? 0) * 1000)
 
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'earned':
         return <Plus className="w-4 h-4 text-green-600" />
-      case 'spent':
+      case 'redeemed':
+      case 'reversed':
         return <Minus className="w-4 h-4 text-red-600" />
       case 'expired':
         return <Clock className="w-4 h-4 text-gray-600" />
@@ -169,25 +127,27 @@ function CoinsPageContent() {
     }
   }
 
-  const getTransactionStatusIcon = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return <CheckCircle className="w-4 h-4 text-green-600" />
-      case 'pending':
-        return <Clock className="w-4 h-4 text-yellow-600" />
-      case 'expired':
-        return <AlertCircle className="w-4 h-4 text-red-600" />
-      default:
-        return <Clock className="w-4 h-4" />
+  const getTransactionStatusIcon = (transaction: CoinTransaction) => {
+    if (transaction.status === 'void') {
+      return <AlertCircle className="w-4 h-4 text-gray-500" />
     }
+    if (transaction.type === 'expired') {
+      return <AlertCircle className="w-4 h-4 text-red-600" />
+    }
+    return <CheckCircle className="w-4 h-4 text-green-600" />
   }
 
-  const handleRedeemReward = (rewardId: string) => {
-    // In real app, this would call an API to redeem the reward
+  // Checkout picks the reward up from sessionStorage, like an applied promotion
+  const handleRedeemReward = (reward: CoinReward) => {
+    sessionStorage.setItem('applied_coin_reward', JSON.stringify({
+      coins: reward.coinsRequired,
+      discountAmount: reward.discountAmount
+    }))
+    router.push('/cart')
   }
 
-  const handleViewOrder = (orderId: string) => {
-    router.push(`/account/orders/${orderId}`)
+  const handleViewOrder = (orderNumber: string) => {
+    router.push(`/account/orders/${orderNumber}`)
   }
 
   if (isLoading) {
@@ -251,20 +211,29 @@ function CoinsPageContent() {
         </Card>
       </div>
 
+      {summary && summary.expiringSoon > 0 && summary.nextExpiry && (
+        <div className="flex items-center space-x-2 p-4 mb-8 border border-yellow-200 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {summary.expiringSoon} coins expire soon, starting {new Date(summary.nextExpiry).toLocaleDateString()}. Redeem them at checkout before they go.
+          </span>
+        </div>
+      )}
+
       {/* Progress to Next Level */}
       <Card className="mb-8">
         <CardHeader>
-          <CardTitle>Progress to Gold Level</CardTitle>
+          <CardTitle>{nextLevel ? `Progress to ${nextLevel.name} Level` : `${summary?.level.name || 'Top'} Level`}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
             <div className="flex justify-between text-sm">
-              <span>Current Level: Silver</span>
-              <span>Next Level: Gold (2000 coins)</span>
+              <span>Current Level: {summary?.level.name || '—'}</span>
+              {nextLevel && <span>Next Level: {nextLevel.name} ({nextLevel.minCoins} coins)</span>}
             </div>
-            <Progress value={62.5} className="w-full" />
+            <Progress value={levelProgress} className="w-full" />
             <p className="text-sm text-muted-foreground">
-              {totalCoins} / 2000 coins earned
+              {nextLevel ? `${totalCoins} / ${nextLevel.minCoins} coins earned` : `${totalCoins} coins earned - you have reached the highest level`}
             </p>
           </div>
         </CardContent>
@@ -279,6 +248,9 @@ function CoinsPageContent() {
           </CardTitle>
         </CardHeader>
         <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Apply a reward to your next order at checkout. Coins can cover up to {summary?.program.maxRedemptionPercent ?? 50}% of an order.
+          </p>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {rewards.map((reward) => (
               <div key={reward.id} className="p-4 border rounded-lg">
@@ -289,19 +261,13 @@ function CoinsPageContent() {
                   </Badge>
                 </div>
                 <p className="text-sm text-muted-foreground mb-3">
-                  {reward.type === 'percentage' 
-                    ? `${reward.discount}% discount` 
-                    : `$${reward.discount} off`
-                  }
+                  {formatPrice(reward.discountAmount)} off your order
                 </p>
-                <div className="flex items-center justify-between">
-                  <span className="text-xs text-muted-foreground">
-                    Valid until {reward.validUntil.toLocaleDateString()}
-                  </span>
+                <div className="flex items-center justify-end">
                   <Button 
                     size="sm" 
                     disabled={!reward.isAvailable || availableCoins < reward.coinsRequired}
-                    onClick={() => handleRedeemReward(reward.id)}
+                    onClick={() => handleRedeemReward(reward)}
                   >
                     {reward.isAvailable && availableCoins >= reward.coinsRequired 
                       ? 'Redeem' 
@@ -322,19 +288,26 @@ function CoinsPageContent() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            {transactions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No coin activity yet. Coins are added once you receive an order.
+              </p>
+            )}
             {transactions.map((transaction) => (
-              <div key={transaction.id} className="flex items-center justify-between p-4 border rounded-lg">
+              <div key={transaction.key} className="flex items-center justify-between p-4 border rounded-lg">
                 <div className="flex items-center space-x-4">
                   {getTransactionIcon(transaction.type)}
                   <div>
                     <p className="font-medium">{transaction.description}</p>
                     <p className="text-sm text-muted-foreground">
-                      {transaction.date.toLocaleDateString()}
+                      {new Date(transaction.createdAt).toLocaleDateString()}
+                      {transaction.status === 'void' && ' · Returned to your balance'}
+                      {transaction.expiresAt && ` · Expires ${new Date(transaction.expiresAt).toLocaleDateString()}`}
                     </p>
-                    {transaction.orderId && (
+                    {transaction.orderNumber && (
                       <button 
                         className="text-xs text-blue-600 hover:underline"
-                        onClick={() => handleViewOrder(transaction.orderId!)}
+                        onClick={() => handleViewOrder(transaction.orderNumber!)}
                       >
                         View Order
                       </button>
@@ -342,13 +315,14 @@ function CoinsPageContent() {
                   </div>
                 </div>
                 <div className="flex items-center space-x-4">
-                  {getTransactionStatusIcon(transaction.status)}
+                  {getTransactionStatusIcon(transaction)}
                   <span className={`font-medium ${
+                    transaction.status === 'void' ? 'text-gray-400 line-through' :
                     transaction.type === 'earned' ? 'text-green-600' : 
-                    transaction.type === 'spent' ? 'text-red-600' : 
-                    'text-gray-600'
+                    transaction.type === 'expired' ? 'text-gray-600' :
+                    'text-red-600'
                   }`}>
-                    {transaction.type === 'earned' ? '+' : ''}{transaction.amount} coins
+                    {transaction.amount > 0 ? '+' : ''}{transaction.amount} coins
                   </span>
                 </div>
               </div>
@@ -370,7 +344,7 @@ function CoinsPageContent() {
               </div>
               <h4 className="font-medium mb-2">Make Purchases</h4>
               <p className="text-sm text-muted-foreground">
-                Earn 10 coins for every $1 spent
+                Earn {coinsPer1000} coins for every {formatPrice(1000)} spent
               </p>
             </div>
             <div className="text-center p-4">
@@ -379,16 +353,16 @@ function CoinsPageContent() {
               </div>
               <h4 className="font-medium mb-2">Complete Orders</h4>
               <p className="text-sm text-muted-foreground">
-                Get bonus coins when orders are delivered
+                Coins are added when you confirm an order was received and last {summary?.program.expiryDays ?? 365} days
               </p>
             </div>
             <div className="text-center p-4">
               <div className="w-12 h-12 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-3">
                 <Gift className="w-6 h-6 text-purple-600" />
               </div>
-              <h4 className="font-medium mb-2">Special Promotions</h4>
+              <h4 className="font-medium mb-2">Spend at Checkout</h4>
               <p className="text-sm text-muted-foreground">
-                Earn extra coins during special events
+                Each coin is worth {formatPrice(summary?.program.coinValue ?? 1)} off your order total
               </p>
             </div>
           </div>
@@ -21,30 +21,40 @@ import {
   DollarSign
 } from 'lucide-react'
 import { useAuth } from '@/contexts/auth-context'
+import { useCurrency } from '@/contexts/currency-context'
+import { useToast } from '@/hooks/use-toast'
+import { logger } from '@/lib/logger'
 import { useRouter } from 'next/navigation'
 import { ProtectedRoute } from '@/components/protected-route'
 
 interface Coupon {
-  id: string
   code: string
   name: string
-  description: string
-  discount: number
-  type: 'percentage' | 'fixed'
-  minAmount?: number
-  maxDiscount?: number
-  validFrom: Date
-  validUntil: Date
-  isUsed: boolean
-  usedDate?: Date
-  orderId?: string
-  category?: string
-  isActive: boolean
+  description: string | null
+  kind: 'general' | 'first_order' | 'birthday' | 'abandoned_cart'
+  discountType: 'percentage' | 'fixed'
+  discountValue: number
+  maxDiscountAmount: number | null
+  minPurchaseAmount: number | null
+  validUntil: string | null
+  status: 'active' | 'used' | 'expired'
+  usesLeft: number
+  lastUsedAt: string | null
+  lastOrderNumber: string | null
+}
+
+const KIND_LABELS: Record<Coupon['kind'], string> = {
+  general: 'Promotion',
+  first_order: 'Welcome',
+  birthday: 'Birthday',
+  abandoned_cart: 'Come Back'
 }
 
 function CouponsPageContent() {
   const { user } = useAuth()
   const router = useRouter()
+  const { toast } = useToast()
+  const { formatPrice } = useCurrency()
   const [coupons, setCoupons] = useState<Coupon[]>([])
   const [filteredCoupons, setFilteredCoupons] = useState<Coupon[]>([])
   const [searchTerm, setSearchTerm] = useState('')
@@ -52,102 +62,25 @@ function CouponsPageContent() {
   const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
-    // Mock coupons data
-    const mockCoupons: Coupon[] = [
-      {
-        id: '1',
-        code: 'SAVE20',
-        name: '20% Off Electronics',
-        description: 'Get 20% off on all electronics and gadgets',
-        discount: 20,
-        type: 'percentage',
-        minAmount: 50,
-        maxDiscount: 100,
-        validFrom: new Date('2024-01-01'),
-        validUntil: new Date('2024-02-15'),
-        isUsed: false,
-        isActive: true,
-        category: 'Electronics'
-      },
-      {
-        id: '2',
-        code: 'FREESHIP',
-        name: 'Free Shipping',
-        description: 'Free shipping on orders over $100',
-        discount: 10,
-        type: 'fixed',
-        minAmount: 100,
-        validFrom: new Date('2024-01-01'),
-        validUntil: new Date('2024-01-30'),
-        isUsed: false,
-        isActive: true,
-        category: 'Shipping'
-      },
-      {
-        id: '3',
-        code: 'WELCOME50',
-        name: '50% Off First Order',
-        description: 'Half price on your first order',
-        discount: 50,
-        type: 'percentage',
-        minAmount: 25,
-        maxDiscount: 200,
-        validFrom: new Date('2024-01-01'),
-        validUntil: new Date('2024-03-31'),
-        isUsed: true,
-        usedDate: new Date('2024-01-15'),
-        orderId: 'ORD-2024-001',
-        isActive: false,
-        category: 'Welcome'
-      },
-      {
-        id: '4',
-        code: 'FLASH25',
-        name: 'Flash Sale 25% Off',
-        description: 'Limited time 25% discount on selected items',
-        discount: 25,
-        type: 'percentage',
-        minAmount: 30,
-        validFrom: new Date('2024-01-10'),
-        validUntil: new Date('2024-01-20'),
-        isUsed: false,
-        isActive: true,
-        category: 'Flash Sale'
-      },
-      {
-        id: '5',
-        code: 'LOYALTY10',
-        name: 'Loyalty Reward',
-        description: '10% off for loyal customers',
-        discount: 10,
-        type: 'percentage',
-        minAmount: 75,
-        validFrom: new Date('2024-01-01'),
-        validUntil: new Date('2024-12-31'),
-        isUsed: false,
-        isActive: true,
-        category: 'Loyalty'
-      },
-      {
-        id: '6',
-        code: 'BIRTHDAY15',
-        name: 'Birthday Special',
-        description: '15% off on your birthday month',
-        discount: 15,
-        type: 'percentage',
-        minAmount: 40,
-        validFrom: new Date('2024-01-01'),
-        validUntil: new Date('2024-01-31'),
-        isUsed: false,
-        isActive: true,
-        category: 'Special'
+    if (!user) return
+
+    const loadCoupons = async () => {
+      try {
+        const response = await fetch('/api/user/coupons', { credentials: 'include' })
+        const data = await response.json()
+        if (response.ok && data.success) {
+          setCoupons(data.coupons || [])
+          setFilteredCoupons(data.coupons || [])
+        }
+      } catch (error) {
+        logger.error('Error loading coupons:', error)
+      } finally {
+        setIsLoading(false)
       }
-    ]
+    }
 
-    setCoupons(mockCoupons)
-    setFilteredCoupons(mockCoupons)
-    setIsLoading(false)
-  }, [])
+    loadCoupons()
+  }, [user])
 
   // Filter coupons based on search and status
   useEffect(() => {
@@ -158,39 +91,25 @@ function CouponsPageContent() {
       filtered = filtered.filter(coupon =>
         coupon.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
         coupon.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        coupon.description.toLowerCase().includes(searchTerm.toLowerCase())
+        (coupon.description || '').toLowerCase().includes(searchTerm.toLowerCase())
       )
     }
 
     // Filter by status
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(coupon => {
-        switch (statusFilter) {
-          case 'active':
-            return coupon.isActive && !coupon.isUsed && new Date() <= coupon.validUntil
-          case 'used':
-            return coupon.isUsed
-          case 'expired':
-            return new Date() > coupon.validUntil
-          default:
-            return true
-        }
-      })
+      filtered = filtered.filter(coupon => coupon.status === statusFilter)
     }
 
     setFilteredCoupons(filtered)
   }, [searchTerm, statusFilter, coupons])
 
   const getStatusBadge = (coupon: Coupon) => {
-    if (coupon.isUsed) {
+    if (coupon.status === 'used') {
       return <Badge className="bg-gray-100 text-gray-800">Used</Badge>
     }
-    if (new Date() > coupon.validUntil) {
+    if (coupon.status === 'expired') {
       return <Badge className="bg-red-100 text-red-800">Expired</Badge>
     }
-    if (!coupon.isActive) {
-      return <Badge className="bg-yellow-100 text-yellow-800">Inactive</Badge>
-    }
     return <Badge className="bg-green-100 text-green-800">Active</Badge>
   }
 
@@ -200,19 +119,16 @@ function CouponsPageContent() {
 
   const handleCopyCode = (code: string) => {
     navigator.clipboard.writeText(code)
-    // In real app, show a toast notification
+    toast({ title: 'Code copied', description: `${code} is on your clipboard` })
   }
 
-  const handleViewOrder = (orderId: string) => {
-    router.push(`/account/orders/${orderId}`)
+  const handleViewOrder = (orderNumber: string) => {
+    router.push(`/account/orders/${orderNumber}`)
   }
 
-  const isExpired = (validUntil: Date) => {
-    return new Date() > validUntil
-  }
-
-  const isExpiringSoon = (validUntil: Date) => {
-    const daysUntilExpiry = Math.ceil((validUntil.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))
+  const isExpiringSoon = (coupon: Coupon) => {
+    if (coupon.status !== 'active' || !coupon.validUntil) return false
+    const daysUntilExpiry = Math.ceil((new Date(coupon.validUntil).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))
     return daysUntilExpiry <= 7 && daysUntilExpiry > 0
   }
 
@@ -262,8 +178,8 @@ function CouponsPageContent() {
       {/* Coupons Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredCoupons.map((coupon) => (
-          <Card key={coupon.id} className={`relative ${coupon.isUsed || isExpired(coupon.validUntil) ? 'opacity-75' : ''}`}>
-            {coupon.isUsed && (
+          <Card key={coupon.code} className={`relative ${coupon.status !== 'active' ? 'opacity-75' : ''}`}>
+            {coupon.status === 'used' && (
               <div className="absolute inset-0 bg-gray-100 bg-opacity-50 flex items-center justify-center z-10">
                 <CheckCircle className="w-8 h-8 text-green-600" />
               </div>
@@ -279,18 +195,20 @@ function CouponsPageContent() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
-                <p className="text-sm text-muted-foreground mb-2">
-                  {coupon.description}
-                </p>
+                {coupon.description && (
+                  <p className="text-sm text-muted-foreground mb-2">
+                    {coupon.description}
+                  </p>
+                )}
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
-                    {getDiscountIcon(coupon.type)}
+                    {getDiscountIcon(coupon.discountType)}
                     <span className="font-bold text-lg">
-                      {coupon.type === 'percentage' ? `${coupon.discount}%` : `$${coupon.discount}`}
+                      {coupon.discountType === 'percentage' ? `${coupon.discountValue}%` : formatPrice(coupon.discountValue)}
                     </span>
-                    {coupon.type === 'percentage' && coupon.maxDiscount && (
+                    {coupon.discountType === 'percentage' && coupon.maxDiscountAmount && (
                       <span className="text-xs text-muted-foreground">
-                        (max ${coupon.maxDiscount})
+                        (max {formatPrice(coupon.maxDiscountAmount)})
                       </span>
                     )}
                   </div>
@@ -303,45 +221,49 @@ function CouponsPageContent() {
               </div>
 
               <div className="space-y-2 text-sm">
-                {coupon.minAmount && (
+                {coupon.minPurchaseAmount && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Minimum Order:</span>
-                    <span>${coupon.minAmount}</span>
+                    <span>{formatPrice(coupon.minPurchaseAmount)}</span>
                   </div>
                 )}
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Valid Until:</span>
-                  <span className={isExpired(coupon.validUntil) ? 'text-red-600' : ''}>
-                    {coupon.validUntil.toLocaleDateString()}
+                  <span className={coupon.status === 'expired' ? 'text-red-600' : ''}>
+                    {coupon.validUntil ? new Date(coupon.validUntil).toLocaleDateString() : 'No expiry'}
                   </span>
                 </div>
-                {coupon.category && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Category:</span>
+                  <span>{KIND_LABELS[coupon.kind] || coupon.kind}</span>
+                </div>
+                {coupon.status === 'active' && coupon.usesLeft > 1 && (
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Category:</span>
-                    <span>{coupon.category}</span>
+                    <span className="text-muted-foreground">Uses Left:</span>
+                    <span>{coupon.usesLeft}</span>
                   </div>
                 )}
               </div>
 
-              {isExpiringSoon(coupon.validUntil) && !coupon.isUsed && (
+              {isExpiringSoon(coupon) && (
                 <div className="flex items-center space-x-2 p-2 bg-yellow-50 rounded">
                   <Clock className="w-4 h-4 text-yellow-600" />
                   <span className="text-sm text-yellow-800">Expires soon!</span>
                 </div>
               )}
 
-              {coupon.isUsed && coupon.usedDate && (
+              {coupon.lastUsedAt && (
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Used on:</span>
-                    <span>{coupon.usedDate.toLocaleDateString()}</span>
+                    <span>{new Date(coupon.lastUsedAt).toLocaleDateString()}</span>
                   </div>
-                  {coupon.orderId && (
+                  {coupon.lastOrderNumber && (
                     <Button 
                       variant="outline" 
                       size="sm" 
-                      className="w-full"
-                      onClick={() => handleViewOrder(coupon.orderId!)}
+                      className="w-full relative z-20"
+                      onClick={() => handleViewOrder(coupon.lastOrderNumber!)}
                     >
                       View Order
                     </Button>
@@ -349,7 +271,7 @@ function CouponsPageContent() {
                 </div>
               )}
 
-              {!coupon.isUsed && !isExpired(coupon.validUntil) && (
+              {coupon.status === 'active' && (
                 <div className="flex space-x-2">
                   <Button 
                     variant="outline" 
@@ -362,7 +284,7 @@ function CouponsPageContent() {
                   </Button>
                   <Button 
                     size="sm"
-                    onClick={() => router.push('/products')}
+                    onClick={() => router.push('/cart')}
                     className="flex-1"
                   >
                     <Gift className="w-4 h-4 mr-2" />
@@ -412,19 +334,19 @@ function CouponsPageContent() {
               </div>
               <div>
                 <p className="text-2xl font-bold">
-                  {coupons.filter(c => c.isActive && !c.isUsed && new Date() <= c.validUntil).length}
+                  {coupons.filter(c => c.status === 'active').length}
                 </p>
                 <p className="text-sm text-muted-foreground">Active</p>
               </div>
               <div>
                 <p className="text-2xl font-bold">
-                  {coupons.filter(c => c.isUsed).length}
+                  {coupons.filter(c => c.status === 'used').length}
                 </p>
                 <p className="text-sm text-muted-foreground">Used</p>
               </div>
               <div>
                 <p className="text-2xl font-bold">
-                  {coupons.filter(c => new Date() > c.validUntil).length}
+                  {coupons.filter(c => c.status === 'expired').length}
                 </p>
                 <p className="text-sm text-muted-foreground">Expired</p>
               </div>
@@ -444,27 +366,27 @@ function CouponsPageContent() {
               <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-3">
                 <Gift className="w-6 h-6 text-blue-600" />
               </div>
-              <h4 className="font-medium mb-2">Make Purchases</h4>
+              <h4 className="font-medium mb-2">Welcome Coupon</h4>
               <p className="text-sm text-muted-foreground">
-                Earn coupons automatically when you reach spending milestones
+                New accounts get a coupon for their first order
               </p>
             </div>
             <div className="text-center p-4">
               <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
                 <CheckCircle className="w-6 h-6 text-green-600" />
               </div>
-              <h4 className="font-medium mb-2">Complete Orders</h4>
+              <h4 className="font-medium mb-2">Birthday Coupon</h4>
               <p className="text-sm text-muted-foreground">
-                Get bonus coupons when your orders are successfully delivered
+                Add your date of birth in Account Settings to get a coupon every birthday
               </p>
             </div>
             <div className="text-center p-4">
               <div className="w-12 h-12 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-3">
                 <Ticket className="w-6 h-6 text-purple-600" />
               </div>
-              <h4 className="font-medium mb-2">Special Promotions</h4>
+              <h4 className="font-medium mb-2">Come Back Offers</h4>
               <p className="text-sm text-muted-foreground">
-                Participate in seasonal events and promotional campaigns
+                Left something in your cart? We may send a coupon to help you finish
               </p>
             </div>
           </div>
@@ -22,15 +22,28 @@ import {
   User,
   Home,
   ChevronRight,
-  Eye
+  Eye,
+  RotateCcw,
+  MessageCircle
 } from 'lucide-react'
 import { useAuth } from '@/contexts/auth-context'
 import { useRouter } from 'next/navigation'
 import { ProtectedRoute } from '@/components/protected-route'
 import { getFriendlyErrorMessage } from '@/lib/friendly-error'
 import { useOrders } from '@/hooks/use-orders'
+import { OrderReturnDialog } from '@/components/order-return-dialog'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 import Link from 'next/link'
 import Image from 'next/image'
+import { QRCode } from '@/components/qr-code'
 
 interface Order {
   // id: string // REMOVED: UUID should never be exposed to client
@@ -50,6 +63,19 @@ interface Order {
   paymentTimestamp?: string
   failureReason?: string
   deliveryOption: 'shipping' | 'pickup'
+  pickupPoint?: {
+    name: string
+    address: string
+    ward: string | null
+    district: string | null
+    region: string
+    phone: string | null
+    hours: string
+    instructions: string | null
+  } | null
+  pickupQrValue?: string | null
+  pickupReadyAt?: string | null
+  pickedUpAt?: string | null
   trackingNumber?: string
   estimatedDelivery?: string
   isReceived?: boolean
@@ -86,11 +112,31 @@ interface OrderItem {
   status?: string // Per-item status from confirmed_order_items
 }
 
+interface OrderReturn {
+  returnNumber: string
+  status: 'requested' | 'approved' | 'rejected'
+  reason: string
+  refundAmount: number
+  currency: string
+  supplierNote?: string | null
+  createdAt: string
+  resolvedAt?: string | null
+  items: {
+    productId: number
+    productName: string | null
+    variantName?: string | null
+    quantity: number
+  }[]
+}
+
 interface OrderStatus {
   status: string
   timestamp: string
   description: string
   location?: string
+  actor?: 'buyer' | 'supplier' | 'admin' | 'system'
+  supplierName?: string | null // Set on per-package events
+  products?: string[]
 }
 
 function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
@@ -105,6 +151,11 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
   const [downloadingInvoice, setDownloadingInvoice] = useState(false)
   const [markingReceived, setMarkingReceived] = useState(false)
   const [markingDelivered, setMarkingDelivered] = useState(false)
+  const [returns, setReturns] = useState<OrderReturn[]>([])
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false)
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
+  const [cancelReason, setCancelReason] = useState('')
+  const [cancellingOrder, setCancellingOrder] = useState(false)
 
   useEffect(() => {
     const getOrderNumber = async () => {
@@ -120,6 +171,7 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
 
     // Initial fetch (with loading state)
     fetchOrderDetails(false)
+    fetchReturns()
 
     let intervalId: NodeJS.Timeout | null = null
     let isPageVisible = true
@@ -173,111 +225,8 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
       
       setOrder(orderData)
       
-      // Build dynamic status history from order data
-      const dynamicStatusHistory: OrderStatus[] = []
-      
-      // Step 1: Order placed
-      dynamicStatusHistory.push({
-        status: 'pending',
-        timestamp: orderData?.createdAt || new Date().toISOString(),
-        description: 'Order placed and payment pending',
-        location: 'Online'
-      })
-      
-      // Step 2: Payment status
-      if (orderData?.paymentStatus === 'paid') {
-        dynamicStatusHistory.push({
-          status: 'paid',
-          timestamp: orderData?.paymentTimestamp || orderData?.updatedAt || new Date().toISOString(),
-          description: `Payment ${orderData.paymentStatus === 'paid' ? 'completed successfully' : orderData.paymentStatus}`,
-          location: 'Online'
-        })
-      } else if (orderData?.paymentStatus === 'failed') {
-        dynamicStatusHistory.push({
-          status: 'failed',
-          timestamp: orderData?.paymentTimestamp || orderData?.updatedAt || new Date().toISOString(),
-          description: `Payment ${orderData.paymentStatus}`,
-          location: 'Online'
-        })
-      } else {
-        dynamicStatusHistory.push({
-          status: 'pending',
-          timestamp: orderData?.updatedAt || new Date().toISOString(),
-          description: 'Payment pending',
-          location: 'Online'
-        })
-      }
-      
-      // Step 3: Confirmation status (always show if order is confirmed or beyond)
-      if (orderData?.confirmedAt || 
-          orderData?.status === 'confirmed' || 
-          orderData?.status === 'shipped' || 
-          orderData?.status === 'delivered' || 
-          orderData?.status === 'ready_for_pickup' || 
-          orderData?.status === 'picked_up') {
-        dynamicStatusHistory.push({
-          status: 'confirmed',
-          timestamp: orderData?.confirmedAt || orderData?.updatedAt || new Date().toISOString(),
-          description: 'Order confirmed by admin',
-          location: 'Online'
-        })
-      }
-      
-      // Step 4: Shipped status - show when status is 'shipped' (regardless of delivery option)
-      // Note: Admin may mark pickup orders as 'shipped' in some cases
-      if (orderData?.status === 'shipped') {
-        dynamicStatusHistory.push({
-          status: 'shipped',
-          timestamp: orderData?.updatedAt || orderData?.confirmedAt || new Date().toISOString(),
-          description: orderData?.deliveryOption === 'pickup' 
-            ? 'Order processed and ready' 
-            : 'Order shipped and in transit',
-          location: orderData?.deliveryOption === 'pickup' ? 'Store' : 'In Transit'
-        })
-      }
-      
-      // Step 4: Ready for pickup status (for pickup orders) - show separately from confirmation
-      if (orderData?.deliveryOption === 'pickup') {
-        if (orderData?.status === 'ready_for_pickup' || orderData?.status === 'picked_up') {
-          dynamicStatusHistory.push({
-            status: 'ready_for_pickup',
-            timestamp: orderData?.updatedAt || orderData?.confirmedAt || new Date().toISOString(),
-            description: 'Order ready for pickup',
-            location: 'Store'
-          })
-        }
-      }
-      
-      // Step 5: Delivered/Picked up status (customer marks when they receive the package)
-      if (orderData?.status === 'delivered') {
-        dynamicStatusHistory.push({
-          status: 'delivered',
-          timestamp: orderData?.updatedAt || new Date().toISOString(),
-          description: 'Package delivered to customer',
-          location: orderData?.shippingAddress?.city || 'Destination'
-        })
-      }
-      
-      if (orderData?.status === 'picked_up') {
-        dynamicStatusHistory.push({
-          status: 'picked_up',
-          timestamp: orderData?.updatedAt || new Date().toISOString(),
-          description: 'Package picked up by customer',
-          location: 'Store'
-        })
-      }
-      
-      // Step 6: Received status (FINAL STEP - customer confirms they received the package)
-      if (orderData?.isReceived && orderData?.receivedAt) {
-        dynamicStatusHistory.push({
-          status: 'received',
-          timestamp: orderData.receivedAt,
-          description: 'Order received successfully - Process completed',
-          location: 'Customer'
-        })
-      }
-      
-      setStatusHistory(dynamicStatusHistory)
+      // Real event log (the API falls back to a synthesized timeline for older orders)
+      setStatusHistory(await getOrderStatusHistory(orderNumber))
     } catch (error: any) {
       // Handle rate limit errors gracefully
       if (error?.status === 429 || error?.code === 'over_request_rate_limit') {
@@ -299,6 +248,52 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
     }
   }
   
+  const fetchReturns = async () => {
+    if (!orderNumber) return
+
+    try {
+      const response = await fetch(`/api/user/orders/${orderNumber}/returns`)
+      if (!response.ok) return
+      const data = await response.json()
+      setReturns(data.returns || [])
+    } catch {
+      // Returns are optional on this page, keep the last known list
+    }
+  }
+  
+  const handleCancelOrder = async () => {
+    if (!orderNumber || !order) return
+    
+    try {
+      setCancellingOrder(true)
+      
+      const response = await fetch(`/api/user/orders/${orderNumber}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: cancelReason }),
+      })
+      
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to cancel this order')
+      }
+      
+      setCancelDialogOpen(false)
+      setCancelReason('')
+      
+      // Refresh order details (background refresh, no loading state)
+      await fetchOrderDetails(true)
+      
+      alert(data.message || 'Order cancelled successfully')
+    } catch (error: any) {
+      alert(getFriendlyErrorMessage(error, 'Unable to cancel this order. Please try again.'))
+    } finally {
+      setCancellingOrder(false)
+    }
+  }
+  
   const handleMarkAsDelivered = async () => {
     if (!orderNumber || !order) return
     
@@ -400,6 +395,19 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
     }
   }
 
+  const getReturnStatusBadge = (status: OrderReturn['status']) => {
+    switch (status) {
+      case 'requested':
+        return <Badge className="bg-yellow-100 text-yellow-800 text-xs sm:text-sm px-2 sm:px-2.5 py-0.5 sm:py-1">Under Review</Badge>
+      case 'approved':
+        return <Badge className="bg-green-100 text-green-800 text-xs sm:text-sm px-2 sm:px-2.5 py-0.5 sm:py-1">Refunded</Badge>
+      case 'rejected':
+        return <Badge className="bg-red-100 text-red-800 text-xs sm:text-sm px-2 sm:px-2.5 py-0.5 sm:py-1">Rejected</Badge>
+      default:
+        return <Badge variant="outline" className="text-xs sm:text-sm px-2 sm:px-2.5 py-0.5 sm:py-1">{status}</Badge>
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -407,6 +415,7 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
       case 'paid':
         return <CreditCard className="w-5 h-5" />
       case 'failed':
+      case 'payment_failed':
         return <X className="w-5 h-5" />
       case 'confirmed':
         return <CheckCircle className="w-5 h-5" />
@@ -538,6 +547,7 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
       case 'paid':
         return <Badge className="bg-green-100 text-green-800">Payment Successful</Badge>
       case 'failed':
+      case 'payment_failed':
         return <Badge className="bg-red-100 text-red-800">Failed</Badge>
       case 'confirmed':
         return <Badge className="bg-blue-100 text-blue-800">Confirmed</Badge>
@@ -676,6 +686,36 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
     )
   }
 
+  // Delivered items that still have quantity not covered by an open or refunded return
+  const returnedQuantities = new Map<string, number>()
+  returns
+    .filter(orderReturn => orderReturn.status !== 'rejected')
+    .forEach(orderReturn => orderReturn.items.forEach(item => {
+      const key = `${item.productId}-${item.variantName || ''}`
+      returnedQuantities.set(key, (returnedQuantities.get(key) || 0) + item.quantity)
+    }))
+  const returnableItems = order.items
+    .filter(item => item.itemKey && (item.status === 'delivered' || item.status === 'picked_up'))
+    .map(item => {
+      const key = `${item.productId}-${item.variantName || ''}`
+      const returned = Math.min(item.quantity, returnedQuantities.get(key) || 0)
+      returnedQuantities.set(key, (returnedQuantities.get(key) || 0) - returned)
+      return {
+        itemKey: item.itemKey!,
+        productName: item.productName,
+        variantName: item.variantName,
+        productImage: item.productImage,
+        quantity: item.quantity - returned,
+        unitPrice: item.unitPrice
+      }
+    })
+    .filter(item => item.quantity > 0)
+
+  // Buyers can cancel until any package ships
+  const canCancelOrder = (order.status === 'pending' || order.status === 'confirmed') &&
+    order.paymentStatus !== 'failed' &&
+    order.items.every(item => !item.status || item.status === 'confirmed' || item.status === 'cancelled')
+
   return (
     <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-7xl">
       {/* Header - Mobile Optimized */}
@@ -796,6 +836,8 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
                       if (itemStatus === 'confirmed' && currentStatus === 'confirmed') return itemStatus
                       return currentStatus
                     }, 'confirmed')
+                    // Real timestamps for this package from the order's event log
+                    const packageHistory = statusHistory.filter(entry => entry.supplierName && entry.supplierName === items[0]?.supplierName)
                     
                     return (
                       <div key={supplierKey} className="border rounded-lg p-3 sm:p-4 space-y-3 sm:space-y-4 bg-white dark:bg-gray-900">
@@ -813,6 +855,13 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
                                 </p>
                               </div>
                             )}
+                            <Link
+                              href={`/account/messages?order=${order.orderNumber}&product=${items[0]?.productId}`}
+                              className="mt-2 inline-flex items-center gap-1 text-xs sm:text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              <MessageCircle className="w-3.5 h-3.5" />
+                              Message seller
+                            </Link>
                           </div>
                           {/* Show status badge only - button moved to bottom */}
                           <div className="flex-shrink-0">
@@ -897,6 +946,16 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
                                 })}
                               </div>
                             </div>
+                            {packageHistory.length > 0 && (
+                              <div className="mt-2 space-y-1">
+                                {packageHistory.map((entry, index) => (
+                                  <p key={`${entry.status}-${entry.timestamp}-${index}`} className="text-[10px] sm:text-xs text-muted-foreground">
+                                    <span className="font-medium text-foreground">{entry.description}</span>
+                                    {' · '}{formatDate(entry.timestamp)}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         )}
                         
@@ -1037,6 +1096,81 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
           </Card>
           )}
 
+          {/* Order History - Mobile Optimized */}
+          {statusHistory.length > 0 && (
+            <Card className="shadow-sm border-0 sm:border">
+              <CardHeader className="px-4 sm:px-6 pt-4 sm:pt-6 pb-3 sm:pb-4">
+                <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                  <Clock className="w-4 h-4 sm:w-5 sm:h-5" />
+                  Order History
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 sm:px-6 pb-4 sm:pb-6">
+                <div className="space-y-3 sm:space-y-4">
+                  {statusHistory.map((entry, index) => (
+                    <div key={`${entry.status}-${entry.timestamp}-${index}`} className="flex gap-3">
+                      <div className="flex-shrink-0 w-8 h-8 sm:w-9 sm:h-9 rounded-full bg-muted flex items-center justify-center text-muted-foreground">
+                        {getStatusIcon(entry.status)}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <p className="text-xs sm:text-sm font-medium">{entry.description}</p>
+                          {getStatusBadgeForTimeline(entry.status)}
+                        </div>
+                        {(entry.supplierName || entry.products?.length) && (
+                          <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                            {[entry.supplierName, entry.products?.join(', ')].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                        <p className="text-[10px] sm:text-xs text-muted-foreground mt-0.5">
+                          {formatDate(entry.timestamp)}
+                          {entry.location && ` · ${entry.location}`}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Returns - Mobile Optimized */}
+          {returns.length > 0 && (
+            <Card className="shadow-sm border-0 sm:border">
+              <CardHeader className="px-4 sm:px-6 pt-4 sm:pt-6 pb-3 sm:pb-4">
+                <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                  <RotateCcw className="w-4 h-4 sm:w-5 sm:h-5" />
+                  Returns
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 sm:px-6 pb-4 sm:pb-6">
+                <div className="space-y-3">
+                  {returns.map((orderReturn) => (
+                    <div key={orderReturn.returnNumber} className="p-3 rounded-lg border">
+                      <div className="flex items-center justify-between gap-2 mb-1.5">
+                        <span className="font-mono text-xs sm:text-sm">{orderReturn.returnNumber}</span>
+                        {getReturnStatusBadge(orderReturn.status)}
+                      </div>
+                      <p className="text-xs sm:text-sm text-muted-foreground">
+                        {orderReturn.items.map(item => `${item.quantity} × ${item.productName || 'Item'}`).join(', ')}
+                      </p>
+                      <p className="text-xs sm:text-sm mt-1">
+                        Refund: <span className="font-semibold">{formatCurrency(orderReturn.refundAmount, orderReturn.currency)}</span>
+                      </p>
+                      {orderReturn.supplierNote && (
+                        <p className="text-xs sm:text-sm mt-1 italic">Supplier: {orderReturn.supplierNote}</p>
+                      )}
+                      <p className="text-[10px] sm:text-xs text-muted-foreground mt-1">
+                        Requested {formatDate(orderReturn.createdAt)}
+                        {orderReturn.resolvedAt && ` · Resolved ${formatDate(orderReturn.resolvedAt)}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Tracking Information - Mobile Optimized */}
           {order.trackingNumber && (
             <Card className="shadow-sm border-0 sm:border">
@@ -1168,8 +1302,29 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
                   </div>
                 )}
                 
+                {/* Pickup point chosen at checkout */}
+                {order.deliveryOption === 'pickup' && order.pickupPoint && (
+                  <div className="space-y-1 sm:space-y-1.5">
+                    <p className="font-medium text-sm sm:text-base">{order.pickupPoint.name}</p>
+                    <p className="text-sm sm:text-base">{order.pickupPoint.address}</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      {[order.pickupPoint.ward, order.pickupPoint.district, order.pickupPoint.region].filter(Boolean).join(', ')}
+                    </p>
+                    <p className="flex items-center gap-1.5 sm:gap-2 text-xs sm:text-sm text-muted-foreground">
+                      <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+                      {order.pickupPoint.hours}
+                    </p>
+                    {order.pickupPoint.phone && (
+                      <p className="flex items-center gap-1.5 sm:gap-2 text-xs sm:text-sm text-muted-foreground">
+                        <Phone className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+                        {order.pickupPoint.phone}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* For pickup orders, show pickup ID prominently if no address */}
-                {order.deliveryOption === 'pickup' && (!order.shippingAddress || !order.shippingAddress.fullName) && (
+                {order.deliveryOption === 'pickup' && !order.pickupPoint && (!order.shippingAddress || !order.shippingAddress.fullName) && (
                   <div className="space-y-2">
                     <p className="text-xs sm:text-sm text-muted-foreground">
                       Pickup orders don't require a shipping address. Please collect from our store.
@@ -1182,8 +1337,27 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
                   <div className="mt-3 sm:mt-4 p-2.5 sm:p-3 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
                     <h4 className="font-medium text-purple-900 dark:text-purple-100 mb-1.5 sm:mb-2 text-sm sm:text-base">Pickup Instructions</h4>
                     <p className="text-xs sm:text-sm text-purple-700 dark:text-purple-300 leading-relaxed">
-                      Please bring a valid ID and your pickup ID ({order.pickupId}) when collecting your order.
-                      Our store hours are Monday-Friday 9AM-6PM, Saturday 9AM-4PM.
+                      {order.pickupPoint?.instructions || (
+                        <>
+                          Please bring a valid ID and your pickup ID ({order.pickupId}) when collecting your order.
+                          {!order.pickupPoint && ' Our store hours are Monday-Friday 9AM-6PM, Saturday 9AM-4PM.'}
+                        </>
+                      )}
+                    </p>
+                    {order.pickupReadyAt && !order.pickedUpAt && (
+                      <p className="text-xs sm:text-sm font-medium text-purple-900 dark:text-purple-100 mt-2">
+                        Your parcel has been waiting since {new Date(order.pickupReadyAt).toLocaleDateString()}.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Pickup QR: staff scan it to hand the parcel over */}
+                {order.deliveryOption === 'pickup' && order.pickupQrValue && !order.pickedUpAt && (
+                  <div className="flex flex-col items-center gap-2 pt-2">
+                    <QRCode value={order.pickupQrValue} size={180} />
+                    <p className="text-xs text-muted-foreground text-center">
+                      Show this code at the pickup point
                     </p>
                   </div>
                 )}
@@ -1280,9 +1454,66 @@ function OrderDetailContent({ params }: { params: Promise<{ id: string }> }) {
                     Leave Review
                   </Button>
                 )}
+                {canCancelOrder && (
+                  <Button
+                    variant="outline"
+                    className="w-full h-10 sm:h-11 text-xs sm:text-sm text-red-600 hover:text-red-700"
+                    onClick={() => setCancelDialogOpen(true)}
+                  >
+                    <X className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5 sm:mr-2" />
+                    Cancel Order
+                  </Button>
+                )}
+                {returnableItems.length > 0 && (
+                  <Button
+                    variant="outline"
+                    className="w-full h-10 sm:h-11 text-xs sm:text-sm"
+                    onClick={() => setReturnDialogOpen(true)}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5 sm:mr-2" />
+                    Request Return
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
+
+          <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Cancel Order {order.orderNumber}?</DialogTitle>
+                <DialogDescription>
+                  {order.paymentStatus === 'paid'
+                    ? `You will be refunded ${formatCurrency(order.totalAmount, order.currency)} to your original payment method.`
+                    : 'This order has not been paid, so nothing will be charged.'}
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                maxLength={500}
+                rows={3}
+                placeholder="Reason for cancelling (optional)"
+              />
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCancelDialogOpen(false)} disabled={cancellingOrder}>
+                  Keep Order
+                </Button>
+                <Button variant="destructive" onClick={handleCancelOrder} disabled={cancellingOrder}>
+                  {cancellingOrder ? 'Cancelling...' : 'Cancel Order'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          <OrderReturnDialog
+            open={returnDialogOpen}
+            onOpenChange={setReturnDialogOpen}
+            orderNumber={order.orderNumber}
+            currency={order.currency}
+            items={returnableItems}
+            onSubmitted={fetchReturns}
+          />
         </div>
       </div>
     </div>
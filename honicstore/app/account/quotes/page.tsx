@@ -0,0 +1,307 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle, Clock, FileText, Plus, XCircle } from 'lucide-react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/auth-context'
+import { useCurrency } from '@/contexts/currency-context'
+import { useToast } from '@/hooks/use-toast'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+import { logger } from '@/lib/logger'
+import { ProtectedRoute } from '@/components/protected-route'
+import { QuoteRequestDialog } from '@/components/quote-request-dialog'
+
+type RequestState = 'open' | 'accepted' | 'closed' | 'expired'
+type QuoteState = 'submitted' | 'accepted' | 'ordered' | 'declined' | 'withdrawn' | 'expired'
+
+interface Quote {
+  quoteNumber: string
+  supplierName: string | null
+  productId: number
+  productName: string | null
+  variantName: string | null
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+  leadTimeDays: number | null
+  validUntil: string
+  note: string | null
+  state: QuoteState
+  orderNumber: string | null
+}
+
+interface QuoteRequest {
+  requestNumber: string
+  source: string
+  title: string
+  specification: string | null
+  quantity: number
+  targetUnitPrice: number | null
+  deadline: string
+  attachments: string[]
+  state: RequestState
+  supplierCount: number
+  createdAt: string
+  quotes: Quote[]
+}
+
+const REQUEST_BADGES: Record<RequestState, { label: string; className: string }> = {
+  open: { label: 'Waiting for quotes', className: 'bg-blue-100 text-blue-800' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: 'Deadline passed', className: 'bg-red-100 text-red-800' }
+}
+
+const QUOTE_LABELS: Record<QuoteState, string> = {
+  submitted: 'Quoted',
+  accepted: 'Accepted',
+  ordered: 'Ordered',
+  declined: 'Not selected',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired'
+}
+
+function QuotesPageContent() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const { toast } = useToast()
+  const { formatPrice } = useCurrency()
+  const [requests, setRequests] = useState<QuoteRequest[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/quote-requests', { credentials: 'include' })
+      const data = await response.json()
+      if (response.ok && data.success) {
+        setRequests(data.requests || [])
+      }
+    } catch (error) {
+      logger.error('Error loading quote requests:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) loadRequests()
+  }, [user, loadRequests])
+
+  const showError = (title: string, response: Response | null, data: any) => {
+    toast({
+      title,
+      description: response && response.status < 500 && data?.error
+        ? data.error
+        : getFriendlyErrorMessage(data?.error || response?.status, 'Something went wrong. Please try again.'),
+      variant: 'destructive'
+    })
+  }
+
+  const handleAccept = async (request: QuoteRequest, quote: Quote) => {
+    if (!confirm(`Accept ${quote.supplierName || 'this supplier'}'s quote of ${formatPrice(quote.unitPrice)} each? Other quotes will be declined.`)) return
+    setBusy(quote.quoteNumber)
+    try {
+      const response = await fetch(
+        `/api/user/quote-requests/${request.requestNumber}/quotes/${quote.quoteNumber}/accept`,
+        { method: 'POST', credentials: 'include' }
+      )
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError('Quote not accepted', response, data)
+        return
+      }
+      toast({ title: 'Quote accepted', description: `${quote.quantity} units are in your cart at the quoted price` })
+      router.push('/cart')
+    } catch (error) {
+      showError('Quote not accepted', null, { error })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleClose = async (request: QuoteRequest) => {
+    if (!confirm('Close this request? Suppliers will no longer be able to quote.')) return
+    setBusy(request.requestNumber)
+    try {
+      const response = await fetch(`/api/user/quote-requests/${request.requestNumber}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError('Request not closed', response, data)
+        return
+      }
+      toast({ title: 'Request closed' })
+      await loadRequests()
+    } catch (error) {
+      showError('Request not closed', null, { error })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading quotes...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 min-h-screen bg-background">
+      {/* Header */}
+      <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">My Quotes</h1>
+          <p className="text-muted-foreground">Ask suppliers to price bulk or custom orders and accept the best offer</p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Request
+        </Button>
+      </div>
+
+      {requests.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <FileText className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">No quote requests yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Need 500 units, a custom PCB or a part from China? Send a request and suppliers will quote you a price.
+            </p>
+            <Button onClick={() => setIsDialogOpen(true)}>Request a Quote</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {requests.map(request => (
+            <Card key={request.requestNumber}>
+              <CardHeader className="pb-3">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold truncate">{request.title}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {request.requestNumber} · {request.quantity.toLocaleString()} units
+                      {request.targetUnitPrice !== null && ` · target ${formatPrice(request.targetUnitPrice)} each`}
+                    </p>
+                  </div>
+                  <Badge className={REQUEST_BADGES[request.state].className}>{REQUEST_BADGES[request.state].label}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {request.specification && (
+                  <p className="text-sm whitespace-pre-line">{request.specification}</p>
+                )}
+                {request.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {request.attachments.map(url => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="relative w-14 h-14">
+                        <Image src={url} alt="Attachment" fill className="rounded border object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Clock className="w-4 h-4" />
+                  <span>
+                    Quotes needed by {new Date(request.deadline).toLocaleDateString()} · sent to {request.supplierCount} supplier{request.supplierCount === 1 ? '' : 's'}
+                  </span>
+                </div>
+
+                {request.quotes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {request.state === 'open' ? 'No quotes yet. Suppliers are notified and usually reply within a few days.' : 'No quotes were received.'}
+                  </p>
+                ) : (
+                  <div className="divide-y rounded-md border">
+                    {request.quotes.map(quote => (
+                      <div key={quote.quoteNumber} className="p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                        <div className="space-y-1 min-w-0 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold">{formatPrice(quote.unitPrice)} each</span>
+                            <Badge variant="outline" className="text-xs">{QUOTE_LABELS[quote.state]}</Badge>
+                          </div>
+                          <p className="text-muted-foreground">
+                            {quote.supplierName || 'Supplier'} ·{' '}
+                            <Link href={`/products/${quote.productId}`} className="hover:underline">
+                              {quote.productName || 'Product'}{quote.variantName ? ` (${quote.variantName})` : ''}
+                            </Link>
+                          </p>
+                          <p className="text-muted-foreground">
+                            {quote.quantity.toLocaleString()} units · {formatPrice(quote.totalPrice)} total
+                            {quote.leadTimeDays !== null && ` · ships in ${quote.leadTimeDays} day${quote.leadTimeDays === 1 ? '' : 's'}`}
+                            {' '}· valid until {new Date(quote.validUntil).toLocaleDateString()}
+                          </p>
+                          {quote.note && <p className="whitespace-pre-line">{quote.note}</p>}
+                          {quote.orderNumber && (
+                            <Link href={`/account/orders/${quote.orderNumber}`} className="text-blue-600 hover:underline">
+                              Order {quote.orderNumber}
+                            </Link>
+                          )}
+                        </div>
+                        {request.state === 'open' && quote.state === 'submitted' && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleAccept(request, quote)}
+                            disabled={busy !== null}
+                            className="flex-shrink-0"
+                          >
+                            <CheckCircle className="w-4 h-4 mr-2" />
+                            {busy === quote.quoteNumber ? 'Accepting...' : 'Accept'}
+                          </Button>
+                        )}
+                        {quote.state === 'accepted' && (
+                          <Button size="sm" variant="outline" onClick={() => router.push('/cart')} className="flex-shrink-0">
+                            Go to Cart
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {request.state === 'open' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleClose(request)}
+                    disabled={busy !== null}
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    {busy === request.requestNumber ? 'Closing...' : 'Close Request'}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <QuoteRequestDialog
+        open={isDialogOpen}
+        onOpenChange={(open) => {
+          setIsDialogOpen(open)
+          if (!open) loadRequests()
+        }}
+        source="custom"
+      />
+    </div>
+  )
+}
+
+export default function QuotesPage() {
+  return (
+    <ProtectedRoute>
+      <QuotesPageContent />
+    </ProtectedRoute>
+  )
+}
@@ -21,6 +21,7 @@ export default function AccountSettingsPage() {
   const [saving, setSaving] = useState(false)
   const [fullName, setFullName] = useState('')
   const [phone, setPhone] = useState('')
+  const [dateOfBirth, setDateOfBirth] = useState('')
   const [pwd1, setPwd1] = useState('')
   const [pwd2, setPwd2] = useState('')
   const [changingPwd, setChangingPwd] = useState(false)
@@ -36,6 +37,7 @@ export default function AccountSettingsPage() {
         if (res.ok && json?.profile) {
           setFullName(json.profile.full_name || '')
           setPhone(json.profile.phone || '')
+          setDateOfBirth(json.profile.date_of_birth || '')
         }
       } catch {}
       setLoading(false)
@@ -51,7 +53,7 @@ export default function AccountSettingsPage() {
       const res = await fetch('/api/user/profile', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
-        body: JSON.stringify({ full_name: fullName, phone })
+        body: JSON.stringify({ full_name: fullName, phone, date_of_birth: dateOfBirth })
       })
       const json = await res.json()
       if (res.ok) {
@@ -122,6 +124,11 @@ export default function AccountSettingsPage() {
               <Label htmlFor="phone">Phone</Label>
               <Input id="phone" value={phone} onChange={(e)=>setPhone(e.target.value)} disabled={loading} />
             </div>
+            <div className="space-y-1">
+              <Label htmlFor="date_of_birth">Date of Birth</Label>
+              <Input id="date_of_birth" type="date" value={dateOfBirth} onChange={(e)=>setDateOfBirth(e.target.value)} disabled={loading} />
+              <p className="text-xs text-gray-500">We send you a birthday coupon every year.</p>
+            </div>
           </div>
           <div className="mt-4">
             <Button onClick={saveProfile} disabled={saving}>{saving ? 'Saving...' : 'Save Changes'}</Button>
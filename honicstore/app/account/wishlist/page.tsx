@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -14,17 +14,28 @@ import {
   Share2,
   Plus,
   Minus,
-  Star
+  Star,
+  Link2Off
 } from 'lucide-react'
 import { useAuth } from '@/contexts/auth-context'
 import { useRouter } from 'next/navigation'
 import { useCart } from '@/hooks/use-cart'
-import { useWishlist } from '@/hooks/use-wishlist'
+import { useWishlist, WishlistEntry } from '@/hooks/use-wishlist'
+import { useToast } from '@/hooks/use-toast'
 import { useProductsByIds } from '@/hooks/use-products-by-ids'
 import { Product } from '@/hooks/use-products'
 import Image from 'next/image'
 import Link from 'next/link'
 
+interface WishlistList {
+  id: string
+  name: string
+  isDefault: boolean
+  shared: boolean
+  shareToken: string | null
+  itemCount: number
+}
+
 interface WishlistItem {
   id: string
   productId: string
@@ -34,6 +45,10 @@ interface WishlistItem {
   originalPrice?: number
   image: string
   addedDate: Date
+  // Price when it was saved, to show how much it dropped since
+  priceAtSave?: number
+  variantId?: number | null
+  variantName?: string | null
   isInStock: boolean
   quantity: number
   category: string
@@ -45,35 +60,82 @@ function WishlistPageContent() {
   const { user } = useAuth()
   const router = useRouter()
   const { addItem } = useCart()
-  const { items: wishEntries, remove: removeFromWishlist } = useWishlist()
+  const { toast } = useToast()
+  const { items: defaultEntries, remove: removeFromWishlist, reload: reloadWishlist } = useWishlist()
+  const [lists, setLists] = useState<WishlistList[]>([])
+  const [selectedListId, setSelectedListId] = useState<string | null>(null)
+  const [listEntries, setListEntries] = useState<WishlistEntry[]>([])
+  const [newListName, setNewListName] = useState('')
   const [searchTerm, setSearchTerm] = useState('')
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
   const [sortBy, setSortBy] = useState<string>('date')
   
+  const fetchLists = useCallback(async () => {
+    if (!user) return
+    try {
+      const res = await fetch('/api/user/wishlists', { cache: 'no-store' })
+      if (res.ok) {
+        const data = await res.json()
+        setLists(data.lists || [])
+      }
+    } catch {}
+  }, [user])
+
+  useEffect(() => {
+    fetchLists()
+  }, [fetchLists])
+
+  const selectedList = lists.find(list => list.id === selectedListId) || lists.find(list => list.isDefault) || null
+  const isDefaultList = !selectedList || selectedList.isDefault
+
+  // The default list comes from the wishlist hook, other lists are loaded here
+  const otherListId = !isDefaultList && selectedList ? selectedList.id : null
+  useEffect(() => {
+    if (!otherListId) {
+      setListEntries([])
+      return
+    }
+    let cancelled = false
+    fetch(`/api/user/wishlist?listId=${otherListId}`, { cache: 'no-store' })
+      .then(res => res.ok ? res.json() : { items: [] })
+      .then(data => { if (!cancelled) setListEntries(data.items || []) })
+      .catch(() => { if (!cancelled) setListEntries([]) })
+    return () => { cancelled = true }
+  }, [otherListId])
+
+  const wishEntries = isDefaultList ? defaultEntries : listEntries
+
   // Get product IDs from wishlist entries - memoize to prevent infinite re-renders
-  const productIds = useMemo(() => wishEntries.map(entry => entry.productId), [wishEntries])
+  const productIds = useMemo(() => [...new Set(wishEntries.map(entry => entry.productId))], [wishEntries])
   const { products, loading: productsLoading } = useProductsByIds(productIds)
   
   // Create wishlist items with full product data - memoize to prevent infinite re-renders
   const wishlistItems = useMemo(() => {
-    return products.map(product => {
-      const wishEntry = wishEntries.find(entry => entry.productId === product.id)
-      return {
-        id: String(product.id),
+    return wishEntries.flatMap(wishEntry => {
+      const product = products.find(p => p.id === wishEntry.productId)
+      if (!product) return []
+      const variant = wishEntry.variantId != null
+        ? product.variants?.find(v => Number(v.id) === wishEntry.variantId)
+        : undefined
+      return [{
+        id: `${product.id}:${wishEntry.variantId ?? ''}`,
         productId: String(product.id),
         slug: product.slug || String(product.id), // Include slug for SEO-friendly URLs
         name: product.name,
-        price: product.price,
+        price: variant?.price || product.price,
         originalPrice: product.originalPrice,
-        image: product.image,
-        addedDate: wishEntry ? new Date(wishEntry.addedAt) : new Date(),
-        isInStock: product.inStock,
+        image: variant?.image || product.image,
+        addedDate: new Date(wishEntry.addedAt),
+        priceAtSave: wishEntry.priceAtSave,
+        variantId: wishEntry.variantId ?? null,
+        variantName: wishEntry.variantName ?? null,
+        isInStock: variant ? variant.inStock : product.inStock,
         quantity: 1,
         category: product.category,
         rating: product.rating,
         reviewCount: product.reviews,
         product: product
-      }
+      }]
     })
   }, [products, wishEntries])
 
@@ -125,19 +187,92 @@ function WishlistPageContent() {
   const handleAddToCart = (item: WishlistItem) => {
     const qty = Math.max(1, item.quantity || 1)
     const price = item.price
-    addItem(item.productId, qty, undefined, {}, price)
+    addItem(Number(item.productId), qty, item.variantId != null ? String(item.variantId) : undefined, {}, price)
   }
 
-  const handleRemoveFromWishlist = async (itemId: string) => {
-    const productId = parseInt(itemId)
-    if (!isNaN(productId)) {
-      await removeFromWishlist(productId)
+  const handleRemoveFromWishlist = async (item: WishlistItem) => {
+    const productId = parseInt(item.productId)
+    if (isNaN(productId)) return
+
+    if (isDefaultList) {
+      await removeFromWishlist(productId, item.variantId)
+    } else if (selectedList) {
+      const variantParam = item.variantId != null ? `&variantId=${item.variantId}` : ''
+      setListEntries(prev => prev.filter(entry => !(entry.productId === productId && (entry.variantId ?? null) === (item.variantId ?? null))))
+      try { await fetch(`/api/user/wishlist?productId=${productId}${variantParam}&listId=${selectedList.id}`, { method: 'DELETE' }) } catch {}
     }
+    fetchLists()
   }
 
-  const handleShareWishlist = () => {
-    // In real app, this would share the wishlist
-    navigator.clipboard.writeText(`${window.location.origin}/account/wishlist`)
+  const updateList = async (list: WishlistList, changes: { shared?: boolean; name?: string }) => {
+    const res = await fetch(`/api/user/wishlists/${list.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast({ title: 'Wishlist not updated', description: data.error || 'Please try again.', variant: 'destructive' })
+      return null
+    }
+    setLists(prev => prev.map(item => item.id === list.id ? data.list : item))
+    return data.list as WishlistList
+  }
+
+  const handleShareWishlist = async () => {
+    if (!selectedList) {
+      toast({ title: 'Sign in to share', description: 'Sign in to share your wishlist with a link.' })
+      return
+    }
+    const list = selectedList.shared ? selectedList : await updateList(selectedList, { shared: true })
+    if (!list?.shareToken) return
+    const shareUrl = `${window.location.origin}/wishlist/shared/${list.shareToken}`
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      toast({ title: 'Link copied', description: 'Anyone with the link can view this list and add its items to their cart.' })
+    } catch {
+      toast({ title: 'Share link', description: shareUrl })
+    }
+  }
+
+  const handleStopSharing = async () => {
+    if (!selectedList) return
+    const list = await updateList(selectedList, { shared: false })
+    if (list) {
+      toast({ title: 'Sharing turned off', description: 'The old link no longer works.' })
+    }
+  }
+
+  const handleCreateList = async () => {
+    const name = newListName.trim()
+    if (!name) return
+    const res = await fetch('/api/user/wishlists', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name })
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast({ title: 'List not created', description: data.error || 'Please try again.', variant: 'destructive' })
+      return
+    }
+    setLists(prev => [...prev, data.list])
+    setSelectedListId(data.list.id)
+    setNewListName('')
+  }
+
+  const handleDeleteList = async () => {
+    if (!selectedList || selectedList.isDefault) return
+    if (!confirm(`Delete "${selectedList.name}" and its items?`)) return
+    const res = await fetch(`/api/user/wishlists/${selectedList.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      toast({ title: 'List not deleted', description: data.error || 'Please try again.', variant: 'destructive' })
+      return
+    }
+    setLists(prev => prev.filter(list => list.id !== selectedList.id))
+    setSelectedListId(null)
+    reloadWishlist()
   }
 
   const getCategories = () => {
@@ -164,14 +299,54 @@ function WishlistPageContent() {
         <div className="mb-4">
           <h1 className="text-3xl font-bold -mt-2">My Wish List</h1>
           <p className="text-muted-foreground">
-            {wishlistItems.length} items in your wishlist
+            {wishlistItems.length} items in {selectedList ? `"${selectedList.name}"` : 'your wishlist'}
           </p>
         </div>
-        <div className="flex space-x-2">
+        {lists.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {lists.map(list => (
+              <Button
+                key={list.id}
+                size="sm"
+                variant={selectedList?.id === list.id ? 'default' : 'outline'}
+                onClick={() => setSelectedListId(list.id)}
+              >
+                {list.name}
+                <Badge variant="secondary" className="ml-2 text-[10px] px-1.5 py-0">{list.itemCount}</Badge>
+              </Button>
+            ))}
+            <div className="flex items-center gap-1">
+              <Input
+                value={newListName}
+                onChange={(e) => setNewListName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreateList() }}
+                placeholder="New list name"
+                maxLength={60}
+                className="h-8 w-40"
+              />
+              <Button size="sm" variant="outline" onClick={handleCreateList} disabled={!newListName.trim()}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
           <Button variant="outline" onClick={handleShareWishlist}>
             <Share2 className="w-4 h-4 mr-2" />
-            Share Wishlist
+            {selectedList?.shared ? 'Copy Share Link' : 'Share Wishlist'}
           </Button>
+          {selectedList?.shared && (
+            <Button variant="outline" onClick={handleStopSharing}>
+              <Link2Off className="w-4 h-4 mr-2" />
+              Stop Sharing
+            </Button>
+          )}
+          {selectedList && !selectedList.isDefault && (
+            <Button variant="outline" onClick={handleDeleteList} className="text-red-600 hover:text-red-700">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete List
+            </Button>
+          )}
           <Button onClick={() => router.push('/products')}>
             <Plus className="w-4 h-4 mr-2" />
             Browse Products
@@ -274,7 +449,7 @@ function WishlistPageContent() {
                   size="sm"
                   onClick={(e) => {
                     e.preventDefault()
-                    handleRemoveFromWishlist(item.id)
+                    handleRemoveFromWishlist(item)
                   }}
                   className="bg-white/80 hover:bg-white p-1 h-6 w-6"
                 >
@@ -289,6 +464,9 @@ function WishlistPageContent() {
                     {item.name}
                   </h3>
                 </Link>
+                {item.variantName && (
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 mb-1 truncate">{item.variantName}</p>
+                )}
                 {/* Rating */}
                 <div className="flex items-center gap-1 text-[10px] text-gray-500 dark:text-gray-400 mb-1">
                   {Array.from({ length: 5 }).map((_, i) => (
@@ -314,6 +492,11 @@ function WishlistPageContent() {
                     </div>
                   )}
                 </div>
+                {item.priceAtSave !== undefined && item.priceAtSave > item.price && (
+                  <p className="text-[10px] font-medium text-green-600 dark:text-green-400 mb-1">
+                    Down TZS {(item.priceAtSave - item.price).toFixed(0)} since you saved it
+                  </p>
+                )}
               </div>
               {/* Action Buttons */}
               <div className="flex gap-2 mt-1">
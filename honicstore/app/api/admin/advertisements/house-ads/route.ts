@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getHouseAdSettings, setHouseAds } from '@/lib/ad-campaigns'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/advertisements/house-ads - House ads per placement, shown when no campaign is eligible
+export async function GET(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const houseAds = await getHouseAdSettings(getSupabaseClient())
+    return NextResponse.json({ success: true, houseAds })
+  } catch (error) {
+    logError(error, {
+      action: 'admin_house_ads_get'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
+
+// PUT /api/admin/advertisements/house-ads - Replace one placement's house ads ({ placement, advertisementIds })
+export async function PUT(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.placement !== 'string' || !Array.isArray(body.advertisementIds)) {
+      return NextResponse.json(
+        { success: false, error: 'placement and advertisementIds are required' },
+        { status: 400 }
+      )
+    }
+
+    const houseAds = await setHouseAds(getSupabaseClient(), {
+      placement: body.placement,
+      advertisementIds: body.advertisementIds.map(Number),
+      adminId: user.id
+    })
+
+    return NextResponse.json({
+      success: true,
+      placement: body.placement,
+      houseAds
+    })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_house_ads_put'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
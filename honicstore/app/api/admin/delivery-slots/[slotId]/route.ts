@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getDeliverySlot, normalizeDeliverySlotInput, updateDeliverySlot } from '@/lib/delivery-slots'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function requireAdmin(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return { user: null, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+  return { user, response: null }
+}
+
+function parseSlotId(value: string): number | null {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof ProductionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.statusCode }
+    )
+  }
+  logError(error, { action })
+  return createErrorResponse(error, 500)
+}
+
+const NOT_FOUND = { success: false, error: 'Delivery slot not found' }
+
+// GET /api/admin/delivery-slots/[slotId] - One delivery slot
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slotId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const slotId = parseSlotId((await params).slotId)
+    if (!slotId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const slot = await getDeliverySlot(getSupabaseClient(), slotId)
+    return NextResponse.json({ success: true, slot })
+  } catch (error) {
+    return errorResponse(error, 'admin_delivery_slot_get')
+  }
+}
+
+// PATCH /api/admin/delivery-slots/[slotId] - Change the window, cutoff, capacity or wards; booked orders keep the label they were promised
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ slotId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const slotId = parseSlotId((await params).slotId)
+    if (!slotId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const slot = await updateDeliverySlot(getSupabaseClient(), slotId, normalizeDeliverySlotInput(body))
+    return NextResponse.json({ success: true, slot })
+  } catch (error) {
+    return errorResponse(error, 'admin_delivery_slot_update')
+  }
+}
+
+// DELETE /api/admin/delivery-slots/[slotId] - Stop offering a slot; kept so orders booked into it still show it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slotId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const slotId = parseSlotId((await params).slotId)
+    if (!slotId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const slot = await updateDeliverySlot(getSupabaseClient(), slotId, { isActive: false })
+    return NextResponse.json({ success: true, slot })
+  } catch (error) {
+    return errorResponse(error, 'admin_delivery_slot_deactivate')
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  createDeliverySlot,
+  deliverySlotDate,
+  formatDeliverySlot,
+  getDeliverySlotLoad,
+  getDeliverySlots,
+  normalizeDeliverySlotInput
+} from '@/lib/delivery-slots'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/delivery-slots - All same-day delivery slots, inactive included, with today's bookings
+export async function GET(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const supabase = getSupabaseClient()
+    const slots = await getDeliverySlots(supabase)
+    const date = deliverySlotDate()
+    const load = await getDeliverySlotLoad(supabase, slots.map(slot => slot.id), date)
+
+    return NextResponse.json({
+      success: true,
+      date,
+      slots: slots.map(slot => ({
+        ...slot,
+        label: formatDeliverySlot(slot),
+        ordersToday: load.get(slot.id) || 0
+      }))
+    })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_delivery_slots_get'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
+
+// POST /api/admin/delivery-slots - Add a slot; it is offered at checkout straight away unless isActive is false
+export async function POST(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const slot = await createDeliverySlot(getSupabaseClient(), normalizeDeliverySlotInput(body))
+    return NextResponse.json({ success: true, slot }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_delivery_slots_create'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getPickupPoint, normalizePickupPointInput, updatePickupPoint } from '@/lib/pickup-points'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function requireAdmin(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return { user: null, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+  return { user, response: null }
+}
+
+function parsePointId(value: string): number | null {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof ProductionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.statusCode }
+    )
+  }
+  logError(error, { action })
+  return createErrorResponse(error, 500)
+}
+
+const NOT_FOUND = { success: false, error: 'Pickup point not found' }
+
+// GET /api/admin/pickup-points/[pointId] - One pickup point
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pointId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const pointId = parsePointId((await params).pointId)
+    if (!pointId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const point = await getPickupPoint(getSupabaseClient(), pointId)
+    return NextResponse.json({ success: true, point })
+  } catch (error) {
+    return errorResponse(error, 'admin_pickup_point_get')
+  }
+}
+
+// PATCH /api/admin/pickup-points/[pointId] - Change details, hours, capacity or staff; orders already placed keep their point
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ pointId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const pointId = parsePointId((await params).pointId)
+    if (!pointId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const point = await updatePickupPoint(getSupabaseClient(), pointId, normalizePickupPointInput(body))
+    return NextResponse.json({ success: true, point })
+  } catch (error) {
+    return errorResponse(error, 'admin_pickup_point_update')
+  }
+}
+
+// DELETE /api/admin/pickup-points/[pointId] - Stop new orders at a point; kept so its open orders can still be handed over
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ pointId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const pointId = parsePointId((await params).pointId)
+    if (!pointId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const point = await updatePickupPoint(getSupabaseClient(), pointId, { isActive: false })
+    return NextResponse.json({ success: true, point })
+  } catch (error) {
+    return errorResponse(error, 'admin_pickup_point_deactivate')
+  }
+}
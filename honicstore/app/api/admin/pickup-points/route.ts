@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  createPickupPoint,
+  formatOpeningHours,
+  getPickupLoadToday,
+  getPickupPoints,
+  normalizePickupPointInput
+} from '@/lib/pickup-points'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/pickup-points - All pickup points, inactive included, with today's pickup orders
+export async function GET(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const supabase = getSupabaseClient()
+    const points = await getPickupPoints(supabase)
+    const load = await getPickupLoadToday(supabase, points.map(point => point.id))
+
+    return NextResponse.json({
+      success: true,
+      points: points.map(point => ({
+        ...point,
+        hours: formatOpeningHours(point.opening_hours),
+        ordersToday: load.get(point.id) || 0
+      }))
+    })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_pickup_points_get'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
+
+// POST /api/admin/pickup-points - Add a pickup point; it takes orders straight away unless isActive is false
+export async function POST(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const point = await createPickupPoint(getSupabaseClient(), normalizePickupPointInput(body))
+    return NextResponse.json({ success: true, point }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_pickup_points_create'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
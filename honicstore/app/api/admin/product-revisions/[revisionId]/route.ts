@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { reviewProductRevision } from '@/lib/product-revisions'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/admin/product-revisions/[revisionId] - Approve a product revision, or reject it with a reason
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ revisionId: string }> }
+) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const { revisionId } = await params
+    if (!revisionId || isNaN(Number(revisionId))) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+    const body = await request.json().catch(() => ({}))
+
+    if (body.action !== 'approve' && body.action !== 'reject') {
+      return NextResponse.json(
+        { success: false, error: "action must be 'approve' or 'reject'" },
+        { status: 400 }
+      )
+    }
+
+    const revision = await reviewProductRevision(getSupabaseClient(), {
+      revisionId: Number(revisionId),
+      adminId: user.id,
+      action: body.action,
+      reason: typeof body.reason === 'string' ? body.reason : null
+    })
+
+    return NextResponse.json({
+      success: true,
+      revision: { id: revision.id, productId: revision.product_id, status: revision.status, reviewReason: revision.review_reason }
+    })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_product_revision_review'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getRevisionReviewQueue } from '@/lib/product-revisions'
+import { createErrorResponse, logError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/product-revisions - Product revisions waiting for review, flagged ones first
+export async function GET(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50') || 50
+    const revisions = await getRevisionReviewQueue(getSupabaseClient(), { limit })
+    return NextResponse.json({ success: true, revisions })
+  } catch (error) {
+    logError(error, {
+      action: 'admin_product_revisions_get'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { moderateReview } from '@/lib/product-reviews'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/admin/reviews/[reviewId] - Approve or reject a review from the moderation queue
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const { reviewId } = await params
+    if (!reviewId || isNaN(Number(reviewId))) {
+      return NextResponse.json(
+        { success: false, error: 'Review not found' },
+        { status: 404 }
+      )
+    }
+    const body = await request.json().catch(() => ({}))
+
+    if (body.action !== 'approve' && body.action !== 'reject') {
+      return NextResponse.json(
+        { success: false, error: "action must be 'approve' or 'reject'" },
+        { status: 400 }
+      )
+    }
+
+    const review = await moderateReview(getSupabaseClient(), {
+      reviewId: Number(reviewId),
+      adminId: user.id,
+      action: body.action,
+      note: typeof body.note === 'string' ? body.note.trim().slice(0, 500) || null : null
+    })
+
+    return NextResponse.json({
+      success: true,
+      review: { id: review.id, status: review.status }
+    })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_review_moderate'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getModerationQueue } from '@/lib/product-reviews'
+import { createErrorResponse, logError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/reviews - Review moderation queue (held, hidden and reported reviews)
+export async function GET(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const reviews = await getModerationQueue(getSupabaseClient())
+    return NextResponse.json({ success: true, reviews })
+  } catch (error) {
+    logError(error, {
+      action: 'admin_reviews_get'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { previewShippingRate } from '@/lib/shipping-rates'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function optionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+// POST /api/admin/shipping-rates/[versionId]/preview - The fee a shipment to an address would pay under this version, next to today's fee
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const versionId = Number((await params).versionId)
+    if (!Number.isInteger(versionId) || versionId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Shipping rate version not found' },
+        { status: 404 }
+      )
+    }
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.region !== 'string' || !body.region.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Region is required' },
+        { status: 400 }
+      )
+    }
+
+    // Coordinates are taken as given here; checkout only ever prices with server-resolved ones
+    const preview = await previewShippingRate(getSupabaseClient(), versionId, {
+      deliveryOption: 'shipping',
+      region: body.region,
+      district: typeof body.district === 'string' ? body.district : null,
+      ward: typeof body.ward === 'string' ? body.ward : null,
+      lat: optionalNumber(body.lat),
+      lon: optionalNumber(body.lon),
+      // A supplier's dispatch point and the shipment's billable kg, to preview one shipment
+      originLat: optionalNumber(body.originLat),
+      originLon: optionalNumber(body.originLon),
+      billableWeightKg: optionalNumber(body.weightKg),
+      subtotal: optionalNumber(body.subtotal) ?? undefined,
+      allProductsHaveFreeDelivery: body.allProductsHaveFreeDelivery === true
+    })
+
+    return NextResponse.json({ success: true, ...preview })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_shipping_rate_preview'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  deleteShippingRateDraft,
+  getShippingRateVersion,
+  normalizeShippingRateDraftInput,
+  updateShippingRateDraft
+} from '@/lib/shipping-rates'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function requireAdmin(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return { user: null, response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+  return { user, response: null }
+}
+
+function parseVersionId(value: string): number | null {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof ProductionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.statusCode }
+    )
+  }
+  logError(error, { action })
+  return createErrorResponse(error, 500)
+}
+
+const NOT_FOUND = { success: false, error: 'Shipping rate version not found' }
+
+// GET /api/admin/shipping-rates/[versionId] - A version with all of its rules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const versionId = parseVersionId((await params).versionId)
+    if (!versionId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const version = await getShippingRateVersion(getSupabaseClient(), versionId)
+    return NextResponse.json({ success: true, version })
+  } catch (error) {
+    return errorResponse(error, 'admin_shipping_rate_get')
+  }
+}
+
+// PATCH /api/admin/shipping-rates/[versionId] - Edit a draft's settings or replace its rules
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const versionId = parseVersionId((await params).versionId)
+    if (!versionId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const version = await updateShippingRateDraft(
+      getSupabaseClient(),
+      versionId,
+      normalizeShippingRateDraftInput(body)
+    )
+    return NextResponse.json({ success: true, version })
+  } catch (error) {
+    return errorResponse(error, 'admin_shipping_rate_update')
+  }
+}
+
+// DELETE /api/admin/shipping-rates/[versionId] - Discard a draft
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  const { user, response } = await requireAdmin(request)
+  if (!user) return response
+
+  try {
+    const versionId = parseVersionId((await params).versionId)
+    if (!versionId) return NextResponse.json(NOT_FOUND, { status: 404 })
+
+    await deleteShippingRateDraft(getSupabaseClient(), versionId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'admin_shipping_rate_delete')
+  }
+}
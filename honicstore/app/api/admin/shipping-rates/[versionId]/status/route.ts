@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { archiveShippingRateVersion, publishShippingRateVersion } from '@/lib/shipping-rates'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/shipping-rates/[versionId]/status - Publish a draft (now or from effectiveFrom) or archive a published version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const versionId = Number((await params).versionId)
+    if (!Number.isInteger(versionId) || versionId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Shipping rate version not found' },
+        { status: 404 }
+      )
+    }
+    const body = await request.json().catch(() => ({}))
+
+    if (body.action !== 'publish' && body.action !== 'archive') {
+      return NextResponse.json(
+        { success: false, error: "action must be 'publish' or 'archive'" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = getSupabaseClient()
+    const version = body.action === 'publish'
+      ? await publishShippingRateVersion(supabase, {
+          versionId,
+          adminId: user.id,
+          effectiveFrom: typeof body.effectiveFrom === 'string' ? body.effectiveFrom : null
+        })
+      : await archiveShippingRateVersion(supabase, versionId)
+
+    return NextResponse.json({
+      success: true,
+      version: { id: version.id, status: version.status, effectiveFrom: version.effective_from }
+    })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_shipping_rate_status'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { createShippingRateDraft, getShippingRateVersions } from '@/lib/shipping-rates'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/shipping-rates - Shipping rate table versions, newest first, and which one is live
+export async function GET(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const { versions, activeVersionId } = await getShippingRateVersions(getSupabaseClient())
+    // null activeVersionId means checkout is still on the bundled prices
+    return NextResponse.json({ success: true, versions, activeVersionId })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_shipping_rates_get'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
+
+// POST /api/admin/shipping-rates - Start a draft, copied from basedOnVersionId or the live table
+export async function POST(request: NextRequest) {
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { role } = await getUserAndRole(user.id)
+  if (role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const basedOnVersionId = body.basedOnVersionId != null ? Number(body.basedOnVersionId) : null
+    if (basedOnVersionId !== null && (!Number.isInteger(basedOnVersionId) || basedOnVersionId <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Shipping rate version not found' },
+        { status: 404 }
+      )
+    }
+
+    const version = await createShippingRateDraft(getSupabaseClient(), {
+      adminId: user.id,
+      name: typeof body.name === 'string' ? body.name : undefined,
+      basedOnVersionId
+    })
+
+    return NextResponse.json({ success: true, version }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    logError(error, {
+      action: 'admin_shipping_rates_create'
+    })
+    return createErrorResponse(error, 500)
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { enhancedRateLimit } from '@/lib/enhanced-rate-limit'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { AD_EVENT_TYPES, AdEventType, isBotUserAgent, isValidAdSessionId, recordAdEvent } from '@/lib/ad-tracking'
+
+// Rate limit logging helper
+const logRateLimitEvent = (endpoint: string, reason: string | undefined, request: NextRequest) => {
+  const clientIP = request.headers.get('x-forwarded-for') ||
+                   request.headers.get('x-real-ip') ||
+                   request.headers.get('cf-connecting-ip') ||
+                   'unknown'
+  logger.security(`Rate limit exceeded on ${endpoint}`, undefined, {
+    ip: clientIP,
+    reason,
+    path: request.nextUrl.pathname
+  })
+}
+
+export const dynamic = 'force-dynamic'
+
+export const runtime = 'nodejs'
+
+// Beacons don't read the response, so every outcome is an empty 204
+const noContent = () => new NextResponse(null, { status: 204 })
+
+// POST - Impression and click beacons from the ad rotation components
+// Sent with navigator.sendBeacon, so the body arrives as text/plain JSON
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await enhancedRateLimit(request)
+  if (!rateLimitResult.allowed) {
+    logRateLimitEvent('/api/advertisements/events', rateLimitResult.reason, request)
+    return noContent()
+  }
+
+  try {
+    if (isBotUserAgent(request.headers.get('user-agent'))) {
+      return noContent()
+    }
+
+    let body: any
+    try {
+      body = JSON.parse(await request.text())
+    } catch {
+      return NextResponse.json({ error: 'Invalid beacon' }, { status: 400 })
+    }
+
+    const advertisementId = Number(body?.adId)
+    const eventType = body?.type as AdEventType
+    if (!Number.isInteger(advertisementId) || advertisementId <= 0 ||
+        !AD_EVENT_TYPES.includes(eventType) || !isValidAdSessionId(body?.sessionId)) {
+      return NextResponse.json({ error: 'Invalid beacon' }, { status: 400 })
+    }
+
+    // Automated browsers report navigator.webdriver
+    if (body.webdriver === true) {
+      return noContent()
+    }
+
+    // Logged-in clicks can be matched to later orders; anonymous events are still counted
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+      {
+        cookies: {
+          get(name: string) {
+            return request.cookies.get(name)?.value
+          },
+          set(name: string, value: string, options: any) {},
+          remove(name: string, options: any) {},
+        },
+      }
+    )
+    const { data: { user } } = await supabase.auth.getUser()
+
+    await recordAdEvent(getSupabaseClient(), {
+      advertisementId,
+      eventType,
+      placement: typeof body.placement === 'string' ? body.placement : null,
+      sessionId: body.sessionId,
+      userId: user?.id || null
+    })
+
+    return noContent()
+  } catch (error) {
+    logger.error('Error recording advertisement event:', error)
+    return noContent()
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
 import { enhancedRateLimit } from '@/lib/enhanced-rate-limit'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getRotationAds } from '@/lib/ad-campaigns'
 import { logger } from '@/lib/logger'
 
 // Rate limit logging helper
@@ -21,10 +22,8 @@ const logRateLimitEvent = (endpoint: string, reason: string | undefined, request
 export const dynamic = 'force-dynamic'
 
 export const runtime = 'nodejs'
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
 
-// GET - Fetch active advertisements for public display
+// GET - Advertisements for a page's rotation: eligible campaigns in fair order, or the placement's house ads
 export async function GET(request: NextRequest) {
   // Rate limiting
   const rateLimitResult = await enhancedRateLimit(request)
@@ -45,26 +44,18 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const placement = searchParams.get('placement')
-    
-    const supabase = createClient(supabaseUrl, supabaseAnonKey)
-    
-    let query = supabase
-      .from('advertisements')
-      .select('*')
-      .eq('is_active', true)
-    
-    // Filter by placement if specified
-    if (placement) {
-      query = query.eq('placement', placement)
-    }
-    
-    const { data: advertisements, error } = await query
-      .order('display_order', { ascending: true })
-    
-    if (error) throw error
-    
+    // Category name or slug the buyer is browsing, for category-targeted campaigns
+    const category = searchParams.get('category')
+
+    // Campaign caps and house ads are not readable with the anon key
+    const advertisements = await getRotationAds(getSupabaseClient(), {
+      placement: placement || null,
+      category: category || null
+    })
+
     return NextResponse.json(advertisements || [])
   } catch (error) {
+    logger.error('Error fetching advertisements:', error)
     return NextResponse.json(
       { error: 'Failed to fetch advertisements' },
       { status: 500 }
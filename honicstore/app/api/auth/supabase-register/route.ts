@@ -5,6 +5,7 @@ import { createServerClient } from '@supabase/ssr'
 import { z } from 'zod'
 import { notifyAllAdmins } from '@/lib/notification-helpers'
 import { getSupabaseClient } from '@/lib/supabase-server'
+import { assignCouponToBuyer } from '@/lib/platform-coupons'
 import { logger } from '@/lib/logger'
 import { validateEmailDomain, EMAIL_DOMAIN_TYPOS } from '@/lib/email-validation'
 import { validateEmailDomainWithTimeout } from '@/lib/email-domain-validator'
@@ -535,6 +536,11 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // New buyers start with the first-order coupon in their wallet
+      if (!isSupplier && userData) {
+        await assignCouponToBuyer(getSupabaseClient(), { userId: userData.id, kind: 'first_order' })
+      }
+
       return response
     } else {
       // Handle specific error types with appropriate status codes
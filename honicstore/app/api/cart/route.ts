@@ -4,6 +4,10 @@ import { logger } from '@/lib/logger'
 import { validateProductId } from '@/lib/input-validation'
 import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import { sanitizeString } from '@/lib/input-validation'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getProductSales, toClientSale } from '@/lib/product-sales'
+import { resolveUnitPrice } from '@/lib/price-tiers'
+import { findQuoteForLine, getAcceptedQuotes } from '@/lib/quote-requests'
 
 // GET /api/cart - Return full cart with product details
 export async function GET(request: NextRequest) {
@@ -38,6 +42,7 @@ export async function GET(request: NextRequest) {
         image, 
         price,
         original_price,
+        price_tiers,
         in_stock,
           stock_quantity,
           supplier_id,
@@ -93,7 +98,7 @@ export async function GET(request: NextRequest) {
       uniqueVariantIds: [...new Set(variantIds)]
     })
 
-    let variantMap: { [key: number]: { variant_name: string | null } } = {}
+    let variantMap: { [key: number]: { variant_name: string | null, price: number | null, price_tiers: unknown } } = {}
     if (variantIds.length > 0) {
       logger.log('🛒 [CART GET] Step 2: Fetching variant names from database', {
         variantIdsToFetch: variantIds
@@ -108,7 +113,7 @@ export async function GET(request: NextRequest) {
       
       const { data: variants, error: variantError } = await supabase
         .from('product_variants')
-        .select('id, variant_name, product_id')
+        .select('id, variant_name, product_id, price, price_tiers')
         .in('id', variantIds)
       
       logger.log('🛒 [CART GET] Step 2 Result: Variants fetched from database', {
@@ -129,7 +134,7 @@ export async function GET(request: NextRequest) {
       
       if (variants) {
         variants.forEach((v: any) => {
-          variantMap[v.id] = { variant_name: v.variant_name }
+          variantMap[v.id] = { variant_name: v.variant_name, price: v.price === null ? null : parseFloat(v.price) || null, price_tiers: v.price_tiers }
         })
       }
       
@@ -211,6 +216,12 @@ export async function GET(request: NextRequest) {
       logger.log('🛒 [CART GET] Step 2a: Skipped (no supplier IDs found)')
   }
 
+  // Sales start and end while items sit in the cart and quantity tiers follow the line quantity,
+  // so unit prices are resolved now rather than taken from when the item was added
+  const salesByProduct = await getProductSales(getSupabaseClient(), (data || []).map((item: any) => Number(item.product_id)))
+  // Accepted quotes price their line at exactly the quoted quantity
+  const acceptedQuotes = await getAcceptedQuotes(getSupabaseClient(), user.id)
+
   // Transform and group data for frontend consumption
     // SECURITY: Remove supplier_id and user_id (UUIDs) from product object before sending to client
     // But keep them temporarily for server-side supplier lookup
@@ -219,7 +230,7 @@ export async function GET(request: NextRequest) {
     // Store supplierId temporarily for server-side lookup (will be removed before sending to client)
     const supplierId = productData.supplier_id || productData.user_id
     // Remove sensitive UUID fields from product before sending to client
-    const { supplier_id, user_id, ...productWithoutIds } = productData
+    const { supplier_id, user_id, price_tiers, ...productWithoutIds } = productData
     
     // Normalize variant_id: null -> 'default' for consistency
     const normalizedVariantId = (item.variant_id === null || item.variant_id === undefined || String(item.variant_id).trim() === '')
@@ -230,13 +241,40 @@ export async function GET(request: NextRequest) {
     const normalizedCurrency = (item.currency === 'TZS' || item.currency === 'USD') 
       ? item.currency 
       : 'TZS' // Default to TZS
+
+    const numericVariantId = normalizedVariantId !== 'default' && !isNaN(Number(normalizedVariantId)) ? Number(normalizedVariantId) : null
+    const variantPrice = numericVariantId !== null ? variantMap[numericVariantId]?.price ?? null : null
+    const effective = productData.price !== null && productData.price !== undefined
+      ? resolveUnitPrice(salesByProduct.get(Number(item.product_id)), {
+          productPrice: parseFloat(productData.price) || 0,
+          productTiers: price_tiers,
+          variantId: numericVariantId,
+          variantPrice,
+          variantTiers: numericVariantId !== null ? variantMap[numericVariantId]?.price_tiers : null,
+          quantity: item.quantity
+        })
+      : null
+    const quoted = findQuoteForLine(acceptedQuotes, { productId: Number(item.product_id), variantId: numericVariantId, quantity: item.quantity })
     
     return {
     id: item.id,
     productId: item.product_id,
       variantId: normalizedVariantId,
     quantity: item.quantity,
-    price: item.price,
+    price: quoted?.applies ? Number(quoted.quote.unit_price) : effective ? effective.price : item.price,
+      sale: !quoted?.applies && effective?.sale ? toClientSale(effective.sale, effective.price, effective.regularPrice) : null,
+      // Quantity tier in use and the next one up, for "add N more" hints
+      tier: quoted?.applies ? null : effective?.tier || null,
+      nextTier: quoted?.applies ? null : effective?.nextTier || null,
+      quote: quoted
+        ? {
+            quoteNumber: quoted.quote.quote_number,
+            unitPrice: Number(quoted.quote.unit_price),
+            quantity: quoted.quote.quantity,
+            validUntil: quoted.quote.valid_until,
+            applies: quoted.applies
+          }
+        : null,
       currency: normalizedCurrency,
     appliedDiscount: item.applied_discount,
     createdAt: item.created_at,
@@ -347,6 +385,10 @@ export async function GET(request: NextRequest) {
       variant_name: variantName,
       quantity: item.quantity,
       price: item.price,
+      sale: item.sale,
+      tier: item.tier,
+      nextTier: item.nextTier,
+      quote: item.quote,
       sku: undefined,
       image: undefined
     }
@@ -606,7 +648,7 @@ export async function POST(request: NextRequest) {
   // Also fetch supplier_id/user_id to get supplier info
   const { data: product, error: pErr } = await supabase
     .from('products')
-    .select('id, price, original_price, in_stock, stock_quantity, return_time_type, return_time_value, supplier_id, user_id')
+    .select('id, price, original_price, price_tiers, in_stock, stock_quantity, return_time_type, return_time_value, supplier_id, user_id')
     .eq('id', Number(productId))
     .single()
 
@@ -782,17 +824,19 @@ export async function POST(request: NextRequest) {
     // Fetch variant data from database (variant_name and price) - NEVER trust client-provided data
     let newVariantNamePartial: string | null = null
     let variantPriceFromDBPartial: number | null = null
+    let variantTiersPartial: unknown = null
     
     if (variantId && variantId !== 'default' && !isNaN(Number(variantId))) {
       const { data: newVariantPartial } = await supabase
         .from('product_variants')
-        .select('id, variant_name, price')
+        .select('id, variant_name, price, price_tiers')
         .eq('id', Number(variantId))
         .single()
       
       if (newVariantPartial) {
         newVariantNamePartial = newVariantPartial.variant_name
         variantPriceFromDBPartial = parseFloat(newVariantPartial.price) || null
+        variantTiersPartial = newVariantPartial.price_tiers
       }
     }
 
@@ -804,7 +848,15 @@ export async function POST(request: NextRequest) {
       .eq('product_id', productId)
 
     // ALWAYS use database price - NEVER trust client-provided price
-    const finalPricePartial = variantPriceFromDBPartial !== null ? variantPriceFromDBPartial : parseFloat(product.price) || 0
+    const salesPartial = await getProductSales(getSupabaseClient(), [productId])
+    const finalPricePartial = resolveUnitPrice(salesPartial.get(productId), {
+      productPrice: parseFloat(product.price) || 0,
+      productTiers: product.price_tiers,
+      variantId: variantId && !isNaN(Number(variantId)) ? Number(variantId) : null,
+      variantPrice: variantPriceFromDBPartial,
+      variantTiers: variantTiersPartial,
+      quantity: adjustedQuantity
+    }).price
 
     // Find matching item by comparing both variant_id AND variant_name
     let matchingItemPartial: any = null
@@ -925,23 +977,34 @@ export async function POST(request: NextRequest) {
   // Fetch variant data from database (variant_name and price) - NEVER trust client-provided data
   let newVariantName: string | null = null
   let variantPriceFromDB: number | null = null
+  let variantTiersFromDB: unknown = null
   
   if (variantId && variantId !== 'default' && !isNaN(Number(variantId))) {
     const { data: newVariant, error: variantError } = await supabase
       .from('product_variants')
-      .select('id, variant_name, price')
+      .select('id, variant_name, price, price_tiers')
       .eq('id', Number(variantId))
       .single()
     
     if (newVariant) {
       newVariantName = newVariant.variant_name
       variantPriceFromDB = parseFloat(newVariant.price) || null
+      variantTiersFromDB = newVariant.price_tiers
     }
   }
   
   // ALWAYS use database price - NEVER trust client-provided price
-  // Use variant price if available, otherwise use product price
-  const finalPrice = variantPriceFromDB !== null ? variantPriceFromDB : parseFloat(product.price) || 0
+  // Use variant price if available, otherwise use product price, with its quantity tier or any
+  // running sale applied
+  const sales = await getProductSales(getSupabaseClient(), [productId])
+  const finalPrice = resolveUnitPrice(sales.get(productId), {
+    productPrice: parseFloat(product.price) || 0,
+    productTiers: product.price_tiers,
+    variantId: variantId && !isNaN(Number(variantId)) ? Number(variantId) : null,
+    variantPrice: variantPriceFromDB,
+    variantTiers: variantTiersFromDB,
+    quantity
+  }).price
   
   logger.log('🛒 [CART ADD] Price determination:', {
     clientProvidedPrice: variantPrice,
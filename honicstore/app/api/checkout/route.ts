@@ -11,10 +11,15 @@ import {
   createOrderError,
   createDatabaseError,
   Logger,
-  measurePerformance
+  measurePerformance,
+  ProductionError
 } from '@/lib/error-handler'
 import { dbOptimizer } from '@/lib/database-optimizer'
 import { cacheInvalidator } from '@/lib/cache'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getProductSales, claimSaleUnits, releaseSaleClaims, SaleClaimLine, SaleWindow } from '@/lib/product-sales'
+import { resolveUnitPrice, toOrderItemPriceTier, OrderItemPriceTier } from '@/lib/price-tiers'
+import { getAcceptedQuotes, findQuoteForLine, claimQuotes, QuoteClaimLine, AcceptedQuote } from '@/lib/quote-requests'
 
 
 
@@ -107,7 +112,7 @@ export async function POST(request: NextRequest) {
     const productIds = cartItems.map(item => item.product_id)
     const { data: products, error: productsError } = await supabase
       .from('products')
-      .select('id, price')
+      .select('id, price, price_tiers')
       .in('id', productIds)
 
     if (!productsError && products) {
@@ -177,9 +182,55 @@ export async function POST(request: NextRequest) {
     // Stock validation is already done above with stockValidationResults
     // No need to reserve stock here - stock will be reduced only when payment is confirmed
 
+    // Unit prices as of now: the cart keeps the price from when an item was added, while quantity
+    // tiers and running sales decide what the line actually costs
+    const variantIds = cartItems
+      .map(item => Number(item.variant_id))
+      .filter(id => Number.isInteger(id) && id > 0)
+    const { data: variants } = variantIds.length > 0
+      ? await supabase.from('product_variants').select('id, product_id, price, price_tiers').in('id', variantIds)
+      : { data: [] as any[] }
+    const productById = new Map<number, any>((products || []).map((p: any) => [Number(p.id), p]))
+    const variantById = new Map<number, any>((variants || []).map((v: any) => [Number(v.id), v]))
+    const salesByProduct = await getProductSales(getSupabaseClient(), productIds.map(Number))
+    const acceptedQuotes = await getAcceptedQuotes(getSupabaseClient(), user.id)
+
+    // Keyed by cart row; the rows themselves may be shared with the cart cache
+    const pricingByItem = new Map<any, {
+      price: number
+      priceTier: OrderItemPriceTier | null
+      quote: AcceptedQuote | null
+      sale: SaleWindow | null
+    }>()
+    for (const item of cartItems) {
+      const product = productById.get(Number(item.product_id))
+      if (!product) continue
+      const variant = variantById.get(Number(item.variant_id))
+      const resolved = resolveUnitPrice(salesByProduct.get(Number(item.product_id)), {
+        productPrice: parseFloat(product.price) || 0,
+        productTiers: product.price_tiers,
+        variantId: variant ? Number(variant.id) : null,
+        variantPrice: variant ? parseFloat(variant.price) || null : null,
+        variantTiers: variant?.price_tiers,
+        quantity: item.quantity
+      })
+      // An accepted quote for exactly this quantity replaces the tier and sale price
+      const quoted = findQuoteForLine(acceptedQuotes, {
+        productId: Number(item.product_id),
+        variantId: variant ? Number(variant.id) : null,
+        quantity: item.quantity
+      })
+      if (quoted?.applies) {
+        pricingByItem.set(item, { price: Number(quoted.quote.unit_price), priceTier: null, quote: quoted.quote, sale: null })
+        continue
+      }
+      pricingByItem.set(item, { price: resolved.price, priceTier: toOrderItemPriceTier(resolved), quote: null, sale: resolved.sale })
+    }
+    const unitPriceOf = (item: any): number => pricingByItem.get(item)?.price ?? item.price
+
     // Calculate totals with validation
     const orderTotal = cartItems.reduce((sum, item) => {
-      const itemTotal = (item.price - (item.applied_discount || 0)) * item.quantity
+      const itemTotal = (unitPriceOf(item) - (item.applied_discount || 0)) * item.quantity
       return sum + itemTotal
     }, 0)
 
@@ -238,8 +289,10 @@ export async function POST(request: NextRequest) {
       variant_name: item.variant_name || null,
       variant_attributes: null, // No longer used in simplified variant system
       quantity: item.quantity,
-      price: item.price,
-      total_price: item.price * item.quantity,
+      price: unitPriceOf(item),
+      total_price: unitPriceOf(item) * item.quantity,
+      price_tier: pricingByItem.get(item)?.priceTier ?? null,
+      quote_number: pricingByItem.get(item)?.quote?.quote_number || null,
       created_at: new Date().toISOString()
     }))
 
@@ -260,6 +313,51 @@ export async function POST(request: NextRequest) {
       }, { status: 500 })
     }
 
+    // Count sale-priced units against their caps; the order is removed if a sale sold out meanwhile
+    const saleLines: SaleClaimLine[] = cartItems.flatMap(item => {
+      const sale = pricingByItem.get(item)?.sale
+      return sale ? [{
+        saleId: sale.id,
+        productId: Number(item.product_id),
+        variantId: sale.variant_id,
+        productName: item.product_name || null,
+        quantity: item.quantity
+      }] : []
+    })
+    try {
+      await claimSaleUnits(supabase, order, saleLines)
+    } catch (saleError) {
+      await supabase.from('order_items').delete().eq('order_id', order.id)
+      await supabase.from('orders').delete().eq('id', order.id)
+      if (saleError instanceof ProductionError) {
+        return NextResponse.json(
+          { error: saleError.message, code: 'SALE_SOLD_OUT' },
+          { status: saleError.statusCode }
+        )
+      }
+      throw saleError
+    }
+
+    // Quoted prices are good for one order
+    const quoteLines: QuoteClaimLine[] = cartItems.flatMap(item => {
+      const quote = pricingByItem.get(item)?.quote
+      return quote ? [{ quoteId: quote.id, productName: item.product_name || 'an item' }] : []
+    })
+    try {
+      await claimQuotes(supabase, order, quoteLines)
+    } catch (quoteError) {
+      await releaseSaleClaims(supabase, order.id)
+      await supabase.from('order_items').delete().eq('order_id', order.id)
+      await supabase.from('orders').delete().eq('id', order.id)
+      if (quoteError instanceof ProductionError) {
+        return NextResponse.json(
+          { error: quoteError.message, code: 'QUOTE_ALREADY_USED' },
+          { status: quoteError.statusCode }
+        )
+      }
+      throw quoteError
+    }
+
     // Clear only selected items from cart after successful order creation
     const selectedProductIds = cartItems.map(item => item.product_id)
     const { error: clearCartError } = await supabase
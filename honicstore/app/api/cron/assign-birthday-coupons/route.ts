@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { assignCouponToBuyer } from '@/lib/platform-coupons'
+import { createNotification } from '@/lib/notification-helpers'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const PAGE_SIZE = 1000
+
+// GET /api/cron/assign-birthday-coupons - Daily job putting the birthday coupon in buyers' wallets
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (security)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = getSupabaseClient()
+    const today = new Date()
+    const monthDay = today.toISOString().slice(5, 10)
+    const year = String(today.getUTCFullYear())
+
+    // Birthdays can't be matched on month/day in the query, so page through everyone who set one
+    const birthdayUserIds: string[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: profiles, error } = await supabase
+        .from('profiles')
+        .select('id, date_of_birth')
+        .not('date_of_birth', 'is', null)
+        .eq('is_supplier', false)
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        logger.error('Error fetching birthdays:', error)
+        return NextResponse.json({ error: 'Failed to fetch birthdays' }, { status: 500 })
+      }
+
+      for (const profile of profiles || []) {
+        if (String(profile.date_of_birth).slice(5, 10) === monthDay) {
+          birthdayUserIds.push(profile.id)
+        }
+      }
+      if (!profiles || profiles.length < PAGE_SIZE) break
+    }
+
+    let assigned = 0
+    for (const userId of birthdayUserIds) {
+      // One birthday coupon per year
+      const result = await assignCouponToBuyer(supabase, { userId, kind: 'birthday', reference: year })
+      if (!result) continue
+
+      assigned++
+      await createNotification(
+        userId,
+        'coupon_assigned',
+        'Happy Birthday! 🎂',
+        `A birthday coupon is waiting in your wallet: use ${result.coupon.code} at checkout.`,
+        { action_url: '/account/coupons' }
+      )
+    }
+
+    logger.log(`🎂 Cron: Assigned ${assigned} birthday coupons`)
+    return NextResponse.json({
+      success: true,
+      birthdays: birthdayUserIds.length,
+      assigned
+    })
+  } catch (error: any) {
+    logger.error('Error in assign-birthday-coupons cron:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
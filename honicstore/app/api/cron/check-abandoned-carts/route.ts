@@ -3,6 +3,7 @@ import { getSupabaseClient } from '@/lib/supabase-server'
 import { logger } from '@/lib/logger'
 import { sendAbandonedCartEmail } from '@/lib/user-email-service'
 import { buildUrl } from '@/lib/url-utils'
+import { assignCouponToBuyer } from '@/lib/platform-coupons'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -73,6 +74,11 @@ export async function GET(request: NextRequest) {
         const items = cartData.items || []
         const total = cart.total_amount || cartData.total || 0
 
+        // A recovery coupon goes into the buyer's wallet once per abandoned cart
+        const recoveryCoupon = cart.user_id
+          ? await assignCouponToBuyer(supabase, { userId: cart.user_id, kind: 'abandoned_cart', reference: String(cart.id) })
+          : null
+
         // Send email
         const emailResult = await sendAbandonedCartEmail(userEmail, {
           items: items.map((item: any) => ({
@@ -82,7 +88,8 @@ export async function GET(request: NextRequest) {
             image: item.product?.image || item.image
           })),
           total,
-          cartUrl: buildUrl('/cart')
+          cartUrl: buildUrl('/cart'),
+          discountCode: recoveryCoupon?.coupon.code
         })
 
         if (emailResult.success) {
@@ -3,12 +3,16 @@ import { getSupabaseClient } from '@/lib/supabase-server'
 import { logger } from '@/lib/logger'
 import { sendPriceDropAlertEmail } from '@/lib/user-email-service'
 import { buildUrl } from '@/lib/url-utils'
+import { collectWishlistPriceDrops, markWishlistItemAlerted } from '@/lib/wishlists'
+import { collectStartedSales, markSalesStartAlerted, getProductSales, resolveSalePrice } from '@/lib/product-sales'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
 // GET /api/cron/check-price-alerts - Background job to check price alerts
 // This should be called by a cron job or scheduled task
+// Wishlist items alert on their own when the price falls below the price at save, no price_alerts row needed
+// Prices include running sales; products whose sale started since the last run are checked first
 export async function GET(request: NextRequest) {
   try {
     // Verify cron secret (security)
@@ -21,10 +25,10 @@ export async function GET(request: NextRequest) {
 
     const supabase = getSupabaseClient()
 
-    // Get all active price alerts that haven't been sent
-    const { data: alerts, error: fetchError } = await supabase
-      .from('price_alerts')
-      .select(`
+    const startedSales = await collectStartedSales(supabase)
+    const saleProductIds = [...new Set(startedSales.map(sale => sale.product_id))]
+
+    const alertsSelect = `
         *,
         products (
           id,
@@ -38,7 +42,12 @@ export async function GET(request: NextRequest) {
           email,
           full_name
         )
-      `)
+      `
+
+    // Get all active price alerts that haven't been sent
+    const { data: batchAlerts, error: fetchError } = await supabase
+      .from('price_alerts')
+      .select(alertsSelect)
       .eq('is_active', true)
       .eq('email_sent', false)
       .limit(100) // Process in batches
@@ -48,6 +57,25 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to fetch price alerts' }, { status: 500 })
     }
 
+    // Alerts on products whose sale just started go out now, whichever batch they would be in
+    let saleAlerts: any[] = []
+    if (saleProductIds.length > 0) {
+      const { data, error: saleAlertsError } = await supabase
+        .from('price_alerts')
+        .select(alertsSelect)
+        .eq('is_active', true)
+        .eq('email_sent', false)
+        .in('product_id', saleProductIds)
+      if (saleAlertsError) {
+        logger.error('Error fetching price alerts for started sales:', saleAlertsError)
+      }
+      saleAlerts = data || []
+    }
+    const saleAlertIds = new Set(saleAlerts.map((alert: any) => alert.id))
+    const alerts = [...saleAlerts, ...(batchAlerts || []).filter((alert: any) => !saleAlertIds.has(alert.id))]
+
+    const salesByProduct = await getProductSales(supabase, alerts.map((alert: any) => Number(alert.product_id)))
+
     const results = []
     for (const alert of alerts || []) {
       try {
@@ -81,7 +109,7 @@ export async function GET(request: NextRequest) {
           continue
         }
 
-        const currentPrice = product.price
+        const currentPrice = resolveSalePrice(salesByProduct.get(Number(product.id)), { productPrice: Number(product.price) || 0 }).price
         const targetPrice = alert.target_price
 
         // Check if price dropped to or below target
@@ -146,12 +174,105 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Wishlist price drops, skipping products the buyer already has an explicit alert for
+    const wishlistResults = []
+    const saleDrops = saleProductIds.length > 0 ? await collectWishlistPriceDrops(supabase, 500, saleProductIds) : []
+    const saleDropIds = new Set(saleDrops.map(drop => drop.itemId))
+    const drops = [
+      ...saleDrops,
+      ...(await collectWishlistPriceDrops(supabase, 500)).filter(drop => !saleDropIds.has(drop.itemId))
+    ]
+    if (drops.length > 0) {
+      const { data: explicitAlerts } = await supabase
+        .from('price_alerts')
+        .select('user_id, product_id')
+        .eq('is_active', true)
+        .in('user_id', [...new Set(drops.map(drop => drop.userId))])
+      const alerted = new Set((explicitAlerts || []).map((alert: any) => `${alert.user_id}:${alert.product_id}`))
+      // Several saved variants of one product only send one email per run
+      const emailed = new Set<string>()
+      const emails = new Map<string, string | null>()
+
+      for (const drop of drops) {
+        const key = `${drop.userId}:${drop.product.id}`
+        if (alerted.has(key) || emailed.has(key)) continue
+
+        try {
+          if (!emails.has(drop.userId)) {
+            let email: string | null = null
+            try {
+              const { data: { user: authUser } } = await supabase.auth.admin.getUserById(drop.userId)
+              email = authUser?.email || null
+            } catch (authError) {
+              logger.warn(`Failed to get auth email for user ${drop.userId}:`, authError)
+            }
+            if (!email) {
+              const { data: profile } = await supabase.from('profiles').select('email').eq('id', drop.userId).maybeSingle()
+              email = profile?.email || null
+            }
+            emails.set(drop.userId, email)
+          }
+
+          const userEmail = emails.get(drop.userId)
+          if (!userEmail) continue
+
+          const discountPercent = Math.round(((drop.savedPrice - drop.currentPrice) / drop.savedPrice) * 100)
+          const emailResult = await sendPriceDropAlertEmail(userEmail, {
+            name: drop.product.name,
+            image: drop.product.image || '',
+            originalPrice: drop.savedPrice,
+            newPrice: drop.currentPrice,
+            discountPercent,
+            productUrl: buildUrl(`/products/${drop.product.slug || drop.product.id}`)
+          })
+
+          if (emailResult.success) {
+            emailed.add(key)
+            await markWishlistItemAlerted(supabase, drop.itemId, drop.currentPrice)
+
+            await supabase
+              .from('email_logs')
+              .insert({
+                user_id: drop.userId,
+                email: userEmail,
+                email_type: 'price_alert',
+                subject: `Price Drop Alert: ${drop.product.name}`,
+                status: 'sent',
+                metadata: {
+                  wishlist_item_id: drop.itemId,
+                  product_id: drop.product.id,
+                  saved_price: drop.savedPrice,
+                  current_price: drop.currentPrice
+                }
+              })
+
+            wishlistResults.push({ wishlistItemId: drop.itemId, success: true })
+          } else {
+            wishlistResults.push({ wishlistItemId: drop.itemId, success: false, error: emailResult.error })
+          }
+        } catch (error: any) {
+          logger.error(`Error processing wishlist price drop ${drop.itemId}:`, error)
+          wishlistResults.push({ wishlistItemId: drop.itemId, success: false, error: error.message })
+        }
+      }
+    }
+
+    await markSalesStartAlerted(supabase, startedSales.map(sale => sale.id))
+
     return NextResponse.json({
       success: true,
-      processed: alerts?.length || 0,
+      processed: alerts.length,
       sent: results.filter(r => r.success).length,
       failed: results.filter(r => !r.success).length,
-      results
+      results,
+      wishlist: {
+        dropped: drops.length,
+        sent: wishlistResults.filter(r => r.success).length,
+        failed: wishlistResults.filter(r => !r.success).length
+      },
+      sales: {
+        started: startedSales.length
+      }
     })
 
   } catch (error: any) {
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { logger } from '@/lib/logger'
+import { recordOrderEvents } from '@/lib/order-events'
+import { releaseExpiredStockHolds } from '@/lib/stock-holds'
+import { expireDueCoins, releaseCoinRedemption } from '@/lib/loyalty-coins'
+import { releaseCouponRedemption } from '@/lib/platform-coupons'
+import { releaseSaleClaims } from '@/lib/product-sales'
+import { releaseOrderQuotes } from '@/lib/quote-requests'
 
 
 // Force dynamic rendering - don't pre-render during build
@@ -20,6 +26,23 @@ export async function GET(request: NextRequest) {
 
     const supabase = await import('@/lib/supabase-server').then(m => m.getSupabaseClient())
 
+    // Holds past their TTL already stop counting; mark them released
+    let releasedHolds = 0
+    try {
+      releasedHolds = await releaseExpiredStockHolds(supabase)
+      logger.log(`🔓 Cron: Released ${releasedHolds} expired stock holds`)
+    } catch (holdError) {
+      logger.error('Cron: Failed to release expired stock holds', holdError)
+    }
+
+    let expiredCoins = 0
+    try {
+      expiredCoins = await expireDueCoins(supabase)
+      logger.log(`🪙 Cron: Expired ${expiredCoins} loyalty coins`)
+    } catch (coinError) {
+      logger.error('Cron: Failed to expire loyalty coins', coinError)
+    }
+
     // Calculate 1 day ago timestamp
     const oneDayAgo = new Date()
     oneDayAgo.setDate(oneDayAgo.getDate() - 1)
@@ -46,7 +69,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'No expired orders found',
-        deletedCount: 0
+        deletedCount: 0,
+        releasedHolds,
+        expiredCoins
       })
     }
 
@@ -55,6 +80,24 @@ export async function GET(request: NextRequest) {
     // Get order IDs for deletion
     const orderIds = expiredOrders.map(order => order.id)
 
+    // Log the expiry before the rows go, so the deletion is traceable
+    await recordOrderEvents(supabase, expiredOrders.map(order => ({
+      order_id: order.id,
+      order_number: order.order_number,
+      status: 'expired',
+      actor_role: 'system' as const,
+      source: 'cleanup_cron',
+      note: 'Unpaid for more than 1 day; order removed'
+    })))
+
+    // Coins, coupon uses and quoted prices spent on orders that were never paid go back to the buyer, sale units to the sale
+    for (const orderId of orderIds) {
+      await releaseCoinRedemption(supabase, orderId)
+      await releaseCouponRedemption(supabase, orderId)
+      await releaseSaleClaims(supabase, orderId)
+      await releaseOrderQuotes(supabase, orderId)
+    }
+
     // Delete order items first (due to foreign key constraints)
     const { error: itemsError } = await supabase
       .from('order_items')
@@ -87,6 +130,8 @@ export async function GET(request: NextRequest) {
       success: true,
       message: `Successfully deleted ${expiredOrders.length} expired orders`,
       deletedCount: expiredOrders.length,
+      releasedHolds,
+      expiredCoins,
       deletedOrders: expiredOrders.map(order => ({
         id: order.id,
         order_number: order.order_number,
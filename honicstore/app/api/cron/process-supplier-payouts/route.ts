@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { getPayoutProvider } from '@/lib/payout-providers'
+import {
+  createPayoutBatch,
+  submitPayoutBatch,
+  reconcileSentPayouts,
+  resubmitStalePendingPayouts,
+  PAYOUT_HOLDBACK_DAYS,
+  PAYOUT_MINIMUM_AMOUNT
+} from '@/lib/supplier-payouts'
+import { createNotification, notifyAllAdmins } from '@/lib/notification-helpers'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// GET /api/cron/process-supplier-payouts - Reconcile sent payouts, then batch and disburse settled balances
+// This should be called by a cron job daily
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (security)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = getSupabaseClient()
+    const provider = getPayoutProvider()
+
+    logger.log(`💸 Cron: Processing supplier payouts with provider "${provider.name}"`)
+
+    // Step 1: Settle payouts sent on previous runs
+    const reconciliation = await reconcileSentPayouts(supabase, provider)
+
+    // Payouts an earlier run created but never got to submit
+    const recovered = await resubmitStalePendingPayouts(supabase, provider)
+    if (recovered.failed > 0) {
+      await notifyAllAdmins(
+        'system',
+        'Supplier payouts failed',
+        `${recovered.failed} payout(s) left pending by an earlier run failed and were returned to supplier balances.`,
+        { recovered_batches: recovered.batches }
+      )
+    }
+
+    // Step 2: Batch settled balances (older than the holdback period)
+    const batch = await createPayoutBatch(supabase, provider, {
+      holdbackDays: PAYOUT_HOLDBACK_DAYS,
+      minimumAmount: PAYOUT_MINIMUM_AMOUNT
+    })
+
+    if (!batch.batchId) {
+      logger.log('✅ Cron: No supplier balances ready for payout')
+      return NextResponse.json({
+        success: true,
+        message: 'No supplier balances ready for payout',
+        reconciliation,
+        recovered,
+        skippedSuppliers: batch.skipped.length
+      })
+    }
+
+    // Step 3: Disburse the new batch
+    const submission = await submitPayoutBatch(supabase, batch.batchId, provider)
+
+    // Let suppliers know money is on the way
+    const { data: sentPayouts } = await supabase
+      .from('supplier_payouts')
+      .select('supplier_id, amount, currency, status')
+      .eq('batch_id', batch.batchId)
+
+    for (const payout of sentPayouts || []) {
+      if (payout.status !== 'sent' && payout.status !== 'reconciled') continue
+      await createNotification(
+        payout.supplier_id,
+        'payment_received',
+        'Payout on the way 💸',
+        `A payout of ${payout.currency} ${Number(payout.amount).toLocaleString()} has been sent to your default payout account.`,
+        { batch_number: batch.batchNumber, action_url: '/supplier/payouts' }
+      )
+    }
+
+    if (submission.failed > 0) {
+      await notifyAllAdmins(
+        'system',
+        'Supplier payouts failed',
+        `${submission.failed} payout(s) in batch ${batch.batchNumber} failed and were returned to supplier balances.`,
+        { batch_number: batch.batchNumber }
+      )
+    }
+
+    logger.log(`✅ Cron: Payout batch ${batch.batchNumber} processed`, submission)
+
+    return NextResponse.json({
+      success: true,
+      message: `Payout batch ${batch.batchNumber} processed`,
+      batchNumber: batch.batchNumber,
+      payouts: batch.payouts,
+      sent: submission.sent,
+      failed: submission.failed,
+      reconciliation,
+      recovered,
+      skippedSuppliers: batch.skipped.length
+    })
+  } catch (error) {
+    logger.error('❌ Cron: Supplier payout processing failed', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
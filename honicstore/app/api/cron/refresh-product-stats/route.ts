@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { MAX_ANALYTICS_DAYS, rebuildProductSalesStats } from '@/lib/product-analytics'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// GET /api/cron/refresh-product-stats?days=2 - Recount product sales stats from the supplier ledger
+// Catches any recount that failed after a posting; a larger ?days backfills the roll-up
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (security)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const days = Math.min(Math.max(Math.floor(Number(request.nextUrl.searchParams.get('days'))) || 2, 1), MAX_ANALYTICS_DAYS)
+    const to = new Date()
+    const from = new Date(to.getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+
+    const rows = await rebuildProductSalesStats(getSupabaseClient(), {
+      from: from.toISOString().slice(0, 10),
+      to: to.toISOString().slice(0, 10)
+    })
+
+    return NextResponse.json({
+      success: true,
+      days,
+      rows
+    })
+  } catch (error: any) {
+    logger.error('Error in refresh-product-stats cron:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { sendPickupReminderEmail } from '@/lib/user-email-service'
+import { formatPickupId } from '@/lib/order-ids'
+import {
+  formatOpeningHours,
+  formatPickupPointLocation,
+  getPickupOrdersDueReminder,
+  getPickupPoints,
+  PICKUP_REMINDER_DAYS,
+  recordPickupReminder
+} from '@/lib/pickup-points'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const DEFAULT_INSTRUCTIONS = 'Bring a valid ID and show the pickup QR from your order page, or quote your pickup ID.'
+
+// GET /api/cron/send-pickup-reminders - Daily job reminding buyers whose parcel is waiting at a pickup point
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (security)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = getSupabaseClient()
+    const orders = await getPickupOrdersDueReminder(supabase)
+    const points = new Map((await getPickupPoints(supabase)).map(point => [point.id, point]))
+
+    let sent = 0
+    let failed = 0
+    for (const order of orders) {
+      try {
+        // Signed-in buyers by their account email, guests by the email they gave at checkout
+        let userEmail: string | null = null
+        if (order.user_id) {
+          const { data: { user: authUser } } = await supabase.auth.admin.getUserById(order.user_id)
+          userEmail = authUser?.email || null
+        }
+        userEmail = userEmail || order.billing_address?.email || order.shipping_address?.email || null
+        if (!userEmail) continue
+
+        const { data: items } = await supabase
+          .from('order_items')
+          .select('product_name, quantity')
+          .eq('order_id', order.id)
+
+        const point = order.pickup_point_id ? points.get(order.pickup_point_id) : null
+        const result = await sendPickupReminderEmail(userEmail, {
+          orderNumber: order.order_number,
+          pickupId: formatPickupId(order.pickup_id),
+          pickupLocation: point ? formatPickupPointLocation(point) : 'Honic store',
+          pickupInstructions: point?.instructions || DEFAULT_INSTRUCTIONS,
+          availableTimes: point ? formatOpeningHours(point.opening_hours) : 'Monday-Friday 9AM-6PM, Saturday 9AM-4PM',
+          items: (items || []).map((item: any) => ({ name: item.product_name, quantity: item.quantity }))
+        })
+
+        if (result.success) {
+          await recordPickupReminder(supabase, { id: order.id, pickup_reminders_sent: order.pickup_reminders_sent })
+          sent++
+        } else {
+          failed++
+        }
+      } catch (error) {
+        logger.error(`Error sending pickup reminder for order ${order.id}:`, error)
+        failed++
+      }
+    }
+
+    logger.log(`📦 Cron: Sent ${sent} pickup reminders (waiting ${PICKUP_REMINDER_DAYS}+ days)`)
+    return NextResponse.json({
+      success: true,
+      due: orders.length,
+      sent,
+      failed
+    })
+  } catch (error: any) {
+    logger.error('Error in send-pickup-reminders cron:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
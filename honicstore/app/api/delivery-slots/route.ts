@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getAvailableDeliverySlots, DeliverySlotLine } from '@/lib/delivery-slots'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { logError } from '@/lib/error-handler'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const MAX_LINES = 100
+
+/**
+ * POST /api/delivery-slots
+ * Body: { region, district, ward, items: [{ productId, quantity, variantName }] }
+ * Today's same-day delivery slots for a checkout address and cart. Slots are only listed when the
+ * address is covered and every item is same-day eligible and in stock; otherwise `covered` and
+ * `eligibility` say why there are none. No auth required.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/delivery-slots',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object' || !Array.isArray(body.items) || body.items.length > MAX_LINES) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+
+    const lines: DeliverySlotLine[] = body.items.map((item: any) => ({
+      productId: Number(item?.productId),
+      quantity: Number(item?.quantity),
+      variantName: typeof item?.variantName === 'string' ? item.variantName.slice(0, 200) : null
+    }))
+    const availability = await getAvailableDeliverySlots(getSupabaseClient(), {
+      region: body.region,
+      district: body.district,
+      ward: body.ward
+    }, lines)
+
+    return NextResponse.json({ success: true, ...availability })
+  } catch (error) {
+    logError(error, {
+      action: 'delivery_slots_get'
+    })
+    return NextResponse.json({ error: 'Failed to load delivery slots' }, { status: 500 })
+  }
+}
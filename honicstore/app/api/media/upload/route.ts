@@ -3,6 +3,16 @@ import { createClient } from '@supabase/supabase-js'
 import { logger } from '@/lib/logger'
 import { enhancedRateLimitDistributed, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import {
+  BUYER_IMAGE_EXTENSIONS,
+  BUYER_IMAGE_MIME_TYPES,
+  MEDIA_ALLOWED_MIME_TYPES,
+  MEDIA_EXTENSIONS,
+  MEDIA_MAX_BYTES,
+  buildMediaFileName,
+  getMediaBucketName,
+  isMediaType
+} from '@/lib/media-upload'
 
 
 
@@ -17,6 +27,9 @@ const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
 
 const supabase = supabaseUrl && supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : null
 
+// Contexts any signed-in user may upload to without owning a product
+const BUYER_UPLOAD_CONTEXTS = ['return', 'message', 'quote', 'review']
+
 export async function POST(request: NextRequest) {
   try {
     // Rate limiting
@@ -54,10 +67,16 @@ export async function POST(request: NextRequest) {
     const context = formData.get('context') as string || 'product'
     const productId = formData.get('productId') as string
 
-    if (!productId && role !== 'admin') {
+    // Buyer uploads (e.g. return photos, message attachments) aren't tied to a product, only images are accepted
+    const isBuyerContext = BUYER_UPLOAD_CONTEXTS.includes(context)
+    if (isBuyerContext && type !== 'image') {
+      return NextResponse.json({ error: 'Only images can be uploaded here' }, { status: 400 })
+    }
+
+    if (!productId && role !== 'admin' && !isBuyerContext) {
       return NextResponse.json({ error: 'Forbidden: productId required for non-admin upload' }, { status: 403 })
     }
-    if (productId) {
+    if (productId && !isBuyerContext) {
       const pid = Number.parseInt(productId, 10)
       if (Number.isNaN(pid)) {
         return NextResponse.json({ error: 'Invalid productId' }, { status: 400 })
@@ -90,24 +109,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    if (!type || !['image', 'video', 'model3d'].includes(type)) {
+    if (!isMediaType(type)) {
       logger.log('❌ Invalid media type:', type)
       return NextResponse.json({ error: 'Invalid media type. Allowed types: image, video, model3d' }, { status: 400 })
     }
 
     // Validate file MIME type based on declared type
-    const allowedImageTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml']
-    const allowedVideoTypes = ['video/mp4', 'video/webm', 'video/ogg', 'video/quicktime']
-    const allowedModelTypes = ['model/gltf-binary', 'model/gltf+json', 'application/octet-stream']
-    
-    let allowedTypes: string[] = []
-    if (type === 'image') {
-      allowedTypes = allowedImageTypes
-    } else if (type === 'video') {
-      allowedTypes = allowedVideoTypes
-    } else if (type === 'model3d') {
-      allowedTypes = allowedModelTypes
-    }
+    const allowedTypes = isBuyerContext ? BUYER_IMAGE_MIME_TYPES : MEDIA_ALLOWED_MIME_TYPES[type]
 
     if (!allowedTypes.includes(file.type)) {
       logger.log('❌ Invalid file MIME type:', file.type, 'for type:', type)
@@ -118,14 +126,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file size based on type
-    let maxSize: number
-    if (type === 'image') {
-      maxSize = 5 * 1024 * 1024 // 5MB for images
-    } else if (type === 'video') {
-      maxSize = 50 * 1024 * 1024 // 50MB for videos
-    } else {
-      maxSize = 10 * 1024 * 1024 // 10MB for 3D models
-    }
+    const maxSize = MEDIA_MAX_BYTES[type]
 
     if (file.size > maxSize) {
       const maxSizeMB = Math.round(maxSize / (1024 * 1024))
@@ -138,36 +139,23 @@ export async function POST(request: NextRequest) {
 
     // Validate file extension matches MIME type
     const fileExtension = file.name.split('.').pop()?.toLowerCase()
-    const extensionMap: Record<string, string[]> = {
-      'image': ['jpg', 'jpeg', 'jfif', 'png', 'gif', 'webp', 'svg'],
-      'video': ['mp4', 'webm', 'ogg', 'mov'],
-      'model3d': ['glb', 'gltf', 'obj']
-    }
+    const allowedExtensions = isBuyerContext ? BUYER_IMAGE_EXTENSIONS : MEDIA_EXTENSIONS[type]
     
     // JFIF files are JPEG files, so accept them if MIME type is image/jpeg
     if (fileExtension === 'jfif' && file.type === 'image/jpeg') {
       // Allow JFIF files - they're JPEG format
       logger.log('✅ JFIF file detected (JPEG format):', file.name)
-    } else if (fileExtension && extensionMap[type] && !extensionMap[type].includes(fileExtension)) {
+    } else if (fileExtension && !allowedExtensions.includes(fileExtension)) {
       logger.log('❌ Invalid file extension:', fileExtension, 'for type:', type)
       return NextResponse.json({ 
-        error: `Invalid file extension. Expected one of: ${extensionMap[type].join(', ')}`,
+        error: `Invalid file extension. Expected one of: ${allowedExtensions.join(', ')}`,
         receivedExtension: fileExtension
       }, { status: 400 })
     }
 
-    // Generate unique filename
-    const timestamp = Date.now()
-    const randomString = Math.random().toString(36).substring(2, 15)
+    // Generate unique filename, product-specific if productId is provided
     const fileExt = fileExtension || file.name.split('.').pop() || 'file'
-    
-    // Generate product-specific filename if productId is provided
-    let fileName: string
-    if (productId && (context === 'product' || context === 'variant' || context === 'specification')) {
-      fileName = `product_${productId}_${type}_${timestamp}.${fileExt}`
-    } else {
-      fileName = `${type}_${timestamp}_${randomString}.${fileExt}`
-    }
+    const fileName = buildMediaFileName({ type, context, extension: fileExt, productId })
     
     logger.log('📝 Generated filename:', fileName)
 
@@ -176,7 +164,7 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(fileBuffer)
 
     // Determine bucket based on type and context
-    const bucketName = getBucketName(type, context)
+    const bucketName = getMediaBucketName(type, context)
     logger.log('📦 Using bucket:', bucketName)
 
     // Check if bucket exists (for specification-images bucket)
@@ -318,33 +306,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function getBucketName(type: string, context: string = 'product'): string {
-  // For images, use different buckets based on context
-  if (type === 'image') {
-    switch (context) {
-      case 'category':
-        return 'category-images'
-      case 'variant':
-        return 'variant-images'
-      case 'specification':
-        return 'specification-images'
-      case 'product':
-      default:
-        return 'product-images'
-    }
-  }
-  
-  // For videos and 3D models, always use product buckets
-  switch (type) {
-    case 'video':
-      return 'product-videos'
-    case 'model3d':
-      return 'product-models'
-    default:
-      return 'media'
-  }
-}
-
 // GET endpoint to list media files
 export async function GET(request: NextRequest) {
   try {
@@ -362,7 +323,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Type or bucket required' }, { status: 400 })
     }
 
-    const bucketName = bucket || getBucketName(type || 'image', context)
+    const bucketName = bucket || getMediaBucketName(type || 'image', context)
 
     const { data, error } = await supabase.storage
       .from(bucketName)
@@ -429,7 +390,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'File name required' }, { status: 400 })
     }
 
-    const bucketName = getBucketName(type || 'image', context)
+    const bucketName = getMediaBucketName(type || 'image', context)
 
     const { error } = await supabase.storage
       .from(bucketName)
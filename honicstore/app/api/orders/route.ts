@@ -7,8 +7,26 @@ import { securityUtils } from '@/lib/secure-config'
 import { validateAuth } from '@/lib/auth-server'
 import { emailService } from '@/lib/email-service'
 import { getSupabaseClient } from '@/lib/supabase-server'
-import { calculateShippingFee, resolveShippingCoordinatesFromAddress } from '@/lib/shipping-pricing'
+import { resolveShippingCoordinatesFromAddress } from '@/lib/shipping-pricing'
+import { calculateShipmentRates, getActiveShippingRateTable } from '@/lib/shipping-rates'
+import { groupShipments, productSupplierId, resolveLinePackage } from '@/lib/shipping-packages'
+import { assertPickupPointAvailable, confirmPickupPointCapacity, getPickupPoints, PickupPoint } from '@/lib/pickup-points'
+import { assertDeliverySlotAvailable, confirmDeliverySlotCapacity } from '@/lib/delivery-slots'
 import { ShortTtlCache } from '@/lib/short-ttl-cache'
+import { recordOrderEvent } from '@/lib/order-events'
+import { reserveStockForOrder, releaseStockHolds } from '@/lib/stock-holds'
+import { validateCoinRedemption, redeemCoinsForOrder, releaseCoinRedemption } from '@/lib/loyalty-coins'
+import {
+  getPlatformCouponByCode,
+  validatePlatformCoupon,
+  redeemPlatformCoupon,
+  ValidatedCoupon
+} from '@/lib/platform-coupons'
+import { ProductionError } from '@/lib/error-handler'
+import { claimSaleUnits, releaseSaleClaims, SaleClaimLine } from '@/lib/product-sales'
+import { toOrderItemPriceTier } from '@/lib/price-tiers'
+import { claimQuotes, releaseOrderQuotes, QuoteClaimLine } from '@/lib/quote-requests'
+import { listUnitPrice, loadOrderPricingContext, priceOrderLine } from '@/lib/order-pricing'
 
 
 
@@ -24,7 +42,7 @@ const orderProductsCache = new ShortTtlCache<any[]>(10000)
  * POST /api/orders - Create order (server-side only, no client tampering).
  * Applies to both GUEST and AUTH users:
  * - All item prices are fetched from DB (products + product_variants) and validated server-side.
- * - Subtotal, shipping, promotion discount, and total are computed server-side.
+ * - Subtotal, shipping, promotion or platform coupon discount, coin redemption, and total are computed server-side.
  * - Client-sent totals are compared with server-calculated values; mismatch returns 400.
  * - Order is written only after full validation. No client-provided prices are trusted.
  */
@@ -123,7 +141,7 @@ export async function POST(request: NextRequest) {
     if (!products) {
       const { data, error } = await supabase
         .from('products')
-        .select('id, price, name, in_stock, stock_quantity, free_delivery, supplier_id, user_id')
+        .select('id, price, price_tiers, name, in_stock, stock_quantity, free_delivery, shipping_package, supplier_id, user_id')
         .in('id', productIds)
       products = data || null
       productsError = error
@@ -148,14 +166,14 @@ export async function POST(request: NextRequest) {
       productMap.set(p.id, p)
       if (p.id != null && !productMap.has(String(p.id))) productMap.set(String(p.id), p)
     })
-    // Fetch variants if any exist. Try with price/primary_values first; if that fails (e.g. column missing), try id+product_id only.
+    // Fetch variants if any exist. Try with price/price_tiers/primary_values first; if that fails (e.g. column missing), try id+product_id only.
     let variantMap = new Map<string | number, any>()
     if (variantIds.length > 0) {
       try {
         let variants: any[] | null = null
         const { data: d1, error: e1 } = await supabase
           .from('product_variants')
-          .select('id, product_id, price, primary_values')
+          .select('id, product_id, price, price_tiers, primary_values, shipping_package')
           .in('id', variantIds)
         if (!e1 && d1 && Array.isArray(d1)) {
           variants = d1
@@ -188,8 +206,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Running sales, counted from the database so a capped sale cannot be oversold from a cached
+    // count, and the quotes the buyer accepted; guests have none
+    const pricingContext = await loadOrderPricingContext(supabase, products.map((p: any) => Number(p.id)), orderData.userId)
+
     // SECURITY: Validate and recalculate prices server-side
     const validatedItems: any[] = []
+    const saleLines: SaleClaimLine[] = []
+    const quoteLines: QuoteClaimLine[] = []
     let serverCalculatedSubtotal = 0
 
     for (const clientItem of orderData.items) {
@@ -242,51 +266,36 @@ export async function POST(request: NextRequest) {
       }
 
       // Determine actual price: use variant price if variant exists, otherwise product price
-      let actualUnitPrice = product.price != null ? Number(product.price) : NaN
+      let matchedVariant: any = null
       const productIdForMatch = clientItem.productId != null ? Number(clientItem.productId) : clientItem.productId
       if (clientItem.variantId != null && clientItem.variantId !== '') {
         const variantIdNum = parseInt(String(clientItem.variantId), 10)
         const variantIdStr = String(clientItem.variantId)
         const variant = !isNaN(variantIdNum) ? variantMap.get(variantIdNum) ?? variantMap.get(variantIdStr) : variantMap.get(variantIdStr)
         if (variant && (variant.product_id === productIdForMatch || Number(variant.product_id) === productIdForMatch)) {
-          // Prefer top-level price
-          if (variant.price != null && variant.price !== '') {
-            const p = Number(variant.price)
-            if (!Number.isNaN(p) && p > 0) actualUnitPrice = p
-          }
-          // Else check primary_values (array of { value, price?, ... }); handle JSON string from DB
-          if ((Number.isNaN(actualUnitPrice) || actualUnitPrice <= 0) && variant.primary_values) {
-            let pvList = variant.primary_values
-            if (typeof pvList === 'string') {
-              try {
-                pvList = JSON.parse(pvList)
-              } catch {
-                pvList = []
-              }
-            }
-            if (Array.isArray(pvList)) {
-              for (const pv of pvList) {
-                const p = pv?.price != null && pv?.price !== '' ? Number(pv.price) : NaN
-                if (!Number.isNaN(p) && p > 0) {
-                  actualUnitPrice = p
-                  break
-                }
-              }
-            }
-          }
+          matchedVariant = variant
         }
       }
 
+      // Tier, sale and quote pricing, shared with the shipping estimate and coupon validation
+      const variantIdForSale = clientItem.variantId != null && clientItem.variantId !== '' ? parseInt(String(clientItem.variantId), 10) : NaN
+      const linePrice = priceOrderLine(pricingContext, {
+        product,
+        variant: matchedVariant,
+        variantId: Number.isNaN(variantIdForSale) ? null : variantIdForSale,
+        quantity
+      })
+
       // Validate price is valid number
-      if (Number.isNaN(actualUnitPrice) || actualUnitPrice <= 0) {
+      if (!linePrice) {
         if (process.env.NODE_ENV === 'development') {
-          console.error('[POST /api/orders] 400 INVALID_PRICE:', { productId: clientItem.productId, variantId: clientItem.variantId, actualUnitPrice, productPrice: product.price })
+          console.error('[POST /api/orders] 400 INVALID_PRICE:', { productId: clientItem.productId, variantId: clientItem.variantId, productPrice: product.price })
         }
         logSecurityEvent('INVALID_PRICE', {
           endpoint: '/api/orders',
           productId: clientItem.productId,
           variantId: clientItem.variantId,
-          calculatedPrice: actualUnitPrice
+          calculatedPrice: listUnitPrice(product, matchedVariant)
         }, request)
         return NextResponse.json(
           { error: `Invalid price for product ${clientItem.productId}` },
@@ -294,6 +303,20 @@ export async function POST(request: NextRequest) {
         )
       }
 
+      const { quote, sale, resolution: saleResolution } = linePrice
+      const actualUnitPrice = linePrice.unitPrice
+      if (quote) {
+        quoteLines.push({ quoteId: quote.id, productName: product.name })
+      } else if (sale) {
+        saleLines.push({
+          saleId: sale.id,
+          productId: Number(product.id),
+          variantId: sale.variant_id,
+          productName: product.name,
+          quantity
+        })
+      }
+
       // Calculate server-side total
       const serverTotalPrice = actualUnitPrice * quantity
 
@@ -346,21 +369,43 @@ export async function POST(request: NextRequest) {
         quantity: quantity,
         price: actualUnitPrice, // Use server-fetched price
         total_price: serverTotalPrice, // Use server-calculated total
+        price_tier: quote ? null : toOrderItemPriceTier(saleResolution), // Quantity tier behind the price, for invoices
+        quote_number: quote?.quote_number || null,
         created_at: new Date().toISOString(),
       })
 
       serverCalculatedSubtotal += serverTotalPrice
     }
-    // SECURITY: Calculate shipping fee server-side
+    // SECURITY: Calculate shipping fee server-side from the live rate table
     let serverShippingFee = 0
+    let pickupPointId: number | null = null
+    let pickupPoint: PickupPoint | null = null
+    let deliverySlot: { id: number; capacity: number; date: string; label: string } | null = null
 
-    if (orderData.deliveryOption !== 'pickup') {
+    if (orderData.deliveryOption === 'pickup') {
+      // Once pickup points are set up the buyer must choose one with room left today
+      try {
+        if (orderData.pickupPointId !== undefined && orderData.pickupPointId !== null && orderData.pickupPointId !== '') {
+          pickupPoint = await assertPickupPointAvailable(supabase, Number(orderData.pickupPointId) || 0)
+          pickupPointId = pickupPoint.id
+        } else if ((await getPickupPoints(supabase, { activeOnly: true })).length > 0) {
+          return NextResponse.json(
+            { error: 'Choose a pickup point', code: 'PICKUP_POINT_REQUIRED' },
+            { status: 400 }
+          )
+        }
+      } catch (pickupError) {
+        if (pickupError instanceof ProductionError) {
+          return NextResponse.json(
+            { error: pickupError.message, code: 'PICKUP_POINT_UNAVAILABLE' },
+            { status: pickupError.statusCode }
+          )
+        }
+        throw pickupError
+      }
+    } else {
       const shippingAddress = orderData.shippingAddress || {}
       const shippingLocation = orderData.shippingLocation || {}
-      const allProductsHaveFreeDelivery = validatedItems.length > 0 && validatedItems.every((item: any) => {
-        const product = productMap.get(item.product_id)
-        return product && (product as any).free_delivery === true
-      })
       const resolvedCoords = await resolveShippingCoordinatesFromAddress({
         lat: typeof shippingLocation.lat === 'number' ? shippingLocation.lat : undefined,
         lon: typeof shippingLocation.lon === 'number' ? shippingLocation.lon : undefined,
@@ -374,22 +419,116 @@ export async function POST(request: NextRequest) {
         country: shippingAddress.country,
       })
 
-      const shippingCalc = calculateShippingFee({
-        deliveryOption: orderData.deliveryOption || 'shipping',
-        region: shippingAddress.region || shippingAddress.state,
-        ward: shippingAddress.ward,
-        lat: resolvedCoords?.lat ?? null,
-        lon: resolvedCoords?.lon ?? null,
-        country: shippingAddress.country,
-        subtotal: serverCalculatedSubtotal,
-        allProductsHaveFreeDelivery,
-      })
+      // One shipment per supplier, each priced by its billable weight and distance from the supplier
+      const shipments = await groupShipments(supabase, validatedItems.map((item: any) => {
+        const product = productMap.get(item.product_id)
+        return {
+          productId: Number(item.product_id),
+          variantId: item.variant_id,
+          supplierId: productSupplierId(product),
+          quantity: item.quantity,
+          package: resolveLinePackage(product, item.variant_id ? variantMap.get(item.variant_id) : null),
+          freeDelivery: product?.free_delivery === true,
+        }
+      }))
+      const shippingCalc = calculateShipmentRates(
+        await getActiveShippingRateTable(supabase),
+        {
+          deliveryOption: orderData.deliveryOption || 'shipping',
+          region: shippingAddress.region || shippingAddress.state,
+          district: shippingAddress.district,
+          ward: shippingAddress.ward,
+          lat: resolvedCoords?.lat ?? null,
+          lon: resolvedCoords?.lon ?? null,
+          subtotal: serverCalculatedSubtotal,
+        },
+        shipments
+      )
       serverShippingFee = shippingCalc.shippingFee
+
+      // Same-day slot, optional: only while the whole cart qualifies and the slot has room before its cutoff
+      if (orderData.deliverySlotId !== undefined && orderData.deliverySlotId !== null && orderData.deliverySlotId !== '') {
+        try {
+          const booked = await assertDeliverySlotAvailable(
+            supabase,
+            Number(orderData.deliverySlotId) || 0,
+            {
+              region: shippingAddress.region || shippingAddress.state,
+              district: shippingAddress.district,
+              ward: shippingAddress.ward
+            },
+            validatedItems.map((item: any) => ({
+              productId: Number(item.product_id),
+              quantity: item.quantity,
+              variantName: item.variant_name
+            }))
+          )
+          deliverySlot = { id: booked.slot.id, capacity: booked.slot.capacity, date: booked.date, label: booked.label }
+        } catch (slotError) {
+          if (slotError instanceof ProductionError) {
+            return NextResponse.json(
+              { error: slotError.message, code: 'DELIVERY_SLOT_UNAVAILABLE' },
+              { status: slotError.statusCode }
+            )
+          }
+          throw slotError
+        }
+      }
     }
 
     // SECURITY: Validate and recalculate promotion discount server-side
+    // The code box takes both platform coupons (whole order) and supplier promotions (that supplier's items)
     let serverPromotionDiscount = 0
-    if (orderData.promotionCode) {
+    let platformCoupon: ValidatedCoupon | null = null
+    const platformCouponMatch = orderData.promotionCode
+      ? await getPlatformCouponByCode(supabase, String(orderData.promotionCode))
+      : null
+
+    if (platformCouponMatch) {
+      if (!orderData.userId) {
+        return NextResponse.json(
+          { error: 'Sign in to use this coupon' },
+          { status: 401 }
+        )
+      }
+      try {
+        platformCoupon = await validatePlatformCoupon(supabase, {
+          coupon: platformCouponMatch,
+          userId: orderData.userId,
+          subtotal: serverCalculatedSubtotal
+        })
+      } catch (couponError) {
+        if (couponError instanceof ProductionError) {
+          logSecurityEvent('INVALID_PROMOTION_CODE', {
+            endpoint: '/api/orders',
+            code: platformCouponMatch.code,
+            error: couponError.message
+          }, request)
+          return NextResponse.json(
+            { error: couponError.message },
+            { status: couponError.statusCode }
+          )
+        }
+        throw couponError
+      }
+      serverPromotionDiscount = platformCoupon.discount
+
+      // SECURITY: Compare client-provided discount with server-calculated discount
+      const clientDiscount = parseFloat(orderData.promotionDiscount || '0') || 0
+      if (Math.abs(clientDiscount - serverPromotionDiscount) > 0.01) {
+        logSecurityEvent('PROMOTION_DISCOUNT_TAMPERING_DETECTED', {
+          endpoint: '/api/orders',
+          code: platformCouponMatch.code,
+          clientDiscount: clientDiscount,
+          serverDiscount: serverPromotionDiscount,
+          ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+        }, request)
+        return NextResponse.json(
+          { error: 'Promotion discount mismatch detected. Please refresh and try again.' },
+          { status: 400 }
+        )
+      }
+    } else if (orderData.promotionCode) {
       try {
         const promotionCode = String(orderData.promotionCode).toUpperCase().trim()
         const now = new Date().toISOString()
@@ -538,8 +677,36 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // SECURITY: Coins are only spendable by the signed-in owner and priced server-side
+    const coinsToRedeem = parseInt(orderData.coinsToRedeem || '0', 10) || 0
+    let serverCoinDiscount = 0
+    if (coinsToRedeem > 0) {
+      if (!orderData.userId) {
+        return NextResponse.json(
+          { error: 'Sign in to redeem coins' },
+          { status: 401 }
+        )
+      }
+      try {
+        serverCoinDiscount = await validateCoinRedemption(
+          supabase,
+          orderData.userId,
+          coinsToRedeem,
+          serverCalculatedSubtotal + serverShippingFee - serverPromotionDiscount
+        )
+      } catch (coinError) {
+        if (coinError instanceof ProductionError) {
+          return NextResponse.json(
+            { error: coinError.message, code: 'COIN_REDEMPTION_FAILED' },
+            { status: coinError.statusCode }
+          )
+        }
+        throw coinError
+      }
+    }
+
     // Calculate server-side total
-    const serverCalculatedTotal = serverCalculatedSubtotal + serverShippingFee - serverPromotionDiscount
+    const serverCalculatedTotal = serverCalculatedSubtotal + serverShippingFee - serverPromotionDiscount - serverCoinDiscount
 
     // SECURITY: Compare client-provided total with server-calculated total
     const clientTotal = parseFloat(orderData.totalAmount || '0')
@@ -548,7 +715,7 @@ export async function POST(request: NextRequest) {
 
     if (totalDifference > totalTolerance) {
       if (process.env.NODE_ENV === 'development') {
-        console.error('[POST /api/orders] 400 TOTAL_MISMATCH:', { clientTotal: clientTotal, serverTotal: serverCalculatedTotal, totalDifference, subtotal: serverCalculatedSubtotal, shipping: serverShippingFee, promotion: serverPromotionDiscount })
+        console.error('[POST /api/orders] 400 TOTAL_MISMATCH:', { clientTotal: clientTotal, serverTotal: serverCalculatedTotal, totalDifference, subtotal: serverCalculatedSubtotal, shipping: serverShippingFee, promotion: serverPromotionDiscount, coins: serverCoinDiscount })
       }
       logSecurityEvent('TOTAL_AMOUNT_TAMPERING_DETECTED', {
         endpoint: '/api/orders',
@@ -558,6 +725,7 @@ export async function POST(request: NextRequest) {
         subtotal: serverCalculatedSubtotal,
         shipping: serverShippingFee,
         promotion: serverPromotionDiscount,
+        coins: serverCoinDiscount,
         ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
       }, request)
       return NextResponse.json(
@@ -603,7 +771,14 @@ export async function POST(request: NextRequest) {
       shipping_address: orderData.shippingAddress || {},
       billing_address: orderData.sameAsShipping ? orderData.shippingAddress : (orderData.billingAddress || {}),
       delivery_option: orderData.deliveryOption || 'shipping',
+      pickup_point_id: pickupPointId,
+      delivery_slot_id: deliverySlot?.id ?? null,
+      delivery_slot_date: deliverySlot?.date ?? null,
+      delivery_slot_label: deliverySlot?.label ?? null,
       total_amount: serverCalculatedTotal,
+      // Kept apart from the total so receipts can show them once the order is paid
+      shipping_fee: serverShippingFee,
+      discount_amount: serverPromotionDiscount + serverCoinDiscount,
       currency: orderData.currency || 'TZS',
       payment_method: 'clickpesa',
       payment_status: 'pending',
@@ -672,7 +847,138 @@ export async function POST(request: NextRequest) {
         { status: 500 }
       )
     }
-    
+
+    // The pickup point and slot were checked before the insert; recount now the order holds its place,
+    // and give it up if others got there first
+    if (pickupPoint) {
+      try {
+        await confirmPickupPointCapacity(supabase, pickupPoint)
+      } catch (pickupError) {
+        await supabase.from('order_items').delete().eq('order_id', order.id)
+        await supabase.from('orders').delete().eq('id', order.id)
+        if (pickupError instanceof ProductionError) {
+          return NextResponse.json(
+            { error: pickupError.message, code: 'PICKUP_POINT_UNAVAILABLE' },
+            { status: pickupError.statusCode }
+          )
+        }
+        throw pickupError
+      }
+    }
+    if (deliverySlot) {
+      try {
+        await confirmDeliverySlotCapacity(supabase, deliverySlot, deliverySlot.date)
+      } catch (slotError) {
+        await supabase.from('order_items').delete().eq('order_id', order.id)
+        await supabase.from('orders').delete().eq('id', order.id)
+        if (slotError instanceof ProductionError) {
+          return NextResponse.json(
+            { error: slotError.message, code: 'DELIVERY_SLOT_UNAVAILABLE' },
+            { status: slotError.statusCode }
+          )
+        }
+        throw slotError
+      }
+    }
+
+    // Hold the stock until payment; an order we cannot fill is removed again
+    try {
+      await reserveStockForOrder(supabase, order, validatedItems)
+    } catch (holdError) {
+      await supabase.from('order_items').delete().eq('order_id', order.id)
+      await supabase.from('orders').delete().eq('id', order.id)
+      if (holdError instanceof ProductionError) {
+        return NextResponse.json(
+          { error: holdError.message, code: 'INSUFFICIENT_STOCK' },
+          { status: holdError.statusCode }
+        )
+      }
+      throw holdError
+    }
+
+    // Count sale-priced units against their caps; the order is removed if a sale sold out meanwhile
+    try {
+      await claimSaleUnits(supabase, order, saleLines)
+    } catch (saleError) {
+      await releaseStockHolds(supabase, order.id, 'sale_sold_out')
+      await supabase.from('order_items').delete().eq('order_id', order.id)
+      await supabase.from('orders').delete().eq('id', order.id)
+      if (saleError instanceof ProductionError) {
+        return NextResponse.json(
+          { error: saleError.message, code: 'SALE_SOLD_OUT' },
+          { status: saleError.statusCode }
+        )
+      }
+      throw saleError
+    }
+
+    // Quoted prices are good for one order
+    try {
+      await claimQuotes(supabase, order, quoteLines)
+    } catch (quoteError) {
+      await releaseStockHolds(supabase, order.id, 'quote_already_used')
+      await releaseSaleClaims(supabase, order.id)
+      await supabase.from('order_items').delete().eq('order_id', order.id)
+      await supabase.from('orders').delete().eq('id', order.id)
+      if (quoteError instanceof ProductionError) {
+        return NextResponse.json(
+          { error: quoteError.message, code: 'QUOTE_ALREADY_USED' },
+          { status: quoteError.statusCode }
+        )
+      }
+      throw quoteError
+    }
+
+    // Spend the coins now the order exists; if someone else spent them first, undo the order
+    if (coinsToRedeem > 0) {
+      try {
+        await redeemCoinsForOrder(supabase, order, coinsToRedeem)
+      } catch (coinError) {
+        await releaseStockHolds(supabase, order.id, 'coin_redemption_failed')
+        await releaseSaleClaims(supabase, order.id)
+        await releaseOrderQuotes(supabase, order.id)
+        await supabase.from('order_items').delete().eq('order_id', order.id)
+        await supabase.from('orders').delete().eq('id', order.id)
+        if (coinError instanceof ProductionError) {
+          return NextResponse.json(
+            { error: coinError.message, code: 'COIN_REDEMPTION_FAILED' },
+            { status: coinError.statusCode }
+          )
+        }
+        throw coinError
+      }
+    }
+
+    // Same for the coupon's last use
+    if (platformCoupon) {
+      try {
+        await redeemPlatformCoupon(supabase, order, platformCoupon)
+      } catch (couponError) {
+        await releaseStockHolds(supabase, order.id, 'coupon_redemption_failed')
+        await releaseCoinRedemption(supabase, order.id)
+        await releaseSaleClaims(supabase, order.id)
+        await releaseOrderQuotes(supabase, order.id)
+        await supabase.from('order_items').delete().eq('order_id', order.id)
+        await supabase.from('orders').delete().eq('id', order.id)
+        if (couponError instanceof ProductionError) {
+          return NextResponse.json(
+            { error: couponError.message, code: 'COUPON_REDEMPTION_FAILED' },
+            { status: couponError.statusCode }
+          )
+        }
+        throw couponError
+      }
+    }
+
+    await recordOrderEvent(supabase, {
+      order_id: order.id,
+      order_number: order.order_number,
+      status: 'pending',
+      actor_id: orderData.userId || null,
+      actor_role: 'buyer',
+      source: 'checkout',
+      note: orderData.userId ? null : 'Guest checkout'
+    })
 
     // Send order notification email to admin in background (doesn't block checkout response)
     void (async () => {
@@ -733,6 +1039,7 @@ export async function POST(request: NextRequest) {
                 <p style="margin: 5px 0;"><strong>Reference ID:</strong> ${order.reference_id}</p>
                 ${order.pickup_id ? `<p style="margin: 5px 0;"><strong>Pickup ID:</strong> ${order.pickup_id}</p>` : ''}
                 <p style="margin: 5px 0;"><strong>Delivery Option:</strong> ${deliveryOption === 'pickup' ? 'Pickup' : 'Shipping'}</p>
+                ${deliverySlot ? `<p style="margin: 5px 0;"><strong>Same-Day Slot:</strong> ${deliverySlot.label} (${deliverySlot.date})</p>` : ''}
                 <p style="margin: 5px 0;"><strong>Total Amount:</strong> <span style="color: #059669; font-size: 1.2em; font-weight: bold;">${order.total_amount.toLocaleString('en-TZ', { style: 'currency', currency: 'TZS' })}</span></p>
                 <p style="margin: 5px 0;"><strong>Order Date:</strong> ${new Date(order.created_at).toLocaleString('en-TZ', { timeZone: 'Africa/Dar_es_Salaam' })}</p>
               </div>
@@ -799,6 +1106,7 @@ Order Details:
 - Reference ID: ${order.reference_id}
 ${order.pickup_id ? `- Pickup ID: ${order.pickup_id}` : ''}
 - Delivery Option: ${deliveryOption === 'pickup' ? 'Pickup' : 'Shipping'}
+${deliverySlot ? `- Same-Day Slot: ${deliverySlot.label} (${deliverySlot.date})` : ''}
 - Total Amount: ${order.total_amount.toLocaleString('en-TZ', { style: 'currency', currency: 'TZS' })}
 - Order Date: ${new Date(order.created_at).toLocaleString('en-TZ', { timeZone: 'Africa/Dar_es_Salaam' })}
 
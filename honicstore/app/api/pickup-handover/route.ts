@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAuth, getUserAndRole } from '@/lib/auth-server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { confirmPickupHandover, getPickupHandover, parsePickupCode } from '@/lib/pickup-points'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function requirePickupStaff(request: NextRequest) {
+  const rateLimitResult = await enhancedRateLimit(request)
+  if (!rateLimitResult.allowed) {
+    logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+      endpoint: '/api/pickup-handover',
+      reason: rateLimitResult.reason
+    }, request)
+    return {
+      staff: null,
+      response: NextResponse.json(
+        { success: false, error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+  }
+
+  const { user, error: authError } = await validateAuth(request)
+  if (authError || !user) {
+    return { staff: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Whether this user works at the order's pickup point is checked against the order itself
+  const { role } = await getUserAndRole(user.id)
+  return { staff: { userId: user.id, isAdmin: role === 'admin' }, response: null }
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof ProductionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.statusCode }
+    )
+  }
+  logError(error, { action })
+  return createErrorResponse(error, 500)
+}
+
+const INVALID_CODE = { success: false, error: 'This is not a pickup code' }
+
+// GET /api/pickup-handover?code= - The order behind a scanned pickup QR or typed pickup ID
+export async function GET(request: NextRequest) {
+  const { staff, response } = await requirePickupStaff(request)
+  if (!staff) return response
+
+  try {
+    const code = parsePickupCode(request.nextUrl.searchParams.get('code'))
+    if (!code) return NextResponse.json(INVALID_CODE, { status: 400 })
+
+    const handover = await getPickupHandover(getSupabaseClient(), code, staff)
+    return NextResponse.json({ success: true, handover })
+  } catch (error) {
+    return errorResponse(error, 'pickup_handover_get')
+  }
+}
+
+// POST /api/pickup-handover - Confirm the buyer collected the parcel
+export async function POST(request: NextRequest) {
+  const { staff, response } = await requirePickupStaff(request)
+  if (!staff) return response
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const code = parsePickupCode(body?.code)
+    if (!code) return NextResponse.json(INVALID_CODE, { status: 400 })
+
+    const result = await confirmPickupHandover(getSupabaseClient(), code, staff)
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: result.completed
+        ? 'Handover confirmed, the order is complete'
+        : `Handed over ${result.handedOver} item(s); the rest have not reached the pickup point yet`
+    })
+  } catch (error) {
+    return errorResponse(error, 'pickup_handover_confirm')
+  }
+}
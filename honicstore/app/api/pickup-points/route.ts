@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { suggestPickupPoints } from '@/lib/pickup-points'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { logError } from '@/lib/error-handler'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/pickup-points?region=&district=&ward=&lat=&lon=
+ * Pickup points for checkout, nearest first: same ward, then district, then region, by distance
+ * within each when lat/lon are given. Each carries its hours, whether it is open now and how many
+ * pickup orders it can still take today. No auth required.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/pickup-points',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const params = request.nextUrl.searchParams
+    const coordinate = (name: string) => {
+      const value = params.get(name)
+      return value !== null && value !== '' && Number.isFinite(Number(value)) ? Number(value) : null
+    }
+
+    const points = await suggestPickupPoints(getSupabaseClient(), {
+      region: params.get('region'),
+      district: params.get('district'),
+      ward: params.get('ward'),
+      lat: coordinate('lat'),
+      lon: coordinate('lon')
+    })
+
+    return NextResponse.json({ success: true, points })
+  } catch (error) {
+    logError(error, {
+      action: 'pickup_points_get'
+    })
+    return NextResponse.json({ error: 'Failed to load pickup points' }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { createSecureResponse, createErrorResponse } from '@/lib/secure-api'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { toggleHelpfulVote } from '@/lib/product-reviews'
+import { ProductionError } from '@/lib/error-handler'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// POST - Toggle the user's helpful vote on a review
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/products/[id]/reviews/[reviewId]/helpful',
+        reason: rateLimitResult.reason
+      }, request)
+      return createErrorResponse(rateLimitResult.reason || 'Too many requests', 429, {
+        retryAfter: rateLimitResult.retryAfter || 60
+      })
+    }
+
+    const { id: productId, reviewId } = await params
+
+    if (!productId || isNaN(Number(productId))) {
+      return createErrorResponse('Invalid product ID', 400)
+    }
+    if (!reviewId || isNaN(Number(reviewId))) {
+      return createErrorResponse('Invalid review ID', 400)
+    }
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    )
+
+    // Get authenticated user
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader) {
+      return createErrorResponse('Unauthorized', 401)
+    }
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return createErrorResponse('Unauthorized', 401)
+    }
+
+    const result = await toggleHelpfulVote(getSupabaseClient(), {
+      reviewId: Number(reviewId),
+      productId: Number(productId),
+      userId: user.id
+    })
+
+    return createSecureResponse({
+      voted: result.voted,
+      helpful: result.helpfulCount
+    })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return createErrorResponse(error.message, error.statusCode)
+    }
+    logger.log('❌ Error voting on review:', error)
+    return createErrorResponse('Internal server error', 500)
+  }
+}
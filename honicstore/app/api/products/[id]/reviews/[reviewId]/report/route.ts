@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { createSecureResponse, createErrorResponse } from '@/lib/secure-api'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { reportReview, REVIEW_REPORT_REASONS, ReviewReportReason } from '@/lib/product-reviews'
+import { ProductionError } from '@/lib/error-handler'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// POST - Report a review to the moderation queue
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/products/[id]/reviews/[reviewId]/report',
+        reason: rateLimitResult.reason
+      }, request)
+      return createErrorResponse(rateLimitResult.reason || 'Too many requests', 429, {
+        retryAfter: rateLimitResult.retryAfter || 60
+      })
+    }
+
+    const { id: productId, reviewId } = await params
+
+    if (!productId || isNaN(Number(productId))) {
+      return createErrorResponse('Invalid product ID', 400)
+    }
+    if (!reviewId || isNaN(Number(reviewId))) {
+      return createErrorResponse('Invalid review ID', 400)
+    }
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    )
+
+    // Get authenticated user
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader) {
+      return createErrorResponse('Unauthorized', 401)
+    }
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return createErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason = body.reason as ReviewReportReason
+    const details = typeof body.details === 'string' ? body.details.trim().slice(0, 500) : null
+
+    if (!REVIEW_REPORT_REASONS.includes(reason)) {
+      return createErrorResponse('Please choose a reason for the report', 400)
+    }
+
+    await reportReview(getSupabaseClient(), {
+      reviewId: Number(reviewId),
+      productId: Number(productId),
+      reporterId: user.id,
+      reason,
+      details
+    })
+
+    return createSecureResponse({
+      message: 'Thanks, our team will review it'
+    }, {
+      status: 201
+    })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return createErrorResponse(error.message, error.statusCode)
+    }
+    logger.log('❌ Error reporting review:', error)
+    return createErrorResponse('Internal server error', 500)
+  }
+}
@@ -5,6 +5,8 @@ import { createSecureResponse, createErrorResponse } from '@/lib/secure-api'
 import { securityUtils } from '@/lib/secure-config'
 import { logger } from '@/lib/logger'
 import { getCachedData, setCachedData, CACHE_TTL } from '@/lib/database-optimization'
+import { getProductSales, applySalesToProduct, priceChangeCacheControl } from '@/lib/product-sales'
+import { effectivePriceTiers, tierBands } from '@/lib/price-tiers'
 
 // Simple security functions
 const logSecurityEvent = (action: string, userId?: string, details?: any) => {
@@ -48,8 +50,10 @@ export async function GET(
     // Check cache first
     const cachedProduct = getCachedData(cacheKey)
     if (cachedProduct) {
-      return createSecureResponse(cachedProduct, {
-        cacheControl: 'public, s-maxage=1800, stale-while-revalidate=3600',
+      // Sale prices are resolved per request so the cached product never holds an expired sale
+      const sales = await getProductSales(getSupabaseClient(), [Number(productId)])
+      return createSecureResponse(applySalesToProduct(cachedProduct as Record<string, any>, sales.get(Number(productId))), {
+        cacheControl: priceChangeCacheControl(sales, 1800) || 'public, s-maxage=1800, stale-while-revalidate=3600',
         headers: {
           'X-Cache': 'HIT',
           'X-Product-ID': productId
@@ -109,6 +113,11 @@ export async function GET(
       name: product.name,
       originalPrice: product.original_price,
       price: product.price,
+      // Quantity bands for the tier table, empty without tiers
+      priceTiers: (() => {
+        const { tiers, regularPrice } = effectivePriceTiers({ productPrice: product.price, productTiers: product.price_tiers })
+        return tierBands(tiers, regularPrice)
+      })(),
       rating: product.rating,
       reviews: product.reviews,
       image: product.image,
@@ -157,9 +166,17 @@ export async function GET(
           primaryValues = []
         }
 
+        const { tiers, regularPrice } = effectivePriceTiers({
+          productPrice: product.price,
+          productTiers: product.price_tiers,
+          variantPrice: variant.price,
+          variantTiers: variant.price_tiers
+        })
+
         return {
           id: variant.id,
           price: variant.price,
+          priceTiers: tierBands(tiers, regularPrice),
           image: variant.image,
           sku: variant.sku,
           model: variant.model,
@@ -238,9 +255,12 @@ export async function GET(
     const url = new URL(request.url)
     const isFreshRequest = url.searchParams.has('t') || url.searchParams.has('fresh')
     
+    const sales = await getProductSales(getSupabaseClient(), [product.id])
+
     // CDN caching: 30 min CDN, 15 min browser, 1 hour stale-while-revalidate
     // This enables fast CDN delivery for product details
-    return createSecureResponse(transformedProduct, {
+    return createSecureResponse(applySalesToProduct(transformedProduct, sales.get(product.id)), {
+      cacheControl: isFreshRequest ? undefined : priceChangeCacheControl(sales, 1800) || undefined,
       cdnCache: !isFreshRequest, // Enable CDN cache unless fresh request
       browserCache: !isFreshRequest, // Enable browser cache unless fresh request
       headers: {
@@ -1,8 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { isBotUserAgent } from '@/lib/ad-tracking'
+import { isValidAnalyticsSessionId, recordProductEvents } from '@/lib/product-analytics'
 
 export const runtime = 'nodejs'
 
+// Daily views for supplier analytics, counted once per browser session and never for bots
+async function recordDailyView(request: NextRequest, productId: number) {
+  try {
+    if (isBotUserAgent(request.headers.get('user-agent'))) return
+
+    const body = await request.json().catch(() => null)
+    if (!isValidAnalyticsSessionId(body?.sessionId)) return
+
+    await recordProductEvents(getSupabaseClient(), {
+      productIds: [productId],
+      eventType: 'view',
+      sessionId: body.sessionId
+    })
+  } catch (error) {
+    logger.error(`Error recording daily view for product ${productId}:`, error)
+  }
+}
+
 // POST - Track product view
 export async function POST(
   request: NextRequest,
@@ -22,6 +44,8 @@ export async function POST(
     const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+    await recordDailyView(request, parseInt(productId))
+
     // Increment view count atomically
     const { data, error } = await supabase.rpc('increment_product_views', {
       product_id: parseInt(productId)
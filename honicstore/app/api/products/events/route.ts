@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enhancedRateLimit } from '@/lib/enhanced-rate-limit'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { isBotUserAgent } from '@/lib/ad-tracking'
+import {
+  MAX_EVENT_PRODUCTS,
+  PRODUCT_BEACON_EVENT_TYPES,
+  ProductEventType,
+  isValidAnalyticsSessionId,
+  recordProductEvents
+} from '@/lib/product-analytics'
+
+// Rate limit logging helper
+const logRateLimitEvent = (endpoint: string, reason: string | undefined, request: NextRequest) => {
+  const clientIP = request.headers.get('x-forwarded-for') ||
+                   request.headers.get('x-real-ip') ||
+                   request.headers.get('cf-connecting-ip') ||
+                   'unknown'
+  logger.security(`Rate limit exceeded on ${endpoint}`, undefined, {
+    ip: clientIP,
+    reason,
+    path: request.nextUrl.pathname
+  })
+}
+
+export const dynamic = 'force-dynamic'
+
+export const runtime = 'nodejs'
+
+// Beacons don't read the response, so every outcome is an empty 204
+const noContent = () => new NextResponse(null, { status: 204 })
+
+// POST - Add-to-cart and checkout-started beacons for supplier analytics
+// Sent with navigator.sendBeacon, so the body arrives as text/plain JSON
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await enhancedRateLimit(request)
+  if (!rateLimitResult.allowed) {
+    logRateLimitEvent('/api/products/events', rateLimitResult.reason, request)
+    return noContent()
+  }
+
+  try {
+    if (isBotUserAgent(request.headers.get('user-agent'))) {
+      return noContent()
+    }
+
+    let body: any
+    try {
+      body = JSON.parse(await request.text())
+    } catch {
+      return NextResponse.json({ error: 'Invalid beacon' }, { status: 400 })
+    }
+
+    const eventType = body?.type as ProductEventType
+    const productIds = Array.isArray(body?.productIds)
+      ? body.productIds.map(Number).filter((id: number) => Number.isInteger(id) && id > 0)
+      : []
+    if (!PRODUCT_BEACON_EVENT_TYPES.includes(eventType) || !isValidAnalyticsSessionId(body?.sessionId) ||
+        productIds.length === 0 || productIds.length > MAX_EVENT_PRODUCTS) {
+      return NextResponse.json({ error: 'Invalid beacon' }, { status: 400 })
+    }
+
+    // Automated browsers report navigator.webdriver
+    if (body.webdriver === true) {
+      return noContent()
+    }
+
+    await recordProductEvents(getSupabaseClient(), {
+      productIds,
+      eventType,
+      sessionId: body.sessionId
+    })
+
+    return noContent()
+  } catch (error) {
+    logger.error('Error recording product event:', error)
+    return noContent()
+  }
+}
@@ -7,6 +7,7 @@ import { createSecureApiHandler, createSecureResponse, createErrorResponse } fro
 import { securityUtils } from '@/lib/secure-config'
 import { logger } from '@/lib/logger'
 import { enhancedRateLimit } from '@/lib/enhanced-rate-limit'
+import { getProductSales, applySalesToProducts, priceChangeCacheControl } from '@/lib/product-sales'
 
 // Simple security functions
 const logSecurityEvent = (action: string, userId?: string, details?: any) => {
@@ -197,6 +198,22 @@ function validateAndSanitizeInputs(searchParams: URLSearchParams) {
   return { validated, errors }
 }
 
+// Sale prices go on at response time so cached listings, which keep regular prices, never serve
+// a sale that has ended; cacheControl is set when a sale starts or ends before the usual max age
+async function withSalePrices<T extends { products?: any[] }>(
+  data: T,
+  maxAgeSeconds: number
+): Promise<{ data: T; cacheControl: string | undefined }> {
+  const products = Array.isArray(data?.products) ? data.products : []
+  if (products.length === 0) return { data, cacheControl: undefined }
+
+  const sales = await getProductSales(getSupabaseClient(), products.map((product: any) => Number(product.id)))
+  return {
+    data: { ...data, products: applySalesToProducts(products, sales) },
+    cacheControl: priceChangeCacheControl(sales, maxAgeSeconds) || undefined
+  }
+}
+
 // GET - Fetch all products with optimized caching and minimal payload support
 export async function GET(request: NextRequest) {
   const startTime = Date.now()
@@ -232,7 +249,9 @@ export async function GET(request: NextRequest) {
       if (cachedData) {
         // Return cached data with rate limit warning header (but don't fail the request)
         // Use CDN + browser caching for cached responses
-        return createSecureResponse(cachedData, {
+        const priced = await withSalePrices(cachedData, 1800)
+        return createSecureResponse(priced.data, {
+          cacheControl: priced.cacheControl,
           cdnCache: true,
           browserCache: true,
           headers: {
@@ -325,10 +344,7 @@ export async function GET(request: NextRequest) {
           const safeLimit = Math.min(limit, 200) // Max 200 products per request
           const safeOffset = Math.max(0, offset)
           const slicedProducts = popularProducts.slice(safeOffset, safeOffset + safeLimit)
-          
-          // Return popular products from cache (NO DATABASE HIT!)
-          // AliExpress-style: Popular products served from cache/CDN without hitting database
-          return createSecureResponse({
+          const priced = await withSalePrices({
             products: slicedProducts,
             pagination: {
               total: popularProducts.length,
@@ -336,7 +352,12 @@ export async function GET(request: NextRequest) {
               offset: safeOffset,
               hasMore: safeOffset + safeLimit < popularProducts.length
             }
-          }, {
+          }, 7200)
+          
+          // Return popular products from cache (NO DATABASE HIT!)
+          // AliExpress-style: Popular products served from cache/CDN without hitting database
+          return createSecureResponse(priced.data, {
+            cacheControl: priced.cacheControl,
             popularProducts: true, // Aggressive CDN + browser caching (2 hours CDN, 1 hour browser)
             cdnCache: true,
             browserCache: true,
@@ -394,8 +415,11 @@ export async function GET(request: NextRequest) {
       const productsCount = cachedData.products ? cachedData.products.length : (Array.isArray(cachedData) ? cachedData.length : 0)
       const totalCount = cachedData.pagination?.total || productsCount
       
+      const priced = await withSalePrices(cachedData, 1800)
+
       // Server cache hit - serve from in-memory cache (no database query)
-      return createSecureResponse(cachedData, {
+      return createSecureResponse(priced.data, {
+        cacheControl: priced.cacheControl,
         cdnCache: true, // Enable CDN caching
         browserCache: true, // Enable browser caching
         headers: {
@@ -1729,7 +1753,9 @@ export async function GET(request: NextRequest) {
     // - Popular products: Aggressive CDN + browser cache (1 hour CDN, 30 min browser)
     // - Regular requests: Moderate CDN + browser cache (30 min CDN, 15 min browser)
     // - Fresh requests: No cache
-    return createSecureResponse(responseData, {
+    const priced = await withSalePrices(responseData, isPopularRequest && offset === 0 ? 7200 : 1800)
+    return createSecureResponse(priced.data, {
+      cacheControl: isFreshRequest ? undefined : priced.cacheControl,
       popularProducts: isPopularRequest && offset === 0, // Aggressive caching for popular
       cdnCache: !isFreshRequest, // CDN cache unless fresh request
       browserCache: !isFreshRequest, // Browser cache unless fresh request
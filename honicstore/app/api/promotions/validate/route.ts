@@ -1,9 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { ProductionError } from '@/lib/error-handler'
+import { getPlatformCouponByCode, validatePlatformCoupon } from '@/lib/platform-coupons'
+import { priceOrderItems } from '@/lib/order-pricing'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
+/**
+ * Platform coupons are tied to the buyer (wallet, per-user limits), so they need a signed-in user
+ * and apply to the whole subtotal rather than one supplier's products. The subtotal is priced from
+ * the posted lines the way POST /api/orders prices them, so a percentage discount agrees with it.
+ */
+async function validatePlatformCode(request: NextRequest, code: string, cartItems: any[]) {
+  const adminSupabase = getSupabaseClient()
+  const coupon = await getPlatformCouponByCode(adminSupabase, code)
+  if (!coupon) return null
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to use this coupon' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { subtotal } = await priceOrderItems(adminSupabase, cartItems, user.id)
+    const { discount } = await validatePlatformCoupon(adminSupabase, {
+      coupon,
+      userId: user.id,
+      subtotal
+    })
+
+    return NextResponse.json({
+      success: true,
+      promotion: {
+        code: coupon.code,
+        name: coupon.name,
+        scope: 'platform',
+        discountType: coupon.discount_type,
+        discountValue: coupon.discount_value,
+        discountAmount: discount,
+        finalTotal: subtotal - discount
+      }
+    })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+    throw error
+  }
+}
+
 // POST - Validate and apply promotion code
 export async function POST(request: NextRequest) {
   try {
@@ -21,6 +88,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Platform coupons first, the same order POST /api/orders looks codes up in
+    const platformResult = await validatePlatformCode(request, code, Array.isArray(cartItems) ? cartItems : [])
+    if (platformResult) return platformResult
+
     // Find active promotion by code
     const now = new Date().toISOString()
     const { data: promotion, error } = await publicClient
@@ -148,6 +219,7 @@ export async function POST(request: NextRequest) {
         id: promotion.id,
         code: promotion.code,
         name: promotion.name,
+        scope: 'supplier',
         discountType: promotion.discount_type,
         discountValue: promotion.discount_value,
         discountAmount,
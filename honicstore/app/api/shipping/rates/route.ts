@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getActiveShippingRateTable, summarizeShippingRateTable } from '@/lib/shipping-rates'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { logError } from '@/lib/error-handler'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/shipping/rates
+ * Starting fees and the free-shipping threshold from the rate table checkout charges from, for the
+ * shipping info page. No auth required.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/shipping/rates',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const table = await getActiveShippingRateTable(getSupabaseClient())
+    return NextResponse.json({ success: true, rates: summarizeShippingRateTable(table) })
+  } catch (error) {
+    logError(error, {
+      action: 'shipping_rates_get'
+    })
+    return NextResponse.json({ error: 'Failed to load shipping rates' }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getHeldQuantities } from '@/lib/stock-holds'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -71,6 +73,9 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Failed to fetch stock data' }, { status: 500 })
       }
 
+      // Units held by unpaid checkouts are not available to anyone else
+      const heldQuantities = await getHeldQuantities(getSupabaseClient(), uncachedIds)
+
       // Process and cache results
       for (const product of products || []) {
         // Calculate stock from variant stock_quantity (simplified variant system)
@@ -87,14 +92,20 @@ export async function GET(request: NextRequest) {
         // Use calculated stock if available, otherwise fall back to product stock
         const finalStock = calculatedStock > 0 ? calculatedStock : product.stock_quantity
         
+        const heldQuantity = heldQuantities.get(product.id) || 0
+        const availableStock = finalStock === null
+          ? Infinity
+          : (Number.isFinite(finalStock) ? Math.max(0, finalStock - heldQuantity) : 0)
+        
         const stockData = {
           id: product.id,
           name: product.name,
           inStock: product.in_stock,
           stockQuantity: finalStock,
-          availableStock: finalStock === null ? Infinity : (Number.isFinite(finalStock) ? finalStock : 0),
-          // Use database in_stock field (managed by trigger) with fallback
-          effectiveInStock: product.in_stock ?? ((finalStock === null) || (Number.isFinite(finalStock) && finalStock > 0))
+          heldQuantity,
+          availableStock,
+          // Use database in_stock field (managed by trigger) with fallback; fully held stock is not in stock
+          effectiveInStock: (product.in_stock ?? ((finalStock === null) || (Number.isFinite(finalStock) && finalStock > 0))) && availableStock > 0
         }
         
         // Cache the result
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { setCampaignStatus } from '@/lib/ad-campaigns'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const CAMPAIGN_ACTIONS = ['pause', 'resume', 'end'] as const
+
+// PATCH /api/supplier/advertisements/campaigns/[campaignId] - Pause, resume or end a campaign
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  return performanceMonitor.measure('supplier_ad_campaign_patch', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/advertisements/campaigns/[campaignId]',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { campaignId } = await params
+      if (!campaignId || isNaN(Number(campaignId))) {
+        return NextResponse.json(
+          { success: false, error: 'Campaign not found' },
+          { status: 404 }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/advertisements/campaigns/[campaignId]',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const body = await request.json().catch(() => ({}))
+      if (!CAMPAIGN_ACTIONS.includes(body.action)) {
+        return NextResponse.json(
+          { success: false, error: "action must be 'pause', 'resume' or 'end'" },
+          { status: 400 }
+        )
+      }
+
+      const campaign = await setCampaignStatus(adminSupabase, {
+        supplierId: user.id,
+        campaignId: Number(campaignId),
+        action: body.action
+      })
+
+      return NextResponse.json({
+        success: true,
+        campaign
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_ad_campaign_patch'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
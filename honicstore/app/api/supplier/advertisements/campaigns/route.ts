@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { createCampaign, getSupplierCampaigns, normalizeCampaignInput } from '@/lib/ad-campaigns'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/supplier/advertisements/campaigns - Supplier's campaigns with state and today's delivery
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_ad_campaigns_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/advertisements/campaigns',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/advertisements/campaigns',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const campaigns = await getSupplierCampaigns(adminSupabase, user.id)
+
+      return NextResponse.json({
+        success: true,
+        campaigns
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_ad_campaigns_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
+
+// POST /api/supplier/advertisements/campaigns - Schedule one of the supplier's advertisements
+export async function POST(request: NextRequest) {
+  return performanceMonitor.measure('supplier_ad_campaigns_post', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/advertisements/campaigns',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/advertisements/campaigns',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const body = await request.json().catch(() => ({}))
+      const input = normalizeCampaignInput(body)
+
+      // Ownership of the advertisement is checked in createCampaign
+      const campaign = await createCampaign(adminSupabase, user.id, input)
+
+      return NextResponse.json({
+        success: true,
+        campaign
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_ad_campaigns_post'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getSupplierAdReport } from '@/lib/ad-tracking'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/supplier/advertisements/report?days=30 - Impressions, CTR and attributed orders per ad
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_advertisements_report_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/advertisements/report',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/advertisements/report',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const days = Number(request.nextUrl.searchParams.get('days')) || 30
+      const report = await getSupplierAdReport(adminSupabase, { supplierId: user.id, days })
+
+      return NextResponse.json({
+        success: true,
+        report
+      })
+    } catch (error) {
+      logError(error, {
+        action: 'supplier_advertisements_report_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
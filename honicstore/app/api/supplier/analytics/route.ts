@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getSupplierAnalytics, resolveAnalyticsRange } from '@/lib/product-analytics'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/supplier/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD - Funnel, sales and trends vs the previous period
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_analytics_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/analytics',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/analytics',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const { searchParams } = request.nextUrl
+      const range = resolveAnalyticsRange(searchParams.get('from'), searchParams.get('to'))
+      const analytics = await getSupplierAnalytics(adminSupabase, { supplierId: user.id, range })
+
+      return NextResponse.json({
+        success: true,
+        analytics
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_analytics_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  getDispatchLocation,
+  normalizeDispatchLocationInput,
+  updateDispatchLocation
+} from '@/lib/shipping-packages'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// GET /api/supplier/dispatch-location - Where the supplier's shipments leave from; null until set
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_dispatch_location_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/dispatch-location',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/dispatch-location')
+      if (!user) return response
+
+      const location = await getDispatchLocation(getSupabaseClient(), user.id)
+
+      return NextResponse.json({
+        success: true,
+        location
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_dispatch_location_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
+
+// PUT /api/supplier/dispatch-location - Set the dispatch location used to price the supplier's shipments
+export async function PUT(request: NextRequest) {
+  return performanceMonitor.measure('supplier_dispatch_location_update', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/dispatch-location',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/dispatch-location')
+      if (!user) return response
+
+      const body = await request.json().catch(() => null)
+      if (!body || typeof body !== 'object') {
+        return NextResponse.json(
+          { success: false, error: 'Invalid request body' },
+          { status: 400 }
+        )
+      }
+
+      const location = await updateDispatchLocation(getSupabaseClient(), user.id, normalizeDispatchLocationInput(body))
+
+      return NextResponse.json({
+        success: true,
+        location,
+        message: 'Dispatch location saved'
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_dispatch_location_update'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  getThreadForParticipant,
+  isValidThreadNumber,
+  reportMessage,
+  MESSAGE_REPORT_REASONS,
+  MessageReportReason
+} from '@/lib/messaging'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST /api/supplier/messages/[threadNumber]/report - Report a buyer's message to the admins
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadNumber: string }> }
+) {
+  return performanceMonitor.measure('supplier_message_report_post', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/messages/[threadNumber]/report',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { threadNumber } = await params
+      if (!isValidThreadNumber(threadNumber)) {
+        return NextResponse.json(
+          { success: false, error: 'Conversation not found' },
+          { status: 404 }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/messages/[threadNumber]/report',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const body = await request.json().catch(() => ({}))
+      const reason = body.reason as MessageReportReason
+      const details = typeof body.details === 'string' ? body.details.trim().slice(0, 500) : null
+
+      if (!MESSAGE_REPORT_REASONS.includes(reason)) {
+        return NextResponse.json(
+          { success: false, error: 'Please choose a reason for the report' },
+          { status: 400 }
+        )
+      }
+      if (typeof body.messageReference !== 'string' || !body.messageReference) {
+        return NextResponse.json(
+          { success: false, error: 'Choose the message to report' },
+          { status: 400 }
+        )
+      }
+
+      const thread = await getThreadForParticipant(adminSupabase, { threadNumber, userId: user.id, role: 'supplier' })
+      await reportMessage(adminSupabase, {
+        thread,
+        messageReference: body.messageReference,
+        reporterId: user.id,
+        reporterRole: 'supplier',
+        reason,
+        details
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: 'Thanks, our team will review this message'
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_message_report_post'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  getThreadForParticipant,
+  getThreadMessages,
+  isValidThreadNumber,
+  markThreadRead,
+  normalizeMessageInput,
+  sendMessage,
+  toClientMessage
+} from '@/lib/messaging'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// GET /api/supplier/messages/[threadNumber] - Messages in a buyer conversation (marks it as read)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadNumber: string }> }
+) {
+  return performanceMonitor.measure('supplier_message_thread_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/messages/[threadNumber]',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { threadNumber } = await params
+      if (!isValidThreadNumber(threadNumber)) {
+        return NextResponse.json(
+          { success: false, error: 'Conversation not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/messages/[threadNumber]')
+      if (!user) return response
+
+      const adminSupabase = getSupabaseClient()
+      const thread = await getThreadForParticipant(adminSupabase, { threadNumber, userId: user.id, role: 'supplier' })
+      const messages = await getThreadMessages(adminSupabase, thread.id)
+      await markThreadRead(adminSupabase, thread, 'supplier')
+
+      return NextResponse.json({
+        success: true,
+        messages: messages.map(message => toClientMessage(message, 'supplier'))
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_message_thread_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
+
+// POST /api/supplier/messages/[threadNumber] - Reply to a buyer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadNumber: string }> }
+) {
+  return performanceMonitor.measure('supplier_message_thread_post', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/messages/[threadNumber]',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { threadNumber } = await params
+      if (!isValidThreadNumber(threadNumber)) {
+        return NextResponse.json(
+          { success: false, error: 'Conversation not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/messages/[threadNumber]')
+      if (!user) return response
+
+      const body = await request.json().catch(() => ({}))
+      const message = normalizeMessageInput(body.body, body.attachments)
+
+      const adminSupabase = getSupabaseClient()
+      const thread = await getThreadForParticipant(adminSupabase, { threadNumber, userId: user.id, role: 'supplier' })
+      const { message: sent } = await sendMessage(adminSupabase, {
+        thread,
+        senderId: user.id,
+        senderRole: 'supplier',
+        ...message
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: toClientMessage(sent, 'supplier')
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_message_thread_post'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getUnreadMessageCount } from '@/lib/messaging'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError } from '@/lib/error-handler'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// GET /api/supplier/messages/unread-count - Unread buyer messages for the supplier
+// Not cached: the badge has to clear as soon as a conversation is opened
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_messages_unread_count_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/messages/unread-count',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+        {
+          cookies: {
+            get(name: string) {
+              return request.cookies.get(name)?.value
+            },
+            set(name: string, value: string, options: any) {},
+            remove(name: string, options: any) {},
+          },
+        }
+      )
+
+      // Get authenticated user
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        logSecurityEvent('UNAUTHORIZED_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/messages/unread-count'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      // Check if user is a supplier
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (profileError || !profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/messages/unread-count',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'Access denied. Supplier access required.' },
+          { status: 403 }
+        )
+      }
+
+      const unreadCount = await getUnreadMessageCount(getSupabaseClient(), user.id, 'supplier')
+
+      return NextResponse.json({
+        success: true,
+        unreadCount
+      })
+    } catch (error: any) {
+      logError(error, {
+        action: 'supplier_messages_unread_count_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
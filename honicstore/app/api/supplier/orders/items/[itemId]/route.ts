@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { ProductionError } from '@/lib/error-handler'
+import { cancelSupplierOrderItem, notifyBuyerOfCancellation } from '@/lib/order-cancellation'
+import { recordOrderEvents } from '@/lib/order-events'
+import { markPickupReadyIfArrived } from '@/lib/pickup-points'
+import { awardCoinsIfDelivered } from '@/lib/loyalty-coins'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -121,10 +127,40 @@ export async function PATCH(
         { status: 400 }
       )
     }
+    // Cancellation is per item: restock, recompute totals and refund only this item
+    if (status === 'cancelled') {
+      const reason = typeof body.reason === 'string' && body.reason.trim()
+        ? body.reason.trim().slice(0, 500)
+        : 'Cancelled by supplier'
+      try {
+        const adminSupabase = getSupabaseClient()
+        const result = await cancelSupplierOrderItem(adminSupabase, { supplierId: user.id, itemId, reason })
+        await notifyBuyerOfCancellation(adminSupabase, result, reason)
+
+        return NextResponse.json({
+          success: true,
+          itemsUpdated: result.cancelledItems,
+          orderCancelled: result.orderCancelled,
+          refundAmount: result.refundAmount,
+          message: result.orderCancelled
+            ? 'Item cancelled. No items are left, so the order was cancelled.'
+            : 'Item cancelled successfully'
+        })
+      } catch (cancelError) {
+        if (cancelError instanceof ProductionError) {
+          return NextResponse.json(
+            { success: false, error: cancelError.message },
+            { status: cancelError.statusCode }
+          )
+        }
+        throw cancelError
+      }
+    }
+
     // Get delivery option from confirmed_order to determine correct final status
     const { data: confirmedOrder, error: orderError } = await supabase
       .from('confirmed_orders')
-      .select('delivery_option')
+      .select('order_id, order_number, delivery_option')
       .eq('id', orderItem.confirmed_order_id)
       .single()
 
@@ -205,6 +241,29 @@ export async function PATCH(
         { status: 500 }
       )
     }
+    if (confirmedOrder?.order_id) {
+      const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim().slice(0, 500) : null
+      await recordOrderEvents(getSupabaseClient(), (updatedItems || []).map(item => ({
+        order_id: confirmedOrder.order_id,
+        order_number: confirmedOrder.order_number,
+        confirmed_order_item_id: item.id,
+        supplier_id: user.id,
+        status: finalStatus,
+        actor_id: user.id,
+        actor_role: 'supplier' as const,
+        source: 'supplier_item_update',
+        note
+      })))
+    }
+
+    // A pickup order waits at its pickup point from when the last parcel arrives
+    if (finalStatus === 'delivered' && confirmedOrder?.delivery_option === 'pickup' && confirmedOrder.order_id) {
+      await markPickupReadyIfArrived(getSupabaseClient(), orderItem.confirmed_order_id, confirmedOrder.order_id)
+    } else if (finalStatus === 'delivered' && confirmedOrder?.order_id) {
+      // A shipping order has reached the buyer once every supplier's items are delivered
+      await awardCoinsIfDelivered(getSupabaseClient(), orderItem.confirmed_order_id, confirmedOrder.order_id)
+    }
+
     return NextResponse.json({
       success: true,
       itemsUpdated: updatedItems?.length || 0,
@@ -141,6 +141,7 @@ export async function GET(request: NextRequest) {
       .from('confirmed_orders')
       .select(`
         id,
+        order_id,
         order_number,
         reference_id,
         pickup_id,
@@ -168,6 +169,28 @@ export async function GET(request: NextRequest) {
         return createErrorResponse(ordersError, 'Failed to fetch orders', 500)
       }
 
+    // Same-day slots the buyers booked, kept on the original orders
+    const slotsByOrderId = new Map<string, { delivery_slot_label: string | null; delivery_slot_date: string | null }>()
+    const sourceOrderIds = [...new Set((orders || []).map(order => order.order_id).filter(Boolean))]
+    if (sourceOrderIds.length > 0) {
+      const { data: slotRows, error: slotsError } = await supabase
+        .from('orders')
+        .select('id, delivery_slot_label, delivery_slot_date')
+        .in('id', sourceOrderIds)
+        .not('delivery_slot_id', 'is', null)
+
+      if (slotsError) {
+        // Orders still list without their slot
+        logError(slotsError, {
+          action: 'supplier_orders_delivery_slots',
+          userId: user.id
+        })
+      }
+      for (const row of slotRows || []) {
+        slotsByOrderId.set(row.id, { delivery_slot_label: row.delivery_slot_label, delivery_slot_date: row.delivery_slot_date })
+      }
+    }
+
     // Group order items by confirmed_order_id
     const itemsByOrderId = new Map<string, typeof supplierOrderItems>()
     supplierOrderItems.forEach(item => {
@@ -199,6 +222,8 @@ export async function GET(request: NextRequest) {
         shipping_address: order.shipping_address,
         billing_address: order.billing_address,
         delivery_option: order.delivery_option,
+        delivery_slot_label: slotsByOrderId.get(order.order_id)?.delivery_slot_label ?? null,
+        delivery_slot_date: slotsByOrderId.get(order.order_id)?.delivery_slot_date ?? null,
         total_amount: order.total_amount, // Original order total
         supplier_total: supplierTotal, // Total for supplier's items only
         payment_method: order.payment_method,
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getSupplierPayoutHistory, PAYOUT_HOLDBACK_DAYS, PAYOUT_MINIMUM_AMOUNT } from '@/lib/supplier-payouts'
+import { getSupplierSettledBalance } from '@/lib/supplier-ledger'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/supplier/payouts - Payout history and balance available for the next payout run
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_payouts_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/payouts',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const cutoff = new Date(Date.now() - PAYOUT_HOLDBACK_DAYS * 24 * 60 * 60 * 1000)
+      const [payouts, availableBalance] = await Promise.all([
+        getSupplierPayoutHistory(adminSupabase, user.id),
+        getSupplierSettledBalance(adminSupabase, user.id, cutoff)
+      ])
+
+      return NextResponse.json({
+        success: true,
+        payouts: payouts.map(payout => ({
+          id: payout.id,
+          batchNumber: payout.batch_number,
+          amount: Number(payout.amount),
+          currency: payout.currency,
+          status: payout.status,
+          failureReason: payout.failure_reason,
+          sentAt: payout.sent_at,
+          reconciledAt: payout.reconciled_at,
+          createdAt: payout.created_at
+        })),
+        availableBalance,
+        holdbackDays: PAYOUT_HOLDBACK_DAYS,
+        minimumAmount: PAYOUT_MINIMUM_AMOUNT
+      })
+    } catch (error) {
+      logError(error, {
+        action: 'supplier_payouts_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getSupplierStatementEntries, roundMoney } from '@/lib/supplier-ledger'
+import { logger } from '@/lib/logger'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// GET /api/supplier/payouts/statement?from=YYYY-MM-DD&to=YYYY-MM-DD - Download balance statement as CSV
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies()
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value
+          },
+        },
+      }
+    )
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = getSupabaseClient()
+    const { data: profile } = await adminSupabase
+      .from('profiles')
+      .select('is_supplier')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile?.is_supplier) {
+      return NextResponse.json({ error: 'User is not a supplier' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = parseDate(searchParams.get('from'))
+    const to = parseDate(searchParams.get('to'))
+    if (to) to.setHours(23, 59, 59, 999)
+
+    const entries = await getSupplierStatementEntries(adminSupabase, user.id, from, to)
+
+    // Opening balance is everything before the statement period
+    let openingBalance = 0
+    if (from) {
+      const earlier = await getSupplierStatementEntries(adminSupabase, user.id, null, new Date(from.getTime() - 1))
+      openingBalance = earlier.reduce((sum, e) => sum + (Number(e.credit) || 0) - (Number(e.debit) || 0), 0)
+    }
+
+    const lines = [
+      ['Date', 'Type', 'Order', 'Description', 'Debit', 'Credit', 'Balance'].join(',')
+    ]
+    let running = openingBalance
+    lines.push(['', 'opening_balance', '', 'Opening balance', '', '', roundMoney(running).toFixed(2)].join(','))
+
+    for (const entry of entries) {
+      const debit = Number(entry.debit) || 0
+      const credit = Number(entry.credit) || 0
+      running += credit - debit
+      lines.push([
+        csvCell(entry.created_at ? new Date(entry.created_at).toISOString().slice(0, 10) : ''),
+        csvCell(entry.entry_type),
+        csvCell(entry.order_number),
+        csvCell(entry.description),
+        debit ? debit.toFixed(2) : '',
+        credit ? credit.toFixed(2) : '',
+        roundMoney(running).toFixed(2)
+      ].join(','))
+    }
+
+    lines.push(['', 'closing_balance', '', 'Closing balance', '', '', roundMoney(running).toFixed(2)].join(','))
+
+    const period = `${from ? from.toISOString().slice(0, 10) : 'start'}_${to ? to.toISOString().slice(0, 10) : 'today'}`
+    return new NextResponse(lines.join('\n'), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="payout-statement-${period}.csv"`,
+      },
+    })
+  } catch (error: any) {
+    logger.error('❌ Error generating payout statement:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getStockLevels, adjustProductStock } from '@/lib/stock-decrement'
+import { getInventoryMovements } from '@/lib/inventory-journal'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const NOTE_MAX = 500
+
+/**
+ * Authenticate the supplier and confirm they own the product
+ * Returns the user id, or the response to send back
+ */
+async function authorizeProductAccess(
+  request: NextRequest,
+  productId: number,
+  endpoint: string
+): Promise<{ userId: string; productName: string } | NextResponse> {
+  const rateLimitResult = await enhancedRateLimit(request)
+  if (!rateLimitResult.allowed) {
+    logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+      endpoint,
+      reason: rateLimitResult.reason
+    }, request)
+    return NextResponse.json(
+      { success: false, error: rateLimitResult.reason },
+      { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+    )
+  }
+
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const adminSupabase = getSupabaseClient()
+  const { data: product } = await adminSupabase
+    .from('products')
+    .select('id, name, user_id, supplier_id')
+    .eq('id', productId)
+    .single()
+
+  if (!product) {
+    return NextResponse.json(
+      { success: false, error: 'Product not found' },
+      { status: 404 }
+    )
+  }
+
+  if (product.user_id !== user.id && product.supplier_id !== user.id) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      productId,
+      reason: 'Not the product owner'
+    }, request)
+    return NextResponse.json(
+      { success: false, error: 'You do not have permission to manage this product' },
+      { status: 403 }
+    )
+  }
+
+  return { userId: user.id, productName: product.name }
+}
+
+// GET /api/supplier/products/[id]/inventory - Stock per variant and movement history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return performanceMonitor.measure('supplier_inventory_get', async () => {
+    try {
+      const { id } = await params
+      const productId = parseInt(id, 10)
+      if (isNaN(productId)) {
+        return NextResponse.json({ success: false, error: 'Invalid product ID' }, { status: 400 })
+      }
+
+      const access = await authorizeProductAccess(request, productId, '/api/supplier/products/[id]/inventory')
+      if (access instanceof NextResponse) return access
+
+      // ?variant= narrows history to one variant value; ?variant= (empty) means product-level stock
+      const variantParam = request.nextUrl.searchParams.get('variant')
+      const adminSupabase = getSupabaseClient()
+      const [levels, movements] = await Promise.all([
+        getStockLevels(adminSupabase, productId),
+        getInventoryMovements(adminSupabase, {
+          productId,
+          variantValue: variantParam === null ? undefined : (variantParam || null)
+        })
+      ])
+
+      return NextResponse.json({
+        success: true,
+        product: { id: productId, name: access.productName },
+        levels,
+        movements
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json({ success: false, error: error.message }, { status: error.statusCode })
+      }
+      logError(error, {
+        action: 'supplier_inventory_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
+
+// POST /api/supplier/products/[id]/inventory - Manual stock adjustment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return performanceMonitor.measure('supplier_inventory_adjust', async () => {
+    try {
+      const { id } = await params
+      const productId = parseInt(id, 10)
+      if (isNaN(productId)) {
+        return NextResponse.json({ success: false, error: 'Invalid product ID' }, { status: 400 })
+      }
+
+      const access = await authorizeProductAccess(request, productId, '/api/supplier/products/[id]/inventory')
+      if (access instanceof NextResponse) return access
+
+      const body = await request.json().catch(() => ({}))
+      const change = Number(body.change)
+      const note = typeof body.note === 'string' ? body.note.trim() : ''
+
+      if (!note) {
+        return NextResponse.json(
+          { success: false, error: 'A note explaining the adjustment is required' },
+          { status: 400 }
+        )
+      }
+      if (note.length > NOTE_MAX) {
+        return NextResponse.json(
+          { success: false, error: `Note must not exceed ${NOTE_MAX} characters` },
+          { status: 400 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+      const levels = await adjustProductStock(adminSupabase, {
+        productId,
+        variantValue: typeof body.variantValue === 'string' ? body.variantValue : null,
+        change,
+        actorId: access.userId,
+        note
+      })
+
+      return NextResponse.json({
+        success: true,
+        message: `Stock ${change > 0 ? 'increased' : 'reduced'} by ${Math.abs(change)}`,
+        levels
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json({ success: false, error: error.message }, { status: error.statusCode })
+      }
+      logError(error, {
+        action: 'supplier_inventory_adjust'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
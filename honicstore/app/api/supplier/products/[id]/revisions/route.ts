@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  assertSupplierOwnsProduct,
+  listProductRevisions,
+  ProductRevision
+} from '@/lib/product-revisions'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+function toClientRevision(revision: ProductRevision) {
+  return {
+    id: revision.id,
+    revisionNumber: revision.revision_number,
+    status: revision.status,
+    changedFields: revision.changed_fields,
+    flaggedKeywords: revision.flagged_keywords,
+    note: revision.note,
+    reviewReason: revision.review_reason,
+    reviewedAt: revision.reviewed_at,
+    createdAt: revision.created_at
+  }
+}
+
+// GET /api/supplier/products/[id]/revisions - Revision history of one of the supplier's products, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return performanceMonitor.measure('supplier_product_revisions_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/products/[id]/revisions',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { id } = await params
+      if (!id || isNaN(Number(id))) {
+        return NextResponse.json(
+          { success: false, error: 'Product not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/products/[id]/revisions')
+      if (!user) return response
+
+      const adminSupabase = getSupabaseClient()
+      await assertSupplierOwnsProduct(adminSupabase, Number(id), user.id)
+      const revisions = await listProductRevisions(adminSupabase, Number(id))
+
+      return NextResponse.json({
+        success: true,
+        revisions: revisions.map(toClientRevision)
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_product_revisions_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -2,6 +2,20 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import DOMPurify from 'isomorphic-dompurify'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { ProductionError } from '@/lib/error-handler'
+import {
+  buildProductSnapshot,
+  getPendingRevision,
+  loadProductSnapshot,
+  mergeIntoSnapshot,
+  normalizePublicationStatus,
+  ProductRevision,
+  recordProductRevision
+} from '@/lib/product-revisions'
+import { normalizeProductPriceTiers, parsePriceTiers } from '@/lib/price-tiers'
+import { normalizeProductShippingPackages, parseShippingPackage } from '@/lib/shipping-packages'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -189,6 +203,118 @@ function validateProductUpdateInput(body: any): { valid: boolean; error?: string
   return { valid: true }
 }
 
+function revisionSummary(revision: ProductRevision | null) {
+  if (!revision) return null
+  return {
+    id: revision.id,
+    revisionNumber: revision.revision_number,
+    status: revision.status,
+    flaggedKeywords: revision.flagged_keywords,
+    createdAt: revision.created_at
+  }
+}
+
+// Drafts and products waiting for review apply edits directly; the revision is kept for history,
+// so a failure here is logged rather than failing a save that already happened
+async function recordAppliedRevision(productId: string, actorId: string, product: Record<string, any>) {
+  try {
+    return await recordProductRevision(getSupabaseClient(), {
+      productId: Number(productId),
+      actorId,
+      snapshot: buildProductSnapshot(product, product.product_variants || [])
+    })
+  } catch (error) {
+    logger.error(`Error recording revision for product ${productId}`, error)
+    return null
+  }
+}
+
+/**
+ * Edit of a published product: content waits for review as a new revision while stock applies now.
+ * Returns the product as the supplier will see it once approved
+ */
+async function stagePublishedEdit(
+  productId: string,
+  actorId: string,
+  updateData: Record<string, any>,
+  variants: any
+): Promise<NextResponse> {
+  const adminSupabase = getSupabaseClient()
+  const { product, snapshot } = await loadProductSnapshot(adminSupabase, Number(productId))
+  const staged = mergeIntoSnapshot(snapshot, updateData, Array.isArray(variants) ? variants : undefined)
+
+  const liveVariants: any[] = product.product_variants || []
+  if (liveVariants.length === 0) {
+    const stockUpdate: Record<string, unknown> = {}
+    if (updateData.stock_quantity !== undefined) stockUpdate.stock_quantity = updateData.stock_quantity
+    if (updateData.in_stock !== undefined) stockUpdate.in_stock = updateData.in_stock
+    if (Object.keys(stockUpdate).length > 0) {
+      await adminSupabase.from('products').update(stockUpdate).eq('id', productId)
+    }
+  } else {
+    // Stock of variants that already exist; new variants get theirs when the revision is approved
+    let stockChanged = false
+    for (const variant of staged.variants) {
+      const live = liveVariants.find((v: any) => v.id === variant.id)
+      if (!live || (live.stock_quantity || 0) === variant.stock_quantity) continue
+      await adminSupabase
+        .from('product_variants')
+        .update({ stock_quantity: variant.stock_quantity, in_stock: variant.stock_quantity > 0 })
+        .eq('id', live.id)
+      live.stock_quantity = variant.stock_quantity
+      stockChanged = true
+    }
+    if (stockChanged) {
+      const totalStock = liveVariants.reduce((sum: number, v: any) => sum + (v.stock_quantity || 0), 0)
+      await adminSupabase
+        .from('products')
+        .update({ stock_quantity: totalStock, in_stock: totalStock > 0 })
+        .eq('id', productId)
+    }
+  }
+
+  const revision = await recordProductRevision(adminSupabase, {
+    productId: Number(productId),
+    actorId,
+    snapshot: staged
+  })
+
+  const { product: current } = await loadProductSnapshot(adminSupabase, Number(productId))
+  const stagedProduct: Record<string, any> = { ...current, ...staged.fields }
+  const stockById = new Map((current.product_variants || []).map((v: any) => [v.id, v.stock_quantity || 0]))
+
+  return NextResponse.json({
+    success: true,
+    message: 'Your changes were sent for review. The live listing updates once they are approved.',
+    revision: revisionSummary(revision),
+    product: {
+      ...stagedProduct,
+      product_variants: undefined,
+      originalPrice: stagedProduct.original_price ?? null,
+      stockQuantity: stagedProduct.stock_quantity ?? null,
+      inStock: stagedProduct.in_stock !== undefined ? stagedProduct.in_stock : true,
+      view360: stagedProduct.view360 || stagedProduct.view_360 || null,
+      importChina: stagedProduct.import_china || false,
+      variants: staged.variants.map(v => {
+        const stock = v.id && stockById.has(v.id) ? stockById.get(v.id) : v.stock_quantity
+        return {
+          id: v.id,
+          variant_name: v.variant_name,
+          price: v.price,
+          priceTiers: v.price_tiers,
+          shippingPackage: v.shipping_package,
+          stock_quantity: stock,
+          stockQuantity: stock,
+          sku: v.sku,
+          image: v.image
+        }
+      }),
+      variantImages: stagedProduct.variant_images || [],
+      specificationImages: stagedProduct.specification_images || []
+    }
+  })
+}
+
 // GET - Get a single product (only if it belongs to the supplier)
 export async function GET(
   request: NextRequest,
@@ -265,6 +391,19 @@ export async function GET(
     }
 
 
+    // A published product with an edit waiting for review is edited from that revision, not the live copy
+    const pendingRevision = normalizePublicationStatus(product.publication_status) === 'published'
+      ? await getPendingRevision(getSupabaseClient(), product.id)
+      : null
+    if (pendingRevision) {
+      Object.assign(product, pendingRevision.snapshot.fields)
+      const liveStock = new Map((product.product_variants || []).map((v: any) => [v.id, v.stock_quantity || 0]))
+      product.product_variants = pendingRevision.snapshot.variants.map(v => ({
+        ...v,
+        stock_quantity: v.id && liveStock.has(v.id) ? liveStock.get(v.id) : v.stock_quantity
+      }))
+    }
+
     // Transform variants to match expected format (simplified structure)
     const transformedProduct = {
       ...product,
@@ -282,6 +421,8 @@ export async function GET(
         id: v.id,
         variant_name: v.variant_name || '',
         price: v.price,
+        priceTiers: parsePriceTiers(v.price_tiers),
+        shippingPackage: parseShippingPackage(v.shipping_package),
         stock_quantity: v.stock_quantity || 0,
         stockQuantity: v.stock_quantity || 0, // Backward compatibility
         sku: v.sku || null,
@@ -309,7 +450,8 @@ export async function GET(
 
     return NextResponse.json({
       success: true,
-      product: transformedProduct
+      product: transformedProduct,
+      pendingRevision: revisionSummary(pendingRevision)
     })
 
   } catch (error) {
@@ -385,7 +527,7 @@ export async function PUT(
     // Verify product belongs to supplier/user
     const { data: existingProduct } = await supabase
       .from('products')
-      .select('id, supplier_id, user_id')
+      .select('id, supplier_id, user_id, publication_status, price')
       .eq('id', id)
       .single()
 
@@ -432,6 +574,32 @@ export async function PUT(
       ...rest // Ignore any other unexpected fields
     } = body
 
+    // Quantity tiers are checked against the price the product will have after this save
+    let priceTiers: ReturnType<typeof normalizeProductPriceTiers>
+    let shippingPackages: ReturnType<typeof normalizeProductShippingPackages>
+    try {
+      priceTiers = normalizeProductPriceTiers(
+        body,
+        price !== undefined && price !== null ? parseFloat(price) : Number(existingProduct.price) || 0
+      )
+      shippingPackages = normalizeProductShippingPackages(body)
+    } catch (tierError) {
+      if (tierError instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: tierError.message },
+          { status: tierError.statusCode }
+        )
+      }
+      throw tierError
+    }
+    const tieredVariants = Array.isArray(variants)
+      ? variants.map((variant: any, index: number) => ({
+          ...variant,
+          price_tiers: priceTiers.variants[index],
+          shipping_package: shippingPackages.variants[index]
+        }))
+      : variants
+
     // Security: Sanitize HTML in description to prevent XSS
     let sanitizedDescription = description
     if (description !== undefined && description !== null && typeof description === 'string') {
@@ -502,6 +670,8 @@ export async function PUT(
     if (categoryId !== undefined) updateData.category_id = categoryId
     if (brand !== undefined) updateData.brand = brand?.trim() || ''
     if (price !== undefined) updateData.price = parseFloat(price)
+    if (priceTiers.product !== undefined) updateData.price_tiers = priceTiers.product
+    if (shippingPackages.product !== undefined) updateData.shipping_package = shippingPackages.product
     if (originalPrice !== undefined) {
       const parsedOriginalPrice = originalPrice ? parseFloat(originalPrice) : null
       updateData.original_price = parsedOriginalPrice
@@ -527,6 +697,27 @@ export async function PUT(
     if (importChina !== undefined) updateData.import_china = importChina
     updateData.user_id = user.id // Ensure user_id is set
 
+    const publicationStatus = normalizePublicationStatus(existingProduct.publication_status)
+    if (publicationStatus === 'archived') {
+      return NextResponse.json(
+        { success: false, error: 'Restore this product before editing it' },
+        { status: 409 }
+      )
+    }
+    if (publicationStatus === 'published') {
+      try {
+        return await stagePublishedEdit(id, user.id, updateData, tieredVariants)
+      } catch (stageError) {
+        if (stageError instanceof ProductionError) {
+          return NextResponse.json(
+            { success: false, error: stageError.message },
+            { status: stageError.statusCode }
+          )
+        }
+        throw stageError
+      }
+    }
+
     // Update product - use .eq() only since we already verified ownership
     // RLS will handle permission check
     const { data: product, error } = await supabase
@@ -569,12 +760,16 @@ export async function PUT(
           
           if (fetchedProduct) {
             // Update succeeded, use fetched product
+            const revision = await recordAppliedRevision(id, user.id, fetchedProduct)
+
             const transformedProduct = {
               ...fetchedProduct,
               variants: fetchedProduct.product_variants?.map((v: any) => ({
                 id: v.id,
                 variant_name: v.variant_name || '',
                 price: v.price,
+                priceTiers: parsePriceTiers(v.price_tiers),
+                shippingPackage: parseShippingPackage(v.shipping_package),
                 stock_quantity: v.stock_quantity || 0,
                 stockQuantity: v.stock_quantity || 0,
                 sku: v.sku || null,
@@ -588,7 +783,8 @@ export async function PUT(
             
             return NextResponse.json({
               success: true,
-              product: transformedProduct
+              product: transformedProduct,
+              revision: revisionSummary(revision)
             })
           }
           
@@ -616,6 +812,8 @@ export async function PUT(
           )
         }
         
+        const revision = await recordAppliedRevision(id, user.id, finalProduct)
+
         const transformedProduct = {
           ...finalProduct,
           // Add camelCase versions for form compatibility
@@ -632,6 +830,8 @@ export async function PUT(
             id: v.id,
             variant_name: v.variant_name || '',
             price: v.price,
+            priceTiers: parsePriceTiers(v.price_tiers),
+            shippingPackage: parseShippingPackage(v.shipping_package),
             stock_quantity: v.stock_quantity || 0,
             stockQuantity: v.stock_quantity || 0,
             sku: v.sku || null,
@@ -645,7 +845,8 @@ export async function PUT(
         
         return NextResponse.json({
           success: true,
-          product: transformedProduct
+          product: transformedProduct,
+          revision: revisionSummary(revision)
         })
       } else {
         return NextResponse.json(
@@ -670,6 +871,8 @@ export async function PUT(
       
       if (fetchedProduct) {
         // Update succeeded, use fetched product
+        const revision = await recordAppliedRevision(id, user.id, fetchedProduct)
+
         const transformedProduct = {
           ...fetchedProduct,
           // Add camelCase versions for form compatibility
@@ -686,6 +889,8 @@ export async function PUT(
             id: v.id,
             variant_name: v.variant_name || '',
             price: v.price,
+            priceTiers: parsePriceTiers(v.price_tiers),
+            shippingPackage: parseShippingPackage(v.shipping_package),
             stock_quantity: v.stock_quantity || 0,
             stockQuantity: v.stock_quantity || 0,
             sku: v.sku || null,
@@ -699,7 +904,8 @@ export async function PUT(
         
         return NextResponse.json({
           success: true,
-          product: transformedProduct
+          product: transformedProduct,
+          revision: revisionSummary(revision)
         })
       }
       
@@ -719,9 +925,9 @@ export async function PUT(
         .eq('product_id', id)
 
       // Insert new variants if any
-      if (Array.isArray(variants) && variants.length > 0) {
+      if (Array.isArray(tieredVariants) && tieredVariants.length > 0) {
         // Simplified variant structure for suppliers: variant_name, price, stock_quantity only
-        const variantRecords = variants.map((variant: any) => {
+        const variantRecords = tieredVariants.map((variant: any) => {
           const stockQty = variant.stock_quantity || variant.stockQuantity || 0
           const parsedStockQty = typeof stockQty === 'number' ? stockQty : parseInt(String(stockQty)) || 0
           
@@ -729,6 +935,8 @@ export async function PUT(
             product_id: parseInt(id),
             variant_name: variant.variant_name?.trim() || '',
             price: variant.price ? parseFloat(variant.price) : parseFloat(price || product.price),
+            price_tiers: variant.price_tiers,
+            shipping_package: variant.shipping_package,
             stock_quantity: parsedStockQty,
             in_stock: parsedStockQty > 0
           }
@@ -781,6 +989,8 @@ export async function PUT(
         id: v.id,
         variant_name: v.variant_name || '',
         price: v.price,
+        priceTiers: parsePriceTiers(v.price_tiers),
+        shippingPackage: parseShippingPackage(v.shipping_package),
         stock_quantity: v.stock_quantity || 0,
         stockQuantity: v.stock_quantity || 0, // Backward compatibility
         sku: v.sku || null,
@@ -802,13 +1012,16 @@ export async function PUT(
       specificationImages: completeProduct.specification_images || []
     }
 
+    const revision = await recordAppliedRevision(id, user.id, completeProduct)
+
     // Remove the raw product_variants array
     delete transformedProduct.product_variants
 
 
     return NextResponse.json({
       success: true,
-      product: transformedProduct
+      product: transformedProduct,
+      revision: revisionSummary(revision)
     })
 
   } catch (error) {
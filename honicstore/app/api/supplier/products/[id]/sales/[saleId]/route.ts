@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { cancelProductSale } from '@/lib/product-sales'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// DELETE /api/supplier/products/[id]/sales/[saleId] - Cancel a scheduled or running sale
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; saleId: string }> }
+) {
+  return performanceMonitor.measure('supplier_product_sale_cancel', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/products/[id]/sales/[saleId]',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { id, saleId } = await params
+      if (!id || isNaN(Number(id)) || !saleId) {
+        return NextResponse.json(
+          { success: false, error: 'Sale not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/products/[id]/sales/[saleId]')
+      if (!user) return response
+
+      const sale = await cancelProductSale(getSupabaseClient(), {
+        supplierId: user.id,
+        productId: Number(id),
+        saleId
+      })
+
+      return NextResponse.json({
+        success: true,
+        sale: { id: sale.id, state: 'cancelled' }
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_product_sale_cancel'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
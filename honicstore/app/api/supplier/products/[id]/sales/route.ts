@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { assertSupplierOwnsProduct } from '@/lib/product-revisions'
+import {
+  createProductSale,
+  listProductSales,
+  normalizeSaleInput,
+  saleState,
+  SaleWindow
+} from '@/lib/product-sales'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+function toSupplierSale(sale: SaleWindow) {
+  return {
+    id: sale.id,
+    variantId: sale.variant_id,
+    salePrice: sale.sale_price,
+    startsAt: sale.starts_at,
+    endsAt: sale.ends_at,
+    quantityCap: sale.quantity_cap,
+    quantitySold: sale.quantity_sold,
+    state: saleState(sale),
+    createdAt: sale.created_at
+  }
+}
+
+// GET /api/supplier/products/[id]/sales - Scheduled, running and past sales of one of the supplier's products
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return performanceMonitor.measure('supplier_product_sales_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/products/[id]/sales',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { id } = await params
+      if (!id || isNaN(Number(id))) {
+        return NextResponse.json(
+          { success: false, error: 'Product not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/products/[id]/sales')
+      if (!user) return response
+
+      const adminSupabase = getSupabaseClient()
+      await assertSupplierOwnsProduct(adminSupabase, Number(id), user.id)
+      const [sales, { data: product }, { data: variants }] = await Promise.all([
+        listProductSales(adminSupabase, Number(id)),
+        adminSupabase.from('products').select('price').eq('id', Number(id)).maybeSingle(),
+        adminSupabase.from('product_variants').select('id, variant_name, price').eq('product_id', Number(id)).order('id')
+      ])
+
+      return NextResponse.json({
+        success: true,
+        sales: sales.map(toSupplierSale),
+        // Regular prices, so the form can show what a sale price saves
+        price: Number(product?.price) || 0,
+        variants: (variants || []).map((variant: any) => ({
+          id: variant.id,
+          name: variant.variant_name || `Variant ${variant.id}`,
+          price: Number(variant.price) || null
+        }))
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_product_sales_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
+
+// POST /api/supplier/products/[id]/sales - Schedule a sale on the product or one of its variants
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return performanceMonitor.measure('supplier_product_sales_create', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/products/[id]/sales',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { id } = await params
+      if (!id || isNaN(Number(id))) {
+        return NextResponse.json(
+          { success: false, error: 'Product not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/products/[id]/sales')
+      if (!user) return response
+
+      const body = await request.json().catch(() => null)
+      if (!body || typeof body !== 'object') {
+        return NextResponse.json(
+          { success: false, error: 'Invalid request body' },
+          { status: 400 }
+        )
+      }
+
+      const sale = await createProductSale(getSupabaseClient(), {
+        supplierId: user.id,
+        productId: Number(id),
+        input: normalizeSaleInput(body)
+      })
+
+      return NextResponse.json({
+        success: true,
+        sale: toSupplierSale({ ...sale, quantity_sold: 0 })
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_product_sales_create'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  assertSupplierOwnsProduct,
+  changeProductPublicationStatus
+} from '@/lib/product-revisions'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// POST /api/supplier/products/[id]/status - Submit a draft for review, archive a product or restore it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return performanceMonitor.measure('supplier_product_status_post', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/products/[id]/status',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { id } = await params
+      if (!id || isNaN(Number(id))) {
+        return NextResponse.json(
+          { success: false, error: 'Product not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/products/[id]/status')
+      if (!user) return response
+
+      const body = await request.json().catch(() => ({}))
+      if (!['submit', 'archive', 'restore'].includes(body.action)) {
+        return NextResponse.json(
+          { success: false, error: "action must be 'submit', 'archive' or 'restore'" },
+          { status: 400 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+      await assertSupplierOwnsProduct(adminSupabase, Number(id), user.id)
+      const result = await changeProductPublicationStatus(adminSupabase, {
+        productId: Number(id),
+        actorId: user.id,
+        action: body.action
+      })
+
+      return NextResponse.json({
+        success: true,
+        publicationStatus: result.status,
+        revision: result.revision
+          ? { id: result.revision.id, revisionNumber: result.revision.revision_number, status: result.revision.status }
+          : null
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_product_status_post'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { buildCatalogExportRows } from '@/lib/catalog-import'
+import { detectSpreadsheetFormat, writeSpreadsheet } from '@/lib/spreadsheet'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/supplier/products/export?format=csv|xlsx - The supplier's catalog, one row per variant
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_products_export', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/products/export',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/products/export',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const format = detectSpreadsheetFormat(request.nextUrl.searchParams.get('format') || 'csv')
+      if (!format) {
+        return NextResponse.json(
+          { success: false, error: 'Format must be csv or xlsx' },
+          { status: 400 }
+        )
+      }
+
+      const rows = await buildCatalogExportRows(adminSupabase, user.id)
+      const { body, contentType } = writeSpreadsheet(rows, format, 'Catalog')
+      const date = new Date().toISOString().slice(0, 10)
+
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="catalog-${date}.${format}"`,
+          'Cache-Control': 'no-store'
+        }
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_products_export'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  applyCatalogImport,
+  MAX_CATALOG_FILE_BYTES,
+  planCatalogImport
+} from '@/lib/catalog-import'
+import { detectSpreadsheetFormat, readSpreadsheet } from '@/lib/spreadsheet'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST /api/supplier/products/import - multipart { file, mode: 'preview' | 'apply' }
+// preview returns the diff without writing; apply re-plans from the same file and writes it if it is clean
+export async function POST(request: NextRequest) {
+  return performanceMonitor.measure('supplier_products_import', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/products/import',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/products/import',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const formData = await request.formData()
+      const file = formData.get('file')
+      const mode = formData.get('mode') === 'apply' ? 'apply' : 'preview'
+
+      if (!(file instanceof File) || file.size === 0) {
+        return NextResponse.json(
+          { success: false, error: 'Choose a CSV or XLSX file to import' },
+          { status: 400 }
+        )
+      }
+      const format = detectSpreadsheetFormat(file.name)
+      if (!format) {
+        return NextResponse.json(
+          { success: false, error: 'Only .csv and .xlsx files can be imported' },
+          { status: 400 }
+        )
+      }
+      if (file.size > MAX_CATALOG_FILE_BYTES) {
+        return NextResponse.json(
+          { success: false, error: `File is too large. Maximum size is ${Math.round(MAX_CATALOG_FILE_BYTES / (1024 * 1024))}MB` },
+          { status: 400 }
+        )
+      }
+
+      let rows: string[][]
+      try {
+        rows = readSpreadsheet(Buffer.from(await file.arrayBuffer()), format)
+      } catch (parseError) {
+        return NextResponse.json(
+          { success: false, error: parseError instanceof Error ? parseError.message : 'Could not read the file' },
+          { status: 400 }
+        )
+      }
+
+      const plan = await planCatalogImport(adminSupabase, { supplierId: user.id, rows })
+
+      if (mode === 'preview') {
+        return NextResponse.json({
+          success: true,
+          plan
+        })
+      }
+
+      if (plan.errors.length > 0 || !plan.limit.allowed) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: plan.limit.allowed
+              ? `Fix the ${plan.errors.length} error(s) in the file before importing`
+              : plan.limit.reason,
+            plan
+          },
+          { status: plan.limit.allowed ? 400 : 403 }
+        )
+      }
+
+      const result = await applyCatalogImport(adminSupabase, { supplierId: user.id, plan })
+
+      return NextResponse.json({
+        success: true,
+        result
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_products_import'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import DOMPurify from 'isomorphic-dompurify'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { buildProductSnapshot, recordProductRevision } from '@/lib/product-revisions'
+import { normalizeProductPriceTiers, parsePriceTiers } from '@/lib/price-tiers'
+import { normalizeProductShippingPackages, parseShippingPackage } from '@/lib/shipping-packages'
+import { ProductionError } from '@/lib/error-handler'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -298,6 +304,8 @@ export async function GET(request: NextRequest) {
           id: v.id,
           variant_name: v.variant_name || '',
           price: v.price,
+          priceTiers: parsePriceTiers(v.price_tiers),
+          shippingPackage: parseShippingPackage(v.shipping_package),
           stock_quantity: v.stock_quantity || 0,
           sku: v.sku || null,
           image: v.image || null
@@ -466,12 +474,29 @@ export async function POST(request: NextRequest) {
       video,
       view360,
       importChina,
+      saveAsDraft,
       variantConfig,
       variantImages,
       specificationImages,
       ...rest // Ignore any other unexpected fields
     } = body
 
+    // Quantity tiers and shipping packages for the product and each variant
+    let priceTiers: ReturnType<typeof normalizeProductPriceTiers>
+    let shippingPackages: ReturnType<typeof normalizeProductShippingPackages>
+    try {
+      priceTiers = normalizeProductPriceTiers(body, parseFloat(price))
+      shippingPackages = normalizeProductShippingPackages(body)
+    } catch (tierError) {
+      if (tierError instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: tierError.message },
+          { status: 400 }
+        )
+      }
+      throw tierError
+    }
+
     // Security: Sanitize HTML in description to prevent XSS
     let sanitizedDescription = description
     if (description && typeof description === 'string') {
@@ -537,6 +562,8 @@ export async function POST(request: NextRequest) {
         brand: brand?.trim() || '',
         price: parseFloat(price),
         original_price: originalPrice ? parseFloat(originalPrice) : null,
+        price_tiers: priceTiers.product || [],
+        shipping_package: shippingPackages.product ?? null,
         image: image?.trim() || '',
         sku: sku?.trim() || '',
         // Only include model if it has a non-empty value (avoid errors if column doesn't exist)
@@ -554,6 +581,9 @@ export async function POST(request: NextRequest) {
         import_china: importChina || false,
         supplier_id: user.id, // Associate product with supplier
         user_id: user.id, // Associate product with user/seller
+        // New products stay off the storefront until an admin approves them
+        publication_status: saveAsDraft === true ? 'draft' : 'pending_review',
+        is_hidden: true,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
@@ -570,7 +600,7 @@ export async function POST(request: NextRequest) {
     // Add variants to product_variants table if they exist
     if (variants && Array.isArray(variants) && variants.length > 0) {
       // Simplified variant structure for suppliers: variant_name, price, stock_quantity only
-      const variantRecords = variants.map((variant: any) => {
+      const variantRecords = variants.map((variant: any, index: number) => {
         const stockQty = variant.stock_quantity || variant.stockQuantity || 0
         const parsedStockQty = typeof stockQty === 'number' ? stockQty : parseInt(String(stockQty)) || 0
         
@@ -578,6 +608,8 @@ export async function POST(request: NextRequest) {
           product_id: product.id,
           variant_name: variant.variant_name?.trim() || '',
           price: variant.price ? parseFloat(variant.price) : parseFloat(price),
+          price_tiers: priceTiers.variants[index] || [],
+          shipping_package: shippingPackages.variants[index] ?? null,
           stock_quantity: parsedStockQty,
           sku: variant.sku?.trim() || null,
           image: variant.image?.trim() || null,
@@ -606,12 +638,27 @@ export async function POST(request: NextRequest) {
 
     // Transform variants to match expected format (simplified structure)
     const finalProduct = completeProduct || product
+
+    // First revision; the product is already saved, so a failure here doesn't fail the request
+    let revision = null
+    try {
+      revision = await recordProductRevision(getSupabaseClient(), {
+        productId: product.id,
+        actorId: user.id,
+        snapshot: buildProductSnapshot(finalProduct, finalProduct.product_variants || []),
+        note: 'Created'
+      })
+    } catch (revisionError) {
+      logger.error(`Error recording first revision for product ${product.id}`, revisionError)
+    }
     const transformedProduct = {
       ...finalProduct,
       variants: finalProduct.product_variants?.map((v: any) => ({
         id: v.id,
         variant_name: v.variant_name || '',
         price: v.price,
+        priceTiers: parsePriceTiers(v.price_tiers),
+        shippingPackage: parseShippingPackage(v.shipping_package),
         stock_quantity: v.stock_quantity || 0,
         stockQuantity: v.stock_quantity || 0, // Backward compatibility
         sku: v.sku || null,
@@ -638,7 +685,10 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      product: transformedProduct
+      product: transformedProduct,
+      revision: revision
+        ? { id: revision.id, revisionNumber: revision.revision_number, status: revision.status, flaggedKeywords: revision.flagged_keywords }
+        : null
     }, { status: 201 })
 
   } catch (error) {
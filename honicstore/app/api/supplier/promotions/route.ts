@@ -5,6 +5,8 @@ import { performanceMonitor } from '@/lib/performance-monitor'
 import { getCachedData, setCachedData, CACHE_TTL, generateCacheKey, clearCache } from '@/lib/database-optimization'
 import { createErrorResponse, logError } from '@/lib/error-handler'
 import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { isDiscountCodeTaken } from '@/lib/platform-coupons'
 import { z } from 'zod'
 
 export const dynamic = 'force-dynamic'
@@ -254,14 +256,8 @@ export async function POST(request: NextRequest) {
       const start = new Date(startDate)
       const end = new Date(endDate)
 
-      // Check if code already exists
-      const { data: existingPromo } = await supabase
-        .from('supplier_promotions')
-        .select('id')
-        .eq('code', code.toUpperCase())
-        .single()
-
-      if (existingPromo) {
+      // Check if code already exists, as a promotion or a platform coupon
+      if (await isDiscountCodeTaken(getSupabaseClient(), code)) {
         return NextResponse.json(
           { success: false, error: 'Promotion code already exists' },
           { status: 400 }
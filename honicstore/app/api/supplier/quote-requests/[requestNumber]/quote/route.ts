@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  isValidRequestNumber,
+  normalizeSupplierQuoteInput,
+  submitSupplierQuote,
+  toClientQuote,
+  withdrawSupplierQuote
+} from '@/lib/quote-requests'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// POST /api/supplier/quote-requests/[requestNumber]/quote - Send or revise the supplier's quote
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestNumber: string }> }
+) {
+  return performanceMonitor.measure('supplier_quote_submit', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/quote-requests/[requestNumber]/quote',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { requestNumber } = await params
+      if (!isValidRequestNumber(requestNumber)) {
+        return NextResponse.json(
+          { success: false, error: 'Quote request not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/quote-requests/[requestNumber]/quote')
+      if (!user) return response
+
+      const body = await request.json().catch(() => null)
+      if (!body || typeof body !== 'object') {
+        return NextResponse.json(
+          { success: false, error: 'Invalid request body' },
+          { status: 400 }
+        )
+      }
+
+      const quote = await submitSupplierQuote(getSupabaseClient(), user.id, requestNumber, normalizeSupplierQuoteInput(body))
+
+      return NextResponse.json({
+        success: true,
+        quote: toClientQuote(quote)
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_quote_submit'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
+
+// DELETE /api/supplier/quote-requests/[requestNumber]/quote - Withdraw a quote the buyer has not accepted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestNumber: string }> }
+) {
+  return performanceMonitor.measure('supplier_quote_withdraw', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/quote-requests/[requestNumber]/quote',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { requestNumber } = await params
+      if (!isValidRequestNumber(requestNumber)) {
+        return NextResponse.json(
+          { success: false, error: 'Quote request not found' },
+          { status: 404 }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/quote-requests/[requestNumber]/quote')
+      if (!user) return response
+
+      const quote = await withdrawSupplierQuote(getSupabaseClient(), user.id, requestNumber)
+
+      return NextResponse.json({
+        success: true,
+        quote: toClientQuote(quote)
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_quote_withdraw'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import {
+  getQuoteLabels,
+  getSupplierQuoteRequests,
+  toClientQuote,
+  toClientQuoteRequest,
+  SupplierQuote
+} from '@/lib/quote-requests'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// GET /api/supplier/quote-requests - Quote requests sent to the supplier, with their own quote and products to quote from
+export async function GET(request: NextRequest) {
+  return performanceMonitor.measure('supplier_quote_requests_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/quote-requests',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/quote-requests')
+      if (!user) return response
+
+      const adminSupabase = getSupabaseClient()
+      const [entries, { data: products }] = await Promise.all([
+        getSupplierQuoteRequests(adminSupabase, user.id),
+        adminSupabase
+          .from('products')
+          .select('id, name, price, product_variants(id, variant_name, price)')
+          .or(`supplier_id.eq.${user.id},user_id.eq.${user.id}`)
+          .eq('is_hidden', false)
+          .order('name')
+          .limit(500)
+      ])
+      const { productNames, variantNames } = await getQuoteLabels(
+        adminSupabase,
+        entries.map(entry => entry.quote).filter((quote): quote is SupplierQuote => !!quote)
+      )
+
+      return NextResponse.json({
+        success: true,
+        requests: entries.map(({ request: quoteRequest, quote }) => ({
+          ...toClientQuoteRequest(quoteRequest),
+          quote: quote
+            ? toClientQuote(quote, {
+                productName: productNames.get(quote.product_id),
+                variantName: quote.variant_id ? variantNames.get(quote.variant_id) : null
+              })
+            : null
+        })),
+        products: (products || []).map((product: any) => ({
+          id: product.id,
+          name: product.name,
+          price: Number(product.price) || 0,
+          variants: (product.product_variants || []).map((variant: any) => ({
+            id: variant.id,
+            name: variant.variant_name || `Variant ${variant.id}`,
+            price: Number(variant.price) || null
+          }))
+        }))
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_quote_requests_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
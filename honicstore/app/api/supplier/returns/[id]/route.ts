@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { resolveReturnRequest, formatRefundMethod, REFUND_TIMELINE } from '@/lib/order-returns'
+import { sendRefundConfirmationEmail } from '@/lib/user-email-service'
+import { createNotification } from '@/lib/notification-helpers'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+import { logger } from '@/lib/logger'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/supplier/returns/[id] - Approve (issues refund) or reject a return request
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return performanceMonitor.measure('supplier_returns_patch', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/returns/[id]',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { id } = await params
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/returns/[id]',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const body = await request.json().catch(() => ({}))
+      const action = body.action
+      const note = typeof body.note === 'string' ? body.note.trim().slice(0, 500) : null
+
+      if (action !== 'approve' && action !== 'reject') {
+        return NextResponse.json(
+          { success: false, error: 'Action must be approve or reject' },
+          { status: 400 }
+        )
+      }
+      if (action === 'reject' && !note) {
+        return NextResponse.json(
+          { success: false, error: 'Please tell the buyer why the return was rejected' },
+          { status: 400 }
+        )
+      }
+
+      const { request: returnRequest, refund } = await resolveReturnRequest(adminSupabase, {
+        returnRequestId: id,
+        supplierId: user.id,
+        action,
+        note
+      })
+
+      if (refund) {
+        await createNotification(
+          returnRequest.user_id,
+          'order_updated',
+          'Return approved',
+          `Your return ${returnRequest.return_number} for order ${returnRequest.order_number} was approved. A refund of ${refund.currency} ${Number(refund.amount).toLocaleString()} has been issued.`,
+          { order_number: returnRequest.order_number, action_url: `/account/orders/${returnRequest.order_number}` }
+        )
+
+        try {
+          const { data: buyer } = await adminSupabase
+            .from('profiles')
+            .select('email')
+            .eq('id', returnRequest.user_id)
+            .single()
+
+          if (buyer?.email) {
+            await sendRefundConfirmationEmail(buyer.email, {
+              orderNumber: returnRequest.order_number,
+              refundAmount: Number(refund.amount),
+              refundMethod: formatRefundMethod(refund.method),
+              refundTimeline: REFUND_TIMELINE,
+              transactionId: refund.refund_number
+            })
+          }
+        } catch (emailError) {
+          logger.error('Error sending refund confirmation email:', emailError)
+          // Don't fail the request if email fails
+        }
+      } else {
+        await createNotification(
+          returnRequest.user_id,
+          'order_updated',
+          'Return rejected',
+          `Your return ${returnRequest.return_number} for order ${returnRequest.order_number} was rejected: ${note}`,
+          { order_number: returnRequest.order_number, action_url: `/account/orders/${returnRequest.order_number}` }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: refund ? 'Return approved and refund issued' : 'Return rejected',
+        returnRequest,
+        refund
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_returns_patch'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { replyToReview, toClientReview } from '@/lib/product-reviews'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST /api/supplier/reviews/[reviewId]/reply - Post the supplier's public reply to a review
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+) {
+  return performanceMonitor.measure('supplier_review_reply_post', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/reviews/[reviewId]/reply',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { reviewId } = await params
+      if (!reviewId || isNaN(Number(reviewId))) {
+        return NextResponse.json(
+          { success: false, error: 'Review not found' },
+          { status: 404 }
+        )
+      }
+
+      const cookieStore = await cookies()
+      const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+          cookies: {
+            get(name: string) {
+              return cookieStore.get(name)?.value
+            },
+          },
+        }
+      )
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const adminSupabase = getSupabaseClient()
+
+      // Verify user is a supplier
+      const { data: profile } = await adminSupabase
+        .from('profiles')
+        .select('is_supplier')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_supplier) {
+        logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+          endpoint: '/api/supplier/reviews/[reviewId]/reply',
+          userId: user.id,
+          reason: 'Not a supplier'
+        }, request)
+        return NextResponse.json(
+          { success: false, error: 'User is not a supplier' },
+          { status: 403 }
+        )
+      }
+
+      const body = await request.json().catch(() => ({}))
+      if (typeof body.reply !== 'string') {
+        return NextResponse.json(
+          { success: false, error: 'Write a reply first' },
+          { status: 400 }
+        )
+      }
+
+      // Ownership of the reviewed product is checked in replyToReview
+      const review = await replyToReview(adminSupabase, {
+        reviewId: Number(reviewId),
+        supplierId: user.id,
+        reply: body.reply
+      })
+
+      return NextResponse.json({
+        success: true,
+        review: toClientReview(review)
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_review_reply_post'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
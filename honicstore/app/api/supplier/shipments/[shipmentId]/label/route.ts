@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getCourierProvider } from '@/lib/courier-providers'
+import { getShipmentLabel, getSupplierShipment } from '@/lib/courier-shipments'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// GET /api/supplier/shipments/[shipmentId]/label - Printable shipping label (PDF)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shipmentId: string }> }
+) {
+  return performanceMonitor.measure('supplier_shipment_label', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/shipments/[shipmentId]/label',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/shipments/[shipmentId]/label')
+      if (!user) return response
+
+      const { shipmentId } = await params
+      const shipment = await getSupplierShipment(getSupabaseClient(), user.id, shipmentId)
+      const label = await getShipmentLabel(getCourierProvider(shipment.provider), shipment)
+
+      return new NextResponse(new Uint8Array(label.data), {
+        headers: {
+          'Content-Type': label.contentType,
+          'Content-Disposition': `inline; filename="${label.filename}"`,
+          'Cache-Control': 'private, no-store'
+        }
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_shipment_label'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { getCourierProvider } from '@/lib/courier-providers'
+import { cancelCourierShipment, getSupplierShipment, refreshShipmentTracking } from '@/lib/courier-shipments'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { performanceMonitor } from '@/lib/performance-monitor'
+import { createErrorResponse, logError, ProductionError } from '@/lib/error-handler'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function getSupplierUser(request: NextRequest, endpoint: string) {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  // Verify user is a supplier
+  const { data: profile } = await getSupabaseClient()
+    .from('profiles')
+    .select('is_supplier')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile?.is_supplier) {
+    logSecurityEvent('FORBIDDEN_ACCESS_ATTEMPT', {
+      endpoint,
+      userId: user.id,
+      reason: 'Not a supplier'
+    }, request)
+    return { user: null, response: NextResponse.json({ success: false, error: 'User is not a supplier' }, { status: 403 }) }
+  }
+
+  return { user, response: null }
+}
+
+// GET /api/supplier/shipments/[shipmentId] - A courier booking with its latest tracking status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shipmentId: string }> }
+) {
+  return performanceMonitor.measure('supplier_shipment_get', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/shipments/[shipmentId]',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/shipments/[shipmentId]')
+      if (!user) return response
+
+      const { shipmentId } = await params
+      const supabase = getSupabaseClient()
+      const shipment = await getSupplierShipment(supabase, user.id, shipmentId)
+      const refreshed = await refreshShipmentTracking(supabase, getCourierProvider(shipment.provider), shipment)
+
+      return NextResponse.json({
+        success: true,
+        shipment: refreshed
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_shipment_get'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
+
+// DELETE /api/supplier/shipments/[shipmentId] - Cancel a booking the courier has not collected yet
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ shipmentId: string }> }
+) {
+  return performanceMonitor.measure('supplier_shipment_cancel', async () => {
+    try {
+      // Rate limiting
+      const rateLimitResult = await enhancedRateLimit(request)
+      if (!rateLimitResult.allowed) {
+        logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+          endpoint: '/api/supplier/shipments/[shipmentId]',
+          reason: rateLimitResult.reason
+        }, request)
+        return NextResponse.json(
+          { success: false, error: rateLimitResult.reason },
+          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+
+      const { user, response } = await getSupplierUser(request, '/api/supplier/shipments/[shipmentId]')
+      if (!user) return response
+
+      const { shipmentId } = await params
+      const supabase = getSupabaseClient()
+      const shipment = await getSupplierShipment(supabase, user.id, shipmentId)
+      const cancelled = await cancelCourierShipment(supabase, getCourierProvider(shipment.provider), shipment)
+
+      return NextResponse.json({
+        success: true,
+        shipment: cancelled,
+        message: 'Courier booking cancelled'
+      })
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.statusCode }
+        )
+      }
+      logError(error, {
+        action: 'supplier_shipment_cancel'
+      })
+      return createErrorResponse(error, 500)
+    }
+  })
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { getCoinHistory, CoinTransaction } from '@/lib/loyalty-coins'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// SECURITY: Never expose UUIDs (transaction id, order id) to clients
+function toClientTransaction(transaction: CoinTransaction, index: number) {
+  return {
+    key: `${transaction.created_at}-${index}`,
+    type: transaction.type,
+    amount: transaction.amount,
+    status: transaction.status,
+    description: transaction.description,
+    orderNumber: transaction.order_number,
+    expiresAt: transaction.type === 'earned' ? transaction.expires_at : null,
+    createdAt: transaction.created_at
+  }
+}
+
+// GET /api/user/coins/history - Coin transactions, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/coins/history',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50
+    const history = await getCoinHistory(getSupabaseClient(), user.id, limit)
+
+    return NextResponse.json({
+      success: true,
+      transactions: history.map(toClientTransaction)
+    })
+  } catch (error: any) {
+    logger.log('❌ Error fetching coin history:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import {
+  getCoinSummary,
+  LOYALTY_COINS_EARN_RATE,
+  LOYALTY_COIN_VALUE,
+  LOYALTY_COINS_EXPIRY_DAYS,
+  MAX_COIN_REDEMPTION_PERCENT,
+  COIN_LEVELS
+} from '@/lib/loyalty-coins'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// GET /api/user/coins - Coin balance, level and program rules
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/coins',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summary = await getCoinSummary(getSupabaseClient(), user.id)
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      program: {
+        earnRate: LOYALTY_COINS_EARN_RATE,
+        coinValue: LOYALTY_COIN_VALUE,
+        expiryDays: LOYALTY_COINS_EXPIRY_DAYS,
+        maxRedemptionPercent: MAX_COIN_REDEMPTION_PERCENT,
+        levels: COIN_LEVELS
+      }
+    })
+  } catch (error: any) {
+    logger.log('❌ Error fetching coin balance:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
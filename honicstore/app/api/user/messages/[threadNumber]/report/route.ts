@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { ProductionError } from '@/lib/error-handler'
+import {
+  getThreadForParticipant,
+  isValidThreadNumber,
+  reportMessage,
+  MESSAGE_REPORT_REASONS,
+  MessageReportReason
+} from '@/lib/messaging'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// POST /api/user/messages/[threadNumber]/report - Report a supplier's message to the admins
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadNumber: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/messages/[threadNumber]/report',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const { threadNumber } = await params
+    if (!isValidThreadNumber(threadNumber)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason = body.reason as MessageReportReason
+    const details = typeof body.details === 'string' ? body.details.trim().slice(0, 500) : null
+
+    if (!MESSAGE_REPORT_REASONS.includes(reason)) {
+      return NextResponse.json({ error: 'Please choose a reason for the report' }, { status: 400 })
+    }
+    if (typeof body.messageReference !== 'string' || !body.messageReference) {
+      return NextResponse.json({ error: 'Choose the message to report' }, { status: 400 })
+    }
+
+    const supabase = getSupabaseClient()
+    const thread = await getThreadForParticipant(supabase, { threadNumber, userId: user.id, role: 'buyer' })
+    await reportMessage(supabase, {
+      thread,
+      messageReference: body.messageReference,
+      reporterId: user.id,
+      reporterRole: 'buyer',
+      reason,
+      details
+    })
+
+    logger.log(`🚩 Message reported in ${threadNumber}`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thanks, our team will review this message'
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error reporting message:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
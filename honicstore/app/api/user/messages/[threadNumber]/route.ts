@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { ProductionError } from '@/lib/error-handler'
+import {
+  getThreadForParticipant,
+  getThreadMessages,
+  isValidThreadNumber,
+  markThreadRead,
+  normalizeMessageInput,
+  sendMessage,
+  toClientMessage
+} from '@/lib/messaging'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// GET /api/user/messages/[threadNumber] - Messages in a conversation (marks it as read)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadNumber: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/messages/[threadNumber]',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const { threadNumber } = await params
+    if (!isValidThreadNumber(threadNumber)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = getSupabaseClient()
+    const thread = await getThreadForParticipant(supabase, { threadNumber, userId: user.id, role: 'buyer' })
+    const messages = await getThreadMessages(supabase, thread.id)
+    await markThreadRead(supabase, thread, 'buyer')
+
+    return NextResponse.json({
+      success: true,
+      messages: messages.map(message => toClientMessage(message, 'buyer'))
+    })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error fetching conversation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/user/messages/[threadNumber] - Reply in a conversation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadNumber: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/messages/[threadNumber]',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const { threadNumber } = await params
+    if (!isValidThreadNumber(threadNumber)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const message = normalizeMessageInput(body.body, body.attachments)
+
+    const supabase = getSupabaseClient()
+    const thread = await getThreadForParticipant(supabase, { threadNumber, userId: user.id, role: 'buyer' })
+    const { message: sent } = await sendMessage(supabase, {
+      thread,
+      senderId: user.id,
+      senderRole: 'buyer',
+      ...message
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: toClientMessage(sent, 'buyer')
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error sending reply:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { sanitizeOrderNumber } from '@/lib/auth-utils'
+import { ProductionError } from '@/lib/error-handler'
+import {
+  getThreads,
+  normalizeMessageInput,
+  startThread,
+  toClientMessage,
+  toClientThread
+} from '@/lib/messaging'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// GET /api/user/messages - The buyer's conversations with suppliers
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/messages',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const threads = (await getThreads(getSupabaseClient(), { userId: user.id, role: 'buyer' }))
+      .map(summary => toClientThread(summary, 'buyer'))
+
+    return NextResponse.json({
+      success: true,
+      threads,
+      unreadCount: threads.reduce((sum, thread) => sum + thread.unreadCount, 0)
+    })
+  } catch (error: any) {
+    logger.log('❌ Error fetching messages:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/user/messages - Message the supplier of a product or an order
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/messages',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const productId = body.productId !== undefined && body.productId !== null ? Number.parseInt(String(body.productId), 10) : null
+    const orderNumber = body.orderNumber ? sanitizeOrderNumber(String(body.orderNumber)) : null
+
+    if (productId !== null && (Number.isNaN(productId) || productId < 1)) {
+      return NextResponse.json({ error: 'Invalid product' }, { status: 400 })
+    }
+    if (body.orderNumber && !orderNumber) {
+      return NextResponse.json({ error: 'Invalid order number format' }, { status: 400 })
+    }
+
+    const message = normalizeMessageInput(body.body, body.attachments)
+    const { thread, message: sent, created } = await startThread(getSupabaseClient(), {
+      buyerId: user.id,
+      productId,
+      orderNumber,
+      subject: typeof body.subject === 'string' ? body.subject : null,
+      ...message
+    })
+
+    logger.log(`✅ Message sent in ${thread.thread_number}`)
+
+    return NextResponse.json({
+      success: true,
+      threadNumber: thread.thread_number,
+      message: toClientMessage(sent, 'buyer')
+    }, { status: created ? 201 : 200 })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error sending message:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
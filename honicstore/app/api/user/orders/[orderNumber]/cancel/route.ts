@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { sanitizeOrderNumber } from '@/lib/auth-utils'
+import { ProductionError } from '@/lib/error-handler'
+import { cancelBuyerOrder, notifyBuyerOfCancellation } from '@/lib/order-cancellation'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// POST /api/user/orders/[orderNumber]/cancel - Cancel an order before it ships
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderNumber: string }> }
+) {
+  try {
+    // Rate limiting
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/orders/[orderNumber]/cancel',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const { orderNumber: rawOrderNumber } = await params
+
+    // Sanitize and validate order number
+    const orderNumber = sanitizeOrderNumber(rawOrderNumber)
+    if (!orderNumber) {
+      return NextResponse.json({ error: 'Invalid order number format' }, { status: 400 })
+    }
+    const cookieStore = await cookies()
+
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          get(name: string) {
+            return cookieStore.get(name)?.value
+          },
+          set(name: string, value: string, options: any) {},
+          remove(name: string, options: any) {},
+        },
+      }
+    )
+
+    // Get the current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      logger.log('❌ Authentication failed')
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason = typeof body.reason === 'string' && body.reason.trim()
+      ? body.reason.trim().slice(0, 500)
+      : 'Cancelled by customer'
+
+    const adminSupabase = getSupabaseClient()
+    const result = await cancelBuyerOrder(adminSupabase, { userId: user.id, orderNumber, reason })
+    await notifyBuyerOfCancellation(adminSupabase, result, reason)
+
+    return NextResponse.json({
+      success: true,
+      message: result.refundAmount > 0
+        ? 'Order cancelled. Your refund is being processed.'
+        : 'Order cancelled successfully',
+      status: 'cancelled',
+      totalAmount: result.newTotal,
+      refundAmount: result.refundAmount
+    })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error cancelling order:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { logger } from '@/lib/logger'
+import { describeOrderItemPriceTier } from '@/lib/price-tiers'
 
 export const dynamic = 'force-dynamic'
 
@@ -46,7 +47,8 @@ export async function GET(
           variant_attributes,
           quantity,
           price,
-          total_price
+          total_price,
+          price_tier
         )
       `)
       .eq('order_number', orderNumber)
@@ -113,10 +115,13 @@ ${order.shipping_address?.phone ? `Phone: ${order.shipping_address.phone}` : ''}
 
 ORDER ITEMS
 -----------
-${(order.order_items || []).map((item: any) => `
+${(order.order_items || []).map((item: any) => {
+  const tierNote = describeOrderItemPriceTier(item.price_tier)
+  return `
 ${item.product_name}${item.variant_name ? ' - ' + item.variant_name : ''}
 Quantity: ${item.quantity} | Price: ${formatCurrency(item.price)} | Total: ${formatCurrency(item.total_price)}
-`).join('\n')}
+${tierNote ? tierNote + '\n' : ''}`
+}).join('\n')}
 
 TOTAL: ${formatCurrency(order.total_amount)}
 
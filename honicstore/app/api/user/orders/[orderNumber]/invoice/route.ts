@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { logger } from '@/lib/logger'
+import { describeOrderItemPriceTier } from '@/lib/price-tiers'
 import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import { sanitizeOrderNumber, validateOrderOwnership } from '@/lib/auth-utils'
 
@@ -67,7 +68,8 @@ export async function GET(
           variant_attributes,
           quantity,
           price,
-          total_price
+          total_price,
+          price_tier
         )
       `)
       .eq('order_number', orderNumber)
@@ -224,14 +226,17 @@ export async function GET(
             </tr>
         </thead>
         <tbody>
-            ${(order.order_items || []).map((item: any) => `
+            ${(order.order_items || []).map((item: any) => {
+                const tierNote = describeOrderItemPriceTier(item.price_tier)
+                return `
                 <tr>
-                    <td>${item.product_name}${item.variant_name ? ' - ' + item.variant_name : ''}</td>
+                    <td>${item.product_name}${item.variant_name ? ' - ' + item.variant_name : ''}${tierNote ? `<br><small>${tierNote}</small>` : ''}</td>
                     <td>${item.quantity}</td>
                     <td>${formatCurrency(item.price)}</td>
                     <td>${formatCurrency(item.total_price)}</td>
                 </tr>
-            `).join('')}
+            `
+            }).join('')}
         </tbody>
         <tfoot>
             <tr class="total-row">
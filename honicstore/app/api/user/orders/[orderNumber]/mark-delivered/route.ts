@@ -5,6 +5,9 @@ import { logger } from '@/lib/logger'
 import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import { sanitizeOrderNumber, validateOrderOwnership } from '@/lib/auth-utils'
 import { buildUrl } from '@/lib/url-utils'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { recordOrderEvents } from '@/lib/order-events'
+import { awardCoinsForOrder } from '@/lib/loyalty-coins'
 
 // PATCH /api/user/orders/[orderNumber]/mark-delivered - Mark order as delivered/picked up
 export async function PATCH(
@@ -67,7 +70,7 @@ export async function PATCH(
     // Find the confirmed order by order_number
     const { data: confirmedOrder, error: orderError } = await supabase
       .from('confirmed_orders')
-      .select('id, user_id, status, delivery_option, is_received')
+      .select('id, order_id, user_id, status, delivery_option, is_received')
       .eq('order_number', orderNumber)
       .single()
 
@@ -181,6 +184,7 @@ export async function PATCH(
       .from('confirmed_order_items')
       .update({ status: newStatus })
       .eq('confirmed_order_id', confirmedOrder.id)
+      .neq('status', 'cancelled')
     
     if (itemIds && itemIds.length > 0) {
       itemsUpdateQuery = itemsUpdateQuery.in('id', itemIds)
@@ -193,6 +197,35 @@ export async function PATCH(
       // Don't fail the request, but log the warning
     }
 
+    // One event per handed-over item so split orders show each supplier's package
+    const adminSupabase = getSupabaseClient()
+    const { data: itemSuppliers } = await adminSupabase
+      .from('confirmed_order_items')
+      .select('id, products(user_id, supplier_id)')
+      .in('id', orderItems.filter(item => item.status !== 'cancelled').map(item => item.id))
+
+    await recordOrderEvents(adminSupabase, (itemSuppliers || []).map((item: any) => ({
+      order_id: confirmedOrder.order_id,
+      order_number: orderNumber,
+      confirmed_order_item_id: item.id,
+      supplier_id: item.products?.supplier_id || item.products?.user_id || null,
+      status: newStatus,
+      actor_id: user.id,
+      actor_role: 'buyer' as const,
+      source: 'mark_delivered'
+    })))
+
+    // Picked up is final for the order, so coins are earned once nothing is left to hand over
+    const { data: openItems } = await adminSupabase
+      .from('confirmed_order_items')
+      .select('id')
+      .eq('confirmed_order_id', confirmedOrder.id)
+      .not('status', 'in', '(picked_up,cancelled)')
+
+    const coinsEarned = openItems && openItems.length === 0
+      ? await awardCoinsForOrder(adminSupabase, confirmedOrder.order_id)
+      : 0
+
     logger.log('✅ Order marked as delivered/picked up:', orderNumber)
     
     // Send delivery confirmation email
@@ -233,7 +266,8 @@ export async function PATCH(
       status: updatedOrder.status,
       updated_at: updatedOrder.updated_at,
       is_received: updatedOrder.is_received,
-      received_at: updatedOrder.received_at
+      received_at: updatedOrder.received_at,
+      coinsEarned
     })
 
   } catch (error: any) {
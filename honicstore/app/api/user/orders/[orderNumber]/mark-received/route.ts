@@ -4,6 +4,9 @@ import { cookies } from 'next/headers'
 import { logger } from '@/lib/logger'
 import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import { sanitizeOrderNumber, validateOrderOwnership } from '@/lib/auth-utils'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { recordOrderEvent } from '@/lib/order-events'
+import { awardCoinsForOrder } from '@/lib/loyalty-coins'
 
 // PATCH /api/user/orders/[orderNumber]/mark-received - Mark order as received
 export async function PATCH(
@@ -59,7 +62,7 @@ export async function PATCH(
     // Find the confirmed order by order_number
     const { data: confirmedOrder, error: orderError } = await supabase
       .from('confirmed_orders')
-      .select('id, user_id, is_received, status')
+      .select('id, order_id, user_id, is_received, status')
       .eq('order_number', orderNumber)
       .single()
 
@@ -178,12 +181,23 @@ export async function PATCH(
         { status: 500 }
       )
     }
+    await recordOrderEvent(getSupabaseClient(), {
+      order_id: confirmedOrder.order_id,
+      order_number: orderNumber,
+      status: 'received',
+      actor_id: user.id,
+      actor_role: 'buyer',
+      source: 'mark_received'
+    })
+    const coinsEarned = await awardCoinsForOrder(getSupabaseClient(), confirmedOrder.order_id)
+
     logger.log('✅ Order marked as received:', orderNumber)
     return NextResponse.json({
       success: true,
       message: 'Order marked as received',
       is_received: updatedOrder.is_received,
-      received_at: updatedOrder.received_at
+      received_at: updatedOrder.received_at,
+      coinsEarned
     })
 
   } catch (error: any) {
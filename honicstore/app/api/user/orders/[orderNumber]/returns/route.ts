@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { sanitizeOrderNumber } from '@/lib/auth-utils'
+import { ProductionError } from '@/lib/error-handler'
+import { createNotification } from '@/lib/notification-helpers'
+import { getMediaBucketName, isStorageMediaUrl } from '@/lib/media-upload'
+import {
+  createReturnRequests,
+  getReturnRequests,
+  RETURN_REASONS,
+  MAX_RETURN_PHOTOS,
+  ReturnReason,
+  ReturnRequest
+} from '@/lib/order-returns'
+
+// Only photos uploaded through /api/media/upload reach the supplier's review
+const RETURN_PHOTO_BUCKET = getMediaBucketName('image', 'return')
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// SECURITY: Never expose UUIDs (return id, supplier id, item ids) to clients
+function toClientReturn(request: ReturnRequest) {
+  return {
+    returnNumber: request.return_number,
+    status: request.status,
+    reason: request.reason,
+    details: request.details,
+    photos: request.photos || [],
+    refundAmount: Number(request.refund_amount) || 0,
+    currency: request.currency,
+    supplierNote: request.supplier_note,
+    createdAt: request.created_at,
+    resolvedAt: request.resolved_at,
+    items: (request.items || []).map(item => ({
+      productId: item.product_id,
+      productName: item.product_name,
+      variantName: item.variant_name,
+      quantity: item.quantity,
+      refundAmount: Number(item.refund_amount) || 0
+    }))
+  }
+}
+
+// GET /api/user/orders/[orderNumber]/returns - Return requests opened for this order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderNumber: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/orders/[orderNumber]/returns',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const { orderNumber: rawOrderNumber } = await params
+    const orderNumber = sanitizeOrderNumber(rawOrderNumber)
+    if (!orderNumber) {
+      return NextResponse.json({ error: 'Invalid order number format' }, { status: 400 })
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const returns = await getReturnRequests(getSupabaseClient(), { userId: user.id, orderNumber })
+
+    return NextResponse.json({
+      success: true,
+      returns: returns.map(toClientReturn),
+      reasons: RETURN_REASONS
+    })
+  } catch (error: any) {
+    logger.log('❌ Error fetching return requests:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/user/orders/[orderNumber]/returns - Open a return request for delivered items
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderNumber: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/orders/[orderNumber]/returns',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const { orderNumber: rawOrderNumber } = await params
+    const orderNumber = sanitizeOrderNumber(rawOrderNumber)
+    if (!orderNumber) {
+      return NextResponse.json({ error: 'Invalid order number format' }, { status: 400 })
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason = body.reason as ReturnReason
+    const details = typeof body.details === 'string' ? body.details.trim().slice(0, 1000) : null
+    const items = Array.isArray(body.items) ? body.items : []
+    const photos: string[] = Array.isArray(body.photos)
+      ? body.photos.filter((url: unknown): url is string => typeof url === 'string' && isStorageMediaUrl(url, RETURN_PHOTO_BUCKET))
+      : []
+
+    if (!RETURN_REASONS.includes(reason)) {
+      return NextResponse.json({ error: 'Please choose a reason for the return' }, { status: 400 })
+    }
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'Select at least one item to return' }, { status: 400 })
+    }
+    if (photos.length > MAX_RETURN_PHOTOS) {
+      return NextResponse.json({ error: `You can attach up to ${MAX_RETURN_PHOTOS} photos` }, { status: 400 })
+    }
+
+    const adminSupabase = getSupabaseClient()
+    const created = await createReturnRequests(adminSupabase, {
+      userId: user.id,
+      orderNumber,
+      reason,
+      details,
+      photos,
+      items: items.map((item: any) => ({
+        itemKey: String(item?.itemKey || ''),
+        quantity: Number(item?.quantity) || 0
+      }))
+    })
+
+    for (const returnRequest of created) {
+      await createNotification(
+        returnRequest.supplier_id,
+        'order_updated',
+        'New return request',
+        `Return ${returnRequest.return_number} was requested for order ${orderNumber}.`,
+        { order_number: orderNumber, return_number: returnRequest.return_number, action_url: '/supplier/orders' }
+      )
+    }
+
+    logger.log(`✅ ${created.length} return request(s) opened for order ${orderNumber}`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Return request submitted',
+      returns: created.map(toClientReturn)
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error creating return request:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
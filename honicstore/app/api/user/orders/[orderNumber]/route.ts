@@ -4,6 +4,8 @@ import { cookies } from 'next/headers'
 import { logger } from '@/lib/logger'
 import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
 import { sanitizeOrderNumber, validateOrderOwnership } from '@/lib/auth-utils'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { formatOpeningHours, getPickupPoint, pickupQrValue } from '@/lib/pickup-points'
 
 // GET /api/user/orders/[orderNumber] - Get order details by order number (customer-facing)
 export async function GET(
@@ -193,6 +195,11 @@ export async function GET(
       }
     }
 
+    // Where a pickup order is collected; a missing point falls back to the store
+    const pickupPoint = order.delivery_option === 'pickup' && order.pickup_point_id
+      ? await getPickupPoint(getSupabaseClient(), order.pickup_point_id).catch(() => null)
+      : null
+
     // Format the response (reference_id and pickup_id are READ-ONLY for customers)
     // SECURITY: Never expose UUIDs (order.id, supplierId, item.id) to clients
     const responseData = {
@@ -213,6 +220,24 @@ export async function GET(
       paymentTimestamp: order.payment_timestamp,
       failureReason: order.failure_reason,
       deliveryOption: confirmedOrder?.delivery_option || order.delivery_option,
+      pickupPoint: pickupPoint
+        ? {
+            name: pickupPoint.name,
+            address: pickupPoint.address,
+            ward: pickupPoint.ward,
+            district: pickupPoint.district,
+            region: pickupPoint.region,
+            phone: pickupPoint.phone,
+            hours: formatOpeningHours(pickupPoint.opening_hours),
+            instructions: pickupPoint.instructions,
+            lat: pickupPoint.lat,
+            lon: pickupPoint.lon
+          }
+        : null,
+      // Shown as the QR staff scan to confirm the handover
+      pickupQrValue: order.delivery_option === 'pickup' && order.pickup_id ? pickupQrValue(order.pickup_id) : null,
+      pickupReadyAt: order.pickup_ready_at || null,
+      pickedUpAt: order.picked_up_at || null,
       trackingNumber: order.tracking_number,
       estimatedDelivery: order.estimated_delivery,
       isReceived: confirmedOrder?.is_received || false,
@@ -1,9 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getOrderEvents, describeOrderEvent, OrderEventActor } from '@/lib/order-events'
 
 export const dynamic = 'force-dynamic'
 
+interface StatusHistoryEntry {
+  status: string
+  timestamp: string
+  description: string
+  location?: string
+  actor?: OrderEventActor
+  supplierName?: string | null
+  products?: string[]
+}
+
+const EVENT_LOCATIONS: Record<OrderEventActor, string> = {
+  buyer: 'Customer',
+  supplier: 'Seller',
+  admin: 'Processing Center',
+  pickup_point: 'Pickup Point',
+  courier: 'Courier',
+  system: 'Online'
+}
+
 // GET /api/user/orders/[orderNumber]/status-history - Get order status history
 export async function GET(
   request: NextRequest,
@@ -57,85 +79,72 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
     
-    // Check confirmed_orders for additional status history
-    const { data: confirmedOrder } = await supabase
-      .from('confirmed_orders')
-      .select('status, confirmed_at')
-      .eq('order_id', order.id)
-      .single()
-    
-    // Build status history based on current order status
-    const statusHistory: Array<{ status: string; timestamp: string; description: string; location?: string }> = []
+    const adminSupabase = getSupabaseClient()
+    const events = await getOrderEvents(adminSupabase, order.id)
     
-    // Always add pending status
-    statusHistory.push({
-      status: 'pending',
-      timestamp: new Date(order.created_at).toISOString(),
-      description: 'Order placed and awaiting confirmation',
-      location: 'Processing Center'
-    })
-    
-    // If confirmed, add confirmed status
-    if (order.status === 'confirmed' || confirmedOrder?.status === 'confirmed' || order.status === 'shipped' || order.status === 'delivered' || order.status === 'ready_for_pickup' || order.status === 'picked_up') {
-      statusHistory.push({
-        status: 'confirmed',
-        timestamp: confirmedOrder?.confirmed_at || order.updated_at || order.created_at,
-        description: 'Order confirmed by seller',
-        location: 'Processing Center'
-      })
+    // Orders placed before the event log existed only have their current status
+    if (events.length === 0) {
+      return NextResponse.json({ statusHistory: await buildLegacyHistory(supabase, order) })
     }
     
-    // If shipped or delivered, add shipped status
-    if (order.status === 'shipped' || order.status === 'delivered') {
-      statusHistory.push({
-        status: 'shipped',
-        timestamp: order.updated_at || order.created_at,
-        description: 'Order shipped and in transit',
-        location: 'In Transit'
+    // Item and supplier names for per-package events (never expose their UUIDs)
+    const itemIds = [...new Set(events.map(event => event.confirmed_order_item_id).filter(Boolean))] as string[]
+    const supplierIds = [...new Set(events.map(event => event.supplier_id).filter(Boolean))] as string[]
+    
+    const itemNames = new Map<string, string>()
+    if (itemIds.length > 0) {
+      const { data: items } = await adminSupabase
+        .from('confirmed_order_items')
+        .select('id, product_name, variant_name')
+        .in('id', itemIds)
+      items?.forEach(item => {
+        itemNames.set(item.id, item.variant_name ? `${item.product_name} (${item.variant_name})` : item.product_name)
       })
     }
     
-    // If delivered, add delivered status
-    if (order.status === 'delivered') {
-      statusHistory.push({
-        status: 'delivered',
-        timestamp: order.updated_at || order.created_at,
-        description: 'Order delivered successfully',
-        location: order.shipping_address?.city || 'Destination'
+    const supplierNames = new Map<string, string>()
+    if (supplierIds.length > 0) {
+      const { data: suppliers } = await adminSupabase
+        .from('profiles')
+        .select('id, company_name, full_name')
+        .in('id', supplierIds)
+      suppliers?.forEach(supplier => {
+        supplierNames.set(supplier.id, supplier.company_name || supplier.full_name || 'Unknown Supplier')
       })
     }
     
-    // If pickup order with ready_for_pickup status
-    if (order.status === 'ready_for_pickup') {
-      statusHistory.push({
-        status: 'ready_for_pickup',
-        timestamp: order.updated_at || order.created_at,
-        description: 'Order ready for pickup',
-        location: 'Store'
-      })
-    }
-    
-    // If picked up, add picked_up status
-    if (order.status === 'picked_up') {
-      statusHistory.push({
-        status: 'picked_up',
-        timestamp: order.updated_at || order.created_at,
-        description: 'Order picked up by customer',
-        location: 'Store'
-      })
-    }
-    
-    // If cancelled, add cancelled status
-    if (order.status === 'cancelled') {
-      statusHistory.push({
-        status: 'cancelled',
-        timestamp: order.updated_at || order.created_at,
-        description: 'Order cancelled',
-        location: 'Processing Center'
-      })
+    // A supplier updating a package writes one event per item in the same insert;
+    // collapse those into a single entry listing the products
+    const statusHistory: StatusHistoryEntry[] = []
+    const packageEntries = new Map<string, StatusHistoryEntry>()
+    
+    for (const event of events) {
+      const timestamp = event.created_at || order.updated_at
+      const productName = event.confirmed_order_item_id ? itemNames.get(event.confirmed_order_item_id) : undefined
+      const groupKey = event.confirmed_order_item_id
+        ? `${event.supplier_id}|${event.status}|${event.source}|${timestamp}|${event.note || ''}`
+        : null
+      
+      const existing = groupKey ? packageEntries.get(groupKey) : undefined
+      if (existing) {
+        if (productName) existing.products = [...(existing.products || []), productName]
+        continue
+      }
+      
+      const entry: StatusHistoryEntry = {
+        status: event.status,
+        timestamp,
+        description: describeOrderEvent(event),
+        location: EVENT_LOCATIONS[event.actor_role],
+        actor: event.actor_role,
+        supplierName: event.supplier_id ? supplierNames.get(event.supplier_id) || null : null,
+        products: productName ? [productName] : undefined
+      }
+      statusHistory.push(entry)
+      if (groupKey) packageEntries.set(groupKey, entry)
     }
     
-    return NextResponse.json(statusHistory)
+    return NextResponse.json({ statusHistory })
     
   } catch (error: any) {
     return NextResponse.json(
@@ -145,3 +154,87 @@ export async function GET(
   }
 }
 
+/**
+ * Timeline synthesized from the order's current status, for orders with no events
+ */
+async function buildLegacyHistory(supabase: SupabaseClient, order: any): Promise<StatusHistoryEntry[]> {
+  // Check confirmed_orders for additional status history
+  const { data: confirmedOrder } = await supabase
+    .from('confirmed_orders')
+    .select('status, confirmed_at')
+    .eq('order_id', order.id)
+    .single()
+  
+  // Build status history based on current order status
+  const statusHistory: StatusHistoryEntry[] = []
+  
+  // Always add pending status
+  statusHistory.push({
+    status: 'pending',
+    timestamp: new Date(order.created_at).toISOString(),
+    description: 'Order placed and awaiting confirmation',
+    location: 'Processing Center'
+  })
+  
+  // If confirmed, add confirmed status
+  if (order.status === 'confirmed' || confirmedOrder?.status === 'confirmed' || order.status === 'shipped' || order.status === 'delivered' || order.status === 'ready_for_pickup' || order.status === 'picked_up') {
+    statusHistory.push({
+      status: 'confirmed',
+      timestamp: confirmedOrder?.confirmed_at || order.updated_at || order.created_at,
+      description: 'Order confirmed by seller',
+      location: 'Processing Center'
+    })
+  }
+  
+  // If shipped or delivered, add shipped status
+  if (order.status === 'shipped' || order.status === 'delivered') {
+    statusHistory.push({
+      status: 'shipped',
+      timestamp: order.updated_at || order.created_at,
+      description: 'Order shipped and in transit',
+      location: 'In Transit'
+    })
+  }
+  
+  // If delivered, add delivered status
+  if (order.status === 'delivered') {
+    statusHistory.push({
+      status: 'delivered',
+      timestamp: order.updated_at || order.created_at,
+      description: 'Order delivered successfully',
+      location: order.shipping_address?.city || 'Destination'
+    })
+  }
+  
+  // If pickup order with ready_for_pickup status
+  if (order.status === 'ready_for_pickup') {
+    statusHistory.push({
+      status: 'ready_for_pickup',
+      timestamp: order.updated_at || order.created_at,
+      description: 'Order ready for pickup',
+      location: 'Store'
+    })
+  }
+  
+  // If picked up, add picked_up status
+  if (order.status === 'picked_up') {
+    statusHistory.push({
+      status: 'picked_up',
+      timestamp: order.updated_at || order.created_at,
+      description: 'Order picked up by customer',
+      location: 'Store'
+    })
+  }
+  
+  // If cancelled, add cancelled status
+  if (order.status === 'cancelled') {
+    statusHistory.push({
+      status: 'cancelled',
+      timestamp: order.updated_at || order.created_at,
+      description: 'Order cancelled',
+      location: 'Processing Center'
+    })
+  }
+  
+  return statusHistory
+}
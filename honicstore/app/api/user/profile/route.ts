@@ -123,7 +123,7 @@ export async function PUT(request: NextRequest) {
 
     // Parse request body
     const body = await request.json()
-    const { full_name, phone, avatar_url } = body
+    const { full_name, phone, avatar_url, date_of_birth } = body
 
     // Validate input
     if (full_name && typeof full_name !== 'string') {
@@ -140,6 +140,19 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    // Birthday coupons are sent on this date, so it must be a real past date
+    if (date_of_birth !== undefined && date_of_birth !== null && date_of_birth !== '') {
+      const parsed = typeof date_of_birth === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date_of_birth)
+        ? new Date(`${date_of_birth}T00:00:00Z`)
+        : null
+      if (!parsed || isNaN(parsed.getTime()) || parsed > new Date() || parsed.toISOString().slice(0, 10) !== date_of_birth) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid date_of_birth format' },
+          { status: 400 }
+        )
+      }
+    }
+
     // Update user profile - ensure user can only update their own profile
     const updateData: any = {
       updated_at: new Date().toISOString()
@@ -157,6 +170,10 @@ export async function PUT(request: NextRequest) {
       updateData.avatar = avatar_url
     }
 
+    if (date_of_birth !== undefined) {
+      updateData.date_of_birth = date_of_birth || null
+    }
+
     const { data: profile, error: updateError } = await supabase
       .from('profiles')
       .update(updateData)
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { ProductionError } from '@/lib/error-handler'
+import { cacheInvalidator } from '@/lib/cache'
+import {
+  acceptSupplierQuote,
+  isValidQuoteNumber,
+  isValidRequestNumber,
+  toClientQuote,
+  toClientQuoteRequest
+} from '@/lib/quote-requests'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// POST /api/user/quote-requests/[requestNumber]/quotes/[quoteNumber]/accept - Accept a quote and add it to the cart
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestNumber: string; quoteNumber: string }> }
+) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/quote-requests/[requestNumber]/quotes/[quoteNumber]/accept',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const { requestNumber, quoteNumber } = await params
+    if (!isValidRequestNumber(requestNumber) || !isValidQuoteNumber(quoteNumber)) {
+      return NextResponse.json({ error: 'Invalid quote number' }, { status: 400 })
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { request: accepted, quote } = await acceptSupplierQuote(getSupabaseClient(), user.id, requestNumber, quoteNumber)
+    cacheInvalidator.invalidateUser(user.id)
+
+    logger.log(`✅ Quote ${quote.quote_number} accepted on ${accepted.request_number}`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Quote accepted and added to your cart',
+      request: toClientQuoteRequest(accepted),
+      quote: toClientQuote(quote)
+    })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error accepting quote:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logger } from '@/lib/logger'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { enhancedRateLimit, logSecurityEvent } from '@/lib/enhanced-rate-limit'
+import { ProductionError } from '@/lib/error-handler'
+import {
+  createQuoteRequest,
+  getBuyerQuoteRequests,
+  getQuoteLabels,
+  normalizeQuoteRequestInput,
+  toClientQuote,
+  toClientQuoteRequest,
+  SupplierQuote
+} from '@/lib/quote-requests'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+async function getAuthenticatedUser() {
+  const cookieStore = await cookies()
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: any) {},
+        remove(name: string, options: any) {},
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+// GET /api/user/quote-requests - The buyer's quote requests with the quotes received
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/quote-requests',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = getSupabaseClient()
+    const requests = await getBuyerQuoteRequests(adminSupabase, user.id)
+    // Withdrawn quotes are the supplier's business, not the buyer's
+    const quotes = requests.flatMap(quoteRequest => (quoteRequest.quotes || []).filter(quote => quote.status !== 'withdrawn'))
+    const { supplierNames, productNames, variantNames } = await getQuoteLabels(adminSupabase, quotes)
+
+    return NextResponse.json({
+      success: true,
+      requests: requests.map(quoteRequest => ({
+        ...toClientQuoteRequest(quoteRequest),
+        quotes: (quoteRequest.quotes || [])
+          .filter((quote: SupplierQuote) => quote.status !== 'withdrawn')
+          .sort((a: SupplierQuote, b: SupplierQuote) => Number(a.unit_price) - Number(b.unit_price))
+          .map((quote: SupplierQuote) => toClientQuote(quote, {
+            supplierName: supplierNames.get(quote.supplier_id),
+            productName: productNames.get(quote.product_id),
+            variantName: quote.variant_id ? variantNames.get(quote.variant_id) : null
+          }))
+      }))
+    })
+  } catch (error: any) {
+    logger.log('❌ Error fetching quote requests:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/user/quote-requests - Ask matching suppliers for a quote
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await enhancedRateLimit(request)
+    if (!rateLimitResult.allowed) {
+      logSecurityEvent('RATE_LIMIT_EXCEEDED', {
+        endpoint: '/api/user/quote-requests',
+        reason: rateLimitResult.reason
+      }, request)
+      return NextResponse.json(
+        { error: rateLimitResult.reason },
+        { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Please sign in to request a quote' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = normalizeQuoteRequestInput(body || {})
+    const created = await createQuoteRequest(getSupabaseClient(), user.id, input)
+
+    logger.log(`✅ Quote request ${created.request_number} sent to ${created.supplier_count} supplier(s)`)
+
+    return NextResponse.json({
+      success: true,
+      message: created.supplier_count > 0
+        ? `Sent to ${created.supplier_count} supplier${created.supplier_count === 1 ? '' : 's'}`
+        : 'Our team will find suppliers for this request',
+      request: { ...toClientQuoteRequest(created), quotes: [] }
+    }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.log('❌ Error creating quote request:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { ProductionError } from '@/lib/error-handler'
+import { logger } from '@/lib/logger'
+import { addListItem, getListItems, removeListItem, resolveList } from '@/lib/wishlists'
 
 export const dynamic = 'force-dynamic'
 
@@ -17,55 +21,71 @@ function getClient(req: NextRequest) {
 	)
 }
 
+function errorResponse(error: unknown) {
+	if (error instanceof ProductionError) return NextResponse.json({ error: error.message }, { status: error.statusCode })
+	logger.error('Wishlist request failed:', error)
+	return NextResponse.json({ error: 'Failed' }, { status: 500 })
+}
+
+function parseVariantId(value: unknown): number | null | undefined {
+	if (value === undefined || value === null || value === '') return undefined
+	const variantId = Number(value)
+	return Number.isInteger(variantId) && variantId > 0 ? variantId : null
+}
+
+// GET - Items of the default wishlist, or of ?listId=
 export async function GET(req: NextRequest) {
 	try {
 		const supabase = getClient(req)
 		const { data: { user } } = await supabase.auth.getUser()
 		if (!user) return NextResponse.json({ items: [] })
-		const { data, error } = await supabase.from('profiles').select('wishlist_product_ids').eq('id', user.id).single()
-		if (error) return NextResponse.json({ items: [] })
-		const ids: number[] = Array.isArray(data?.wishlist_product_ids) ? data!.wishlist_product_ids : []
-		return NextResponse.json({ items: ids.map((id: number) => ({ productId: id, addedAt: new Date().toISOString() })) })
-	} catch {
+		const admin = getSupabaseClient()
+		const list = await resolveList(admin, user.id, { kind: 'wishlist', listId: new URL(req.url).searchParams.get('listId') })
+		const items = await getListItems(admin, list)
+		return NextResponse.json({ listId: list.id, items })
+	} catch (error) {
+		if (error instanceof ProductionError) return errorResponse(error)
+		logger.error('Error loading wishlist:', error)
 		return NextResponse.json({ items: [] })
 	}
 }
 
+// POST - Save { productId, variantId?, listId? } at its current price
 export async function POST(req: NextRequest) {
 	try {
 		const body = await req.json()
 		const productId = Number(body?.productId)
 		if (!Number.isFinite(productId)) return NextResponse.json({ error: 'Invalid productId' }, { status: 400 })
+		const variantId = parseVariantId(body?.variantId)
+		if (variantId === null) return NextResponse.json({ error: 'Invalid variantId' }, { status: 400 })
 		const supabase = getClient(req)
 		const { data: { user } } = await supabase.auth.getUser()
 		if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-		const { data, error } = await supabase.from('profiles').select('wishlist_product_ids').eq('id', user.id).single()
-		if (error && error.code !== 'PGRST116') return NextResponse.json({ error: 'DB error' }, { status: 500 })
-		const prev: number[] = Array.isArray(data?.wishlist_product_ids) ? data!.wishlist_product_ids : []
-		const next = [productId, ...prev.filter(id => id !== productId)]
-		await supabase.from('profiles').upsert({ id: user.id, wishlist_product_ids: next }, { onConflict: 'id' })
-		return NextResponse.json({ success: true })
-	} catch {
-		return NextResponse.json({ error: 'Failed' }, { status: 500 })
+		const admin = getSupabaseClient()
+		const list = await resolveList(admin, user.id, { kind: 'wishlist', listId: body?.listId || null })
+		const item = await addListItem(admin, list, { productId, variantId: variantId ?? null })
+		return NextResponse.json({ success: true, item })
+	} catch (error) {
+		return errorResponse(error)
 	}
 }
 
+// DELETE - ?productId=&variantId=&listId= (all variants of the product when variantId is omitted)
 export async function DELETE(req: NextRequest) {
 	try {
-		const productId = Number(new URL(req.url).searchParams.get('productId'))
+		const { searchParams } = new URL(req.url)
+		const productId = Number(searchParams.get('productId'))
 		if (!Number.isFinite(productId)) return NextResponse.json({ error: 'Invalid productId' }, { status: 400 })
+		const variantId = parseVariantId(searchParams.get('variantId'))
+		if (variantId === null) return NextResponse.json({ error: 'Invalid variantId' }, { status: 400 })
 		const supabase = getClient(req)
 		const { data: { user } } = await supabase.auth.getUser()
 		if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-		const { data, error } = await supabase.from('profiles').select('wishlist_product_ids').eq('id', user.id).single()
-		if (error) return NextResponse.json({ error: 'DB error' }, { status: 500 })
-		const prev: number[] = Array.isArray(data?.wishlist_product_ids) ? data!.wishlist_product_ids : []
-		const next = prev.filter(id => id !== productId)
-		await supabase.from('profiles').upsert({ id: user.id, wishlist_product_ids: next }, { onConflict: 'id' })
+		const admin = getSupabaseClient()
+		const list = await resolveList(admin, user.id, { kind: 'wishlist', listId: searchParams.get('listId') })
+		await removeListItem(admin, list, { productId, variantId })
 		return NextResponse.json({ success: true })
-	} catch {
-		return NextResponse.json({ error: 'Failed' }, { status: 500 })
+	} catch (error) {
+		return errorResponse(error)
 	}
 }
-
-
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { ProductionError } from '@/lib/error-handler'
+import { logger } from '@/lib/logger'
+import { deleteWishlist, updateWishlist } from '@/lib/wishlists'
+
+export const dynamic = 'force-dynamic'
+
+function getClient(req: NextRequest) {
+	return createServerClient(
+		process.env.NEXT_PUBLIC_SUPABASE_URL!,
+		process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+		{
+			cookies: {
+				get(name: string) { return req.cookies.get(name)?.value },
+				set() {},
+				remove() {},
+			},
+		},
+	)
+}
+
+// PATCH - Rename { name } and/or turn the read-only share link on or off { shared }
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ listId: string }> }) {
+	try {
+		const { listId } = await params
+		const body = await req.json().catch(() => ({}))
+		if (body?.shared !== undefined && typeof body.shared !== 'boolean') {
+			return NextResponse.json({ error: 'shared must be true or false' }, { status: 400 })
+		}
+		const supabase = getClient(req)
+		const { data: { user } } = await supabase.auth.getUser()
+		if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+		const list = await updateWishlist(getSupabaseClient(), user.id, listId, { name: body?.name, shared: body?.shared })
+		return NextResponse.json({ success: true, list })
+	} catch (error) {
+		if (error instanceof ProductionError) return NextResponse.json({ error: error.message }, { status: error.statusCode })
+		logger.error('Error updating wishlist:', error)
+		return NextResponse.json({ error: 'Failed' }, { status: 500 })
+	}
+}
+
+// DELETE - Delete a named wishlist and its items (the default list stays)
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ listId: string }> }) {
+	try {
+		const { listId } = await params
+		const supabase = getClient(req)
+		const { data: { user } } = await supabase.auth.getUser()
+		if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+		await deleteWishlist(getSupabaseClient(), user.id, listId)
+		return NextResponse.json({ success: true })
+	} catch (error) {
+		if (error instanceof ProductionError) return NextResponse.json({ error: error.message }, { status: error.statusCode })
+		logger.error('Error deleting wishlist:', error)
+		return NextResponse.json({ error: 'Failed' }, { status: 500 })
+	}
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { ProductionError } from '@/lib/error-handler'
+import { logger } from '@/lib/logger'
+import { createWishlist, getUserWishlists } from '@/lib/wishlists'
+
+export const dynamic = 'force-dynamic'
+
+function getClient(req: NextRequest) {
+	return createServerClient(
+		process.env.NEXT_PUBLIC_SUPABASE_URL!,
+		process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+		{
+			cookies: {
+				get(name: string) { return req.cookies.get(name)?.value },
+				set() {},
+				remove() {},
+			},
+		},
+	)
+}
+
+// GET - The buyer's named wishlists with item counts, default first
+export async function GET(req: NextRequest) {
+	try {
+		const supabase = getClient(req)
+		const { data: { user } } = await supabase.auth.getUser()
+		if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+		const lists = await getUserWishlists(getSupabaseClient(), user.id)
+		return NextResponse.json({ lists })
+	} catch (error) {
+		logger.error('Error loading wishlists:', error)
+		return NextResponse.json({ error: 'Failed' }, { status: 500 })
+	}
+}
+
+// POST - Create a named wishlist { name }
+export async function POST(req: NextRequest) {
+	try {
+		const body = await req.json().catch(() => ({}))
+		const supabase = getClient(req)
+		const { data: { user } } = await supabase.auth.getUser()
+		if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+		const list = await createWishlist(getSupabaseClient(), user.id, body?.name)
+		return NextResponse.json({ success: true, list }, { status: 201 })
+	} catch (error) {
+		if (error instanceof ProductionError) return NextResponse.json({ error: error.message }, { status: error.statusCode })
+		logger.error('Error creating wishlist:', error)
+		return NextResponse.json({ error: 'Failed' }, { status: 500 })
+	}
+}
@@ -3,6 +3,12 @@ import crypto from 'crypto'
 import { logger } from '@/lib/logger'
 import { secureOrderUpdate } from '@/lib/reference-id-security'
 import { verifyTransactionWithClickPesa, normalizeOrderReference } from '@/lib/clickpesa-api'
+import { postOrderLedgerEntries } from '@/lib/supplier-ledger'
+import { adjustStockForOrderItems } from '@/lib/stock-decrement'
+import { convertStockHolds } from '@/lib/stock-holds'
+import { recordOrderEvent } from '@/lib/order-events'
+import { sendOrderConfirmationEmail } from '@/lib/user-email-service'
+import { buildUrl } from '@/lib/url-utils'
 
 
 
@@ -149,161 +155,14 @@ async function processPaidOrderStockAndCart(
       logger.error('Error fetching order items for stock reduction', itemsError)
       throw itemsError
     } else if (orderItems && orderItems.length > 0) {
-      const dirtyVariantProductIds = new Set<number>()
-      const productVariantsCache = new Map<number, Array<{ id: number; primary_values: any }>>()
-      const getProductVariants = async (productId: number) => {
-        const cached = productVariantsCache.get(productId)
-        if (cached) return cached
-        const { data: variants, error: variantsError } = await supabase
-          .from('product_variants')
-          .select('id, primary_values')
-          .eq('product_id', productId)
-        if (variantsError || !variants) return null
-        productVariantsCache.set(productId, variants as Array<{ id: number; primary_values: any }>)
-        return variants as Array<{ id: number; primary_values: any }>
-      }
-
-      for (const item of orderItems) {
-        try {
-          let variantAttributes = item.variant_attributes
-          if (typeof variantAttributes === 'string') {
-            try {
-              variantAttributes = JSON.parse(variantAttributes)
-            } catch {
-              logger.warn(`Could not parse variant_attributes for item ${item.product_id}`)
-              variantAttributes = null
-            }
-          }
-
-          if ((!variantAttributes || Object.keys(variantAttributes || {}).length === 0) && item.variant_name) {
-            const productVariants = await getProductVariants(item.product_id)
-            if (productVariants) {
-              for (const variant of productVariants) {
-                let pvArray = variant.primary_values
-                if (typeof pvArray === 'string') {
-                  try {
-                    pvArray = JSON.parse(pvArray)
-                  } catch {
-                    continue
-                  }
-                }
-
-                if (pvArray && Array.isArray(pvArray)) {
-                  const matchingPv = pvArray.find((pv: any) => String(pv.value) === String(item.variant_name))
-                  if (matchingPv) {
-                    variantAttributes = { [matchingPv.attribute]: matchingPv.value }
-                    break
-                  }
-                }
-              }
-            }
-          }
-
-          if (variantAttributes && typeof variantAttributes === 'object' && Object.keys(variantAttributes).length > 0) {
-            const variants = await getProductVariants(item.product_id)
-            if (!variants || variants.length === 0) continue
-
-            for (const variant of variants) {
-              let primaryValues = variant.primary_values
-              if (typeof primaryValues === 'string') {
-                try {
-                  primaryValues = JSON.parse(primaryValues)
-                } catch (e) {
-                  logger.error(`Error parsing primary_values for variant ${variant.id}`, e)
-                  continue
-                }
-              }
-              if (!primaryValues || !Array.isArray(primaryValues)) continue
-
-              let updated = false
-              const updatedPrimaryValues = primaryValues.map((pv: any) => {
-                const matches = Object.entries(variantAttributes).some(
-                  ([key, value]) => pv.attribute === key && String(pv.value) === String(value)
-                )
-                if (!matches) return pv
-                const currentQty = typeof pv.quantity === 'number' ? pv.quantity : parseInt(String(pv.quantity)) || 0
-                const newQty = Math.max(0, currentQty - item.quantity)
-                updated = true
-                return { ...pv, quantity: newQty }
-              })
-
-              if (!updated) continue
-
-              const { error: variantUpdateError } = await supabase
-                .from('product_variants')
-                .update({ primary_values: updatedPrimaryValues })
-                .eq('id', variant.id)
-              if (variantUpdateError) {
-                logger.error(`Error updating variant ${variant.id}`, variantUpdateError)
-                continue
-              }
-
-              const cachedVariants = productVariantsCache.get(item.product_id)
-              if (cachedVariants) {
-                const target = cachedVariants.find((cv) => cv.id === variant.id)
-                if (target) target.primary_values = updatedPrimaryValues
-              }
-              dirtyVariantProductIds.add(item.product_id)
-            }
-          } else {
-            const { data: product, error: fetchError } = await supabase
-              .from('products')
-              .select('stock_quantity, in_stock')
-              .eq('id', item.product_id)
-              .single()
-            if (fetchError) {
-              logger.error(`Error fetching product for stock reduction`, fetchError)
-              continue
-            }
-
-            const currentStock = product.stock_quantity || 0
-            const newStock = Math.max(0, currentStock - item.quantity)
-            const isInStock = newStock > 0
-            const { error: updateError } = await supabase
-              .from('products')
-              .update({
-                stock_quantity: newStock,
-                in_stock: isInStock,
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', item.product_id)
-            if (updateError) logger.error(`Error updating product stock`, updateError)
-          }
-        } catch (stockError) {
-          logger.error(`Error in stock reduction for product ${item.product_id}`, stockError)
-        }
-      }
-
-      for (const productId of dirtyVariantProductIds) {
-        const allVariants = (await getProductVariants(productId)) || []
-        let totalStock = 0
-        for (const v of allVariants) {
-          let pvArray = v.primary_values
-          if (typeof pvArray === 'string') {
-            try {
-              pvArray = JSON.parse(pvArray)
-            } catch {
-              continue
-            }
-          }
-          if (pvArray && Array.isArray(pvArray)) {
-            for (const pv of pvArray) {
-              const qty = typeof pv.quantity === 'number' ? pv.quantity : parseInt(String(pv.quantity)) || 0
-              totalStock += qty
-            }
-          }
-        }
-        const { error: productUpdateError } = await supabase
-          .from('products')
-          .update({
-            stock_quantity: totalStock,
-            in_stock: totalStock > 0,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', productId)
-        if (productUpdateError) logger.error(`Error updating product stock`, productUpdateError)
-      }
+      await adjustStockForOrderItems(supabase, orderItems, 'decrement', {
+        reason: 'sale',
+        order_id: order.id,
+        order_number: order.order_number
+      })
     }
+    // The decrement now covers what checkout held
+    await convertStockHolds(supabase, order.id)
   } catch (stockReductionError) {
     logger.error(`Error in stock reduction process`, stockReductionError)
   }
@@ -321,6 +180,65 @@ async function processPaidOrderStockAndCart(
   }
 }
 
+/**
+ * Confirmation email to the buyer once the order is paid, with the same-day slot when one was
+ * booked. The order keeps only its total, so shipping is what the total holds beyond the items.
+ */
+async function sendPaidOrderConfirmation(
+  supabase: any,
+  order: any
+): Promise<void> {
+  try {
+    let email: string | null = null
+    if (order.user_id) {
+      const { data: { user } } = await supabase.auth.admin.getUserById(order.user_id)
+      email = user?.email || null
+    }
+    email = email || order.billing_address?.email || order.shipping_address?.email || null
+    if (!email) return
+
+    const { data: orderItems } = await supabase
+      .from('order_items')
+      .select('product_name, quantity, price, total_price')
+      .eq('order_id', order.id)
+
+    const items = (orderItems || []).map((item: any) => ({
+      name: item.product_name,
+      quantity: item.quantity,
+      price: Number(item.price) || 0
+    }))
+    const subtotal = (orderItems || []).reduce((sum: number, item: any) => sum + (Number(item.total_price) || 0), 0)
+    const total = Number(order.total_amount) || 0
+    // Orders placed before shipping and discount were stored fall back to working them out from the total
+    const shipping = order.shipping_fee !== null && order.shipping_fee !== undefined
+      ? Number(order.shipping_fee) || 0
+      : Math.max(0, total - subtotal)
+    const discount = order.discount_amount !== null && order.discount_amount !== undefined
+      ? Number(order.discount_amount) || 0
+      : Math.max(0, subtotal + shipping - total)
+
+    await sendOrderConfirmationEmail(email, {
+      orderNumber: order.order_number,
+      orderDate: new Date(order.created_at).toLocaleString('en-TZ', { timeZone: 'Africa/Dar_es_Salaam' }),
+      items,
+      subtotal,
+      shipping,
+      discount,
+      tax: 0,
+      total,
+      shippingAddress: order.delivery_option === 'pickup' ? (order.billing_address || {}) : (order.shipping_address || {}),
+      billingAddress: order.billing_address,
+      paymentMethod: 'ClickPesa',
+      trackingUrl: buildUrl(`/account/orders/${order.order_number}`),
+      deliverySlot: order.delivery_slot_label
+        ? `${order.delivery_slot_label} on ${order.delivery_slot_date}`
+        : undefined
+    })
+  } catch (error) {
+    logger.error(`Error sending order confirmation for ${order.order_number}`, error)
+  }
+}
+
 // ClickPesa webhook handler
 export async function POST(request: NextRequest) {
   try {
@@ -780,11 +698,33 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    if (verifiedPaymentStatus !== order.payment_status) {
+      await recordOrderEvent(supabase, {
+        order_id: order.id,
+        order_number: order.order_number,
+        status: verifiedPaymentStatus === 'paid' ? 'paid' : `payment_${verifiedPaymentStatus}`,
+        actor_role: 'system',
+        source: isManualTrigger ? 'clickpesa_manual' : 'clickpesa_webhook',
+        note: verifiedPaymentStatus === 'paid'
+          ? `Transaction ${transactionId}`
+          : (failureReason || verification.message || null)
+      })
+    }
+
     // If payment is successful, reduce stock quantities and clear cart (only if not already processed)
     const shouldProcessStock = paymentStatus === 'paid' && order.payment_status !== 'paid' && order.payment_status !== 'success'
     
     if (shouldProcessStock) {
       await processPaidOrderStockAndCart(supabase, order)
+
+      // Post commission and supplier payable lines (idempotent per confirmed item)
+      try {
+        await postOrderLedgerEntries(supabase, order.id)
+      } catch (ledgerError) {
+        logger.error('Error posting supplier ledger entries', ledgerError)
+      }
+
+      await sendPaidOrderConfirmation(supabase, order)
     }
 
     // Send real-time update to admin (if using Supabase Realtime)
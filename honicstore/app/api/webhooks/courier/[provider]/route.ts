@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { logger } from '@/lib/logger'
+import { ProductionError } from '@/lib/error-handler'
+import { getCourierProvider, isCourierProviderName } from '@/lib/courier-providers'
+import { applyTrackingUpdate } from '@/lib/courier-shipments'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/webhooks/courier/[provider]
+ * Tracking events pushed by a courier. The provider checks the signature; each event moves the
+ * matching shipment and its items forward and emails the buyer when they ship or arrive.
+ * Repeated events are ignored, so the carrier can retry until it gets a 2xx.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerName } = await params
+  if (!isCourierProviderName(providerName)) {
+    return NextResponse.json({ error: 'Unknown courier' }, { status: 404 })
+  }
+
+  try {
+    const provider = getCourierProvider(providerName)
+    const rawBody = await request.text()
+    const updates = provider.parseWebhook(rawBody, request.headers)
+
+    const supabase = getSupabaseClient()
+    let applied = 0
+    for (const update of updates) {
+      if (await applyTrackingUpdate(supabase, provider, update)) applied++
+    }
+
+    logger.log(`📦 Courier webhook (${providerName}): ${applied}/${updates.length} tracking updates applied`)
+    return NextResponse.json({ received: updates.length, applied })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      logger.warn(`Courier webhook (${providerName}) rejected: ${error.message}`)
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    logger.error(`Courier webhook (${providerName}) failed:`, error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enhancedRateLimit } from '@/lib/enhanced-rate-limit'
+import { getSupabaseClient } from '@/lib/supabase-server'
+import { ProductionError } from '@/lib/error-handler'
+import { logger } from '@/lib/logger'
+import { getSharedWishlist } from '@/lib/wishlists'
+
+// Rate limit logging helper
+const logRateLimitEvent = (endpoint: string, reason: string | undefined, request: NextRequest) => {
+  const clientIP = request.headers.get('x-forwarded-for') ||
+                   request.headers.get('x-real-ip') ||
+                   request.headers.get('cf-connecting-ip') ||
+                   'unknown'
+  logger.security(`Rate limit exceeded on ${endpoint}`, undefined, {
+    ip: clientIP,
+    reason,
+    path: request.nextUrl.pathname
+  })
+}
+
+export const dynamic = 'force-dynamic'
+
+export const runtime = 'nodejs'
+
+// GET - A shared wishlist, read-only, with current prices and stock
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const rateLimitResult = await enhancedRateLimit(request)
+  if (!rateLimitResult.allowed) {
+    logRateLimitEvent('/api/wishlists/shared/[token]', rateLimitResult.reason, request)
+
+    return NextResponse.json(
+      { error: rateLimitResult.reason || 'Too many requests. Please try again later.' },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': rateLimitResult.retryAfter?.toString() || '60'
+        }
+      }
+    )
+  }
+
+  try {
+    const { token } = await params
+    const wishlist = await getSharedWishlist(getSupabaseClient(), token)
+    return NextResponse.json({ success: true, wishlist })
+  } catch (error) {
+    if (error instanceof ProductionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.statusCode })
+    }
+    logger.error('Error fetching shared wishlist:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch wishlist' },
+      { status: 500 }
+    )
+  }
+}
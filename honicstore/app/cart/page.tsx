@@ -43,6 +43,8 @@ import {
   Sun,
   CheckCircle,
   MapPin,
+  Tag,
+  FileText,
 } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
@@ -436,15 +438,18 @@ function CartPageContent() {
     setPromoError('')
 
     try {
-      const cartItemsForPromo = cart.map(item => ({
-        productId: item.productId,
-        product_id: item.productId,
-        price: item.totalPrice / (item.totalQuantity || 1), // Average price per unit
-        quantity: item.totalQuantity || 1
-      }))
-
       // Calculate current subtotal
       const currentSelectedItems = cart.filter(i => selected[i.productId])
+      // One line per variant, as the order will have them, so the server can price the subtotal itself
+      const cartItemsForPromo = (currentSelectedItems.length > 0 ? currentSelectedItems : cart).flatMap(item =>
+        item.variants.map(variant => ({
+          productId: item.productId,
+          product_id: item.productId,
+          variantId: variant.variantId ?? null,
+          price: variant.price,
+          quantity: variant.quantity || 1
+        }))
+      )
       const currentSubtotal = currentSelectedItems.length > 0 
         ? currentSelectedItems.reduce((s,i)=>s+i.totalPrice,0) 
         : cartSubtotal
@@ -1107,6 +1112,28 @@ function CartPageContent() {
                                     )}
                                   </div>
 
+                                  {/* Next quantity tier */}
+                                  {variant.nextTier && variant.nextTier.minQuantity > variantQuantity && (
+                                    <div className="flex items-center gap-0.5 mt-0.5 text-[9px] sm:text-xs text-green-600 dark:text-green-400">
+                                      <Tag className="w-2.5 h-2.5 sm:w-3.5 sm:h-3.5" />
+                                      <span>
+                                        Add {variant.nextTier.minQuantity - variantQuantity} more to pay {formatPrice(variant.nextTier.price)} each
+                                      </span>
+                                    </div>
+                                  )}
+
+                                  {/* Accepted quote */}
+                                  {variant.quote && (
+                                    <div className={cn("flex items-center gap-0.5 mt-0.5 text-[9px] sm:text-xs", variant.quote.applies ? "text-green-600 dark:text-green-400" : "text-amber-600 dark:text-amber-400")}>
+                                      <FileText className="w-2.5 h-2.5 sm:w-3.5 sm:h-3.5" />
+                                      <span>
+                                        {variant.quote.applies
+                                          ? `Quoted price (${variant.quote.quoteNumber}) until ${new Date(variant.quote.validUntil).toLocaleDateString()}`
+                                          : `Quoted ${formatPrice(variant.quote.unitPrice)} each applies at exactly ${variant.quote.quantity} units`}
+                                      </span>
+                                    </div>
+                                  )}
+
                                   {/* Delivery estimate */}
                                   <div className={cn("flex items-center gap-0.5 mt-0.5 sm:mt-2 text-[9px] sm:text-xs", getDeliveryStatus(product, variantTotalPrice).color)}>
                                     <Truck className="w-2.5 h-2.5 sm:w-3.5 sm:h-3.5" />
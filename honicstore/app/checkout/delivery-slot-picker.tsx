@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Clock, Truck } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useTheme } from "@/hooks/use-theme"
+import { useTranslation } from "@/hooks/use-translation"
+
+// One entry from POST /api/delivery-slots
+export interface DeliverySlotOption {
+  id: number
+  name: string
+  label: string
+  date: string
+  startTime: string
+  endTime: string
+  cutoffTime: string
+  remaining: number
+  isFull: boolean
+}
+
+interface DeliverySlotPickerProps {
+  value: number | null
+  onChange: (slot: DeliverySlotOption | null) => void
+  area: { region?: string; district?: string; ward?: string }
+  items: Array<{ productId: number; quantity: number; variantName?: string | null }>
+}
+
+/**
+ * Same-day delivery window for shipping orders. Shown only where slots deliver; the buyer can always
+ * keep standard delivery, and slots that are full are shown but cannot be chosen.
+ */
+export function DeliverySlotPicker({ value, onChange, area, items }: DeliverySlotPickerProps) {
+  const { themeClasses } = useTheme()
+  const t = useTranslation()
+  const [covered, setCovered] = useState(false)
+  const [ineligibleReason, setIneligibleReason] = useState<string | null>(null)
+  const [slots, setSlots] = useState<DeliverySlotOption[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Refetch when the address or the cart changes, not on every render of the items array
+  const itemsKey = JSON.stringify(items)
+
+  useEffect(() => {
+    let cancelled = false
+    if (!area.region) {
+      setCovered(false)
+      setSlots([])
+      return
+    }
+    const fetchSlots = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch("/api/delivery-slots", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ region: area.region, district: area.district, ward: area.ward, items })
+        })
+        const data = await response.json().catch(() => ({}))
+        if (cancelled) return
+        const ok = response.ok && data.success
+        setCovered(ok && data.covered === true)
+        setIneligibleReason(ok && data.eligibility && !data.eligibility.eligible ? data.eligibility.reason : null)
+        setSlots(ok && Array.isArray(data.slots) ? data.slots : [])
+      } catch {
+        if (!cancelled) {
+          setCovered(false)
+          setSlots([])
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+    fetchSlots()
+    return () => {
+      cancelled = true
+    }
+    // items is tracked through itemsKey
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [area.region, area.district, area.ward, itemsKey])
+
+  // A slot that closed, filled up or stopped covering the address drops the choice
+  useEffect(() => {
+    if (value === null || isLoading) return
+    const selected = slots.find(slot => slot.id === value)
+    if (!selected || selected.isFull) onChange(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [slots, value, isLoading])
+
+  if (!covered && !isLoading) return null
+
+  const optionClass = (isSelected: boolean, disabled = false) => cn(
+    "w-full text-left rounded-lg border-2 p-3 transition-colors",
+    isSelected ? "border-blue-500 bg-blue-50 dark:bg-blue-950/20" : "border-gray-200 dark:border-gray-700",
+    disabled ? "opacity-50 cursor-not-allowed" : !isSelected && "hover:border-gray-300"
+  )
+
+  return (
+    <div className={cn("space-y-3 rounded-lg border p-3 sm:p-4", themeClasses.cardBorder)}>
+      <div>
+        <h3 className={cn("font-semibold text-sm sm:text-base", themeClasses.mainText)}>{t("checkout.deliverySlotTitle")}</h3>
+        <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>{t("checkout.deliverySlotSubtitle")}</p>
+      </div>
+
+      {isLoading ? (
+        <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>{t("checkout.deliverySlotLoading")}</p>
+      ) : ineligibleReason ? (
+        <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>
+          {ineligibleReason === "out_of_stock" ? t("checkout.deliverySlotOutOfStock") : t("checkout.deliverySlotNotEligible")}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <button type="button" onClick={() => onChange(null)} className={optionClass(value === null)}>
+            <p className={cn("font-medium text-sm flex items-center gap-1.5", themeClasses.mainText)}>
+              <Truck className="w-4 h-4 flex-shrink-0" />
+              {t("checkout.deliverySlotStandard")}
+            </p>
+            <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>{t("checkout.deliverySlotStandardHint")}</p>
+          </button>
+          {slots.map((slot) => (
+            <button
+              key={slot.id}
+              type="button"
+              disabled={slot.isFull}
+              onClick={() => onChange(slot)}
+              className={optionClass(slot.id === value, slot.isFull)}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className={cn("font-medium text-sm flex items-center gap-1.5", themeClasses.mainText)}>
+                  <Clock className="w-4 h-4 flex-shrink-0" />
+                  {slot.name} {slot.startTime}-{slot.endTime}
+                </p>
+                <span
+                  className={cn(
+                    "text-[10px] sm:text-xs font-medium whitespace-nowrap",
+                    slot.isFull ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+                  )}
+                >
+                  {slot.isFull ? t("checkout.deliverySlotFull") : `${slot.remaining} ${t("checkout.deliverySlotLeft")}`}
+                </span>
+              </div>
+              <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+                {t("checkout.deliverySlotOrderBy")} {slot.cutoffTime}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!isLoading && !ineligibleReason && slots.length === 0 && (
+        <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>{t("checkout.deliverySlotNoneLeft")}</p>
+      )}
+    </div>
+  )
+}
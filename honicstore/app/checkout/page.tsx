@@ -35,7 +35,7 @@ import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
 import { cn } from "@/lib/utils"
 import { useTheme } from "@/hooks/use-theme"
-import { useCart } from "@/hooks/use-cart"
+import { useCart, SelectedVariant } from "@/hooks/use-cart"
 import { useAuth } from "@/contexts/auth-context"
 import { useCompanyContext } from "@/components/company-provider"
 import { useGlobalAuthModal } from "@/contexts/global-auth-modal"
@@ -45,6 +45,7 @@ import { useToast } from "@/hooks/use-toast"
 import { validateTanzaniaPhone, validateEmail } from "@/lib/phone-validation"
 import { TANZANIA_REGIONS, DISTRICTS_BY_REGION, getWardOptions } from "@/lib/tanzania-address"
 import { CheckoutPageSkeleton } from "@/components/ui/skeleton"
+import { WalletCouponPicker, AppliedWalletCoupon } from "@/components/wallet-coupon-picker"
 import { 
   getSiteUrl, 
   buildReturnUrl, 
@@ -56,7 +57,10 @@ import {
 } from "@/lib/checkout-utils"
 import { getClientShippingPricing, shouldDeferShippingFeeDisplay } from "@/lib/shipping-calculator"
 import { useTranslation } from "@/hooks/use-translation"
+import { trackProductEvent } from "@/hooks/use-product-tracking"
 import { CheckoutLanguageToggle } from "@/components/checkout-language-toggle"
+import { PickupPointPicker } from "./pickup-point-picker"
+import { DeliverySlotPicker } from "./delivery-slot-picker"
 
 interface ShippingAddress {
   fullName: string
@@ -165,6 +169,14 @@ function CheckoutPageContent() {
   const selectedSubtotal = selectedItems.reduce((sum, item) => sum + item.totalPrice, 0)
   const orderReviewItemCount = selectedItems.flatMap(i => i.variants || []).length || selectedItems.length
 
+  // Checkout started, once per product per session, for supplier analytics
+  const checkoutProductKey = selectedItems.map(item => item.productId).join(',')
+  useEffect(() => {
+    if (checkoutProductKey) {
+      trackProductEvent('checkout_start', checkoutProductKey.split(','))
+    }
+  }, [checkoutProductKey])
+
   // Same as cart page - for qty input width
   const getDesktopQuantityInputWidth = (qty: number) => {
     const n = String(qty).length
@@ -186,6 +198,10 @@ function CheckoutPageContent() {
   const [orderPickupId, setOrderPickupId] = useState<string | null>(null)
   const [paymentStatus, setPaymentStatus] = useState<string | null>(null)
   const [deliveryOption, setDeliveryOption] = useState<'shipping' | 'pickup'>('shipping')
+  const [pickupPointId, setPickupPointId] = useState<number | null>(null)
+  const [pickupPointCount, setPickupPointCount] = useState(0)
+  // Same-day delivery window; null keeps standard delivery
+  const [deliverySlotId, setDeliverySlotId] = useState<number | null>(null)
   // Location coords when structured address is forward-geocoded (optional on order payload)
   const [locationCoords, setLocationCoords] = useState<{ lat: number; lon: number } | null>(null)
 
@@ -243,6 +259,14 @@ function CheckoutPageContent() {
     shippingBase?: number
     shippingDistanceAddon?: number
     shippingGeocoded?: boolean
+    // One entry per supplier shipment; shipping is their sum
+    shipments?: Array<{
+      supplierName: string | null
+      origin: string | null
+      itemCount: number
+      billableWeightKg: number | null
+      fee: number
+    }>
   } | null>(null)
   const [shippingEstimateLoading, setShippingEstimateLoading] = useState(false)
 
@@ -268,6 +292,29 @@ function CheckoutPageContent() {
   const shippingFee = displayShipping
   const shippingFeeLineLoading = deferShippingFeeDisplay ? false : shippingEstimateLoading
   const shippingFeeIsPromoZero = !deferShippingFeeDisplay && !shippingFeeLineLoading && shippingFee === 0
+  const shipmentBreakdown =
+    deliveryOption === 'shipping' && !deferShippingFeeDisplay && !shippingFeeLineLoading
+      ? shippingEstimate?.shipments ?? []
+      : []
+
+  const renderShipmentBreakdown = () =>
+    shipmentBreakdown.length > 0 && (
+      <div className="space-y-1 pl-3 border-l-2 border-neutral-200 dark:border-neutral-600">
+        {shipmentBreakdown.map((shipment, index) => (
+          <div key={index} className="flex justify-between items-baseline gap-2">
+            <span className={cn("text-xs min-w-0", themeClasses.textNeutralSecondary)}>
+              {shipment.supplierName || t('checkout.shipmentFromStore')}
+              {shipment.origin ? ` (${shipment.origin})` : ''}
+              {' · '}{shipment.itemCount} {t('checkout.shipmentItemsLabel')}
+              {shipment.billableWeightKg ? ` · ${shipment.billableWeightKg} kg` : ''}
+            </span>
+            <span className={cn("text-xs tabular-nums flex-shrink-0", shipment.fee === 0 ? "text-green-600 dark:text-green-400" : themeClasses.mainText)}>
+              {shipment.fee === 0 ? t('checkout.free') : formatPrice(shipment.fee)}
+            </span>
+          </div>
+        ))}
+      </div>
+    )
   
   // Get applied promotion from sessionStorage
   const [appliedPromotion, setAppliedPromotion] = useState<{
@@ -291,6 +338,54 @@ function CheckoutPageContent() {
     } catch {}
   }, [])
 
+  // Wallet coupons go into the same slot as a code typed on the cart page
+  const applyWalletCoupon = (coupon: AppliedWalletCoupon) => {
+    safeSessionStorage.setItem('applied_promotion', JSON.stringify({
+      code: coupon.code,
+      discountAmount: coupon.discountAmount
+    }))
+    setAppliedPromotion(coupon)
+  }
+
+  const walletCouponCartItems = selectedItems.flatMap(item =>
+    item.variants.map((variant: SelectedVariant) => ({
+      productId: item.productId,
+      variantId: variant.variantId ?? null,
+      price: variant.price,
+      quantity: variant.quantity || 1
+    }))
+  )
+
+  // Coin reward chosen on the Coins page; only signed-in buyers can spend coins
+  const [appliedCoinReward, setAppliedCoinReward] = useState<{
+    coins: number
+    discountAmount: number
+  } | null>(null)
+
+  useEffect(() => {
+    if (!user) {
+      setAppliedCoinReward(null)
+      return
+    }
+    try {
+      const rewardData = safeSessionStorage.getItem('applied_coin_reward')
+      if (rewardData) {
+        const parsed = JSON.parse(rewardData)
+        if (parsed && typeof parsed === 'object' &&
+            Number.isInteger(parsed.coins) && parsed.coins > 0 &&
+            typeof parsed.discountAmount === 'number' &&
+            parsed.discountAmount >= 0) {
+          setAppliedCoinReward(parsed)
+        }
+      }
+    } catch {}
+  }, [user])
+
+  const removeCoinReward = () => {
+    safeSessionStorage.removeItem('applied_coin_reward')
+    setAppliedCoinReward(null)
+  }
+
   // Stable key for shipping estimate so we only refetch when cart/location/delivery actually change
   const shippingEstimateKey = (() => {
     const items = selectedItems.flatMap((item) =>
@@ -381,6 +476,15 @@ function CheckoutPageContent() {
           shippingDistanceAddon:
             typeof data.shippingDistanceAddon === 'number' ? data.shippingDistanceAddon : undefined,
           shippingGeocoded: typeof data.shippingGeocoded === 'boolean' ? data.shippingGeocoded : undefined,
+          shipments: Array.isArray(data.shipments)
+            ? data.shipments.map((shipment: any) => ({
+                supplierName: shipment.supplierName ?? null,
+                origin: shipment.origin ?? null,
+                itemCount: Number(shipment.itemCount) || 0,
+                billableWeightKg: typeof shipment.billableWeightKg === 'number' ? shipment.billableWeightKg : null,
+                fee: Number(shipment.fee) || 0,
+              }))
+            : undefined,
         })
       })
       .catch(() => {
@@ -395,7 +499,8 @@ function CheckoutPageContent() {
   }, [shippingEstimateKey])
 
   const promotionDiscount = appliedPromotion ? appliedPromotion.discountAmount : 0
-  const orderTotal = displaySubtotal + displayShipping - promotionDiscount
+  const coinDiscount = appliedCoinReward ? appliedCoinReward.discountAmount : 0
+  const orderTotal = displaySubtotal + displayShipping - promotionDiscount - coinDiscount
 
   // Timeout for payment processing (increased to 60 seconds for slower networks)
   useEffect(() => {
@@ -680,7 +785,7 @@ function CheckoutPageContent() {
       } catch {
         // use fallbacks above
       }
-      const serverTotalAmount = Math.round(serverSubtotal + serverShippingFee - promotionDiscount)
+      const serverTotalAmount = Math.round(serverSubtotal + serverShippingFee - promotionDiscount - coinDiscount)
 
       const orderData = {
         orderNumber: orderId,
@@ -710,9 +815,12 @@ function CheckoutPageContent() {
         },
         billingAddress: formData.sameAsShipping ? formData.shippingAddress : formData.billingAddress,
         deliveryOption,
+        pickupPointId: deliveryOption === 'pickup' ? pickupPointId : null,
+        deliverySlotId: deliveryOption === 'shipping' ? deliverySlotId : null,
         shippingFee: serverShippingFee,
         promotionCode: appliedPromotion?.code || null,
         promotionDiscount: promotionDiscount,
+        coinsToRedeem: appliedCoinReward?.coins || 0,
         totalAmount: serverTotalAmount,
         timestamp: new Date().toISOString(),
       }
@@ -966,6 +1074,10 @@ function CheckoutPageContent() {
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
+        // The balance changed since the reward was picked; drop it so the next attempt goes through
+        if (errorData.code === 'COIN_REDEMPTION_FAILED') {
+          removeCoinReward()
+        }
         const errorMessage = getSecureErrorMessage(
           errorData.error || new Error('Order submission failed'),
           'Failed to submit order. Please try again.'
@@ -993,6 +1105,11 @@ function CheckoutPageContent() {
       setValidationErrors({ deliveryOption: t('checkout.errSelectDeliveryOption') })
       return false
     }
+    // Pickup orders name a point once the network has any; before that they go to the Honic store
+    if (deliveryOption === 'pickup' && pickupPointCount > 0 && !pickupPointId) {
+      setValidationErrors({ pickupPoint: t('checkout.errSelectPickupPoint') })
+      return false
+    }
     return true
   }
 
@@ -1251,6 +1368,29 @@ function CheckoutPageContent() {
                   </div>
                 </div>
               </div>
+
+              {deliveryOption === 'pickup' && (
+                <PickupPointPicker
+                  value={pickupPointId}
+                  onChange={(point) => {
+                    setPickupPointId(point ? point.id : null)
+                    if (point && validationErrors.pickupPoint) {
+                      setValidationErrors(prev => {
+                        const newErrors = { ...prev }
+                        delete newErrors.pickupPoint
+                        return newErrors
+                      })
+                    }
+                  }}
+                  onPointsLoaded={setPickupPointCount}
+                  initialArea={{
+                    region: formData.billingAddress.region || formData.shippingAddress.region,
+                    district: formData.billingAddress.district || formData.shippingAddress.district,
+                    ward: formData.billingAddress.ward || formData.shippingAddress.ward
+                  }}
+                  error={validationErrors.pickupPoint}
+                />
+              )}
             </CardContent>
           </Card>
         )
@@ -1576,6 +1716,25 @@ function CheckoutPageContent() {
                     className={cn(darkHeaderFooterClasses.inputBg, darkHeaderFooterClasses.inputBorder, darkHeaderFooterClasses.textNeutralPrimary, darkHeaderFooterClasses.inputPlaceholder)}
                   />
                 </div>
+
+                {formData.shippingAddress.country === 'Tanzania' && (
+                  <DeliverySlotPicker
+                    value={deliverySlotId}
+                    onChange={(slot) => setDeliverySlotId(slot ? slot.id : null)}
+                    area={{
+                      region: formData.shippingAddress.region,
+                      district: formData.shippingAddress.district,
+                      ward: formData.shippingAddress.ward
+                    }}
+                    items={selectedItems.flatMap(item =>
+                      (item.variants || []).map((variant: any) => ({
+                        productId: Number(item.productId),
+                        quantity: Number(variant.quantity) || 1,
+                        variantName: variant.variant_name || null
+                      }))
+                    )}
+                  />
+                )}
             </CardContent>
           </Card>
         )
@@ -2276,6 +2435,17 @@ function CheckoutPageContent() {
                       <span className="text-base font-semibold text-green-600 dark:text-green-400 tabular-nums">-{formatPrice(promotionDiscount)}</span>
                     </div>
                   )}
+                  {coinDiscount > 0 && (
+                    <div className="flex justify-between items-baseline gap-2">
+                      <span className="text-sm font-medium text-green-600 dark:text-green-400">
+                        Coins ({appliedCoinReward?.coins}):
+                        <button type="button" onClick={removeCoinReward} className="ml-2 text-xs underline">
+                          Remove
+                        </button>
+                      </span>
+                      <span className="text-base font-semibold text-green-600 dark:text-green-400 tabular-nums">-{formatPrice(coinDiscount)}</span>
+                    </div>
+                  )}
                   {(deliveryOption as string) === 'shipping' && (
                     <div className="flex justify-between items-baseline gap-2">
                       <span className={cn("text-sm font-medium", themeClasses.textNeutralSecondary)}>{t('checkout.shippingSummaryLabel')}</span>
@@ -2284,6 +2454,7 @@ function CheckoutPageContent() {
                       </span>
                     </div>
                   )}
+                  {renderShipmentBreakdown()}
                   <div className="border-t border-neutral-200 dark:border-neutral-600 pt-3 mt-1">
                     <div className="flex justify-between items-baseline gap-2">
                       <span className={cn("text-base font-bold", themeClasses.mainText)}>{t('cart.totalHeading')}</span>
@@ -2308,6 +2479,14 @@ function CheckoutPageContent() {
                     </div>
                   </div>
                 )}
+                {user && !appliedPromotion && (
+                  <WalletCouponPicker
+                    subtotal={displaySubtotal}
+                    cartItems={walletCouponCartItems}
+                    formatPrice={formatPrice}
+                    onApply={applyWalletCoupon}
+                  />
+                )}
 
             </CardContent>
           </Card>
@@ -2571,12 +2750,24 @@ function CheckoutPageContent() {
                       <span className="text-base font-semibold text-green-600 dark:text-green-400 tabular-nums">-{formatPrice(promotionDiscount)}</span>
                     </div>
                   )}
+                  {coinDiscount > 0 && (
+                    <div className="flex justify-between items-baseline gap-2">
+                      <span className="text-sm font-medium text-green-600 dark:text-green-400">
+                        Coins ({appliedCoinReward?.coins}):
+                        <button type="button" onClick={removeCoinReward} className="ml-2 text-xs underline">
+                          Remove
+                        </button>
+                      </span>
+                      <span className="text-base font-semibold text-green-600 dark:text-green-400 tabular-nums">-{formatPrice(coinDiscount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-baseline gap-2">
                     <span className={cn("text-sm font-medium", themeClasses.textNeutralSecondary)}>{t('checkout.shippingSummaryLabel')}</span>
                     <span className={cn("text-base font-semibold tabular-nums", shippingFeeIsPromoZero ? "text-green-600 dark:text-green-400" : themeClasses.mainText)}>
                       {shippingFeeLineLoading ? '…' : (deferShippingFeeDisplay ? formatPrice(0) : (shippingFee === 0 ? t('checkout.free') : formatPrice(shippingFee)))}
                     </span>
                   </div>
+                  {renderShipmentBreakdown()}
                   <div className="border-t border-neutral-200 dark:border-neutral-600 pt-3 mt-1">
                     <div className="flex justify-between items-baseline gap-2">
                       <span className={cn("text-base font-bold", themeClasses.mainText)}>{t('cart.totalHeading')}</span>
@@ -2601,6 +2792,14 @@ function CheckoutPageContent() {
                     </div>
                   </div>
                 )}
+                {user && !appliedPromotion && (
+                  <WalletCouponPicker
+                    subtotal={displaySubtotal}
+                    cartItems={walletCouponCartItems}
+                    formatPrice={formatPrice}
+                    onApply={applyWalletCoupon}
+                  />
+                )}
 
                 {/* Shipping Address */}
                 <div className="space-y-3 sm:space-y-4">
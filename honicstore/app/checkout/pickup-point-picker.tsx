@@ -0,0 +1,210 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Clock, MapPin, Phone } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useTheme } from "@/hooks/use-theme"
+import { useTranslation } from "@/hooks/use-translation"
+import { TANZANIA_REGIONS, DISTRICTS_BY_REGION, getWardOptions } from "@/lib/tanzania-address"
+
+// One entry from GET /api/pickup-points
+export interface PickupPointOption {
+  id: number
+  name: string
+  region: string
+  district: string | null
+  ward: string | null
+  address: string
+  phone: string | null
+  hours: string
+  openNow: boolean
+  instructions: string | null
+  remainingToday: number
+  isFull: boolean
+  distanceKm: number | null
+}
+
+interface PickupPointPickerProps {
+  value: number | null
+  onChange: (point: PickupPointOption | null) => void
+  // Reports how many points the network has for this area, so checkout only insists on a choice when there is one to make
+  onPointsLoaded?: (count: number) => void
+  // Starting area, e.g. the buyer's saved address
+  initialArea?: { region?: string; district?: string; ward?: string }
+  error?: string
+}
+
+/**
+ * Pickup point choice for store pickup orders. Points in the buyer's ward come first, then district,
+ * then region; points that are full today are shown but cannot be chosen.
+ */
+export function PickupPointPicker({ value, onChange, onPointsLoaded, initialArea, error }: PickupPointPickerProps) {
+  const { themeClasses } = useTheme()
+  const t = useTranslation()
+  const [area, setArea] = useState({
+    region: initialArea?.region || "",
+    district: initialArea?.district || "",
+    ward: initialArea?.ward || ""
+  })
+  const [points, setPoints] = useState<PickupPointOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchPoints = async () => {
+      try {
+        setIsLoading(true)
+        const params = new URLSearchParams()
+        if (area.region) params.set("region", area.region)
+        if (area.district) params.set("district", area.district)
+        if (area.ward) params.set("ward", area.ward)
+        const response = await fetch(`/api/pickup-points?${params.toString()}`)
+        const data = await response.json().catch(() => ({}))
+        if (cancelled) return
+        const loaded: PickupPointOption[] = response.ok && Array.isArray(data.points) ? data.points : []
+        setPoints(loaded)
+        onPointsLoaded?.(loaded.length)
+      } catch {
+        if (!cancelled) {
+          setPoints([])
+          onPointsLoaded?.(0)
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+    fetchPoints()
+    return () => {
+      cancelled = true
+    }
+    // onPointsLoaded is a setter from the checkout page
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [area.region, area.district, area.ward])
+
+  // A point that filled up since it was chosen drops the choice
+  useEffect(() => {
+    if (value === null || isLoading) return
+    const selected = points.find(point => point.id === value)
+    if (selected?.isFull) onChange(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [points, value, isLoading])
+
+  const districts = area.region ? DISTRICTS_BY_REGION[area.region] ?? [] : []
+  const wards = area.district ? getWardOptions(area.district) : []
+  const selectClass = cn(
+    "w-full min-h-10 px-3 py-2 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500",
+    themeClasses.cardBg,
+    themeClasses.cardBorder,
+    themeClasses.mainText
+  )
+
+  return (
+    <div className={cn("mt-4 space-y-3 rounded-lg border p-3 sm:p-4", themeClasses.cardBorder, error ? "border-red-500" : "")}>
+      <div>
+        <h3 className={cn("font-semibold text-sm sm:text-base", themeClasses.mainText)}>{t("checkout.pickupPointTitle")}</h3>
+        <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>{t("checkout.pickupPointSubtitle")}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <select
+          aria-label={t("checkout.selectRegion")}
+          value={area.region}
+          onChange={(e) => setArea({ region: e.target.value, district: "", ward: "" })}
+          className={selectClass}
+        >
+          <option value="">{t("checkout.selectRegion")}</option>
+          {TANZANIA_REGIONS.map((r) => (
+            <option key={r} value={r}>{r}</option>
+          ))}
+        </select>
+        <select
+          aria-label={t("checkout.selectDistrict")}
+          value={area.district}
+          onChange={(e) => setArea(prev => ({ ...prev, district: e.target.value, ward: "" }))}
+          disabled={districts.length === 0}
+          className={selectClass}
+        >
+          <option value="">{t("checkout.selectDistrict")}</option>
+          {districts.map((d) => (
+            <option key={d} value={d}>{d}</option>
+          ))}
+        </select>
+        <select
+          aria-label={t("checkout.selectWard")}
+          value={area.ward}
+          onChange={(e) => setArea(prev => ({ ...prev, ward: e.target.value }))}
+          disabled={wards.length === 0}
+          className={selectClass}
+        >
+          <option value="">{t("checkout.selectWard")}</option>
+          {wards.map((w) => (
+            <option key={w} value={w}>{w}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>{t("checkout.pickupPointLoading")}</p>
+      ) : points.length === 0 ? (
+        <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>{t("checkout.pickupPointNone")}</p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {points.map((point) => {
+            const isSelected = point.id === value
+            return (
+              <button
+                key={point.id}
+                type="button"
+                disabled={point.isFull}
+                onClick={() => onChange(point)}
+                className={cn(
+                  "w-full text-left rounded-lg border-2 p-3 transition-colors",
+                  isSelected ? "border-blue-500 bg-blue-50 dark:bg-blue-950/20" : "border-gray-200 dark:border-gray-700",
+                  point.isFull ? "opacity-50 cursor-not-allowed" : !isSelected && "hover:border-gray-300"
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className={cn("font-medium text-sm", themeClasses.mainText)}>{point.name}</p>
+                  <span
+                    className={cn(
+                      "text-[10px] sm:text-xs font-medium whitespace-nowrap",
+                      point.isFull ? "text-red-600 dark:text-red-400" : point.openNow ? "text-green-600 dark:text-green-400" : themeClasses.textNeutralSecondary
+                    )}
+                  >
+                    {point.isFull ? t("checkout.pickupPointFull") : point.openNow ? t("checkout.pickupPointOpenNow") : t("checkout.pickupPointClosedNow")}
+                  </span>
+                </div>
+                <div className={cn("mt-1 space-y-0.5 text-xs", themeClasses.textNeutralSecondary)}>
+                  <p className="flex items-start gap-1.5">
+                    <MapPin className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {[point.address, point.ward, point.district, point.region].filter(Boolean).join(", ")}
+                      {point.distanceKm !== null && ` · ${point.distanceKm.toFixed(1)} ${t("checkout.pickupPointKmAway")}`}
+                    </span>
+                  </p>
+                  {point.hours && (
+                    <p className="flex items-start gap-1.5">
+                      <Clock className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>{point.hours}</span>
+                    </p>
+                  )}
+                  {point.phone && (
+                    <p className="flex items-start gap-1.5">
+                      <Phone className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>{point.phone}</span>
+                    </p>
+                  )}
+                  {!point.isFull && (
+                    <p>{point.remainingToday} {t("checkout.pickupPointSlotsLeft")}</p>
+                  )}
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -71,6 +71,7 @@ import {
   Sparkles,
   Compass,
   UserPlus,
+  FileText,
 } from "lucide-react"
 
 import { Input } from "@/components/ui/input"
@@ -114,6 +115,7 @@ import { useCurrency } from "@/contexts/currency-context"
 import { useAuth } from "@/contexts/auth-context"
 import { useGlobalAuthModal } from "@/contexts/global-auth-modal"
 import { UserProfile } from "@/components/user-profile"
+import { QuoteRequestDialog } from "@/components/quote-request-dialog"
 
 // Category icons mapping - simplified
 
@@ -185,6 +187,7 @@ function ChinaPageContent() {
   const isUsingFallbackLogo = !companyLoaded || !companyLogo || companyLogo === fallbackLogo
   const { user, isAuthenticated } = useAuth() // Add auth context
   const { openAuthModal } = useGlobalAuthModal() // Add auth modal
+  const [isQuoteDialogOpen, setIsQuoteDialogOpen] = useState(false)
   const { currency, setCurrency, formatPrice } = useCurrency() // Use global currency context
   const { navigateWithPrefetch } = useOptimizedNavigation() // Optimized navigation
   const [searchTerm, setSearchTerm] = useState("")
@@ -2690,9 +2693,25 @@ function ChinaPageContent() {
                 promotionalTexts[currentPromoIndex]
               )}
             </h2>
+            {/* Bulk and custom orders go out as a request for quotation */}
+            <button
+              type="button"
+              onClick={() => (user ? setIsQuoteDialogOpen(true) : openAuthModal('login'))}
+              className={cn("inline-flex items-center gap-1 text-xs sm:text-sm hover:underline", themeClasses.textNeutralSecondary)}
+            >
+              <FileText className="w-3.5 h-3.5" />
+              Buying in bulk or need something not listed? <span className="font-semibold text-blue-500 dark:text-blue-400">Request a quote</span>
+            </button>
           </div>
         </div>
 
+        <QuoteRequestDialog
+          open={isQuoteDialogOpen}
+          onOpenChange={setIsQuoteDialogOpen}
+          source="china_import"
+          defaultCategory={selectedMainName || undefined}
+        />
+
         {/* Loading State */}
         {isLoading && (
           <ProductGridSkeleton count={24} />
@@ -79,6 +79,7 @@ import { Switch } from '@/components/ui/switch'
 import { Moon, Sun } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
+import { TrackedAd } from '@/components/tracked-ad'
 
 // Helper function to detect if a file is a video
 const isVideoFile = (url: string): boolean => {
@@ -807,19 +808,21 @@ export default function LandingPage() {
           {ads && ads.length > 0 && (
             <div className="grid grid-cols-1 gap-3 sm:gap-4 md:grid-cols-3 mb-4 sm:mb-6">
               {ads.slice(0,3).map((ad: any, i: number) => (
-                <OptimizedLink key={i} href={ad.link || '/products'} className="block group" target="_blank" rel="noopener noreferrer">
-                  <div className="relative overflow-hidden rounded-xl border border-white/10 bg-gray-800/80 shadow-lg shadow-black/20 transition-all duration-300 hover:border-amber-500/30 hover:shadow-xl hover:shadow-amber-900/10 hover:-translate-y-0.5">
-                    {ad.image ? (
-                      <img src={ad.image} alt={ad.title || 'Advertisement'} className="w-full h-36 object-cover transition-transform duration-500 group-hover:scale-[1.04]" />
-                    ) : (
-                      <div className="h-36 flex items-center justify-center text-sm text-gray-500 bg-gray-800">Advertisement</div>
-                    )}
-                    <div className="p-4 border-t border-white/5">
-                      <h3 className="text-sm font-semibold text-white">{ad.title || 'Promo'}</h3>
-                      {ad.subtitle && <p className="text-xs text-gray-400 mt-1 line-clamp-2">{ad.subtitle}</p>}
+                <TrackedAd key={ad.id ?? i} adId={ad.id} placement="home">
+                  <OptimizedLink href={ad.link || '/products'} className="block group" target="_blank" rel="noopener noreferrer">
+                    <div className="relative overflow-hidden rounded-xl border border-white/10 bg-gray-800/80 shadow-lg shadow-black/20 transition-all duration-300 hover:border-amber-500/30 hover:shadow-xl hover:shadow-amber-900/10 hover:-translate-y-0.5">
+                      {ad.image ? (
+                        <img src={ad.image} alt={ad.title || 'Advertisement'} className="w-full h-36 object-cover transition-transform duration-500 group-hover:scale-[1.04]" />
+                      ) : (
+                        <div className="h-36 flex items-center justify-center text-sm text-gray-500 bg-gray-800">Advertisement</div>
+                      )}
+                      <div className="p-4 border-t border-white/5">
+                        <h3 className="text-sm font-semibold text-white">{ad.title || 'Promo'}</h3>
+                        {ad.subtitle && <p className="text-xs text-gray-400 mt-1 line-clamp-2">{ad.subtitle}</p>}
+                      </div>
                     </div>
-                  </div>
-                </OptimizedLink>
+                  </OptimizedLink>
+                </TrackedAd>
               ))}
             </div>
           )}
@@ -0,0 +1,256 @@
+'use client'
+
+import { Suspense, useCallback, useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Camera, CheckCircle, Package, ScanLine } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ProtectedRoute } from '@/components/protected-route'
+import { useToast } from '@/hooks/use-toast'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+
+interface Handover {
+  orderNumber: string
+  pickupId: string
+  pickupPointName: string | null
+  customerName: string | null
+  readyAt: string | null
+  pickedUpAt: string | null
+  items: Array<{ id: string; productName: string; variantName: string | null; quantity: number; status: string }>
+}
+
+// Chromium's built-in QR reader; elsewhere staff type the pickup ID or scan with the phone camera app
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike
+  }
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  confirmed: 'Not shipped',
+  shipped: 'In transit',
+  delivered: 'At pickup point',
+  picked_up: 'Collected',
+  cancelled: 'Cancelled'
+}
+
+function PickupDeskContent() {
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const [code, setCode] = useState(searchParams.get('code') || '')
+  const [handover, setHandover] = useState<Handover | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [confirming, setConfirming] = useState(false)
+  const [scanning, setScanning] = useState(false)
+  const [canScan, setCanScan] = useState(false)
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  const lookUp = useCallback(async (value: string) => {
+    if (!value.trim()) return
+    let response: Response | null = null
+    let data: any = {}
+    try {
+      setLoading(true)
+      setHandover(null)
+      response = await fetch(`/api/pickup-handover?code=${encodeURIComponent(value.trim())}`, { credentials: 'include' })
+      data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Unable to find the order')
+      setHandover(data.handover)
+    } catch (error) {
+      toast({
+        title: 'Order not found',
+        description: response && response.status < 500 && data.error
+          ? data.error
+          : getFriendlyErrorMessage(error, 'Unable to look up the order. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    setCanScan(!!window.BarcodeDetector && !!navigator.mediaDevices)
+  }, [])
+
+  // Opened from the buyer's QR with a camera app
+  useEffect(() => {
+    const initial = searchParams.get('code')
+    if (initial) lookUp(initial)
+  }, [searchParams, lookUp])
+
+  useEffect(() => {
+    if (!scanning) return
+    const Detector = window.BarcodeDetector
+    if (!Detector) return
+
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setInterval> | null = null
+    let stopped = false
+    const detector = new Detector({ formats: ['qr_code'] })
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (media) => {
+        stream = media
+        if (stopped || !videoRef.current) return
+        videoRef.current.srcObject = media
+        await videoRef.current.play()
+        timer = setInterval(async () => {
+          if (!videoRef.current) return
+          const codes = await detector.detect(videoRef.current).catch(() => [])
+          if (codes.length > 0 && !stopped) {
+            stopped = true
+            setScanning(false)
+            setCode(codes[0].rawValue)
+            lookUp(codes[0].rawValue)
+          }
+        }, 400)
+      })
+      .catch(() => {
+        setScanning(false)
+        toast({ title: 'Camera unavailable', description: 'Allow camera access or type the pickup ID', variant: 'destructive' })
+      })
+
+    return () => {
+      stopped = true
+      if (timer) clearInterval(timer)
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [scanning, lookUp, toast])
+
+  const handleConfirm = async () => {
+    if (!handover) return
+    let response: Response | null = null
+    let data: any = {}
+    try {
+      setConfirming(true)
+      response = await fetch('/api/pickup-handover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ code: handover.pickupId })
+      })
+      data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Unable to confirm handover')
+      setHandover(data.handover)
+      toast({ title: 'Handover confirmed', description: data.message })
+    } catch (error) {
+      toast({
+        title: 'Handover not confirmed',
+        description: response && response.status < 500 && data.error
+          ? data.error
+          : getFriendlyErrorMessage(error, 'Unable to confirm handover. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setConfirming(false)
+    }
+  }
+
+  const readyItems = handover?.items.filter(item => item.status === 'delivered') || []
+
+  return (
+    <div className="container max-w-xl mx-auto px-4 py-6 sm:py-10 space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold">Pickup Desk</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Scan the buyer&apos;s pickup QR or type their pickup ID, check the parcel and confirm the handover.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              lookUp(code)
+            }}
+          >
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Pickup ID, e.g. 20261018-143000-AbC12xYz"
+              aria-label="Pickup ID"
+              className="font-mono"
+            />
+            <Button type="submit" disabled={loading || !code.trim()}>
+              {loading ? 'Finding...' : 'Find'}
+            </Button>
+          </form>
+          {canScan && (
+            <Button type="button" variant="outline" className="w-full" onClick={() => setScanning(prev => !prev)}>
+              {scanning ? <ScanLine className="w-4 h-4 mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+              {scanning ? 'Stop scanning' : 'Scan QR with camera'}
+            </Button>
+          )}
+          {scanning && (
+            <video ref={videoRef} className="w-full rounded-md bg-black aspect-square object-cover" muted playsInline />
+          )}
+        </CardContent>
+      </Card>
+
+      {handover && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center justify-between gap-2 text-base sm:text-lg">
+              <span className="flex items-center gap-2">
+                <Package className="w-5 h-5" />
+                Order {handover.orderNumber}
+              </span>
+              {handover.pickedUpAt && <Badge className="bg-green-100 text-green-800">Collected</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="text-sm space-y-1">
+              {handover.customerName && <p><span className="text-muted-foreground">Buyer:</span> {handover.customerName}</p>}
+              <p><span className="text-muted-foreground">Pickup point:</span> {handover.pickupPointName || 'Honic store'}</p>
+              {handover.readyAt && (
+                <p><span className="text-muted-foreground">Waiting since:</span> {new Date(handover.readyAt).toLocaleDateString()}</p>
+              )}
+            </div>
+
+            <ul className="divide-y rounded-md border">
+              {handover.items.map(item => (
+                <li key={item.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <span className="min-w-0">
+                    {item.productName}{item.variantName ? ` (${item.variantName})` : ''} × {item.quantity}
+                  </span>
+                  <Badge variant="outline" className="flex-shrink-0">{STATUS_LABELS[item.status] || item.status}</Badge>
+                </li>
+              ))}
+            </ul>
+
+            {readyItems.length > 0 ? (
+              <Button className="w-full" onClick={handleConfirm} disabled={confirming}>
+                <CheckCircle className="w-4 h-4 mr-2" />
+                {confirming ? 'Confirming...' : `Confirm handover of ${readyItems.length} item(s)`}
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">
+                {handover.pickedUpAt ? 'This order has been collected.' : 'Nothing is waiting at the pickup point for this order yet.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default function PickupDeskPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+        <PickupDeskContent />
+      </Suspense>
+    </ProtectedRoute>
+  )
+}
@@ -54,6 +54,7 @@ import {
   User,
   Coins,
   MessageSquare,
+  Flag,
   Ticket,
   Play,
     RotateCcw,
@@ -92,9 +93,12 @@ import { useToast } from "@/hooks/use-toast" // Import useToast hook
 import { checkProductStock } from "@/utils/stock-validation"
 import { getLeftBadge, getRightBadge } from '@/utils/product-badges'
 import { useProducts } from "@/hooks/use-products"
+import { getAnalyticsSessionId } from "@/hooks/use-product-tracking"
 import { useSharedDataCache } from "@/contexts/shared-data-cache"
 import { OptimizedLink, useOptimizedNavigation } from "@/components/optimized-link"
 import { type ProductVariant } from "@/hooks/use-products" // Import types from hook
+import { PriceTierTable } from "@/components/price-tier-table"
+import { QuoteRequestDialog } from "@/components/quote-request-dialog"
 import { useCart, formatVariantHierarchy } from "@/hooks/use-cart" // Import useCart hook
 import { useParams, useRouter, usePathname, useSearchParams } from "next/navigation"
 import { usePublicCompanyContext } from "@/contexts/public-company-context"
@@ -103,7 +107,7 @@ import { useAuth } from "@/contexts/auth-context"
 import { fetchJSON, fetchWithMetrics, fetchWithRetry, type FetchMetrics } from "@/lib/fetch-utils"
 import { useWishlist } from "@/hooks/use-wishlist"
 import { useSavedLater } from "@/hooks/use-saved-later"
-import { validateReviewComment, validateRating, sanitizeString } from "@/lib/input-validation"
+import { validateReviewComment, validateRating } from "@/lib/input-validation"
 import { validateProductResponse, sanitizeProductData, validateReviewResponse, sanitizeReviewData } from "@/lib/response-validation"
 import { useGlobalAuthModal } from "@/contexts/global-auth-modal"
 import { useCurrency } from "@/contexts/currency-context"
@@ -218,12 +222,28 @@ function ProductDetailPageContent() {
   const [reviews, setReviews] = useState<any[]>([])
   const [reviewsLoading, setReviewsLoading] = useState(false)
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false)
+  const [isQuoteDialogOpen, setIsQuoteDialogOpen] = useState(false)
   const [reviewFormData, setReviewFormData] = useState({
     rating: 0,
     comment: '',
     images: [] as string[]
   })
   const [submittingReview, setSubmittingReview] = useState(false)
+  const [reviewReportTarget, setReviewReportTarget] = useState<any | null>(null)
+  const [reviewReportReason, setReviewReportReason] = useState('')
+  const [reviewReportDetails, setReviewReportDetails] = useState('')
+  const [reportingReview, setReportingReview] = useState(false)
+
+  // Review endpoints authenticate with the Supabase access token
+  const getReviewAuthToken = useCallback(async (): Promise<string | null> => {
+    const { createClient } = await import('@supabase/supabase-js')
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    )
+    const { data: { session } } = await supabase.auth.getSession()
+    return session?.access_token || null
+  }, [])
   const { formatPrice, currency, setCurrency } = useCurrency()
   
   // Optimized API for product details with input validation
@@ -605,6 +625,7 @@ function ProductDetailPageContent() {
       headers: {
         'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ sessionId: getAnalyticsSessionId() }),
       retries: 2, // Retry twice for view tracking
       retryDelay: 500, // Shorter delay for view tracking
       exponentialBackoff: true
@@ -1590,6 +1611,8 @@ function ProductDetailPageContent() {
 
   const currentPrice = getCurrentPrice() || 0
   const currentOriginalPrice = selectedVariant?.originalPrice || product?.originalPrice || 0
+  // Variants carry their own bands, already scaled from the product's when they have none
+  const currentPriceTiers = (selectedVariant ? selectedVariant.priceTiers : product?.priceTiers) || []
   
   // No variant image matching needed - using simple variant system
   // Find matching variant image for the selected variant
@@ -1943,6 +1966,11 @@ function ProductDetailPageContent() {
     return true
   }
 
+  // Saved lists remember the chosen variant when it is a stored one
+  const savedVariantId = selectedVariant && Number.isInteger(Number(selectedVariant.id)) && Number(selectedVariant.id) > 0
+    ? Number(selectedVariant.id)
+    : null
+
   const handleAddToWishlist = async () => {
     if (!product?.id) return
     
@@ -1953,7 +1981,7 @@ function ProductDetailPageContent() {
         description: `${product.name} removed from your wishlist.`,
       })
     } else {
-      await addToWishlist(product.id)
+      await addToWishlist(product.id, { variantId: savedVariantId })
     toast({
       title: "Added to Wishlist!",
         description: `${product.name} added to your wishlist.`,
@@ -1971,7 +1999,7 @@ function ProductDetailPageContent() {
         description: `${product.name} removed from your saved items.`,
       })
     } else {
-      await addToSavedLater(product.id)
+      await addToSavedLater(product.id, savedVariantId)
       toast({
         title: "Saved for Later!",
         description: `${product.name} saved for later.`,
@@ -3033,6 +3061,15 @@ function ProductDetailPageContent() {
                         )}
                       </>
                     )}
+                    {product?.id && (
+                      <OptimizedLink
+                        href={`/account/messages?product=${product.id}`}
+                        className="text-xs text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1 ml-1"
+                      >
+                        <MessageSquare className="w-3 h-3" />
+                        <span>Message seller</span>
+                      </OptimizedLink>
+                    )}
                   </div>
                   {/* Rating and detail sentence section - Only show if supplier info exists */}
                   {(supplierInfo?.rating || supplierInfo?.reviewCount || supplierInfo?.detailSentence) && (
@@ -3554,6 +3591,32 @@ function ProductDetailPageContent() {
               </div>
             </div>
 
+            {currentPriceTiers.length > 1 && (
+              <PriceTierTable tiers={currentPriceTiers} quantity={quantity} className="mt-3 max-w-md" />
+            )}
+
+            {/* Quantities past the tiers are priced by the supplier on request */}
+            {product && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => (user ? setIsQuoteDialogOpen(true) : openAuthModal('login'))}
+                  className="mt-2 text-xs sm:text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Need a larger quantity? Request a bulk quote
+                </button>
+                <QuoteRequestDialog
+                  open={isQuoteDialogOpen}
+                  onOpenChange={setIsQuoteDialogOpen}
+                  source="product"
+                  productId={product.id}
+                  variantId={selectedVariant?.id ?? null}
+                  productName={product.name}
+                  defaultQuantity={Math.max(quantity, 10)}
+                />
+              </>
+            )}
+
             <div className={cn("flex flex-wrap items-center gap-2 sm:gap-4 text-xs sm:text-sm mt-2", themeClasses.textNeutralSecondary)}>
               {/* Dynamic Stock Status */}
               <div className="flex items-center gap-1">
@@ -4261,7 +4324,15 @@ function ProductDetailPageContent() {
                             )}
                           </div>
                           <div>
-                            <p className={cn("font-medium text-sm", themeClasses.mainText)}>{review.userName}</p>
+                            <div className="flex items-center gap-2">
+                              <p className={cn("font-medium text-sm", themeClasses.mainText)}>{review.userName}</p>
+                              {review.verifiedPurchase && (
+                                <span className="inline-flex items-center gap-1 text-[11px] font-medium text-green-600 dark:text-green-400">
+                                  <ShieldCheck className="w-3 h-3" />
+                                  Verified purchase
+                                </span>
+                              )}
+                            </div>
                             <div className="flex items-center gap-2 mt-1">
                               <div className="flex items-center gap-0.5">
                                 {Array.from({ length: 5 }).map((_, i) => (
@@ -4301,6 +4372,21 @@ function ProductDetailPageContent() {
                           ))}
                         </div>
                       )}
+                      {review.supplierReply && (
+                        <div className={cn("mb-3 ml-4 pl-3 border-l-2 border-yellow-400")}>
+                          <p className={cn("text-xs font-medium mb-1", themeClasses.mainText)}>
+                            Response from the seller
+                            {review.supplierReply.date && (
+                              <span className={cn("ml-2 font-normal", themeClasses.textNeutralSecondary)}>
+                                {new Date(review.supplierReply.date).toLocaleDateString()}
+                              </span>
+                            )}
+                          </p>
+                          <p className={cn("text-sm leading-relaxed", themeClasses.textNeutralSecondary)}>
+                            {review.supplierReply.body}
+                          </p>
+                        </div>
+                      )}
                       <div className="flex items-center gap-4">
                         <button
                           className={cn("text-xs flex items-center gap-1 hover:text-blue-600 transition-colors", themeClasses.textNeutralSecondary)}
@@ -4311,14 +4397,8 @@ function ProductDetailPageContent() {
                             }
                             // Toggle helpful vote
                             try {
-                              const { createClient } = await import('@supabase/supabase-js')
-                              const supabase = createClient(
-                                process.env.NEXT_PUBLIC_SUPABASE_URL!,
-                                process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-                              )
-                              const { data: { session } } = await supabase.auth.getSession()
-                              
-                              if (!session) {
+                              const token = await getReviewAuthToken()
+                              if (!token) {
                                 openAuthModal()
                                 return
                               }
@@ -4327,23 +4407,18 @@ function ProductDetailPageContent() {
                               const response = await fetchWithRetry(`/api/products/${product.id}/reviews/${review.id}/helpful`, {
                                 method: 'POST',
                                 headers: {
-                                  'Authorization': `Bearer ${session.access_token}`
+                                  'Authorization': `Bearer ${token}`
                                 },
                                 retries: 2,
                                 retryDelay: 500,
                                 exponentialBackoff: true
                               })
-                              if (response.ok) {
-                                // Refetch reviews with retry logic
-                                const reviewsResponse = await fetchWithRetry(`/api/products/${product.id}/reviews`, {
-                                  retries: 2,
-                                  retryDelay: 500,
-                                  exponentialBackoff: true
-                                })
-                                if (reviewsResponse.ok) {
-                                  const data = await reviewsResponse.json()
-                                  setReviews(data.reviews || [])
-                                }
+                              const data = await response.json().catch(() => null)
+                              if (response.ok && data) {
+                                // The reviews list is CDN cached, so update the count in place
+                                setReviews(prev => prev.map(r => r.id === review.id ? { ...r, helpful: data.helpful } : r))
+                              } else if (response.status < 500 && data?.error) {
+                                toast({ title: 'Vote not saved', description: data.error, variant: 'destructive' })
                               }
                             } catch (error) {
                               // Error toggling helpful
@@ -4353,6 +4428,19 @@ function ProductDetailPageContent() {
                           <HelpCircle className="w-3 h-3" />
                           Helpful ({review.helpful})
                         </button>
+                        <button
+                          className={cn("text-xs flex items-center gap-1 hover:text-red-600 transition-colors", themeClasses.textNeutralSecondary)}
+                          onClick={() => {
+                            if (!isAuthenticated) {
+                              openAuthModal()
+                              return
+                            }
+                            setReviewReportTarget(review)
+                          }}
+                        >
+                          <Flag className="w-3 h-3" />
+                          Report
+                        </button>
                       </div>
                     </div>
                   ))}
@@ -4855,44 +4943,45 @@ function ProductDetailPageContent() {
                       return
                     }
 
-                    const response = await fetch('/api/contact/send', {
+                    const token = await getReviewAuthToken()
+                    if (!token) {
+                      openAuthModal('login')
+                      return
+                    }
+
+                    const response = await fetch(`/api/products/${product?.id}/reviews`, {
                       method: 'POST',
                       headers: {
                         'Content-Type': 'application/json',
+                        'Authorization': `Bearer ${token}`
                       },
                       body: JSON.stringify({
-                        name: sanitizeString(user?.name || user?.email || 'Unknown user', 255),
-                        email: user?.email || 'no-email@unknown.com',
-                        phone: sanitizeString(user?.profile?.phone || '', 50),
-                        subject: `New product review for ID ${product?.id}`,
-                        message: [
-                          `Product ID: ${product?.id}`,
-                          `Product Name: ${sanitizeString(product?.name || '', 500)}`,
-                          '',
-                          `Rating: ${reviewFormData.rating} / 5`,
-                          '',
-                          'Comment:',
-                          commentValidation.sanitized || '(no comment provided)',
-                          '',
-                          reviewFormData.images?.length
-                            ? `Attached image URLs:\n${reviewFormData.images.join('\n')}`
-                            : 'No images attached.'
-                        ].join('\n'),
-                        inquiryType: 'support'
+                        rating: reviewFormData.rating,
+                        comment: commentValidation.sanitized,
+                        images: reviewFormData.images
                       })
                     })
+                    const data = await response.json().catch(() => null)
 
                     if (response.ok) {
                       setIsReviewModalOpen(false)
                       setReviewFormData({ rating: 0, comment: '', images: [] })
+                      if (data?.review && !data.pending) {
+                        setReviews(prev => [data.review, ...prev])
+                      }
                       toast({
                         title: 'Thank you!',
-                        description: 'Your review has been sent to our team via email.',
+                        description: data?.message || 'Your review has been submitted.',
                       })
                     } else {
-                      const error = await response.json().catch(() => null)
-                      const message = getFriendlyErrorMessage(error?.message ?? response.status, 'Unable to submit review. Please try again.')
-                      alert(message)
+                      toast({
+                        title: 'Review not submitted',
+                        // 4xx errors explain why (not delivered yet, already reviewed)
+                        description: response.status < 500 && data?.error
+                          ? data.error
+                          : getFriendlyErrorMessage(response.status, 'Unable to submit review. Please try again.'),
+                        variant: 'destructive'
+                      })
                     }
                   } catch (error) {
                     alert(getFriendlyErrorMessage(error, 'Unable to submit review. Please try again.'))
@@ -4909,6 +4998,103 @@ function ProductDetailPageContent() {
         </DialogContent>
       </Dialog>
 
+      {/* Report Review Modal */}
+      <Dialog open={!!reviewReportTarget} onOpenChange={(open) => !open && setReviewReportTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report review</DialogTitle>
+            <DialogDescription>
+              Our team will check this review. The reviewer won&apos;t be told who reported it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label>Reason</Label>
+              <Select value={reviewReportReason} onValueChange={setReviewReportReason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="spam">Spam or advertising</SelectItem>
+                  <SelectItem value="fake">Fake or misleading</SelectItem>
+                  <SelectItem value="offensive">Offensive language</SelectItem>
+                  <SelectItem value="off_topic">Not about this product</SelectItem>
+                  <SelectItem value="other">Something else</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="review-report-details">Details (optional)</Label>
+              <textarea
+                id="review-report-details"
+                className={cn(
+                  "w-full min-h-[80px] px-3 py-2 rounded-md border",
+                  themeClasses.cardBorder,
+                  themeClasses.mainText,
+                  "bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+                )}
+                maxLength={500}
+                value={reviewReportDetails}
+                onChange={(e) => setReviewReportDetails(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewReportTarget(null)} disabled={reportingReview}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={reportingReview || !reviewReportReason}
+              onClick={async () => {
+                if (!reviewReportTarget || !product) return
+                setReportingReview(true)
+                try {
+                  const token = await getReviewAuthToken()
+                  if (!token) {
+                    openAuthModal('login')
+                    return
+                  }
+                  const response = await fetch(`/api/products/${product.id}/reviews/${reviewReportTarget.id}/report`, {
+                    method: 'POST',
+                    headers: {
+                      'Content-Type': 'application/json',
+                      'Authorization': `Bearer ${token}`
+                    },
+                    body: JSON.stringify({ reason: reviewReportReason, details: reviewReportDetails })
+                  })
+                  const data = await response.json().catch(() => null)
+                  if (!response.ok) {
+                    toast({
+                      title: 'Report not sent',
+                      description: response.status < 500 && data?.error
+                        ? data.error
+                        : getFriendlyErrorMessage(response.status, 'Unable to report this review. Please try again.'),
+                      variant: 'destructive'
+                    })
+                    return
+                  }
+                  toast({ title: 'Review reported', description: data?.message })
+                  setReviewReportTarget(null)
+                  setReviewReportReason('')
+                  setReviewReportDetails('')
+                } catch (error) {
+                  toast({
+                    title: 'Report not sent',
+                    description: getFriendlyErrorMessage(error, 'Unable to report this review. Please try again.'),
+                    variant: 'destructive'
+                  })
+                } finally {
+                  setReportingReview(false)
+                }
+              }}
+            >
+              {reportingReview ? 'Reporting...' : 'Report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* China Import Modal */}
       {showChinaImportModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
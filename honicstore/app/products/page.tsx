@@ -22,6 +22,7 @@ import Image from "next/image"
 import { LazyImage } from "@/components/lazy-image"
 import { ImagePreloader } from "@/components/image-preloader"
 import { OptimizedLink } from "@/components/optimized-link"
+import { TrackedAd } from "@/components/tracked-ad"
 import { ProductCard } from "@/components/product-card"
 import { VirtualizedProductGrid } from "@/components/virtualized-product-grid"
 import { useOptimizedNavigation } from "@/components/optimized-link"
@@ -1049,6 +1050,10 @@ function ProductsPageContent() {
       try {
         setAdsLoading(true)
         
+        // Category-targeted campaigns only run when the buyer lands on that category
+        const adCategory = new URLSearchParams(window.location.search).get('mainCategory')
+        const categoryParam = adCategory ? `&category=${encodeURIComponent(adCategory)}` : ''
+
         // Check cache for advertisements (placement-specific)
         const cachedAds = localStorage.getItem('ads_cache_home')
         const cachedRotation = localStorage.getItem('ads_rotation_cache_home')
@@ -1058,7 +1063,7 @@ function ProductsPageContent() {
         
         
         // Use cache if it's less than 2 minutes old
-        if (cachedAds && cachedRotation && cacheAge < 2 * 60 * 1000) {
+        if (!adCategory && cachedAds && cachedRotation && cacheAge < 2 * 60 * 1000) {
           const cachedData = JSON.parse(cachedAds)
           // Filter out China page ads from cache
           const filteredCached = (cachedData || []).filter((ad: any) => ad.placement !== 'china')
@@ -1074,7 +1079,7 @@ function ProductsPageContent() {
         const cacheBust = typeof window !== 'undefined' ? (localStorage.getItem('settings_cache_bust') || Date.now()) : Date.now()
         
         const [adsResponse, rotationResponse] = await Promise.all([
-          fetch(`/api/advertisements?placement=home&cb=${cacheBust}`, { cache: 'no-store' }),
+          fetch(`/api/advertisements?placement=home${categoryParam}&cb=${cacheBust}`, { cache: 'no-store' }),
           fetch(`/api/advertisements/rotation-time?cb=${cacheBust}`, { cache: 'no-store' })
         ])
         
@@ -1085,16 +1090,16 @@ function ProductsPageContent() {
           // If no ads with placement=home, try fetching without placement filter as fallback
           if (filteredData && filteredData.length > 0) {
             setAdvertisements(filteredData)
-            localStorage.setItem('ads_cache_home', JSON.stringify(filteredData))
+            if (!adCategory) localStorage.setItem('ads_cache_home', JSON.stringify(filteredData))
           } else {
             // Fallback: fetch all active ads (excluding china)
-            const fallbackResponse = await fetch(`/api/advertisements?cb=${cacheBust}`, { cache: 'no-store' })
+            const fallbackResponse = await fetch(`/api/advertisements?cb=${cacheBust}${categoryParam}`, { cache: 'no-store' })
             if (fallbackResponse.ok) {
               const fallbackData = await fallbackResponse.json()
               // Filter out China page ads from fallback
               const filteredFallback = (fallbackData || []).filter((ad: any) => ad.placement !== 'china')
               setAdvertisements(filteredFallback)
-              localStorage.setItem('ads_cache_home', JSON.stringify(filteredFallback))
+              if (!adCategory) localStorage.setItem('ads_cache_home', JSON.stringify(filteredFallback))
             } else {
               setAdvertisements([])
             }
@@ -3656,44 +3661,46 @@ function ProductsPageContent() {
               </div>
             </div>
           ) : advertisements.length > 0 && advertisements[currentAdIndex] ? (
-            <Link 
-              href={advertisements[currentAdIndex].link_url || "/products"}
-              className="block cursor-pointer h-48 sm:h-64 md:h-80 relative z-0"
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              <div className="relative overflow-hidden rounded-none h-full bg-gray-100 dark:bg-gray-800">
-                {advertisements[currentAdIndex].media_type === 'image' ? (
-                  <LazyImage
-                    src={advertisements[currentAdIndex].media_url}
-                    alt={advertisements[currentAdIndex].title}
-                    fill
-                    className="object-contain transition-opacity duration-500"
-                    priority={currentAdIndex === 0}
-                    quality={85}
-                    sizes="(max-width: 768px) 100vw, (max-width: 1200px) 100vw, 1200px"
-                  />
-                ) : (
-                  <video
-                    key={currentAdIndex}
-                    src={advertisements[currentAdIndex].media_url}
-                    className="w-full h-full object-contain transition-opacity duration-500"
-                    autoPlay
-                    loop
-                    muted
-                    playsInline
-                  />
-                )}
-                {/* Ad Title Overlay */}
-                {advertisements[currentAdIndex].title && (
-                  <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent p-2">
-                    <p className="text-white text-xs sm:text-sm font-medium truncate" suppressHydrationWarning>
-                      {advertisements[currentAdIndex].title}
-                    </p>
-                  </div>
-                )}
-              </div>
-            </Link>
+            <TrackedAd adId={advertisements[currentAdIndex].id} placement="products">
+              <Link 
+                href={advertisements[currentAdIndex].link_url || "/products"}
+                className="block cursor-pointer h-48 sm:h-64 md:h-80 relative z-0"
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <div className="relative overflow-hidden rounded-none h-full bg-gray-100 dark:bg-gray-800">
+                  {advertisements[currentAdIndex].media_type === 'image' ? (
+                    <LazyImage
+                      src={advertisements[currentAdIndex].media_url}
+                      alt={advertisements[currentAdIndex].title}
+                      fill
+                      className="object-contain transition-opacity duration-500"
+                      priority={currentAdIndex === 0}
+                      quality={85}
+                      sizes="(max-width: 768px) 100vw, (max-width: 1200px) 100vw, 1200px"
+                    />
+                  ) : (
+                    <video
+                      key={currentAdIndex}
+                      src={advertisements[currentAdIndex].media_url}
+                      className="w-full h-full object-contain transition-opacity duration-500"
+                      autoPlay
+                      loop
+                      muted
+                      playsInline
+                    />
+                  )}
+                  {/* Ad Title Overlay */}
+                  {advertisements[currentAdIndex].title && (
+                    <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent p-2">
+                      <p className="text-white text-xs sm:text-sm font-medium truncate" suppressHydrationWarning>
+                        {advertisements[currentAdIndex].title}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </Link>
+            </TrackedAd>
           ) : (
             <div className="block h-48 sm:h-64 md:h-80 relative z-0">
               <div className="relative overflow-hidden rounded-none h-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
@@ -3776,44 +3783,46 @@ function ProductsPageContent() {
                   </div>
                 </div>
               ) : advertisements.length > 0 && advertisements[currentAdIndex] ? (
-                <Link 
-                  href={advertisements[currentAdIndex].link_url || "/products"}
-                  className="block cursor-pointer h-48 sm:h-64 md:h-80 relative z-0"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                >
-                  <div className="relative overflow-hidden rounded-none h-full bg-gray-100 dark:bg-gray-800">
-                    {advertisements[currentAdIndex].media_type === 'image' ? (
-                      <LazyImage
-                        src={advertisements[currentAdIndex].media_url}
-                        alt={advertisements[currentAdIndex].title}
-                        fill
-                        className="object-contain transition-opacity duration-500"
-                        priority={currentAdIndex === 0} // Priority for first ad
-                        quality={85}
-                        sizes="(max-width: 768px) 100vw, (max-width: 1200px) 100vw, 1200px"
-                      />
-                    ) : (
-                      <video
-                        key={currentAdIndex}
-                        src={advertisements[currentAdIndex].media_url}
-                        className="w-full h-full object-contain transition-opacity duration-500"
-                        autoPlay
-                        loop
-                        muted
-                        playsInline
-                      />
-                    )}
-                    {/* Ad Title Overlay */}
-                    {advertisements[currentAdIndex].title && (
-                      <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent p-2">
-                        <p className="text-white text-xs sm:text-sm font-medium truncate" suppressHydrationWarning>
-                          {advertisements[currentAdIndex].title}
-                        </p>
-        </div>
-                    )}
-                  </div>
-                </Link>
+                <TrackedAd adId={advertisements[currentAdIndex].id} placement="products">
+                  <Link 
+                    href={advertisements[currentAdIndex].link_url || "/products"}
+                    className="block cursor-pointer h-48 sm:h-64 md:h-80 relative z-0"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <div className="relative overflow-hidden rounded-none h-full bg-gray-100 dark:bg-gray-800">
+                      {advertisements[currentAdIndex].media_type === 'image' ? (
+                        <LazyImage
+                          src={advertisements[currentAdIndex].media_url}
+                          alt={advertisements[currentAdIndex].title}
+                          fill
+                          className="object-contain transition-opacity duration-500"
+                          priority={currentAdIndex === 0} // Priority for first ad
+                          quality={85}
+                          sizes="(max-width: 768px) 100vw, (max-width: 1200px) 100vw, 1200px"
+                        />
+                      ) : (
+                        <video
+                          key={currentAdIndex}
+                          src={advertisements[currentAdIndex].media_url}
+                          className="w-full h-full object-contain transition-opacity duration-500"
+                          autoPlay
+                          loop
+                          muted
+                          playsInline
+                        />
+                      )}
+                      {/* Ad Title Overlay */}
+                      {advertisements[currentAdIndex].title && (
+                        <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent p-2">
+                          <p className="text-white text-xs sm:text-sm font-medium truncate" suppressHydrationWarning>
+                            {advertisements[currentAdIndex].title}
+                          </p>
+          </div>
+                      )}
+                    </div>
+                  </Link>
+                </TrackedAd>
               ) : (
                 <div className="block h-48 sm:h-64 md:h-80 relative z-0">
                   <div className="relative overflow-hidden rounded-none h-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
@@ -26,6 +26,7 @@ export default async function PcbPage() {
       ]}
       companyName={companySettings.companyName}
       companyColor={companySettings.companyColor}
+      quoteSource="pcb"
     />
   )
 }
@@ -26,6 +26,7 @@ export default async function PrototypingPage() {
       ]}
       companyName={companySettings.companyName}
       companyColor={companySettings.companyColor}
+      quoteSource="prototyping"
     />
   )
 }
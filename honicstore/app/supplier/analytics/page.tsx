@@ -6,67 +6,120 @@ import { useTheme } from '@/hooks/use-theme'
 import { useCurrency } from '@/contexts/currency-context'
 import { cn } from '@/lib/utils'
 import { getFriendlyErrorMessage } from '@/lib/friendly-error'
-import { TrendingUp, DollarSign, Package, ShoppingCart, Eye, Star, ArrowUp, ArrowDown, BarChart3, Users, Lightbulb, Calendar, Filter, AlertTriangle, FileText, TrendingUp as LineChartIcon, Target, Sparkles } from 'lucide-react'
+import { DollarSign, Package, ShoppingCart, Eye, Star, ArrowUp, ArrowDown, BarChart3, Users, Lightbulb, Calendar, Filter, AlertTriangle, FileText, TrendingUp as LineChartIcon, Target, Sparkles } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
-import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts'
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts'
 import { useToast } from '@/hooks/use-toast'
 
+type TimeRange = '7d' | '30d' | '90d' | '365d'
+
+const TIME_RANGE_DAYS: Record<TimeRange, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '365d': 365
+}
+
+const FUNNEL_LABELS: Record<string, string> = {
+  view: 'Product views',
+  add_to_cart: 'Added to cart',
+  checkout_start: 'Checkout started',
+  purchase: 'Purchased'
+}
+
+interface AnalyticsTotals {
+  views: number
+  addToCarts: number
+  checkoutsStarted: number
+  orders: number
+  unitsSold: number
+  grossSales: number
+  refunds: number
+  revenue: number
+  averageOrderValue: number
+}
+
+interface ProductPerformance {
+  productId: number
+  name: string
+  category: string
+  views: number
+  addToCarts: number
+  checkoutsStarted: number
+  orders: number
+  unitsSold: number
+  revenue: number
+  conversionRate: number
+}
+
+// Shape of /api/supplier/analytics, all figures are for the selected range
 interface AnalyticsData {
-  totalRevenue: number
-  totalOrders: number
-  totalProducts: number
-  totalViews: number
-  averageRating: number
-  revenueChange: number
-  ordersChange: number
-  viewsChange: number
-  recentOrders: Array<{
-    id: string
-    orderNumber: string
-    total: number
-    status: string
-    createdAt: string
-  }>
-  topProducts: Array<{
-    id: number
-    name: string
-    sales: number
-    revenue: number
+  range: { from: string; to: string; days: number; previousFrom: string; previousTo: string }
+  totals: AnalyticsTotals
+  previousTotals: AnalyticsTotals
+  // Percent change vs the previous period, null when the previous period had nothing
+  changes: Record<'views' | 'addToCarts' | 'checkoutsStarted' | 'orders' | 'unitsSold' | 'revenue', number | null>
+  funnel: Array<{ stage: string; count: number; rate: number }>
+  daily: Array<{
+    date: string
     views: number
-    category?: string
-  }>
-  products: Array<{
-    id: number
-    name: string
-    category?: string
-    category_id?: string
-    views: number
-    price: number
-    rating?: number
+    addToCarts: number
+    checkoutsStarted: number
+    orders: number
+    unitsSold: number
+    revenue: number
   }>
-  orders: Array<{
+  products: ProductPerformance[]
+  categories: Array<{ category: string; unitsSold: number; orders: number; revenue: number }>
+  customers: {
+    uniqueCustomers: number
+    repeatCustomers: number
+    topCustomers: Array<{ id: string; orders: number; totalSpent: number }>
+  }
+  recentOrders: Array<{
     id: string
     orderNumber: string
     total: number
     status: string
+    paymentStatus: string
     createdAt: string
-    items: Array<{
-      product_id: number
-      product_name: string
-      quantity: number
-      price: number
-      total_price: number
-    }>
-    user_id?: string
   }>
+  catalog: { productCount: number; averageRating: number }
+}
+
+function rangeStart(timeRange: TimeRange): string {
+  const days = TIME_RANGE_DAYS[timeRange]
+  return new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+// Daily points for short ranges, months for the yearly view
+function groupDaily(daily: AnalyticsData['daily'], timeRange: TimeRange) {
+  const groups = new Map<string, { name: string; revenue: number; orders: number; views: number; unitsSold: number }>()
+  for (const day of daily) {
+    const date = new Date(`${day.date}T00:00:00.000Z`)
+    const key = timeRange === '365d' ? day.date.slice(0, 7) : day.date
+    const name = timeRange === '7d'
+      ? date.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })
+      : timeRange === '365d'
+        ? date.toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' })
+        : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+    const group = groups.get(key) || { name, revenue: 0, orders: 0, views: 0, unitsSold: 0 }
+    group.revenue += day.revenue
+    group.orders += day.orders
+    group.views += day.views
+    group.unitsSold += day.unitsSold
+    groups.set(key, group)
+  }
+  return [...groups.values()]
 }
 
 export default function SupplierAnalyticsPage() {
+  const router = useRouter()
   const { themeClasses } = useTheme()
   const { formatPrice } = useCurrency()
   const { toast } = useToast()
@@ -76,14 +129,17 @@ export default function SupplierAnalyticsPage() {
   const [pendingPlanId, setPendingPlanId] = useState<string | null>(null)
   const [hasValidPremiumPayment, setHasValidPremiumPayment] = useState<boolean>(false)
   const [paymentStatus, setPaymentStatus] = useState<string | null>(null)
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | 'all'>('30d')
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d')
   const [activeTab, setActiveTab] = useState<string>('overview')
 
   useEffect(() => {
-    fetchAnalytics()
     fetchCurrentPlan()
   }, [])
 
+  useEffect(() => {
+    fetchAnalytics(timeRange)
+  }, [timeRange])
+
   const fetchCurrentPlan = async () => {
     try {
       const response = await fetch('/api/user/current-plan', {
@@ -100,141 +156,36 @@ export default function SupplierAnalyticsPage() {
       }
   }
 
-  const fetchAnalytics = async () => {
+  const fetchAnalytics = async (range: TimeRange) => {
     try {
       setLoading(true)
-      // Fetch products
-      const productsResponse = await fetch('/api/supplier/products?limit=1000', {
-        credentials: 'include'
+      const params = new URLSearchParams({
+        from: rangeStart(range),
+        to: new Date().toISOString().slice(0, 10)
       })
-      const productsData = await productsResponse.json()
-
-      // Fetch orders
-      const ordersResponse = await fetch('/api/supplier/orders', {
+      const response = await fetch(`/api/supplier/analytics?${params}`, {
         credentials: 'include'
       })
-      const ordersData = await ordersResponse.json()
-
-      if (productsData.success && ordersData.success) {
-        const products = productsData.products || []
-        const orders = ordersData.orders || []
-
-        // Calculate analytics
-        const totalRevenue = orders.reduce((sum: number, order: any) => {
-          return sum + (parseFloat(order.supplier_total || order.total_amount || order.total_price || order.total || 0))
-        }, 0)
+      const data = await response.json().catch(() => ({}))
 
-        const totalOrders = orders.length
-        const totalProducts = products.length
-        const totalViews = products.reduce((sum: number, p: any) => sum + (p.views || 0), 0)
-        
-        // Calculate average rating
-        const ratings = products.filter((p: any) => p.rating).map((p: any) => p.rating)
-        const averageRating = ratings.length > 0 
-          ? ratings.reduce((sum: number, r: number) => sum + r, 0) / ratings.length 
-          : 0
-
-        // Get recent orders
-        const recentOrders = orders
-          .slice(0, 10)
-          .map((order: any) => ({
-            id: order.id,
-            orderNumber: order.order_number || `ORD-${order.id}`,
-            total: parseFloat(order.supplier_total || order.total_amount || order.total_price || order.total || 0),
-            status: order.status || 'pending',
-            createdAt: order.created_at || order.confirmed_at,
-            paymentStatus: order.payment_status || 'pending',
-            itemsCount: order.items_count || order.total_items || 0
-          }))
-
-        // Get top products by sales
-        const productSales: Record<number, { sales: number; revenue: number; views: number; name: string }> = {}
-        orders.forEach((order: any) => {
-          const items = order.order_items || []
-          items.forEach((item: any) => {
-            const productId = item.product_id
-            if (!productSales[productId]) {
-              productSales[productId] = { sales: 0, revenue: 0, views: 0, name: item.product_name || 'Unknown' }
-            }
-            productSales[productId].sales += item.quantity || 1
-            productSales[productId].revenue += parseFloat(item.price || 0) * (item.quantity || 1)
-          })
-        })
-
-        // Add views to top products
-        products.forEach((product: any) => {
-          if (productSales[product.id]) {
-            productSales[product.id].views = product.views || 0
-            productSales[product.id].name = product.name
-          }
-        })
-
-        // Add category info to products
-        const productsWithCategory = products.map((p: any) => ({
-          id: p.id,
-          name: p.name,
-          category: p.category || 'Uncategorized',
-          category_id: p.category_id,
-          views: p.views || 0,
-          price: p.price || 0,
-          rating: p.rating || 0
-        }))
-
-        // Add category to top products
-        const topProducts = Object.entries(productSales)
-          .map(([id, data]) => {
-            const product = products.find((p: any) => p.id === parseInt(id))
-            return {
-              id: parseInt(id),
-              name: data.name,
-              sales: data.sales,
-              revenue: data.revenue,
-              views: data.views,
-              category: product?.category || 'Uncategorized'
-            }
-          })
-          .sort((a, b) => b.sales - a.sales)
-          .slice(0, 5)
-
-        // Calculate changes (simplified - compare first half vs second half)
-        const sortedOrders = orders.sort((a: any, b: any) => 
-          new Date(a.created_at || a.confirmed_at).getTime() - new Date(b.created_at || b.confirmed_at).getTime()
-        )
-        const midPoint = Math.floor(sortedOrders.length / 2)
-        const firstHalf = sortedOrders.slice(0, midPoint)
-        const secondHalf = sortedOrders.slice(midPoint)
-        
-        const firstHalfRevenue = firstHalf.reduce((sum: number, o: any) => sum + parseFloat(o.supplier_total || o.total_amount || 0), 0)
-        const secondHalfRevenue = secondHalf.reduce((sum: number, o: any) => sum + parseFloat(o.supplier_total || o.total_amount || 0), 0)
-        const revenueChange = firstHalfRevenue > 0 ? ((secondHalfRevenue - firstHalfRevenue) / firstHalfRevenue) * 100 : 0
-        
-        const ordersChange = firstHalf.length > 0 ? ((secondHalf.length - firstHalf.length) / firstHalf.length) * 100 : 0
-
-        setAnalytics({
-          totalRevenue,
-          totalOrders,
-          totalProducts,
-          totalViews,
-          averageRating,
-          revenueChange: Math.round(revenueChange * 10) / 10,
-          ordersChange: Math.round(ordersChange * 10) / 10,
-          viewsChange: 0,
-          recentOrders,
-          topProducts,
-          products: productsWithCategory,
-          orders: orders.map((order: any) => ({
-            id: order.id,
-            orderNumber: order.order_number || `ORD-${order.id}`,
-            total: parseFloat(order.supplier_total || order.total_amount || 0),
-            status: order.status || 'pending',
-            createdAt: order.created_at || order.confirmed_at,
-            items: order.items || [],
-            user_id: order.user_id
-          }))
+      if (response.ok && data.success && data.analytics) {
+        setAnalytics(data.analytics)
+      } else {
+        toast({
+          title: 'Error',
+          description: response.status < 500 && data.error
+            ? data.error
+            : getFriendlyErrorMessage(data.error || response.status, 'Could not load analytics. Please try again.'),
+          variant: 'destructive'
         })
       }
     } catch (error) {
-      } finally {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Could not load analytics. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
       setLoading(false)
     }
   }
@@ -244,62 +195,47 @@ export default function SupplierAnalyticsPage() {
   // Check if premium plan payment is pending - use payment_status directly
   const isPremiumPendingPayment = paymentStatus === 'pending'
 
-  // Filter data by time range
-  const filteredOrders = useMemo(() => {
-    if (!analytics?.orders) return []
-    const now = new Date()
-    const cutoffDate = new Date()
-    switch (timeRange) {
-      case '7d':
-        cutoffDate.setDate(now.getDate() - 7)
-        break
-      case '30d':
-        cutoffDate.setDate(now.getDate() - 30)
-        break
-      case '90d':
-        cutoffDate.setDate(now.getDate() - 90)
-        break
-      default:
-        return analytics.orders
-    }
-    return analytics.orders.filter(order => new Date(order.createdAt) >= cutoffDate)
-  }, [analytics?.orders, timeRange])
+  const topProducts = useMemo(
+    () => (analytics?.products || []).filter(product => product.orders > 0).slice(0, 5),
+    [analytics?.products]
+  )
 
   const statsCards = [
     {
-      title: 'Total Revenue',
-      value: loading ? '...' : formatPrice(analytics?.totalRevenue || 0),
+      title: 'Revenue',
+      value: loading ? '...' : formatPrice(analytics?.totals.revenue || 0),
       icon: DollarSign,
       color: 'text-green-600 dark:text-green-400',
       bgColor: 'bg-green-100 dark:bg-green-900/20',
-      change: analytics?.revenueChange || 0
+      change: analytics?.changes.revenue
     },
     {
-      title: 'Total Orders',
-      value: loading ? '...' : analytics?.totalOrders.toString() || '0',
+      title: 'Orders',
+      value: loading ? '...' : analytics?.totals.orders.toString() || '0',
       icon: ShoppingCart,
       color: 'text-blue-600 dark:text-blue-400',
       bgColor: 'bg-blue-100 dark:bg-blue-900/20',
-      change: analytics?.ordersChange || 0
+      change: analytics?.changes.orders
     },
     {
-      title: 'Total Products',
-      value: loading ? '...' : analytics?.totalProducts.toString() || '0',
+      title: 'Units Sold',
+      value: loading ? '...' : analytics?.totals.unitsSold.toString() || '0',
       icon: Package,
       color: 'text-purple-600 dark:text-purple-400',
-      bgColor: 'bg-purple-100 dark:bg-purple-900/20'
+      bgColor: 'bg-purple-100 dark:bg-purple-900/20',
+      change: analytics?.changes.unitsSold
     },
     {
-      title: 'Total Views',
-      value: loading ? '...' : analytics?.totalViews.toString() || '0',
+      title: 'Product Views',
+      value: loading ? '...' : analytics?.totals.views.toString() || '0',
       icon: Eye,
       color: 'text-yellow-600 dark:text-yellow-400',
       bgColor: 'bg-yellow-100 dark:bg-yellow-900/20',
-      change: analytics?.viewsChange || 0
+      change: analytics?.changes.views
     },
     {
       title: 'Average Rating',
-      value: loading ? '...' : analytics?.averageRating.toFixed(1) || '0.0',
+      value: loading ? '...' : analytics?.catalog.averageRating.toFixed(1) || '0.0',
       icon: Star,
       color: 'text-orange-600 dark:text-orange-400',
       bgColor: 'bg-orange-100 dark:bg-orange-900/20'
@@ -318,15 +254,29 @@ export default function SupplierAnalyticsPage() {
             {isPremiumPlan ? 'Advanced analytics and insights' : 'Basic analytics overview'}
           </p>
         </div>
-        {isPremiumPlan ? (
-          <Badge className="bg-yellow-500 text-black font-semibold text-xs sm:text-sm px-2 sm:px-3 w-fit">
-            Advanced Analytics
-          </Badge>
-        ) : (
-          <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 text-xs sm:text-sm px-2 sm:px-3 w-fit">
-            Free Plan - Basic Analytics
-          </Badge>
-        )}
+        <div className="flex items-center gap-2 sm:gap-3">
+          <Select value={timeRange} onValueChange={(value: TimeRange) => setTimeRange(value)}>
+            <SelectTrigger className="w-40">
+              <Calendar className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="365d">Last 12 months</SelectItem>
+            </SelectContent>
+          </Select>
+          {isPremiumPlan ? (
+            <Badge className="bg-yellow-500 text-black font-semibold text-xs sm:text-sm px-2 sm:px-3 w-fit">
+              Advanced Analytics
+            </Badge>
+          ) : (
+            <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 text-xs sm:text-sm px-2 sm:px-3 w-fit">
+              Free Plan - Basic Analytics
+            </Badge>
+          )}
+        </div>
       </div>
 
       {/* Stats Grid */}
@@ -338,8 +288,11 @@ export default function SupplierAnalyticsPage() {
                 <div className={cn("p-1.5 sm:p-2 rounded-lg", stat.bgColor)}>
                   <stat.icon className={cn("w-4 h-4 sm:w-5 sm:h-5", stat.color)} />
                 </div>
-                {stat.change !== undefined && stat.change !== 0 && (
-                  <div className={cn("flex items-center text-[10px] sm:text-xs", stat.change > 0 ? "text-green-600" : "text-red-600")}>
+                {stat.change != null && stat.change !== 0 && (
+                  <div
+                    title="Compared with the previous period"
+                    className={cn("flex items-center text-[10px] sm:text-xs", stat.change > 0 ? "text-green-600" : "text-red-600")}
+                  >
                     {stat.change > 0 ? <ArrowUp className="w-2.5 h-2.5 sm:w-3 sm:h-3 mr-0.5 sm:mr-1" /> : <ArrowDown className="w-2.5 h-2.5 sm:w-3 sm:h-3 mr-0.5 sm:mr-1" />}
                     {Math.abs(stat.change)}%
                   </div>
@@ -360,6 +313,53 @@ export default function SupplierAnalyticsPage() {
         ))}
       </div>
 
+      {/* Conversion Funnel */}
+      <Card className={cn("border-2", themeClasses.cardBorder, themeClasses.cardBg)}>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Target className={cn("w-5 h-5", themeClasses.textNeutralSecondary)} />
+              <CardTitle className={cn("text-xl", themeClasses.mainText)}>Conversion Funnel</CardTitle>
+            </div>
+            {analytics && (
+              <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>
+                {analytics.range.from} to {analytics.range.to}
+              </p>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-20 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : analytics ? (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                {analytics.funnel.map((step, index) => (
+                  <div key={step.stage} className={cn("p-4 rounded-lg border", themeClasses.cardBorder, themeClasses.cardBg)}>
+                    <p className={cn("text-xs mb-1", themeClasses.textNeutralSecondary)}>{FUNNEL_LABELS[step.stage] || step.stage}</p>
+                    <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{step.count}</p>
+                    <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+                      {index === 0 ? 'Unique sessions per product' : `${step.rate}% of previous step`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <p className={cn("text-xs mt-3", themeClasses.textNeutralSecondary)}>
+                Revenue is net of refunds and matches your ledger. Changes compare with the previous {analytics.range.days} days.
+              </p>
+            </>
+          ) : (
+            <p className={cn("text-center py-8", themeClasses.textNeutralSecondary)}>
+              No analytics available
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Recent Orders */}
       <Card className={cn("border-2", themeClasses.cardBorder, themeClasses.cardBg)}>
         <CardHeader className="pb-3">
@@ -450,11 +450,6 @@ export default function SupplierAnalyticsPage() {
                                     minute: '2-digit'
                                   })}
                                 </p>
-                                {(order as any).itemsCount > 0 && (
-                                  <span className={cn("text-xs sm:text-sm", themeClasses.textNeutralSecondary)}>
-                                    • {(order as any).itemsCount} {(order as any).itemsCount === 1 ? 'item' : 'items'}
-                                  </span>
-                                )}
                               </div>
                             </div>
                           </div>
@@ -464,12 +459,12 @@ export default function SupplierAnalyticsPage() {
                             <Badge className={cn("text-xs font-semibold border", getStatusColor(order.status))}>
                               {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
                             </Badge>
-                            {(order as any).paymentStatus && (
+                            {order.paymentStatus && (
                               <Badge 
                                 variant="outline" 
-                                className={cn("text-xs font-semibold", getPaymentStatusColor((order as any).paymentStatus))}
+                                className={cn("text-xs font-semibold", getPaymentStatusColor(order.paymentStatus))}
                               >
-                                {(order as any).paymentStatus.charAt(0).toUpperCase() + (order as any).paymentStatus.slice(1)}
+                                {order.paymentStatus.charAt(0).toUpperCase() + order.paymentStatus.slice(1)}
                               </Badge>
                             )}
                           </div>
@@ -525,11 +520,11 @@ export default function SupplierAnalyticsPage() {
                 <Skeleton key={i} className="h-16 w-full" />
               ))}
             </div>
-          ) : analytics?.topProducts.length ? (
+          ) : topProducts.length ? (
             <div className="space-y-2">
-              {analytics.topProducts.map((product, index) => (
+              {topProducts.map((product, index) => (
                 <div
-                  key={product.id}
+                  key={product.productId}
                   className={cn("flex items-center justify-between p-3 rounded-lg border", themeClasses.cardBorder, themeClasses.cardBg)}
                 >
                   <div className="flex items-center gap-3">
@@ -541,7 +536,7 @@ export default function SupplierAnalyticsPage() {
                     <div>
                       <p className={cn("font-semibold", themeClasses.mainText)}>{product.name}</p>
                       <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
-                        {product.sales} sales • {product.views} views
+                        {product.unitsSold} sold • {product.views} views
                       </p>
                     </div>
                   </div>
@@ -569,18 +564,6 @@ export default function SupplierAnalyticsPage() {
                   Comprehensive insights and data-driven decisions
                 </p>
               </div>
-              <Select value={timeRange} onValueChange={(value: any) => setTimeRange(value)}>
-                <SelectTrigger className="w-full sm:w-40">
-                  <Calendar className="w-4 h-4 mr-2" />
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="7d">Last 7 days</SelectItem>
-                  <SelectItem value="30d">Last 30 days</SelectItem>
-                  <SelectItem value="90d">Last 90 days</SelectItem>
-                  <SelectItem value="all">All time</SelectItem>
-                </SelectContent>
-              </Select>
             </div>
           </CardHeader>
           <CardContent>
@@ -729,103 +712,23 @@ export default function SupplierAnalyticsPage() {
   )
 }
 
+
 // Detailed Sales Reports Component
-function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange }: { 
+function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange }: {
   analytics: AnalyticsData | null
   formatPrice: (amount: number) => string
   themeClasses: any
-  timeRange: string
+  timeRange: TimeRange
 }) {
-  const filteredOrders = useMemo(() => {
-    if (!analytics?.orders) return []
-    const now = new Date()
-    const cutoffDate = new Date()
-    switch (timeRange) {
-      case '7d':
-        cutoffDate.setDate(now.getDate() - 7)
-        break
-      case '30d':
-        cutoffDate.setDate(now.getDate() - 30)
-        break
-      case '90d':
-        cutoffDate.setDate(now.getDate() - 90)
-        break
-      default:
-        return analytics.orders
-    }
-    return analytics.orders.filter(order => new Date(order.createdAt) >= cutoffDate)
-  }, [analytics?.orders, timeRange])
-
   // Sales by Product
-  const salesByProduct = useMemo(() => {
-    const productMap: Record<number, { name: string; sales: number; revenue: number; orders: number }> = {}
-    filteredOrders.forEach(order => {
-      order.items.forEach(item => {
-        if (!productMap[item.product_id]) {
-          productMap[item.product_id] = { name: item.product_name, sales: 0, revenue: 0, orders: 0 }
-        }
-        productMap[item.product_id].sales += item.quantity
-        productMap[item.product_id].revenue += item.total_price
-        productMap[item.product_id].orders += 1
-      })
-    })
-    return Object.entries(productMap)
-      .map(([id, data]) => ({ id: parseInt(id), ...data }))
-      .sort((a, b) => b.revenue - a.revenue)
-      .slice(0, 10)
-  }, [filteredOrders])
-
-  // Sales by Category
-  const salesByCategory = useMemo(() => {
-    const categoryMap: Record<string, { sales: number; revenue: number; orders: number }> = {}
-    filteredOrders.forEach(order => {
-      order.items.forEach(item => {
-        const product = analytics?.products.find(p => p.id === item.product_id)
-        const category = product?.category || 'Uncategorized'
-        if (!categoryMap[category]) {
-          categoryMap[category] = { sales: 0, revenue: 0, orders: 0 }
-        }
-        categoryMap[category].sales += item.quantity
-        categoryMap[category].revenue += item.total_price
-        categoryMap[category].orders += 1
-      })
-    })
-    return Object.entries(categoryMap)
-      .map(([category, data]) => ({ category, ...data }))
-      .sort((a, b) => b.revenue - a.revenue)
-  }, [filteredOrders, analytics?.products])
+  const salesByProduct = useMemo(
+    () => (analytics?.products || []).filter(product => product.orders > 0).slice(0, 10),
+    [analytics?.products]
+  )
 
-  // Sales by Time Period
-  const salesByPeriod = useMemo(() => {
-    const periodMap: Record<string, { revenue: number; orders: number }> = {}
-    filteredOrders.forEach(order => {
-      const date = new Date(order.createdAt)
-      const periodKey = timeRange === '7d' 
-        ? date.toLocaleDateString('en-US', { weekday: 'short' })
-        : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-      
-      if (!periodMap[periodKey]) {
-        periodMap[periodKey] = { revenue: 0, orders: 0 }
-      }
-      periodMap[periodKey].revenue += order.total
-      periodMap[periodKey].orders += 1
-    })
-    return Object.entries(periodMap)
-      .map(([period, data]) => ({ period, ...data }))
-      .sort((a, b) => {
-        if (timeRange === '7d') {
-          const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
-          return days.indexOf(a.period) - days.indexOf(b.period)
-        }
-        return new Date(a.period).getTime() - new Date(b.period).getTime()
-      })
-  }, [filteredOrders, timeRange])
+  const salesByCategory = analytics?.categories || []
 
-  const chartData = salesByPeriod.map(item => ({
-    name: item.period,
-    revenue: item.revenue,
-    orders: item.orders
-  }))
+  const chartData = useMemo(() => groupDaily(analytics?.daily || [], timeRange), [analytics?.daily, timeRange])
 
   return (
     <div className="space-y-6">
@@ -862,8 +765,8 @@ function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange
           <div className="space-y-2">
             {salesByProduct.length > 0 ? (
               salesByProduct.map((product, index) => (
-                <div 
-                  key={product.id} 
+                <div
+                  key={product.productId}
                   className={cn(
                     "group flex items-center justify-between p-4 rounded-lg border transition-all hover:shadow-sm",
                     themeClasses.cardBorder,
@@ -873,8 +776,8 @@ function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange
                   <div className="flex items-center gap-4 flex-1 min-w-0">
                     <div className={cn(
                       "flex-shrink-0 w-10 h-10 rounded-lg flex items-center justify-center font-bold text-sm border-2",
-                      index === 0 
-                        ? "bg-primary/10 text-primary border-primary/20" 
+                      index === 0
+                        ? "bg-primary/10 text-primary border-primary/20"
                         : "bg-muted border-border"
                     )}>
                       {index + 1}
@@ -882,7 +785,7 @@ function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange
                     <div className="flex-1 min-w-0">
                       <p className={cn("font-semibold truncate", themeClasses.mainText)}>{product.name}</p>
                       <p className={cn("text-sm mt-1", themeClasses.textNeutralSecondary)}>
-                        {product.sales} units • {product.orders} orders
+                        {product.unitsSold} units • {product.orders} orders
                       </p>
                     </div>
                   </div>
@@ -911,8 +814,8 @@ function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {salesByCategory.length > 0 ? (
               salesByCategory.map((cat) => (
-                <div 
-                  key={cat.category} 
+                <div
+                  key={cat.category}
                   className={cn(
                     "p-5 rounded-lg border transition-all hover:shadow-sm",
                     themeClasses.cardBorder,
@@ -923,7 +826,7 @@ function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange
                   <p className={cn("text-2xl font-bold mb-2", themeClasses.mainText)}>{formatPrice(cat.revenue)}</p>
                   <div className="flex items-center gap-4 text-sm">
                     <span className={cn(themeClasses.textNeutralSecondary)}>
-                      {cat.sales} units
+                      {cat.unitsSold} units
                     </span>
                     <span className={cn("text-muted-foreground")}>•</span>
                     <span className={cn(themeClasses.textNeutralSecondary)}>
@@ -946,87 +849,17 @@ function DetailedSalesReports({ analytics, formatPrice, themeClasses, timeRange
 }
 
 // Performance Trends Component
-function PerformanceTrends({ analytics, formatPrice, themeClasses, timeRange }: { 
+function PerformanceTrends({ analytics, formatPrice, themeClasses, timeRange }: {
   analytics: AnalyticsData | null
   formatPrice: (amount: number) => string
   themeClasses: any
-  timeRange: string
+  timeRange: TimeRange
 }) {
-  const filteredOrders = useMemo(() => {
-    if (!analytics?.orders) return []
-    const now = new Date()
-    const cutoffDate = new Date()
-    switch (timeRange) {
-      case '7d':
-        cutoffDate.setDate(now.getDate() - 7)
-        break
-      case '30d':
-        cutoffDate.setDate(now.getDate() - 30)
-        break
-      case '90d':
-        cutoffDate.setDate(now.getDate() - 90)
-        break
-      default:
-        return analytics.orders
-    }
-    return analytics.orders.filter(order => new Date(order.createdAt) >= cutoffDate)
-  }, [analytics?.orders, timeRange])
-
-  // Revenue trend
-  const revenueTrend = useMemo(() => {
-    const periodMap: Record<string, number> = {}
-    filteredOrders.forEach(order => {
-      const date = new Date(order.createdAt)
-      const periodKey = timeRange === '7d' 
-        ? date.toLocaleDateString('en-US', { weekday: 'short' })
-        : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-      
-      if (!periodMap[periodKey]) periodMap[periodKey] = 0
-      periodMap[periodKey] += order.total
-    })
-    return Object.entries(periodMap)
-      .map(([period, revenue]) => ({ period, revenue }))
-      .sort((a, b) => {
-        if (timeRange === '7d') {
-          const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
-          return days.indexOf(a.period) - days.indexOf(b.period)
-        }
-        return new Date(a.period).getTime() - new Date(b.period).getTime()
-      })
-  }, [filteredOrders, timeRange])
-
-  // Orders trend
-  const ordersTrend = useMemo(() => {
-    const periodMap: Record<string, number> = {}
-    filteredOrders.forEach(order => {
-      const date = new Date(order.createdAt)
-      const periodKey = timeRange === '7d' 
-        ? date.toLocaleDateString('en-US', { weekday: 'short' })
-        : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-      
-      if (!periodMap[periodKey]) periodMap[periodKey] = 0
-      periodMap[periodKey] += 1
-    })
-    return Object.entries(periodMap)
-      .map(([period, count]) => ({ period, count }))
-      .sort((a, b) => {
-        if (timeRange === '7d') {
-          const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
-          return days.indexOf(a.period) - days.indexOf(b.period)
-        }
-        return new Date(a.period).getTime() - new Date(b.period).getTime()
-      })
-  }, [filteredOrders, timeRange])
-
-  const chartData = revenueTrend.map((item, index) => ({
-    name: item.period,
-    revenue: item.revenue,
-    orders: ordersTrend[index]?.count || 0
-  }))
+  const chartData = useMemo(() => groupDaily(analytics?.daily || [], timeRange), [analytics?.daily, timeRange])
 
-  const totalRevenue = filteredOrders.reduce((sum, o) => sum + o.total, 0)
-  const avgOrderValue = filteredOrders.length > 0 ? totalRevenue / filteredOrders.length : 0
-  const growthRate = analytics?.revenueChange || 0
+  const totalRevenue = analytics?.totals.revenue || 0
+  const avgOrderValue = analytics?.totals.averageOrderValue || 0
+  const growthRate = analytics?.changes.revenue
 
   return (
     <div className="space-y-6">
@@ -1036,6 +869,11 @@ function PerformanceTrends({ analytics, formatPrice, themeClasses, timeRange }:
           <CardContent className="p-4">
             <p className={cn("text-sm mb-1", themeClasses.textNeutralSecondary)}>Total Revenue</p>
             <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{formatPrice(totalRevenue)}</p>
+            {!!analytics?.totals.refunds && (
+              <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+                After {formatPrice(analytics.totals.refunds)} in refunds
+              </p>
+            )}
           </CardContent>
         </Card>
         <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
@@ -1047,12 +885,19 @@ function PerformanceTrends({ analytics, formatPrice, themeClasses, timeRange }:
         <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
           <CardContent className="p-4">
             <p className={cn("text-sm mb-1", themeClasses.textNeutralSecondary)}>Growth Rate</p>
-            <div className="flex items-center gap-2">
-              <p className={cn("text-2xl font-bold", growthRate >= 0 ? "text-green-600" : "text-red-600")}>
-                {growthRate >= 0 ? '+' : ''}{growthRate.toFixed(1)}%
-              </p>
-              {growthRate >= 0 ? <ArrowUp className="w-5 h-5 text-green-600" /> : <ArrowDown className="w-5 h-5 text-red-600" />}
-            </div>
+            {growthRate == null ? (
+              <p className={cn("text-2xl font-bold", themeClasses.mainText)}>New</p>
+            ) : (
+              <div className="flex items-center gap-2">
+                <p className={cn("text-2xl font-bold", growthRate >= 0 ? "text-green-600" : "text-red-600")}>
+                  {growthRate >= 0 ? '+' : ''}{growthRate.toFixed(1)}%
+                </p>
+                {growthRate >= 0 ? <ArrowUp className="w-5 h-5 text-green-600" /> : <ArrowDown className="w-5 h-5 text-red-600" />}
+              </div>
+            )}
+            <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+              Revenue vs the previous {analytics?.range.days || 0} days
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -1092,56 +937,38 @@ function PerformanceTrends({ analytics, formatPrice, themeClasses, timeRange }:
           </ChartContainer>
         </CardContent>
       </Card>
+
+      {/* Views Trend Chart */}
+      <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
+        <CardHeader>
+          <CardTitle className={cn(themeClasses.mainText)}>Views Trend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={{ views: { label: 'Views', color: 'hsl(var(--chart-3))' } }}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line type="monotone" dataKey="views" stroke="var(--color-views)" strokeWidth={2} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
     </div>
   )
 }
 
 // Customer Insights Component
-function CustomerInsights({ analytics, formatPrice, themeClasses }: { 
+function CustomerInsights({ analytics, formatPrice, themeClasses }: {
   analytics: AnalyticsData | null
   formatPrice: (amount: number) => string
   themeClasses: any
 }) {
-  const customerData = useMemo(() => {
-    if (!analytics?.orders) return { uniqueCustomers: 0, repeatCustomers: 0, customerOrders: {}, avgOrderValue: 0 }
-    
-    const customerOrders: Record<string, number[]> = {}
-    analytics.orders.forEach(order => {
-      if (order.user_id) {
-        if (!customerOrders[order.user_id]) {
-          customerOrders[order.user_id] = []
-        }
-        customerOrders[order.user_id].push(order.total)
-      }
-    })
-
-    const uniqueCustomers = Object.keys(customerOrders).length
-    const repeatCustomers = Object.values(customerOrders).filter(orders => orders.length > 1).length
-    const allOrderValues = analytics.orders.map(o => o.total)
-    const avgOrderValue = allOrderValues.length > 0 
-      ? allOrderValues.reduce((sum, val) => sum + val, 0) / allOrderValues.length 
-      : 0
-
-    return { uniqueCustomers, repeatCustomers, customerOrders, avgOrderValue }
-  }, [analytics?.orders])
-
-  const topCustomers = useMemo(() => {
-    if (!analytics?.orders) return []
-    const customerMap: Record<string, { orders: number; totalSpent: number }> = {}
-    analytics.orders.forEach(order => {
-      if (order.user_id) {
-        if (!customerMap[order.user_id]) {
-          customerMap[order.user_id] = { orders: 0, totalSpent: 0 }
-        }
-        customerMap[order.user_id].orders += 1
-        customerMap[order.user_id].totalSpent += order.total
-      }
-    })
-    return Object.entries(customerMap)
-      .map(([id, data]) => ({ id, ...data }))
-      .sort((a, b) => b.totalSpent - a.totalSpent)
-      .slice(0, 5)
-  }, [analytics?.orders])
+  const uniqueCustomers = analytics?.customers.uniqueCustomers || 0
+  const repeatCustomers = analytics?.customers.repeatCustomers || 0
+  const avgOrderValue = analytics?.totals.averageOrderValue || 0
+  const topCustomers = analytics?.customers.topCustomers || []
 
   return (
     <div className="space-y-6">
@@ -1153,7 +980,7 @@ function CustomerInsights({ analytics, formatPrice, themeClasses }: {
               <Users className="w-5 h-5 text-blue-600" />
               <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>Unique Customers</p>
             </div>
-            <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{customerData.uniqueCustomers}</p>
+            <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{uniqueCustomers}</p>
           </CardContent>
         </Card>
         <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
@@ -1162,10 +989,10 @@ function CustomerInsights({ analytics, formatPrice, themeClasses }: {
               <ShoppingCart className="w-5 h-5 text-green-600" />
               <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>Repeat Customers</p>
             </div>
-            <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{customerData.repeatCustomers}</p>
+            <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{repeatCustomers}</p>
             <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
-              {customerData.uniqueCustomers > 0 
-                ? `${((customerData.repeatCustomers / customerData.uniqueCustomers) * 100).toFixed(1)}% retention`
+              {uniqueCustomers > 0
+                ? `${((repeatCustomers / uniqueCustomers) * 100).toFixed(1)}% retention`
                 : '0% retention'}
             </p>
           </CardContent>
@@ -1176,7 +1003,7 @@ function CustomerInsights({ analytics, formatPrice, themeClasses }: {
               <DollarSign className="w-5 h-5 text-yellow-600" />
               <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>Avg Order Value</p>
             </div>
-            <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{formatPrice(customerData.avgOrderValue)}</p>
+            <p className={cn("text-2xl font-bold", themeClasses.mainText)}>{formatPrice(avgOrderValue)}</p>
           </CardContent>
         </Card>
       </div>
@@ -1193,8 +1020,8 @@ function CustomerInsights({ analytics, formatPrice, themeClasses }: {
           <div className="space-y-2">
             {topCustomers.length > 0 ? (
               topCustomers.map((customer, index) => (
-                <div 
-                  key={customer.id} 
+                <div
+                  key={customer.id}
                   className={cn(
                     "group flex items-center justify-between p-4 rounded-lg border transition-all hover:shadow-sm",
                     themeClasses.cardBorder,
@@ -1204,8 +1031,8 @@ function CustomerInsights({ analytics, formatPrice, themeClasses }: {
                   <div className="flex items-center gap-4 flex-1 min-w-0">
                     <div className={cn(
                       "flex-shrink-0 w-10 h-10 rounded-lg flex items-center justify-center font-bold text-sm border-2",
-                      index === 0 
-                        ? "bg-primary/10 text-primary border-primary/20" 
+                      index === 0
+                        ? "bg-primary/10 text-primary border-primary/20"
                         : "bg-muted border-border"
                     )}>
                       {index + 1}
@@ -1234,69 +1061,44 @@ function CustomerInsights({ analytics, formatPrice, themeClasses }: {
 }
 
 // Business Intelligence Component
-function BusinessIntelligence({ analytics, formatPrice, themeClasses }: { 
+function BusinessIntelligence({ analytics, formatPrice, themeClasses }: {
   analytics: AnalyticsData | null
   formatPrice: (amount: number) => string
   themeClasses: any
 }) {
   const insights = useMemo(() => {
-    if (!analytics?.products || !analytics?.orders) return []
-
-    const productPerformance: Array<{
-      id: number
-      name: string
-      views: number
-      sales: number
-      revenue: number
-      conversionRate: number
-      recommendation: string
-    }> = []
+    if (!analytics?.products) return []
 
-    // Calculate sales for each product
-    const productSales: Record<number, number> = {}
-    const productRevenue: Record<number, number> = {}
-    analytics.orders.forEach(order => {
-      order.items.forEach(item => {
-        if (!productSales[item.product_id]) {
-          productSales[item.product_id] = 0
-          productRevenue[item.product_id] = 0
-        }
-        productSales[item.product_id] += item.quantity
-        productRevenue[item.product_id] += item.total_price
-      })
-    })
+    return analytics.products.map(product => {
+      const sales = product.unitsSold
+      const { views, conversionRate } = product
 
-    analytics.products.forEach(product => {
-      const sales = productSales[product.id] || 0
-      const revenue = productRevenue[product.id] || 0
-      const conversionRate = product.views > 0 ? (sales / product.views) * 100 : 0
-      
       let recommendation = ''
-      if (product.views > 100 && sales === 0) {
+      if (views > 100 && sales === 0) {
         recommendation = 'High views but no sales - Consider price reduction or better description'
-      } else if (product.views < 50 && sales > 0) {
+      } else if (views > 50 && product.addToCarts > 0 && product.orders === 0) {
+        recommendation = 'Added to carts but not bought - Review shipping costs and stock availability'
+      } else if (views < 50 && sales > 0) {
         recommendation = 'Low views but good sales - Increase visibility with featured placement'
-      } else if (conversionRate < 1 && product.views > 50) {
+      } else if (conversionRate < 1 && views > 50) {
         recommendation = 'Low conversion rate - Optimize product images and descriptions'
       } else if (sales > 10 && conversionRate > 5) {
         recommendation = 'Top performer - Consider increasing stock or creating variants'
-      } else if (product.views < 20) {
+      } else if (views < 20) {
         recommendation = 'Low visibility - Add more keywords and improve SEO'
       }
 
-      productPerformance.push({
-        id: product.id,
+      return {
+        id: product.productId,
         name: product.name,
-        views: product.views,
+        views,
         sales,
-        revenue,
+        revenue: product.revenue,
         conversionRate,
         recommendation
-      })
-    })
-
-    return productPerformance.filter(p => p.recommendation).slice(0, 10)
-  }, [analytics?.products, analytics?.orders])
+      }
+    }).filter(p => p.recommendation).slice(0, 10)
+  }, [analytics?.products])
 
   const lowPerformers = insights.filter(i => i.views > 50 && i.sales === 0)
   const highPerformers = insights.filter(i => i.sales > 10 && i.conversionRate > 5)
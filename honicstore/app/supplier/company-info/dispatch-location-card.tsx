@@ -0,0 +1,247 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTheme } from '@/hooks/use-theme'
+import { cn } from '@/lib/utils'
+import { Truck, LocateFixed, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+
+interface DispatchLocationCardProps {
+  regions: string[]
+  // Company region, offered until a dispatch location is saved
+  defaultRegion?: string
+}
+
+const EMPTY_LOCATION = { region: '', district: '', ward: '', address: '', lat: '', lon: '' }
+
+type DispatchLocationForm = typeof EMPTY_LOCATION
+
+/**
+ * Where this supplier's shipments leave from. Shipping for their items is priced by distance from
+ * here; saving it does not send the company details back for review.
+ */
+export function DispatchLocationCard({ regions, defaultRegion }: DispatchLocationCardProps) {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const [form, setForm] = useState<DispatchLocationForm>(EMPTY_LOCATION)
+  const [isSaved, setIsSaved] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isLocating, setIsLocating] = useState(false)
+
+  useEffect(() => {
+    const fetchLocation = async () => {
+      try {
+        const response = await fetch('/api/supplier/dispatch-location', { credentials: 'include' })
+        const data = await response.json()
+        if (response.ok && data.location) {
+          const location = data.location
+          setForm({
+            region: location.region || '',
+            district: location.district || '',
+            ward: location.ward || '',
+            address: location.address || '',
+            lat: location.lat !== null ? String(location.lat) : '',
+            lon: location.lon !== null ? String(location.lon) : ''
+          })
+          setIsSaved(true)
+        }
+      } catch {
+        // The card still works as a blank form
+      }
+    }
+    fetchLocation()
+  }, [])
+
+  useEffect(() => {
+    if (!isSaved && defaultRegion) {
+      setForm(prev => (prev.region ? prev : { ...prev, region: defaultRegion }))
+    }
+  }, [defaultRegion, isSaved])
+
+  const update = (field: keyof DispatchLocationForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: 'Location unavailable', description: 'Your browser does not share its location', variant: 'destructive' })
+      return
+    }
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setForm(prev => ({
+          ...prev,
+          lat: position.coords.latitude.toFixed(6),
+          lon: position.coords.longitude.toFixed(6)
+        }))
+        setIsLocating(false)
+      },
+      () => {
+        toast({ title: 'Location unavailable', description: 'Allow location access or enter the coordinates', variant: 'destructive' })
+        setIsLocating(false)
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    )
+  }
+
+  const handleSave = async () => {
+    let response: Response | null = null
+    let data: any = {}
+    try {
+      setIsSaving(true)
+      response = await fetch('/api/supplier/dispatch-location', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...form,
+          lat: form.lat.trim() || null,
+          lon: form.lon.trim() || null
+        })
+      })
+      data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to save dispatch location')
+      }
+      setIsSaved(true)
+      toast({ title: 'Dispatch location saved', description: 'Shipping for your products is now priced from here.' })
+    } catch (error) {
+      toast({
+        title: 'Dispatch location not saved',
+        description: response && response.status < 500 && data.error
+          ? data.error
+          : getFriendlyErrorMessage(error, 'Unable to save dispatch location. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const inputClass = cn('text-sm', themeClasses.cardBg, themeClasses.borderNeutralSecondary)
+
+  return (
+    <Card className={cn('border-2 mt-4 sm:mt-6', themeClasses.cardBorder, themeClasses.cardBg)}>
+      <CardContent className="p-4 sm:p-6 space-y-4 sm:space-y-5">
+        <div className="flex items-start gap-3">
+          <div className="w-9 h-9 rounded-lg bg-yellow-500/10 flex items-center justify-center flex-shrink-0">
+            <Truck className="w-5 h-5 text-yellow-600" />
+          </div>
+          <div>
+            <h2 className={cn('font-semibold text-base sm:text-lg', themeClasses.mainText)}>Dispatch Location</h2>
+            <p className={cn('text-[10px] sm:text-xs mt-1', themeClasses.textNeutralSecondary)}>
+              Where your orders are packed and handed to the courier. Customers pay shipping from here
+              {isSaved ? '.' : '; until you set it, shipping is priced from the Honic store.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+          <div>
+            <Label htmlFor="dispatchRegion" className={cn('text-sm', themeClasses.mainText)}>Region *</Label>
+            <Select value={form.region} onValueChange={(value) => update('region', value)}>
+              <SelectTrigger id="dispatchRegion" className={cn('mt-1', inputClass)}>
+                <SelectValue placeholder="Select region" />
+              </SelectTrigger>
+              <SelectContent>
+                {regions.map((region) => (
+                  <SelectItem key={region} value={region}>
+                    {region}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="dispatchDistrict" className={cn('text-sm', themeClasses.mainText)}>District</Label>
+            <Input
+              id="dispatchDistrict"
+              value={form.district}
+              onChange={(e) => update('district', e.target.value)}
+              maxLength={100}
+              placeholder="e.g. Ilala"
+              className={cn('mt-1', inputClass)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="dispatchWard" className={cn('text-sm', themeClasses.mainText)}>Ward</Label>
+            <Input
+              id="dispatchWard"
+              value={form.ward}
+              onChange={(e) => update('ward', e.target.value)}
+              maxLength={100}
+              placeholder="e.g. Kariakoo"
+              className={cn('mt-1', inputClass)}
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="dispatchAddress" className={cn('text-sm', themeClasses.mainText)}>Street address</Label>
+          <Input
+            id="dispatchAddress"
+            value={form.address}
+            onChange={(e) => update('address', e.target.value)}
+            maxLength={300}
+            placeholder="Building, street or landmark"
+            className={cn('mt-1', inputClass)}
+          />
+        </div>
+
+        <div>
+          <Label className={cn('text-sm', themeClasses.mainText)}>Coordinates</Label>
+          <p className={cn('text-[10px] sm:text-xs mt-1 mb-2', themeClasses.textNeutralSecondary)}>
+            Optional. With coordinates, delivery distance is measured from your door instead of the region.
+          </p>
+          <div className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_auto] gap-2 sm:gap-3">
+            <Input
+              type="number"
+              step="any"
+              value={form.lat}
+              onChange={(e) => update('lat', e.target.value)}
+              placeholder="Latitude"
+              aria-label="Latitude"
+              className={inputClass}
+            />
+            <Input
+              type="number"
+              step="any"
+              value={form.lon}
+              onChange={(e) => update('lon', e.target.value)}
+              placeholder="Longitude"
+              aria-label="Longitude"
+              className={inputClass}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleUseCurrentLocation}
+              disabled={isLocating}
+              className="col-span-2 sm:col-span-1 text-sm"
+            >
+              <LocateFixed className="w-4 h-4 mr-2" />
+              {isLocating ? 'Locating...' : 'Use my current location'}
+            </Button>
+          </div>
+        </div>
+
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !form.region}
+          className="w-full sm:w-auto bg-yellow-500 hover:bg-yellow-600 text-neutral-950 text-sm sm:text-base"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Dispatch Location'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
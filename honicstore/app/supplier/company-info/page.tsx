@@ -14,6 +14,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useToast } from '@/hooks/use-toast'
 import { SupplierRouteGuard } from '@/components/supplier-route-guard'
+import { DispatchLocationCard } from './dispatch-location-card'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -1082,6 +1083,8 @@ function CompanyInfoPageContent() {
                   </form>
                 </CardContent>
               </Card>
+
+              <DispatchLocationCard regions={TANZANIA_REGIONS} defaultRegion={formData.region} />
             </div>
           </div>
         </div>
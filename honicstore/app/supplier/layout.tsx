@@ -25,6 +25,9 @@ import {
   Sun,
   Settings,
   History,
+  MessageCircle,
+  MessageSquare,
+  ClipboardList,
 } from "lucide-react"
 import { supabaseClient } from '@/lib/supabase-client'
 
@@ -104,6 +107,9 @@ export default function SupplierLayout({ children }: { children: React.ReactNode
     { name: tNav('products'), href: "/supplier/products", icon: Package },
     { name: 'Current Orders', href: "/supplier/orders", icon: ShoppingCart },
     { name: 'Order History', href: "/supplier/orders/history", icon: History },
+    { name: 'Messages', href: "/supplier/messages", icon: MessageCircle },
+    { name: 'Quote Requests', href: "/supplier/quotes", icon: ClipboardList },
+    { name: 'Reviews', href: "/supplier/reviews", icon: MessageSquare },
     { name: tNav('analytics'), href: "/supplier/analytics", icon: TrendingUp },
     { name: tNav('marketing'), href: "/supplier/marketing", icon: Megaphone },
     { name: tNav('featured'), href: "/supplier/featured", icon: Star },
@@ -121,6 +127,7 @@ export default function SupplierLayout({ children }: { children: React.ReactNode
   const [hasValidPremiumPayment, setHasValidPremiumPayment] = useState<boolean>(false)
   const [paymentStatus, setPaymentStatus] = useState<string | null>(null)
   const [unreadOrderCount, setUnreadOrderCount] = useState(0)
+  const [unreadMessageCount, setUnreadMessageCount] = useState(0)
   const [isActive, setIsActive] = useState<boolean | null>(null)
   const [userCompanyName, setUserCompanyName] = useState<string | null>(null)
   const [userCompanyLogo, setUserCompanyLogo] = useState<string | null>(null)
@@ -511,6 +518,39 @@ export default function SupplierLayout({ children }: { children: React.ReactNode
     }
   }, [user?.id, isAuthenticated]) // Only depend on user.id
 
+  // Unread buyer messages badge
+  useEffect(() => {
+    if (!isAuthenticated || !user) return
+
+    const fetchUnreadMessageCount = async () => {
+      try {
+        const response = await fetch('/api/supplier/messages/unread-count', {
+          credentials: 'include'
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          if (data.success) {
+            setUnreadMessageCount(data.unreadCount || 0)
+          }
+        }
+      } catch (error) {
+        // Keep the last known count on network errors
+      }
+    }
+
+    fetchUnreadMessageCount()
+    const interval = setInterval(fetchUnreadMessageCount, 30000)
+
+    // The messages page fires this after a conversation is opened and marked read
+    window.addEventListener('supplier-messages-read', fetchUnreadMessageCount)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('supplier-messages-read', fetchUnreadMessageCount)
+    }
+  }, [user?.id, isAuthenticated])
+
   const handleDocumentUpload = async (event: React.ChangeEvent<HTMLInputElement>, type: 'business_tin_certificate' | 'company_certificate') => {
     const file = event.target.files?.[0]
     if (!file) return
@@ -721,13 +761,14 @@ export default function SupplierLayout({ children }: { children: React.ReactNode
       return []
     }
     
-    // For Winga users, only show: Dashboard, Products, Orders, Payout Accounts, Account Settings, Support, and Winga Business Info
+    // For Winga users, only show: Dashboard, Products, Orders, Messages, Payout Accounts, Account Settings, Support, and Winga Business Info
     if (isWingaPlan) {
       return allNavigation
         .filter(item => 
           item.href === "/supplier/dashboard" || 
           item.href === "/supplier/products" || 
           item.href === "/supplier/orders" ||
+          item.href === "/supplier/messages" ||
           item.href === "/supplier/payouts" ||
           item.href === "/supplier/account/settings" ||
           item.href === "/supplier/support" ||
@@ -813,6 +854,7 @@ export default function SupplierLayout({ children }: { children: React.ReactNode
                 const Icon = item.icon
                 const isActive = pathname === item.href || pathname?.startsWith(item.href + '/')
                 const showBadge = item.name === 'Orders' && unreadOrderCount > 0
+                const showMessageBadge = item.href === '/supplier/messages' && unreadMessageCount > 0
                 
                 return (
                   <Link
@@ -842,6 +884,11 @@ export default function SupplierLayout({ children }: { children: React.ReactNode
                         {unreadOrderCount > 99 ? '99+' : unreadOrderCount}
                       </Badge>
                     )}
+                    {showMessageBadge && (
+                      <Badge className="ml-auto bg-red-500 text-white text-xs px-2 py-0.5 min-w-[20px] flex items-center justify-center rounded-full shadow-sm">
+                        {unreadMessageCount > 99 ? '99+' : unreadMessageCount}
+                      </Badge>
+                    )}
                   </Link>
                 )
               })
@@ -6,7 +6,7 @@ import { useTheme } from '@/hooks/use-theme'
 import { useCurrency } from '@/contexts/currency-context'
 import { cn } from '@/lib/utils'
 import { getFriendlyErrorMessage } from '@/lib/friendly-error'
-import { Megaphone, TrendingUp, Sparkles, Target, DollarSign, Calendar, Plus, Trash2, Edit, X, Upload, Image as ImageIcon, Video } from 'lucide-react'
+import { Megaphone, TrendingUp, Sparkles, Target, DollarSign, Calendar, Plus, Trash2, Edit, X, Upload, Image as ImageIcon, Video, BarChart3, Pause, Play, Square } from 'lucide-react'
 import Image from 'next/image'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -31,6 +31,64 @@ import {
 } from '@/components/ui/select'
 import Link from 'next/link'
 
+interface AdPerformance {
+  advertisementId: number
+  title: string
+  placement: string
+  isActive: boolean
+  impressions: number
+  clicks: number
+  ctr: number
+  orders: number
+  revenue: number
+}
+
+interface AdReport {
+  days: number
+  from: string
+  to: string
+  windowDays: number
+  totals: { impressions: number; clicks: number; ctr: number; orders: number; revenue: number }
+  ads: AdPerformance[]
+}
+
+interface AdCampaign {
+  id: number
+  name: string
+  advertisementId: number
+  advertisementTitle: string | null
+  placement: string
+  categoryId: number | null
+  categoryName: string | null
+  startsAt: string
+  endsAt: string | null
+  dailyImpressionCap: number | null
+  dailyBudget: number | null
+  status: 'active' | 'paused' | 'ended'
+  state: 'pending_approval' | 'scheduled' | 'running' | 'capped' | 'paused' | 'ended'
+  today: { impressions: number; allowance: number; spend: number }
+}
+
+const CAMPAIGN_STATE_BADGES: Record<AdCampaign['state'], { label: string; className: string }> = {
+  pending_approval: { label: 'Ad pending review', className: 'bg-yellow-500 text-black' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-500 text-white' },
+  running: { label: 'Running', className: 'bg-green-500 text-white' },
+  capped: { label: 'Daily cap reached', className: 'bg-orange-500 text-white' },
+  paused: { label: 'Paused', className: 'bg-gray-500 text-white' },
+  ended: { label: 'Ended', className: 'bg-gray-300 text-gray-700' },
+}
+
+const EMPTY_CAMPAIGN_FORM = {
+  name: '',
+  advertisementId: '',
+  placement: 'products',
+  categoryId: 'all',
+  startsAt: '',
+  endsAt: '',
+  dailyImpressionCap: '',
+  dailyBudget: ''
+}
+
 interface Promotion {
   id: string
   name: string
@@ -68,6 +126,16 @@ export default function SupplierMarketingPage() {
   const [selectedAdFile, setSelectedAdFile] = useState<File | null>(null)
   const [previewAdUrl, setPreviewAdUrl] = useState<string | null>(null)
   const [isUploadingAd, setIsUploadingAd] = useState(false)
+  const [adReport, setAdReport] = useState<AdReport | null>(null)
+  const [adReportDays, setAdReportDays] = useState('30')
+  const [loadingAdReport, setLoadingAdReport] = useState(false)
+  const [campaigns, setCampaigns] = useState<AdCampaign[]>([])
+  const [loadingCampaigns, setLoadingCampaigns] = useState(false)
+  const [isCampaignDialogOpen, setIsCampaignDialogOpen] = useState(false)
+  const [campaignForm, setCampaignForm] = useState(EMPTY_CAMPAIGN_FORM)
+  const [isSavingCampaign, setIsSavingCampaign] = useState(false)
+  const [updatingCampaignId, setUpdatingCampaignId] = useState<number | null>(null)
+  const [campaignCategories, setCampaignCategories] = useState<Array<{ id: number; name: string }>>([])
   const [adFormData, setAdFormData] = useState({
     title: '',
     description: '',
@@ -104,15 +172,28 @@ export default function SupplierMarketingPage() {
   useEffect(() => {
     if (isPremiumPlan) {
       fetchAdvertisements()
+      fetchCampaigns()
     }
   }, [isPremiumPlan])
 
+  useEffect(() => {
+    if (isCampaignDialogOpen && campaignCategories.length === 0) {
+      fetchCampaignCategories()
+    }
+  }, [isCampaignDialogOpen])
+
   useEffect(() => {
     if (isPremiumPlan) {
       fetchProducts()
     }
   }, [isPremiumPlan])
 
+  useEffect(() => {
+    if (isPremiumPlan) {
+      fetchAdReport(adReportDays)
+    }
+  }, [isPremiumPlan, adReportDays])
+
   const fetchProducts = async () => {
     try {
       setLoadingProducts(true)
@@ -388,6 +469,152 @@ export default function SupplierMarketingPage() {
     }
   }
 
+  const fetchCampaigns = async () => {
+    try {
+      setLoadingCampaigns(true)
+      const response = await fetch('/api/supplier/advertisements/campaigns', {
+        credentials: 'include'
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to load campaigns')
+      }
+
+      setCampaigns(data.campaigns || [])
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to load campaigns. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setLoadingCampaigns(false)
+    }
+  }
+
+  const fetchCampaignCategories = async () => {
+    try {
+      const response = await fetch('/api/categories')
+      const data = await response.json()
+      if (data.success) {
+        setCampaignCategories(
+          (data.categories || [])
+            .filter((category: any) => category.is_main && typeof category.id === 'number')
+            .map((category: any) => ({ id: category.id, name: category.name }))
+        )
+      }
+    } catch (error) {
+      // Targeting stays "All categories" if the list can't be loaded
+    }
+  }
+
+  const handleCreateCampaign = async () => {
+    try {
+      setIsSavingCampaign(true)
+      const response = await fetch('/api/supplier/advertisements/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: campaignForm.name,
+          advertisementId: Number(campaignForm.advertisementId),
+          placement: campaignForm.placement,
+          categoryId: campaignForm.categoryId === 'all' ? null : Number(campaignForm.categoryId),
+          startsAt: campaignForm.startsAt ? new Date(campaignForm.startsAt).toISOString() : null,
+          endsAt: campaignForm.endsAt ? new Date(campaignForm.endsAt).toISOString() : null,
+          dailyImpressionCap: campaignForm.dailyImpressionCap || null,
+          dailyBudget: campaignForm.dailyBudget || null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        toast({
+          title: 'Campaign not created',
+          description: response.status < 500 && data.error
+            ? data.error
+            : getFriendlyErrorMessage(response.status, 'Unable to create the campaign. Please try again.'),
+          variant: 'destructive'
+        })
+        return
+      }
+
+      setCampaigns(prev => [data.campaign, ...prev])
+      setIsCampaignDialogOpen(false)
+      setCampaignForm(EMPTY_CAMPAIGN_FORM)
+      toast({ title: 'Campaign created', description: 'Your advertisement will rotate while the campaign is running.' })
+    } catch (error) {
+      toast({
+        title: 'Campaign not created',
+        description: getFriendlyErrorMessage(error, 'Unable to create the campaign. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSavingCampaign(false)
+    }
+  }
+
+  const handleCampaignAction = async (campaign: AdCampaign, action: 'pause' | 'resume' | 'end') => {
+    if (action === 'end' && !confirm('End this campaign? Ended campaigns cannot be resumed.')) return
+
+    try {
+      setUpdatingCampaignId(campaign.id)
+      const response = await fetch(`/api/supplier/advertisements/campaigns/${campaign.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        toast({
+          title: 'Campaign not updated',
+          description: response.status < 500 && data.error
+            ? data.error
+            : getFriendlyErrorMessage(response.status, 'Unable to update the campaign. Please try again.'),
+          variant: 'destructive'
+        })
+        return
+      }
+
+      setCampaigns(prev => prev.map(item => item.id === campaign.id ? data.campaign : item))
+    } catch (error) {
+      toast({
+        title: 'Campaign not updated',
+        description: getFriendlyErrorMessage(error, 'Unable to update the campaign. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setUpdatingCampaignId(null)
+    }
+  }
+
+  const fetchAdReport = async (days: string) => {
+    try {
+      setLoadingAdReport(true)
+      const response = await fetch(`/api/supplier/advertisements/report?days=${days}`, {
+        credentials: 'include'
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to load advertisement performance')
+      }
+
+      setAdReport(data.report)
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to load advertisement performance. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setLoadingAdReport(false)
+    }
+  }
+
   const handleAdFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
@@ -930,6 +1157,176 @@ export default function SupplierMarketingPage() {
             </CardContent>
           </Card>
 
+          {/* Advertisement Campaigns */}
+          <Card className={cn("border-2", themeClasses.cardBorder, themeClasses.cardBg)}>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <div>
+                <CardTitle className={cn(themeClasses.mainText)}>Campaigns</CardTitle>
+                <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+                  Only advertisements in a running campaign are shown to buyers. Campaigns stop for the day once their cap is reached.
+                </p>
+              </div>
+              <Button
+                onClick={() => setIsCampaignDialogOpen(true)}
+                className="bg-yellow-500 hover:bg-yellow-600 text-black"
+                size="sm"
+                disabled={advertisements.length === 0}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Campaign
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {loadingCampaigns ? (
+                <p className={cn("text-sm text-center", themeClasses.textNeutralSecondary)}>Loading...</p>
+              ) : campaigns.length === 0 ? (
+                <p className={cn("text-sm text-center py-4", themeClasses.textNeutralSecondary)}>
+                  No campaigns yet. Create an advertisement, then schedule it in a campaign.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {campaigns.map(campaign => {
+                    const badge = CAMPAIGN_STATE_BADGES[campaign.state]
+                    const isUpdating = updatingCampaignId === campaign.id
+                    return (
+                      <div
+                        key={campaign.id}
+                        className={cn("flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-lg border", themeClasses.cardBorder)}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2 mb-1">
+                            <h3 className={cn("font-semibold text-sm", themeClasses.mainText)}>{campaign.name}</h3>
+                            <Badge className={badge.className}>{badge.label}</Badge>
+                          </div>
+                          <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>
+                            {campaign.advertisementTitle || 'Advertisement'} · <span className="capitalize">{campaign.placement}</span>
+                            {campaign.categoryName ? ` · ${campaign.categoryName}` : ''}
+                            {' · '}
+                            {new Date(campaign.startsAt).toLocaleDateString()} – {campaign.endsAt ? new Date(campaign.endsAt).toLocaleDateString() : 'no end date'}
+                          </p>
+                          <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+                            Today: {campaign.today.impressions.toLocaleString()} / {campaign.today.allowance.toLocaleString()} impressions
+                            {campaign.dailyBudget !== null && ` · ${formatPrice(campaign.today.spend)} of ${formatPrice(campaign.dailyBudget)} budget`}
+                          </p>
+                        </div>
+                        {campaign.state !== 'ended' && (
+                          <div className="flex gap-2">
+                            {campaign.status === 'paused' ? (
+                              <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => handleCampaignAction(campaign, 'resume')}>
+                                <Play className="w-4 h-4 mr-1" />
+                                Resume
+                              </Button>
+                            ) : (
+                              <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => handleCampaignAction(campaign, 'pause')}>
+                                <Pause className="w-4 h-4 mr-1" />
+                                Pause
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={isUpdating}
+                              onClick={() => handleCampaignAction(campaign, 'end')}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Square className="w-4 h-4 mr-1" />
+                              End
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Advertisement Performance */}
+          <Card className={cn("border-2", themeClasses.cardBorder, themeClasses.cardBg)}>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <div>
+                <CardTitle className={cn("flex items-center gap-2", themeClasses.mainText)}>
+                  <BarChart3 className="w-5 h-5" />
+                  Advertisement Performance
+                </CardTitle>
+                {adReport && (
+                  <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+                    Orders count when a logged-in buyer orders your products within {adReport.windowDays} days of clicking your ad
+                  </p>
+                )}
+              </div>
+              <Select value={adReportDays} onValueChange={setAdReportDays}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">Last 7 days</SelectItem>
+                  <SelectItem value="30">Last 30 days</SelectItem>
+                  <SelectItem value="90">Last 90 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {loadingAdReport && !adReport ? (
+                <p className={cn("text-sm text-center", themeClasses.textNeutralSecondary)}>Loading...</p>
+              ) : !adReport || adReport.ads.length === 0 ? (
+                <p className={cn("text-sm text-center py-4", themeClasses.textNeutralSecondary)}>
+                  Performance will show here once your advertisements are live.
+                </p>
+              ) : (
+                <div className={cn("space-y-4", loadingAdReport && "opacity-60")}>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {[
+                      { label: 'Impressions', value: adReport.totals.impressions.toLocaleString() },
+                      { label: 'Clicks', value: adReport.totals.clicks.toLocaleString() },
+                      { label: 'CTR', value: `${adReport.totals.ctr}%` },
+                      { label: 'Attributed orders', value: adReport.totals.orders.toLocaleString(), hint: formatPrice(adReport.totals.revenue) },
+                    ].map(stat => (
+                      <div key={stat.label} className={cn("p-3 rounded-lg border", themeClasses.cardBorder)}>
+                        <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>{stat.label}</p>
+                        <p className={cn("text-xl font-bold", themeClasses.mainText)}>{stat.value}</p>
+                        {stat.hint && <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>{stat.hint}</p>}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className={cn("text-left text-xs border-b", themeClasses.textNeutralSecondary, themeClasses.cardBorder)}>
+                          <th className="py-2 pr-4 font-medium">Advertisement</th>
+                          <th className="py-2 pr-4 font-medium">Placement</th>
+                          <th className="py-2 pr-4 font-medium text-right">Impressions</th>
+                          <th className="py-2 pr-4 font-medium text-right">Clicks</th>
+                          <th className="py-2 pr-4 font-medium text-right">CTR</th>
+                          <th className="py-2 pr-4 font-medium text-right">Orders</th>
+                          <th className="py-2 font-medium text-right">Revenue</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {adReport.ads.map(ad => (
+                          <tr key={ad.advertisementId} className={cn("border-b last:border-b-0", themeClasses.cardBorder, themeClasses.mainText)}>
+                            <td className="py-2 pr-4">
+                              <span className="font-medium">{ad.title}</span>
+                              {!ad.isActive && <span className={cn("ml-2 text-xs", themeClasses.textNeutralSecondary)}>(inactive)</span>}
+                            </td>
+                            <td className="py-2 pr-4 capitalize">{ad.placement}</td>
+                            <td className="py-2 pr-4 text-right">{ad.impressions.toLocaleString()}</td>
+                            <td className="py-2 pr-4 text-right">{ad.clicks.toLocaleString()}</td>
+                            <td className="py-2 pr-4 text-right">{ad.ctr}%</td>
+                            <td className="py-2 pr-4 text-right">{ad.orders}</td>
+                            <td className="py-2 text-right">{formatPrice(ad.revenue)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Marketing Tools */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {marketingTools.map((tool, index) => {
@@ -1201,6 +1598,165 @@ export default function SupplierMarketingPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Create Campaign Dialog */}
+      <Dialog open={isCampaignDialogOpen} onOpenChange={(open) => {
+        setIsCampaignDialogOpen(open)
+        if (!open) setCampaignForm(EMPTY_CAMPAIGN_FORM)
+      }}>
+        <DialogContent className={cn("sm:max-w-[600px] max-h-[90vh] overflow-y-auto shadow-xl bg-white dark:bg-neutral-900", themeClasses.cardBorder)}>
+          <DialogHeader>
+            <DialogTitle className={cn(themeClasses.mainText)}>
+              New Campaign
+            </DialogTitle>
+            <DialogDescription className={cn(themeClasses.textNeutralSecondary)}>
+              Choose when and where your advertisement runs and how much it may show per day.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 mt-4">
+            <div>
+              <Label htmlFor="campaignName" className={cn(themeClasses.mainText)}>Campaign Name *</Label>
+              <Input
+                id="campaignName"
+                value={campaignForm.name}
+                onChange={(e) => setCampaignForm({ ...campaignForm, name: e.target.value })}
+                placeholder="e.g., December sale"
+                maxLength={100}
+                className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}
+              />
+            </div>
+            <div>
+              <Label className={cn(themeClasses.mainText)}>Advertisement *</Label>
+              <Select
+                value={campaignForm.advertisementId}
+                onValueChange={(value) => setCampaignForm({ ...campaignForm, advertisementId: value })}
+              >
+                <SelectTrigger className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}>
+                  <SelectValue placeholder="Select an advertisement" />
+                </SelectTrigger>
+                <SelectContent>
+                  {advertisements.map((ad) => (
+                    <SelectItem key={ad.id} value={String(ad.id)}>
+                      {ad.title}{ad.is_active ? '' : ' (pending review)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className={cn(themeClasses.mainText)}>Placement</Label>
+                <Select
+                  value={campaignForm.placement}
+                  onValueChange={(value) => setCampaignForm({ ...campaignForm, placement: value })}
+                >
+                  <SelectTrigger className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="products">Products Page</SelectItem>
+                    <SelectItem value="home">Home Page</SelectItem>
+                    <SelectItem value="china">China Page</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className={cn(themeClasses.mainText)}>Category</Label>
+                <Select
+                  value={campaignForm.categoryId}
+                  onValueChange={(value) => setCampaignForm({ ...campaignForm, categoryId: value })}
+                >
+                  <SelectTrigger className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All categories</SelectItem>
+                    {campaignCategories.map((category) => (
+                      <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="campaignStartsAt" className={cn(themeClasses.mainText)}>Start</Label>
+                <Input
+                  id="campaignStartsAt"
+                  type="datetime-local"
+                  value={campaignForm.startsAt}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, startsAt: e.target.value })}
+                  className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}
+                />
+                <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>Leave empty to start now</p>
+              </div>
+              <div>
+                <Label htmlFor="campaignEndsAt" className={cn(themeClasses.mainText)}>End</Label>
+                <Input
+                  id="campaignEndsAt"
+                  type="datetime-local"
+                  value={campaignForm.endsAt}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, endsAt: e.target.value })}
+                  className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}
+                />
+                <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>Leave empty to run until ended</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="campaignImpressionCap" className={cn(themeClasses.mainText)}>Daily Impressions</Label>
+                <Input
+                  id="campaignImpressionCap"
+                  type="number"
+                  min="1"
+                  value={campaignForm.dailyImpressionCap}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, dailyImpressionCap: e.target.value })}
+                  placeholder="e.g., 5000"
+                  className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="campaignBudget" className={cn(themeClasses.mainText)}>Daily Budget</Label>
+                <Input
+                  id="campaignBudget"
+                  type="number"
+                  min="1"
+                  value={campaignForm.dailyBudget}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, dailyBudget: e.target.value })}
+                  placeholder="e.g., 10000"
+                  className={cn("mt-1", themeClasses.cardBg, themeClasses.borderNeutralSecondary)}
+                />
+              </div>
+            </div>
+            <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>
+              Set at least one limit. With both, the campaign stops for the day at whichever is reached first.
+            </p>
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setIsCampaignDialogOpen(false)
+                  setCampaignForm(EMPTY_CAMPAIGN_FORM)
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreateCampaign}
+                className="bg-yellow-500 hover:bg-yellow-600 text-black"
+                disabled={
+                  isSavingCampaign ||
+                  !campaignForm.name.trim() ||
+                  !campaignForm.advertisementId ||
+                  (!campaignForm.dailyImpressionCap && !campaignForm.dailyBudget)
+                }
+              >
+                {isSavingCampaign ? 'Creating...' : 'Create Campaign'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Create Advertisement Dialog */}
       <Dialog open={isAdDialogOpen} onOpenChange={(open) => {
         setIsAdDialogOpen(open)
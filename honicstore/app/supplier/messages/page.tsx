@@ -0,0 +1,218 @@
+'use client'
+
+import { useState, useEffect, useCallback, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Image from 'next/image'
+import { useTheme } from '@/hooks/use-theme'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+import { MessageCircle, RefreshCw, Search, ShoppingBag, Package } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { MessageConversation } from '@/components/message-conversation'
+
+interface MessageThread {
+  threadNumber: string
+  subject: string
+  counterpartName: string
+  productId: number | null
+  productName: string | null
+  productImage: string | null
+  orderNumber: string | null
+  lastMessageAt: string
+  lastMessagePreview: string | null
+  unreadCount: number
+}
+
+export default function SupplierMessagesPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-500 mx-auto"></div>
+          <p className="mt-4 text-gray-600 dark:text-gray-400">Loading messages...</p>
+        </div>
+      </div>
+    }>
+      <SupplierMessagesContent />
+    </Suspense>
+  )
+}
+
+function SupplierMessagesContent() {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [threads, setThreads] = useState<MessageThread[]>([])
+  const [searchTerm, setSearchTerm] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  const selectedThreadNumber = searchParams.get('thread')
+  const selectedThread = threads.find(thread => thread.threadNumber === selectedThreadNumber) || null
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/supplier/messages', { credentials: 'include' })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to load messages')
+      }
+
+      setThreads(data.threads || [])
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to load messages. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchThreads()
+  }, [fetchThreads])
+
+  // Opening a conversation marks it read, so the sidebar badge needs a refresh
+  const handleMessagesLoaded = useCallback(() => {
+    if (!selectedThreadNumber) return
+    setThreads(prev => prev.map(thread =>
+      thread.threadNumber === selectedThreadNumber ? { ...thread, unreadCount: 0 } : thread
+    ))
+    window.dispatchEvent(new Event('supplier-messages-read'))
+  }, [selectedThreadNumber])
+
+  const filteredThreads = threads.filter(thread => {
+    if (!searchTerm) return true
+    const term = searchTerm.toLowerCase()
+    return thread.subject.toLowerCase().includes(term) ||
+      thread.counterpartName.toLowerCase().includes(term) ||
+      (thread.orderNumber || '').toLowerCase().includes(term)
+  })
+
+  return (
+    <>
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className={cn("text-3xl font-bold mb-2", themeClasses.mainText)}>
+            Messages
+          </h1>
+          <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
+            Questions from buyers about your products and orders
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchThreads} disabled={loading}>
+          <RefreshCw className={cn("w-4 h-4 mr-2", loading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Conversation list */}
+        <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
+          <CardHeader>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search buyer, subject or order..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2 max-h-[36rem] overflow-y-auto">
+            {filteredThreads.length === 0 && (
+              <p className={cn("text-sm py-8 text-center", themeClasses.textNeutralSecondary)}>
+                {loading ? 'Loading messages...' : 'No buyer messages yet'}
+              </p>
+            )}
+            {filteredThreads.map(thread => (
+              <button
+                key={thread.threadNumber}
+                type="button"
+                onClick={() => router.push(`/supplier/messages?thread=${thread.threadNumber}`)}
+                className={cn(
+                  "w-full text-left p-3 rounded-lg border transition-colors",
+                  themeClasses.cardBorder,
+                  selectedThreadNumber === thread.threadNumber
+                    ? "bg-yellow-50 dark:bg-yellow-900/20"
+                    : "hover:bg-gray-50 dark:hover:bg-gray-800"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {thread.orderNumber ? <ShoppingBag className="w-4 h-4 flex-shrink-0" /> : <Package className="w-4 h-4 flex-shrink-0" />}
+                    <span className={cn("text-sm font-medium truncate", themeClasses.mainText)}>{thread.counterpartName}</span>
+                  </div>
+                  {thread.unreadCount > 0 && (
+                    <Badge className="bg-red-500 text-white text-[10px] px-1.5 py-0">{thread.unreadCount}</Badge>
+                  )}
+                </div>
+                <p className={cn("text-xs font-medium truncate", themeClasses.mainText)}>{thread.subject}</p>
+                <p className={cn("text-xs line-clamp-2", themeClasses.textNeutralSecondary)}>{thread.lastMessagePreview}</p>
+                <p className={cn("text-[10px] mt-1", themeClasses.textNeutralSecondary)}>
+                  {new Date(thread.lastMessageAt).toLocaleString()}
+                </p>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Conversation */}
+        <Card className={cn("lg:col-span-2", themeClasses.cardBg, themeClasses.cardBorder)}>
+          {selectedThreadNumber ? (
+            <>
+              <CardHeader>
+                <div className="flex items-start gap-3">
+                  {selectedThread?.productImage && (
+                    <div className="relative w-12 h-12 flex-shrink-0">
+                      <Image src={selectedThread.productImage} alt={selectedThread.productName || 'Product'} fill className="rounded object-cover" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <CardTitle className={cn("text-lg truncate", themeClasses.mainText)}>
+                      {selectedThread?.subject || 'Conversation'}
+                    </CardTitle>
+                    <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
+                      {[
+                        selectedThread?.counterpartName,
+                        selectedThread?.productName,
+                        selectedThread?.orderNumber && `Order ${selectedThread.orderNumber}`
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <MessageConversation
+                  apiBase="/api/supplier/messages"
+                  threadNumber={selectedThreadNumber}
+                  counterpartName={selectedThread?.counterpartName || 'Buyer'}
+                  onMessagesLoaded={handleMessagesLoaded}
+                  onMessageSent={fetchThreads}
+                />
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="p-8 text-center">
+              <MessageCircle className={cn("w-12 h-12 mx-auto mb-4", themeClasses.textNeutralSecondary)} />
+              <h3 className={cn("text-lg font-medium mb-2", themeClasses.mainText)}>Select a conversation</h3>
+              <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
+                Choose a buyer conversation from the list to read and reply.
+              </p>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTheme } from '@/hooks/use-theme'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+import { Printer, RefreshCw, Truck, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+
+interface CourierShipment {
+  id: string
+  carrier: string
+  tracking_number: string
+  tracking_url: string | null
+  estimated_delivery: string | null
+  status: string
+  last_event_at: string | null
+  last_location: string | null
+  created_at: string
+}
+
+interface CourierShipmentPanelProps {
+  confirmedOrderId: string
+  // Some of the supplier's items in the order have not shipped yet
+  canBook: boolean
+  // Booking, cancelling or a tracking refresh changed item status or tracking numbers
+  onChanged: () => void
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  booked: 'Awaiting collection',
+  collected: 'Collected',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  failed: 'Delivery attempt failed',
+  returned: 'Returned',
+  cancelled: 'Cancelled'
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  booked: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300',
+  delivered: 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300',
+  returned: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300',
+  cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300'
+}
+
+const OPEN_STATUSES = ['booked', 'collected', 'in_transit', 'out_for_delivery', 'failed']
+
+/**
+ * Courier bookings for the supplier's part of an order: book, print the label, follow tracking
+ * and cancel before the courier collects
+ */
+export function CourierShipmentPanel({ confirmedOrderId, canBook, onChanged }: CourierShipmentPanelProps) {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const [shipments, setShipments] = useState<CourierShipment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const fetchShipments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/supplier/shipments?confirmedOrderId=${encodeURIComponent(confirmedOrderId)}`, {
+        credentials: 'include'
+      })
+      const data = await response.json()
+      if (response.ok && data.success) {
+        setShipments(data.shipments || [])
+      }
+    } catch {
+      // Booking still works; the list fills in on the next open
+    } finally {
+      setLoading(false)
+    }
+  }, [confirmedOrderId])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchShipments()
+  }, [fetchShipments])
+
+  const run = async (key: string, action: () => Promise<Response>, fallback: string, success?: (data: any) => string) => {
+    let response: Response | null = null
+    let data: any = {}
+    try {
+      setBusy(key)
+      response = await action()
+      data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || fallback)
+      }
+      if (success) {
+        toast({ title: 'Courier', description: success(data) })
+      }
+      await fetchShipments()
+      onChanged()
+    } catch (error) {
+      toast({
+        title: 'Courier',
+        description: response && response.status < 500 && data.error
+          ? data.error
+          : getFriendlyErrorMessage(error, fallback),
+        variant: 'destructive'
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleBook = () => run(
+    'book',
+    () => fetch('/api/supplier/shipments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ confirmedOrderId })
+    }),
+    'Unable to book the courier. Please try again.',
+    data => data.message
+  )
+
+  const handleRefresh = (shipment: CourierShipment) => run(
+    shipment.id,
+    () => fetch(`/api/supplier/shipments/${shipment.id}`, { credentials: 'include' }),
+    'Unable to refresh tracking. Please try again.'
+  )
+
+  const handleCancel = (shipment: CourierShipment) => run(
+    shipment.id,
+    () => fetch(`/api/supplier/shipments/${shipment.id}`, { method: 'DELETE', credentials: 'include' }),
+    'Unable to cancel the booking. Please try again.',
+    data => data.message
+  )
+
+  const hasOpenBooking = shipments.some(shipment => OPEN_STATUSES.includes(shipment.status))
+
+  return (
+    <div className={cn('p-4 rounded-lg border space-y-3', themeClasses.cardBorder, themeClasses.cardBg)}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className={cn('font-semibold flex items-center gap-2', themeClasses.mainText)}>
+          <Truck className="w-4 h-4" />
+          Courier
+        </h3>
+        {canBook && !hasOpenBooking && (
+          <Button
+            size="sm"
+            onClick={handleBook}
+            disabled={busy !== null}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {busy === 'book' ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Truck className="w-4 h-4 mr-2" />}
+            {busy === 'book' ? 'Booking...' : 'Book Courier'}
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className={cn('text-sm', themeClasses.textNeutralSecondary)}>Loading bookings...</p>
+      ) : shipments.length === 0 ? (
+        <p className={cn('text-sm', themeClasses.textNeutralSecondary)}>
+          {canBook
+            ? 'Book a courier to get a tracking number and a printable label. Items are marked shipped once the courier collects them.'
+            : 'No courier bookings for this order.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {shipments.map(shipment => (
+            <div key={shipment.id} className={cn('rounded-md border p-3 text-sm space-y-2', themeClasses.cardBorder)}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className={cn('font-mono font-medium', themeClasses.mainText)}>{shipment.tracking_number}</p>
+                  <p className={cn('text-xs', themeClasses.textNeutralSecondary)}>
+                    {shipment.carrier} · booked {new Date(shipment.created_at).toLocaleDateString()}
+                    {shipment.estimated_delivery && shipment.status !== 'delivered' && (
+                      <> · expected {new Date(shipment.estimated_delivery).toLocaleDateString()}</>
+                    )}
+                  </p>
+                </div>
+                <Badge className={STATUS_COLORS[shipment.status] || 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300'}>
+                  {STATUS_LABELS[shipment.status] || shipment.status}
+                </Badge>
+              </div>
+              {shipment.last_location && (
+                <p className={cn('text-xs', themeClasses.textNeutralSecondary)}>
+                  Last seen at {shipment.last_location}
+                  {shipment.last_event_at && ` on ${new Date(shipment.last_event_at).toLocaleString()}`}
+                </p>
+              )}
+              {shipment.status !== 'cancelled' && (
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/supplier/shipments/${shipment.id}/label`} target="_blank" rel="noopener noreferrer">
+                      <Printer className="w-4 h-4 mr-2" />
+                      Print Label
+                    </a>
+                  </Button>
+                  {OPEN_STATUSES.includes(shipment.status) && (
+                    <Button size="sm" variant="outline" onClick={() => handleRefresh(shipment)} disabled={busy !== null}>
+                      <RefreshCw className={cn('w-4 h-4 mr-2', busy === shipment.id && 'animate-spin')} />
+                      Refresh Tracking
+                    </Button>
+                  )}
+                  {shipment.status === 'booked' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCancel(shipment)}
+                      disabled={busy !== null}
+                      className="text-red-600 border-red-300 hover:bg-red-50 dark:hover:bg-red-950/20"
+                    >
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Cancel Booking
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
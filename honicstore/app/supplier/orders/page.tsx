@@ -6,9 +6,10 @@ import { useCurrency } from '@/contexts/currency-context'
 import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
 import { getFriendlyErrorMessage } from '@/lib/friendly-error'
-import { ShoppingCart, Package, DollarSign, Calendar, Search, Eye, Truck, CheckCircle, RefreshCw } from 'lucide-react'
+import { ShoppingCart, Package, DollarSign, Calendar, Search, Eye, Truck, CheckCircle, RefreshCw, RotateCcw, XCircle, Clock } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import {
@@ -17,9 +18,11 @@ import {
   DialogHeader,
   DialogTitle,
   DialogDescription,
+  DialogFooter,
 } from '@/components/ui/dialog'
 import { supabaseClient } from '@/lib/supabase-client'
 import type { RealtimeChannel } from '@supabase/supabase-js'
+import { CourierShipmentPanel } from './courier-shipment-panel'
 
 interface OrderItem {
   id: string
@@ -44,6 +47,9 @@ interface Order {
   shipping_address: any
   billing_address: any
   delivery_option: string
+  // Same-day delivery window the buyer booked, e.g. "Morning 09:00-12:00"
+  delivery_slot_label: string | null
+  delivery_slot_date: string | null
   total_amount: number
   supplier_total: number
   payment_method: string
@@ -58,6 +64,34 @@ interface Order {
   total_items: number
 }
 
+interface ReturnRequest {
+  id: string
+  return_number: string
+  order_number: string
+  reason: string
+  details: string | null
+  photos: string[]
+  status: 'requested' | 'approved' | 'rejected'
+  refund_amount: number
+  supplier_note: string | null
+  created_at: string
+  items: {
+    product_name: string | null
+    variant_name: string | null
+    quantity: number
+    refund_amount: number
+  }[]
+}
+
+const RETURN_REASON_LABELS: Record<string, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or not working',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  missing_parts: 'Missing parts or accessories',
+  no_longer_needed: 'No longer needed'
+}
+
 export default function SupplierOrdersPage() {
   const { themeClasses } = useTheme()
   const { formatPrice } = useCurrency()
@@ -72,10 +106,17 @@ export default function SupplierOrdersPage() {
   const seenOrderIds = useRef<Set<string>>(new Set())
   const [updatingStatus, setUpdatingStatus] = useState<Set<string>>(new Set())
   const [isActive, setIsActive] = useState<boolean | null>(null)
+  const [returnRequests, setReturnRequests] = useState<ReturnRequest[]>([])
+  const [resolvingReturn, setResolvingReturn] = useState<string | null>(null)
+  const [rejectingReturn, setRejectingReturn] = useState<ReturnRequest | null>(null)
+  const [rejectNote, setRejectNote] = useState('')
+  const [cancellingItem, setCancellingItem] = useState<OrderItem | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
 
   useEffect(() => {
     fetchOrders()
     fetchSupplierStatus()
+    fetchReturnRequests()
     
     // Clear unread count when visiting orders page
     // This will trigger a refresh in the layout
@@ -277,7 +318,94 @@ export default function SupplierOrdersPage() {
     }
   }
 
+  const fetchReturnRequests = async () => {
+    try {
+      const response = await fetch('/api/supplier/returns?status=requested', { credentials: 'include' })
+      const data = await response.json()
+      if (response.ok && data.success) {
+        setReturnRequests(data.returns || [])
+      }
+    } catch {
+      // Return requests are secondary here, the orders list still loads
+    }
+  }
+
+  const handleResolveReturn = async (returnRequest: ReturnRequest, action: 'approve' | 'reject', note?: string) => {
+    try {
+      setResolvingReturn(returnRequest.id)
+      const response = await fetch(`/api/supplier/returns/${returnRequest.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ action, note }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to update return request')
+      }
+
+      toast({
+        title: action === 'approve' ? 'Return approved' : 'Return rejected',
+        description: data.message,
+      })
+      setRejectingReturn(null)
+      setRejectNote('')
+      await fetchReturnRequests()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to update return request. Please try again.'),
+        variant: 'destructive',
+      })
+    } finally {
+      setResolvingReturn(null)
+    }
+  }
+
+  const handleCancelItem = async (item: OrderItem, reason: string) => {
+    try {
+      setUpdatingStatus(prev => new Set(prev).add(item.id))
+      const response = await fetch(`/api/supplier/orders/items/${item.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: 'cancelled', reason }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to cancel this item')
+      }
+
+      toast({
+        title: 'Item cancelled',
+        description: data.message,
+      })
+      setCancellingItem(null)
+      setCancelReason('')
+      setIsDetailsOpen(false)
+      await fetchOrders()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to cancel this item. Please try again.'),
+        variant: 'destructive',
+      })
+    } finally {
+      setUpdatingStatus(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(item.id)
+        return newSet
+      })
+    }
+  }
+
   const handleRefresh = async () => {
+    await fetchReturnRequests()
     await fetchOrders(false, true, true)
     toast({
       title: 'Orders refreshed',
@@ -494,6 +622,77 @@ export default function SupplierOrdersPage() {
         </div>
       </div>
 
+      {/* Return Requests */}
+      {returnRequests.length > 0 && (
+        <Card className={cn("mb-6 border-2", themeClasses.cardBorder, themeClasses.cardBg)}>
+          <CardHeader>
+            <CardTitle className={cn("flex items-center gap-2 text-lg", themeClasses.mainText)}>
+              <RotateCcw className="w-5 h-5" />
+              Return Requests ({returnRequests.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {returnRequests.map((returnRequest) => (
+              <div key={returnRequest.id} className={cn("p-4 rounded-lg border", themeClasses.cardBorder)}>
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className={cn("font-semibold", themeClasses.mainText)}>
+                      {returnRequest.return_number}
+                      <span className={cn("ml-2 text-sm font-normal", themeClasses.textNeutralSecondary)}>
+                        Order #{returnRequest.order_number}
+                      </span>
+                    </p>
+                    <p className={cn("text-sm", themeClasses.mainText)}>
+                      {RETURN_REASON_LABELS[returnRequest.reason] || returnRequest.reason}
+                    </p>
+                    {returnRequest.details && (
+                      <p className={cn("text-sm italic", themeClasses.textNeutralSecondary)}>{returnRequest.details}</p>
+                    )}
+                    <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
+                      {returnRequest.items.map(item => `${item.quantity} × ${item.product_name || 'Item'}${item.variant_name ? ` (${item.variant_name})` : ''}`).join(', ')}
+                    </p>
+                    {returnRequest.photos?.length > 0 && (
+                      <div className="flex flex-wrap gap-2 pt-1">
+                        {returnRequest.photos.map(url => (
+                          <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                            <img src={url} alt="Return photo" className="w-14 h-14 rounded object-cover border" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-start sm:items-end gap-2">
+                    <p className={cn("font-semibold", themeClasses.mainText)}>
+                      Refund {formatPrice(returnRequest.refund_amount)}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleResolveReturn(returnRequest, 'approve')}
+                        disabled={resolvingReturn === returnRequest.id}
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                      >
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRejectingReturn(returnRequest)}
+                        disabled={resolvingReturn === returnRequest.id}
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Orders List */}
       {loading ? (
         <div className={cn("text-center py-12", themeClasses.textNeutralSecondary)}>
@@ -541,6 +740,12 @@ export default function SupplierOrdersPage() {
                         <Calendar className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
                         <span className="whitespace-nowrap">{new Date(order.confirmed_at || order.created_at).toLocaleDateString()}</span>
                       </div>
+                      {order.delivery_slot_label && (
+                        <div className="flex items-center gap-1.5 sm:gap-2 text-orange-600 dark:text-orange-400 font-medium">
+                          <Clock className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+                          <span className="whitespace-nowrap">Same-day {order.delivery_slot_label}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex flex-wrap items-center gap-2 sm:gap-2">
@@ -666,6 +871,15 @@ export default function SupplierOrdersPage() {
                   <p className={cn("text-sm font-medium mb-1", themeClasses.textNeutralSecondary)}>Delivery Option</p>
                   <p className={cn(themeClasses.mainText)}>{selectedOrder.delivery_option}</p>
                 </div>
+                {selectedOrder.delivery_slot_label && (
+                  <div>
+                    <p className={cn("text-sm font-medium mb-1", themeClasses.textNeutralSecondary)}>Same-Day Slot</p>
+                    <p className={cn(themeClasses.mainText)}>
+                      {selectedOrder.delivery_slot_label}
+                      {selectedOrder.delivery_slot_date && ` on ${new Date(`${selectedOrder.delivery_slot_date}T00:00:00`).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <p className={cn("text-sm font-medium mb-1", themeClasses.textNeutralSecondary)}>Confirmed At</p>
                   <p className={cn(themeClasses.mainText)}>
@@ -674,6 +888,16 @@ export default function SupplierOrdersPage() {
                 </div>
               </div>
 
+              <CourierShipmentPanel
+                confirmedOrderId={selectedOrder.id}
+                canBook={selectedOrder.items.some((item: OrderItem) => (item.status || 'confirmed') === 'confirmed')}
+                onChanged={async () => {
+                  const updated = await fetchOrders(true)
+                  const fresh = updated.find(order => order.id === selectedOrder.id)
+                  if (fresh) setSelectedOrder(fresh)
+                }}
+              />
+
               {/* Order Items */}
               <div>
                 <div className="flex items-center justify-between mb-4">
@@ -764,6 +988,18 @@ export default function SupplierOrdersPage() {
                               Quantity: {item.quantity} × {formatPrice(item.price)} = {formatPrice(item.total_price)}
                             </p>
                           </div>
+                          {(item.status || 'confirmed') === 'confirmed' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setCancellingItem(item)}
+                              disabled={updatingStatus.has(item.id)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <XCircle className="w-4 h-4 mr-1" />
+                              Cancel Item
+                            </Button>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -861,6 +1097,87 @@ export default function SupplierOrdersPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Reject Return Dialog */}
+      <Dialog
+        open={!!rejectingReturn}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingReturn(null)
+            setRejectNote('')
+          }
+        }}
+      >
+        <DialogContent className={cn("max-w-md bg-white dark:bg-neutral-900", themeClasses.cardBorder)}>
+          <DialogHeader>
+            <DialogTitle className={cn(themeClasses.mainText)}>
+              Reject Return {rejectingReturn?.return_number}
+            </DialogTitle>
+            <DialogDescription className={cn(themeClasses.textNeutralSecondary)}>
+              The buyer will see this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            maxLength={500}
+            rows={3}
+            placeholder="e.g. Item shows signs of use and is outside the return policy"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingReturn(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejectingReturn && handleResolveReturn(rejectingReturn, 'reject', rejectNote)}
+              disabled={!rejectNote.trim() || resolvingReturn === rejectingReturn?.id}
+            >
+              Reject Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!cancellingItem}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCancellingItem(null)
+            setCancelReason('')
+          }
+        }}
+      >
+        <DialogContent className={cn("max-w-md bg-white dark:bg-neutral-900", themeClasses.cardBorder)}>
+          <DialogHeader>
+            <DialogTitle className={cn(themeClasses.mainText)}>
+              Cancel {cancellingItem?.product_name}?
+            </DialogTitle>
+            <DialogDescription className={cn(themeClasses.textNeutralSecondary)}>
+              Stock is restored and the buyer is refunded if they already paid. The buyer will see this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            maxLength={500}
+            rows={3}
+            placeholder="e.g. Item is out of stock"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancellingItem(null)}>
+              Keep Item
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancellingItem && handleCancelItem(cancellingItem, cancelReason)}
+              disabled={!cancelReason.trim() || (!!cancellingItem && updatingStatus.has(cancellingItem.id))}
+            >
+              Cancel Item
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   )
 }
@@ -5,12 +5,13 @@ import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/auth-context'
 import { useTheme } from '@/hooks/use-theme'
 import { useToast } from '@/hooks/use-toast'
+import { useCurrency } from '@/contexts/currency-context'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
-import { Plus, Edit, Trash2, CreditCard, Building2, Wallet, CheckCircle, X, AlertTriangle, Info } from 'lucide-react'
+import { Plus, Edit, Trash2, CreditCard, Building2, Wallet, CheckCircle, X, AlertTriangle, Info, TrendingUp, Receipt, Download, History } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { getFriendlyErrorMessage } from '@/lib/friendly-error'
 import { Badge } from '@/components/ui/badge'
@@ -29,17 +30,54 @@ interface PayoutAccount {
   created_at: string
 }
 
+interface LedgerOrder {
+  orderNumber: string | null
+  confirmedOrderId: string | null
+  grossAmount: number
+  commissionAmount: number
+  payableAmount: number
+  commissionRate: number | null
+  itemCount: number
+  postedAt: string | null
+}
+
+interface LedgerSummary {
+  grossSales: number
+  commission: number
+  payable: number
+  balance: number
+  currency: string
+  orders: LedgerOrder[]
+}
+
+interface PayoutRecord {
+  id: string
+  batchNumber: string
+  amount: number
+  currency: string
+  status: 'pending' | 'sent' | 'failed' | 'reconciled'
+  failureReason: string | null
+  sentAt: string | null
+  reconciledAt: string | null
+  createdAt: string
+}
+
 export default function PayoutAccountsPage() {
   const router = useRouter()
   const { user } = useAuth()
   const { themeClasses } = useTheme()
   const { toast } = useToast()
+  const { formatPrice } = useCurrency()
   const [accounts, setAccounts] = useState<PayoutAccount[]>([])
   const [loading, setLoading] = useState(true)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [editingAccount, setEditingAccount] = useState<PayoutAccount | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [companyInfoComplete, setCompanyInfoComplete] = useState<boolean | null>(null)
+  const [ledger, setLedger] = useState<LedgerSummary | null>(null)
+  const [payouts, setPayouts] = useState<PayoutRecord[]>([])
+  const [availableBalance, setAvailableBalance] = useState<number | null>(null)
+  const [holdbackDays, setHoldbackDays] = useState<number | null>(null)
 
   const [formData, setFormData] = useState({
     account_type: 'bank' as 'bank' | 'mobile_money' | 'paypal',
@@ -54,6 +92,8 @@ export default function PayoutAccountsPage() {
 
   useEffect(() => {
     fetchAccounts()
+    fetchLedger()
+    fetchPayouts()
     checkCompanyInfo()
   }, [])
 
@@ -114,6 +154,52 @@ export default function PayoutAccountsPage() {
     }
   }
 
+  const fetchLedger = async () => {
+    try {
+      const response = await fetch('/api/supplier/ledger')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(getFriendlyErrorMessage(data.error, 'Unable to load earnings. Please try again.'))
+      }
+
+      setLedger(data.ledger || null)
+    } catch {
+      // Earnings are informational - keep the accounts page usable
+      setLedger(null)
+    }
+  }
+
+  const fetchPayouts = async () => {
+    try {
+      const response = await fetch('/api/supplier/payouts')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(getFriendlyErrorMessage(data.error, 'Unable to load payouts. Please try again.'))
+      }
+
+      setPayouts(data.payouts || [])
+      setAvailableBalance(typeof data.availableBalance === 'number' ? data.availableBalance : null)
+      setHoldbackDays(typeof data.holdbackDays === 'number' ? data.holdbackDays : null)
+    } catch {
+      setPayouts([])
+    }
+  }
+
+  const getPayoutStatusBadge = (status: PayoutRecord['status']) => {
+    switch (status) {
+      case 'reconciled':
+        return <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">Paid</Badge>
+      case 'sent':
+        return <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">Sent</Badge>
+      case 'failed':
+        return <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">Failed</Badge>
+      default:
+        return <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">Pending</Badge>
+    }
+  }
+
   const handleOpenDialog = (account?: PayoutAccount) => {
     if (account) {
       setEditingAccount(account)
@@ -392,6 +478,143 @@ export default function PayoutAccountsPage() {
           </div>
         </div>
 
+        {/* Earnings & Balance */}
+        {ledger && (
+          <Card className={cn("mb-6", themeClasses.cardBg, themeClasses.cardBorder)}>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <TrendingUp className="w-5 h-5 text-green-600 dark:text-green-400" />
+                <CardTitle className={cn("text-lg", themeClasses.mainText)}>Earnings &amp; Balance</CardTitle>
+              </div>
+              <CardDescription>
+                Commission is deducted at your plan rate at the time of each sale
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                <div className={cn("p-4 rounded-md border", themeClasses.cardBorder)}>
+                  <p className={cn("text-xs uppercase", themeClasses.textNeutralSecondary)}>Gross Sales</p>
+                  <p className={cn("text-xl font-bold", themeClasses.mainText)}>{formatPrice(ledger.grossSales)}</p>
+                </div>
+                <div className={cn("p-4 rounded-md border", themeClasses.cardBorder)}>
+                  <p className={cn("text-xs uppercase", themeClasses.textNeutralSecondary)}>Platform Commission</p>
+                  <p className="text-xl font-bold text-red-600 dark:text-red-400">-{formatPrice(ledger.commission)}</p>
+                </div>
+                <div className={cn("p-4 rounded-md border ring-2 ring-green-500", themeClasses.cardBorder)}>
+                  <p className={cn("text-xs uppercase", themeClasses.textNeutralSecondary)}>Current Balance</p>
+                  <p className="text-xl font-bold text-green-600 dark:text-green-400">{formatPrice(ledger.balance)}</p>
+                </div>
+              </div>
+
+              {ledger.orders.length === 0 ? (
+                <div className={cn("text-center py-6 text-sm", themeClasses.textNeutralSecondary)}>
+                  <Receipt className="w-8 h-8 mx-auto mb-2" />
+                  No paid orders yet. Earnings appear here once buyers pay for your products.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className={cn("text-left border-b", themeClasses.cardBorder, themeClasses.textNeutralSecondary)}>
+                        <th className="py-2 pr-4">Order</th>
+                        <th className="py-2 pr-4">Date</th>
+                        <th className="py-2 pr-4 text-right">Items</th>
+                        <th className="py-2 pr-4 text-right">Gross</th>
+                        <th className="py-2 pr-4 text-right">Commission</th>
+                        <th className="py-2 text-right">Payable</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ledger.orders.map((order) => (
+                        <tr
+                          key={order.confirmedOrderId || order.orderNumber || order.postedAt || ''}
+                          className={cn("border-b", themeClasses.cardBorder, themeClasses.mainText)}
+                        >
+                          <td className="py-2 pr-4 font-medium">{order.orderNumber || '—'}</td>
+                          <td className={cn("py-2 pr-4", themeClasses.textNeutralSecondary)}>
+                            {order.postedAt ? new Date(order.postedAt).toLocaleDateString() : '—'}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{order.itemCount}</td>
+                          <td className="py-2 pr-4 text-right">{formatPrice(order.grossAmount)}</td>
+                          <td className="py-2 pr-4 text-right text-red-600 dark:text-red-400">
+                            -{formatPrice(order.commissionAmount)}
+                            {order.commissionRate !== null && (
+                              <span className={cn("ml-1 text-xs", themeClasses.textNeutralSecondary)}>({order.commissionRate}%)</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right font-semibold">{formatPrice(order.payableAmount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Payout History */}
+        <Card className={cn("mb-6", themeClasses.cardBg, themeClasses.cardBorder)}>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <History className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                  <CardTitle className={cn("text-lg", themeClasses.mainText)}>Payout History</CardTitle>
+                </div>
+                <CardDescription>
+                  {availableBalance !== null
+                    ? `${formatPrice(availableBalance)} available for the next payout${holdbackDays ? ` (sales settle after ${holdbackDays} days)` : ''}`
+                    : 'Payouts are sent automatically to your default account'}
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <a href="/api/supplier/payouts/statement" download>
+                  <Download className="w-4 h-4 mr-2" />
+                  Statement
+                </a>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {payouts.length === 0 ? (
+              <p className={cn("text-center py-6 text-sm", themeClasses.textNeutralSecondary)}>
+                No payouts yet
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className={cn("text-left border-b", themeClasses.cardBorder, themeClasses.textNeutralSecondary)}>
+                      <th className="py-2 pr-4">Batch</th>
+                      <th className="py-2 pr-4">Date</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2 text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payouts.map((payout) => (
+                      <tr key={payout.id} className={cn("border-b", themeClasses.cardBorder, themeClasses.mainText)}>
+                        <td className="py-2 pr-4 font-medium">{payout.batchNumber}</td>
+                        <td className={cn("py-2 pr-4", themeClasses.textNeutralSecondary)}>
+                          {new Date(payout.sentAt || payout.createdAt).toLocaleDateString()}
+                        </td>
+                        <td className="py-2 pr-4">
+                          {getPayoutStatusBadge(payout.status)}
+                          {payout.status === 'failed' && payout.failureReason && (
+                            <span className={cn("ml-2 text-xs", themeClasses.textNeutralSecondary)}>{payout.failureReason}</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right font-semibold">{formatPrice(payout.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {accounts.length === 0 ? (
           <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
             <CardContent className="py-12 text-center">
@@ -0,0 +1,341 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { useTheme } from '@/hooks/use-theme'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+import { ArrowLeft, RefreshCw, History, PackagePlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface StockLevel {
+  variant_id: number | null
+  attribute: string | null
+  value: string | null
+  quantity: number
+}
+
+interface InventoryMovement {
+  id: string
+  variant_value: string | null
+  reason: 'sale' | 'cancellation_restock' | 'return' | 'manual_adjustment' | 'import'
+  quantity_change: number
+  quantity_after: number
+  order_number: string | null
+  note: string | null
+  created_at: string
+}
+
+const REASON_LABELS: Record<InventoryMovement['reason'], string> = {
+  sale: 'Sale',
+  cancellation_restock: 'Cancellation restock',
+  return: 'Return',
+  manual_adjustment: 'Manual adjustment',
+  import: 'Import'
+}
+
+// Select can't hold an empty value, so product-level stock and "all" get sentinels
+const ALL_VARIANTS = '__all__'
+const PRODUCT_LEVEL = '__product__'
+
+export default function SupplierProductInventoryPage() {
+  return <SupplierProductInventoryContent />
+}
+
+function SupplierProductInventoryContent() {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const router = useRouter()
+  const params = useParams()
+  const productId = params.id as string
+  const [productName, setProductName] = useState('')
+  const [levels, setLevels] = useState<StockLevel[]>([])
+  const [movements, setMovements] = useState<InventoryMovement[]>([])
+  const [historyFilter, setHistoryFilter] = useState(ALL_VARIANTS)
+  const [loading, setLoading] = useState(true)
+  const [adjustVariant, setAdjustVariant] = useState('')
+  const [adjustChange, setAdjustChange] = useState('')
+  const [adjustNote, setAdjustNote] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const hasVariants = levels.some(level => level.value !== null)
+
+  const fetchInventory = useCallback(async () => {
+    try {
+      setLoading(true)
+      const query = historyFilter === ALL_VARIANTS
+        ? ''
+        : `?variant=${encodeURIComponent(historyFilter === PRODUCT_LEVEL ? '' : historyFilter)}`
+      const response = await fetch(`/api/supplier/products/${productId}/inventory${query}`, {
+        credentials: 'include'
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to load inventory')
+      }
+
+      setProductName(data.product.name)
+      setLevels(data.levels || [])
+      setMovements(data.movements || [])
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to load inventory. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [productId, historyFilter, toast])
+
+  useEffect(() => {
+    if (productId) {
+      fetchInventory()
+    }
+  }, [productId, fetchInventory])
+
+  const handleAdjust = async () => {
+    const change = parseInt(adjustChange, 10)
+    if (!change) {
+      toast({ title: 'Enter a quantity', description: 'Use a negative number to remove stock', variant: 'destructive' })
+      return
+    }
+    if (hasVariants && !adjustVariant) {
+      toast({ title: 'Choose a variant', description: 'Select which variant to adjust', variant: 'destructive' })
+      return
+    }
+    if (!adjustNote.trim()) {
+      toast({ title: 'Add a note', description: 'Explain why the stock is changing', variant: 'destructive' })
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch(`/api/supplier/products/${productId}/inventory`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          variantValue: hasVariants ? adjustVariant : null,
+          change,
+          note: adjustNote.trim()
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to adjust stock')
+      }
+
+      toast({ title: 'Stock updated', description: data.message })
+      setAdjustChange('')
+      setAdjustNote('')
+      await fetchInventory()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to adjust stock. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const levelLabel = (level: StockLevel) =>
+    level.value === null ? 'Product stock' : (level.attribute ? `${level.attribute}: ${level.value}` : level.value)
+
+  return (
+    <>
+      {/* Header */}
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          onClick={() => router.push('/supplier/products')}
+          className="mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Products
+        </Button>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className={cn("text-3xl font-bold mb-2", themeClasses.mainText)}>
+              Stock &amp; Movements
+            </h1>
+            <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
+              {productName || 'Loading product...'}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchInventory} disabled={loading}>
+            <RefreshCw className={cn("w-4 h-4 mr-2", loading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Current stock and adjustment form */}
+        <div className="space-y-6">
+          <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
+            <CardHeader>
+              <CardTitle className={cn("text-lg", themeClasses.mainText)}>Current Stock</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {levels.map(level => (
+                <div key={`${level.variant_id}-${level.value}`} className="flex items-center justify-between text-sm">
+                  <span className={cn(themeClasses.textNeutralSecondary)}>{levelLabel(level)}</span>
+                  <span className={cn("font-semibold", level.quantity === 0 ? 'text-red-600' : themeClasses.mainText)}>
+                    {level.quantity}
+                  </span>
+                </div>
+              ))}
+              {!loading && levels.length === 0 && (
+                <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>No stock information</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
+            <CardHeader>
+              <CardTitle className={cn("text-lg flex items-center gap-2", themeClasses.mainText)}>
+                <PackagePlus className="w-5 h-5" />
+                Adjust Stock
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {hasVariants && (
+                <div className="space-y-1.5">
+                  <Label>Variant</Label>
+                  <Select value={adjustVariant} onValueChange={setAdjustVariant}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a variant" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {levels.filter(level => level.value !== null).map(level => (
+                        <SelectItem key={`${level.variant_id}-${level.value}`} value={level.value as string}>
+                          {levelLabel(level)} ({level.quantity})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1.5">
+                <Label>Quantity change</Label>
+                <Input
+                  type="number"
+                  step={1}
+                  value={adjustChange}
+                  onChange={(e) => setAdjustChange(e.target.value)}
+                  placeholder="e.g. 10 to add, -2 to remove"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Note</Label>
+                <Textarea
+                  value={adjustNote}
+                  onChange={(e) => setAdjustNote(e.target.value)}
+                  maxLength={500}
+                  rows={3}
+                  placeholder="e.g. Stock count on 12 March, 2 units damaged in storage"
+                />
+              </div>
+              <Button className="w-full" onClick={handleAdjust} disabled={submitting}>
+                {submitting ? 'Saving...' : 'Save Adjustment'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Movement history */}
+        <Card className={cn("lg:col-span-2", themeClasses.cardBg, themeClasses.cardBorder)}>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className={cn("text-lg flex items-center gap-2", themeClasses.mainText)}>
+              <History className="w-5 h-5" />
+              Movement History
+            </CardTitle>
+            {hasVariants && (
+              <Select value={historyFilter} onValueChange={setHistoryFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VARIANTS}>All variants</SelectItem>
+                  {levels.filter(level => level.value !== null).map(level => (
+                    <SelectItem key={`${level.variant_id}-${level.value}`} value={level.value as string}>
+                      {levelLabel(level)}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={PRODUCT_LEVEL}>Product stock</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </CardHeader>
+          <CardContent>
+            {movements.length === 0 ? (
+              <p className={cn("text-sm py-8 text-center", themeClasses.textNeutralSecondary)}>
+                {loading ? 'Loading movements...' : 'No stock movements recorded yet'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className={cn("border-b text-left", themeClasses.cardBorder, themeClasses.textNeutralSecondary)}>
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium">Reason</th>
+                      {hasVariants && <th className="py-2 pr-4 font-medium">Variant</th>}
+                      <th className="py-2 pr-4 font-medium text-right">Change</th>
+                      <th className="py-2 pr-4 font-medium text-right">After</th>
+                      <th className="py-2 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {movements.map(movement => (
+                      <tr key={movement.id} className={cn("border-b", themeClasses.cardBorder)}>
+                        <td className={cn("py-2 pr-4 whitespace-nowrap", themeClasses.textNeutralSecondary)}>
+                          {new Date(movement.created_at).toLocaleString()}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <Badge variant="outline">{REASON_LABELS[movement.reason] || movement.reason}</Badge>
+                        </td>
+                        {hasVariants && (
+                          <td className={cn("py-2 pr-4", themeClasses.mainText)}>{movement.variant_value || '—'}</td>
+                        )}
+                        <td className={cn(
+                          "py-2 pr-4 text-right font-semibold",
+                          movement.quantity_change > 0 ? 'text-green-600' : 'text-red-600'
+                        )}>
+                          {movement.quantity_change > 0 ? `+${movement.quantity_change}` : movement.quantity_change}
+                        </td>
+                        <td className={cn("py-2 pr-4 text-right", themeClasses.mainText)}>{movement.quantity_after}</td>
+                        <td className={cn("py-2", themeClasses.textNeutralSecondary)}>
+                          {[movement.order_number && `Order ${movement.order_number}`, movement.note].filter(Boolean).join(' · ') || '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,292 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { useTheme } from "@/hooks/use-theme"
+import { useToast } from "@/hooks/use-toast"
+import { getFriendlyErrorMessage } from "@/lib/friendly-error"
+import { AlertTriangle, Download, FileSpreadsheet, Upload } from "lucide-react"
+
+type CatalogValue = string | number | boolean | null
+
+interface FieldChange {
+  field: string
+  from: CatalogValue
+  to: CatalogValue
+}
+
+interface ProductChange {
+  action: "create" | "update"
+  productId: number | null
+  name: string
+  rows: number[]
+  changes: FieldChange[]
+  variants: Array<{ row: number; variantId: number | null; name: string; action: "create" | "update"; changes: FieldChange[] }>
+}
+
+interface RowError {
+  row: number
+  column?: string
+  message: string
+}
+
+// Shape of the preview from /api/supplier/products/import
+interface ImportPlan {
+  rowCount: number
+  creates: ProductChange[]
+  updates: ProductChange[]
+  unchanged: number
+  errors: RowError[]
+  limit: { allowed: boolean; reason?: string; maxProducts?: number; currentCount: number; newProducts: number }
+  imagesToFetch: number
+}
+
+interface ImportResult {
+  created: number
+  updated: number
+  variantsCreated: number
+  variantsUpdated: number
+  imagesFetched: number
+  sentForReview: number
+  warnings: RowError[]
+}
+
+// Long previews are cut here; the counts above the list are always complete
+const MAX_PREVIEW_PRODUCTS = 50
+
+interface CatalogImportDialogProps {
+  onImported: () => void
+}
+
+function formatValue(value: CatalogValue): string {
+  if (value === null || value === "") return "empty"
+  const text = String(value)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+export function CatalogImportDialog({ onImported }: CatalogImportDialogProps) {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [submitting, setSubmitting] = useState<"preview" | "apply" | null>(null)
+
+  const reset = () => {
+    setFile(null)
+    setPlan(null)
+    setResult(null)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const submit = async (mode: "preview" | "apply") => {
+    if (!file) return
+    setSubmitting(mode)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("mode", mode)
+      const response = await fetch("/api/supplier/products/import", {
+        method: "POST",
+        credentials: "include",
+        body: formData
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (data.plan) setPlan(data.plan)
+      if (!response.ok || !data.success) {
+        toast({
+          title: mode === "apply" ? "Import not applied" : "Could not check file",
+          description: response.status < 500 && data.error
+            ? data.error
+            : getFriendlyErrorMessage(data.error || response.status, "Something went wrong. Please try again."),
+          variant: "destructive"
+        })
+        return
+      }
+
+      if (mode === "apply") {
+        const imported: ImportResult = data.result
+        setResult(imported)
+        setPlan(null)
+        toast({
+          title: "Catalog imported",
+          description: `${imported.created} created, ${imported.updated} updated`
+        })
+        onImported()
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getFriendlyErrorMessage(error, "Something went wrong. Please try again."),
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  // The export route answers with an attachment, so the page stays where it is
+  const download = (format: "csv" | "xlsx") => {
+    window.location.href = `/api/supplier/products/export?format=${format}`
+  }
+
+  const canApply = !!plan && plan.errors.length === 0 && plan.limit.allowed && plan.creates.length + plan.updates.length > 0
+  const previewProducts = plan ? [...plan.creates, ...plan.updates].slice(0, MAX_PREVIEW_PRODUCTS) : []
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset() }}>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 text-sm sm:text-base flex-shrink-0 justify-center h-auto py-1.5 px-3"
+        title="Import or export products"
+      >
+        <FileSpreadsheet className="h-4 w-4" />
+        <span className="hidden sm:inline">Import / Export</span>
+      </Button>
+      <DialogContent className={cn("max-w-[calc(100vw-1rem)] sm:max-w-2xl lg:max-w-3xl max-h-[90vh] overflow-y-auto p-4 sm:p-6 shadow-xl bg-white dark:bg-neutral-900", themeClasses.cardBorder)}>
+        <DialogHeader className="space-y-2">
+          <DialogTitle className="text-base sm:text-lg">Import / Export Products</DialogTitle>
+          <DialogDescription>
+            Download your catalog, edit it in a spreadsheet and upload it again. Each variant has its own row.
+            Leave product_id empty to add a product; blank cells keep the current value.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => download("xlsx")} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Download XLSX
+            </Button>
+            <Button variant="outline" onClick={() => download("csv")} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Download CSV
+            </Button>
+          </div>
+
+          <div className={cn("rounded-lg border p-3 sm:p-4 space-y-3", themeClasses.cardBorder)}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx"
+              className="block w-full text-sm"
+              onChange={(event) => {
+                setFile(event.target.files?.[0] || null)
+                setPlan(null)
+                setResult(null)
+              }}
+            />
+            <Button
+              onClick={() => submit("preview")}
+              disabled={!file || submitting !== null}
+              className="flex items-center gap-2 bg-yellow-500 hover:bg-yellow-600 text-neutral-950"
+            >
+              <Upload className="h-4 w-4" />
+              {submitting === "preview" ? "Checking..." : "Preview changes"}
+            </Button>
+          </div>
+
+          {plan && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{plan.creates.length} new</Badge>
+                <Badge variant="secondary">{plan.updates.length} updated</Badge>
+                <Badge variant="secondary">{plan.unchanged} unchanged</Badge>
+                {plan.imagesToFetch > 0 && <Badge variant="secondary">{plan.imagesToFetch} images to download</Badge>}
+                {plan.errors.length > 0 && <Badge variant="destructive">{plan.errors.length} errors</Badge>}
+              </div>
+
+              {!plan.limit.allowed && (
+                <div className="flex items-start gap-2 rounded-md border border-red-300 bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>{plan.limit.reason}</span>
+                </div>
+              )}
+
+              {plan.errors.length > 0 && (
+                <div className="rounded-md border border-red-300 p-3 max-h-48 overflow-y-auto">
+                  <p className="text-sm font-semibold text-red-600 dark:text-red-400 mb-2">Fix these rows and upload again</p>
+                  <ul className="space-y-1 text-xs">
+                    {plan.errors.map((error, index) => (
+                      <li key={index} className={themeClasses.mainText}>
+                        Row {error.row}{error.column ? ` (${error.column})` : ""}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {previewProducts.length > 0 && (
+                <div className={cn("rounded-md border divide-y max-h-72 overflow-y-auto", themeClasses.cardBorder)}>
+                  {previewProducts.map((product) => (
+                    <div key={`${product.action}-${product.productId ?? product.rows[0]}`} className="p-3 text-xs space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={product.action === "create" ? "default" : "outline"}>
+                          {product.action === "create" ? "New" : "Update"}
+                        </Badge>
+                        <span className={cn("font-medium text-sm", themeClasses.mainText)}>{product.name || "Untitled"}</span>
+                        <span className={themeClasses.textNeutralSecondary}>row {product.rows[0]}</span>
+                      </div>
+                      {product.action === "update" && product.changes.map((change) => (
+                        <p key={change.field} className={themeClasses.textNeutralSecondary}>
+                          {change.field}: {formatValue(change.from)} → <span className={themeClasses.mainText}>{formatValue(change.to)}</span>
+                        </p>
+                      ))}
+                      {product.variants.map((variant) => (
+                        <p key={`${variant.row}-${variant.variantId ?? "new"}`} className={themeClasses.textNeutralSecondary}>
+                          {variant.action === "create" ? "New variant" : "Variant"} {variant.name}:{" "}
+                          {variant.changes.map(change => `${change.field} ${formatValue(change.to)}`).join(", ")}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                  {plan.creates.length + plan.updates.length > MAX_PREVIEW_PRODUCTS && (
+                    <p className={cn("p-3 text-xs", themeClasses.textNeutralSecondary)}>
+                      And {plan.creates.length + plan.updates.length - MAX_PREVIEW_PRODUCTS} more products
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {result && (
+            <div className={cn("rounded-md border p-3 text-sm space-y-1", themeClasses.cardBorder)}>
+              <p className={themeClasses.mainText}>
+                {result.created} products created, {result.updated} updated, {result.variantsCreated + result.variantsUpdated} variants changed, {result.imagesFetched} images downloaded.
+              </p>
+              {(result.created > 0 || result.sentForReview > 0) && (
+                <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>
+                  New products and content changes to {result.sentForReview} live products go live once they are approved. Stock changes apply now.
+                </p>
+              )}
+              {result.warnings.map((warning, index) => (
+                <p key={index} className="text-xs text-yellow-700 dark:text-yellow-400">
+                  Row {warning.row}{warning.column ? ` (${warning.column})` : ""}: {warning.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+          <Button
+            onClick={() => submit("apply")}
+            disabled={!canApply || submitting !== null}
+            className="bg-yellow-500 hover:bg-yellow-600 text-neutral-950"
+          >
+            {submitting === "apply" ? "Importing..." : "Apply import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
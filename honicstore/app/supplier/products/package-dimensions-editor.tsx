@@ -0,0 +1,100 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+
+// Same divisor as VOLUMETRIC_DIVISOR in lib/shipping-pricing-config, for the hint only
+const VOLUMETRIC_DIVISOR = 5000
+
+// One packed unit; inputs are kept as typed and converted on save
+export interface PackageRow {
+  weightKg: string
+  lengthCm: string
+  widthCm: string
+  heightCm: string
+}
+
+interface PackageDimensionsEditorProps {
+  value: PackageRow
+  onChange: (value: PackageRow) => void
+  // Shown under the inputs, e.g. that a blank variant package uses the product's
+  hint?: string
+  className?: string
+}
+
+export const EMPTY_PACKAGE_ROW: PackageRow = { weightKg: "", lengthCm: "", widthCm: "", heightCm: "" }
+
+/**
+ * A package from the API ({ weight_kg, length_cm, width_cm, height_cm }) as form inputs
+ */
+export function toPackageRow(value: unknown): PackageRow {
+  if (!value || typeof value !== "object") return EMPTY_PACKAGE_ROW
+  const pkg = value as Record<string, any>
+  const text = (v: unknown) => (v === null || v === undefined ? "" : String(v))
+  return {
+    weightKg: text(pkg.weight_kg ?? pkg.weightKg),
+    lengthCm: text(pkg.length_cm ?? pkg.lengthCm),
+    widthCm: text(pkg.width_cm ?? pkg.widthCm),
+    heightCm: text(pkg.height_cm ?? pkg.heightCm)
+  }
+}
+
+/**
+ * Form inputs for the request body; null when all are blank, the server checks the rest
+ */
+export function fromPackageRow(row: PackageRow | undefined): Record<string, number | null> | null {
+  if (!row) return null
+  const number = (v: string) => (v.trim() === "" ? null : parseFloat(v))
+  const pkg = {
+    weightKg: number(row.weightKg),
+    lengthCm: number(row.lengthCm),
+    widthCm: number(row.widthCm),
+    heightCm: number(row.heightCm)
+  }
+  return Object.values(pkg).some(v => v !== null) ? pkg : null
+}
+
+const FIELDS: Array<{ key: keyof PackageRow; label: string; unit: string; placeholder: string }> = [
+  { key: "weightKg", label: "Weight", unit: "kg", placeholder: "0.5" },
+  { key: "lengthCm", label: "Length", unit: "cm", placeholder: "20" },
+  { key: "widthCm", label: "Width", unit: "cm", placeholder: "15" },
+  { key: "heightCm", label: "Height", unit: "cm", placeholder: "10" }
+]
+
+export function PackageDimensionsEditor({ value, onChange, hint, className }: PackageDimensionsEditorProps) {
+  const weight = parseFloat(value.weightKg)
+  const volume = parseFloat(value.lengthCm) * parseFloat(value.widthCm) * parseFloat(value.heightCm)
+  const volumetric = Number.isFinite(volume) && volume > 0 ? volume / VOLUMETRIC_DIVISOR : NaN
+  const billable = Math.max(Number.isFinite(weight) ? weight : 0, Number.isFinite(volumetric) ? volumetric : 0)
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Label className="text-xs sm:text-sm">Package (one unit, packed)</Label>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {FIELDS.map(field => (
+          <div key={field.key} className="relative">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={value[field.key]}
+              onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+              placeholder={field.placeholder}
+              aria-label={`Package ${field.label.toLowerCase()} (${field.unit})`}
+              className="pr-9 text-sm h-8 sm:h-9"
+            />
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-gray-500 pointer-events-none">
+              {field.unit}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[9px] sm:text-[10px] text-gray-500 leading-tight">
+        {billable > 0
+          ? `Shipping is charged on ${billable.toFixed(2)} kg per unit${Number.isFinite(volumetric) && volumetric > (Number.isFinite(weight) ? weight : 0) ? " (size-based weight, larger than the actual weight)" : ""}.`
+          : hint || "Used to price shipping. Without it, the product ships at the base rate for its destination."}
+      </p>
+    </div>
+  )
+}
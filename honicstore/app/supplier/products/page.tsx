@@ -7,7 +7,7 @@ import { useCurrency } from '@/contexts/currency-context'
 import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
 import { getFriendlyErrorMessage } from '@/lib/friendly-error'
-import { Plus, Search, Edit, Trash2, Package, DollarSign, Star, Eye, MoreHorizontal, Filter, RefreshCw } from 'lucide-react'
+import { Plus, Search, Edit, Trash2, Package, DollarSign, Star, Eye, MoreHorizontal, Filter, RefreshCw, History, GitCompare, Timer } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -27,6 +27,9 @@ import {
 import Link from 'next/link'
 import Image from 'next/image'
 import { ProductForm } from './product-form'
+import { CatalogImportDialog } from './catalog-import-dialog'
+import { ProductRevisionsDialog, PublicationStatusBadge } from './product-revisions-dialog'
+import { ProductSalesDialog } from './product-sales-dialog'
 
 interface Product {
   id: number
@@ -44,6 +47,8 @@ interface Product {
   sku: string
   views?: number
   variants?: any[]
+  publication_status?: string | null
+  pending_revision_id?: number | null
   created_at: string
   updated_at: string
 }
@@ -64,6 +69,8 @@ function SupplierProductsContent() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
   const [deletingId, setDeletingId] = useState<number | null>(null)
+  const [revisionsProduct, setRevisionsProduct] = useState<Product | null>(null)
+  const [salesProduct, setSalesProduct] = useState<Product | null>(null)
   const [currentPlan, setCurrentPlan] = useState<{ slug: string; max_products: number | null } | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
 
@@ -235,6 +242,8 @@ function SupplierProductsContent() {
           id: variant.id,
           variant_name: variant.variant_name || '',
           price: variant.price || 0,
+          priceTiers: variant.priceTiers || variant.price_tiers || [],
+          shippingPackage: variant.shippingPackage || variant.shipping_package || null,
           stock_quantity: variant.stock_quantity || variant.stockQuantity || 0,
           stockQuantity: variant.stock_quantity || variant.stockQuantity || 0
         }))
@@ -249,6 +258,8 @@ function SupplierProductsContent() {
           id: variant.id,
           variant_name: variant.variant_name || '',
           price: variant.price || 0,
+          priceTiers: variant.priceTiers || variant.price_tiers || [],
+          shippingPackage: variant.shippingPackage || variant.shipping_package || null,
           stock_quantity: variant.stock_quantity || variant.stockQuantity || 0,
           stockQuantity: variant.stock_quantity || variant.stockQuantity || 0
         }))
@@ -381,6 +392,21 @@ function SupplierProductsContent() {
               <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
               <span className="hidden sm:inline">Refresh</span>
             </Button>
+            <CatalogImportDialog
+              onImported={() => {
+                fetchProducts(false)
+                fetchCurrentPlan()
+              }}
+            />
+            <ProductRevisionsDialog
+              product={revisionsProduct}
+              onOpenChange={(open) => { if (!open) setRevisionsProduct(null) }}
+              onChanged={() => fetchProducts(false)}
+            />
+            <ProductSalesDialog
+              product={salesProduct}
+              onOpenChange={(open) => { if (!open) setSalesProduct(null) }}
+            />
           </div>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <Button 
@@ -509,7 +535,11 @@ function SupplierProductsContent() {
                       })
                       const result = await response.json()
                       if (result.success) {
-                        toast({ title: 'Product updated successfully' })
+                        if (result.revision?.status === 'pending_review' && result.message) {
+                          toast({ title: 'Changes sent for review', description: result.message })
+                        } else {
+                          toast({ title: 'Product updated successfully' })
+                        }
                         await fetchProducts()
                         
                         // Update the editing product with the latest data from server
@@ -540,7 +570,12 @@ function SupplierProductsContent() {
                       })
                       const result = await response.json()
                       if (result.success) {
-                        toast({ title: 'Product created successfully' })
+                        toast({
+                          title: 'Product created successfully',
+                          description: result.product?.publication_status === 'draft'
+                            ? 'Saved as a draft. Submit it for review when it is ready.'
+                            : 'It will appear in your store once it has been approved.'
+                        })
                         await fetchProducts()
                         await fetchCurrentPlan() // Refresh plan info
                         
@@ -809,6 +844,12 @@ function SupplierProductsContent() {
                           <p className={cn("text-xs sm:text-sm truncate", themeClasses.textNeutralSecondary)}>
                             SKU: {product.sku || 'N/A'}
                           </p>
+                          <div className="flex items-center gap-1">
+                            <PublicationStatusBadge status={product.publication_status} />
+                            {product.pending_revision_id && (
+                              <Badge variant="outline" className="text-[10px] px-1.5 py-0">Edits in review</Badge>
+                            )}
+                          </div>
                           <div className="flex items-center gap-2 flex-wrap">
                             <span className={cn("font-semibold text-sm sm:text-base", themeClasses.mainText)}>
                               {formatPrice(product.price)}
@@ -837,6 +878,27 @@ function SupplierProductsContent() {
                                 <Edit className="h-4 w-4 mr-2" />
                                 Edit
                               </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => router.push(`/supplier/products/${product.id}/inventory`)}
+                                className={themeClasses.buttonGhostHoverBg}
+                              >
+                                <History className="h-4 w-4 mr-2" />
+                                Stock &amp; Movements
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setRevisionsProduct(product)}
+                                className={themeClasses.buttonGhostHoverBg}
+                              >
+                                <GitCompare className="h-4 w-4 mr-2" />
+                                Versions &amp; Status
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setSalesProduct(product)}
+                                className={themeClasses.buttonGhostHoverBg}
+                              >
+                                <Timer className="h-4 w-4 mr-2" />
+                                Scheduled Sales
+                              </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={() => handleDeleteProduct(product.id)}
                                 className="text-red-600 hover:text-red-700"
@@ -904,6 +966,12 @@ function SupplierProductsContent() {
                               <p className={cn("text-[9px] sm:text-[10px] truncate", themeClasses.textNeutralSecondary)}>
                                 SKU: {product.sku}
                               </p>
+                              <div className="flex items-center gap-1 mt-0.5">
+                                <PublicationStatusBadge status={product.publication_status} />
+                                {product.pending_revision_id && (
+                                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">Edits in review</Badge>
+                                )}
+                              </div>
                             </div>
                           </div>
                         </td>
@@ -956,6 +1024,27 @@ function SupplierProductsContent() {
                                 <Edit className="h-4 w-4 mr-2" />
                                 Edit
                               </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => router.push(`/supplier/products/${product.id}/inventory`)}
+                                className={themeClasses.buttonGhostHoverBg}
+                              >
+                                <History className="h-4 w-4 mr-2" />
+                                Stock &amp; Movements
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setRevisionsProduct(product)}
+                                className={themeClasses.buttonGhostHoverBg}
+                              >
+                                <GitCompare className="h-4 w-4 mr-2" />
+                                Versions &amp; Status
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setSalesProduct(product)}
+                                className={themeClasses.buttonGhostHoverBg}
+                              >
+                                <Timer className="h-4 w-4 mr-2" />
+                                Scheduled Sales
+                              </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={() => handleDeleteProduct(product.id)}
                                 className="text-red-600 hover:text-red-700"
@@ -0,0 +1,144 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+import { Plus, X } from "lucide-react"
+
+// Same limit as MAX_PRICE_TIERS in lib/price-tiers
+const MAX_TIERS = 5
+
+// One editable tier; inputs are kept as typed and converted on save
+export interface TierRow {
+  minQuantity: string
+  price: string
+}
+
+interface PriceTierEditorProps {
+  tiers: TierRow[]
+  onChange: (tiers: TierRow[]) => void
+  regularPrice: number
+  // Shown when the list is empty, e.g. that variants follow the product's tiers
+  emptyHint?: string
+  className?: string
+}
+
+/**
+ * Tiers from the API ([{ min_quantity, price }]) as form rows
+ */
+export function toTierRows(value: unknown): TierRow[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(tier => tier && typeof tier === "object")
+    .map((tier: any) => ({
+      minQuantity: String(tier.minQuantity ?? tier.min_quantity ?? ""),
+      price: String(tier.price ?? "")
+    }))
+}
+
+/**
+ * Form rows for the request body; blank rows are dropped and the server checks the rest
+ */
+export function fromTierRows(rows: TierRow[] | undefined): Array<{ minQuantity: number; price: number }> {
+  return (rows || [])
+    .filter(row => row.minQuantity.trim() !== "" || row.price.trim() !== "")
+    .map(row => ({ minQuantity: parseInt(row.minQuantity, 10), price: parseFloat(row.price) }))
+}
+
+export function PriceTierEditor({ tiers, onChange, regularPrice, emptyHint, className }: PriceTierEditorProps) {
+  const update = (index: number, field: keyof TierRow, value: string) =>
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)))
+
+  const addTier = () => {
+    const last = tiers[tiers.length - 1]
+    const lastMin = last ? parseInt(last.minQuantity, 10) || 0 : 0
+    onChange([...tiers, { minQuantity: lastMin ? String(lastMin * 5) : "10", price: "" }])
+  }
+
+  // The first band is whatever is below the first tier, at the regular price
+  const firstMin = tiers.length > 0 ? parseInt(tiers[0].minQuantity, 10) : NaN
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs sm:text-sm">Quantity pricing</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addTier}
+          disabled={tiers.length >= MAX_TIERS}
+          className="h-7 px-2 text-xs flex items-center gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          Add tier
+        </Button>
+      </div>
+      {tiers.length === 0 ? (
+        <p className="text-[9px] sm:text-[10px] text-gray-500 leading-tight">
+          {emptyHint || "Add tiers to lower the unit price for larger quantities, e.g. from 10 units and from 50 units."}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {regularPrice > 0 && firstMin > 1 && (
+            <p className="text-[10px] sm:text-xs text-gray-500">
+              1-{firstMin - 1} units: TZS {Math.round(regularPrice).toLocaleString()} each
+            </p>
+          )}
+          {tiers.map((tier, index) => {
+            const price = parseFloat(tier.price)
+            const saving = regularPrice > 0 && price > 0 && price < regularPrice
+              ? Math.round(((regularPrice - price) / regularPrice) * 100)
+              : null
+            return (
+              <div key={index} className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <Input
+                    type="number"
+                    min="2"
+                    step="1"
+                    value={tier.minQuantity}
+                    onChange={(e) => update(index, "minQuantity", e.target.value)}
+                    placeholder="10"
+                    aria-label={`Tier ${index + 1} minimum quantity`}
+                    className="pr-14 text-sm h-8 sm:h-9"
+                  />
+                  <div className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-gray-500 pointer-events-none">
+                    units +
+                  </div>
+                </div>
+                <div className="relative flex-1">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={tier.price}
+                    onChange={(e) => update(index, "price", e.target.value)}
+                    placeholder="Unit price"
+                    aria-label={`Tier ${index + 1} unit price`}
+                    className="pr-10 text-sm h-8 sm:h-9"
+                  />
+                  <div className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-gray-500 pointer-events-none">
+                    TZS
+                  </div>
+                </div>
+                <span className="w-10 text-[10px] text-green-600 flex-shrink-0">{saving !== null ? `-${saving}%` : ""}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+                  className="h-7 w-7 p-0 flex-shrink-0"
+                  aria-label={`Remove tier ${index + 1}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -20,6 +20,8 @@ import { SelectWithAddOption } from "@/components/select-with-add-option"
 import { HierarchicalCategorySelector } from "@/components/hierarchical-category-selector"
 import { X, Plus, Upload, Image as ImageIcon, Eye, Trash2, Link } from "lucide-react"
 import { MediaUpload } from "@/components/media/media-upload"
+import { PriceTierEditor, TierRow, toTierRows, fromTierRows } from "./price-tier-editor"
+import { PackageDimensionsEditor, PackageRow, EMPTY_PACKAGE_ROW, toPackageRow, fromPackageRow } from "./package-dimensions-editor"
 import { logger } from '@/lib/logger'
 
 interface ProductFormProps {
@@ -56,6 +58,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
     return rawBrands
   }, [rawBrands, product])
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Set by the "Save as draft" button so a new product is kept out of the review queue
+  const saveAsDraftRef = useRef(false)
   const [isSuccess, setIsSuccess] = useState(false)
   const [showVariantImageDialog, setShowVariantImageDialog] = useState(false)
   const [selectedVariantForImage, setSelectedVariantForImage] = useState<number | null>(null)
@@ -73,6 +77,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
     brand: "",
     price: "",
     originalPrice: "",
+    priceTiers: [] as TierRow[],
+    shippingPackage: EMPTY_PACKAGE_ROW as PackageRow,
     rating: "",
     reviews: "",
     sku: "",
@@ -124,6 +130,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
         brand: product.brand ?? "",
         price: product.price?.toString() ?? "",
         originalPrice: product.originalPrice?.toString() ?? "",
+        priceTiers: toTierRows(product.priceTiers ?? product.price_tiers),
+        shippingPackage: toPackageRow(product.shippingPackage ?? product.shipping_package),
         rating: product.rating?.toString() ?? "",
         reviews: product.reviews?.toString() ?? "",
         sku: product.sku ?? "",
@@ -144,6 +152,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
           
           return {
             ...variant,
+            priceTiers: toTierRows(variant.priceTiers ?? variant.price_tiers),
+            shippingPackage: toPackageRow(variant.shippingPackage ?? variant.shipping_package),
             attributes: attributes, // Clean attributes
             quantities: quantities // Quantities from stock_quantities column
           }
@@ -192,16 +202,24 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
     const refreshProductData = async () => {
       try {
         if (!product?.id) return
-        const response = await fetch(`/api/products/${product.id}`)
+        // Supplier copy: includes pending edits and products that are not live yet
+        const response = await fetch(`/api/supplier/products/${product.id}`, { credentials: 'include' })
         if (response.ok) {
-          const freshProduct = await response.json()
+          const { product: freshProduct } = await response.json()
+          if (!freshProduct) return
           
           // Update form data with fresh stock information
           setFormData(prev => ({
             ...prev,
             stockQuantity: freshProduct.stockQuantity?.toString() ?? prev.stockQuantity,
             inStock: freshProduct.inStock !== undefined ? freshProduct.inStock : prev.inStock,
-            variants: freshProduct.variants || prev.variants,
+            variants: freshProduct.variants
+              ? freshProduct.variants.map((variant: any) => ({
+                  ...variant,
+                  priceTiers: toTierRows(variant.priceTiers),
+                  shippingPackage: toPackageRow(variant.shippingPackage)
+                }))
+              : prev.variants,
             hasBeenUpdated: false // Reset the flag
           }))
         }
@@ -330,6 +348,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
           name: "",
           image: "",
           price: parseFloat(prev.price) || 0, // Set default price to product price
+          priceTiers: [],
+          shippingPackage: EMPTY_PACKAGE_ROW,
           sku: "",
           stock_quantity: 0
         }
@@ -837,6 +857,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
         originalPrice: formData.originalPrice 
           ? Math.max(0, parseFloat(String(formData.originalPrice)) || 0)
           : Math.max(0, parseFloat(String(formData.price || 0)) || 0),
+        priceTiers: fromTierRows(formData.priceTiers),
+        shippingPackage: fromPackageRow(formData.shippingPackage),
         rating: Math.max(0, Math.min(5, parseFloat(String(formData.rating || 0)) || 0)), // Clamp 0-5
         reviews: Math.max(0, parseInt(String(formData.reviews || 0)) || 0),
         views: Math.max(0, parseInt(String(product?.views || 0)) || 0),
@@ -902,6 +924,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
                   ...variant,
                   name: variant.name || variant.variant_name || '',
                   price: Math.max(0, variantPrice),
+                  priceTiers: fromTierRows(variant.priceTiers),
+                  shippingPackage: fromPackageRow(variant.shippingPackage),
                   stock_quantity: Math.max(0, parseInt(String(variant.stock_quantity || variant.stockQuantity || 0)) || 0),
                   sku: variant.sku ? String(variant.sku).trim() : undefined,
                   image: variant.image && String(variant.image).trim().length > 0 
@@ -909,7 +933,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
                     : undefined
                 }
               })
-          : []
+          : [],
+        ...(product ? {} : { saveAsDraft: saveAsDraftRef.current })
       }
 
 
@@ -953,6 +978,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
             brand: updatedProduct.brand ?? prev.brand,
             price: updatedProduct.price?.toString() ?? prev.price,
             originalPrice: updatedProduct.originalPrice?.toString() ?? prev.originalPrice,
+            priceTiers: updatedProduct.price_tiers ? toTierRows(updatedProduct.price_tiers) : prev.priceTiers,
+            shippingPackage: updatedProduct.shipping_package !== undefined ? toPackageRow(updatedProduct.shipping_package) : prev.shippingPackage,
             rating: updatedProduct.rating?.toString() ?? prev.rating,
             reviews: updatedProduct.reviews?.toString() ?? prev.reviews,
             sku: updatedProduct.sku ?? prev.sku,
@@ -973,6 +1000,8 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
               
               return {
                 ...variant,
+                priceTiers: toTierRows(variant.priceTiers),
+                shippingPackage: toPackageRow(variant.shippingPackage),
                 attributes: attributes, // Clean attributes
                 quantities: quantities // Quantities from stock_quantities column
               }
@@ -1436,6 +1465,19 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
               )}
             </div>
 
+            <PriceTierEditor
+              className="sm:col-span-2"
+              tiers={formData.priceTiers}
+              onChange={(tiers) => setFormData(prev => ({ ...prev, priceTiers: tiers }))}
+              regularPrice={parseFloat(formData.price) || 0}
+            />
+
+            <PackageDimensionsEditor
+              className="sm:col-span-2"
+              value={formData.shippingPackage}
+              onChange={(value) => setFormData(prev => ({ ...prev, shippingPackage: value }))}
+            />
+
             <div className="space-y-1.5 sm:space-y-2 sm:col-span-2">
               <Label htmlFor="reviews" className="text-xs sm:text-sm lg:text-base">Number of Reviews</Label>
               <Input
@@ -1562,6 +1604,19 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
                         />
                       </div>
                     </div>
+
+                    <PriceTierEditor
+                      tiers={variant.priceTiers || []}
+                      onChange={(tiers) => updateVariant(index, "priceTiers", tiers)}
+                      regularPrice={parseFloat(String(variant.price || formData.price || 0)) || 0}
+                      emptyHint="Without its own tiers this variant follows the product's quantity pricing at the same discount."
+                    />
+
+                    <PackageDimensionsEditor
+                      value={variant.shippingPackage || EMPTY_PACKAGE_ROW}
+                      onChange={(value) => updateVariant(index, "shippingPackage", value)}
+                      hint="Leave blank if this variant packs the same as the product."
+                    />
                   </div>
 
                   {/* Attributes removed - simplified variant system */}
@@ -2009,15 +2064,27 @@ export function ProductForm({ product, onClose, onSave, autoCloseOnSave = true,
         <Button type="button" variant="outline" onClick={onClose} className="w-full sm:w-auto text-sm sm:text-base order-2 sm:order-1">
           Cancel
         </Button>
+        {!product && (
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={isSubmitting}
+            onClick={() => { saveAsDraftRef.current = true }}
+            className="w-full sm:w-auto text-sm sm:text-base order-2 sm:order-2"
+          >
+            Save as Draft
+          </Button>
+        )}
         <Button 
           type="submit" 
           disabled={isSubmitting}
+          onClick={() => { saveAsDraftRef.current = false }}
           className={cn(
             isSuccess ? "bg-green-600 hover:bg-green-700" : "",
             "w-full sm:w-auto text-sm sm:text-base order-1 sm:order-2"
           )}
         >
-          {isSubmitting ? "Saving..." : isSuccess ? "✅ Updated!" : (product ? "Update Product" : "Create Product")}
+          {isSubmitting ? "Saving..." : isSuccess ? "✅ Updated!" : (product ? "Update Product" : "Submit for Review")}
         </Button>
       </div>
     </form>
@@ -0,0 +1,341 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { useTheme } from "@/hooks/use-theme"
+import { useToast } from "@/hooks/use-toast"
+import { getFriendlyErrorMessage } from "@/lib/friendly-error"
+import { AlertTriangle, Archive, ArchiveRestore, RotateCcw, Send } from "lucide-react"
+
+type PublicationStatus = "draft" | "pending_review" | "published" | "archived"
+
+interface Revision {
+  id: number
+  revisionNumber: number
+  status: "draft" | "pending_review" | "approved" | "rejected" | "superseded"
+  changedFields: string[]
+  flaggedKeywords: string[]
+  note: string | null
+  reviewReason: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+interface Change {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+interface ProductRevisionsDialogProps {
+  product: { id: number; name: string; publication_status?: string | null } | null
+  onOpenChange: (open: boolean) => void
+  onChanged: () => void
+}
+
+const STATUS_LABELS: Record<PublicationStatus, string> = {
+  draft: "Draft",
+  pending_review: "Pending review",
+  published: "Published",
+  archived: "Archived"
+}
+
+const REVISION_LABELS: Record<Revision["status"], string> = {
+  draft: "Draft",
+  pending_review: "Waiting for review",
+  approved: "Approved",
+  rejected: "Rejected",
+  superseded: "Replaced"
+}
+
+// Products saved before publishing existed have no status and are live
+export function toPublicationStatus(status: string | null | undefined): PublicationStatus {
+  return status && status in STATUS_LABELS ? status as PublicationStatus : "published"
+}
+
+export function PublicationStatusBadge({ status }: { status: string | null | undefined }) {
+  const value = toPublicationStatus(status)
+  return (
+    <Badge
+      variant={value === "published" ? "secondary" : "outline"}
+      className={cn(
+        "text-[10px] px-1.5 py-0",
+        value === "pending_review" && "border-yellow-500 text-yellow-700 dark:text-yellow-400",
+        value === "archived" && "text-neutral-500"
+      )}
+    >
+      {STATUS_LABELS[value]}
+    </Badge>
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "empty"
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value)
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text
+}
+
+export function ProductRevisionsDialog({ product, onOpenChange, onChanged }: ProductRevisionsDialogProps) {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [loading, setLoading] = useState(false)
+  const [selected, setSelected] = useState<Revision | null>(null)
+  const [against, setAgainst] = useState<"live" | "previous">("live")
+  const [changes, setChanges] = useState<Change[] | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<PublicationStatus>("published")
+
+  const showError = useCallback((title: string, response: Response | null, data: any) => {
+    toast({
+      title,
+      description: response && response.status < 500 && data?.error
+        ? data.error
+        : getFriendlyErrorMessage(data?.error || response?.status, "Something went wrong. Please try again."),
+      variant: "destructive"
+    })
+  }, [toast])
+
+  const loadRevisions = useCallback(async (productId: number) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/supplier/products/${productId}/revisions`, { credentials: "include" })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError("Could not load history", response, data)
+        return
+      }
+      setRevisions(data.revisions)
+    } catch (error) {
+      showError("Could not load history", null, { error })
+    } finally {
+      setLoading(false)
+    }
+  }, [showError])
+
+  useEffect(() => {
+    setSelected(null)
+    setChanges(null)
+    setRevisions([])
+    if (product) {
+      setStatus(toPublicationStatus(product.publication_status))
+      loadRevisions(product.id)
+    }
+  }, [product, loadRevisions])
+
+  // Diff of the selected revision against the live product or the revision before it
+  useEffect(() => {
+    if (!product || !selected) return
+    const previous = revisions.find(revision => revision.revisionNumber < selected.revisionNumber)
+    const query = against === "previous" && previous ? `?against=${previous.id}` : ""
+    let cancelled = false
+    setChanges(null)
+    fetch(`/api/supplier/products/${product.id}/revisions/${selected.id}${query}`, { credentials: "include" })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}))
+        if (cancelled) return
+        if (!response.ok || !data.success) {
+          showError("Could not compare revisions", response, data)
+          return
+        }
+        setChanges(data.changes)
+      })
+      .catch((error) => {
+        if (!cancelled) showError("Could not compare revisions", null, { error })
+      })
+    return () => { cancelled = true }
+  }, [product, selected, against, revisions, showError])
+
+  const rollback = async (revision: Revision) => {
+    if (!product) return
+    if (!confirm(`Restore the content of revision ${revision.revisionNumber}?`)) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/supplier/products/${product.id}/revisions/${revision.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ action: "rollback" })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError("Rollback failed", response, data)
+        return
+      }
+      toast({
+        title: "Rolled back",
+        description: data.revision.status === "pending_review"
+          ? "The restored content was sent for review."
+          : `Saved as revision ${data.revision.revisionNumber}.`
+      })
+      setSelected(null)
+      await loadRevisions(product.id)
+      onChanged()
+    } catch (error) {
+      showError("Rollback failed", null, { error })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const changeStatus = async (action: "submit" | "archive" | "restore") => {
+    if (!product) return
+    if (action === "archive" && !confirm("Archive this product? It will be hidden from your store.")) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/supplier/products/${product.id}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError("Status not changed", response, data)
+        return
+      }
+      setStatus(data.publicationStatus)
+      toast({ title: `Product is now ${STATUS_LABELS[data.publicationStatus as PublicationStatus].toLowerCase()}` })
+      await loadRevisions(product.id)
+      onChanged()
+    } catch (error) {
+      showError("Status not changed", null, { error })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className={cn("max-w-[calc(100vw-1rem)] sm:max-w-2xl lg:max-w-3xl max-h-[90vh] overflow-y-auto p-4 sm:p-6 shadow-xl bg-white dark:bg-neutral-900", themeClasses.cardBorder)}>
+        <DialogHeader className="space-y-2">
+          <DialogTitle className="text-base sm:text-lg flex items-center gap-2">
+            <span className="truncate">{product?.name}</span>
+            <PublicationStatusBadge status={status} />
+          </DialogTitle>
+          <DialogDescription>
+            Every save is kept as a revision. Changes to a published product go live after an admin approves them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {status === "draft" && (
+            <Button size="sm" onClick={() => changeStatus("submit")} disabled={busy} className="flex items-center gap-2 bg-yellow-500 hover:bg-yellow-600 text-neutral-950">
+              <Send className="h-4 w-4" />
+              Submit for review
+            </Button>
+          )}
+          {status === "archived" ? (
+            <Button size="sm" variant="outline" onClick={() => changeStatus("restore")} disabled={busy} className="flex items-center gap-2">
+              <ArchiveRestore className="h-4 w-4" />
+              Restore as draft
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => changeStatus("archive")} disabled={busy} className="flex items-center gap-2">
+              <Archive className="h-4 w-4" />
+              Archive
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className={cn("rounded-md border divide-y max-h-96 overflow-y-auto", themeClasses.cardBorder)}>
+            {loading && <p className={cn("p-3 text-sm", themeClasses.textNeutralSecondary)}>Loading...</p>}
+            {!loading && revisions.length === 0 && (
+              <p className={cn("p-3 text-sm", themeClasses.textNeutralSecondary)}>No revisions yet</p>
+            )}
+            {revisions.map((revision) => (
+              <button
+                key={revision.id}
+                type="button"
+                onClick={() => setSelected(revision)}
+                className={cn(
+                  "w-full text-left p-3 text-xs space-y-1",
+                  selected?.id === revision.id ? "bg-yellow-50 dark:bg-yellow-900/20" : themeClasses.buttonGhostHoverBg
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={cn("font-medium text-sm", themeClasses.mainText)}>Revision {revision.revisionNumber}</span>
+                  <Badge variant={revision.status === "rejected" ? "destructive" : "outline"} className="text-[10px] px-1.5 py-0">
+                    {REVISION_LABELS[revision.status]}
+                  </Badge>
+                </div>
+                <p className={themeClasses.textNeutralSecondary}>
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.note ? ` · ${revision.note}` : ""}
+                </p>
+                {revision.changedFields.length > 0 && (
+                  <p className={themeClasses.textNeutralSecondary}>
+                    Changed: {revision.changedFields.slice(0, 4).join(", ")}
+                    {revision.changedFields.length > 4 ? ` and ${revision.changedFields.length - 4} more` : ""}
+                  </p>
+                )}
+                {revision.status === "rejected" && revision.reviewReason && (
+                  <p className="text-red-600 dark:text-red-400">Reason: {revision.reviewReason}</p>
+                )}
+                {revision.flaggedKeywords.length > 0 && (
+                  <p className="flex items-center gap-1 text-yellow-700 dark:text-yellow-400">
+                    <AlertTriangle className="h-3 w-3" />
+                    Flagged: {revision.flaggedKeywords.join(", ")}
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className={cn("rounded-md border p-3 space-y-3 text-xs", themeClasses.cardBorder)}>
+            {!selected ? (
+              <p className={themeClasses.textNeutralSecondary}>Select a revision to see what it changes.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={cn("font-medium text-sm", themeClasses.mainText)}>Revision {selected.revisionNumber}</span>
+                  <select
+                    value={against}
+                    onChange={(event) => setAgainst(event.target.value as "live" | "previous")}
+                    className={cn("rounded border bg-transparent px-2 py-1 text-xs", themeClasses.cardBorder)}
+                  >
+                    <option value="live">Compared with current</option>
+                    <option value="previous">Compared with previous revision</option>
+                  </select>
+                </div>
+                {changes === null ? (
+                  <p className={themeClasses.textNeutralSecondary}>Loading...</p>
+                ) : changes.length === 0 ? (
+                  <p className={themeClasses.textNeutralSecondary}>No differences</p>
+                ) : (
+                  <ul className="space-y-1.5 max-h-64 overflow-y-auto">
+                    {changes.map((change) => (
+                      <li key={change.field} className={themeClasses.textNeutralSecondary}>
+                        <span className={themeClasses.mainText}>{change.field}</span>:{" "}
+                        <span className="line-through">{formatValue(change.before)}</span> →{" "}
+                        <span className={themeClasses.mainText}>{formatValue(change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => rollback(selected)}
+                  disabled={busy || status === "archived"}
+                  className="flex items-center gap-2"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Roll back to this revision
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
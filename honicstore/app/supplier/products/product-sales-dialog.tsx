@@ -0,0 +1,289 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import { useTheme } from "@/hooks/use-theme"
+import { useToast } from "@/hooks/use-toast"
+import { getFriendlyErrorMessage } from "@/lib/friendly-error"
+import { Plus, XCircle } from "lucide-react"
+
+type SaleState = "upcoming" | "running" | "sold_out" | "ended" | "cancelled"
+
+interface Sale {
+  id: string
+  variantId: number | null
+  salePrice: number
+  startsAt: string
+  endsAt: string
+  quantityCap: number | null
+  quantitySold: number
+  state: SaleState
+  createdAt: string
+}
+
+interface SaleVariant {
+  id: number
+  name: string
+  price: number | null
+}
+
+interface ProductSalesDialogProps {
+  product: { id: number; name: string } | null
+  onOpenChange: (open: boolean) => void
+}
+
+const STATE_LABELS: Record<SaleState, string> = {
+  upcoming: "Scheduled",
+  running: "Running",
+  sold_out: "Sold out",
+  ended: "Ended",
+  cancelled: "Cancelled"
+}
+
+const EMPTY_FORM = { variantId: "", salePrice: "", startsAt: "", endsAt: "", quantityCap: "" }
+
+function formatPrice(value: number): string {
+  return `TZS ${Math.round(value).toLocaleString()}`
+}
+
+export function ProductSalesDialog({ product, onOpenChange }: ProductSalesDialogProps) {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const [sales, setSales] = useState<Sale[]>([])
+  const [variants, setVariants] = useState<SaleVariant[]>([])
+  const [regularPrice, setRegularPrice] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const showError = useCallback((title: string, response: Response | null, data: any) => {
+    toast({
+      title,
+      description: response && response.status < 500 && data?.error
+        ? data.error
+        : getFriendlyErrorMessage(data?.error || response?.status, "Something went wrong. Please try again."),
+      variant: "destructive"
+    })
+  }, [toast])
+
+  const loadSales = useCallback(async (productId: number) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/supplier/products/${productId}/sales`, { credentials: "include" })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError("Could not load sales", response, data)
+        return
+      }
+      setSales(data.sales)
+      setVariants(data.variants)
+      setRegularPrice(data.price)
+    } catch (error) {
+      showError("Could not load sales", null, { error })
+    } finally {
+      setLoading(false)
+    }
+  }, [showError])
+
+  useEffect(() => {
+    setSales([])
+    setVariants([])
+    setForm(EMPTY_FORM)
+    if (product) loadSales(product.id)
+  }, [product, loadSales])
+
+  const variantName = (variantId: number | null) =>
+    variantId === null ? "Whole product" : variants.find(variant => variant.id === variantId)?.name || `Variant ${variantId}`
+
+  const selectedVariant = form.variantId ? variants.find(variant => String(variant.id) === form.variantId) : null
+  const formRegularPrice = selectedVariant?.price || regularPrice
+
+  const createSale = async () => {
+    if (!product) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/supplier/products/${product.id}/sales`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          variantId: form.variantId || null,
+          salePrice: form.salePrice,
+          // datetime-local values are in the supplier's own time zone
+          startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+          endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+          quantityCap: form.quantityCap || null
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError("Sale not scheduled", response, data)
+        return
+      }
+      toast({
+        title: data.sale.state === "running" ? "Sale is live" : "Sale scheduled",
+        description: `${variantName(data.sale.variantId)} at ${formatPrice(data.sale.salePrice)} until ${new Date(data.sale.endsAt).toLocaleString()}`
+      })
+      setForm(EMPTY_FORM)
+      await loadSales(product.id)
+    } catch (error) {
+      showError("Sale not scheduled", null, { error })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const cancelSale = async (sale: Sale) => {
+    if (!product) return
+    if (!confirm(sale.state === "running" ? "End this sale now?" : "Cancel this sale?")) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/supplier/products/${product.id}/sales/${sale.id}`, {
+        method: "DELETE",
+        credentials: "include"
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError("Sale not cancelled", response, data)
+        return
+      }
+      toast({ title: "Sale cancelled" })
+      await loadSales(product.id)
+    } catch (error) {
+      showError("Sale not cancelled", null, { error })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const salePrice = Number(form.salePrice)
+  const saving = formRegularPrice > 0 && salePrice > 0 && salePrice < formRegularPrice
+    ? Math.round(((formRegularPrice - salePrice) / formRegularPrice) * 100)
+    : null
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className={cn("max-w-[calc(100vw-1rem)] sm:max-w-2xl max-h-[90vh] overflow-y-auto p-4 sm:p-6 shadow-xl bg-white dark:bg-neutral-900", themeClasses.cardBorder)}>
+        <DialogHeader className="space-y-2">
+          <DialogTitle className="text-base sm:text-lg truncate">Sales · {product?.name}</DialogTitle>
+          <DialogDescription>
+            Schedule a sale price for the whole product or one variant. Buyers see a countdown while it runs,
+            and watchers of the product are told when it starts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={cn("rounded-lg border p-3 sm:p-4 space-y-3", themeClasses.cardBorder)}>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="sale-variant">Applies to</Label>
+              <select
+                id="sale-variant"
+                value={form.variantId}
+                onChange={(event) => setForm({ ...form, variantId: event.target.value })}
+                className={cn("w-full rounded-md border bg-transparent px-3 py-2 text-sm", themeClasses.cardBorder)}
+              >
+                <option value="">Whole product ({formatPrice(regularPrice)})</option>
+                {variants.map((variant) => (
+                  <option key={variant.id} value={String(variant.id)}>
+                    {variant.name}{variant.price ? ` (${formatPrice(variant.price)})` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sale-price">Sale price (TZS)</Label>
+              <Input
+                id="sale-price"
+                type="number"
+                min="1"
+                value={form.salePrice}
+                onChange={(event) => setForm({ ...form, salePrice: event.target.value })}
+              />
+              {saving !== null && (
+                <p className="text-xs text-green-600">{saving}% off {formatPrice(formRegularPrice)}</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sale-starts">Starts</Label>
+              <Input
+                id="sale-starts"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(event) => setForm({ ...form, startsAt: event.target.value })}
+              />
+              <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>Leave empty to start now</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sale-ends">Ends</Label>
+              <Input
+                id="sale-ends"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(event) => setForm({ ...form, endsAt: event.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sale-cap">Units at this price</Label>
+              <Input
+                id="sale-cap"
+                type="number"
+                min="1"
+                placeholder="No limit"
+                value={form.quantityCap}
+                onChange={(event) => setForm({ ...form, quantityCap: event.target.value })}
+              />
+            </div>
+          </div>
+          <Button
+            onClick={createSale}
+            disabled={busy || !form.salePrice || !form.endsAt}
+            className="flex items-center gap-2 bg-yellow-500 hover:bg-yellow-600 text-neutral-950"
+          >
+            <Plus className="h-4 w-4" />
+            Schedule sale
+          </Button>
+        </div>
+
+        <div className={cn("rounded-md border divide-y max-h-72 overflow-y-auto", themeClasses.cardBorder)}>
+          {loading && <p className={cn("p-3 text-sm", themeClasses.textNeutralSecondary)}>Loading...</p>}
+          {!loading && sales.length === 0 && (
+            <p className={cn("p-3 text-sm", themeClasses.textNeutralSecondary)}>No sales yet</p>
+          )}
+          {sales.map((sale) => (
+            <div key={sale.id} className="p-3 text-xs flex items-start justify-between gap-3">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={cn("font-medium text-sm", themeClasses.mainText)}>{formatPrice(sale.salePrice)}</span>
+                  <Badge
+                    variant={sale.state === "running" ? "default" : "outline"}
+                    className={cn("text-[10px] px-1.5 py-0", sale.state === "running" && "bg-green-600 hover:bg-green-600")}
+                  >
+                    {STATE_LABELS[sale.state]}
+                  </Badge>
+                </div>
+                <p className={themeClasses.textNeutralSecondary}>{variantName(sale.variantId)}</p>
+                <p className={themeClasses.textNeutralSecondary}>
+                  {new Date(sale.startsAt).toLocaleString()} → {new Date(sale.endsAt).toLocaleString()}
+                </p>
+                {sale.quantityCap !== null && (
+                  <p className={themeClasses.textNeutralSecondary}>{sale.quantitySold} of {sale.quantityCap} units sold</p>
+                )}
+              </div>
+              {(sale.state === "upcoming" || sale.state === "running" || sale.state === "sold_out") && (
+                <Button size="sm" variant="outline" onClick={() => cancelSale(sale)} disabled={busy} className="flex items-center gap-1 flex-shrink-0">
+                  <XCircle className="h-4 w-4" />
+                  {sale.state === "upcoming" ? "Cancel" : "End now"}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,443 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Image from 'next/image'
+import { useTheme } from '@/hooks/use-theme'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+import { ClipboardList, Clock, RefreshCw, Send, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+type RequestState = 'open' | 'accepted' | 'closed' | 'expired'
+type QuoteState = 'submitted' | 'accepted' | 'ordered' | 'declined' | 'withdrawn' | 'expired'
+
+interface SupplierQuote {
+  quoteNumber: string
+  productId: number
+  productName: string | null
+  variantId: number | null
+  variantName: string | null
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+  leadTimeDays: number | null
+  validUntil: string
+  note: string | null
+  state: QuoteState
+  orderNumber: string | null
+}
+
+interface QuoteRequest {
+  requestNumber: string
+  source: 'product' | 'china_import' | 'pcb' | 'prototyping' | 'custom'
+  productId: number | null
+  variantId: number | null
+  title: string
+  specification: string | null
+  category: string | null
+  quantity: number
+  targetUnitPrice: number | null
+  deadline: string
+  attachments: string[]
+  state: RequestState
+  createdAt: string
+  quote: SupplierQuote | null
+}
+
+interface QuotableProduct {
+  id: number
+  name: string
+  price: number
+  variants: Array<{ id: number; name: string; price: number | null }>
+}
+
+const SOURCE_LABELS: Record<QuoteRequest['source'], string> = {
+  product: 'Product',
+  china_import: 'China import',
+  pcb: 'PCB',
+  prototyping: 'Prototyping',
+  custom: 'Custom'
+}
+
+const QUOTE_LABELS: Record<QuoteState, string> = {
+  submitted: 'Waiting for buyer',
+  accepted: 'Accepted',
+  ordered: 'Ordered',
+  declined: 'Not selected',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired'
+}
+
+function formatPrice(value: number): string {
+  return `TZS ${Math.round(value).toLocaleString()}`
+}
+
+function dateInput(offsetDays: number): string {
+  const date = new Date()
+  date.setDate(date.getDate() + offsetDays)
+  return date.toISOString().slice(0, 10)
+}
+
+const EMPTY_FORM = { productId: '', variantId: '', unitPrice: '', quantity: '', leadTimeDays: '', validUntil: '', note: '' }
+
+export default function SupplierQuotesPage() {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const [requests, setRequests] = useState<QuoteRequest[]>([])
+  const [products, setProducts] = useState<QuotableProduct[]>([])
+  const [filter, setFilter] = useState<'open' | 'all'>('open')
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [quoting, setQuoting] = useState<QuoteRequest | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const showError = useCallback((title: string, response: Response | null, data: any) => {
+    toast({
+      title,
+      description: response && response.status < 500 && data?.error
+        ? data.error
+        : getFriendlyErrorMessage(data?.error || response?.status, 'Something went wrong. Please try again.'),
+      variant: 'destructive'
+    })
+  }, [toast])
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/supplier/quote-requests', { credentials: 'include' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError('Could not load quote requests', response, data)
+        return
+      }
+      setRequests(data.requests || [])
+      setProducts(data.products || [])
+    } catch (error) {
+      showError('Could not load quote requests', null, { error })
+    } finally {
+      setLoading(false)
+    }
+  }, [showError])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const openQuoteForm = (request: QuoteRequest) => {
+    const current = request.quote && request.quote.state === 'submitted' ? request.quote : null
+    // Product requests are for one of this supplier's own products, so start from it
+    const suggestedProduct = current?.productId ?? (products.some(product => product.id === request.productId) ? request.productId : null)
+    setForm({
+      productId: suggestedProduct ? String(suggestedProduct) : '',
+      variantId: current?.variantId ? String(current.variantId) : request.variantId && !current ? String(request.variantId) : '',
+      unitPrice: current ? String(current.unitPrice) : '',
+      quantity: String(current?.quantity ?? request.quantity),
+      leadTimeDays: current?.leadTimeDays ? String(current.leadTimeDays) : '',
+      validUntil: current ? current.validUntil.slice(0, 10) : dateInput(14),
+      note: current?.note || ''
+    })
+    setQuoting(request)
+  }
+
+  const selectedProduct = products.find(product => String(product.id) === form.productId) || null
+  const selectedVariant = selectedProduct?.variants.find(variant => String(variant.id) === form.variantId) || null
+  const listPrice = selectedVariant?.price || selectedProduct?.price || 0
+
+  const submitQuote = async () => {
+    if (!quoting) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/supplier/quote-requests/${quoting.requestNumber}/quote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          productId: form.productId,
+          variantId: form.variantId || null,
+          unitPrice: form.unitPrice,
+          quantity: form.quantity || null,
+          leadTimeDays: form.leadTimeDays || null,
+          validUntil: form.validUntil,
+          note: form.note
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError('Quote not sent', response, data)
+        return
+      }
+      toast({ title: 'Quote sent', description: `The buyer has been told about your price of ${formatPrice(data.quote.unitPrice)} each.` })
+      setQuoting(null)
+      await fetchRequests()
+    } catch (error) {
+      showError('Quote not sent', null, { error })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const withdrawQuote = async (request: QuoteRequest) => {
+    if (!confirm('Withdraw your quote? The buyer will no longer be able to accept it.')) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/supplier/quote-requests/${request.requestNumber}/quote`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        showError('Quote not withdrawn', response, data)
+        return
+      }
+      toast({ title: 'Quote withdrawn' })
+      await fetchRequests()
+    } catch (error) {
+      showError('Quote not withdrawn', null, { error })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const visibleRequests = filter === 'open' ? requests.filter(request => request.state === 'open') : requests
+  const openCount = requests.filter(request => request.state === 'open' && !request.quote).length
+
+  return (
+    <>
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className={cn("text-3xl font-bold mb-2", themeClasses.mainText)}>
+            Quote Requests
+          </h1>
+          <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
+            Buyers asking for bulk or custom prices. Quote one of your products; if the buyer accepts, they check out at your price.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchRequests} disabled={loading}>
+          <RefreshCw className={cn("w-4 h-4 mr-2", loading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
+        <CardHeader>
+          <div className="flex gap-2">
+            <Button variant={filter === 'open' ? 'default' : 'outline'} size="sm" onClick={() => setFilter('open')}>
+              Open
+              {openCount > 0 && (
+                <Badge className="ml-2 bg-red-500 text-white text-[10px] px-1.5 py-0">{openCount}</Badge>
+              )}
+            </Button>
+            <Button variant={filter === 'all' ? 'default' : 'outline'} size="sm" onClick={() => setFilter('all')}>
+              All
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {visibleRequests.length === 0 && (
+            <p className={cn("text-sm py-8 text-center", themeClasses.textNeutralSecondary)}>
+              {loading ? 'Loading quote requests...' : 'No quote requests to show'}
+            </p>
+          )}
+          {visibleRequests.map(request => (
+            <div key={request.requestNumber} className={cn("border rounded-lg p-4 space-y-3", themeClasses.cardBorder)}>
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <ClipboardList className="w-4 h-4 text-yellow-500 flex-shrink-0" />
+                    <p className={cn("text-sm font-medium truncate", themeClasses.mainText)}>{request.title}</p>
+                    <Badge variant="outline" className="text-[10px]">{SOURCE_LABELS[request.source]}</Badge>
+                  </div>
+                  <p className={cn("text-xs mt-1", themeClasses.textNeutralSecondary)}>
+                    {request.requestNumber} · {request.quantity.toLocaleString()} units
+                    {request.targetUnitPrice !== null && ` · target ${formatPrice(request.targetUnitPrice)} each`}
+                    {request.category && ` · ${request.category}`}
+                  </p>
+                </div>
+                <span className={cn("inline-flex items-center gap-1 text-xs", request.state === 'open' ? "text-orange-600" : themeClasses.textNeutralSecondary)}>
+                  <Clock className="w-3 h-3" />
+                  {request.state === 'open'
+                    ? `Quote by ${new Date(request.deadline).toLocaleDateString()}`
+                    : request.state === 'expired' ? 'Deadline passed' : request.state === 'accepted' ? 'Buyer chose a quote' : 'Closed by buyer'}
+                </span>
+              </div>
+
+              {request.specification && (
+                <p className={cn("text-sm whitespace-pre-line", themeClasses.mainText)}>{request.specification}</p>
+              )}
+              {request.attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {request.attachments.map(url => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="relative w-14 h-14">
+                      <Image src={url} alt="Attachment" fill className="rounded border object-cover" />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {request.quote && (
+                <div className="ml-4 pl-3 border-l-2 border-yellow-400 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className={cn("font-medium", themeClasses.mainText)}>Your quote: {formatPrice(request.quote.unitPrice)} each</span>
+                    <Badge variant="outline" className="text-[10px]">{QUOTE_LABELS[request.quote.state]}</Badge>
+                  </div>
+                  <p className={themeClasses.textNeutralSecondary}>
+                    {request.quote.productName}{request.quote.variantName ? ` (${request.quote.variantName})` : ''} · {request.quote.quantity.toLocaleString()} units
+                    {' '}· valid until {new Date(request.quote.validUntil).toLocaleDateString()}
+                    {request.quote.orderNumber && ` · order ${request.quote.orderNumber}`}
+                  </p>
+                </div>
+              )}
+
+              {request.state === 'open' && (!request.quote || request.quote.state === 'submitted' || request.quote.state === 'expired') && (
+                <div className="flex justify-end gap-2">
+                  {request.quote?.state === 'submitted' && (
+                    <Button size="sm" variant="outline" onClick={() => withdrawQuote(request)} disabled={busy}>
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Withdraw
+                    </Button>
+                  )}
+                  <Button size="sm" onClick={() => openQuoteForm(request)} disabled={busy}>
+                    <Send className="w-4 h-4 mr-2" />
+                    {request.quote?.state === 'submitted' ? 'Revise quote' : 'Send quote'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!quoting} onOpenChange={(open) => !open && setQuoting(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="truncate">Quote · {quoting?.title}</DialogTitle>
+            <DialogDescription>
+              The buyer checks out at this price for the quoted product and quantity until the date you set.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="quote-product">Product</Label>
+              <select
+                id="quote-product"
+                value={form.productId}
+                onChange={(event) => setForm({ ...form, productId: event.target.value, variantId: '' })}
+                className={cn("w-full rounded-md border bg-transparent px-3 py-2 text-sm", themeClasses.cardBorder)}
+              >
+                <option value="">Choose one of your products</option>
+                {products.map(product => (
+                  <option key={product.id} value={String(product.id)}>{product.name}</option>
+                ))}
+              </select>
+              {products.length === 0 && !loading && (
+                <p className="text-xs text-orange-600">List the product in your catalog first so the buyer can order it.</p>
+              )}
+            </div>
+            {selectedProduct && selectedProduct.variants.length > 0 && (
+              <div className="space-y-1">
+                <Label htmlFor="quote-variant">Variant</Label>
+                <select
+                  id="quote-variant"
+                  value={form.variantId}
+                  onChange={(event) => setForm({ ...form, variantId: event.target.value })}
+                  className={cn("w-full rounded-md border bg-transparent px-3 py-2 text-sm", themeClasses.cardBorder)}
+                >
+                  <option value="">No variant</option>
+                  {selectedProduct.variants.map(variant => (
+                    <option key={variant.id} value={String(variant.id)}>
+                      {variant.name}{variant.price ? ` (${formatPrice(variant.price)})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="quote-price">Unit price (TZS)</Label>
+                <Input
+                  id="quote-price"
+                  type="number"
+                  min="1"
+                  value={form.unitPrice}
+                  onChange={(event) => setForm({ ...form, unitPrice: event.target.value })}
+                />
+                {listPrice > 0 && (
+                  <p className={cn("text-xs", themeClasses.textNeutralSecondary)}>List price {formatPrice(listPrice)}</p>
+                )}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quote-quantity">Quantity</Label>
+                <Input
+                  id="quote-quantity"
+                  type="number"
+                  min="1"
+                  value={form.quantity}
+                  onChange={(event) => setForm({ ...form, quantity: event.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quote-lead-time">Lead time (days)</Label>
+                <Input
+                  id="quote-lead-time"
+                  type="number"
+                  min="1"
+                  placeholder="Optional"
+                  value={form.leadTimeDays}
+                  onChange={(event) => setForm({ ...form, leadTimeDays: event.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quote-valid-until">Valid until</Label>
+                <Input
+                  id="quote-valid-until"
+                  type="date"
+                  min={dateInput(1)}
+                  value={form.validUntil}
+                  onChange={(event) => setForm({ ...form, validUntil: event.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="quote-note">Note to the buyer</Label>
+              <Textarea
+                id="quote-note"
+                rows={3}
+                maxLength={1000}
+                placeholder="Packaging, shipping, payment terms..."
+                value={form.note}
+                onChange={(event) => setForm({ ...form, note: event.target.value })}
+              />
+            </div>
+            {form.unitPrice && form.quantity && Number(form.unitPrice) > 0 && Number(form.quantity) > 0 && (
+              <p className={cn("text-sm", themeClasses.mainText)}>
+                Total: <span className="font-semibold">{formatPrice(Number(form.unitPrice) * Number(form.quantity))}</span>
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setQuoting(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitQuote}
+              disabled={busy || !form.productId || !form.unitPrice || !form.validUntil}
+              className="bg-yellow-500 hover:bg-yellow-600 text-neutral-950"
+            >
+              {busy ? 'Sending...' : 'Send quote'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Image from 'next/image'
+import { useTheme } from '@/hooks/use-theme'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { getFriendlyErrorMessage } from '@/lib/friendly-error'
+import { MessageSquare, RefreshCw, Search, ShieldCheck, Star } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+
+interface SupplierReview {
+  id: number
+  productId: number
+  productName: string | null
+  productImage: string | null
+  userName: string
+  rating: number
+  comment: string | null
+  helpful: number
+  verifiedPurchase: boolean
+  supplierReply: { body: string; date: string | null } | null
+  status: 'approved' | 'flagged'
+  date: string
+}
+
+// Mirrors MAX_SUPPLIER_REPLY_LENGTH in lib/product-reviews
+const MAX_REPLY_LENGTH = 1000
+
+export default function SupplierReviewsPage() {
+  const { themeClasses } = useTheme()
+  const { toast } = useToast()
+  const [reviews, setReviews] = useState<SupplierReview[]>([])
+  const [searchTerm, setSearchTerm] = useState('')
+  const [filter, setFilter] = useState<'all' | 'unanswered'>('all')
+  const [loading, setLoading] = useState(true)
+  const [replyDrafts, setReplyDrafts] = useState<Record<number, string>>({})
+  const [submittingId, setSubmittingId] = useState<number | null>(null)
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/supplier/reviews', { credentials: 'include' })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to load reviews')
+      }
+
+      setReviews(data.reviews || [])
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to load reviews. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchReviews()
+  }, [fetchReviews])
+
+  const handleReply = async (review: SupplierReview) => {
+    const reply = (replyDrafts[review.id] || '').trim()
+    if (!reply) return
+
+    try {
+      setSubmittingId(review.id)
+      const response = await fetch(`/api/supplier/reviews/${review.id}/reply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ reply })
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        toast({
+          title: 'Reply not posted',
+          description: response.status < 500 && data.error
+            ? data.error
+            : getFriendlyErrorMessage(response.status, 'Unable to post your reply. Please try again.'),
+          variant: 'destructive'
+        })
+        return
+      }
+
+      setReviews(prev => prev.map(item =>
+        item.id === review.id ? { ...item, supplierReply: data.review.supplierReply } : item
+      ))
+      setReplyDrafts(prev => ({ ...prev, [review.id]: '' }))
+      toast({ title: 'Reply posted', description: 'Your reply is now shown under the review.' })
+    } catch (error) {
+      toast({
+        title: 'Reply not posted',
+        description: getFriendlyErrorMessage(error, 'Unable to post your reply. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmittingId(null)
+    }
+  }
+
+  const filteredReviews = reviews.filter(review => {
+    if (filter === 'unanswered' && review.supplierReply) return false
+    if (!searchTerm) return true
+    const term = searchTerm.toLowerCase()
+    return (review.productName || '').toLowerCase().includes(term) ||
+      review.userName.toLowerCase().includes(term) ||
+      (review.comment || '').toLowerCase().includes(term)
+  })
+
+  const unansweredCount = reviews.filter(review => !review.supplierReply && review.status === 'approved').length
+
+  return (
+    <>
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className={cn("text-3xl font-bold mb-2", themeClasses.mainText)}>
+            Reviews
+          </h1>
+          <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>
+            What buyers say about your products. Each review can get one public reply.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchReviews} disabled={loading}>
+          <RefreshCw className={cn("w-4 h-4 mr-2", loading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card className={cn(themeClasses.cardBg, themeClasses.cardBorder)}>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search product, buyer or review..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant={filter === 'all' ? 'default' : 'outline'} size="sm" onClick={() => setFilter('all')}>
+                All
+              </Button>
+              <Button variant={filter === 'unanswered' ? 'default' : 'outline'} size="sm" onClick={() => setFilter('unanswered')}>
+                Needs reply
+                {unansweredCount > 0 && (
+                  <Badge className="ml-2 bg-red-500 text-white text-[10px] px-1.5 py-0">{unansweredCount}</Badge>
+                )}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {filteredReviews.length === 0 && (
+            <p className={cn("text-sm py-8 text-center", themeClasses.textNeutralSecondary)}>
+              {loading ? 'Loading reviews...' : 'No reviews to show'}
+            </p>
+          )}
+          {filteredReviews.map(review => (
+            <div key={review.id} className={cn("border rounded-lg p-4", themeClasses.cardBorder)}>
+              <div className="flex items-start gap-3 mb-2">
+                {review.productImage && (
+                  <div className="relative w-12 h-12 flex-shrink-0">
+                    <Image src={review.productImage} alt={review.productName || 'Product'} fill className="rounded object-cover" />
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className={cn("text-sm font-medium truncate", themeClasses.mainText)}>{review.productName}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    <div className="flex items-center gap-0.5">
+                      {Array.from({ length: 5 }).map((_, i) => (
+                        <Star
+                          key={i}
+                          className={cn(
+                            "w-3 h-3",
+                            i < review.rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300 dark:text-gray-600"
+                          )}
+                        />
+                      ))}
+                    </div>
+                    <span className={cn("text-xs", themeClasses.textNeutralSecondary)}>
+                      {review.userName} · {new Date(review.date).toLocaleDateString()}
+                    </span>
+                    {review.verifiedPurchase && (
+                      <span className="inline-flex items-center gap-1 text-[11px] font-medium text-green-600 dark:text-green-400">
+                        <ShieldCheck className="w-3 h-3" />
+                        Verified purchase
+                      </span>
+                    )}
+                    {review.status === 'flagged' && (
+                      <Badge variant="outline" className="text-[10px]">Under moderation</Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {review.comment && (
+                <p className={cn("text-sm leading-relaxed mb-3", themeClasses.mainText)}>{review.comment}</p>
+              )}
+
+              {review.supplierReply ? (
+                <div className="ml-4 pl-3 border-l-2 border-yellow-400">
+                  <p className={cn("text-xs font-medium mb-1", themeClasses.mainText)}>Your reply</p>
+                  <p className={cn("text-sm", themeClasses.textNeutralSecondary)}>{review.supplierReply.body}</p>
+                </div>
+              ) : review.status === 'approved' ? (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Write a public reply..."
+                    value={replyDrafts[review.id] || ''}
+                    onChange={(e) => setReplyDrafts(prev => ({ ...prev, [review.id]: e.target.value }))}
+                    maxLength={MAX_REPLY_LENGTH}
+                    rows={2}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => handleReply(review)}
+                      disabled={submittingId === review.id || !(replyDrafts[review.id] || '').trim()}
+                    >
+                      <MessageSquare className="w-4 h-4 mr-2" />
+                      {submittingId === review.id ? 'Posting...' : 'Post reply'}
+                    </Button>
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </>
+  )
+}
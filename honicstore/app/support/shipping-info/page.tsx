@@ -3,7 +3,7 @@
 // Note: ISR (revalidate) cannot be used in client components
 // CPU optimization is handled via API route caching and CDN caching instead
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -31,13 +31,14 @@ import {
 import { useTheme } from '@/hooks/use-theme'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { getClientShippingPricing } from '@/lib/shipping-calculator'
+import type { ShippingRateSummary } from '@/lib/shipping-rates'
 
 interface ShippingOption {
   id: string
   name: string
   description: string
-  price: number
+  // null while the live rates load
+  price: number | null
   deliveryTime: string
   coverage: string[]
   features: string[]
@@ -50,21 +51,46 @@ interface DeliveryZone {
   cities: string[]
   standardDelivery: string
   expressDelivery: string
-  freeShippingThreshold: number
+  freeShippingThreshold: number | null
 }
 
 export default function ShippingInfoPage() {
   const { themeClasses } = useTheme()
   const router = useRouter()
   const [selectedZone, setSelectedZone] = useState('dar-es-salaam')
-  const { freeThresholdTz, flatRateTz } = getClientShippingPricing()
+  const [rates, setRates] = useState<ShippingRateSummary | null>(null)
+
+  // Prices come from the rate table checkout charges from, so this page can't drift from it
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/shipping/rates')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data?.success) setRates(data.rates)
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Cheapest fee among the zone's regions the table prices, else the table default
+  const zoneStandardFee = (cities: string[]): number | null => {
+    if (!rates) return null
+    const names = cities.map(city => city.toLowerCase())
+    const fees = rates.regions
+      .filter(entry => names.includes(entry.region.toLowerCase()))
+      .map(entry => entry.lowestFee)
+    return fees.length > 0 ? Math.min(...fees) : rates.defaultFee
+  }
+  const freeThreshold = rates?.freeThreshold ?? null
 
   const shippingOptions: ShippingOption[] = [
     {
       id: 'standard',
       name: 'Standard Shipping',
       description: 'Reliable delivery to your doorstep',
-      price: flatRateTz,
+      price: rates?.lowestFee ?? null,
       deliveryTime: '3-5 business days',
       coverage: ['Dar es Salaam', 'Arusha', 'Mwanza', 'Dodoma', 'Tanga'],
       features: ['Tracked delivery', 'Signature required', 'Insurance included'],
@@ -112,28 +138,28 @@ export default function ShippingInfoPage() {
       cities: ['Dar es Salaam', 'Kinondoni', 'Ilala', 'Temeke', 'Ubungo'],
       standardDelivery: '1-2 business days',
       expressDelivery: 'Same day',
-      freeShippingThreshold: freeThresholdTz
+      freeShippingThreshold: freeThreshold
     },
     {
       zone: 'major-cities',
       cities: ['Arusha', 'Mwanza', 'Dodoma', 'Tanga', 'Morogoro', 'Moshi'],
       standardDelivery: '2-3 business days',
       expressDelivery: '1-2 business days',
-      freeShippingThreshold: freeThresholdTz
+      freeShippingThreshold: freeThreshold
     },
     {
       zone: 'other-regions',
       cities: ['Iringa', 'Mbeya', 'Tabora', 'Kigoma', 'Mtwara', 'Lindi'],
       standardDelivery: '3-5 business days',
       expressDelivery: '2-3 business days',
-      freeShippingThreshold: freeThresholdTz
+      freeShippingThreshold: freeThreshold
     }
   ]
 
   const faqs = [
     {
       question: 'How much does shipping cost?',
-      answer: `Shipping costs vary by location and speed. Standard flat shipping is from TZS ${flatRateTz.toLocaleString()} when distance-based pricing does not apply; Express and international options may differ. Store pickup is free. Free shipping applies when your order meets the site threshold (currently TZS ${freeThresholdTz.toLocaleString()}).`,
+      answer: `Shipping costs vary by location, distance and parcel weight.${rates ? ` Standard shipping starts from TZS ${rates.lowestFee.toLocaleString()}${rates.perKgFee > 0 ? `, and each kg over ${rates.includedWeightKg} kg adds TZS ${rates.perKgFee.toLocaleString()}` : ''}.` : ''} Express and international options may differ. Store pickup is free.${freeThreshold !== null ? ` Free shipping applies when your order reaches TZS ${freeThreshold.toLocaleString()}.` : ''}`,
     },
     {
       question: 'How long does delivery take?',
@@ -166,6 +192,7 @@ export default function ShippingInfoPage() {
   }
 
   const selectedZoneData = deliveryZones.find(zone => zone.zone === selectedZone) || deliveryZones[0]
+  const selectedZoneFee = zoneStandardFee(selectedZoneData.cities)
 
   return (
     <div className={`min-h-screen ${themeClasses.mainBg} ${themeClasses.mainText}`}>
@@ -209,7 +236,7 @@ export default function ShippingInfoPage() {
                 <div className="space-y-3">
                   <div className="text-center">
                     <div className="text-2xl font-bold text-orange-500">
-                      {option.price === 0 ? 'Free' : formatCurrency(option.price)}
+                      {option.price === null ? '—' : option.price === 0 ? 'Free' : formatCurrency(option.price)}
                     </div>
                     <div className="text-sm text-muted-foreground">{option.deliveryTime}</div>
                   </div>
@@ -290,11 +317,21 @@ export default function ShippingInfoPage() {
                 <div className="space-y-3">
                   <div className="text-center p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
                     <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                      {formatCurrency(selectedZoneData.freeShippingThreshold)}
+                      {!rates
+                        ? '—'
+                        : selectedZoneData.freeShippingThreshold === null
+                          ? 'Not offered'
+                          : formatCurrency(selectedZoneData.freeShippingThreshold)}
                     </div>
                     <div className="text-sm text-muted-foreground">Minimum order for free shipping</div>
                   </div>
                   <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span>Standard Shipping:</span>
+                      <span className="font-medium">
+                        {selectedZoneFee === null ? '—' : `From ${formatCurrency(selectedZoneFee)}`}
+                      </span>
+                    </div>
                     <div className="flex justify-between">
                       <span>Standard Delivery:</span>
                       <span className="font-medium">{selectedZoneData.standardDelivery}</span>
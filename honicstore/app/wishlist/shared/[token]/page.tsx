@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Heart, ShoppingCart } from 'lucide-react'
+import { useCart } from '@/hooks/use-cart'
+import { useToast } from '@/hooks/use-toast'
+
+interface SharedWishlistItem {
+  productId: number
+  variantId: number | null
+  variantName: string | null
+  name: string
+  slug: string
+  image: string | null
+  price: number
+  inStock: boolean
+}
+
+interface SharedWishlist {
+  name: string
+  ownerName: string | null
+  items: SharedWishlistItem[]
+}
+
+export default function SharedWishlistPage() {
+  const { token } = useParams<{ token: string }>()
+  const router = useRouter()
+  const { addItem } = useCart()
+  const { toast } = useToast()
+  const [wishlist, setWishlist] = useState<SharedWishlist | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+  const [addingAll, setAddingAll] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const loadWishlist = async () => {
+      try {
+        const res = await fetch(`/api/wishlists/shared/${token}`, { cache: 'no-store' })
+        const data = await res.json().catch(() => ({}))
+        if (cancelled) return
+        if (res.ok && data.wishlist) {
+          setWishlist(data.wishlist)
+        } else {
+          setNotFound(true)
+        }
+      } catch {
+        if (!cancelled) setNotFound(true)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    loadWishlist()
+    return () => { cancelled = true }
+  }, [token])
+
+  const addToCart = (item: SharedWishlistItem) =>
+    addItem(item.productId, 1, item.variantId != null ? String(item.variantId) : undefined, {}, item.price)
+
+  const availableItems = (wishlist?.items || []).filter(item => item.inStock)
+
+  const handleAddAll = async () => {
+    if (availableItems.length === 0) return
+    setAddingAll(true)
+    try {
+      // One at a time so the cart merges quantities the same way as manual adds
+      for (const item of availableItems) {
+        await addToCart(item)
+      }
+      toast({
+        title: 'Added to cart',
+        description: `${availableItems.length} item${availableItems.length === 1 ? '' : 's'} added to your cart.`,
+      })
+    } catch {
+      toast({ title: 'Some items were not added', description: 'Please try again.', variant: 'destructive' })
+    } finally {
+      setAddingAll(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading wishlist...</div>
+      </div>
+    )
+  }
+
+  if (notFound || !wishlist) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <Heart className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+        <h1 className="text-xl font-semibold mb-2">This wishlist is not available</h1>
+        <p className="text-muted-foreground mb-4">The link may have been turned off by its owner.</p>
+        <Button onClick={() => router.push('/products')}>Browse Products</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 min-h-screen bg-background">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{wishlist.name}</h1>
+          <p className="text-muted-foreground">
+            {wishlist.ownerName ? `Shared by ${wishlist.ownerName} · ` : ''}{wishlist.items.length} items
+          </p>
+        </div>
+        <Button onClick={handleAddAll} disabled={addingAll || availableItems.length === 0}>
+          <ShoppingCart className="w-4 h-4 mr-2" />
+          {addingAll ? 'Adding...' : `Add all to cart (${availableItems.length})`}
+        </Button>
+      </div>
+
+      {wishlist.items.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">This wishlist is empty.</CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3">
+          {wishlist.items.map(item => (
+            <Card
+              key={`${item.productId}:${item.variantId ?? ''}`}
+              className="flex flex-col overflow-hidden rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border border-gray-200 dark:border-gray-700"
+            >
+              <Link href={`/products/${item.slug}`} className="block relative aspect-square overflow-hidden rounded-lg">
+                {item.image && (
+                  <Image
+                    src={item.image}
+                    alt={item.name}
+                    fill
+                    className="object-cover rounded-lg"
+                    sizes="(max-width: 640px) 40vw, (max-width: 1024px) 25vw, 20vw"
+                  />
+                )}
+                {!item.inStock && (
+                  <div className="absolute top-1 left-1 sm:top-2 sm:left-2 z-10">
+                    <span className="bg-red-500 text-white text-[8px] sm:text-[10px] px-0.5 sm:px-1 py-0.5 rounded-none shadow-sm sm:shadow-md">
+                      Out of Stock
+                    </span>
+                  </div>
+                )}
+              </Link>
+              <CardContent className="p-2 flex-1 flex flex-col justify-between">
+                <div>
+                  <Link href={`/products/${item.slug}`}>
+                    <h3 className="text-xs sm:text-sm font-semibold line-clamp-2 mb-1">{item.name}</h3>
+                  </Link>
+                  {item.variantName && (
+                    <p className="text-[10px] text-gray-500 dark:text-gray-400 mb-1 truncate">{item.variantName}</p>
+                  )}
+                  <div className="text-sm font-bold mb-1">TZS {item.price.toFixed(0)}</div>
+                </div>
+                <Button
+                  size="sm"
+                  disabled={!item.inStock}
+                  onClick={() => addToCart(item)}
+                  className="text-xs h-7 w-full"
+                >
+                  <ShoppingCart className="w-3 h-3 mr-1" />
+                  Add
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
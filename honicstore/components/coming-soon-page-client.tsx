@@ -11,8 +11,10 @@ import {
   Bell,
   Home,
   Zap,
+  FileText,
 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
+import { QuoteRequestDialog, QuoteRequestSource } from '@/components/quote-request-dialog'
 
 interface ComingSoonPageClientProps {
   title: string
@@ -23,6 +25,8 @@ interface ComingSoonPageClientProps {
   features?: string[]
   companyName: string
   companyColor: string
+  // Services that already take custom orders can ask suppliers for a quote
+  quoteSource?: QuoteRequestSource
 }
 
 export function ComingSoonPageClient({ 
@@ -33,10 +37,12 @@ export function ComingSoonPageClient({
   estimatedLaunch = "Q2 2024",
   features = [],
   companyName,
-  companyColor
+  companyColor,
+  quoteSource
 }: ComingSoonPageClientProps) {
   const router = useRouter()
   const [email, setEmail] = useState('')
+  const [quoteOpen, setQuoteOpen] = useState(false)
   const [isSubscribed, setIsSubscribed] = useState(false)
   const [timeLeft, setTimeLeft] = useState({
     days: 0,
@@ -200,6 +206,30 @@ export function ComingSoonPageClient({
             </Card>
           )}
 
+          {/* Request for quotation */}
+          {quoteSource && (
+            <Card className="max-w-md mx-auto mb-12">
+              <CardHeader>
+                <CardTitle className="text-center flex items-center justify-center">
+                  <FileText className="w-5 h-5 mr-2" />
+                  Need it now?
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-center">
+                <p className="text-gray-600 dark:text-gray-300">
+                  Send your specification and quantity, and our suppliers will quote you a price.
+                </p>
+                <Button
+                  className="w-full"
+                  style={{ backgroundColor: companyColor || '#3B82F6' }}
+                  onClick={() => setQuoteOpen(true)}
+                >
+                  Request a Quote
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Email Subscription */}
           <Card className="max-w-md mx-auto">
             <CardHeader>
@@ -262,6 +292,14 @@ export function ComingSoonPageClient({
           </div>
         </div>
       </main>
+
+      {quoteSource && (
+        <QuoteRequestDialog
+          open={quoteOpen}
+          onOpenChange={setQuoteOpen}
+          source={quoteSource}
+        />
+      )}
     </div>
   )
 }
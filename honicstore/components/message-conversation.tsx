@@ -0,0 +1,350 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Flag, ImagePlus, Send, X } from "lucide-react"
+import Image from "next/image"
+import { cn } from "@/lib/utils"
+import { toast } from "@/hooks/use-toast"
+import { getFriendlyErrorMessage } from "@/lib/friendly-error"
+
+export interface ConversationMessage {
+  reference: string
+  fromMe: boolean
+  body: string
+  attachments: string[]
+  createdAt: string
+}
+
+const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment or threats' },
+  { value: 'scam', label: 'Scam or off-platform payment' },
+  { value: 'offensive', label: 'Offensive language' },
+  { value: 'other', label: 'Something else' },
+]
+
+// Mirrors MAX_MESSAGE_LENGTH / MAX_MESSAGE_ATTACHMENTS in lib/messaging
+const MAX_LENGTH = 2000
+const MAX_PHOTOS = 5
+
+interface MessageConversationProps {
+  // /api/user/messages for buyers, /api/supplier/messages for suppliers
+  apiBase: string
+  threadNumber: string
+  counterpartName: string
+  onMessagesLoaded?: () => void
+  onMessageSent?: (message: ConversationMessage) => void
+}
+
+/**
+ * One buyer-supplier conversation: the messages, a reply box with photo attachments,
+ * and a report action on the other side's messages
+ */
+export function MessageConversation({
+  apiBase,
+  threadNumber,
+  counterpartName,
+  onMessagesLoaded,
+  onMessageSent
+}: MessageConversationProps) {
+  const [messages, setMessages] = useState<ConversationMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [reply, setReply] = useState('')
+  const [photos, setPhotos] = useState<string[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [sending, setSending] = useState(false)
+  const [reportTarget, setReportTarget] = useState<ConversationMessage | null>(null)
+  const [reportReason, setReportReason] = useState('')
+  const [reportDetails, setReportDetails] = useState('')
+  const [reporting, setReporting] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`${apiBase}/${threadNumber}`, { credentials: 'include' })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to load messages')
+      }
+      setMessages(data.messages || [])
+      onMessagesLoaded?.()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getFriendlyErrorMessage(error, 'Unable to load messages. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [apiBase, threadNumber, onMessagesLoaded])
+
+  useEffect(() => {
+    setLoading(true)
+    setMessages([])
+    setReply('')
+    setPhotos([])
+    fetchMessages()
+
+    // Pick up replies while the conversation is open
+    const interval = setInterval(fetchMessages, 30000)
+    return () => clearInterval(interval)
+  }, [fetchMessages])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' })
+  }, [messages.length])
+
+  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    if (!file.type.startsWith('image/')) {
+      toast({ title: "Invalid file type", description: "Please upload an image file", variant: "destructive" })
+      return
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast({ title: "File too large", description: "Please upload an image smaller than 5MB", variant: "destructive" })
+      return
+    }
+
+    try {
+      setUploading(true)
+      const form = new FormData()
+      form.append('file', file)
+      form.append('type', 'image')
+      form.append('context', 'message')
+      const response = await fetch('/api/media/upload', { method: 'POST', body: form })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Upload failed')
+      setPhotos(prev => [...prev, data.url])
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: getFriendlyErrorMessage(error, 'Please try another image'),
+        variant: "destructive"
+      })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSend = async () => {
+    if (!reply.trim() && photos.length === 0) return
+
+    try {
+      setSending(true)
+      const response = await fetch(`${apiBase}/${threadNumber}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ body: reply, attachments: photos })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to send message')
+      }
+      setMessages(prev => [...prev, data.message])
+      setReply('')
+      setPhotos([])
+      onMessageSent?.(data.message)
+    } catch (error) {
+      toast({
+        title: 'Message not sent',
+        description: getFriendlyErrorMessage(error, 'Unable to send your message. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleReport = async () => {
+    if (!reportTarget) return
+    if (!reportReason) {
+      toast({ title: "Choose a reason", description: "Tell us what is wrong with this message", variant: "destructive" })
+      return
+    }
+
+    try {
+      setReporting(true)
+      const response = await fetch(`${apiBase}/${threadNumber}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          messageReference: reportTarget.reference,
+          reason: reportReason,
+          details: reportDetails
+        })
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Unable to report message')
+      }
+      toast({ title: 'Message reported', description: data.message })
+      setReportTarget(null)
+      setReportReason('')
+      setReportDetails('')
+    } catch (error) {
+      toast({
+        title: 'Report not sent',
+        description: getFriendlyErrorMessage(error, 'Unable to report this message. Please try again.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setReporting(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-1">
+        {loading && messages.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading messages...</p>
+        )}
+        {messages.map(message => (
+          <div key={message.reference} className={cn("flex", message.fromMe ? "justify-end" : "justify-start")}>
+            <div
+              className={cn(
+                "max-w-[80%] rounded-lg p-3",
+                message.fromMe
+                  ? "bg-yellow-100 dark:bg-yellow-900/30"
+                  : "bg-gray-100 dark:bg-gray-800"
+              )}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-xs font-medium">{message.fromMe ? 'You' : counterpartName}</span>
+                <span className="text-[10px] text-muted-foreground">{new Date(message.createdAt).toLocaleString()}</span>
+              </div>
+              {message.body && <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>}
+              {message.attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {message.attachments.map(url => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="relative block w-20 h-20">
+                      <Image src={url} alt="Message photo" fill className="rounded border object-cover" />
+                    </a>
+                  ))}
+                </div>
+              )}
+              {!message.fromMe && (
+                <button
+                  type="button"
+                  className="mt-1 inline-flex items-center gap-1 text-[10px] text-muted-foreground hover:text-red-600"
+                  onClick={() => setReportTarget(message)}
+                >
+                  <Flag className="w-3 h-3" />
+                  Report
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="border-t pt-4 space-y-2">
+        {photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photos.map(url => (
+              <div key={url} className="relative w-16 h-16">
+                <Image src={url} alt="Message photo" fill className="rounded border object-cover" />
+                <button
+                  type="button"
+                  className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-0.5"
+                  onClick={() => setPhotos(prev => prev.filter(photo => photo !== url))}
+                  aria-label="Remove photo"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <Textarea
+          placeholder="Type your message..."
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          maxLength={MAX_LENGTH}
+          rows={3}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <label className={cn(
+            "inline-flex items-center gap-1.5 text-sm cursor-pointer text-muted-foreground hover:text-foreground",
+            (uploading || photos.length >= MAX_PHOTOS) && "pointer-events-none opacity-50"
+          )}>
+            <ImagePlus className="w-4 h-4" />
+            {uploading ? 'Uploading...' : 'Add photo'}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handlePhotoUpload}
+              disabled={uploading || photos.length >= MAX_PHOTOS}
+            />
+          </label>
+          <Button onClick={handleSend} disabled={sending || uploading || (!reply.trim() && photos.length === 0)}>
+            <Send className="w-4 h-4 mr-2" />
+            {sending ? 'Sending...' : 'Send'}
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={!!reportTarget} onOpenChange={(open) => !open && setReportTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report message</DialogTitle>
+            <DialogDescription>
+              Our team will review this message from {counterpartName}. They won&apos;t be told who reported it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label>Reason</Label>
+              <Select value={reportReason} onValueChange={setReportReason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_REASONS.map(reason => (
+                    <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Details (optional)</Label>
+              <Textarea
+                value={reportDetails}
+                onChange={(e) => setReportDetails(e.target.value)}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReportTarget(null)} disabled={reporting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReport} disabled={reporting}>
+              {reporting ? 'Reporting...' : 'Report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,296 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Upload, X } from "lucide-react"
+import Image from "next/image"
+import { toast } from "@/hooks/use-toast"
+import { getFriendlyErrorMessage } from "@/lib/friendly-error"
+
+export interface ReturnableItem {
+  itemKey: string
+  productName: string
+  variantName?: string
+  productImage: string
+  quantity: number
+  unitPrice: number
+}
+
+interface OrderReturnDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  orderNumber: string
+  currency: string
+  items: ReturnableItem[]
+  onSubmitted: () => void
+}
+
+const REASON_LABELS: Record<string, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or not working',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  missing_parts: 'Missing parts or accessories',
+  no_longer_needed: 'No longer needed'
+}
+
+const MAX_PHOTOS = 5
+
+export function OrderReturnDialog({
+  open,
+  onOpenChange,
+  orderNumber,
+  currency,
+  items,
+  onSubmitted
+}: OrderReturnDialogProps) {
+  const [reason, setReason] = useState('')
+  const [details, setDetails] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [photos, setPhotos] = useState<string[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const selectedItems = items.filter(item => (quantities[item.itemKey] || 0) > 0)
+  const refundTotal = selectedItems.reduce(
+    (sum, item) => sum + item.unitPrice * (quantities[item.itemKey] || 0),
+    0
+  )
+
+  const reset = () => {
+    setReason('')
+    setDetails('')
+    setQuantities({})
+    setPhotos([])
+  }
+
+  const toggleItem = (item: ReturnableItem, checked: boolean) => {
+    setQuantities(prev => ({ ...prev, [item.itemKey]: checked ? item.quantity : 0 }))
+  }
+
+  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    if (!file.type.startsWith('image/')) {
+      toast({ title: "Invalid file type", description: "Please upload an image file", variant: "destructive" })
+      return
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast({ title: "File too large", description: "Please upload an image smaller than 5MB", variant: "destructive" })
+      return
+    }
+
+    try {
+      setUploading(true)
+      const form = new FormData()
+      form.append('file', file)
+      form.append('type', 'image')
+      form.append('context', 'return')
+      const response = await fetch('/api/media/upload', { method: 'POST', body: form })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Upload failed')
+      setPhotos(prev => [...prev, data.url])
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: getFriendlyErrorMessage(error, 'Please try another image'),
+        variant: "destructive"
+      })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      toast({ title: "Choose a reason", description: "Tell us why you are returning these items", variant: "destructive" })
+      return
+    }
+    if (selectedItems.length === 0) {
+      toast({ title: "No items selected", description: "Select at least one item to return", variant: "destructive" })
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch(`/api/user/orders/${orderNumber}/returns`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reason,
+          details,
+          photos,
+          items: selectedItems.map(item => ({ itemKey: item.itemKey, quantity: quantities[item.itemKey] }))
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to submit return request')
+      }
+
+      toast({ title: "Return requested", description: "The supplier will review your request shortly" })
+      reset()
+      onOpenChange(false)
+      onSubmitted()
+    } catch (error) {
+      toast({
+        title: "Return not submitted",
+        description: getFriendlyErrorMessage(error, 'Unable to submit return request. Please try again.'),
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Request a Return</DialogTitle>
+          <DialogDescription>
+            Select the items you want to return from order {orderNumber}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {items.map(item => {
+              const selectedQuantity = quantities[item.itemKey] || 0
+              return (
+                <div key={item.itemKey} className="flex items-center gap-3 p-2 rounded-lg border">
+                  <Checkbox
+                    checked={selectedQuantity > 0}
+                    onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                  />
+                  <Image
+                    src={item.productImage || '/placeholder.jpg'}
+                    alt={item.productName}
+                    width={40}
+                    height={40}
+                    className="w-10 h-10 rounded object-cover flex-shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{item.productName}</p>
+                    {item.variantName && (
+                      <p className="text-xs text-muted-foreground truncate">{item.variantName}</p>
+                    )}
+                  </div>
+                  {selectedQuantity > 0 && item.quantity > 1 && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={item.quantity}
+                      value={selectedQuantity}
+                      onChange={(e) => {
+                        const value = Math.min(item.quantity, Math.max(1, parseInt(e.target.value, 10) || 1))
+                        setQuantities(prev => ({ ...prev, [item.itemKey]: value }))
+                      }}
+                      className="w-16 h-8 text-sm"
+                    />
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Why are you returning these items?" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Details (optional)</Label>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              placeholder="Describe the problem to help the supplier review your request"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Photos ({photos.length}/{MAX_PHOTOS})</Label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map(url => (
+                <div key={url} className="relative w-16 h-16">
+                  <Image src={url} alt="Return photo" fill className="rounded object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos(prev => prev.filter(p => p !== url))}
+                    className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-0.5"
+                    aria-label="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <label className="w-16 h-16 flex items-center justify-center rounded border border-dashed cursor-pointer text-muted-foreground hover:bg-muted">
+                  {uploading ? (
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-current" />
+                  ) : (
+                    <Upload className="w-5 h-5" />
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handlePhotoUpload}
+                    disabled={uploading}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+
+          {selectedItems.length > 0 && (
+            <p className="text-sm">
+              Refund if approved: <span className="font-semibold">{currency} {refundTotal.toLocaleString()}</span>
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || uploading}>
+            {submitting ? 'Submitting...' : 'Submit Return'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+import { useCurrency } from "@/contexts/currency-context"
+import type { PriceTierBand } from "@/hooks/use-products"
+
+interface PriceTierTableProps {
+  tiers: PriceTierBand[]
+  // The quantity being bought, to highlight its band
+  quantity: number
+  className?: string
+}
+
+export function formatTierRange(tier: PriceTierBand): string {
+  if (tier.maxQuantity === null) return `${tier.minQuantity}+`
+  if (tier.maxQuantity === tier.minQuantity) return String(tier.minQuantity)
+  return `${tier.minQuantity}-${tier.maxQuantity}`
+}
+
+/**
+ * Unit price by quantity for products with wholesale tiers
+ */
+export function PriceTierTable({ tiers, quantity, className }: PriceTierTableProps) {
+  const { formatPrice } = useCurrency()
+  if (tiers.length < 2) return null
+
+  const regularPrice = tiers[0].price
+  const active = tiers.reduce((current, tier, index) => (quantity >= tier.minQuantity ? index : current), 0)
+
+  return (
+    <div className={cn("rounded-md border border-neutral-200 dark:border-neutral-700 overflow-hidden", className)}>
+      <table className="w-full text-xs sm:text-sm">
+        <thead className="bg-neutral-50 dark:bg-neutral-800">
+          <tr>
+            <th className="px-3 py-1.5 text-left font-medium">Quantity</th>
+            <th className="px-3 py-1.5 text-right font-medium">Unit price</th>
+            <th className="px-3 py-1.5 text-right font-medium">You save</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tiers.map((tier, index) => {
+            const saving = regularPrice > 0 && tier.price < regularPrice
+              ? Math.round(((regularPrice - tier.price) / regularPrice) * 100)
+              : 0
+            return (
+              <tr
+                key={tier.minQuantity}
+                className={cn(
+                  "border-t border-neutral-200 dark:border-neutral-700",
+                  index === active && "bg-yellow-50 dark:bg-yellow-900/20 font-semibold"
+                )}
+              >
+                <td className="px-3 py-1.5">{formatTierRange(tier)}</td>
+                <td className="px-3 py-1.5 text-right">{formatPrice(tier.price)}</td>
+                <td className="px-3 py-1.5 text-right text-green-600">{saving > 0 ? `${saving}%` : "-"}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -13,6 +13,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { OptimizedLink } from "@/components/optimized-link"
+import { SaleCountdown } from "@/components/sale-countdown"
 import { getLeftBadge, getRightBadge } from "@/utils/product-badges"
 import { ShoppingCart, Star, X } from "lucide-react"
 import { cn } from "@/lib/utils"
@@ -49,6 +50,8 @@ interface Product {
   sold_count?: number
   is_new?: boolean
   is_featured?: boolean
+  // Running sale from the catalog API, for the countdown
+  sale?: { endsAt: string; remaining: number | null } | null
   [key: string]: any
 }
 
@@ -450,6 +453,8 @@ export const ProductCard = React.memo<ProductCardProps>(({
             </>
           )}
         </div>
+
+        {product.sale && <SaleCountdown endsAt={product.sale.endsAt} remaining={product.sale.remaining} className="mt-0.5" />}
       </CardContent>
 
       <CardFooter className="px-1 pb-1 pt-0 flex flex-col gap-1" suppressHydrationWarning>
@@ -505,7 +510,9 @@ export const ProductCard = React.memo<ProductCardProps>(({
     prev.importChina !== next.importChina ||
     prev.import_china !== next.import_china ||
     prev.free_delivery !== next.free_delivery ||
-    prev.freeDelivery !== next.freeDelivery
+    prev.freeDelivery !== next.freeDelivery ||
+    prev.sale?.endsAt !== next.sale?.endsAt ||
+    prev.sale?.remaining !== next.sale?.remaining
   )
   
   if (productChanged) return false
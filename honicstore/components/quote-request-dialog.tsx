@@ -0,0 +1,299 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Upload, X } from "lucide-react"
+import Image from "next/image"
+import { toast } from "@/hooks/use-toast"
+import { getFriendlyErrorMessage } from "@/lib/friendly-error"
+
+export type QuoteRequestSource = 'product' | 'china_import' | 'pcb' | 'prototyping' | 'custom'
+
+interface QuoteRequestDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  source: QuoteRequestSource
+  // Set when asking about a specific product; its supplier gets the request
+  productId?: number
+  variantId?: string | number | null
+  productName?: string
+  defaultQuantity?: number
+  defaultCategory?: string
+}
+
+// Mirrors MAX_QUOTE_ATTACHMENTS / MAX_SPECIFICATION_LENGTH in lib/quote-requests
+const MAX_PHOTOS = 5
+const MAX_SPECIFICATION_LENGTH = 4000
+
+const SOURCE_TITLES: Record<QuoteRequestSource, string> = {
+  product: 'Request a Bulk Quote',
+  china_import: 'Request a China Import Quote',
+  pcb: 'Request a PCB Quote',
+  prototyping: 'Request a Prototyping Quote',
+  custom: 'Request a Quote'
+}
+
+function defaultDeadline(): string {
+  const date = new Date()
+  date.setDate(date.getDate() + 7)
+  return date.toISOString().slice(0, 10)
+}
+
+export function QuoteRequestDialog({
+  open,
+  onOpenChange,
+  source,
+  productId,
+  variantId,
+  productName,
+  defaultQuantity,
+  defaultCategory
+}: QuoteRequestDialogProps) {
+  const [title, setTitle] = useState('')
+  const [specification, setSpecification] = useState('')
+  const [category, setCategory] = useState(defaultCategory || '')
+  const [quantity, setQuantity] = useState(String(defaultQuantity || ''))
+  const [targetUnitPrice, setTargetUnitPrice] = useState('')
+  const [deadline, setDeadline] = useState(defaultDeadline)
+  const [photos, setPhotos] = useState<string[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const reset = () => {
+    setTitle('')
+    setSpecification('')
+    setCategory(defaultCategory || '')
+    setQuantity(String(defaultQuantity || ''))
+    setTargetUnitPrice('')
+    setDeadline(defaultDeadline())
+    setPhotos([])
+  }
+
+  const handlePhotoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    if (!file.type.startsWith('image/')) {
+      toast({ title: "Invalid file type", description: "Please upload an image file", variant: "destructive" })
+      return
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast({ title: "File too large", description: "Please upload an image smaller than 5MB", variant: "destructive" })
+      return
+    }
+
+    try {
+      setUploading(true)
+      const form = new FormData()
+      form.append('file', file)
+      form.append('type', 'image')
+      form.append('context', 'quote')
+      const response = await fetch('/api/media/upload', { method: 'POST', body: form })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data?.error || 'Upload failed')
+      setPhotos(prev => [...prev, data.url])
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: getFriendlyErrorMessage(error, 'Please try another image'),
+        variant: "destructive"
+      })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    let response: Response | null = null
+    let data: any = {}
+    try {
+      setSubmitting(true)
+      response = await fetch('/api/user/quote-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          source,
+          productId: productId || null,
+          variantId: variantId ?? null,
+          title: title || productName || '',
+          specification,
+          category: category || null,
+          quantity,
+          targetUnitPrice: targetUnitPrice || null,
+          deadline,
+          attachments: photos
+        })
+      })
+      data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Unable to send quote request')
+      }
+
+      toast({
+        title: "Quote request sent",
+        description: `${data.message}. You'll find the quotes under My Account > Quotes.`
+      })
+      reset()
+      onOpenChange(false)
+    } catch (error) {
+      toast({
+        title: "Quote request not sent",
+        description: response && response.status < 500 && data.error
+          ? data.error
+          : getFriendlyErrorMessage(error, 'Unable to send quote request. Please try again.'),
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{SOURCE_TITLES[source]}</DialogTitle>
+          <DialogDescription>
+            {productName
+              ? `Tell us how many of ${productName} you need and suppliers will send you a price.`
+              : 'Describe what you need and matching suppliers will send you a price.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!productName && (
+            <div className="space-y-1.5">
+              <Label htmlFor="quote-title">What do you need?</Label>
+              <Input
+                id="quote-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={150}
+                placeholder={source === 'pcb' ? 'e.g. 4-layer PCB, 100 x 80 mm' : 'e.g. ESP32 development boards'}
+              />
+            </div>
+          )}
+
+          {source === 'custom' && (
+            <div className="space-y-1.5">
+              <Label htmlFor="quote-category">Category</Label>
+              <Input
+                id="quote-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Sensors, Microcontrollers, Cables"
+              />
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="quote-specification">
+              Specification{source === 'product' || source === 'china_import' ? ' (optional)' : ''}
+            </Label>
+            <Textarea
+              id="quote-specification"
+              value={specification}
+              onChange={(e) => setSpecification(e.target.value)}
+              maxLength={MAX_SPECIFICATION_LENGTH}
+              rows={4}
+              placeholder="Materials, dimensions, finish, packaging, delivery location..."
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="quote-quantity">Quantity</Label>
+              <Input
+                id="quote-quantity"
+                type="number"
+                min={1}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="500"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="quote-target">Target unit price (TZS, optional)</Label>
+              <Input
+                id="quote-target"
+                type="number"
+                min={1}
+                value={targetUnitPrice}
+                onChange={(e) => setTargetUnitPrice(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="quote-deadline">Quotes needed by</Label>
+            <Input
+              id="quote-deadline"
+              type="date"
+              min={new Date().toISOString().slice(0, 10)}
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Drawings or photos ({photos.length}/{MAX_PHOTOS})</Label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map(url => (
+                <div key={url} className="relative w-16 h-16">
+                  <Image src={url} alt="Quote attachment" fill className="rounded object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos(prev => prev.filter(p => p !== url))}
+                    className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-0.5"
+                    aria-label="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <label className="w-16 h-16 flex items-center justify-center rounded border border-dashed cursor-pointer text-muted-foreground hover:bg-muted">
+                  {uploading ? (
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-current" />
+                  ) : (
+                    <Upload className="w-5 h-5" />
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handlePhotoUpload}
+                    disabled={uploading}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || uploading || !quantity}>
+            {submitting ? 'Sending...' : 'Send Request'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Timer } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface SaleCountdownProps {
+  endsAt: string
+  // Units left under the sale's cap; null when it has none
+  remaining?: number | null
+  className?: string
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const clock = [hours, minutes, seconds].map(part => String(part).padStart(2, "0")).join(":")
+  return days > 0 ? `${days}d ${clock}` : clock
+}
+
+/**
+ * Time left on a running sale. Rendered only after mount so server and client markup match
+ */
+export function SaleCountdown({ endsAt, remaining, className }: SaleCountdownProps) {
+  const [now, setNow] = useState<number | null>(null)
+
+  useEffect(() => {
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const end = new Date(endsAt).getTime()
+  if (now === null || Number.isNaN(end) || end <= now) return null
+
+  return (
+    <div className={cn("flex items-center gap-1 text-[10px] sm:text-xs font-semibold text-red-600", className)}>
+      <Timer className="w-3 h-3 flex-shrink-0" aria-hidden="true" />
+      <span>Sale ends in {formatRemaining(end - now)}</span>
+      {typeof remaining === "number" && remaining > 0 && (
+        <span className="font-normal">· {remaining} left</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import type React from "react"
+import { useAdImpression, trackAdClick } from "@/hooks/use-ad-tracking"
+
+interface TrackedAdProps {
+  adId: number | string | null | undefined
+  // Where the ad is shown (home, products, ...), reports are split by it
+  placement: string
+  className?: string
+  children: React.ReactNode
+}
+
+/**
+ * Wraps a rendered advertisement and sends its impression and click beacons
+ */
+export function TrackedAd({ adId, placement, className, children }: TrackedAdProps) {
+  const impressionRef = useAdImpression(adId, placement)
+
+  return (
+    <div
+      ref={impressionRef}
+      className={className}
+      onClickCapture={() => trackAdClick(adId, placement)}
+    >
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Ticket } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { toast } from "@/hooks/use-toast"
+import { getFriendlyErrorMessage } from "@/lib/friendly-error"
+
+interface WalletCoupon {
+  code: string
+  name: string
+  discountType: 'percentage' | 'fixed'
+  discountValue: number
+  minPurchaseAmount: number | null
+  validUntil: string | null
+}
+
+export interface AppliedWalletCoupon {
+  code: string
+  name: string
+  discountAmount: number
+}
+
+interface WalletCouponPickerProps {
+  subtotal: number
+  cartItems: Array<{ productId: number; variantId?: string | null; price: number; quantity: number }>
+  formatPrice: (amount: number) => string
+  onApply: (coupon: AppliedWalletCoupon) => void
+}
+
+/**
+ * Active coupons from the buyer's wallet, applied with one click instead of typing the code
+ * Validation goes through /api/promotions/validate like a typed code
+ */
+export function WalletCouponPicker({ subtotal, cartItems, formatPrice, onApply }: WalletCouponPickerProps) {
+  const [coupons, setCoupons] = useState<WalletCoupon[]>([])
+  const [applyingCode, setApplyingCode] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/user/coupons?status=active', { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled && data?.success) setCoupons(data.coupons || [])
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const handleApply = async (coupon: WalletCoupon) => {
+    try {
+      setApplyingCode(coupon.code)
+      const response = await fetch('/api/promotions/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ code: coupon.code, cartItems, subtotal })
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'This coupon cannot be applied')
+      }
+      onApply({
+        code: result.promotion.code,
+        name: result.promotion.name,
+        discountAmount: result.promotion.discountAmount
+      })
+      toast({
+        title: 'Coupon Applied',
+        description: `${result.promotion.name} - ${formatPrice(result.promotion.discountAmount)} discount applied!`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Coupon not applied',
+        description: getFriendlyErrorMessage(error, 'This coupon cannot be applied to your order.'),
+        variant: 'destructive'
+      })
+    } finally {
+      setApplyingCode(null)
+    }
+  }
+
+  if (coupons.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs sm:text-sm font-semibold">Your coupons</p>
+      {coupons.map(coupon => {
+        const belowMinimum = !!coupon.minPurchaseAmount && subtotal < coupon.minPurchaseAmount
+        return (
+          <div
+            key={coupon.code}
+            className={cn(
+              "flex items-center justify-between gap-2 p-2 sm:p-3 border rounded-md",
+              "border-dashed border-neutral-300 dark:border-neutral-600"
+            )}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <Ticket className="w-4 h-4 text-orange-500 flex-shrink-0" />
+                <span className="text-xs sm:text-sm font-semibold truncate">{coupon.name}</span>
+              </div>
+              <p className="text-[10px] sm:text-xs text-muted-foreground">
+                {coupon.discountType === 'percentage' ? `${coupon.discountValue}% off` : `${formatPrice(coupon.discountValue)} off`}
+                {coupon.minPurchaseAmount ? ` • min ${formatPrice(coupon.minPurchaseAmount)}` : ''}
+                {coupon.validUntil ? ` • until ${new Date(coupon.validUntil).toLocaleDateString()}` : ''}
+              </p>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={belowMinimum || applyingCode !== null}
+              onClick={() => handleApply(coupon)}
+            >
+              {applyingCode === coupon.code ? 'Applying...' : 'Apply'}
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
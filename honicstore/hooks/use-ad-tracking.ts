@@ -0,0 +1,121 @@
+"use client"
+
+import { useCallback, useEffect, useRef } from "react"
+
+const SESSION_KEY = "ad_session_id"
+const SENT_KEY = "ad_events_sent_v1"
+
+type AdEventType = "impression" | "click"
+
+// The server counts each ad once per session too, this just saves the requests
+const sentThisSession = new Set<string>()
+
+function getAdSessionId(): string | null {
+	try {
+		let sessionId = sessionStorage.getItem(SESSION_KEY)
+		if (!sessionId) {
+			sessionId = crypto.randomUUID()
+			sessionStorage.setItem(SESSION_KEY, sessionId)
+			sessionStorage.removeItem(SENT_KEY)
+		}
+		return sessionId
+	} catch {
+		return null
+	}
+}
+
+function alreadySent(key: string): boolean {
+	if (sentThisSession.has(key)) return true
+	try {
+		const stored = JSON.parse(sessionStorage.getItem(SENT_KEY) || "[]")
+		return Array.isArray(stored) && stored.includes(key)
+	} catch {
+		return false
+	}
+}
+
+function markSent(key: string) {
+	sentThisSession.add(key)
+	try {
+		sessionStorage.setItem(SENT_KEY, JSON.stringify([...sentThisSession]))
+	} catch {}
+}
+
+function sendAdEvent(type: AdEventType, adId: number | string | null | undefined, placement: string) {
+	if (typeof window === "undefined" || adId === null || adId === undefined) return
+
+	const key = `${type}:${adId}`
+	if (alreadySent(key)) return
+
+	const sessionId = getAdSessionId()
+	if (!sessionId) return
+	markSent(key)
+
+	const payload = JSON.stringify({
+		adId: Number(adId),
+		type,
+		placement,
+		sessionId,
+		webdriver: navigator.webdriver === true
+	})
+
+	// sendBeacon survives the navigation a click triggers
+	if (navigator.sendBeacon && navigator.sendBeacon("/api/advertisements/events", payload)) return
+	fetch("/api/advertisements/events", { method: "POST", body: payload, keepalive: true }).catch(() => {})
+}
+
+export function trackAdClick(adId: number | string | null | undefined, placement: string) {
+	sendAdEvent("click", adId, placement)
+}
+
+/**
+ * Ref for an ad's container: sends one impression beacon per session once at least half of the ad
+ * has been on screen for a second. Pass the ad currently shown, rotation re-arms the observer.
+ */
+export function useAdImpression(adId: number | string | null | undefined, placement: string) {
+	const elementRef = useRef<HTMLElement | null>(null)
+	const observerRef = useRef<IntersectionObserver | null>(null)
+	const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+	const stop = useCallback(() => {
+		observerRef.current?.disconnect()
+		observerRef.current = null
+		if (timerRef.current) {
+			clearTimeout(timerRef.current)
+			timerRef.current = null
+		}
+	}, [])
+
+	const start = useCallback(() => {
+		stop()
+		const element = elementRef.current
+		if (!element || adId === null || adId === undefined || typeof IntersectionObserver === "undefined") return
+		if (alreadySent(`impression:${adId}`)) return
+
+		observerRef.current = new IntersectionObserver((entries) => {
+			const visible = entries.some(entry => entry.isIntersecting && entry.intersectionRatio >= 0.5)
+			if (visible && document.visibilityState === "visible") {
+				if (!timerRef.current) {
+					timerRef.current = setTimeout(() => {
+						sendAdEvent("impression", adId, placement)
+						stop()
+					}, 1000)
+				}
+			} else if (timerRef.current) {
+				clearTimeout(timerRef.current)
+				timerRef.current = null
+			}
+		}, { threshold: [0, 0.5] })
+		observerRef.current.observe(element)
+	}, [adId, placement, stop])
+
+	useEffect(() => {
+		start()
+		return stop
+	}, [start, stop])
+
+	return useCallback((element: HTMLElement | null) => {
+		elementRef.current = element
+		start()
+	}, [start])
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useAuth } from '@/contexts/auth-context'
 import { useToast } from '@/hooks/use-toast'
+import { trackProductEvent } from '@/hooks/use-product-tracking'
+import type { PriceTierBand } from '@/hooks/use-products'
 
 // Safe logging helpers - no-op functions for production cleanliness
 const safeLog = function(...args: any[]) {
@@ -14,12 +16,25 @@ const safeError = function(...args: any[]) {
 }
 
 // Types
+export interface CartQuote {
+  quoteNumber: string
+  unitPrice: number
+  quantity: number
+  validUntil: string
+  applies: boolean
+}
+
 export interface SelectedVariant {
   variantId: string
   variant_name?: string | null
   attributes: { [key: string]: string | string[] } // Deprecated - use variant_name instead
   quantity: number
   price: number
+  // Quantity tier the price comes from and the next one up (signed-in carts only)
+  tier?: PriceTierBand | null
+  nextTier?: PriceTierBand | null
+  // Accepted quote for this line; its price only applies at exactly the quoted quantity
+  quote?: CartQuote | null
   sku?: string
   image?: string
 }
@@ -626,6 +641,8 @@ export function useCart() {
     variantImage?: string,
     productData?: any // Optional: Pre-loaded product data to avoid API fetch
   ) => {
+    trackProductEvent('add_to_cart', [productId])
+
     // Normalize variant id so simple products always use a single key
     const normalizedVariantId: string = buildCanonicalVariantId(variantId, variantAttributes)
 
@@ -1292,6 +1309,9 @@ export function useCart() {
             variant: "destructive",
             duration: 6000, // Error message: 6 seconds (within 5000-8000ms range)
           })
+        } else if (item.variants.some(v => v.tier || v.nextTier || v.quote)) {
+          // Quantity tiers and quotes price by line quantity, so the unit price may have moved
+          await loadServerCart()
         }
       } catch (error) {
         // Rollback on error
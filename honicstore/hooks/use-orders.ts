@@ -55,6 +55,9 @@ interface OrderStatus {
   timestamp: string
   description: string
   location?: string
+  actor?: 'buyer' | 'supplier' | 'admin' | 'system'
+  supplierName?: string | null // Set on per-package events
+  products?: string[]
 }
 
 export function useOrders() {
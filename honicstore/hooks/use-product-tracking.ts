@@ -0,0 +1,69 @@
+"use client"
+
+const SESSION_KEY = "analytics_session_id"
+const SENT_KEY = "product_events_sent_v1"
+
+type ProductBeaconType = "add_to_cart" | "checkout_start"
+
+// The server counts each product once per session too, this just saves the requests
+const sentThisSession = new Set<string>()
+
+/**
+ * Browser session id for supplier analytics, also sent with product view tracking
+ */
+export function getAnalyticsSessionId(): string | null {
+	try {
+		let sessionId = sessionStorage.getItem(SESSION_KEY)
+		if (!sessionId) {
+			sessionId = crypto.randomUUID()
+			sessionStorage.setItem(SESSION_KEY, sessionId)
+			sessionStorage.removeItem(SENT_KEY)
+		}
+		return sessionId
+	} catch {
+		return null
+	}
+}
+
+function alreadySent(key: string): boolean {
+	if (sentThisSession.has(key)) return true
+	try {
+		const stored = JSON.parse(sessionStorage.getItem(SENT_KEY) || "[]")
+		return Array.isArray(stored) && stored.includes(key)
+	} catch {
+		return false
+	}
+}
+
+function markSent(keys: string[]) {
+	keys.forEach(key => sentThisSession.add(key))
+	try {
+		sessionStorage.setItem(SENT_KEY, JSON.stringify([...sentThisSession]))
+	} catch {}
+}
+
+/**
+ * Send an add-to-cart or checkout-started beacon for the products not yet reported this session
+ */
+export function trackProductEvent(type: ProductBeaconType, productIds: Array<number | string | null | undefined>) {
+	if (typeof window === "undefined") return
+
+	const pending = [...new Set(productIds.map(Number))]
+		.filter(id => Number.isInteger(id) && id > 0 && !alreadySent(`${type}:${id}`))
+		.slice(0, 50)
+	if (pending.length === 0) return
+
+	const sessionId = getAnalyticsSessionId()
+	if (!sessionId) return
+	markSent(pending.map(id => `${type}:${id}`))
+
+	const payload = JSON.stringify({
+		type,
+		productIds: pending,
+		sessionId,
+		webdriver: navigator.webdriver === true
+	})
+
+	if (navigator.sendBeacon && navigator.sendBeacon("/api/products/events", payload)) return
+	fetch("/api/products/events", { method: "POST", body: payload, keepalive: true }).catch(() => {})
+}
@@ -40,6 +40,14 @@ export interface Product {
   views?: number
   video?: string
   view360?: string
+  // Quantity price bands, the first at the regular price; empty without tiers
+  priceTiers?: PriceTierBand[]
+}
+
+export interface PriceTierBand {
+  minQuantity: number
+  maxQuantity: number | null
+  price: number
 }
 
 export interface ProductVariant {
@@ -57,6 +65,7 @@ export interface ProductVariant {
   variantType?: string
   primaryAttribute?: string
   dependencies?: Record<string, any>
+  priceTiers?: PriceTierBand[]
 }
 
 interface UseProductsReturn {
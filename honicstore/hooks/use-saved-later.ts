@@ -6,6 +6,10 @@ import { useAuth } from "@/contexts/auth-context"
 export interface SavedLaterEntry {
 	productId: number
 	addedAt: string
+	variantId?: number | null
+	variantName?: string | null
+	// Price when saved; only known for signed-in buyers
+	priceAtSave?: number
 }
 
 const LOCAL_KEY = "saved_later_items_v1"
@@ -60,18 +64,19 @@ export function useSavedLater() {
 		})()
 	}, [isAuthenticated])
 
-	const add = useCallback(async (productId: number) => {
+	const add = useCallback(async (productId: number, variantId: number | null = null) => {
 		const now = new Date().toISOString()
-		const next = [{ productId, addedAt: now }, ...items.filter(i => i.productId !== productId)]
+		const next = [{ productId, addedAt: now, variantId }, ...items.filter(i => !(i.productId === productId && (i.variantId ?? null) === variantId))]
 		setItems(next)
-		if (isAuthenticated) { try { await fetch('/api/user/saved-later', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ productId }) }) } catch {} }
+		if (isAuthenticated) { try { await fetch('/api/user/saved-later', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ productId, variantId }) }) } catch {} }
 		else { saveLocal(next) }
 	}, [items, isAuthenticated, saveLocal])
 
-	const remove = useCallback(async (productId: number) => {
-		const next = items.filter(i => i.productId !== productId)
+	const remove = useCallback(async (productId: number, variantId?: number | null) => {
+		const next = items.filter(i => !(i.productId === productId && (variantId == null || i.variantId === variantId)))
 		setItems(next) // This triggers re-render
-		if (isAuthenticated) { try { await fetch(`/api/user/saved-later?productId=${productId}`, { method: 'DELETE' }) } catch {} }
+		const variantParam = variantId != null ? `&variantId=${variantId}` : ''
+		if (isAuthenticated) { try { await fetch(`/api/user/saved-later?productId=${productId}${variantParam}`, { method: 'DELETE' }) } catch {} }
 		else { saveLocal(next) }
 	}, [items, isAuthenticated, saveLocal])
 
@@ -6,6 +6,10 @@ import { useAuth } from "@/contexts/auth-context"
 export interface WishlistEntry {
 	productId: number
 	addedAt: string
+	variantId?: number | null
+	variantName?: string | null
+	// Price when saved; only known for signed-in buyers
+	priceAtSave?: number
 }
 
 const LOCAL_KEY = "wishlist_items_v1"
@@ -79,22 +83,37 @@ export function useWishlist() {
 		syncFromSource()
 	}, [syncFromSource])
 
-	const add = useCallback(async (productId: number) => {
+	// Signed-in buyers can save into one of their other lists with options.listId; items only tracks the default list
+	const add = useCallback(async (productId: number, options: { variantId?: number | null; listId?: string } = {}) => {
+		const variantId = options.variantId ?? null
+		if (isAuthenticated && options.listId) {
+			try { await fetch('/api/user/wishlist', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ productId, variantId, listId: options.listId }) }) } catch {}
+			return
+		}
 		const now = new Date().toISOString()
-		const next = [{ productId, addedAt: now }, ...items.filter(i => i.productId !== productId)]
+		const next = [{ productId, addedAt: now, variantId }, ...items.filter(i => !(i.productId === productId && (i.variantId ?? null) === variantId))]
 		setItems(next)
 		if (isAuthenticated) {
-			try { await fetch('/api/user/wishlist', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ productId }) }) } catch {}
+			try {
+				const res = await fetch('/api/user/wishlist', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ productId, variantId }) })
+				if (res.ok) {
+					const data = await res.json()
+					if (data?.item) setItems(prev => prev.map(i => i.productId === productId && (i.variantId ?? null) === variantId ? data.item : i))
+				}
+			} catch {}
 		} else {
 			saveLocal(next)
 		}
 	}, [items, isAuthenticated, saveLocal])
 
-	const remove = useCallback(async (productId: number) => {
-		const next = items.filter(i => i.productId !== productId)
+	// Without a variantId every saved variant of the product is removed
+	const remove = useCallback(async (productId: number, variantId?: number | null) => {
+		const matches = (i: WishlistEntry) => i.productId === productId && (variantId == null || i.variantId === variantId)
+		const next = items.filter(i => !matches(i))
 		setItems(next) // This triggers re-render
 		if (isAuthenticated) {
-			try { await fetch(`/api/user/wishlist?productId=${productId}`, { method: 'DELETE' }) } catch {}
+			const variantParam = variantId != null ? `&variantId=${variantId}` : ''
+			try { await fetch(`/api/user/wishlist?productId=${productId}${variantParam}`, { method: 'DELETE' }) } catch {}
 		} else {
 			saveLocal(next)
 		}
@@ -0,0 +1,599 @@
+/**
+ * Advertisement campaigns
+ * A campaign runs one of the supplier's advertisements in a placement (optionally only on one
+ * category) between its start and end dates, with a daily impression cap and/or a daily budget.
+ * Budgets are turned into impressions with the placement's CPM rate, and delivery is read from the
+ * ad_daily_stats roll-up, so a campaign drops out of rotation for the rest of the day once it hits
+ * its cap and comes back the next day. Only one open campaign is allowed per advertisement.
+ *
+ * Rotation is fair per supplier: every supplier with an eligible campaign gets one slot per round,
+ * in random order, and within a supplier the campaign furthest from its cap is most likely picked.
+ * When nothing is eligible the placement's house ads (set by admins) are shown instead, falling back
+ * to the platform's own active ads for that placement.
+ *
+ * Campaign status: active <-> paused -> ended (ending is final; past end dates also count as ended)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+
+export type AdCampaignStatus = 'active' | 'paused' | 'ended'
+
+// What the supplier sees; derived from status, dates, ad approval and today's delivery
+export type AdCampaignState = 'pending_approval' | 'scheduled' | 'running' | 'capped' | 'paused' | 'ended'
+
+export const AD_PLACEMENTS = ['home', 'products', 'china'] as const
+
+export type AdPlacement = typeof AD_PLACEMENTS[number]
+
+// Cost per 1,000 impressions (TZS), used to turn a daily budget into an impression allowance
+export const AD_CPM_RATES: Record<AdPlacement, number> = {
+  home: 2000,
+  products: 1500,
+  china: 1500
+}
+
+// Ads returned to a page in one rotation
+export const MAX_ROTATION_SLOTS = 10
+
+export const MAX_CAMPAIGN_NAME_LENGTH = 100
+
+const CAMPAIGNS_TABLE = 'ad_campaigns'
+const HOUSE_ADS_TABLE = 'ad_house_ads'
+const DAILY_TABLE = 'ad_daily_stats'
+
+export interface AdCampaign {
+  id: number
+  supplier_id: string
+  advertisement_id: number
+  name: string
+  placement: AdPlacement
+  category_id: number | null
+  starts_at: string
+  ends_at: string | null
+  daily_impression_cap: number | null
+  daily_budget: number | null
+  status: AdCampaignStatus
+  paused_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AdCampaignInput {
+  advertisementId: number
+  name: string
+  placement: AdPlacement
+  categoryId: number | null
+  startsAt: string
+  endsAt: string | null
+  dailyImpressionCap: number | null
+  dailyBudget: number | null
+}
+
+function todayKey(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function optionalPositiveNumber(value: unknown, label: string, integer: boolean): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const number = Number(value)
+  if (!Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+    throw createValidationError(`${label} must be a positive ${integer ? 'whole number' : 'amount'}`)
+  }
+  return number
+}
+
+export function normalizeCampaignInput(body: any): AdCampaignInput {
+  const advertisementId = Number(body?.advertisementId)
+  if (!Number.isInteger(advertisementId) || advertisementId <= 0) {
+    throw createValidationError('Choose the advertisement to run')
+  }
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  if (!name || name.length > MAX_CAMPAIGN_NAME_LENGTH) {
+    throw createValidationError(`Campaign name is required (max ${MAX_CAMPAIGN_NAME_LENGTH} characters)`)
+  }
+
+  if (!AD_PLACEMENTS.includes(body?.placement)) {
+    throw createValidationError('Invalid placement')
+  }
+
+  const categoryId = optionalPositiveNumber(body?.categoryId, 'Category', true)
+
+  const startsAt = body?.startsAt ? new Date(body.startsAt) : new Date()
+  if (isNaN(startsAt.getTime())) {
+    throw createValidationError('Invalid start date')
+  }
+
+  let endsAt: Date | null = null
+  if (body?.endsAt) {
+    endsAt = new Date(body.endsAt)
+    if (isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+      throw createValidationError('End date must be after the start date')
+    }
+    if (endsAt <= new Date()) {
+      throw createValidationError('End date must be in the future')
+    }
+  }
+
+  const dailyImpressionCap = optionalPositiveNumber(body?.dailyImpressionCap, 'Daily impression cap', true)
+  const dailyBudget = optionalPositiveNumber(body?.dailyBudget, 'Daily budget', false)
+  if (dailyImpressionCap === null && dailyBudget === null) {
+    throw createValidationError('Set a daily impression cap or a daily budget')
+  }
+
+  return {
+    advertisementId,
+    name,
+    placement: body.placement,
+    categoryId,
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt ? endsAt.toISOString() : null,
+    dailyImpressionCap,
+    dailyBudget: dailyBudget === null ? null : Math.round(dailyBudget * 100) / 100
+  }
+}
+
+/**
+ * Impressions a campaign may deliver per day: the lower of its impression cap and what its budget buys
+ */
+export function getDailyImpressionAllowance(
+  campaign: Pick<AdCampaign, 'placement' | 'daily_impression_cap' | 'daily_budget'>
+): number {
+  const limits: number[] = []
+  if (campaign.daily_impression_cap) {
+    limits.push(campaign.daily_impression_cap)
+  }
+  if (campaign.daily_budget) {
+    const cpm = AD_CPM_RATES[campaign.placement] || AD_CPM_RATES.products
+    limits.push(Math.floor((Number(campaign.daily_budget) / cpm) * 1000))
+  }
+  return limits.length > 0 ? Math.min(...limits) : 0
+}
+
+function getCampaignState(campaign: AdCampaign, adActive: boolean, deliveredToday: number): AdCampaignState {
+  const now = Date.now()
+  if (campaign.status === 'ended' || (campaign.ends_at && new Date(campaign.ends_at).getTime() <= now)) {
+    return 'ended'
+  }
+  if (campaign.status === 'paused') return 'paused'
+  if (!adActive) return 'pending_approval'
+  if (new Date(campaign.starts_at).getTime() > now) return 'scheduled'
+  if (deliveredToday >= getDailyImpressionAllowance(campaign)) return 'capped'
+  return 'running'
+}
+
+/**
+ * Impressions delivered today per advertisement, across every placement it was shown in
+ */
+async function getImpressionsToday(
+  supabase: SupabaseClient,
+  advertisementIds: number[]
+): Promise<Map<number, number>> {
+  const delivered = new Map<number, number>()
+  if (advertisementIds.length === 0) return delivered
+
+  const { data, error } = await supabase
+    .from(DAILY_TABLE)
+    .select('advertisement_id, impressions')
+    .in('advertisement_id', advertisementIds)
+    .eq('stat_date', todayKey())
+
+  if (error) {
+    logger.error('Error loading today\'s ad impressions', error)
+    return delivered
+  }
+
+  for (const row of data || []) {
+    delivered.set(row.advertisement_id, (delivered.get(row.advertisement_id) || 0) + (row.impressions || 0))
+  }
+  return delivered
+}
+
+function toClientCampaign(campaign: any, deliveredToday: number) {
+  const allowance = getDailyImpressionAllowance(campaign)
+  const cpm = AD_CPM_RATES[campaign.placement as AdPlacement] || AD_CPM_RATES.products
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    advertisementId: campaign.advertisement_id,
+    advertisementTitle: campaign.advertisement?.title || null,
+    placement: campaign.placement,
+    categoryId: campaign.category_id,
+    categoryName: campaign.category?.name || null,
+    startsAt: campaign.starts_at,
+    endsAt: campaign.ends_at,
+    dailyImpressionCap: campaign.daily_impression_cap,
+    dailyBudget: campaign.daily_budget === null ? null : Number(campaign.daily_budget),
+    status: campaign.status as AdCampaignStatus,
+    state: getCampaignState(campaign, !!campaign.advertisement?.is_active, deliveredToday),
+    today: {
+      impressions: deliveredToday,
+      allowance,
+      spend: Math.round((Math.min(deliveredToday, allowance) / 1000) * cpm * 100) / 100
+    },
+    createdAt: campaign.created_at
+  }
+}
+
+const CAMPAIGN_SELECT = '*, advertisement:advertisements(id, title, is_active), category:categories(id, name)'
+
+/**
+ * Campaigns of one supplier with their state and today's delivery
+ */
+export async function getSupplierCampaigns(supabase: SupabaseClient, supplierId: string) {
+  const { data, error } = await supabase
+    .from(CAMPAIGNS_TABLE)
+    .select(CAMPAIGN_SELECT)
+    .eq('supplier_id', supplierId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  const campaigns = data || []
+  const delivered = await getImpressionsToday(supabase, campaigns.map((campaign: any) => campaign.advertisement_id))
+  return campaigns.map((campaign: any) => toClientCampaign(campaign, delivered.get(campaign.advertisement_id) || 0))
+}
+
+export async function createCampaign(
+  supabase: SupabaseClient,
+  supplierId: string,
+  input: AdCampaignInput
+) {
+  const { data: ad } = await supabase
+    .from('advertisements')
+    .select('id, supplier_id')
+    .eq('id', input.advertisementId)
+    .maybeSingle()
+
+  if (!ad || ad.supplier_id !== supplierId) {
+    throw new ProductionError('Advertisement not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  if (input.categoryId !== null) {
+    const { data: category } = await supabase
+      .from('categories')
+      .select('id')
+      .eq('id', input.categoryId)
+      .maybeSingle()
+
+    if (!category) {
+      throw createValidationError('Category not found')
+    }
+  }
+
+  const { data: openCampaigns } = await supabase
+    .from(CAMPAIGNS_TABLE)
+    .select('id, ends_at')
+    .eq('advertisement_id', ad.id)
+    .in('status', ['active', 'paused'])
+
+  const now = Date.now()
+  if ((openCampaigns || []).some((campaign: any) => !campaign.ends_at || new Date(campaign.ends_at).getTime() > now)) {
+    throw new ProductionError(
+      'This advertisement already has an open campaign. End it before starting a new one.',
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+
+  const { data: campaign, error } = await supabase
+    .from(CAMPAIGNS_TABLE)
+    .insert({
+      supplier_id: supplierId,
+      advertisement_id: ad.id,
+      name: input.name,
+      placement: input.placement,
+      category_id: input.categoryId,
+      starts_at: input.startsAt,
+      ends_at: input.endsAt,
+      daily_impression_cap: input.dailyImpressionCap,
+      daily_budget: input.dailyBudget,
+      status: 'active'
+    })
+    .select(CAMPAIGN_SELECT)
+    .single()
+
+  if (error || !campaign) {
+    logger.error('Error creating ad campaign', error)
+    throw error || new Error('Failed to create campaign')
+  }
+
+  return toClientCampaign(campaign, 0)
+}
+
+/**
+ * Pause, resume or end a supplier's campaign
+ */
+export async function setCampaignStatus(
+  supabase: SupabaseClient,
+  params: { supplierId: string; campaignId: number; action: 'pause' | 'resume' | 'end' }
+) {
+  const { data: campaign } = await supabase
+    .from(CAMPAIGNS_TABLE)
+    .select('id, supplier_id, status, ends_at, advertisement_id')
+    .eq('id', params.campaignId)
+    .maybeSingle()
+
+  if (!campaign || campaign.supplier_id !== params.supplierId) {
+    throw new ProductionError('Campaign not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const expired = !!campaign.ends_at && new Date(campaign.ends_at).getTime() <= Date.now()
+  if (campaign.status === 'ended' || (expired && params.action !== 'end')) {
+    throw new ProductionError('This campaign has ended', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const transitions: Record<typeof params.action, { from: AdCampaignStatus[]; to: AdCampaignStatus }> = {
+    pause: { from: ['active'], to: 'paused' },
+    resume: { from: ['paused'], to: 'active' },
+    end: { from: ['active', 'paused'], to: 'ended' }
+  }
+  const transition = transitions[params.action]
+  if (!transition.from.includes(campaign.status)) {
+    throw new ProductionError(`Campaign is already ${campaign.status}`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: updated, error } = await supabase
+    .from(CAMPAIGNS_TABLE)
+    .update({
+      status: transition.to,
+      paused_at: transition.to === 'paused' ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', campaign.id)
+    .eq('status', campaign.status)
+    .select(CAMPAIGN_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+  if (!updated) {
+    throw new ProductionError('Campaign was changed by another request, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const delivered = await getImpressionsToday(supabase, [campaign.advertisement_id])
+  return toClientCampaign(updated, delivered.get(campaign.advertisement_id) || 0)
+}
+
+/**
+ * Resolve a category name or slug from a page URL to its id
+ */
+export async function resolveCategoryId(supabase: SupabaseClient, category: string | null): Promise<number | null> {
+  const name = (category || '').trim()
+  if (!name) return null
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
+
+  const { data } = await supabase
+    .from('categories')
+    .select('id')
+    .or(`slug.eq.${slug},name.eq."${name.replace(/["\\]/g, '')}"`)
+    .limit(1)
+    .maybeSingle()
+
+  return data?.id ?? null
+}
+
+function pickWeighted<T>(items: T[], weightOf: (item: T) => number): T {
+  const weights = items.map(item => Math.max(weightOf(item), 0.01))
+  let roll = Math.random() * weights.reduce((sum, weight) => sum + weight, 0)
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i]
+    if (roll <= 0) return items[i]
+  }
+  return items[items.length - 1]
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+/**
+ * Campaign ads that may be shown right now, in fair rotation order
+ */
+async function getEligibleCampaignAds(
+  supabase: SupabaseClient,
+  params: { placement: string | null; categoryId: number | null }
+): Promise<any[]> {
+  const nowIso = new Date().toISOString()
+
+  let query = supabase
+    .from(CAMPAIGNS_TABLE)
+    .select('id, supplier_id, advertisement_id, placement, category_id, starts_at, ends_at, daily_impression_cap, daily_budget, advertisement:advertisements!inner(*)')
+    .eq('status', 'active')
+    .eq('advertisement.is_active', true)
+    .lte('starts_at', nowIso)
+
+  if (params.placement) {
+    query = query.eq('placement', params.placement)
+  }
+
+  // Category campaigns only run on their category's pages
+  query = params.categoryId !== null
+    ? query.or(`category_id.is.null,category_id.eq.${params.categoryId}`)
+    : query.is('category_id', null)
+
+  const { data: campaigns, error } = await query
+  if (error) {
+    throw error
+  }
+
+  const live = (campaigns || []).filter((campaign: any) => !campaign.ends_at || campaign.ends_at > nowIso)
+  if (live.length === 0) return []
+
+  const delivered = await getImpressionsToday(supabase, live.map((campaign: any) => campaign.advertisement_id))
+
+  // Remaining share of today's allowance; capped campaigns are out until tomorrow
+  const bySupplier = new Map<string, { campaign: any; remaining: number }[]>()
+  for (const campaign of live) {
+    const allowance = getDailyImpressionAllowance(campaign)
+    const remaining = allowance > 0 ? 1 - (delivered.get(campaign.advertisement_id) || 0) / allowance : 0
+    if (remaining <= 0) continue
+    const list = bySupplier.get(campaign.supplier_id) || []
+    list.push({ campaign, remaining })
+    bySupplier.set(campaign.supplier_id, list)
+  }
+
+  // One slot per supplier per round, so a supplier running many campaigns doesn't crowd others out
+  const ordered: any[] = []
+  while (ordered.length < MAX_ROTATION_SLOTS && bySupplier.size > 0) {
+    for (const supplierId of shuffle([...bySupplier.keys()])) {
+      if (ordered.length >= MAX_ROTATION_SLOTS) break
+      const candidates = bySupplier.get(supplierId)!
+      const picked = pickWeighted(candidates, candidate => candidate.remaining)
+      ordered.push({ ...picked.campaign.advertisement, campaign_id: picked.campaign.id })
+
+      const rest = candidates.filter(candidate => candidate !== picked)
+      if (rest.length > 0) {
+        bySupplier.set(supplierId, rest)
+      } else {
+        bySupplier.delete(supplierId)
+      }
+    }
+  }
+
+  return ordered
+}
+
+/**
+ * House ads for a placement: the admin's picks, or the platform's own active ads when none are set
+ */
+export async function getHouseAds(supabase: SupabaseClient, placement: string | null): Promise<any[]> {
+  let houseQuery = supabase
+    .from(HOUSE_ADS_TABLE)
+    .select('placement, display_order, advertisement:advertisements!inner(*)')
+    .eq('advertisement.is_active', true)
+    .order('display_order', { ascending: true })
+
+  if (placement) {
+    houseQuery = houseQuery.eq('placement', placement)
+  }
+
+  const { data: houseAds, error } = await houseQuery
+  if (error) {
+    logger.error('Error loading house ads', error)
+  }
+
+  if (houseAds && houseAds.length > 0) {
+    return houseAds.map((row: any) => ({ ...row.advertisement, is_house_ad: true }))
+  }
+
+  let platformQuery = supabase
+    .from('advertisements')
+    .select('*')
+    .eq('is_active', true)
+    .is('supplier_id', null)
+
+  if (placement) {
+    platformQuery = platformQuery.eq('placement', placement)
+  }
+
+  const { data: platformAds } = await platformQuery.order('display_order', { ascending: true })
+  return (platformAds || []).map((ad: any) => ({ ...ad, is_house_ad: true }))
+}
+
+/**
+ * Ads for a page's rotation: eligible campaigns first, house ads when there are none
+ */
+export async function getRotationAds(
+  supabase: SupabaseClient,
+  params: { placement: string | null; category: string | null }
+): Promise<any[]> {
+  const categoryId = await resolveCategoryId(supabase, params.category)
+  const campaignAds = await getEligibleCampaignAds(supabase, { placement: params.placement, categoryId })
+  if (campaignAds.length > 0) {
+    return campaignAds
+  }
+  return getHouseAds(supabase, params.placement)
+}
+
+/**
+ * House ads configured per placement, for the admin settings
+ */
+export async function getHouseAdSettings(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from(HOUSE_ADS_TABLE)
+    .select('placement, display_order, advertisement:advertisements(id, title, media_url, media_type, is_active)')
+    .order('placement', { ascending: true })
+    .order('display_order', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  const settings: Record<string, any[]> = {}
+  for (const placement of AD_PLACEMENTS) {
+    settings[placement] = []
+  }
+  for (const row of data || []) {
+    settings[row.placement] = [...(settings[row.placement] || []), row.advertisement]
+  }
+  return settings
+}
+
+/**
+ * Replace the house ads of one placement, in the given order
+ */
+export async function setHouseAds(
+  supabase: SupabaseClient,
+  params: { placement: string; advertisementIds: number[]; adminId: string }
+) {
+  if (!AD_PLACEMENTS.includes(params.placement as AdPlacement)) {
+    throw createValidationError('Invalid placement')
+  }
+
+  const advertisementIds = [...new Set(params.advertisementIds)]
+  if (advertisementIds.some(id => !Number.isInteger(id) || id <= 0)) {
+    throw createValidationError('Invalid advertisement id')
+  }
+
+  if (advertisementIds.length > 0) {
+    const { data: ads } = await supabase
+      .from('advertisements')
+      .select('id, is_active')
+      .in('id', advertisementIds)
+
+    if ((ads || []).length !== advertisementIds.length) {
+      throw new ProductionError('Advertisement not found', ErrorCodes.NOT_FOUND, 404)
+    }
+    if ((ads || []).some((ad: any) => !ad.is_active)) {
+      throw createValidationError('House ads must be active advertisements')
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from(HOUSE_ADS_TABLE)
+    .delete()
+    .eq('placement', params.placement)
+
+  if (deleteError) {
+    throw deleteError
+  }
+
+  if (advertisementIds.length > 0) {
+    const { error: insertError } = await supabase
+      .from(HOUSE_ADS_TABLE)
+      .insert(advertisementIds.map((advertisementId, index) => ({
+        placement: params.placement,
+        advertisement_id: advertisementId,
+        display_order: index + 1,
+        created_by: params.adminId
+      })))
+
+    if (insertError) {
+      throw insertError
+    }
+  }
+
+  const settings = await getHouseAdSettings(supabase)
+  return settings[params.placement] || []
+}
@@ -0,0 +1,351 @@
+/**
+ * Advertisement tracking
+ * The ad rotation components send impression and click beacons to /api/advertisements/events.
+ * Each (ad, event type, browser session) is counted once and known bots are dropped before anything
+ * is stored. Every accepted event recounts that ad's row in the daily roll-up per placement, so
+ * beacons landing together can't leave the totals wrong.
+ * Orders are attributed to the buyer's last click on one of the supplier's ads within the
+ * click-through window, when the buyer was logged in at click time.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { isSuspiciousUserAgent } from './security'
+
+export type AdEventType = 'impression' | 'click'
+
+export const AD_EVENT_TYPES: AdEventType[] = ['impression', 'click']
+
+// An order counts for an ad when it is placed within this many days of a click on it
+export const AD_ATTRIBUTION_WINDOW_DAYS = 7
+
+export const MAX_AD_REPORT_DAYS = 90
+
+const EVENTS_TABLE = 'ad_events'
+const DAILY_TABLE = 'ad_daily_stats'
+
+// isSuspiciousUserAgent lets search engine crawlers through, none of them should count as ad views
+const AD_BOT_PATTERN = /bot|crawl|spider|slurp|headless|lighthouse|pagespeed|prerender|preview|facebookexternalhit|pingdom|uptime|monitor/i
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/
+
+export interface AdEvent {
+  id: string
+  advertisement_id: number
+  event_type: AdEventType
+  placement: string
+  session_id: string
+  user_id: string | null
+  created_at: string
+}
+
+export interface AdDailyStat {
+  advertisement_id: number
+  placement: string
+  stat_date: string
+  impressions: number
+  clicks: number
+}
+
+export interface AdPerformance {
+  advertisementId: number
+  title: string
+  placement: string
+  isActive: boolean
+  impressions: number
+  clicks: number
+  ctr: number
+  orders: number
+  revenue: number
+}
+
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  if (!userAgent) return true
+  return AD_BOT_PATTERN.test(userAgent) || isSuspiciousUserAgent(userAgent)
+}
+
+export function isValidAdSessionId(value: unknown): value is string {
+  return typeof value === 'string' && SESSION_ID_PATTERN.test(value)
+}
+
+function dateKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10)
+}
+
+function ctrOf(impressions: number, clicks: number): number {
+  return impressions > 0 ? Math.round((clicks / impressions) * 10000) / 100 : 0
+}
+
+/**
+ * Recount one ad/placement/day from the raw events and store it in the roll-up
+ */
+async function refreshDailyStat(
+  supabase: SupabaseClient,
+  advertisementId: number,
+  placement: string,
+  statDate: string
+): Promise<void> {
+  try {
+    const dayStart = `${statDate}T00:00:00.000Z`
+    const dayEnd = `${statDate}T23:59:59.999Z`
+
+    const counts: Record<AdEventType, number> = { impression: 0, click: 0 }
+    for (const eventType of AD_EVENT_TYPES) {
+      const { count, error } = await supabase
+        .from(EVENTS_TABLE)
+        .select('id', { count: 'exact', head: true })
+        .eq('advertisement_id', advertisementId)
+        .eq('placement', placement)
+        .eq('event_type', eventType)
+        .gte('created_at', dayStart)
+        .lte('created_at', dayEnd)
+
+      if (error) throw error
+      counts[eventType] = count || 0
+    }
+
+    const { error } = await supabase
+      .from(DAILY_TABLE)
+      .upsert({
+        advertisement_id: advertisementId,
+        placement,
+        stat_date: statDate,
+        impressions: counts.impression,
+        clicks: counts.click,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'advertisement_id,placement,stat_date' })
+
+    if (error) throw error
+  } catch (error) {
+    logger.error(`Error refreshing ad stats for ad ${advertisementId} on ${statDate}`, error)
+  }
+}
+
+/**
+ * Record an impression or click from a beacon
+ * Returns false when the event was not counted (unknown ad, or already counted for this session)
+ */
+export async function recordAdEvent(
+  supabase: SupabaseClient,
+  params: {
+    advertisementId: number
+    eventType: AdEventType
+    placement?: string | null
+    sessionId: string
+    userId?: string | null
+  }
+): Promise<boolean> {
+  const { data: ad } = await supabase
+    .from('advertisements')
+    .select('id, placement, is_active')
+    .eq('id', params.advertisementId)
+    .maybeSingle()
+
+  if (!ad || !ad.is_active) {
+    return false
+  }
+
+  // Home falls back to ads from other placements, so keep the placement the ad was shown in
+  const placement = (params.placement || ad.placement || 'unknown').slice(0, 50)
+
+  const { data: event, error } = await supabase
+    .from(EVENTS_TABLE)
+    .insert({
+      advertisement_id: ad.id,
+      event_type: params.eventType,
+      placement,
+      session_id: params.sessionId,
+      user_id: params.userId || null
+    })
+    .select('created_at')
+    .single()
+
+  if (error || !event) {
+    // Unique index on (advertisement_id, event_type, session_id): already counted this session
+    if (error?.code === '23505') {
+      return false
+    }
+    logger.error(`Error recording ad ${params.eventType} for ad ${ad.id}`, error)
+    throw error || new Error('Failed to record ad event')
+  }
+
+  await refreshDailyStat(supabase, ad.id, placement, dateKey(event.created_at))
+  return true
+}
+
+/**
+ * Orders attributed to each ad: the buyer's last click on one of the supplier's ads before the order,
+ * within the click-through window. Only the supplier's own items count towards revenue.
+ */
+async function getAttributedOrders(
+  supabase: SupabaseClient,
+  params: { supplierId: string; advertisementIds: number[]; from: Date; to: Date }
+): Promise<Map<number, { orders: number; revenue: number }>> {
+  const attributed = new Map<number, { orders: number; revenue: number }>()
+  if (params.advertisementIds.length === 0) return attributed
+
+  const windowMs = AD_ATTRIBUTION_WINDOW_DAYS * 24 * 60 * 60 * 1000
+
+  // Clicks up to a window before the period can still convert inside it
+  const { data: clicks } = await supabase
+    .from(EVENTS_TABLE)
+    .select('advertisement_id, user_id, created_at')
+    .in('advertisement_id', params.advertisementIds)
+    .eq('event_type', 'click')
+    .not('user_id', 'is', null)
+    .gte('created_at', new Date(params.from.getTime() - windowMs).toISOString())
+    .lte('created_at', params.to.toISOString())
+    .order('created_at', { ascending: true })
+
+  if (!clicks || clicks.length === 0) return attributed
+
+  const clicksByUser = new Map<string, { advertisementId: number; at: number }[]>()
+  for (const click of clicks) {
+    const list = clicksByUser.get(click.user_id) || []
+    list.push({ advertisementId: click.advertisement_id, at: new Date(click.created_at).getTime() })
+    clicksByUser.set(click.user_id, list)
+  }
+
+  const { data: orders } = await supabase
+    .from('confirmed_orders')
+    .select('id, user_id, created_at, status')
+    .in('user_id', [...clicksByUser.keys()])
+    .gte('created_at', params.from.toISOString())
+    .lte('created_at', params.to.toISOString())
+    .neq('status', 'cancelled')
+
+  if (!orders || orders.length === 0) return attributed
+
+  const { data: supplierProducts } = await supabase
+    .from('products')
+    .select('id')
+    .or(`supplier_id.eq.${params.supplierId},user_id.eq.${params.supplierId}`)
+
+  const productIds = (supplierProducts || []).map((product: any) => product.id)
+  if (productIds.length === 0) return attributed
+
+  const { data: items } = await supabase
+    .from('confirmed_order_items')
+    .select('confirmed_order_id, total_price, price, quantity')
+    .in('confirmed_order_id', orders.map((order: any) => order.id))
+    .in('product_id', productIds)
+
+  const revenueByOrder = new Map<string, number>()
+  for (const item of items || []) {
+    const amount = Number(item.total_price) || (Number(item.price) || 0) * (item.quantity || 0)
+    revenueByOrder.set(item.confirmed_order_id, (revenueByOrder.get(item.confirmed_order_id) || 0) + amount)
+  }
+
+  for (const order of orders) {
+    // Orders without any of the supplier's products weren't driven by their ads
+    if (!revenueByOrder.has(order.id)) continue
+
+    const orderedAt = new Date(order.created_at).getTime()
+    const lastClick = (clicksByUser.get(order.user_id) || [])
+      .filter(click => click.at <= orderedAt && orderedAt - click.at <= windowMs)
+      .pop()
+    if (!lastClick) continue
+
+    const current = attributed.get(lastClick.advertisementId) || { orders: 0, revenue: 0 }
+    attributed.set(lastClick.advertisementId, {
+      orders: current.orders + 1,
+      revenue: Math.round((current.revenue + (revenueByOrder.get(order.id) || 0)) * 100) / 100
+    })
+  }
+
+  return attributed
+}
+
+/**
+ * Performance report for the supplier's ads over the last `days` days
+ */
+export async function getSupplierAdReport(
+  supabase: SupabaseClient,
+  params: { supplierId: string; days: number }
+) {
+  const days = Math.min(Math.max(Math.floor(params.days) || 30, 1), MAX_AD_REPORT_DAYS)
+  const to = new Date()
+  const from = new Date(to.getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+  from.setUTCHours(0, 0, 0, 0)
+
+  const { data: ads, error: adsError } = await supabase
+    .from('advertisements')
+    .select('id, title, placement, is_active')
+    .eq('supplier_id', params.supplierId)
+
+  if (adsError) {
+    throw adsError
+  }
+
+  const advertisementIds = (ads || []).map((ad: any) => ad.id)
+  const emptyTotals = { impressions: 0, clicks: 0, ctr: 0, orders: 0, revenue: 0 }
+  if (advertisementIds.length === 0) {
+    return { days, from: dateKey(from), to: dateKey(to), windowDays: AD_ATTRIBUTION_WINDOW_DAYS, totals: emptyTotals, ads: [], daily: [] }
+  }
+
+  const { data: stats, error: statsError } = await supabase
+    .from(DAILY_TABLE)
+    .select('advertisement_id, placement, stat_date, impressions, clicks')
+    .in('advertisement_id', advertisementIds)
+    .gte('stat_date', dateKey(from))
+    .lte('stat_date', dateKey(to))
+
+  if (statsError) {
+    throw statsError
+  }
+
+  const attributed = await getAttributedOrders(supabase, {
+    supplierId: params.supplierId,
+    advertisementIds,
+    from,
+    to
+  })
+
+  const perAd = new Map<number, { impressions: number; clicks: number }>()
+  const perDay = new Map<string, { impressions: number; clicks: number }>()
+  for (const stat of (stats || []) as AdDailyStat[]) {
+    const ad = perAd.get(stat.advertisement_id) || { impressions: 0, clicks: 0 }
+    perAd.set(stat.advertisement_id, { impressions: ad.impressions + stat.impressions, clicks: ad.clicks + stat.clicks })
+    const day = perDay.get(stat.stat_date) || { impressions: 0, clicks: 0 }
+    perDay.set(stat.stat_date, { impressions: day.impressions + stat.impressions, clicks: day.clicks + stat.clicks })
+  }
+
+  const report: AdPerformance[] = (ads || []).map((ad: any) => {
+    const counts = perAd.get(ad.id) || { impressions: 0, clicks: 0 }
+    const conversions = attributed.get(ad.id) || { orders: 0, revenue: 0 }
+    return {
+      advertisementId: ad.id,
+      title: ad.title,
+      placement: ad.placement,
+      isActive: !!ad.is_active,
+      impressions: counts.impressions,
+      clicks: counts.clicks,
+      ctr: ctrOf(counts.impressions, counts.clicks),
+      orders: conversions.orders,
+      revenue: conversions.revenue
+    }
+  })
+
+  const totals = report.reduce((sum, ad) => ({
+    impressions: sum.impressions + ad.impressions,
+    clicks: sum.clicks + ad.clicks,
+    ctr: 0,
+    orders: sum.orders + ad.orders,
+    revenue: Math.round((sum.revenue + ad.revenue) * 100) / 100
+  }), emptyTotals)
+  totals.ctr = ctrOf(totals.impressions, totals.clicks)
+
+  const daily = [...perDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, counts]) => ({ date, ...counts, ctr: ctrOf(counts.impressions, counts.clicks) }))
+
+  return {
+    days,
+    from: dateKey(from),
+    to: dateKey(to),
+    windowDays: AD_ATTRIBUTION_WINDOW_DAYS,
+    totals,
+    ads: report.sort((a, b) => b.impressions - a.impressions),
+    daily
+  }
+}
@@ -0,0 +1,1157 @@
+/**
+ * Supplier catalog import and export
+ * A catalog sheet has one row per variant (one row for a product without variants). Product columns
+ * are read from the first row of each product; rows are grouped by product_id, or by sku then name
+ * for new products. Blank cells leave an existing product's value unchanged, and variants missing
+ * from the sheet are kept. Imports are planned first so the supplier can review the diff, then
+ * planned again from the same file when applied, so nothing is trusted from the preview.
+ * Imported products go through review like form edits: new products wait for approval and content
+ * changes to published products are staged as a revision, while stock always applies immediately.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import DOMPurify from 'isomorphic-dompurify'
+import { logger } from './logger'
+import { SpreadsheetCell } from './spreadsheet'
+import { canCreateProduct, getSupplierPlan } from './supplier-plan-utils'
+import { recordInventoryMovements, InventoryMovement } from './inventory-journal'
+import { importImageFromUrl, isStorageMediaUrl } from './media-upload'
+import {
+  diffProductSnapshots,
+  loadProductSnapshot,
+  mergeIntoSnapshot,
+  normalizePublicationStatus,
+  recordProductRevision,
+  RevisionVariant
+} from './product-revisions'
+
+export const CATALOG_COLUMNS = [
+  'product_id',
+  'sku',
+  'name',
+  'description',
+  'category',
+  'brand',
+  'model',
+  'price',
+  'original_price',
+  'stock_quantity',
+  'in_stock',
+  'import_china',
+  'free_delivery',
+  'image_url',
+  'specifications',
+  'variant_id',
+  'variant_name',
+  'variant_sku',
+  'variant_price',
+  'variant_stock',
+  'variant_image_url'
+] as const
+
+export type CatalogColumn = typeof CATALOG_COLUMNS[number]
+
+export const MAX_CATALOG_FILE_BYTES = 5 * 1024 * 1024
+export const MAX_CATALOG_IMPORT_ROWS = 2000
+
+// Same limits the supplier product form is held to
+const LIMITS = {
+  NAME_MIN: 2,
+  NAME_MAX: 255,
+  DESCRIPTION_MAX: 5000,
+  SKU_MAX: 100,
+  TEXT_MAX: 100,
+  PRICE_MAX: 999999999,
+  URL_MAX: 2048,
+  VARIANTS_MAX: 100
+}
+
+const PRODUCTS_TABLE = 'products'
+const VARIANTS_TABLE = 'product_variants'
+const PAGE_SIZE = 1000
+
+type CatalogValue = string | number | boolean | null
+
+export interface CatalogRowError {
+  // Spreadsheet row number, the header is row 1
+  row: number
+  column?: CatalogColumn
+  message: string
+}
+
+export interface CatalogFieldChange {
+  field: string
+  from: CatalogValue
+  to: CatalogValue
+}
+
+export interface CatalogVariantChange {
+  row: number
+  variantId: number | null
+  name: string
+  action: 'create' | 'update'
+  changes: CatalogFieldChange[]
+  // Applied later: fetched into storage when it isn't already a storage URL
+  imageUrl?: string
+}
+
+export interface CatalogProductChange {
+  action: 'create' | 'update'
+  productId: number | null
+  name: string
+  rows: number[]
+  changes: CatalogFieldChange[]
+  variants: CatalogVariantChange[]
+  imageUrl?: string
+}
+
+export interface CatalogImportPlan {
+  rowCount: number
+  creates: CatalogProductChange[]
+  updates: CatalogProductChange[]
+  unchanged: number
+  errors: CatalogRowError[]
+  limit: {
+    allowed: boolean
+    reason?: string
+    maxProducts?: number
+    currentCount: number
+    newProducts: number
+  }
+  imagesToFetch: number
+}
+
+export interface CatalogImportResult {
+  created: number
+  updated: number
+  variantsCreated: number
+  variantsUpdated: number
+  imagesFetched: number
+  // Published products whose content changes are waiting for review
+  sentForReview: number
+  // Image problems don't undo the import, they are reported per row instead
+  warnings: CatalogRowError[]
+}
+
+interface ExistingVariant {
+  id: number
+  variant_name: string | null
+  sku: string | null
+  price: number | null
+  stock_quantity: number | null
+  image: string | null
+}
+
+interface ExistingProduct {
+  id: number
+  name: string
+  sku: string | null
+  description: string | null
+  category: string | null
+  category_id: string | null
+  brand: string | null
+  model: string | null
+  price: number
+  original_price: number | null
+  stock_quantity: number | null
+  in_stock: boolean | null
+  import_china: boolean | null
+  free_delivery: boolean | null
+  image: string | null
+  specifications: Record<string, unknown> | null
+  product_variants: ExistingVariant[] | null
+}
+
+const PRODUCT_SELECT = 'id, name, sku, description, category, category_id, brand, model, price, original_price, stock_quantity, in_stock, import_china, free_delivery, image, specifications, product_variants (id, variant_name, sku, price, stock_quantity, image)'
+
+async function fetchSupplierProducts(supabase: SupabaseClient, supplierId: string): Promise<ExistingProduct[]> {
+  const products: ExistingProduct[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(PRODUCTS_TABLE)
+      .select(PRODUCT_SELECT)
+      .or(`supplier_id.eq.${supplierId},user_id.eq.${supplierId}`)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      logger.error('Error fetching supplier catalog', error)
+      throw new Error('Failed to load catalog')
+    }
+    products.push(...((data || []) as unknown as ExistingProduct[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return products
+}
+
+// "Key: Value; Key: Value" when that round-trips, JSON otherwise
+function formatSpecifications(specifications: Record<string, unknown> | null): string {
+  if (!specifications || typeof specifications !== 'object') return ''
+  const entries = Object.entries(specifications)
+  if (entries.length === 0) return ''
+  const simple = entries.every(([key, value]) =>
+    typeof value === 'string' && !/[:;]/.test(key) && !value.includes(';') && key.trim() === key && value.trim() === value
+  )
+  return simple
+    ? entries.map(([key, value]) => `${key}: ${value}`).join('; ')
+    : JSON.stringify(specifications)
+}
+
+function parseSpecifications(text: string): Record<string, unknown> | null {
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text)
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+    } catch {
+      return null
+    }
+  }
+  const specifications: Record<string, string> = {}
+  for (const part of text.split(';')) {
+    if (!part.trim()) continue
+    const separator = part.indexOf(':')
+    if (separator <= 0) return null
+    specifications[part.slice(0, separator).trim()] = part.slice(separator + 1).trim()
+  }
+  return specifications
+}
+
+/**
+ * The supplier's whole catalog as sheet rows, header first
+ */
+export async function buildCatalogExportRows(
+  supabase: SupabaseClient,
+  supplierId: string
+): Promise<SpreadsheetCell[][]> {
+  const products = await fetchSupplierProducts(supabase, supplierId)
+  const rows: SpreadsheetCell[][] = [[...CATALOG_COLUMNS]]
+
+  for (const product of products) {
+    const productCells: SpreadsheetCell[] = [
+      product.id,
+      product.sku || '',
+      product.name,
+      product.description || '',
+      product.category || '',
+      product.brand || '',
+      product.model || '',
+      product.price,
+      product.original_price ?? '',
+      product.stock_quantity ?? 0,
+      product.in_stock !== false,
+      product.import_china === true,
+      product.free_delivery === true,
+      product.image || '',
+      formatSpecifications(product.specifications)
+    ]
+    const variants = [...(product.product_variants || [])].sort((a, b) => a.id - b.id)
+
+    if (variants.length === 0) {
+      rows.push([...productCells, '', '', '', '', '', ''])
+      continue
+    }
+    for (const variant of variants) {
+      rows.push([
+        ...productCells,
+        variant.id,
+        variant.variant_name || '',
+        variant.sku || '',
+        variant.price ?? '',
+        variant.stock_quantity ?? 0,
+        variant.image || ''
+      ])
+    }
+  }
+
+  return rows
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+interface SheetRow {
+  row: number
+  cells: Partial<Record<CatalogColumn, string>>
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase()
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false
+  return null
+}
+
+function parseAmount(value: string): number | null {
+  const amount = Number(value.replace(/,/g, '').trim())
+  return Number.isFinite(amount) && amount >= 0 && amount <= LIMITS.PRICE_MAX ? Math.round(amount * 100) / 100 : null
+}
+
+function parseQuantity(value: string): number | null {
+  const quantity = Number(value.replace(/,/g, '').trim())
+  return Number.isInteger(quantity) && quantity >= 0 ? quantity : null
+}
+
+function parseId(value: string): number | null {
+  const id = Number(value.trim())
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function sanitizeDescription(description: string): string {
+  return DOMPurify.sanitize(description, {
+    ALLOWED_TAGS: ['p', 'br', 'strong', 'em', 'u', 'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+    ALLOWED_ATTR: []
+  }).trim()
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function displayValue(value: unknown): CatalogValue {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'object') return JSON.stringify(value)
+  return value as CatalogValue
+}
+
+function readSheetRows(rows: string[][], errors: CatalogRowError[]): SheetRow[] {
+  const header = (rows[0] || []).map(normalizeHeader)
+  const columnIndexes = new Map<CatalogColumn, number>()
+  header.forEach((name, index) => {
+    if ((CATALOG_COLUMNS as readonly string[]).includes(name) && !columnIndexes.has(name as CatalogColumn)) {
+      columnIndexes.set(name as CatalogColumn, index)
+    }
+  })
+
+  if (!columnIndexes.has('name') && !columnIndexes.has('product_id')) {
+    errors.push({ row: 1, message: 'The first row must be the header, with at least a product_id or name column' })
+    return []
+  }
+
+  const sheetRows: SheetRow[] = []
+  rows.slice(1).forEach((cells, index) => {
+    if (cells.every(cell => !String(cell ?? '').trim())) return
+    const row: SheetRow = { row: index + 2, cells: {} }
+    for (const [column, columnIndex] of columnIndexes) {
+      row.cells[column] = String(cells[columnIndex] ?? '').trim()
+    }
+    sheetRows.push(row)
+  })
+  return sheetRows
+}
+
+// Rows belonging to one product, keyed so a new product's variant rows stay together
+function groupKey(row: SheetRow): string | null {
+  if (row.cells.product_id) return `id:${row.cells.product_id}`
+  if (row.cells.sku) return `sku:${row.cells.sku.toLowerCase()}`
+  if (row.cells.name) return `name:${row.cells.name.toLowerCase()}`
+  return null
+}
+
+interface ParsedProductFields {
+  fields: Record<string, unknown>
+  imageUrl?: string
+}
+
+// Product columns of a group's first row, only the cells that were filled in
+function parseProductFields(row: SheetRow, errors: CatalogRowError[], isCreate: boolean): ParsedProductFields {
+  const { cells } = row
+  const fields: Record<string, unknown> = {}
+  const fail = (column: CatalogColumn, message: string) => errors.push({ row: row.row, column, message })
+  let imageUrl: string | undefined
+
+  if (cells.name) {
+    if (cells.name.length < LIMITS.NAME_MIN || cells.name.length > LIMITS.NAME_MAX) {
+      fail('name', `Name must be between ${LIMITS.NAME_MIN} and ${LIMITS.NAME_MAX} characters`)
+    } else {
+      fields.name = cells.name
+    }
+  } else if (isCreate) {
+    fail('name', 'Name is required for a new product')
+  }
+
+  if (cells.price) {
+    const price = parseAmount(cells.price)
+    if (price === null) fail('price', 'Price must be a number of zero or more')
+    else fields.price = price
+  } else if (isCreate) {
+    fail('price', 'Price is required for a new product')
+  }
+
+  if (cells.original_price) {
+    const originalPrice = parseAmount(cells.original_price)
+    if (originalPrice === null) fail('original_price', 'Original price must be a number of zero or more')
+    else fields.original_price = originalPrice
+  }
+
+  if (cells.description) {
+    if (cells.description.length > LIMITS.DESCRIPTION_MAX) {
+      fail('description', `Description must not exceed ${LIMITS.DESCRIPTION_MAX} characters`)
+    } else {
+      fields.description = sanitizeDescription(cells.description)
+    }
+  }
+
+  if (cells.sku) {
+    if (cells.sku.length > LIMITS.SKU_MAX) fail('sku', `SKU must not exceed ${LIMITS.SKU_MAX} characters`)
+    else fields.sku = cells.sku
+  }
+
+  for (const column of ['category', 'brand', 'model'] as const) {
+    const value = cells[column]
+    if (!value) continue
+    if (value.length > LIMITS.TEXT_MAX) fail(column, `${column} must not exceed ${LIMITS.TEXT_MAX} characters`)
+    else fields[column] = value
+  }
+
+  if (cells.stock_quantity) {
+    const stock = parseQuantity(cells.stock_quantity)
+    if (stock === null) fail('stock_quantity', 'Stock must be a whole number of zero or more')
+    else fields.stock_quantity = stock
+  }
+
+  for (const column of ['in_stock', 'import_china', 'free_delivery'] as const) {
+    const value = cells[column]
+    if (!value) continue
+    const flag = parseBoolean(value)
+    if (flag === null) fail(column, `${column} must be TRUE or FALSE`)
+    else fields[column] = flag
+  }
+
+  if (cells.specifications) {
+    const specifications = parseSpecifications(cells.specifications)
+    if (!specifications) fail('specifications', 'Specifications must be "Key: Value; Key: Value" or a JSON object')
+    else fields.specifications = specifications
+  }
+
+  if (cells.image_url) {
+    if (cells.image_url.length > LIMITS.URL_MAX || !isHttpUrl(cells.image_url)) {
+      fail('image_url', 'Image URL must be a full http(s) address')
+    } else {
+      imageUrl = cells.image_url
+    }
+  }
+
+  return { fields, imageUrl }
+}
+
+function checkPrices(row: SheetRow, price: unknown, originalPrice: unknown, errors: CatalogRowError[]) {
+  if (typeof price === 'number' && typeof originalPrice === 'number' && originalPrice < price) {
+    errors.push({ row: row.row, column: 'original_price', message: 'Original price must be greater than or equal to price' })
+  }
+}
+
+function planVariants(
+  rows: SheetRow[],
+  existing: ExistingVariant[],
+  errors: CatalogRowError[]
+): CatalogVariantChange[] {
+  const existingById = new Map(existing.map(variant => [variant.id, variant]))
+  const seen = new Set<number>()
+  const changes: CatalogVariantChange[] = []
+
+  for (const row of rows) {
+    const { cells } = row
+    const fail = (column: CatalogColumn, message: string) => errors.push({ row: row.row, column, message })
+    const hasVariant = Boolean(cells.variant_id || cells.variant_name || cells.variant_sku || cells.variant_price || cells.variant_stock || cells.variant_image_url)
+    if (!hasVariant) continue
+
+    let current: ExistingVariant | undefined
+    if (cells.variant_id) {
+      const variantId = parseId(cells.variant_id)
+      current = variantId ? existingById.get(variantId) : undefined
+      if (!variantId || !current) {
+        fail('variant_id', `Variant ${cells.variant_id} does not belong to this product`)
+        continue
+      }
+      if (seen.has(variantId)) {
+        fail('variant_id', `Variant ${variantId} appears more than once`)
+        continue
+      }
+      seen.add(variantId)
+    } else if (!cells.variant_name) {
+      fail('variant_name', 'A new variant needs a variant_name')
+      continue
+    }
+
+    const next: Record<string, unknown> = {}
+    if (cells.variant_name) {
+      if (cells.variant_name.length > LIMITS.NAME_MAX) fail('variant_name', `Variant name must not exceed ${LIMITS.NAME_MAX} characters`)
+      else next.variant_name = cells.variant_name
+    }
+    if (cells.variant_sku) {
+      if (cells.variant_sku.length > LIMITS.SKU_MAX) fail('variant_sku', `SKU must not exceed ${LIMITS.SKU_MAX} characters`)
+      else next.sku = cells.variant_sku
+    }
+    if (cells.variant_price) {
+      const price = parseAmount(cells.variant_price)
+      if (price === null) fail('variant_price', 'Variant price must be a number of zero or more')
+      else next.price = price
+    }
+    if (cells.variant_stock) {
+      const stock = parseQuantity(cells.variant_stock)
+      if (stock === null) fail('variant_stock', 'Variant stock must be a whole number of zero or more')
+      else next.stock_quantity = stock
+    }
+    let imageUrl: string | undefined
+    if (cells.variant_image_url) {
+      if (cells.variant_image_url.length > LIMITS.URL_MAX || !isHttpUrl(cells.variant_image_url)) {
+        fail('variant_image_url', 'Variant image URL must be a full http(s) address')
+      } else if (cells.variant_image_url !== current?.image) {
+        imageUrl = cells.variant_image_url
+      }
+    }
+
+    const fieldChanges: CatalogFieldChange[] = []
+    for (const [field, value] of Object.entries(next)) {
+      const before = current ? (current as unknown as Record<string, unknown>)[field] : null
+      if (!current || !sameValue(before, value)) {
+        fieldChanges.push({ field, from: displayValue(before), to: displayValue(value) })
+      }
+    }
+    if (imageUrl) {
+      fieldChanges.push({ field: 'image', from: current?.image || null, to: imageUrl })
+    }
+    if (current && fieldChanges.length === 0) continue
+
+    changes.push({
+      row: row.row,
+      variantId: current?.id ?? null,
+      name: String(next.variant_name || current?.variant_name || ''),
+      action: current ? 'update' : 'create',
+      changes: fieldChanges,
+      imageUrl
+    })
+  }
+
+  if (existing.length + changes.filter(change => change.action === 'create').length > LIMITS.VARIANTS_MAX && rows[0]) {
+    errors.push({ row: rows[0].row, column: 'variant_name', message: `A product can have at most ${LIMITS.VARIANTS_MAX} variants` })
+  }
+  return changes
+}
+
+/**
+ * Work out what importing the sheet would change, without writing anything
+ * rows are the raw spreadsheet rows with the header first
+ */
+export async function planCatalogImport(
+  supabase: SupabaseClient,
+  params: { supplierId: string; rows: string[][] }
+): Promise<CatalogImportPlan> {
+  const errors: CatalogRowError[] = []
+  const sheetRows = readSheetRows(params.rows, errors)
+
+  if (sheetRows.length > MAX_CATALOG_IMPORT_ROWS) {
+    errors.push({ row: MAX_CATALOG_IMPORT_ROWS + 2, message: `A file can have at most ${MAX_CATALOG_IMPORT_ROWS} rows` })
+    sheetRows.length = 0
+  }
+
+  const products = await fetchSupplierProducts(supabase, params.supplierId)
+  const productsById = new Map(products.map(product => [product.id, product]))
+
+  const groups = new Map<string, SheetRow[]>()
+  for (const row of sheetRows) {
+    const key = groupKey(row)
+    if (!key) {
+      errors.push({ row: row.row, column: 'name', message: 'Row needs a product_id, sku or name' })
+      continue
+    }
+    groups.set(key, [...(groups.get(key) || []), row])
+  }
+
+  const creates: CatalogProductChange[] = []
+  const updates: CatalogProductChange[] = []
+  let unchanged = 0
+
+  for (const groupRows of groups.values()) {
+    const first = groupRows[0]
+    let current: ExistingProduct | undefined
+    if (first.cells.product_id) {
+      const productId = parseId(first.cells.product_id)
+      current = productId ? productsById.get(productId) : undefined
+      if (!current) {
+        errors.push({ row: first.row, column: 'product_id', message: `Product ${first.cells.product_id} is not in your catalog` })
+        continue
+      }
+    }
+
+    const { fields, imageUrl } = parseProductFields(first, errors, !current)
+    checkPrices(
+      first,
+      fields.price ?? current?.price,
+      fields.original_price ?? current?.original_price,
+      errors
+    )
+    const variants = planVariants(groupRows, current?.product_variants || [], errors)
+
+    // A product with variants takes its stock from them, so its own stock cell is ignored
+    if (variants.length > 0 || (current?.product_variants || []).length > 0) {
+      delete fields.stock_quantity
+    } else if (typeof fields.stock_quantity === 'number' && fields.in_stock === undefined) {
+      fields.in_stock = fields.stock_quantity > 0
+    }
+
+    if (!current) {
+      creates.push({
+        action: 'create',
+        productId: null,
+        name: String(fields.name || ''),
+        rows: groupRows.map(row => row.row),
+        changes: Object.entries(fields).map(([field, value]) => ({ field, from: null, to: displayValue(value) })),
+        variants,
+        imageUrl
+      })
+      continue
+    }
+
+    const changes: CatalogFieldChange[] = []
+    for (const [field, value] of Object.entries(fields)) {
+      const before = (current as unknown as Record<string, unknown>)[field]
+      if (!sameValue(before, value)) {
+        changes.push({ field, from: displayValue(before), to: displayValue(value) })
+      }
+    }
+    const newImage = imageUrl && imageUrl !== current.image ? imageUrl : undefined
+    if (newImage) {
+      changes.push({ field: 'image', from: current.image || null, to: newImage })
+    }
+
+    if (changes.length === 0 && variants.length === 0) {
+      unchanged++
+      continue
+    }
+    updates.push({
+      action: 'update',
+      productId: current.id,
+      name: current.name,
+      rows: groupRows.map(row => row.row),
+      changes,
+      variants,
+      imageUrl: newImage
+    })
+  }
+
+  // Plan limits apply to the catalog size after every new product is added
+  const plan = await getSupplierPlan(params.supplierId, supabase)
+  const limitCheck = creates.length > 0
+    ? await canCreateProduct(params.supplierId, products.length + creates.length - 1, plan)
+    : { allowed: true, maxProducts: undefined, reason: undefined }
+
+  const imagesToFetch = [...creates, ...updates].reduce((count, product) =>
+    count +
+    (product.imageUrl && !isStorageMediaUrl(product.imageUrl) ? 1 : 0) +
+    product.variants.filter(variant => variant.imageUrl && !isStorageMediaUrl(variant.imageUrl)).length,
+  0)
+
+  return {
+    rowCount: sheetRows.length,
+    creates,
+    updates,
+    unchanged,
+    errors: errors.sort((a, b) => a.row - b.row),
+    limit: {
+      allowed: limitCheck.allowed,
+      reason: limitCheck.allowed
+        ? undefined
+        : `${limitCheck.reason || 'Product limit reached'} This file would add ${creates.length} new product(s) to your ${products.length}.`,
+      maxProducts: limitCheck.maxProducts,
+      currentCount: products.length,
+      newProducts: creates.length
+    },
+    imagesToFetch
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Applying
+// ---------------------------------------------------------------------------
+
+function generateSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+async function resolveCategoryIds(supabase: SupabaseClient, names: string[]): Promise<Map<string, string>> {
+  const ids = new Map<string, string>()
+  if (names.length === 0) return ids
+
+  const { data, error } = await supabase.from('categories').select('id, name, slug')
+  if (error) {
+    logger.error('Error loading categories for catalog import', error)
+    return ids
+  }
+  for (const name of names) {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
+    const match = (data || []).find(category =>
+      String(category.name).toLowerCase() === name.toLowerCase() || category.slug === slug
+    )
+    if (match) ids.set(name, match.id)
+  }
+  return ids
+}
+
+function toFields(changes: CatalogFieldChange[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  for (const change of changes) {
+    if (change.field === 'image') continue
+    fields[change.field] = change.field === 'specifications' && typeof change.to === 'string'
+      ? JSON.parse(change.to)
+      : change.to
+  }
+  return fields
+}
+
+async function storeImage(
+  supabase: SupabaseClient,
+  url: string,
+  productId: number,
+  context: 'product' | 'variant',
+  row: number,
+  column: CatalogColumn,
+  result: CatalogImportResult
+): Promise<string | null> {
+  if (isStorageMediaUrl(url)) return url
+  try {
+    const stored = await importImageFromUrl(supabase, { url, productId, context })
+    result.imagesFetched++
+    return stored
+  } catch (error: any) {
+    result.warnings.push({ row, column, message: `Image not imported: ${error?.message || 'download failed'}` })
+    return null
+  }
+}
+
+/**
+ * Write a plan produced by planCatalogImport. The plan must have no errors and be within the plan limit.
+ * Stock changes are journalled with reason 'import' under the supplier's id
+ */
+export async function applyCatalogImport(
+  supabase: SupabaseClient,
+  params: { supplierId: string; plan: CatalogImportPlan }
+): Promise<CatalogImportResult> {
+  const { plan, supplierId } = params
+  if (plan.errors.length > 0 || !plan.limit.allowed) {
+    throw new Error('Catalog import plan has errors')
+  }
+
+  const result: CatalogImportResult = {
+    created: 0,
+    updated: 0,
+    variantsCreated: 0,
+    variantsUpdated: 0,
+    imagesFetched: 0,
+    sentForReview: 0,
+    warnings: []
+  }
+  const movements: InventoryMovement[] = []
+  const now = new Date().toISOString()
+
+  const categoryNames = [...plan.creates, ...plan.updates]
+    .map(product => product.changes.find(change => change.field === 'category')?.to)
+    .filter((name): name is string => typeof name === 'string' && name.length > 0)
+  const categoryIds = await resolveCategoryIds(supabase, [...new Set(categoryNames)])
+
+  const existingStock = new Map<number, number>()
+  const publishedIds = new Set<number>()
+  if (plan.updates.length > 0) {
+    const { data } = await supabase
+      .from(PRODUCTS_TABLE)
+      .select('id, stock_quantity, publication_status')
+      .in('id', plan.updates.map(product => product.productId as number))
+    for (const row of data || []) {
+      existingStock.set(row.id, row.stock_quantity || 0)
+      if (normalizePublicationStatus(row.publication_status) === 'published') publishedIds.add(row.id)
+    }
+  }
+
+  for (const product of [...plan.creates, ...plan.updates]) {
+    const fields = toFields(product.changes)
+    if (typeof fields.category === 'string') {
+      fields.category_id = categoryIds.get(fields.category) || null
+    }
+    const hasVariants = product.variants.length > 0
+
+    let productId = product.productId
+    if (product.action === 'update' && publishedIds.has(productId as number)) {
+      await stagePublishedProduct(supabase, {
+        productId: productId as number,
+        supplierId,
+        product,
+        fields,
+        stockBefore: existingStock.get(productId as number) ?? 0,
+        result,
+        movements
+      })
+      continue
+    }
+
+    if (product.action === 'create') {
+      const name = String(fields.name)
+      const { data: created, error } = await supabase
+        .from(PRODUCTS_TABLE)
+        .insert({
+          description: '',
+          category: '',
+          brand: '',
+          sku: '',
+          image: '',
+          specifications: {},
+          in_stock: true,
+          import_china: false,
+          free_delivery: false,
+          ...fields,
+          slug: generateSlug(name),
+          stock_quantity: hasVariants ? 0 : (fields.stock_quantity as number | undefined) ?? 0,
+          supplier_id: supplierId,
+          user_id: supplierId,
+          publication_status: 'pending_review',
+          is_hidden: true,
+          created_at: now,
+          updated_at: now
+        })
+        .select('id, stock_quantity')
+        .single()
+
+      if (error || !created) {
+        logger.error(`Error creating imported product "${name}"`, error)
+        throw new Error(`Failed to create "${name}" (row ${product.rows[0]})`)
+      }
+      productId = created.id
+      result.created++
+      if (!hasVariants && created.stock_quantity > 0) {
+        movements.push({
+          product_id: created.id,
+          variant_id: null,
+          variant_value: null,
+          reason: 'import',
+          quantity_change: created.stock_quantity,
+          quantity_after: created.stock_quantity,
+          actor_id: supplierId,
+          note: 'Catalog import: new product'
+        })
+      }
+    } else if (Object.keys(fields).length > 0) {
+      const { error } = await supabase
+        .from(PRODUCTS_TABLE)
+        .update({ ...fields, updated_at: now })
+        .eq('id', productId as number)
+        .or(`supplier_id.eq.${supplierId},user_id.eq.${supplierId}`)
+
+      if (error) {
+        logger.error(`Error updating imported product ${productId}`, error)
+        throw new Error(`Failed to update product ${productId} (row ${product.rows[0]})`)
+      }
+      result.updated++
+
+      const before = existingStock.get(productId as number) ?? 0
+      if (typeof fields.stock_quantity === 'number' && fields.stock_quantity !== before) {
+        movements.push({
+          product_id: productId as number,
+          variant_id: null,
+          variant_value: null,
+          reason: 'import',
+          quantity_change: fields.stock_quantity - before,
+          quantity_after: fields.stock_quantity,
+          actor_id: supplierId,
+          note: 'Catalog import'
+        })
+      }
+    } else {
+      result.updated++
+    }
+
+    if (product.imageUrl && productId) {
+      const image = await storeImage(supabase, product.imageUrl, productId, 'product', product.rows[0], 'image_url', result)
+      if (image) {
+        await supabase.from(PRODUCTS_TABLE).update({ image }).eq('id', productId)
+      }
+    }
+
+    if (hasVariants && productId) {
+      await applyVariants(supabase, { productId, supplierId, product, fields, result, movements })
+    }
+    if (productId) {
+      await recordImportRevision(supabase, productId, supplierId, product, result)
+    }
+  }
+
+  await recordInventoryMovements(supabase, movements)
+  return result
+}
+
+async function applyVariants(
+  supabase: SupabaseClient,
+  params: {
+    productId: number
+    supplierId: string
+    product: CatalogProductChange
+    fields: Record<string, unknown>
+    result: CatalogImportResult
+    movements: InventoryMovement[]
+  }
+): Promise<void> {
+  const { productId, supplierId, product, result, movements } = params
+
+  const { data: currentVariants } = await supabase
+    .from(VARIANTS_TABLE)
+    .select('id, price, stock_quantity')
+    .eq('product_id', productId)
+  const stockBefore = new Map((currentVariants || []).map(variant => [variant.id, variant.stock_quantity || 0]))
+  const defaultPrice = typeof params.fields.price === 'number' ? params.fields.price : null
+
+  for (const variant of product.variants) {
+    const variantFields = toFields(variant.changes)
+    let variantId = variant.variantId
+
+    if (variant.action === 'create') {
+      const stock = typeof variantFields.stock_quantity === 'number' ? variantFields.stock_quantity : 0
+      const { data: created, error } = await supabase
+        .from(VARIANTS_TABLE)
+        .insert({
+          product_id: productId,
+          variant_name: variantFields.variant_name,
+          price: variantFields.price ?? defaultPrice,
+          stock_quantity: stock,
+          sku: variantFields.sku ?? null,
+          in_stock: stock > 0
+        })
+        .select('id')
+        .single()
+
+      if (error || !created) {
+        logger.error(`Error creating imported variant for product ${productId}`, error)
+        result.warnings.push({ row: variant.row, column: 'variant_name', message: 'Variant could not be created' })
+        continue
+      }
+      variantId = created.id
+      result.variantsCreated++
+      if (stock > 0) {
+        movements.push({
+          product_id: productId,
+          variant_id: created.id,
+          variant_value: variant.name,
+          reason: 'import',
+          quantity_change: stock,
+          quantity_after: stock,
+          actor_id: supplierId,
+          note: 'Catalog import: new variant'
+        })
+      }
+    } else if (Object.keys(variantFields).length > 0) {
+      const stock = variantFields.stock_quantity
+      const { error } = await supabase
+        .from(VARIANTS_TABLE)
+        .update({ ...variantFields, ...(typeof stock === 'number' ? { in_stock: stock > 0 } : {}) })
+        .eq('id', variantId as number)
+        .eq('product_id', productId)
+
+      if (error) {
+        logger.error(`Error updating imported variant ${variantId}`, error)
+        result.warnings.push({ row: variant.row, column: 'variant_id', message: 'Variant could not be updated' })
+        continue
+      }
+      result.variantsUpdated++
+      const before = stockBefore.get(variantId as number) ?? 0
+      if (typeof stock === 'number' && stock !== before) {
+        movements.push({
+          product_id: productId,
+          variant_id: variantId,
+          variant_value: variant.name,
+          reason: 'import',
+          quantity_change: stock - before,
+          quantity_after: stock,
+          actor_id: supplierId,
+          note: 'Catalog import'
+        })
+      }
+    } else {
+      result.variantsUpdated++
+    }
+
+    if (variant.imageUrl && variantId) {
+      const image = await storeImage(supabase, variant.imageUrl, productId, 'variant', variant.row, 'variant_image_url', result)
+      if (image) {
+        await supabase.from(VARIANTS_TABLE).update({ image }).eq('id', variantId)
+      }
+    }
+  }
+
+  await syncVariantStock(supabase, productId, params.fields)
+}
+
+// Product stock is the sum of its variants, as in the supplier product form
+async function syncVariantStock(supabase: SupabaseClient, productId: number, fields: Record<string, unknown>): Promise<void> {
+  const { data: allVariants } = await supabase
+    .from(VARIANTS_TABLE)
+    .select('stock_quantity')
+    .eq('product_id', productId)
+  const totalStock = (allVariants || []).reduce((sum, variant) => sum + (variant.stock_quantity || 0), 0)
+  const { error } = await supabase
+    .from(PRODUCTS_TABLE)
+    .update({
+      stock_quantity: totalStock,
+      in_stock: typeof fields.in_stock === 'boolean' ? fields.in_stock : totalStock > 0
+    })
+    .eq('id', productId)
+  if (error) {
+    logger.error(`Error syncing stock for imported product ${productId}`, error)
+  }
+}
+
+// Revision of a new or unpublished product after the import wrote it
+async function recordImportRevision(
+  supabase: SupabaseClient,
+  productId: number,
+  supplierId: string,
+  product: CatalogProductChange,
+  result: CatalogImportResult
+): Promise<void> {
+  try {
+    const { snapshot } = await loadProductSnapshot(supabase, productId)
+    await recordProductRevision(supabase, { productId, actorId: supplierId, snapshot, note: 'Catalog import' })
+  } catch (error) {
+    logger.error(`Error recording import revision for product ${productId}`, error)
+    result.warnings.push({ row: product.rows[0], message: 'Saved, but the revision history could not be updated' })
+  }
+}
+
+/**
+ * Import into a published product: stock applies now, content changes (including new variants)
+ * are saved as a revision waiting for review
+ */
+async function stagePublishedProduct(
+  supabase: SupabaseClient,
+  params: {
+    productId: number
+    supplierId: string
+    product: CatalogProductChange
+    fields: Record<string, unknown>
+    stockBefore: number
+    result: CatalogImportResult
+    movements: InventoryMovement[]
+  }
+): Promise<void> {
+  const { productId, supplierId, product, fields, result, movements } = params
+  const { stock_quantity: stock, in_stock: inStock, ...content } = fields
+  const { snapshot } = await loadProductSnapshot(supabase, productId)
+
+  if (typeof stock === 'number' || typeof inStock === 'boolean') {
+    const { error } = await supabase
+      .from(PRODUCTS_TABLE)
+      .update({
+        ...(typeof stock === 'number' ? { stock_quantity: stock } : {}),
+        ...(typeof inStock === 'boolean' ? { in_stock: inStock } : {})
+      })
+      .eq('id', productId)
+    if (error) {
+      logger.error(`Error updating imported stock for product ${productId}`, error)
+      throw new Error(`Failed to update product ${productId} (row ${product.rows[0]})`)
+    }
+    if (typeof stock === 'number' && stock !== params.stockBefore) {
+      movements.push({
+        product_id: productId,
+        variant_id: null,
+        variant_value: null,
+        reason: 'import',
+        quantity_change: stock - params.stockBefore,
+        quantity_after: stock,
+        actor_id: supplierId,
+        note: 'Catalog import'
+      })
+    }
+  }
+
+  if (product.imageUrl) {
+    const image = await storeImage(supabase, product.imageUrl, productId, 'product', product.rows[0], 'image_url', result)
+    if (image) content.image = image
+  }
+
+  const variants: RevisionVariant[] = snapshot.variants.map(variant => ({ ...variant }))
+  let variantStockChanged = false
+  for (const variant of product.variants) {
+    const { stock_quantity: variantStock, ...variantContent } = toFields(variant.changes)
+    let staged = variants.find(candidate => candidate.id !== null && candidate.id === variant.variantId)
+
+    if (!staged) {
+      staged = {
+        id: null,
+        variant_name: String(variantContent.variant_name || variant.name),
+        price: (variantContent.price as number | undefined) ?? (content.price as number | undefined) ?? null,
+        price_tiers: [],
+        shipping_package: null,
+        sku: (variantContent.sku as string | undefined) ?? null,
+        image: null,
+        stock_quantity: typeof variantStock === 'number' ? variantStock : 0
+      }
+      variants.push(staged)
+      result.variantsCreated++
+    } else {
+      if (typeof variantStock === 'number' && variantStock !== staged.stock_quantity) {
+        const { error } = await supabase
+          .from(VARIANTS_TABLE)
+          .update({ stock_quantity: variantStock, in_stock: variantStock > 0 })
+          .eq('id', staged.id as number)
+          .eq('product_id', productId)
+        if (error) {
+          logger.error(`Error updating imported variant ${staged.id}`, error)
+          result.warnings.push({ row: variant.row, column: 'variant_stock', message: 'Variant stock could not be updated' })
+        } else {
+          movements.push({
+            product_id: productId,
+            variant_id: staged.id,
+            variant_value: variant.name,
+            reason: 'import',
+            quantity_change: variantStock - staged.stock_quantity,
+            quantity_after: variantStock,
+            actor_id: supplierId,
+            note: 'Catalog import'
+          })
+          staged.stock_quantity = variantStock
+          variantStockChanged = true
+        }
+      }
+      if (typeof variantContent.variant_name === 'string') staged.variant_name = variantContent.variant_name
+      if (typeof variantContent.price === 'number') staged.price = variantContent.price
+      if (variantContent.sku !== undefined) staged.sku = (variantContent.sku as string | null) ?? null
+      result.variantsUpdated++
+    }
+
+    if (variant.imageUrl) {
+      const image = await storeImage(supabase, variant.imageUrl, productId, 'variant', variant.row, 'variant_image_url', result)
+      if (image) staged.image = image
+    }
+  }
+
+  if (variantStockChanged) {
+    await syncVariantStock(supabase, productId, fields)
+  }
+  result.updated++
+
+  const stagedSnapshot = mergeIntoSnapshot({ ...snapshot, variants }, content)
+  if (diffProductSnapshots(snapshot, stagedSnapshot).length === 0) return
+  await recordProductRevision(supabase, {
+    productId,
+    actorId: supplierId,
+    snapshot: stagedSnapshot,
+    note: 'Catalog import'
+  })
+  result.sentForReview++
+}
@@ -99,6 +99,7 @@ export function clearCheckoutSessionStorage(): void {
     'buy_now_mode',
     'buy_now_item_data',
     'applied_promotion',
+    'applied_coin_reward',
     'last_order_reference',
   ]
 
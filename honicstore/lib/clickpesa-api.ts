@@ -1,6 +1,7 @@
 // ClickPesa API Integration
 // Documentation: https://clickpesa.com/developers/
 
+import crypto from 'crypto'
 import { logger } from '@/lib/logger'
 
 export interface ClickPesaConfig {
@@ -410,7 +411,6 @@ export const generateChecksum = (payload: CheckoutLinkRequest): string => {
     const payloadString = JSON.stringify(canonicalPayload)
     
     // Step 4: Generate HMAC-SHA256 hash (optimized: removed verbose logging)
-    const crypto = require('crypto')
     const hmac = crypto.createHmac('sha256', CLICKPESA_CHECKSUM_KEY)
     hmac.update(payloadString)
     const checksum = hmac.digest('hex')
@@ -527,7 +527,6 @@ export const validateWebhook = (payload: any, signature: string, secretKey: stri
     const payloadString = JSON.stringify(canonicalPayload)
     
     // 4. Generate HMAC-SHA256 hash
-    const crypto = require('crypto')
     const expectedSignature = crypto
       .createHmac('sha256', secretKey)
       .update(payloadString)
@@ -787,6 +786,155 @@ export const verifyTransactionWithClickPesa = async (
   }
 }
 
+// ClickPesa payouts (disbursements to supplier mobile money or bank accounts)
+// Payouts always use the regular (checkout) credentials - the collection account funds them
+export interface PayoutInitiationRequest {
+  amount: string
+  currency: 'TZS' | 'USD'
+  orderReference: string
+  phoneNumber?: string
+  accountNumber?: string
+  accountName?: string
+  bankName?: string
+}
+
+export interface PayoutInitiationResult {
+  accepted: boolean
+  status: string
+  payoutId?: string
+  message?: string
+  error?: string
+}
+
+// Generate checksum for an arbitrary flat payload (same canonical HMAC-SHA256 method as checkout)
+const generatePayloadChecksum = (payload: Record<string, any>): string => {
+  const checksumPayload: Record<string, any> = {}
+  for (const [key, value] of Object.entries(payload)) {
+    if (value !== undefined && value !== null && value !== '') checksumPayload[key] = value
+  }
+  return crypto
+    .createHmac('sha256', CLICKPESA_CHECKSUM_KEY)
+    .update(JSON.stringify(canonicalize(checksumPayload)))
+    .digest('hex')
+}
+
+export const initiateClickPesaPayout = async (
+  request: PayoutInitiationRequest,
+  channel: 'mobile_money' | 'bank'
+): Promise<PayoutInitiationResult> => {
+  try {
+    const accessToken = await generateAccessToken(false)
+    const endpoint = channel === 'mobile_money'
+      ? `${CLICKPESA_CONFIG.baseUrl}/third-parties/payouts/initiate-mobile-money-payout`
+      : `${CLICKPESA_CONFIG.baseUrl}/third-parties/payouts/initiate-bank-payout`
+
+    const payload: Record<string, any> = channel === 'mobile_money'
+      ? {
+          amount: request.amount,
+          currency: request.currency,
+          orderReference: request.orderReference,
+          phoneNumber: request.phoneNumber ? formatPhoneForClickPesa(request.phoneNumber) : undefined
+        }
+      : {
+          amount: request.amount,
+          currency: request.currency,
+          orderReference: request.orderReference,
+          accountNumber: request.accountNumber,
+          accountName: request.accountName,
+          bankName: request.bankName,
+          transferType: 'ACH'
+        }
+    payload.checksum = generatePayloadChecksum(payload)
+
+    const response = await fetchWithTimeout(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': accessToken.startsWith('Bearer ') ? accessToken : `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(payload),
+    }, CLICKPESA_REQUEST_TIMEOUT_MS)
+
+    const responseText = await response.text()
+    let data: any
+    try {
+      data = JSON.parse(responseText)
+    } catch {
+      data = { message: responseText }
+    }
+
+    if (!response.ok) {
+      logger.error('ClickPesa payout initiation failed:', {
+        status: response.status,
+        orderReference: request.orderReference,
+        channel,
+        errorData: data
+      })
+      return {
+        accepted: false,
+        status: 'FAILED',
+        error: data?.message || `ClickPesa API error: ${response.status}`
+      }
+    }
+
+    const status = String(data?.status || 'PENDING').toUpperCase()
+    return {
+      accepted: status !== 'FAILED' && status !== 'REVERSED',
+      status,
+      payoutId: data?.id,
+      message: data?.message
+    }
+  } catch (error) {
+    logger.error('Error initiating ClickPesa payout:', error instanceof Error ? error.message : String(error))
+    return {
+      accepted: false,
+      status: 'ERROR',
+      error: error instanceof Error ? error.message : 'Unknown error during payout'
+    }
+  }
+}
+
+export const queryClickPesaPayoutStatus = async (orderReference: string): Promise<PayoutInitiationResult> => {
+  try {
+    const accessToken = await generateAccessToken(false)
+    const response = await fetchWithTimeout(
+      `${CLICKPESA_CONFIG.baseUrl}/third-parties/payouts/${orderReference}`,
+      {
+        method: 'GET',
+        headers: {
+          'Authorization': accessToken.startsWith('Bearer ') ? accessToken : `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      },
+      CLICKPESA_REQUEST_TIMEOUT_MS
+    )
+
+    if (!response.ok) {
+      return {
+        accepted: false,
+        status: 'UNKNOWN',
+        error: `ClickPesa API error: ${response.status} ${response.statusText}`
+      }
+    }
+
+    const data = await response.json()
+    const payout = Array.isArray(data) ? data[0] : data
+    const status = String(payout?.status || 'UNKNOWN').toUpperCase()
+    return {
+      accepted: status !== 'FAILED' && status !== 'REVERSED',
+      status,
+      payoutId: payout?.id,
+      message: payout?.message
+    }
+  } catch (error) {
+    return {
+      accepted: false,
+      status: 'ERROR',
+      error: error instanceof Error ? error.message : 'Unknown error during payout status check'
+    }
+  }
+}
+
 // Get configuration status for debugging
 export const getConfigStatus = () => {
   return {
@@ -0,0 +1,393 @@
+/**
+ * Courier providers
+ * Pluggable carrier backends for supplier shipments: book a shipment, print its label, cancel it
+ * before collection and read its tracking status. Carriers push status changes to
+ * /api/webhooks/courier/[provider], which every provider parses into the same tracking updates.
+ * Select one with COURIER_PROVIDER=local|mock (defaults to mock outside production)
+ */
+
+import crypto from 'crypto'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes } from './error-handler'
+import { renderLabelPdf } from './label-pdf'
+
+export interface CourierAddress {
+  name: string
+  phone: string | null
+  address: string | null
+  ward: string | null
+  district: string | null
+  region: string | null
+  lat: number | null
+  lon: number | null
+}
+
+export interface CourierParcel {
+  weightKg: number
+  lengthCm: number | null
+  widthCm: number | null
+  heightCm: number | null
+}
+
+export interface CourierShipmentRequest {
+  // Ours, unique per shipment; carriers echo it back
+  reference: string
+  orderNumber: string
+  sender: CourierAddress
+  recipient: CourierAddress
+  parcels: CourierParcel[]
+  description: string
+}
+
+export interface CourierShipmentResult {
+  trackingNumber: string
+  // The carrier's own id for the booking, used for label, cancel and tracking calls
+  providerReference: string
+  trackingUrl: string | null
+  estimatedDelivery: string | null
+}
+
+/**
+ * booked: label created, waiting for the courier to collect
+ * collected / in_transit / out_for_delivery: on its way; the items count as shipped
+ * delivered: handed over at the destination
+ * failed: delivery attempt failed, the courier will retry
+ * returned / cancelled: not coming
+ */
+export type CourierTrackingStatus =
+  | 'booked'
+  | 'collected'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'failed'
+  | 'returned'
+  | 'cancelled'
+
+export interface CourierTrackingUpdate {
+  trackingNumber: string
+  status: CourierTrackingStatus
+  occurredAt: string
+  location: string | null
+  description: string | null
+}
+
+export interface CourierLabel {
+  filename: string
+  contentType: string
+  data: Buffer
+}
+
+export interface CourierProvider {
+  name: string
+  // Carrier name shown to buyers
+  carrier: string
+  createShipment(request: CourierShipmentRequest): Promise<CourierShipmentResult>
+  getLabel(shipment: CourierShipmentRequest & CourierShipmentResult): Promise<CourierLabel>
+  cancelShipment(providerReference: string): Promise<void>
+  getTrackingStatus(providerReference: string): Promise<CourierTrackingUpdate | null>
+  // Throws a ProductionError when the request is not from the carrier
+  parseWebhook(rawBody: string, headers: Headers): CourierTrackingUpdate[]
+}
+
+const COURIER_TIMEOUT_MS = 15000
+
+const STATUS_ALIASES: Record<string, CourierTrackingStatus> = {
+  created: 'booked',
+  booked: 'booked',
+  pending: 'booked',
+  awaiting_collection: 'booked',
+  picked_up: 'collected',
+  collected: 'collected',
+  in_transit: 'in_transit',
+  at_hub: 'in_transit',
+  arrived_at_hub: 'in_transit',
+  out_for_delivery: 'out_for_delivery',
+  delivered: 'delivered',
+  failed_attempt: 'failed',
+  failed: 'failed',
+  exception: 'failed',
+  returned: 'returned',
+  returned_to_sender: 'returned',
+  cancelled: 'cancelled',
+  canceled: 'cancelled'
+}
+
+export function normalizeCourierStatus(status: unknown): CourierTrackingStatus | null {
+  if (typeof status !== 'string') return null
+  return STATUS_ALIASES[status.trim().toLowerCase().replace(/[\s-]+/g, '_')] || null
+}
+
+function formatCourierAddress(address: CourierAddress): string[] {
+  return [
+    address.address,
+    [address.ward, address.district].filter(Boolean).join(', '),
+    address.region
+  ].filter((line): line is string => !!line)
+}
+
+/**
+ * Our own label layout, for carriers that do not print one
+ */
+export function renderCourierLabel(carrier: string, shipment: CourierShipmentRequest & CourierShipmentResult): CourierLabel {
+  const totalWeight = shipment.parcels.reduce((sum, parcel) => sum + parcel.weightKg, 0)
+  const data = renderLabelPdf([
+    { text: carrier.toUpperCase(), size: 14, bold: true },
+    { text: shipment.trackingNumber, size: 16, bold: true, gap: 4 },
+    { text: `Order ${shipment.orderNumber}`, size: 9 },
+    { text: 'TO', size: 8, bold: true, gap: 10 },
+    { text: shipment.recipient.name, size: 12, bold: true },
+    ...formatCourierAddress(shipment.recipient).map(text => ({ text, size: 11 })),
+    ...(shipment.recipient.phone ? [{ text: `Tel: ${shipment.recipient.phone}`, size: 11 }] : []),
+    { text: 'FROM', size: 8, bold: true, gap: 10 },
+    { text: shipment.sender.name, size: 9, bold: true },
+    ...formatCourierAddress(shipment.sender).map(text => ({ text, size: 9 })),
+    ...(shipment.sender.phone ? [{ text: `Tel: ${shipment.sender.phone}`, size: 9 }] : []),
+    { text: `${shipment.parcels.length} parcel(s), ${totalWeight.toFixed(2)} kg`, size: 9, gap: 10 },
+    { text: shipment.description, size: 8 }
+  ])
+  return {
+    filename: `label-${shipment.trackingNumber}.pdf`,
+    contentType: 'application/pdf',
+    data
+  }
+}
+
+// Webhook bodies carry one event, or { events: [...] } for carriers that batch them
+function parseTrackingEvents(rawBody: string): CourierTrackingUpdate[] {
+  let payload: any
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    throw new ProductionError('Invalid webhook payload', ErrorCodes.INVALID_INPUT, 400)
+  }
+
+  const events: any[] = Array.isArray(payload?.events) ? payload.events : [payload]
+  const updates: CourierTrackingUpdate[] = []
+  for (const event of events) {
+    const trackingNumber = event?.tracking_number ?? event?.trackingNumber
+    const status = normalizeCourierStatus(event?.status)
+    if (typeof trackingNumber !== 'string' || !trackingNumber.trim() || !status) {
+      logger.warn('Skipping courier event without a tracking number or known status:', event?.status)
+      continue
+    }
+    const occurredAt = new Date(event.occurred_at ?? event.occurredAt ?? Date.now())
+    updates.push({
+      trackingNumber: trackingNumber.trim(),
+      status,
+      occurredAt: Number.isNaN(occurredAt.getTime()) ? new Date().toISOString() : occurredAt.toISOString(),
+      location: typeof event.location === 'string' ? event.location.slice(0, 200) : null,
+      description: typeof event.description === 'string' ? event.description.slice(0, 500) : null
+    })
+  }
+  return updates
+}
+
+function verifySignature(rawBody: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false
+  const provided = signature.replace(/^sha256=/i, '').trim().toLowerCase()
+  if (!/^[a-f0-9]+$/.test(provided)) return false
+  const expected = Buffer.from(crypto.createHmac('sha256', secret).update(rawBody).digest('hex'), 'hex')
+  const given = Buffer.from(provided, 'hex')
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given)
+}
+
+/**
+ * Reference adapter for a local courier's REST API
+ * LOCAL_COURIER_API_URL and LOCAL_COURIER_API_KEY reach the carrier; it signs webhooks with
+ * LOCAL_COURIER_WEBHOOK_SECRET (HMAC-SHA256 of the raw body in X-Courier-Signature)
+ */
+export function createLocalCourierProvider(config: {
+  apiUrl?: string
+  apiKey?: string
+  webhookSecret?: string
+  carrier?: string
+} = {}): CourierProvider {
+  const apiUrl = (config.apiUrl ?? process.env.LOCAL_COURIER_API_URL ?? '').replace(/\/+$/, '')
+  const apiKey = config.apiKey ?? process.env.LOCAL_COURIER_API_KEY ?? ''
+  const webhookSecret = config.webhookSecret ?? process.env.LOCAL_COURIER_WEBHOOK_SECRET ?? ''
+  const carrier = config.carrier ?? process.env.LOCAL_COURIER_NAME ?? 'Local Courier'
+
+  async function request(path: string, init: RequestInit = {}): Promise<Response> {
+    if (!apiUrl || !apiKey) {
+      throw new ProductionError('Courier is not configured', ErrorCodes.SERVER_ERROR, 503)
+    }
+    let response: Response
+    try {
+      response = await fetch(`${apiUrl}${path}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: 'application/json',
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+          ...init.headers
+        },
+        signal: AbortSignal.timeout(COURIER_TIMEOUT_MS)
+      })
+    } catch (error) {
+      logger.error(`Courier request ${path} failed:`, error)
+      throw new ProductionError('Courier could not be reached. Please try again.', ErrorCodes.NETWORK_ERROR, 502)
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      logger.error(`Courier request ${path} returned ${response.status}:`, detail.slice(0, 500))
+      throw new ProductionError(
+        response.status === 422 || response.status === 400
+          ? 'Courier rejected the shipment details'
+          : 'Courier request failed. Please try again.',
+        response.status === 422 || response.status === 400 ? ErrorCodes.VALIDATION_ERROR : ErrorCodes.NETWORK_ERROR,
+        502
+      )
+    }
+    return response
+  }
+
+  return {
+    name: 'local',
+    carrier,
+
+    async createShipment(shipment) {
+      const response = await request('/shipments', {
+        method: 'POST',
+        body: JSON.stringify({
+          reference: shipment.reference,
+          order_number: shipment.orderNumber,
+          sender: shipment.sender,
+          recipient: shipment.recipient,
+          parcels: shipment.parcels.map(parcel => ({
+            weight_kg: parcel.weightKg,
+            length_cm: parcel.lengthCm,
+            width_cm: parcel.widthCm,
+            height_cm: parcel.heightCm
+          })),
+          description: shipment.description
+        })
+      })
+      const data = await response.json()
+      if (!data?.id || !data?.tracking_number) {
+        throw new ProductionError('Courier did not return a tracking number', ErrorCodes.NETWORK_ERROR, 502)
+      }
+      return {
+        trackingNumber: String(data.tracking_number),
+        providerReference: String(data.id),
+        trackingUrl: data.tracking_url || null,
+        estimatedDelivery: data.estimated_delivery || null
+      }
+    },
+
+    async getLabel(shipment) {
+      const response = await request(`/shipments/${encodeURIComponent(shipment.providerReference)}/label`, {
+        headers: { Accept: 'application/pdf' }
+      })
+      return {
+        filename: `label-${shipment.trackingNumber}.pdf`,
+        contentType: response.headers.get('content-type') || 'application/pdf',
+        data: Buffer.from(await response.arrayBuffer())
+      }
+    },
+
+    async cancelShipment(providerReference) {
+      await request(`/shipments/${encodeURIComponent(providerReference)}/cancel`, { method: 'POST' })
+    },
+
+    async getTrackingStatus(providerReference) {
+      const response = await request(`/shipments/${encodeURIComponent(providerReference)}/tracking`)
+      const data = await response.json()
+      const status = normalizeCourierStatus(data?.status)
+      if (!status) return null
+      return {
+        trackingNumber: String(data.tracking_number ?? ''),
+        status,
+        occurredAt: data.updated_at ? new Date(data.updated_at).toISOString() : new Date().toISOString(),
+        location: data.location || null,
+        description: data.description || null
+      }
+    },
+
+    parseWebhook(rawBody, headers) {
+      if (!webhookSecret) {
+        throw new ProductionError('Courier webhooks are not configured', ErrorCodes.SERVER_ERROR, 503)
+      }
+      if (!verifySignature(rawBody, headers.get('x-courier-signature'), webhookSecret)) {
+        throw new ProductionError('Invalid webhook signature', ErrorCodes.UNAUTHORIZED, 401)
+      }
+      return parseTrackingEvents(rawBody)
+    }
+  }
+}
+
+/**
+ * Local mock courier for development and testing
+ * Books everything with a MOCK- tracking number and keeps status in memory. Post events for it to
+ * /api/webhooks/courier/mock without a signature; recipients named "FAIL" are rejected
+ */
+export function createMockCourierProvider(): CourierProvider {
+  const shipments = new Map<string, { trackingNumber: string; status: CourierTrackingStatus; updatedAt: string }>()
+
+  return {
+    name: 'mock',
+    carrier: 'Mock Courier',
+
+    async createShipment(shipment) {
+      if (shipment.recipient.name.toUpperCase().includes('FAIL')) {
+        throw new ProductionError('Mock courier rejected the recipient', ErrorCodes.VALIDATION_ERROR, 502)
+      }
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+      const trackingNumber = `MOCK-${date}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`
+      shipments.set(trackingNumber, { trackingNumber, status: 'booked', updatedAt: new Date().toISOString() })
+      logger.log(`📦 [mock courier] ${shipment.reference}: ${trackingNumber} -> ${shipment.recipient.name}`)
+      return {
+        trackingNumber,
+        providerReference: trackingNumber,
+        trackingUrl: null,
+        estimatedDelivery: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString()
+      }
+    },
+
+    async getLabel(shipment) {
+      return renderCourierLabel('Mock Courier', shipment)
+    },
+
+    async cancelShipment(providerReference) {
+      const shipment = shipments.get(providerReference)
+      if (shipment) shipments.set(providerReference, { ...shipment, status: 'cancelled', updatedAt: new Date().toISOString() })
+    },
+
+    async getTrackingStatus(providerReference) {
+      const shipment = shipments.get(providerReference)
+      if (!shipment) return null
+      return {
+        trackingNumber: shipment.trackingNumber,
+        status: shipment.status,
+        occurredAt: shipment.updatedAt,
+        location: null,
+        description: null
+      }
+    },
+
+    parseWebhook(rawBody) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new ProductionError('Mock courier webhooks are disabled in production', ErrorCodes.FORBIDDEN, 403)
+      }
+      const updates = parseTrackingEvents(rawBody)
+      for (const update of updates) {
+        shipments.set(update.trackingNumber, { trackingNumber: update.trackingNumber, status: update.status, updatedAt: update.occurredAt })
+      }
+      return updates
+    }
+  }
+}
+
+let mockCourierProvider: CourierProvider | null = null
+
+export function getCourierProvider(name: string | undefined = process.env.COURIER_PROVIDER): CourierProvider {
+  const providerName = (name || (process.env.NODE_ENV === 'production' ? 'local' : 'mock')).toLowerCase()
+  if (providerName === 'local') return createLocalCourierProvider()
+  // One mock for the process, so its bookings survive between requests
+  mockCourierProvider = mockCourierProvider || createMockCourierProvider()
+  return mockCourierProvider
+}
+
+export function isCourierProviderName(name: string): boolean {
+  return name === 'local' || name === 'mock'
+}
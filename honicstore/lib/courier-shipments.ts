@@ -0,0 +1,614 @@
+/**
+ * Courier shipments
+ * A supplier books a courier for their part of a confirmed order: one courier_shipments row per
+ * booking, covering the supplier's items that have not shipped yet. The carrier's tracking number
+ * goes on those items, replacing anything typed in by hand.
+ *
+ * Tracking updates (pushed by the carrier's webhook, or polled when the supplier opens the
+ * shipment) move the items along: collected or in transit marks them shipped and emails the buyer,
+ * delivered marks them delivered. For pickup orders the courier delivers to the buyer's pickup
+ * point, where the parcel then waits for collection.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes } from './error-handler'
+import { recordOrderEvents } from './order-events'
+import { getPickupPoint, markPickupReadyIfArrived } from './pickup-points'
+import { resolveLinePackage, toDispatchLocation } from './shipping-packages'
+import { sendDeliveryConfirmationEmail, sendShippingNotificationEmail } from './user-email-service'
+import { awardCoinsIfDelivered } from './loyalty-coins'
+import { buildUrl } from './url-utils'
+import type {
+  CourierAddress,
+  CourierLabel,
+  CourierParcel,
+  CourierProvider,
+  CourierShipmentRequest,
+  CourierTrackingStatus,
+  CourierTrackingUpdate
+} from './courier-providers'
+
+const SHIPMENTS_TABLE = 'courier_shipments'
+
+// Carriers need a weight; items without a package go as light parcels and the courier reweighs them
+const DEFAULT_PARCEL_WEIGHT_KG = 0.5
+
+// Bookings that still hold the items; anything else lets the supplier book again
+const OPEN_STATUSES: CourierTrackingStatus[] = ['booked', 'collected', 'in_transit', 'out_for_delivery', 'failed']
+
+// Tracking only moves forward; a late "in transit" after "delivered" is ignored
+const STATUS_RANK: Record<CourierTrackingStatus, number> = {
+  booked: 0,
+  collected: 1,
+  in_transit: 2,
+  out_for_delivery: 3,
+  failed: 3,
+  delivered: 4,
+  returned: 4,
+  cancelled: 4
+}
+
+const SHIPPED_STATUSES: CourierTrackingStatus[] = ['collected', 'in_transit', 'out_for_delivery', 'failed']
+
+export interface CourierShipment {
+  id: string
+  order_id: string
+  confirmed_order_id: string
+  order_number: string
+  supplier_id: string
+  provider: string
+  carrier: string
+  reference: string
+  tracking_number: string
+  provider_reference: string
+  tracking_url: string | null
+  estimated_delivery: string | null
+  status: CourierTrackingStatus
+  item_ids: string[]
+  sender: CourierAddress
+  recipient: CourierAddress
+  parcels: CourierParcel[]
+  description: string
+  last_event_at: string | null
+  last_location: string | null
+  cancelled_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function toShipmentRequest(shipment: CourierShipment): CourierShipmentRequest & {
+  trackingNumber: string
+  providerReference: string
+  trackingUrl: string | null
+  estimatedDelivery: string | null
+} {
+  return {
+    reference: shipment.reference,
+    orderNumber: shipment.order_number,
+    sender: shipment.sender,
+    recipient: shipment.recipient,
+    parcels: shipment.parcels,
+    description: shipment.description,
+    trackingNumber: shipment.tracking_number,
+    providerReference: shipment.provider_reference,
+    trackingUrl: shipment.tracking_url,
+    estimatedDelivery: shipment.estimated_delivery
+  }
+}
+
+async function getSupplierProductIds(supabase: SupabaseClient, supplierId: string): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('products')
+    .select('id')
+    .or(`user_id.eq.${supplierId},supplier_id.eq.${supplierId}`)
+
+  if (error) {
+    logger.error('Error loading supplier products for courier booking:', error)
+    throw new ProductionError('Failed to load your products', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (data || []).map(product => product.id)
+}
+
+// Pickup orders go to the buyer's pickup point; store pickup without one needs no courier
+async function resolveRecipient(supabase: SupabaseClient, confirmedOrder: Record<string, any>): Promise<CourierAddress> {
+  if (confirmedOrder.delivery_option === 'pickup') {
+    const { data: order } = await supabase
+      .from('orders')
+      .select('pickup_point_id')
+      .eq('id', confirmedOrder.order_id)
+      .maybeSingle()
+
+    if (!order?.pickup_point_id) {
+      throw new ProductionError('This order is collected at the Honic store, so it does not need a courier', ErrorCodes.VALIDATION_ERROR, 409)
+    }
+    const point = await getPickupPoint(supabase, order.pickup_point_id)
+    return {
+      name: point.name,
+      phone: point.phone,
+      address: point.address,
+      ward: point.ward,
+      district: point.district,
+      region: point.region,
+      lat: point.lat,
+      lon: point.lon
+    }
+  }
+
+  const address = confirmedOrder.shipping_address || {}
+  const name = text(address.fullName) || text(address.full_name)
+  if (!name || !text(address.region) && !text(address.city)) {
+    throw new ProductionError('The order has no complete shipping address', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  const lat = Number(address.lat)
+  const lon = Number(address.lon)
+  return {
+    name,
+    phone: text(address.phone),
+    address: [text(address.address1), text(address.streetName), text(address.address2)].filter(Boolean).join(', ') || null,
+    ward: text(address.ward),
+    district: text(address.district),
+    region: text(address.region) || text(address.city),
+    lat: address.lat != null && Number.isFinite(lat) ? lat : null,
+    lon: address.lon != null && Number.isFinite(lon) ? lon : null
+  }
+}
+
+async function resolveSender(supabase: SupabaseClient, supplierId: string): Promise<CourierAddress> {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('company_name, full_name, office_number, phone, dispatch_region, dispatch_district, dispatch_ward, dispatch_address, dispatch_lat, dispatch_lon')
+    .eq('id', supplierId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading supplier profile for courier booking:', error)
+    throw new ProductionError('Failed to load your dispatch location', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  const location = toDispatchLocation(profile)
+  if (!location) {
+    throw new ProductionError('Set your dispatch location on Company Info before booking a courier', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  return {
+    name: profile?.company_name || profile?.full_name || 'Honic supplier',
+    phone: profile?.office_number || profile?.phone || null,
+    ...location
+  }
+}
+
+async function buildParcels(supabase: SupabaseClient, items: Array<Record<string, any>>): Promise<CourierParcel[]> {
+  const productIds = [...new Set(items.map(item => item.product_id))]
+  const variantIds = [...new Set(items.map(item => item.variant_id).filter(Boolean))]
+
+  const [{ data: products }, { data: variants }] = await Promise.all([
+    supabase.from('products').select('id, shipping_package').in('id', productIds),
+    variantIds.length > 0
+      ? supabase.from('product_variants').select('id, shipping_package').in('id', variantIds)
+      : Promise.resolve({ data: [] as Array<Record<string, any>> })
+  ])
+  const productMap = new Map((products || []).map(product => [product.id, product]))
+  const variantMap = new Map((variants || []).map(variant => [variant.id, variant]))
+
+  return items.map(item => {
+    const pkg = resolveLinePackage(productMap.get(item.product_id) || {}, item.variant_id ? variantMap.get(item.variant_id) : null)
+    const quantity = Math.max(1, Number(item.quantity) || 1)
+    return {
+      weightKg: Math.round((pkg?.weight_kg ?? DEFAULT_PARCEL_WEIGHT_KG) * quantity * 100) / 100,
+      lengthCm: pkg?.length_cm ?? null,
+      widthCm: pkg?.width_cm ?? null,
+      // Units of one line are stacked in one parcel
+      heightCm: pkg?.height_cm != null ? pkg.height_cm * quantity : null
+    }
+  })
+}
+
+async function setItemTrackingNumbers(
+  supabase: SupabaseClient,
+  shipment: Pick<CourierShipment, 'order_id' | 'item_ids'>,
+  trackingNumber: string | null
+): Promise<void> {
+  const { data: items, error } = await supabase
+    .from('confirmed_order_items')
+    .update({ tracking_number: trackingNumber })
+    .in('id', shipment.item_ids)
+    .select('product_id')
+
+  if (error) {
+    logger.error('Error updating item tracking numbers:', error)
+    return
+  }
+  const productIds = [...new Set((items || []).map(item => item.product_id))]
+  if (productIds.length === 0) return
+
+  const { error: orderItemsError } = await supabase
+    .from('order_items')
+    .update({ tracking_number: trackingNumber })
+    .eq('order_id', shipment.order_id)
+    .in('product_id', productIds)
+
+  if (orderItemsError) {
+    logger.warn('Failed to update order_items tracking number:', orderItemsError)
+  }
+}
+
+/**
+ * Book the courier for the supplier's unshipped items in a confirmed order
+ */
+export async function createCourierShipment(
+  supabase: SupabaseClient,
+  provider: CourierProvider,
+  input: { confirmedOrderId: string; supplierId: string; actorId?: string | null }
+): Promise<CourierShipment> {
+  const { data: confirmedOrder, error: orderError } = await supabase
+    .from('confirmed_orders')
+    .select('id, order_id, order_number, delivery_option, shipping_address')
+    .eq('id', input.confirmedOrderId)
+    .maybeSingle()
+
+  if (orderError) {
+    logger.error('Error loading order for courier booking:', orderError)
+    throw new ProductionError('Failed to load order', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!confirmedOrder) {
+    throw new ProductionError('Order not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const productIds = await getSupplierProductIds(supabase, input.supplierId)
+  const { data: items, error: itemsError } = productIds.length > 0
+    ? await supabase
+      .from('confirmed_order_items')
+      .select('id, product_id, variant_id, product_name, quantity, status')
+      .eq('confirmed_order_id', confirmedOrder.id)
+      .in('product_id', productIds)
+      .eq('status', 'confirmed')
+    : { data: [], error: null }
+
+  if (itemsError) {
+    logger.error('Error loading items for courier booking:', itemsError)
+    throw new ProductionError('Failed to load order items', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!items || items.length === 0) {
+    throw new ProductionError('None of your items in this order are waiting to ship', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: existing } = await supabase
+    .from(SHIPMENTS_TABLE)
+    .select('id, tracking_number')
+    .eq('confirmed_order_id', confirmedOrder.id)
+    .eq('supplier_id', input.supplierId)
+    .in('status', OPEN_STATUSES)
+    .limit(1)
+
+  if (existing && existing.length > 0) {
+    throw new ProductionError(
+      `This order is already booked with the courier (${existing[0].tracking_number}). Cancel that booking to book again.`,
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+
+  const [sender, recipient, parcels] = await Promise.all([
+    resolveSender(supabase, input.supplierId),
+    resolveRecipient(supabase, confirmedOrder),
+    buildParcels(supabase, items)
+  ])
+  const request: CourierShipmentRequest = {
+    reference: `${confirmedOrder.order_number}-${input.supplierId.slice(0, 8)}-${Date.now().toString(36)}`.toUpperCase(),
+    orderNumber: confirmedOrder.order_number,
+    sender,
+    recipient,
+    parcels,
+    description: items.map(item => `${item.quantity} x ${item.product_name}`).join(', ').slice(0, 300)
+  }
+
+  const booking = await provider.createShipment(request)
+
+  const { data: shipment, error: insertError } = await supabase
+    .from(SHIPMENTS_TABLE)
+    .insert({
+      order_id: confirmedOrder.order_id,
+      confirmed_order_id: confirmedOrder.id,
+      order_number: confirmedOrder.order_number,
+      supplier_id: input.supplierId,
+      provider: provider.name,
+      carrier: provider.carrier,
+      reference: request.reference,
+      tracking_number: booking.trackingNumber,
+      provider_reference: booking.providerReference,
+      tracking_url: booking.trackingUrl,
+      estimated_delivery: booking.estimatedDelivery,
+      status: 'booked',
+      item_ids: items.map(item => item.id),
+      sender,
+      recipient,
+      parcels,
+      description: request.description,
+      created_by: input.actorId ?? input.supplierId
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !shipment) {
+    // The carrier holds a booking we cannot track; release it rather than leave it orphaned
+    logger.error('Error saving courier shipment:', insertError)
+    await provider.cancelShipment(booking.providerReference).catch(cancelError => {
+      logger.error(`Failed to cancel orphaned courier booking ${booking.trackingNumber}:`, cancelError)
+    })
+    throw new ProductionError('Failed to save courier booking', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  await setItemTrackingNumbers(supabase, shipment, booking.trackingNumber)
+  logger.log(`📦 Courier booked for order ${confirmedOrder.order_number}: ${booking.trackingNumber} (${provider.name})`)
+  return shipment as CourierShipment
+}
+
+export async function getSupplierShipments(
+  supabase: SupabaseClient,
+  supplierId: string,
+  options: { confirmedOrderId?: string | null; limit?: number } = {}
+): Promise<CourierShipment[]> {
+  let query = supabase
+    .from(SHIPMENTS_TABLE)
+    .select('*')
+    .eq('supplier_id', supplierId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100)
+
+  if (options.confirmedOrderId) {
+    query = query.eq('confirmed_order_id', options.confirmedOrderId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    logger.error('Error loading courier shipments:', error)
+    throw new ProductionError('Failed to load shipments', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (data || []) as CourierShipment[]
+}
+
+export async function getSupplierShipment(supabase: SupabaseClient, supplierId: string, shipmentId: string): Promise<CourierShipment> {
+  const { data, error } = await supabase
+    .from(SHIPMENTS_TABLE)
+    .select('*')
+    .eq('id', shipmentId)
+    .eq('supplier_id', supplierId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading courier shipment:', error)
+    throw new ProductionError('Failed to load shipment', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('Shipment not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return data as CourierShipment
+}
+
+export async function getShipmentLabel(provider: CourierProvider, shipment: CourierShipment): Promise<CourierLabel> {
+  if (shipment.status === 'cancelled') {
+    throw new ProductionError('This booking was cancelled', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  return provider.getLabel(toShipmentRequest(shipment))
+}
+
+/**
+ * Cancel a booking the courier has not collected yet; the items can then be booked again or
+ * shipped by hand
+ */
+export async function cancelCourierShipment(
+  supabase: SupabaseClient,
+  provider: CourierProvider,
+  shipment: CourierShipment
+): Promise<CourierShipment> {
+  if (shipment.status !== 'booked') {
+    throw new ProductionError(
+      shipment.status === 'cancelled'
+        ? 'This booking is already cancelled'
+        : 'The courier has already collected this shipment',
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+
+  await provider.cancelShipment(shipment.provider_reference)
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from(SHIPMENTS_TABLE)
+    .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+    .eq('id', shipment.id)
+    .eq('status', 'booked')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error cancelling courier shipment:', error)
+    throw new ProductionError('Failed to cancel shipment', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('The courier has already collected this shipment', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  await setItemTrackingNumbers(supabase, shipment, null)
+  return data as CourierShipment
+}
+
+// Signed-in buyers by their account email, guests by the email they gave at checkout
+async function getBuyerContact(supabase: SupabaseClient, orderId: string): Promise<{ email: string | null; shippingAddress: any }> {
+  const { data: order } = await supabase
+    .from('orders')
+    .select('user_id, shipping_address, billing_address')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (!order) return { email: null, shippingAddress: null }
+  let email: string | null = null
+  if (order.user_id) {
+    const { data: { user } } = await supabase.auth.admin.getUserById(order.user_id)
+    email = user?.email || null
+  }
+  return {
+    email: email || order.billing_address?.email || order.shipping_address?.email || null,
+    shippingAddress: order.shipping_address
+  }
+}
+
+async function notifyBuyer(supabase: SupabaseClient, shipment: CourierShipment, status: 'shipped' | 'delivered', items: Array<Record<string, any>>): Promise<void> {
+  try {
+    const { email, shippingAddress } = await getBuyerContact(supabase, shipment.order_id)
+    if (!email) return
+
+    const emailItems = items.map(item => ({ name: item.product_name, quantity: item.quantity }))
+    if (status === 'shipped') {
+      await sendShippingNotificationEmail(email, {
+        orderNumber: shipment.order_number,
+        trackingNumber: shipment.tracking_number,
+        carrier: shipment.carrier,
+        trackingUrl: shipment.tracking_url || buildUrl(`/account/orders/${shipment.order_number}`),
+        estimatedDelivery: shipment.estimated_delivery
+          ? new Date(shipment.estimated_delivery).toLocaleDateString()
+          : 'We will let you know when it arrives',
+        shippingAddress: shippingAddress || shipment.recipient,
+        items: emailItems
+      })
+    } else {
+      await sendDeliveryConfirmationEmail(email, {
+        orderNumber: shipment.order_number,
+        deliveryDate: new Date().toLocaleDateString(),
+        items: emailItems,
+        reviewUrl: buildUrl(`/account/orders/${shipment.order_number}/review`)
+      })
+    }
+  } catch (error) {
+    // The status change stands even if the email does not go out
+    logger.error(`Error emailing buyer about shipment ${shipment.tracking_number}:`, error)
+  }
+}
+
+/**
+ * Apply one tracking update from the carrier. Repeated and out-of-order events are ignored, so
+ * webhooks can be retried safely.
+ * @returns whether the shipment moved to a new status
+ */
+export async function applyTrackingUpdate(
+  supabase: SupabaseClient,
+  provider: CourierProvider,
+  update: CourierTrackingUpdate
+): Promise<boolean> {
+  const { data: shipment, error } = await supabase
+    .from(SHIPMENTS_TABLE)
+    .select('*')
+    .eq('provider', provider.name)
+    .eq('tracking_number', update.trackingNumber)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading shipment for tracking update:', error)
+    throw new ProductionError('Failed to load shipment', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!shipment) {
+    logger.warn(`Tracking update for unknown ${provider.name} shipment ${update.trackingNumber}`)
+    return false
+  }
+
+  const current = shipment.status as CourierTrackingStatus
+  if (update.status === current || !OPEN_STATUSES.includes(current) || STATUS_RANK[update.status] < STATUS_RANK[current]) {
+    return false
+  }
+
+  const { data: moved, error: updateError } = await supabase
+    .from(SHIPMENTS_TABLE)
+    .update({
+      status: update.status,
+      last_event_at: update.occurredAt,
+      last_location: update.location,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', shipment.id)
+    .eq('status', current)
+    .select('*')
+    .maybeSingle()
+
+  if (updateError) {
+    logger.error('Error saving tracking update:', updateError)
+    throw new ProductionError('Failed to save tracking update', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  // Another delivery of the same event got there first
+  if (!moved) return false
+
+  const itemStatus = update.status === 'delivered' ? 'delivered' : SHIPPED_STATUSES.includes(update.status) ? 'shipped' : null
+  if (!itemStatus) {
+    logger.warn(`Shipment ${update.trackingNumber} is now ${update.status}`)
+    return true
+  }
+
+  const { data: updatedItems, error: itemsError } = await supabase
+    .from('confirmed_order_items')
+    .update({ status: itemStatus })
+    .in('id', shipment.item_ids)
+    .in('status', itemStatus === 'delivered' ? ['confirmed', 'shipped'] : ['confirmed'])
+    .select('id, product_name, quantity')
+
+  if (itemsError) {
+    logger.error('Error updating item status from tracking:', itemsError)
+    throw new ProductionError('Failed to update items', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!updatedItems || updatedItems.length === 0) return true
+
+  const note = [update.location, update.description].filter(Boolean).join(' - ') || `${shipment.carrier} ${shipment.tracking_number}`
+  await recordOrderEvents(supabase, updatedItems.map(item => ({
+    order_id: shipment.order_id,
+    order_number: shipment.order_number,
+    confirmed_order_item_id: item.id,
+    supplier_id: shipment.supplier_id,
+    status: itemStatus,
+    actor_role: 'courier' as const,
+    source: 'courier_tracking',
+    note: note.slice(0, 500)
+  })))
+
+  if (itemStatus === 'shipped') {
+    await notifyBuyer(supabase, moved as CourierShipment, 'shipped', updatedItems)
+    return true
+  }
+
+  const { data: confirmedOrder } = await supabase
+    .from('confirmed_orders')
+    .select('delivery_option')
+    .eq('id', shipment.confirmed_order_id)
+    .maybeSingle()
+
+  if (confirmedOrder?.delivery_option === 'pickup') {
+    // At the pickup point: the order page shows it waiting, reminders follow if it is not collected
+    await markPickupReadyIfArrived(supabase, shipment.confirmed_order_id, shipment.order_id)
+  } else {
+    await notifyBuyer(supabase, moved as CourierShipment, 'delivered', updatedItems)
+    await awardCoinsIfDelivered(supabase, shipment.confirmed_order_id, shipment.order_id)
+  }
+  return true
+}
+
+/**
+ * Ask the carrier for the latest status and apply it; for carriers whose webhooks are late or lost
+ */
+export async function refreshShipmentTracking(
+  supabase: SupabaseClient,
+  provider: CourierProvider,
+  shipment: CourierShipment
+): Promise<CourierShipment> {
+  if (!OPEN_STATUSES.includes(shipment.status)) return shipment
+
+  const update = await provider.getTrackingStatus(shipment.provider_reference).catch(error => {
+    logger.warn(`Could not refresh tracking for ${shipment.tracking_number}:`, error)
+    return null
+  })
+  if (!update) return shipment
+
+  const moved = await applyTrackingUpdate(supabase, provider, { ...update, trackingNumber: shipment.tracking_number })
+  return moved ? getSupplierShipment(supabase, shipment.supplier_id, shipment.id) : shipment
+}
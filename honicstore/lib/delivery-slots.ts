@@ -0,0 +1,485 @@
+/**
+ * Same-day delivery slots
+ * Products flagged same_day_delivery can be delivered the day they are ordered inside the areas
+ * the store covers (Dar es Salaam to start with). Each slot is a delivery window such as morning,
+ * afternoon or evening, with an order cutoff and a capacity: it is offered at checkout until its
+ * cutoff (East Africa Time) or until capacity orders placed that day hold it, whichever comes
+ * first. A slot covers its whole region, or only the wards it lists.
+ *
+ * Checkout offers slots only when every line in the cart is same-day eligible and in stock, after
+ * other buyers' stock holds. The chosen slot is optional; without one the order ships as standard
+ * delivery. Orders are inserted with their slot and the slot recounted afterwards, so two checkouts
+ * racing for the last place cannot both keep it.
+ *
+ * Order slot fields: delivery_slot_id, delivery_slot_date (EAT day, YYYY-MM-DD),
+ * delivery_slot_label (e.g. "Afternoon 12:00-16:00", kept so later edits to the slot do not
+ * rewrite what the buyer was promised)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { normalizeLocationKey } from './shipping-calculator'
+import { WARDS_BY_DISTRICT } from './tanzania-address'
+import { findStockShortfall } from './stock-holds'
+
+const SLOTS_TABLE = 'delivery_slots'
+
+export const DEFAULT_SLOT_REGION = 'Dar es Salaam'
+export const MAX_SLOT_CAPACITY = 1000
+export const MAX_SLOT_WARDS = 200
+
+// Cutoffs and "today" are in East Africa Time, which has no daylight saving
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000
+
+// Orders that no longer hold a slot
+const RELEASED_ORDER_STATUSES = ['cancelled', 'expired', 'payment_failed']
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export interface DeliverySlot {
+  id: number
+  name: string
+  // "HH:MM", 24-hour, East Africa Time
+  start_time: string
+  end_time: string
+  cutoff_time: string
+  capacity: number
+  region: string
+  // Empty covers the whole region
+  wards: string[]
+  is_active: boolean
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+export interface DeliverySlotInput {
+  name?: string
+  startTime?: string
+  endTime?: string
+  cutoffTime?: string
+  capacity?: number
+  region?: string
+  wards?: string[]
+  isActive?: boolean
+  sortOrder?: number
+}
+
+export interface DeliverySlotOption {
+  id: number
+  name: string
+  label: string
+  date: string
+  startTime: string
+  endTime: string
+  cutoffTime: string
+  remaining: number
+  isFull: boolean
+}
+
+export interface DeliverySlotLine {
+  productId: number
+  quantity: number
+  // Variant value the line takes stock from, as the stock holds match it
+  variantName?: string | null
+}
+
+export type SameDayIneligibleReason = 'not_same_day' | 'out_of_stock'
+
+export interface SameDayEligibility {
+  eligible: boolean
+  // First line that keeps the cart out of same-day delivery
+  reason: SameDayIneligibleReason | null
+  productName: string | null
+}
+
+export interface DeliverySlotAvailability {
+  // Slots exist for the buyer's area
+  covered: boolean
+  eligibility: SameDayEligibility
+  date: string
+  slots: DeliverySlotOption[]
+}
+
+function cleanText(value: unknown, max: number): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ').slice(0, max) : null
+}
+
+function eatDate(now: Date): Date {
+  return new Date(now.getTime() + EAT_OFFSET_MS)
+}
+
+/**
+ * Today's date in East Africa Time, YYYY-MM-DD
+ */
+export function deliverySlotDate(now: Date = new Date()): string {
+  return eatDate(now).toISOString().slice(0, 10)
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function minutesNow(now: Date): number {
+  const local = eatDate(now)
+  return local.getUTCHours() * 60 + local.getUTCMinutes()
+}
+
+export function formatDeliverySlot(slot: Pick<DeliverySlot, 'name' | 'start_time' | 'end_time'>): string {
+  return `${slot.name} ${slot.start_time}-${slot.end_time}`
+}
+
+function parseTime(value: unknown, field: string, label: string): string {
+  const time = typeof value === 'string' ? value.trim() : ''
+  if (!TIME_PATTERN.test(time)) throw createValidationError(`${label} must be HH:MM`, field)
+  return time
+}
+
+export function normalizeDeliverySlotInput(body: Record<string, any>): DeliverySlotInput {
+  const input: DeliverySlotInput = {}
+
+  if (body.name !== undefined) {
+    const name = cleanText(body.name, 50)
+    if (!name) throw createValidationError('Name is required', 'name')
+    input.name = name
+  }
+  if (body.startTime !== undefined) input.startTime = parseTime(body.startTime, 'startTime', 'Start time')
+  if (body.endTime !== undefined) input.endTime = parseTime(body.endTime, 'endTime', 'End time')
+  if (body.cutoffTime !== undefined) input.cutoffTime = parseTime(body.cutoffTime, 'cutoffTime', 'Cutoff time')
+  if (body.capacity !== undefined) {
+    const capacity = Number(body.capacity)
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_SLOT_CAPACITY) {
+      throw createValidationError(`Capacity must be a whole number from 1 to ${MAX_SLOT_CAPACITY}`, 'capacity')
+    }
+    input.capacity = capacity
+  }
+  if (body.region !== undefined) {
+    const region = cleanText(body.region, 100)
+    if (!region) throw createValidationError('Region is required', 'region')
+    input.region = region
+  }
+  if (body.wards !== undefined) {
+    if (!Array.isArray(body.wards) || body.wards.length > MAX_SLOT_WARDS ||
+        body.wards.some((ward: unknown) => !cleanText(ward, 100))) {
+      throw createValidationError(`Wards must be a list of up to ${MAX_SLOT_WARDS} ward names`, 'wards')
+    }
+    input.wards = [...new Set<string>(body.wards.map((ward: string) => cleanText(ward, 100) as string))]
+  }
+  if (body.isActive !== undefined) input.isActive = body.isActive === true
+  if (body.sortOrder !== undefined) {
+    const sortOrder = Number(body.sortOrder)
+    if (!Number.isInteger(sortOrder)) throw createValidationError('Sort order must be a whole number', 'sortOrder')
+    input.sortOrder = sortOrder
+  }
+  return input
+}
+
+/**
+ * The window must be in order and the cutoff no later than the window opens
+ */
+function assertSlotTimes(slot: { start_time: string; end_time: string; cutoff_time: string }) {
+  if (toMinutes(slot.end_time) <= toMinutes(slot.start_time)) {
+    throw createValidationError('End time must be after start time', 'endTime')
+  }
+  if (toMinutes(slot.cutoff_time) > toMinutes(slot.start_time)) {
+    throw createValidationError('Cutoff time must be no later than the start time', 'cutoffTime')
+  }
+}
+
+function toDeliverySlotRow(input: DeliverySlotInput): Record<string, any> {
+  const row: Record<string, any> = {}
+  if (input.name !== undefined) row.name = input.name
+  if (input.startTime !== undefined) row.start_time = input.startTime
+  if (input.endTime !== undefined) row.end_time = input.endTime
+  if (input.cutoffTime !== undefined) row.cutoff_time = input.cutoffTime
+  if (input.capacity !== undefined) row.capacity = input.capacity
+  if (input.region !== undefined) row.region = input.region
+  if (input.wards !== undefined) row.wards = input.wards
+  if (input.isActive !== undefined) row.is_active = input.isActive
+  if (input.sortOrder !== undefined) row.sort_order = input.sortOrder
+  return row
+}
+
+export async function getDeliverySlots(
+  supabase: SupabaseClient,
+  options: { activeOnly?: boolean } = {}
+): Promise<DeliverySlot[]> {
+  let query = supabase.from(SLOTS_TABLE).select('*').order('sort_order').order('start_time')
+  if (options.activeOnly) query = query.eq('is_active', true)
+
+  const { data, error } = await query
+  if (error) {
+    logger.error('Error loading delivery slots:', error)
+    throw new ProductionError('Failed to load delivery slots', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (data || []) as DeliverySlot[]
+}
+
+export async function getDeliverySlot(supabase: SupabaseClient, slotId: number): Promise<DeliverySlot> {
+  const { data, error } = await supabase
+    .from(SLOTS_TABLE)
+    .select('*')
+    .eq('id', slotId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading delivery slot:', error)
+    throw new ProductionError('Failed to load delivery slot', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('Delivery slot not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return data as DeliverySlot
+}
+
+export async function createDeliverySlot(supabase: SupabaseClient, input: DeliverySlotInput): Promise<DeliverySlot> {
+  if (!input.name) throw createValidationError('Name is required', 'name')
+  if (!input.startTime) throw createValidationError('Start time is required', 'startTime')
+  if (!input.endTime) throw createValidationError('End time is required', 'endTime')
+  if (!input.cutoffTime) throw createValidationError('Cutoff time is required', 'cutoffTime')
+  if (!input.capacity) throw createValidationError('Capacity is required', 'capacity')
+  assertSlotTimes({ start_time: input.startTime, end_time: input.endTime, cutoff_time: input.cutoffTime })
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from(SLOTS_TABLE)
+    .insert({
+      region: DEFAULT_SLOT_REGION,
+      wards: [],
+      is_active: true,
+      sort_order: 0,
+      ...toDeliverySlotRow(input),
+      created_at: now,
+      updated_at: now
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    logger.error('Error creating delivery slot:', error)
+    throw new ProductionError('Failed to create delivery slot', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return data as DeliverySlot
+}
+
+export async function updateDeliverySlot(
+  supabase: SupabaseClient,
+  slotId: number,
+  input: DeliverySlotInput
+): Promise<DeliverySlot> {
+  const existing = await getDeliverySlot(supabase, slotId)
+  const row = toDeliverySlotRow(input)
+  assertSlotTimes({ ...existing, ...row })
+
+  const { data, error } = await supabase
+    .from(SLOTS_TABLE)
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq('id', slotId)
+    .select('*')
+    .single()
+
+  if (error) {
+    logger.error('Error updating delivery slot:', error)
+    throw new ProductionError('Failed to update delivery slot', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return data as DeliverySlot
+}
+
+/**
+ * Orders that still hold each slot for the given day
+ */
+export async function getDeliverySlotLoad(
+  supabase: SupabaseClient,
+  slotIds: number[],
+  date: string
+): Promise<Map<number, number>> {
+  const load = new Map<number, number>()
+  if (slotIds.length === 0) return load
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select('delivery_slot_id')
+    .in('delivery_slot_id', slotIds)
+    .eq('delivery_slot_date', date)
+    .not('status', 'in', `(${RELEASED_ORDER_STATUSES.join(',')})`)
+
+  if (error) {
+    logger.error('Error counting delivery slot load:', error)
+    throw new ProductionError('Failed to check delivery slot capacity', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  for (const row of data || []) {
+    load.set(row.delivery_slot_id, (load.get(row.delivery_slot_id) || 0) + 1)
+  }
+  return load
+}
+
+/**
+ * Whether a slot delivers to the buyer's address. A ward given without a district still matches;
+ * the ward list is checked against the ward names the address form offers.
+ */
+function slotCoversArea(slot: DeliverySlot, area: { region?: string | null; district?: string | null; ward?: string | null }): boolean {
+  const region = cleanText(area.region, 100)
+  const ward = cleanText(area.ward, 100)
+  if (!region || normalizeLocationKey(region) !== normalizeLocationKey(slot.region)) return false
+  if (!slot.wards || slot.wards.length === 0) return true
+  if (!ward) return false
+
+  const wardKey = normalizeLocationKey(ward)
+  const district = cleanText(area.district, 100)
+  if (district && WARDS_BY_DISTRICT[district] &&
+      !WARDS_BY_DISTRICT[district].some(candidate => normalizeLocationKey(candidate) === wardKey)) {
+    return false
+  }
+  return slot.wards.some(candidate => normalizeLocationKey(candidate) === wardKey)
+}
+
+/**
+ * Every line must be a same-day product flagged in_stock, with enough product or variant stock left
+ * after active holds for the quantity asked; products that do not track stock only need the flag
+ */
+export async function checkSameDayEligibility(
+  supabase: SupabaseClient,
+  lines: DeliverySlotLine[]
+): Promise<SameDayEligibility> {
+  const valid = lines.filter(line =>
+    Number.isInteger(Number(line.productId)) && Number(line.productId) > 0 &&
+    Number.isInteger(Number(line.quantity)) && Number(line.quantity) > 0
+  )
+  if (valid.length === 0) {
+    return { eligible: false, reason: 'not_same_day', productName: null }
+  }
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id, name, same_day_delivery, in_stock')
+    .in('id', [...new Set(valid.map(line => Number(line.productId)))])
+
+  if (error) {
+    logger.error('Error checking same-day eligibility:', error)
+    throw new ProductionError('Failed to check same-day delivery', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  const products = new Map<number, any>((data || []).map((product: any) => [Number(product.id), product]))
+  for (const line of valid) {
+    const product = products.get(Number(line.productId))
+    if (!product || product.same_day_delivery !== true) {
+      return { eligible: false, reason: 'not_same_day', productName: product?.name || null }
+    }
+    if (!product.in_stock) {
+      return { eligible: false, reason: 'out_of_stock', productName: product.name || null }
+    }
+  }
+
+  const short = await findStockShortfall(supabase, valid.map(line => ({
+    product_id: Number(line.productId),
+    variant_name: line.variantName || null,
+    quantity: Number(line.quantity)
+  })))
+  if (short) {
+    return { eligible: false, reason: 'out_of_stock', productName: products.get(short.product_id)?.name || null }
+  }
+  return { eligible: true, reason: null, productName: null }
+}
+
+/**
+ * Today's slots for the buyer's address and cart. Slots past their cutoff are left out; full ones
+ * are listed so the buyer sees why they cannot be chosen.
+ */
+export async function getAvailableDeliverySlots(
+  supabase: SupabaseClient,
+  area: { region?: string | null; district?: string | null; ward?: string | null },
+  lines: DeliverySlotLine[],
+  now: Date = new Date()
+): Promise<DeliverySlotAvailability> {
+  const date = deliverySlotDate(now)
+  const covering = (await getDeliverySlots(supabase, { activeOnly: true })).filter(slot => slotCoversArea(slot, area))
+  if (covering.length === 0) {
+    return { covered: false, eligibility: { eligible: false, reason: null, productName: null }, date, slots: [] }
+  }
+
+  const eligibility = await checkSameDayEligibility(supabase, lines)
+  if (!eligibility.eligible) {
+    return { covered: true, eligibility, date, slots: [] }
+  }
+
+  const current = minutesNow(now)
+  const open = covering.filter(slot => current < toMinutes(slot.cutoff_time))
+  const load = await getDeliverySlotLoad(supabase, open.map(slot => slot.id), date)
+  const slots = open.map((slot): DeliverySlotOption => {
+    const remaining = Math.max(0, slot.capacity - (load.get(slot.id) || 0))
+    return {
+      id: slot.id,
+      name: slot.name,
+      label: formatDeliverySlot(slot),
+      date,
+      startTime: slot.start_time,
+      endTime: slot.end_time,
+      cutoffTime: slot.cutoff_time,
+      remaining,
+      isFull: remaining === 0
+    }
+  })
+  return { covered: true, eligibility, date, slots }
+}
+
+/**
+ * The slot an order is being placed for, if it still delivers to this address and cart today
+ */
+export async function assertDeliverySlotAvailable(
+  supabase: SupabaseClient,
+  slotId: number,
+  area: { region?: string | null; district?: string | null; ward?: string | null },
+  lines: DeliverySlotLine[],
+  now: Date = new Date()
+): Promise<{ slot: DeliverySlot; date: string; label: string }> {
+  const slot = await getDeliverySlot(supabase, slotId).catch(error => {
+    if (error instanceof ProductionError && error.statusCode === 404) {
+      throw createValidationError('Choose a delivery slot', 'deliverySlotId')
+    }
+    throw error
+  })
+  const label = formatDeliverySlot(slot)
+  if (!slot.is_active || !slotCoversArea(slot, area)) {
+    throw new ProductionError(`The ${label} slot does not deliver to this address, please choose standard delivery`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const eligibility = await checkSameDayEligibility(supabase, lines)
+  if (!eligibility.eligible) {
+    const product = eligibility.productName || 'An item in your cart'
+    throw new ProductionError(
+      eligibility.reason === 'out_of_stock'
+        ? `${product} is not in stock for same-day delivery, please choose standard delivery`
+        : `${product} is not available for same-day delivery, please choose standard delivery`,
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+
+  if (minutesNow(now) >= toMinutes(slot.cutoff_time)) {
+    throw new ProductionError(`Orders for the ${label} slot closed at ${slot.cutoff_time}, please choose another slot`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  const date = deliverySlotDate(now)
+  const load = await getDeliverySlotLoad(supabase, [slot.id], date)
+  if ((load.get(slot.id) || 0) >= slot.capacity) {
+    throw new ProductionError(`The ${label} slot is full for today, please choose another slot`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  return { slot, date, label }
+}
+
+/**
+ * Recount a slot once the order holding it has been inserted. Orders racing for the last place
+ * each see the other, so at worst both are refused, never both accepted; the caller removes its
+ * order on the 409.
+ */
+export async function confirmDeliverySlotCapacity(
+  supabase: SupabaseClient,
+  slot: Pick<DeliverySlot, 'id' | 'capacity'> & { label: string },
+  date: string
+): Promise<void> {
+  const load = await getDeliverySlotLoad(supabase, [slot.id], date)
+  if ((load.get(slot.id) || 0) > slot.capacity) {
+    throw new ProductionError(`The ${slot.label} slot is full for today, please choose another slot`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+}
@@ -4,6 +4,8 @@
  * Security-focused with proper validation
  */
 
+import { escapeHtml } from './security'
+
 export interface EmailTemplateOptions {
   companyName?: string
   companyLogo?: string
@@ -325,6 +327,8 @@ export function getOrderConfirmationTemplate(order: {
   items: Array<{ name: string; quantity: number; price: number; image?: string }>
   subtotal: number
   shipping: number
+  // Promotion, coupon and coin savings on the whole order
+  discount?: number
   tax: number
   total: number
   shippingAddress: any
@@ -332,6 +336,8 @@ export function getOrderConfirmationTemplate(order: {
   paymentMethod: string
   trackingUrl?: string
   invoiceUrl?: string
+  // Same-day delivery window the buyer booked, e.g. "Afternoon 12:00-16:00 on 2026-03-14"
+  deliverySlot?: string
 }, options: EmailTemplateOptions = {}): { html: string; text: string } {
   const itemsHtml = order.items.map(item => `
     <tr>
@@ -358,6 +364,13 @@ export function getOrderConfirmationTemplate(order: {
         <div class="info-box-content">Order Date: ${order.orderDate}</div>
       </div>
 
+      ${order.deliverySlot ? `
+        <div class="info-box">
+          <div class="info-box-title">${Icons.clock} Same-Day Delivery</div>
+          <div class="info-box-content">${order.deliverySlot}</div>
+        </div>
+      ` : ''}
+
       <h3 style="color: #111827; margin: 30px 0 15px 0;">Order Items</h3>
       <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px;">
         <thead>
@@ -382,6 +395,12 @@ export function getOrderConfirmationTemplate(order: {
             <td style="padding: 8px 0;">Shipping:</td>
             <td style="text-align: right; padding: 8px 0;">${order.shipping.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}</td>
           </tr>
+          ${order.discount && order.discount > 0 ? `
+          <tr>
+            <td style="padding: 8px 0;">Discount:</td>
+            <td style="text-align: right; padding: 8px 0;">-${order.discount.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}</td>
+          </tr>
+          ` : ''}
           ${order.tax > 0 ? `
           <tr>
             <td style="padding: 8px 0;">Tax:</td>
@@ -431,13 +450,13 @@ Thank you for your purchase! Your order has been confirmed.
 
 Order Number: ${order.orderNumber}
 Order Date: ${order.orderDate}
-
+${order.deliverySlot ? `Same-Day Delivery: ${order.deliverySlot}\n` : ''}
 Order Items:
 ${order.items.map(item => `- ${item.name} (Qty: ${item.quantity}) - ${(item.price * item.quantity).toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}`).join('\n')}
 
 Subtotal: ${order.subtotal.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}
 Shipping: ${order.shipping.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}
-${order.tax > 0 ? `Tax: ${order.tax.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}\n` : ''}Total: ${order.total.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}
+${order.discount && order.discount > 0 ? `Discount: -${order.discount.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}\n` : ''}${order.tax > 0 ? `Tax: ${order.tax.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}\n` : ''}Total: ${order.total.toLocaleString('en-US', { style: 'currency', currency: 'TZS' })}
 
 Shipping Address:
 ${order.shippingAddress.fullName || order.shippingAddress.name}
@@ -1507,7 +1526,7 @@ export function getPickupReminderTemplate(order: {
   const html = getBaseEmailTemplate(`
     <div class="email-content">
       <h2 style="color: #111827; margin-bottom: 20px;">${Icons.package} Your Order is Ready for Pickup!</h2>
-      <p>Your order is ready for pickup at our store.</p>
+      <p>Your order is waiting for you at the pickup point below.</p>
       
       <div class="info-box">
         <div class="info-box-title">${Icons.package} Order Number: ${order.orderNumber}</div>
@@ -1554,7 +1573,7 @@ export function getPickupReminderTemplate(order: {
   const text = `
 Your Order is Ready for Pickup!
 
-Your order is ready for pickup at our store.
+Your order is waiting for you at the pickup point below.
 
 Order Number: ${order.orderNumber}
 Pickup ID: ${order.pickupId}
@@ -1638,3 +1657,47 @@ If you're having trouble, please contact our support team for assistance.
 
 
 
+
+// New Message Email Template
+// Message text comes from another user, so it is escaped before it goes into the HTML
+export function getNewMessageTemplate(message: {
+  senderName: string
+  subject: string
+  preview: string
+  threadUrl: string
+}, options: EmailTemplateOptions = {}): { html: string; text: string } {
+  const html = getBaseEmailTemplate(`
+    <div class="email-content">
+      <h2 style="color: #111827; margin-bottom: 20px;">${Icons.mail} You Have a New Message</h2>
+      <p><strong>${escapeHtml(message.senderName)}</strong> sent you a message.</p>
+
+      <div class="info-box">
+        <div class="info-box-title">${escapeHtml(message.subject)}</div>
+        <div class="info-box-content" style="white-space: pre-wrap;">${escapeHtml(message.preview)}</div>
+      </div>
+
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${message.threadUrl}" class="email-button">Read and Reply</a>
+      </div>
+
+      <p style="color: #6b7280; font-size: 14px;">
+        For your safety, keep conversations and payments on ${options.companyName || 'Honic Company Store'}.
+      </p>
+    </div>
+  `, options)
+
+  const text = `
+You Have a New Message
+
+${message.senderName} sent you a message.
+
+${message.subject}
+${message.preview}
+
+Read and Reply: ${message.threadUrl}
+
+For your safety, keep conversations and payments on ${options.companyName || 'Honic Company Store'}.
+  `.trim()
+
+  return { html, text }
+}
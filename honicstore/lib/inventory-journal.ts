@@ -0,0 +1,94 @@
+/**
+ * Inventory journal
+ * One row per stock movement with the reason it happened, so a product's current stock
+ * can be explained line by line. Rows are written by adjustStockForOrderItems and never edited
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+
+export type InventoryMovementReason =
+  | 'sale'
+  | 'cancellation_restock'
+  | 'return'
+  | 'manual_adjustment'
+  | 'import'
+
+export const INVENTORY_MOVEMENT_REASONS: InventoryMovementReason[] = [
+  'sale',
+  'cancellation_restock',
+  'return',
+  'manual_adjustment',
+  'import'
+]
+
+export interface InventoryMovement {
+  id?: string
+  product_id: number
+  variant_id: number | null
+  // primary_values value the quantity belongs to; null for product-level stock
+  variant_value: string | null
+  reason: InventoryMovementReason
+  quantity_change: number
+  quantity_after: number
+  order_id?: string | null
+  order_number?: string | null
+  actor_id?: string | null
+  note?: string | null
+  created_at?: string
+}
+
+// Context shared by every movement of one stock adjustment
+export interface InventoryMovementContext {
+  reason: InventoryMovementReason
+  order_id?: string | null
+  order_number?: string | null
+  actor_id?: string | null
+  note?: string | null
+}
+
+const MOVEMENTS_TABLE = 'inventory_movements'
+
+/**
+ * Append movements to the journal
+ * Failures are logged and swallowed: the stock change has already happened
+ */
+export async function recordInventoryMovements(
+  supabase: SupabaseClient,
+  movements: InventoryMovement[]
+): Promise<void> {
+  if (movements.length === 0) return
+
+  const { error } = await supabase.from(MOVEMENTS_TABLE).insert(movements)
+  if (error) {
+    logger.error(`Error recording ${movements.length} inventory movement(s)`, error)
+  }
+}
+
+/**
+ * Movements for a product, newest first, optionally narrowed to one variant value
+ */
+export async function getInventoryMovements(
+  supabase: SupabaseClient,
+  params: { productId: number; variantValue?: string | null; limit?: number }
+): Promise<InventoryMovement[]> {
+  let query = supabase
+    .from(MOVEMENTS_TABLE)
+    .select('*')
+    .eq('product_id', params.productId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(params.limit || 100, 500))
+
+  if (params.variantValue !== undefined) {
+    query = params.variantValue === null
+      ? query.is('variant_value', null)
+      : query.eq('variant_value', params.variantValue)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    logger.error(`Error fetching inventory movements for product ${params.productId}`, error)
+    throw error
+  }
+  return (data || []) as InventoryMovement[]
+}
@@ -0,0 +1,86 @@
+/**
+ * Shipping label PDF
+ * Writes a one-page A6 PDF of text lines with the standard Helvetica fonts, enough for a parcel
+ * label without pulling in a PDF library. Characters outside Latin-1 print as "?".
+ */
+
+export interface LabelLine {
+  text: string
+  size?: number
+  bold?: boolean
+  // Extra space above the line, in points
+  gap?: number
+}
+
+// A6 portrait, in points
+const PAGE_WIDTH = 298
+const PAGE_HEIGHT = 420
+const MARGIN = 18
+
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+}
+
+// Helvetica averages about half its size per character; close enough to keep lines on the label
+function wrapLine(text: string, size: number): string[] {
+  const maxChars = Math.max(10, Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * 0.52)))
+  const lines: string[] = []
+  let current = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current)
+      current = ''
+    }
+    current = current ? `${current} ${word}` : word
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars))
+      current = current.slice(maxChars)
+    }
+  }
+  if (current) lines.push(current)
+  return lines.length > 0 ? lines : ['']
+}
+
+export function renderLabelPdf(lines: LabelLine[]): Buffer {
+  const commands: string[] = [
+    '0.8 w',
+    `${MARGIN / 2} ${MARGIN / 2} ${PAGE_WIDTH - MARGIN} ${PAGE_HEIGHT - MARGIN} re S`
+  ]
+  let y = PAGE_HEIGHT - MARGIN - 4
+  for (const line of lines) {
+    const size = line.size ?? 9
+    y -= line.gap ?? 0
+    for (const part of wrapLine(line.text, size)) {
+      y -= size * 1.3
+      if (y < MARGIN) break
+      commands.push(`BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${escapePdfText(part)}) Tj ET`)
+    }
+  }
+  const content = commands.join('\n')
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'))
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1')
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(pdf, 'latin1')
+}
@@ -0,0 +1,511 @@
+/**
+ * Loyalty coins
+ * Buyers earn coins once an order reaches them (delivered, mark-received, or picked up) and can spend them
+ * at checkout as a discount on the order total. Every change is a row in coin_transactions,
+ * so the balance is always the sum of the buyer's completed rows.
+ *
+ * earned: +coins for a received order, expiring after LOYALTY_COINS_EXPIRY_DAYS
+ * redeemed: -coins spent on an order; voided if that order is cancelled or expires unpaid
+ * reversed: -coins taken back when a received order is refunded
+ * expired: -coins left over from an earned row past its expiry date
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { roundMoney } from './supplier-ledger'
+
+export type CoinTransactionType = 'earned' | 'redeemed' | 'reversed' | 'expired'
+
+// void: a redemption whose order never got paid; kept for history but not counted
+export type CoinTransactionStatus = 'completed' | 'void'
+
+export interface CoinTransaction {
+  id: string
+  user_id: string
+  type: CoinTransactionType
+  amount: number
+  status: CoinTransactionStatus
+  order_id: string | null
+  order_number: string | null
+  description: string
+  expires_at: string | null
+  // earned row an expiry or reversal was taken from
+  source_transaction_id: string | null
+  created_at: string
+}
+
+export interface CoinReward {
+  id: string
+  name: string
+  coinsRequired: number
+  discountAmount: number
+  isAvailable: boolean
+}
+
+export interface CoinLevel {
+  name: string
+  minCoins: number
+}
+
+export interface CoinSummary {
+  available: number
+  pending: number
+  totalEarned: number
+  expiringSoon: number
+  nextExpiry: string | null
+  level: CoinLevel
+  nextLevel: CoinLevel | null
+}
+
+// Coins earned per unit of currency paid (0.01 = one coin per TZS 100)
+export const LOYALTY_COINS_EARN_RATE = Math.max(
+  0,
+  parseFloat(process.env.LOYALTY_COINS_EARN_RATE || '0.01') || 0.01
+)
+
+// Discount in currency units one coin is worth at checkout
+export const LOYALTY_COIN_VALUE = Math.max(
+  0,
+  parseFloat(process.env.LOYALTY_COIN_VALUE || '1') || 1
+)
+
+export const LOYALTY_COINS_EXPIRY_DAYS = Math.max(
+  1,
+  parseInt(process.env.LOYALTY_COINS_EXPIRY_DAYS || '365', 10) || 365
+)
+
+// Coins can pay for at most this share of an order
+export const MAX_COIN_REDEMPTION_PERCENT = 50
+
+// Checkout redemptions are offered in these bundles
+export const COIN_REWARD_TIERS = [500, 1000, 2500, 5000]
+
+// Levels are based on lifetime earned coins
+export const COIN_LEVELS: CoinLevel[] = [
+  { name: 'Bronze', minCoins: 0 },
+  { name: 'Silver', minCoins: 1000 },
+  { name: 'Gold', minCoins: 5000 },
+  { name: 'Platinum', minCoins: 20000 }
+]
+
+const EXPIRY_WARNING_DAYS = 30
+
+const TRANSACTIONS_TABLE = 'coin_transactions'
+
+export function coinsForAmount(amount: number): number {
+  return Math.max(0, Math.floor((Number(amount) || 0) * LOYALTY_COINS_EARN_RATE))
+}
+
+export function coinDiscountAmount(coins: number): number {
+  return roundMoney(coins * LOYALTY_COIN_VALUE)
+}
+
+export function getCoinRewards(availableCoins: number): CoinReward[] {
+  return COIN_REWARD_TIERS.map(coins => ({
+    id: `coins-${coins}`,
+    name: `${coins.toLocaleString()} coins off your order`,
+    coinsRequired: coins,
+    discountAmount: coinDiscountAmount(coins),
+    isAvailable: availableCoins >= coins
+  }))
+}
+
+function levelFor(totalEarned: number): { level: CoinLevel; nextLevel: CoinLevel | null } {
+  let index = 0
+  COIN_LEVELS.forEach((level, i) => {
+    if (totalEarned >= level.minCoins) index = i
+  })
+  return { level: COIN_LEVELS[index], nextLevel: COIN_LEVELS[index + 1] || null }
+}
+
+async function getCompletedTransactions(supabase: SupabaseClient, userId: string): Promise<CoinTransaction[]> {
+  const { data, error } = await supabase
+    .from(TRANSACTIONS_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logger.error(`Error fetching coin transactions for user ${userId}`, error)
+    throw new ProductionError('Unable to load coin balance', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (data || []) as CoinTransaction[]
+}
+
+function sumCoins(transactions: CoinTransaction[]): number {
+  return transactions.reduce((sum, transaction) => sum + transaction.amount, 0)
+}
+
+/**
+ * What is left of each earned row once spending is taken oldest-first
+ */
+function remainingByEarnedRow(transactions: CoinTransaction[]): Map<string, number> {
+  let spent = transactions
+    .filter(transaction => transaction.amount < 0)
+    .reduce((sum, transaction) => sum - transaction.amount, 0)
+
+  const remaining = new Map<string, number>()
+  for (const transaction of transactions) {
+    if (transaction.type !== 'earned') continue
+    const used = Math.min(transaction.amount, spent)
+    spent -= used
+    remaining.set(transaction.id, transaction.amount - used)
+  }
+  return remaining
+}
+
+/**
+ * Write expired rows for whatever is left of a buyer's earned coins past their expiry date
+ * Safe to call repeatedly: an earned row is only ever expired once
+ */
+export async function expireCoins(supabase: SupabaseClient, userId: string): Promise<number> {
+  const transactions = await getCompletedTransactions(supabase, userId)
+  const alreadyExpired = new Set(
+    transactions.filter(t => t.type === 'expired').map(t => t.source_transaction_id)
+  )
+  const remaining = remainingByEarnedRow(transactions)
+  const now = new Date()
+
+  const expiring = transactions.filter(transaction =>
+    transaction.type === 'earned' &&
+    transaction.expires_at &&
+    new Date(transaction.expires_at) <= now &&
+    !alreadyExpired.has(transaction.id) &&
+    (remaining.get(transaction.id) || 0) > 0
+  )
+  if (expiring.length === 0) return 0
+
+  const { error } = await supabase.from(TRANSACTIONS_TABLE).insert(expiring.map(transaction => ({
+    user_id: userId,
+    type: 'expired',
+    amount: -(remaining.get(transaction.id) || 0),
+    status: 'completed',
+    order_id: transaction.order_id,
+    order_number: transaction.order_number,
+    description: transaction.order_number
+      ? `Coins from order ${transaction.order_number} expired`
+      : 'Coins expired',
+    source_transaction_id: transaction.id
+  })))
+
+  if (error) {
+    logger.error(`Error expiring coins for user ${userId}`, error)
+    return 0
+  }
+  return expiring.reduce((sum, transaction) => sum + (remaining.get(transaction.id) || 0), 0)
+}
+
+/**
+ * Expire coins for every buyer with an earned row that lapsed in the last week
+ * Run from the cleanup cron; balances also expire lazily whenever they are read
+ */
+export async function expireDueCoins(supabase: SupabaseClient): Promise<number> {
+  const now = new Date()
+  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+  const { data, error } = await supabase
+    .from(TRANSACTIONS_TABLE)
+    .select('user_id')
+    .eq('type', 'earned')
+    .eq('status', 'completed')
+    .lte('expires_at', now.toISOString())
+    .gt('expires_at', weekAgo.toISOString())
+
+  if (error) {
+    logger.error('Error finding coins due to expire', error)
+    throw error
+  }
+
+  let expired = 0
+  for (const userId of new Set((data || []).map(row => row.user_id as string))) {
+    expired += await expireCoins(supabase, userId)
+  }
+  return expired
+}
+
+/**
+ * Spendable coins for a buyer, after expiring anything past its date
+ */
+export async function getCoinBalance(supabase: SupabaseClient, userId: string): Promise<number> {
+  await expireCoins(supabase, userId)
+  return Math.max(0, sumCoins(await getCompletedTransactions(supabase, userId)))
+}
+
+/**
+ * Balance, pending coins for paid orders still on their way, and the buyer's level
+ */
+export async function getCoinSummary(supabase: SupabaseClient, userId: string): Promise<CoinSummary> {
+  await expireCoins(supabase, userId)
+  const transactions = await getCompletedTransactions(supabase, userId)
+  const totalEarned = transactions
+    .filter(transaction => transaction.type === 'earned')
+    .reduce((sum, transaction) => sum + transaction.amount, 0)
+
+  const remaining = remainingByEarnedRow(transactions)
+  const warnBefore = new Date(Date.now() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000)
+  const unexpired = transactions.filter(transaction =>
+    transaction.type === 'earned' && transaction.expires_at && (remaining.get(transaction.id) || 0) > 0
+  )
+  const expiringSoon = unexpired
+    .filter(transaction => new Date(transaction.expires_at as string) <= warnBefore)
+    .reduce((sum, transaction) => sum + (remaining.get(transaction.id) || 0), 0)
+
+  // Paid orders that have not been received yet will earn coins on receipt
+  const earnedOrderIds = new Set(transactions.filter(t => t.type === 'earned').map(t => t.order_id))
+  const { data: openOrders } = await supabase
+    .from('orders')
+    .select('id, total_amount')
+    .eq('user_id', userId)
+    .eq('payment_status', 'paid')
+    .neq('status', 'cancelled')
+
+  const { data: receivedOrders } = await supabase
+    .from('confirmed_orders')
+    .select('order_id')
+    .eq('user_id', userId)
+    .or('is_received.eq.true,status.eq.picked_up')
+
+  const receivedIds = new Set((receivedOrders || []).map(order => order.order_id))
+  const pending = (openOrders || [])
+    .filter(order => !earnedOrderIds.has(order.id) && !receivedIds.has(order.id))
+    .reduce((sum, order) => sum + coinsForAmount(order.total_amount), 0)
+
+  return {
+    available: Math.max(0, sumCoins(transactions)),
+    pending,
+    totalEarned,
+    expiringSoon,
+    nextExpiry: unexpired[0]?.expires_at || null,
+    ...levelFor(totalEarned)
+  }
+}
+
+/**
+ * A buyer's coin transactions, newest first, including voided redemptions
+ */
+export async function getCoinHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  limit = 50
+): Promise<CoinTransaction[]> {
+  await expireCoins(supabase, userId)
+  const { data, error } = await supabase
+    .from(TRANSACTIONS_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(limit, 200))
+
+  if (error) {
+    logger.error(`Error fetching coin history for user ${userId}`, error)
+    throw error
+  }
+  return (data || []) as CoinTransaction[]
+}
+
+/**
+ * Award coins for an order that reached the buyer
+ * Based on the order's current total, so items cancelled along the way earn nothing.
+ * Only one earned row per order; later calls return the existing award
+ */
+export async function awardCoinsForOrder(supabase: SupabaseClient, orderId: string): Promise<number> {
+  try {
+    const { data: existing } = await supabase
+      .from(TRANSACTIONS_TABLE)
+      .select('amount')
+      .eq('order_id', orderId)
+      .eq('type', 'earned')
+      .maybeSingle()
+
+    if (existing) return existing.amount
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id, order_number, user_id, total_amount, payment_status')
+      .eq('id', orderId)
+      .single()
+
+    if (!order?.user_id || order.payment_status !== 'paid') return 0
+
+    const coins = coinsForAmount(order.total_amount)
+    if (coins <= 0) return 0
+
+    const expiresAt = new Date(Date.now() + LOYALTY_COINS_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+    const { error } = await supabase.from(TRANSACTIONS_TABLE).insert({
+      user_id: order.user_id,
+      type: 'earned',
+      amount: coins,
+      status: 'completed',
+      order_id: order.id,
+      order_number: order.order_number,
+      description: `Order ${order.order_number} received`,
+      expires_at: expiresAt.toISOString()
+    })
+
+    if (error) {
+      logger.error(`Error awarding coins for order ${order.order_number}`, error)
+      return 0
+    }
+
+    logger.log(`🪙 Awarded ${coins} coins for order ${order.order_number}`)
+    return coins
+  } catch (error) {
+    logger.error(`Error awarding coins for order ${orderId}`, error)
+    return 0
+  }
+}
+
+/**
+ * Award coins for a shipping order once every item left on it has been delivered
+ */
+export async function awardCoinsIfDelivered(
+  supabase: SupabaseClient,
+  confirmedOrderId: string,
+  orderId: string
+): Promise<number> {
+  const { data: openItems, error } = await supabase
+    .from('confirmed_order_items')
+    .select('id')
+    .eq('confirmed_order_id', confirmedOrderId)
+    .not('status', 'in', '(delivered,picked_up,cancelled)')
+
+  if (error) {
+    logger.error(`Error checking delivered items for order ${orderId}`, error)
+    return 0
+  }
+  return (openItems || []).length === 0 ? awardCoinsForOrder(supabase, orderId) : 0
+}
+
+/**
+ * Check a checkout redemption and price it
+ * Coins must be one of the reward bundles, covered by the balance and within
+ * MAX_COIN_REDEMPTION_PERCENT of the order total before coins
+ */
+export async function validateCoinRedemption(
+  supabase: SupabaseClient,
+  userId: string,
+  coins: number,
+  orderTotal: number
+): Promise<number> {
+  if (!Number.isInteger(coins) || !COIN_REWARD_TIERS.includes(coins)) {
+    throw createValidationError('Invalid coin reward selected')
+  }
+
+  const balance = await getCoinBalance(supabase, userId)
+  if (balance < coins) {
+    throw new ProductionError(
+      `You only have ${balance} coins available`,
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+
+  const discount = coinDiscountAmount(coins)
+  if (discount > roundMoney((orderTotal * MAX_COIN_REDEMPTION_PERCENT) / 100)) {
+    throw createValidationError(`Coins can cover at most ${MAX_COIN_REDEMPTION_PERCENT}% of an order`)
+  }
+  return discount
+}
+
+/**
+ * Spend coins on a newly created order
+ * The row is inserted first and the balance checked afterwards, so two checkouts
+ * spending the same coins at once cannot both succeed. On shortfall the row is voided and a 409 thrown
+ */
+export async function redeemCoinsForOrder(
+  supabase: SupabaseClient,
+  order: { id: string; order_number: string; user_id: string },
+  coins: number
+): Promise<void> {
+  const { data: redemption, error } = await supabase
+    .from(TRANSACTIONS_TABLE)
+    .insert({
+      user_id: order.user_id,
+      type: 'redeemed',
+      amount: -coins,
+      status: 'completed',
+      order_id: order.id,
+      order_number: order.order_number,
+      description: `Redeemed on order ${order.order_number}`
+    })
+    .select('id')
+    .single()
+
+  if (error || !redemption) {
+    logger.error(`Error redeeming coins for order ${order.order_number}`, error)
+    throw new ProductionError('Unable to redeem coins', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  if (sumCoins(await getCompletedTransactions(supabase, order.user_id)) < 0) {
+    await releaseCoinRedemption(supabase, order.id)
+    throw new ProductionError('Not enough coins available', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+}
+
+/**
+ * Give back coins spent on an order that was never paid (cancelled, expired, failed checkout)
+ */
+export async function releaseCoinRedemption(supabase: SupabaseClient, orderId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(TRANSACTIONS_TABLE)
+    .update({ status: 'void' })
+    .eq('order_id', orderId)
+    .eq('type', 'redeemed')
+    .eq('status', 'completed')
+    .select('amount')
+
+  if (error) {
+    logger.error(`Error releasing coin redemption for order ${orderId}`, error)
+    return 0
+  }
+  return (data || []).reduce((sum, row) => sum - row.amount, 0)
+}
+
+/**
+ * Take back coins earned on the refunded part of an order
+ * Reverses at the earn rate, never more than the order earned. Orders refunded before
+ * they were received have earned nothing yet, and their reduced total is what gets awarded later
+ */
+export async function reverseCoinsForRefund(
+  supabase: SupabaseClient,
+  refund: { order_id: string; order_number: string; refund_number: string; amount: number }
+): Promise<number> {
+  try {
+    const { data: rows } = await supabase
+      .from(TRANSACTIONS_TABLE)
+      .select('id, user_id, type, amount')
+      .eq('order_id', refund.order_id)
+      .eq('status', 'completed')
+      .in('type', ['earned', 'reversed'])
+
+    const earned = (rows || []).find(row => row.type === 'earned')
+    if (!earned) return 0
+
+    const alreadyReversed = (rows || [])
+      .filter(row => row.type === 'reversed')
+      .reduce((sum, row) => sum - row.amount, 0)
+    const coins = Math.min(coinsForAmount(refund.amount), earned.amount - alreadyReversed)
+    if (coins <= 0) return 0
+
+    const { error } = await supabase.from(TRANSACTIONS_TABLE).insert({
+      user_id: earned.user_id,
+      type: 'reversed',
+      amount: -coins,
+      status: 'completed',
+      order_id: refund.order_id,
+      order_number: refund.order_number,
+      description: `Refund ${refund.refund_number} on order ${refund.order_number}`,
+      source_transaction_id: earned.id
+    })
+
+    if (error) {
+      logger.error(`Error reversing coins for refund ${refund.refund_number}`, error)
+      return 0
+    }
+    return coins
+  } catch (error) {
+    logger.error(`Error reversing coins for refund ${refund.refund_number}`, error)
+    return 0
+  }
+}
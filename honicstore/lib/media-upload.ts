@@ -0,0 +1,295 @@
+/**
+ * Media upload rules
+ * Allowed types, size limits, bucket names and file naming shared by /api/media/upload and
+ * anything else that stores product media, such as images pulled in from a catalog import
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { lookup } from 'dns'
+import { IncomingMessage, request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { isIP, LookupFunction } from 'net'
+import { logger } from './logger'
+import { createValidationError } from './error-handler'
+
+export type MediaType = 'image' | 'video' | 'model3d'
+
+export const MEDIA_TYPES: MediaType[] = ['image', 'video', 'model3d']
+
+export const MEDIA_ALLOWED_MIME_TYPES: Record<MediaType, string[]> = {
+  image: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'],
+  video: ['video/mp4', 'video/webm', 'video/ogg', 'video/quicktime'],
+  model3d: ['model/gltf-binary', 'model/gltf+json', 'application/octet-stream']
+}
+
+export const MEDIA_MAX_BYTES: Record<MediaType, number> = {
+  image: 5 * 1024 * 1024, // 5MB for images
+  video: 50 * 1024 * 1024, // 50MB for videos
+  model3d: 10 * 1024 * 1024 // 10MB for 3D models
+}
+
+export const MEDIA_EXTENSIONS: Record<MediaType, string[]> = {
+  image: ['jpg', 'jpeg', 'jfif', 'png', 'gif', 'webp', 'svg'],
+  video: ['mp4', 'webm', 'ogg', 'mov'],
+  model3d: ['glb', 'gltf', 'obj']
+}
+
+// Buyer uploads land in public buckets too; SVG is left out because it can carry script
+export const BUYER_IMAGE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp']
+export const BUYER_IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'jfif', 'png', 'gif', 'webp']
+
+// Images fetched from a URL: SVG is left out because it can carry script
+const REMOTE_IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+}
+
+const REMOTE_FETCH_TIMEOUT_MS = 10000
+const REMOTE_FETCH_MAX_REDIRECTS = 3
+
+export function isMediaType(value: unknown): value is MediaType {
+  return typeof value === 'string' && (MEDIA_TYPES as string[]).includes(value)
+}
+
+export function getMediaBucketName(type: string, context: string = 'product'): string {
+  // For images, use different buckets based on context
+  if (type === 'image') {
+    switch (context) {
+      case 'category':
+        return 'category-images'
+      case 'variant':
+        return 'variant-images'
+      case 'specification':
+        return 'specification-images'
+      case 'return':
+        return 'return-images'
+      case 'message':
+        return 'message-attachments'
+      case 'quote':
+        return 'quote-attachments'
+      case 'review':
+        return 'review-images'
+      case 'product':
+      default:
+        return 'product-images'
+    }
+  }
+
+  // For videos and 3D models, always use product buckets
+  switch (type) {
+    case 'video':
+      return 'product-videos'
+    case 'model3d':
+      return 'product-models'
+    default:
+      return 'media'
+  }
+}
+
+/**
+ * Storage file name; product media is prefixed with the product id so it can be listed per product
+ */
+export function buildMediaFileName(params: {
+  type: string
+  context: string
+  extension: string
+  productId?: string | number | null
+}): string {
+  const timestamp = Date.now()
+  const randomString = Math.random().toString(36).substring(2, 15)
+  if (params.productId && ['product', 'variant', 'specification'].includes(params.context)) {
+    return `product_${params.productId}_${params.type}_${timestamp}.${params.extension}`
+  }
+  return `${params.type}_${timestamp}_${randomString}.${params.extension}`
+}
+
+/**
+ * True when the URL already points at this project's Supabase storage, in the given bucket if one is named
+ */
+export function isStorageMediaUrl(url: string, bucket?: string): boolean {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!supabaseUrl) return false
+  try {
+    const target = new URL(url)
+    const prefix = bucket ? `/storage/v1/object/public/${bucket}/` : '/storage/v1/object/public/'
+    return target.origin === new URL(supabaseUrl).origin && target.pathname.startsWith(prefix)
+  } catch {
+    return false
+  }
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().replace(/^::ffff:/, '')
+  if (isIP(mapped) === 4) {
+    const [a, b] = mapped.split('.').map(Number)
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+  }
+  return mapped === '::' || mapped === '::1' || /^(fc|fd|fe[89ab]|ff)/.test(mapped)
+}
+
+// Only public http(s) hosts may be fetched, so a sheet can't make the server call internal services.
+// Hostnames are checked when the socket connects (see publicHostLookup), literal addresses here.
+function assertPublicUrl(rawUrl: string): URL {
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    throw createValidationError('Image URL is not a valid URL')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw createValidationError('Image URL must start with http:// or https://')
+  }
+  if (url.username || url.password) {
+    throw createValidationError('Image URL must not contain credentials')
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw createValidationError('Image URL must point to a public host')
+  }
+  return url
+}
+
+// Resolves for the socket itself, so the address that was checked is the one connected to
+// and a second DNS answer can't swap in an internal host
+const publicHostLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(createValidationError(`Image host ${hostname} could not be found`), '', 0)
+      return
+    }
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(createValidationError('Image URL must point to a public host'), '', 0)
+      return
+    }
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+function requestRemote(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+      method: 'GET',
+      lookup: publicHostLookup,
+      signal
+    })
+    request.on('response', resolve)
+    request.on('error', reject)
+    request.end()
+  })
+}
+
+// The stored type comes from the file itself, not from what the remote server claims it is
+function sniffImageType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg'
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png'
+  }
+  const header = buffer.subarray(0, 12).toString('latin1')
+  if (header.startsWith('GIF87a') || header.startsWith('GIF89a')) return 'image/gif'
+  if (header.startsWith('RIFF') && header.slice(8, 12) === 'WEBP') return 'image/webp'
+  return null
+}
+
+async function fetchRemoteImage(rawUrl: string): Promise<{ buffer: Buffer; contentType: string }> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), REMOTE_FETCH_TIMEOUT_MS)
+  try {
+    let url = assertPublicUrl(rawUrl)
+    let response: IncomingMessage | null = null
+
+    // Redirects are followed by hand so every hop goes through the host check
+    for (let hop = 0; hop <= REMOTE_FETCH_MAX_REDIRECTS; hop++) {
+      response = await requestRemote(url, controller.signal)
+      const status = response.statusCode || 0
+      const location = response.headers.location
+      if (status < 300 || status >= 400 || !location) break
+      response.resume()
+      if (hop === REMOTE_FETCH_MAX_REDIRECTS) {
+        throw createValidationError('Image URL redirects too many times')
+      }
+      url = assertPublicUrl(new URL(location, url).toString())
+      response = null
+    }
+
+    const status = response?.statusCode || 0
+    if (!response || status < 200 || status >= 300) {
+      response?.resume()
+      throw createValidationError(`Image URL returned ${status || 'no response'}`)
+    }
+
+    const maxBytes = MEDIA_MAX_BYTES.image
+    if (Number(response.headers['content-length']) > maxBytes) {
+      response.destroy()
+      throw createValidationError(`Image is larger than ${Math.round(maxBytes / (1024 * 1024))}MB`)
+    }
+
+    // Content-Length can be missing or wrong, so the cap is enforced while reading
+    const chunks: Buffer[] = []
+    let received = 0
+    for await (const chunk of response) {
+      received += chunk.length
+      if (received > maxBytes) {
+        response.destroy()
+        throw createValidationError(`Image is larger than ${Math.round(maxBytes / (1024 * 1024))}MB`)
+      }
+      chunks.push(chunk)
+    }
+
+    const buffer = Buffer.concat(chunks)
+    const contentType = sniffImageType(buffer)
+    if (!contentType) {
+      throw createValidationError('Image URL did not return a JPEG, PNG, GIF or WebP image')
+    }
+    return { buffer, contentType }
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw createValidationError('Image URL took too long to respond')
+    }
+    throw error
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Download an image from a public URL into product storage and return its public URL
+ * Throws a validation error describing why the image could not be used
+ */
+export async function importImageFromUrl(
+  supabase: SupabaseClient,
+  params: { url: string; productId: number; context?: 'product' | 'variant' }
+): Promise<string> {
+  const context = params.context || 'product'
+  const { buffer, contentType } = await fetchRemoteImage(params.url)
+
+  const bucketName = getMediaBucketName('image', context)
+  const fileName = buildMediaFileName({
+    type: 'image',
+    context,
+    extension: REMOTE_IMAGE_EXTENSIONS[contentType],
+    productId: params.productId
+  })
+
+  const { error } = await supabase.storage
+    .from(bucketName)
+    .upload(fileName, buffer, { contentType, upsert: false })
+
+  if (error) {
+    logger.error(`Error storing imported image for product ${params.productId}`, error)
+    throw new Error(`Could not store image: ${error.message}`)
+  }
+
+  return supabase.storage.from(bucketName).getPublicUrl(fileName).data.publicUrl
+}
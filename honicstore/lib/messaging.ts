@@ -0,0 +1,633 @@
+/**
+ * Buyer-supplier messaging
+ * A buyer opens a conversation with the supplier of a product or of an order and both sides reply
+ * from their own inbox (/account/messages and /supplier/messages).
+ * Each side keeps a last-read time and an unread count on the thread. The recipient's count is
+ * recounted from the messages on every send, so two replies landing together can't leave it wrong.
+ * Either side can report a message, which flags it to the admins.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { createNotification, notifyAllAdmins } from './notification-helpers'
+import { sendNewMessageEmail } from './user-email-service'
+import { buildUrl } from './url-utils'
+import { isStorageMediaUrl } from './media-upload'
+
+export type MessageRole = 'buyer' | 'supplier'
+
+export const MESSAGE_REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'scam',
+  'offensive',
+  'other'
+] as const
+
+export type MessageReportReason = typeof MESSAGE_REPORT_REASONS[number]
+
+export const MAX_MESSAGE_LENGTH = 2000
+
+export const MAX_MESSAGE_ATTACHMENTS = 5
+
+// Attachments are uploaded through /api/media/upload with context 'message'
+export const MESSAGE_ATTACHMENT_BUCKET = 'message-attachments'
+
+const THREADS_TABLE = 'message_threads'
+const MESSAGES_TABLE = 'messages'
+const REPORTS_TABLE = 'message_reports'
+
+const PREVIEW_LENGTH = 140
+
+export interface MessageThread {
+  id: string
+  thread_number: string
+  buyer_id: string
+  supplier_id: string
+  product_id: number | null
+  order_number: string | null
+  subject: string
+  last_message_at: string
+  last_message_preview: string | null
+  buyer_last_read_at: string | null
+  supplier_last_read_at: string | null
+  buyer_unread_count: number
+  supplier_unread_count: number
+  created_at: string
+}
+
+export interface ThreadMessage {
+  id: string
+  thread_id: string
+  reference: string
+  sender_id: string
+  sender_role: MessageRole
+  body: string
+  attachments: string[]
+  created_at: string
+}
+
+export interface MessageReport {
+  id: string
+  thread_id: string
+  message_id: string
+  reporter_id: string
+  reporter_role: MessageRole
+  reported_user_id: string
+  reason: MessageReportReason
+  details: string | null
+  status: 'open' | 'reviewed'
+  created_at: string
+}
+
+export interface ThreadSummary {
+  thread: MessageThread
+  counterpartName: string
+  productName: string | null
+  productImage: string | null
+}
+
+function generateNumber(prefix: string): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 8).toUpperCase()
+  return `${prefix}-${date}-${suffix}`
+}
+
+function otherRole(role: MessageRole): MessageRole {
+  return role === 'buyer' ? 'supplier' : 'buyer'
+}
+
+function participantId(thread: MessageThread, role: MessageRole): string {
+  return role === 'buyer' ? thread.buyer_id : thread.supplier_id
+}
+
+function previewOf(message: { body: string; attachments: string[] }): string {
+  if (message.body) {
+    return message.body.length > PREVIEW_LENGTH ? `${message.body.slice(0, PREVIEW_LENGTH)}…` : message.body
+  }
+  return message.attachments.length === 1 ? 'Sent a photo' : `Sent ${message.attachments.length} photos`
+}
+
+function inboxPath(role: MessageRole, threadNumber: string): string {
+  return `${role === 'buyer' ? '/account/messages' : '/supplier/messages'}?thread=${threadNumber}`
+}
+
+export function isValidThreadNumber(value: string | null | undefined): value is string {
+  return !!value && /^MSG-\d{8}-[A-Z0-9]{1,6}$/.test(value)
+}
+
+// Our own storage origin, in the message bucket; a look-alike path on another host does not count
+function isMessageAttachmentUrl(url: unknown): url is string {
+  return typeof url === 'string' && isStorageMediaUrl(url, MESSAGE_ATTACHMENT_BUCKET)
+}
+
+/**
+ * Trim the text and keep only photos uploaded for messages
+ * A message needs text or at least one photo
+ */
+export function normalizeMessageInput(body: unknown, attachments: unknown): { body: string; attachments: string[] } {
+  const text = typeof body === 'string' ? body.trim() : ''
+  const photos = Array.isArray(attachments) ? attachments.filter(isMessageAttachmentUrl) : []
+
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    throw createValidationError(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`)
+  }
+  if (photos.length > MAX_MESSAGE_ATTACHMENTS) {
+    throw createValidationError(`You can attach up to ${MAX_MESSAGE_ATTACHMENTS} photos`)
+  }
+  if (!text && photos.length === 0) {
+    throw createValidationError('Write a message or attach a photo')
+  }
+
+  return { body: text, attachments: photos }
+}
+
+/**
+ * Work out which supplier a new conversation goes to
+ * Orders can hold products from several suppliers, so an order with more than one needs the product too
+ */
+async function resolveThreadTarget(
+  supabase: SupabaseClient,
+  buyerId: string,
+  params: { productId?: number | null; orderNumber?: string | null }
+): Promise<{ supplierId: string; productId: number | null; orderNumber: string | null; subject: string }> {
+  const productId = params.productId || null
+  const orderNumber = params.orderNumber || null
+  let candidates: Array<{ product_id: number; product_name: string | null }> = []
+
+  if (orderNumber) {
+    const { data: confirmedOrder } = await supabase
+      .from('confirmed_orders')
+      .select('id, user_id')
+      .eq('order_number', orderNumber)
+      .maybeSingle()
+
+    if (!confirmedOrder || confirmedOrder.user_id !== buyerId) {
+      throw new ProductionError('Order not found', ErrorCodes.NOT_FOUND, 404)
+    }
+
+    const { data: orderItems } = await supabase
+      .from('confirmed_order_items')
+      .select('product_id, product_name')
+      .eq('confirmed_order_id', confirmedOrder.id)
+
+    candidates = (orderItems || []).filter(item => !productId || item.product_id === productId)
+    if (productId && candidates.length === 0) {
+      throw createValidationError('This product is not part of the order')
+    }
+  } else if (productId) {
+    candidates = [{ product_id: productId, product_name: null }]
+  } else {
+    throw createValidationError('Choose a product or an order to ask about')
+  }
+
+  const { data: products } = await supabase
+    .from('products')
+    .select('id, name, supplier_id, user_id')
+    .in('id', [...new Set(candidates.map(item => item.product_id))])
+
+  if (!products || products.length === 0) {
+    throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const supplierIds = [...new Set(products.map(product => product.supplier_id || product.user_id).filter(Boolean))]
+  if (supplierIds.length === 0) {
+    throw createValidationError('This seller cannot be messaged')
+  }
+  if (supplierIds.length > 1) {
+    throw createValidationError('This order has products from several sellers. Choose the product your question is about')
+  }
+  if (supplierIds[0] === buyerId) {
+    throw createValidationError('You cannot message yourself')
+  }
+
+  const productName = productId ? products[0].name : null
+  const subject = orderNumber
+    ? `Order ${orderNumber}${productName ? ` - ${productName}` : ''}`
+    : productName || 'Product question'
+
+  return { supplierId: supplierIds[0], productId, orderNumber, subject }
+}
+
+/**
+ * Tell the recipient about a new message
+ * Every message raises an in-app notification; email only goes out for the first unread
+ * message so a quick back-and-forth doesn't flood their inbox
+ */
+async function notifyRecipient(
+  supabase: SupabaseClient,
+  thread: MessageThread,
+  message: ThreadMessage,
+  unreadCount: number
+): Promise<void> {
+  try {
+    const recipientRole = otherRole(message.sender_role)
+    const recipientId = participantId(thread, recipientRole)
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, full_name, company_name, email')
+      .in('id', [message.sender_id, recipientId])
+
+    const sender = profiles?.find(profile => profile.id === message.sender_id)
+    const recipient = profiles?.find(profile => profile.id === recipientId)
+    const senderName = message.sender_role === 'supplier'
+      ? sender?.company_name || sender?.full_name || 'Seller'
+      : sender?.full_name || 'A buyer'
+    const actionUrl = inboxPath(recipientRole, thread.thread_number)
+
+    await createNotification(
+      recipientId,
+      'new_message',
+      `New message from ${senderName}`,
+      previewOf(message),
+      { thread_number: thread.thread_number, order_number: thread.order_number || undefined, action_url: actionUrl }
+    )
+
+    if (unreadCount === 1 && recipient?.email) {
+      await sendNewMessageEmail(recipient.email, {
+        senderName,
+        subject: thread.subject,
+        preview: previewOf(message),
+        threadUrl: buildUrl(actionUrl.split('?')[0], { thread: thread.thread_number })
+      })
+    }
+  } catch (error) {
+    logger.error(`Error notifying recipient of message in ${thread.thread_number}`, error)
+  }
+}
+
+/**
+ * Add a message to a thread and bump the recipient's unread count
+ */
+export async function sendMessage(
+  supabase: SupabaseClient,
+  params: {
+    thread: MessageThread
+    senderId: string
+    senderRole: MessageRole
+    body: string
+    attachments: string[]
+  }
+): Promise<{ thread: MessageThread; message: ThreadMessage }> {
+  const { thread, senderId, senderRole } = params
+
+  const { data: message, error } = await supabase
+    .from(MESSAGES_TABLE)
+    .insert({
+      thread_id: thread.id,
+      reference: Math.random().toString(36).slice(2, 12).toUpperCase(),
+      sender_id: senderId,
+      sender_role: senderRole,
+      body: params.body,
+      attachments: params.attachments
+    })
+    .select('*')
+    .single()
+
+  if (error || !message) {
+    logger.error(`Error sending message in ${thread.thread_number}`, error)
+    throw error || new Error('Failed to send message')
+  }
+
+  const recipientRole = otherRole(senderRole)
+  const recipientLastRead = recipientRole === 'buyer' ? thread.buyer_last_read_at : thread.supplier_last_read_at
+
+  let unreadQuery = supabase
+    .from(MESSAGES_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('thread_id', thread.id)
+    .eq('sender_role', senderRole)
+  if (recipientLastRead) {
+    unreadQuery = unreadQuery.gt('created_at', recipientLastRead)
+  }
+  const { count } = await unreadQuery
+  const unreadCount = count || 1
+
+  const { data: updatedThread, error: updateError } = await supabase
+    .from(THREADS_TABLE)
+    .update({
+      last_message_at: message.created_at,
+      last_message_preview: previewOf(message),
+      [`${recipientRole}_unread_count`]: unreadCount,
+      // Replying means the sender has seen everything before it
+      [`${senderRole}_last_read_at`]: message.created_at,
+      [`${senderRole}_unread_count`]: 0
+    })
+    .eq('id', thread.id)
+    .select('*')
+    .single()
+
+  if (updateError) {
+    logger.error(`Error updating thread ${thread.thread_number} after a new message`, updateError)
+  }
+
+  const currentThread = (updatedThread || thread) as MessageThread
+  await notifyRecipient(supabase, currentThread, message as ThreadMessage, unreadCount)
+
+  return { thread: currentThread, message: message as ThreadMessage }
+}
+
+/**
+ * Start a conversation with the supplier of a product or order
+ * A buyer asking about the same product or order again continues the existing thread
+ */
+export async function startThread(
+  supabase: SupabaseClient,
+  params: {
+    buyerId: string
+    productId?: number | null
+    orderNumber?: string | null
+    subject?: string | null
+    body: string
+    attachments: string[]
+  }
+): Promise<{ thread: MessageThread; message: ThreadMessage; created: boolean }> {
+  const target = await resolveThreadTarget(supabase, params.buyerId, params)
+
+  let existingQuery = supabase
+    .from(THREADS_TABLE)
+    .select('*')
+    .eq('buyer_id', params.buyerId)
+    .eq('supplier_id', target.supplierId)
+  existingQuery = target.productId
+    ? existingQuery.eq('product_id', target.productId)
+    : existingQuery.is('product_id', null)
+  existingQuery = target.orderNumber
+    ? existingQuery.eq('order_number', target.orderNumber)
+    : existingQuery.is('order_number', null)
+
+  const { data: existing } = await existingQuery
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  let thread = existing as MessageThread | null
+  const created = !thread
+
+  if (!thread) {
+    const subject = params.subject?.trim().slice(0, 150) || target.subject
+    const { data, error } = await supabase
+      .from(THREADS_TABLE)
+      .insert({
+        thread_number: generateNumber('MSG'),
+        buyer_id: params.buyerId,
+        supplier_id: target.supplierId,
+        product_id: target.productId,
+        order_number: target.orderNumber,
+        subject,
+        last_message_at: new Date().toISOString(),
+        buyer_unread_count: 0,
+        supplier_unread_count: 0
+      })
+      .select('*')
+      .single()
+
+    if (error || !data) {
+      logger.error('Error starting message thread', error)
+      throw error || new Error('Failed to start conversation')
+    }
+    thread = data as MessageThread
+  }
+
+  const result = await sendMessage(supabase, {
+    thread,
+    senderId: params.buyerId,
+    senderRole: 'buyer',
+    body: params.body,
+    attachments: params.attachments
+  })
+
+  return { ...result, created }
+}
+
+/**
+ * Threads for one side of the conversation, newest activity first
+ */
+export async function getThreads(
+  supabase: SupabaseClient,
+  params: { userId: string; role: MessageRole; limit?: number }
+): Promise<ThreadSummary[]> {
+  const { data: threads, error } = await supabase
+    .from(THREADS_TABLE)
+    .select('*')
+    .eq(`${params.role}_id`, params.userId)
+    .order('last_message_at', { ascending: false })
+    .limit(params.limit || 100)
+
+  if (error) {
+    logger.error('Error fetching message threads', error)
+    throw error
+  }
+  if (!threads || threads.length === 0) return []
+
+  const counterpartRole = otherRole(params.role)
+  const counterpartIds = [...new Set(threads.map(thread => participantId(thread, counterpartRole)))]
+  const productIds = [...new Set(threads.map(thread => thread.product_id).filter(Boolean))]
+
+  const [{ data: profiles }, { data: products }] = await Promise.all([
+    supabase.from('profiles').select('id, full_name, company_name').in('id', counterpartIds),
+    productIds.length > 0
+      ? supabase.from('products').select('id, name, image').in('id', productIds)
+      : Promise.resolve({ data: [] as Array<{ id: number; name: string; image: string | null }> })
+  ])
+
+  const profileById = new Map((profiles || []).map(profile => [profile.id, profile]))
+  const productById = new Map((products || []).map(product => [product.id, product]))
+
+  return threads.map(thread => {
+    const counterpart = profileById.get(participantId(thread, counterpartRole))
+    const product = thread.product_id ? productById.get(thread.product_id) : null
+    return {
+      thread: thread as MessageThread,
+      counterpartName: counterpartRole === 'supplier'
+        ? counterpart?.company_name || counterpart?.full_name || 'Seller'
+        : counterpart?.full_name || 'Buyer',
+      productName: product?.name || null,
+      productImage: product?.image || null
+    }
+  })
+}
+
+/**
+ * Load a thread the user takes part in; anyone else gets a not found
+ */
+export async function getThreadForParticipant(
+  supabase: SupabaseClient,
+  params: { threadNumber: string; userId: string; role: MessageRole }
+): Promise<MessageThread> {
+  const { data: thread } = await supabase
+    .from(THREADS_TABLE)
+    .select('*')
+    .eq('thread_number', params.threadNumber)
+    .maybeSingle()
+
+  if (!thread || participantId(thread, params.role) !== params.userId) {
+    throw new ProductionError('Conversation not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  return thread as MessageThread
+}
+
+export async function getThreadMessages(supabase: SupabaseClient, threadId: string): Promise<ThreadMessage[]> {
+  const { data, error } = await supabase
+    .from(MESSAGES_TABLE)
+    .select('*')
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true })
+    .limit(500)
+
+  if (error) {
+    logger.error('Error fetching thread messages', error)
+    throw error
+  }
+
+  return (data || []) as ThreadMessage[]
+}
+
+export async function markThreadRead(supabase: SupabaseClient, thread: MessageThread, role: MessageRole): Promise<void> {
+  const unread = role === 'buyer' ? thread.buyer_unread_count : thread.supplier_unread_count
+  if (!unread) return
+
+  const { error } = await supabase
+    .from(THREADS_TABLE)
+    .update({
+      [`${role}_last_read_at`]: new Date().toISOString(),
+      [`${role}_unread_count`]: 0
+    })
+    .eq('id', thread.id)
+
+  if (error) {
+    logger.error(`Error marking thread ${thread.thread_number} as read`, error)
+  }
+}
+
+/**
+ * Unread messages across all of the user's threads
+ */
+export async function getUnreadMessageCount(
+  supabase: SupabaseClient,
+  userId: string,
+  role: MessageRole
+): Promise<number> {
+  const { data, error } = await supabase
+    .from(THREADS_TABLE)
+    .select(`${role}_unread_count`)
+    .eq(`${role}_id`, userId)
+    .gt(`${role}_unread_count`, 0)
+
+  if (error) {
+    logger.error('Error counting unread messages', error)
+    return 0
+  }
+
+  return (data || []).reduce((sum: number, row: any) => sum + (row[`${role}_unread_count`] || 0), 0)
+}
+
+/**
+ * Report a message from the other side of the conversation to the admins
+ */
+export async function reportMessage(
+  supabase: SupabaseClient,
+  params: {
+    thread: MessageThread
+    messageReference: string
+    reporterId: string
+    reporterRole: MessageRole
+    reason: MessageReportReason
+    details?: string | null
+  }
+): Promise<MessageReport> {
+  const { thread } = params
+
+  const { data: message } = await supabase
+    .from(MESSAGES_TABLE)
+    .select('id, sender_id')
+    .eq('thread_id', thread.id)
+    .eq('reference', params.messageReference)
+    .maybeSingle()
+
+  if (!message) {
+    throw new ProductionError('Message not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  if (message.sender_id === params.reporterId) {
+    throw createValidationError('You cannot report your own message')
+  }
+
+  const { data: existing } = await supabase
+    .from(REPORTS_TABLE)
+    .select('id')
+    .eq('message_id', message.id)
+    .eq('reporter_id', params.reporterId)
+    .maybeSingle()
+
+  if (existing) {
+    throw new ProductionError('You have already reported this message', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: report, error } = await supabase
+    .from(REPORTS_TABLE)
+    .insert({
+      thread_id: thread.id,
+      message_id: message.id,
+      reporter_id: params.reporterId,
+      reporter_role: params.reporterRole,
+      reported_user_id: message.sender_id,
+      reason: params.reason,
+      details: params.details || null,
+      status: 'open'
+    })
+    .select('*')
+    .single()
+
+  if (error || !report) {
+    logger.error(`Error reporting message in ${thread.thread_number}`, error)
+    throw error || new Error('Failed to report message')
+  }
+
+  await notifyAllAdmins(
+    'message_reported',
+    'Message reported',
+    `A ${params.reporterRole} reported a message in conversation ${thread.thread_number} as ${params.reason}.`,
+    {
+      thread_number: thread.thread_number,
+      message_reference: params.messageReference,
+      reporter_id: params.reporterId,
+      reported_user_id: message.sender_id,
+      reason: params.reason,
+      details: params.details || undefined
+    }
+  )
+
+  return report as MessageReport
+}
+
+// SECURITY: Never expose UUIDs (thread, message, buyer or supplier ids) to clients
+export function toClientThread(summary: ThreadSummary, role: MessageRole) {
+  const { thread } = summary
+  return {
+    threadNumber: thread.thread_number,
+    subject: thread.subject,
+    counterpartName: summary.counterpartName,
+    productId: thread.product_id,
+    productName: summary.productName,
+    productImage: summary.productImage,
+    orderNumber: thread.order_number,
+    lastMessageAt: thread.last_message_at,
+    lastMessagePreview: thread.last_message_preview,
+    unreadCount: (role === 'buyer' ? thread.buyer_unread_count : thread.supplier_unread_count) || 0,
+    createdAt: thread.created_at
+  }
+}
+
+export function toClientMessage(message: ThreadMessage, role: MessageRole) {
+  return {
+    reference: message.reference,
+    fromMe: message.sender_role === role,
+    senderRole: message.sender_role,
+    body: message.body,
+    attachments: message.attachments || [],
+    createdAt: message.created_at
+  }
+}
@@ -22,7 +22,12 @@ export type NotificationType =
   | 'plan_expiring_soon'
   | 'account_status_change'
   | 'product_flagged'
+  | 'product_approved'
+  | 'product_rejected'
   | 'high_risk_order'
+  | 'coupon_assigned'
+  | 'new_message'
+  | 'message_reported'
 
 export interface NotificationMetadata {
   supplier_id?: string
@@ -0,0 +1,494 @@
+/**
+ * Order cancellation
+ * Buyers can cancel a whole order until something ships; suppliers cancel their own items one at a time.
+ * Cancelling puts paid stock back, recomputes the order total, records what the buyer is owed
+ * and reverses the supplier ledger for items that were already posted
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { adjustStockForOrderItems, StockAdjustmentItem } from './stock-decrement'
+import { postRefundLedgerEntries, roundMoney } from './supplier-ledger'
+import { createOrderRefund, formatRefundMethod, OrderRefund, REFUND_TIMELINE } from './order-returns'
+import { recordOrderEvents, OrderEvent, OrderEventActor } from './order-events'
+import { releaseStockHolds } from './stock-holds'
+import { releaseCoinRedemption } from './loyalty-coins'
+import { releaseCouponRedemption } from './platform-coupons'
+import { releaseSaleClaims } from './product-sales'
+import { releaseOrderQuotes } from './quote-requests'
+import { createNotification } from './notification-helpers'
+import { sendOrderCancellationEmail } from './user-email-service'
+
+export interface CancellationActor {
+  id: string
+  role: Extract<OrderEventActor, 'buyer' | 'supplier' | 'admin'>
+}
+
+export interface CancellationResult {
+  orderNumber: string
+  userId: string
+  cancelledItems: number
+  orderCancelled: boolean
+  newTotal: number
+  refundAmount: number
+  refunds: OrderRefund[]
+}
+
+interface CancellableItem {
+  id: string | null // confirmed_order_items.id, null for orders that were never confirmed
+  product_id: number
+  variant_id: number | string | null
+  variant_name: string | null
+  quantity: number
+  total_price: number
+}
+
+const ORDER_COLUMNS = 'id, order_number, user_id, status, payment_status, total_amount'
+
+/**
+ * Cancel every item of a buyer's order
+ * Only allowed while nothing has shipped; unpaid orders are simply marked cancelled
+ */
+export async function cancelBuyerOrder(
+  supabase: SupabaseClient,
+  params: { userId: string; orderNumber: string; reason: string }
+): Promise<CancellationResult> {
+  const { data: order } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('order_number', params.orderNumber)
+    .single()
+
+  if (!order || order.user_id !== params.userId) {
+    throw new ProductionError('Order not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  if (order.status === 'cancelled') {
+    throw new ProductionError('Order is already cancelled', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: confirmedOrder } = await supabase
+    .from('confirmed_orders')
+    .select('id, total_amount')
+    .eq('order_id', order.id)
+    .maybeSingle()
+
+  let items: CancellableItem[]
+  if (confirmedOrder) {
+    const { data: confirmedItems, error } = await supabase
+      .from('confirmed_order_items')
+      .select('id, product_id, variant_id, variant_name, quantity, total_price, status')
+      .eq('confirmed_order_id', confirmedOrder.id)
+      .neq('status', 'cancelled')
+
+    if (error) throw error
+    if ((confirmedItems || []).some((item: any) => (item.status || 'confirmed') !== 'confirmed')) {
+      throw createValidationError('This order has already shipped and can no longer be cancelled. You can request a return once it arrives.')
+    }
+    items = confirmedItems || []
+  } else {
+    if (!['pending', 'confirmed'].includes(order.status)) {
+      throw createValidationError('This order can no longer be cancelled')
+    }
+    const { data: orderItems, error } = await supabase
+      .from('order_items')
+      .select('product_id, variant_id, variant_name, quantity, total_price')
+      .eq('order_id', order.id)
+
+    if (error) throw error
+    items = (orderItems || []).map((item: any) => ({ ...item, id: null }))
+  }
+
+  return applyCancellation(supabase, {
+    order,
+    confirmedOrder,
+    items,
+    actor: { id: params.userId, role: 'buyer' },
+    reason: params.reason,
+    source: 'buyer_cancel'
+  })
+}
+
+/**
+ * Cancel a single confirmed item on behalf of the supplier that owns its product
+ */
+export async function cancelSupplierOrderItem(
+  supabase: SupabaseClient,
+  params: { supplierId: string; itemId: string; reason: string }
+): Promise<CancellationResult> {
+  const { data: item } = await supabase
+    .from('confirmed_order_items')
+    .select('id, confirmed_order_id, product_id, variant_id, variant_name, quantity, total_price, status')
+    .eq('id', params.itemId)
+    .single()
+
+  if (!item) {
+    throw new ProductionError('Order item not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('supplier_id, user_id')
+    .eq('id', item.product_id)
+    .single()
+
+  if (!product || (product.supplier_id || product.user_id) !== params.supplierId) {
+    throw new ProductionError('Access denied. You do not own this product.', ErrorCodes.FORBIDDEN, 403)
+  }
+  if ((item.status || 'confirmed') !== 'confirmed') {
+    throw createValidationError(`Items that are ${item.status} can no longer be cancelled`)
+  }
+
+  const { data: confirmedOrder } = await supabase
+    .from('confirmed_orders')
+    .select('id, order_id, total_amount')
+    .eq('id', item.confirmed_order_id)
+    .single()
+
+  if (!confirmedOrder) {
+    throw new ProductionError('Order not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', confirmedOrder.order_id)
+    .single()
+
+  if (!order) {
+    throw new ProductionError('Order not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  return applyCancellation(supabase, {
+    order,
+    confirmedOrder,
+    items: [item],
+    actor: { id: params.supplierId, role: 'supplier' },
+    reason: params.reason,
+    source: 'supplier_item_cancel'
+  })
+}
+
+async function applyCancellation(
+  supabase: SupabaseClient,
+  ctx: {
+    order: any
+    confirmedOrder: { id: string; total_amount?: number | null } | null
+    items: CancellableItem[]
+    actor: CancellationActor
+    reason: string
+    source: string
+  }
+): Promise<CancellationResult> {
+  const { order, confirmedOrder, actor, reason } = ctx
+  const now = new Date().toISOString()
+  const isPaid = order.payment_status === 'paid'
+  let cancelled = ctx.items
+
+  // Step 1: Flip confirmed items, guarded on status so a concurrent ship or cancel wins cleanly
+  if (confirmedOrder && cancelled.length > 0) {
+    const { data: updated, error } = await supabase
+      .from('confirmed_order_items')
+      .update({ status: 'cancelled' })
+      .in('id', cancelled.map(item => item.id))
+      .eq('status', 'confirmed')
+      .select('id')
+
+    if (error) throw error
+    const updatedIds = new Set((updated || []).map((row: any) => row.id))
+    cancelled = cancelled.filter(item => updatedIds.has(item.id))
+    if (cancelled.length === 0) {
+      throw new ProductionError('Items were updated by someone else, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+    }
+  }
+
+  // Step 2: Stock is only taken when payment succeeds, so only paid orders get it back
+  if (isPaid && cancelled.length > 0) {
+    await adjustStockForOrderItems(supabase, await withVariantAttributes(supabase, order.id, cancelled), 'restore', {
+      reason: 'cancellation_restock',
+      order_id: order.id,
+      order_number: order.order_number,
+      actor_id: actor.id,
+      note: reason
+    })
+  } else if (!isPaid) {
+    // Unpaid orders only have checkout holds on their stock; coins, coupon uses, sale units and quotes spent on them go back
+    await releaseStockHolds(supabase, order.id, 'cancelled')
+    await releaseCoinRedemption(supabase, order.id)
+    await releaseCouponRedemption(supabase, order.id)
+    await releaseSaleClaims(supabase, order.id)
+    await releaseOrderQuotes(supabase, order.id)
+  }
+
+  // Step 3: Recompute totals. Shipping and discounts stay with the order while anything is left on it
+  const cancelledAmount = roundMoney(cancelled.reduce((sum, item) => sum + (Number(item.total_price) || 0), 0))
+  let remainingItems: any[] = []
+  if (confirmedOrder) {
+    const { data } = await supabase
+      .from('confirmed_order_items')
+      .select('total_price')
+      .eq('confirmed_order_id', confirmedOrder.id)
+      .neq('status', 'cancelled')
+    remainingItems = data || []
+  }
+
+  const previousTotal = Number(order.total_amount) || 0
+  const remainingAmount = remainingItems.reduce((sum, item) => sum + (Number(item.total_price) || 0), 0)
+  const adjustments = previousTotal - remainingAmount - cancelledAmount
+  const orderCancelled = remainingItems.length === 0
+  const newTotal = orderCancelled ? 0 : Math.max(0, roundMoney(remainingAmount + adjustments))
+
+  // A paid order cancelled outright is refunded in full, so the coins and coupon use spent on it go back too
+  if (isPaid && orderCancelled) {
+    await releaseCoinRedemption(supabase, order.id)
+    await releaseCouponRedemption(supabase, order.id)
+  }
+
+  const { error: orderUpdateError } = await supabase
+    .from('orders')
+    .update({
+      total_amount: newTotal,
+      ...(orderCancelled ? { status: 'cancelled' } : {}),
+      updated_at: now
+    })
+    .eq('id', order.id)
+
+  if (orderUpdateError) {
+    logger.error(`Error updating totals for cancelled order ${order.order_number}`, orderUpdateError)
+    throw orderUpdateError
+  }
+
+  if (confirmedOrder) {
+    await supabase
+      .from('confirmed_orders')
+      .update({
+        total_amount: newTotal,
+        ...(orderCancelled ? { status: 'cancelled' } : {}),
+        updated_at: now
+      })
+      .eq('id', confirmedOrder.id)
+  }
+
+  // Step 4: Paid money goes back to the buyer - one refund per supplier so each payable is reversed
+  const refunds: OrderRefund[] = []
+  const refundAmount = isPaid ? roundMoney(previousTotal - newTotal) : 0
+  const supplierMap = await getSupplierMap(supabase, cancelled.map(item => item.product_id))
+
+  if (refundAmount > 0) {
+    // Items never refund more than the buyer paid: when discounts outweigh shipping, each item gives up its share
+    const itemAmounts = prorateRefund(cancelled, Math.min(cancelledAmount, refundAmount))
+    const bySupplier = new Map<string, CancellableItem[]>()
+    for (const item of cancelled) {
+      const supplierId = supplierMap.get(item.product_id)
+      if (supplierId) bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), item])
+    }
+
+    let itemRefunds = 0
+    for (const [supplierId, items] of bySupplier) {
+      const amount = roundMoney(items.reduce((sum, item) => sum + (itemAmounts.get(item) || 0), 0))
+      if (amount <= 0) continue
+      const refund = await createOrderRefund(supabase, {
+        order_id: order.id,
+        order_number: order.order_number,
+        user_id: order.user_id,
+        supplier_id: supplierId,
+        amount,
+        source: 'cancellation',
+        status: 'due'
+      })
+      refunds.push(refund)
+      itemRefunds += amount
+
+      if (confirmedOrder) {
+        await postRefundLedgerEntries(
+          supabase,
+          {
+            id: refund.id,
+            supplier_id: supplierId,
+            order_id: order.id,
+            order_number: order.order_number,
+            confirmed_order_id: confirmedOrder.id,
+            currency: refund.currency
+          },
+          items.map(item => ({
+            confirmed_order_item_id: item.id as string,
+            product_id: item.product_id,
+            amount: itemAmounts.get(item) || 0
+          }))
+        )
+      }
+    }
+
+    // Shipping and other order-level charges refunded when the whole order goes
+    const orderLevelAmount = roundMoney(refundAmount - itemRefunds)
+    if (orderLevelAmount > 0) {
+      refunds.push(await createOrderRefund(supabase, {
+        order_id: order.id,
+        order_number: order.order_number,
+        user_id: order.user_id,
+        supplier_id: null,
+        amount: orderLevelAmount,
+        source: 'cancellation',
+        status: 'due'
+      }))
+    }
+  }
+
+  // Step 5: History
+  const events: OrderEvent[] = cancelled
+    .filter(item => item.id)
+    .map(item => ({
+      order_id: order.id,
+      order_number: order.order_number,
+      confirmed_order_item_id: item.id,
+      supplier_id: supplierMap.get(item.product_id) || null,
+      status: 'cancelled',
+      actor_id: actor.id,
+      actor_role: actor.role,
+      source: ctx.source,
+      note: reason
+    }))
+  if (orderCancelled) {
+    events.push({
+      order_id: order.id,
+      order_number: order.order_number,
+      status: 'cancelled',
+      actor_id: actor.id,
+      actor_role: actor.role,
+      source: ctx.source,
+      note: reason
+    })
+  }
+  await recordOrderEvents(supabase, events)
+
+  logger.log(`✅ Cancelled ${cancelled.length} item(s) on order ${order.order_number}`, {
+    orderCancelled,
+    newTotal,
+    refundAmount
+  })
+
+  return {
+    orderNumber: order.order_number,
+    userId: order.user_id,
+    cancelledItems: cancelled.length,
+    orderCancelled,
+    newTotal,
+    refundAmount,
+    refunds
+  }
+}
+
+/**
+ * Split a refund across items in proportion to their price; the last item takes the rounding
+ */
+function prorateRefund(items: CancellableItem[], total: number): Map<CancellableItem, number> {
+  const amounts = new Map<CancellableItem, number>()
+  const gross = items.reduce((sum, item) => sum + (Number(item.total_price) || 0), 0)
+  if (gross <= 0 || total <= 0) {
+    items.forEach(item => amounts.set(item, 0))
+    return amounts
+  }
+
+  let allocated = 0
+  items.forEach((item, index) => {
+    const amount = index === items.length - 1
+      ? roundMoney(total - allocated)
+      : roundMoney(total * (Number(item.total_price) || 0) / gross)
+    amounts.set(item, Math.max(0, amount))
+    allocated += amount
+  })
+  return amounts
+}
+
+/**
+ * Carry the checkout variant_attributes over to confirmed items so restocking
+ * hits the same variant values the payment decrement did
+ */
+async function withVariantAttributes(
+  supabase: SupabaseClient,
+  orderId: string,
+  items: CancellableItem[]
+): Promise<StockAdjustmentItem[]> {
+  const { data: orderItems } = await supabase
+    .from('order_items')
+    .select('product_id, variant_id, variant_name, variant_attributes')
+    .eq('order_id', orderId)
+
+  return items.map(item => {
+    const source = (orderItems || []).find((orderItem: any) =>
+      orderItem.product_id === item.product_id &&
+      String(orderItem.variant_id || '') === String(item.variant_id || '') &&
+      String(orderItem.variant_name || '') === String(item.variant_name || '')
+    )
+    return {
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      variant_name: item.variant_name,
+      variant_attributes: source?.variant_attributes || null,
+      quantity: item.quantity
+    }
+  })
+}
+
+async function getSupplierMap(supabase: SupabaseClient, productIds: number[]): Promise<Map<number, string>> {
+  const map = new Map<number, string>()
+  if (productIds.length === 0) return map
+
+  const { data: products } = await supabase
+    .from('products')
+    .select('id, supplier_id, user_id')
+    .in('id', [...new Set(productIds)])
+
+  for (const product of products || []) {
+    const supplierId = product.supplier_id || product.user_id
+    if (supplierId) map.set(product.id, supplierId)
+  }
+  return map
+}
+
+/**
+ * Tell the buyer about a cancellation by email and in-app notification
+ * Never throws: the cancellation itself has already been saved
+ */
+export async function notifyBuyerOfCancellation(
+  supabase: SupabaseClient,
+  result: CancellationResult,
+  reason: string
+): Promise<void> {
+  const refundMethod = result.refunds[0]?.method
+  const message = result.orderCancelled
+    ? `Order ${result.orderNumber} has been cancelled.`
+    : `${result.cancelledItems} item(s) on order ${result.orderNumber} were cancelled.`
+
+  try {
+    await createNotification(
+      result.userId,
+      'order_updated',
+      result.orderCancelled ? 'Order cancelled' : 'Items cancelled',
+      result.refundAmount > 0
+        ? `${message} A refund of ${result.refunds[0]?.currency || 'TZS'} ${result.refundAmount.toLocaleString()} is on its way.`
+        : message,
+      { order_number: result.orderNumber, action_url: `/account/orders/${result.orderNumber}` }
+    )
+
+    const { data: buyer } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', result.userId)
+      .single()
+
+    if (buyer?.email) {
+      await sendOrderCancellationEmail(buyer.email, {
+        orderNumber: result.orderNumber,
+        cancellationReason: reason,
+        ...(result.refundAmount > 0 ? {
+          refundAmount: result.refundAmount,
+          refundMethod: refundMethod ? formatRefundMethod(refundMethod) : undefined,
+          refundTimeline: REFUND_TIMELINE
+        } : {})
+      })
+    }
+  } catch (error) {
+    logger.error(`Error notifying buyer about cancellation of ${result.orderNumber}`, error)
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Order events
+ * Append-only log of order status changes. Rows are never updated or deleted,
+ * so the buyer's timeline shows when each change really happened and who made it.
+ * Item-level events carry confirmed_order_item_id and supplier_id so orders split
+ * across suppliers get a history per package
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+
+export type OrderEventActor = 'buyer' | 'supplier' | 'admin' | 'pickup_point' | 'courier' | 'system'
+
+export interface OrderEvent {
+  id?: string
+  order_id: string
+  order_number: string | null
+  confirmed_order_item_id?: string | null
+  supplier_id?: string | null
+  status: string
+  actor_id?: string | null
+  actor_role: OrderEventActor
+  source: string
+  note?: string | null
+  created_at?: string
+}
+
+const EVENTS_TABLE = 'order_events'
+
+/**
+ * Append events to an order's history
+ * Failures are logged and swallowed: history must never block the status change itself
+ */
+export async function recordOrderEvents(
+  supabase: SupabaseClient,
+  events: OrderEvent[]
+): Promise<void> {
+  if (events.length === 0) return
+
+  const { error } = await supabase.from(EVENTS_TABLE).insert(events)
+  if (error) {
+    logger.error(`Error recording ${events.length} order event(s) for order ${events[0].order_number}`, error)
+  }
+}
+
+export async function recordOrderEvent(supabase: SupabaseClient, event: OrderEvent): Promise<void> {
+  await recordOrderEvents(supabase, [event])
+}
+
+/**
+ * Events for an order, oldest first
+ */
+export async function getOrderEvents(supabase: SupabaseClient, orderId: string): Promise<OrderEvent[]> {
+  const { data, error } = await supabase
+    .from(EVENTS_TABLE)
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logger.error(`Error fetching order events for order ${orderId}`, error)
+    return []
+  }
+  return (data || []) as OrderEvent[]
+}
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  pending: 'Order placed',
+  paid: 'Payment received',
+  payment_failed: 'Payment failed',
+  payment_pending: 'Payment pending',
+  confirmed: 'Order confirmed',
+  shipped: 'Package shipped',
+  delivered: 'Package delivered',
+  picked_up: 'Package picked up',
+  received: 'Order received',
+  cancelled: 'Cancelled',
+  expired: 'Order expired'
+}
+
+/**
+ * Buyer-facing sentence for an event, e.g. "Package shipped by the supplier: DHL 123"
+ */
+export function describeOrderEvent(event: OrderEvent): string {
+  let description = STATUS_DESCRIPTIONS[event.status] || event.status
+  if (event.status === 'cancelled') {
+    const by = event.actor_role === 'buyer' ? 'you' : `the ${event.actor_role}`
+    description = `${event.confirmed_order_item_id ? 'Item' : 'Order'} cancelled by ${by}`
+  }
+  return event.note ? `${description}: ${event.note}` : description
+}
@@ -0,0 +1,185 @@
+/**
+ * Order line pricing
+ * The unit price a cart line is charged at, shared by POST /api/orders, the shipping estimate and
+ * coupon validation so the subtotals they work out agree: the variant or product price, its
+ * quantity tier or a running sale when that is cheaper, and an accepted quote for exactly the
+ * line's quantity over both. Sales are read fresh, since a capped sale stops applying the moment
+ * its last units are claimed.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { getProductSales, SaleWindow } from './product-sales'
+import { resolveUnitPrice, TierResolution } from './price-tiers'
+import { getAcceptedQuotes, findQuoteForLine, AcceptedQuote } from './quote-requests'
+
+export interface OrderPricingContext {
+  salesByProduct: Map<number, SaleWindow[]>
+  // Quotes the buyer accepted; undefined for guests
+  acceptedQuotes: Map<string, AcceptedQuote> | undefined
+}
+
+export interface LinePrice {
+  unitPrice: number
+  resolution: TierResolution
+  quote: AcceptedQuote | null
+  sale: SaleWindow | null
+}
+
+export interface PricedOrderLine extends LinePrice {
+  productId: number
+  variantId: number | null
+  quantity: number
+  product: any
+  variant: any | null
+  totalPrice: number
+}
+
+/**
+ * Running sales and the buyer's accepted quotes for the products in an order
+ */
+export async function loadOrderPricingContext(
+  supabase: SupabaseClient,
+  productIds: number[],
+  userId?: string | null
+): Promise<OrderPricingContext> {
+  const [salesByProduct, acceptedQuotes] = await Promise.all([
+    getProductSales(supabase, productIds, { fresh: true }),
+    userId ? getAcceptedQuotes(supabase, userId) : Promise.resolve(undefined)
+  ])
+  return { salesByProduct, acceptedQuotes }
+}
+
+/**
+ * The variant's own price, else the first priced primary value, else the product price; NaN when
+ * none of them is a positive number
+ */
+export function listUnitPrice(product: any, variant: any | null): number {
+  let price = product?.price != null ? Number(product.price) : NaN
+  if (!variant) return price
+
+  if (variant.price != null && variant.price !== '') {
+    const p = Number(variant.price)
+    if (!Number.isNaN(p) && p > 0) price = p
+  }
+  if ((Number.isNaN(price) || price <= 0) && variant.primary_values) {
+    let values = variant.primary_values
+    if (typeof values === 'string') {
+      try {
+        values = JSON.parse(values)
+      } catch {
+        values = []
+      }
+    }
+    if (Array.isArray(values)) {
+      for (const value of values) {
+        const p = value?.price != null && value?.price !== '' ? Number(value.price) : NaN
+        if (!Number.isNaN(p) && p > 0) {
+          price = p
+          break
+        }
+      }
+    }
+  }
+  return price
+}
+
+/**
+ * Price one line; null when the product has no usable price
+ * The quantity tier sets the unit price unless a running sale is cheaper (a sale covers the whole
+ * quantity, or none of it when the cap has too few units left), and an accepted quote for exactly
+ * this quantity replaces both
+ */
+export function priceOrderLine(
+  context: OrderPricingContext,
+  line: { product: any; variant: any | null; variantId: number | null; quantity: number }
+): LinePrice | null {
+  const listPrice = listUnitPrice(line.product, line.variant)
+  if (Number.isNaN(listPrice) || listPrice <= 0) return null
+
+  const productId = Number(line.product.id)
+  const resolution = resolveUnitPrice(context.salesByProduct.get(productId), {
+    productPrice: Number(line.product.price) || 0,
+    productTiers: line.product.price_tiers,
+    variantId: line.variantId,
+    variantPrice: listPrice,
+    variantTiers: line.variant?.price_tiers,
+    quantity: line.quantity
+  })
+  const quoted = findQuoteForLine(context.acceptedQuotes, {
+    productId,
+    variantId: line.variantId,
+    quantity: line.quantity
+  })
+  const quote = quoted?.applies ? quoted.quote : null
+  return {
+    unitPrice: quote ? Number(quote.unit_price) : resolution.price,
+    resolution,
+    quote,
+    sale: quote ? null : resolution.sale
+  }
+}
+
+function parseVariantId(value: unknown): number | null {
+  if (value === null || value === undefined || value === '' || String(value) === 'default') return null
+  const id = parseInt(String(value), 10)
+  return Number.isNaN(id) ? null : id
+}
+
+/**
+ * Price posted cart lines from the database alone, for routes that quote a subtotal before the
+ * order exists. Lines for unknown or unpriced products are left out, as /api/orders rejects them
+ */
+export async function priceOrderItems(
+  supabase: SupabaseClient,
+  items: Array<{ productId?: unknown; product_id?: unknown; variantId?: unknown; quantity?: unknown }>,
+  userId?: string | null
+): Promise<{ subtotal: number; lines: PricedOrderLine[] }> {
+  const requested = items
+    .map(item => ({
+      productId: Number(item.productId ?? item.product_id),
+      variantId: parseVariantId(item.variantId),
+      quantity: Math.max(1, Math.min(1000, Math.floor(Number(item.quantity) || 1)))
+    }))
+    .filter(item => Number.isInteger(item.productId) && item.productId > 0)
+  if (requested.length === 0) return { subtotal: 0, lines: [] }
+
+  const productIds = [...new Set(requested.map(item => item.productId))]
+  const variantIds = [...new Set(requested.map(item => item.variantId).filter((id): id is number => id !== null))]
+
+  const [{ data: products, error: productsError }, { data: variants }, context] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, price, price_tiers, free_delivery, shipping_package, supplier_id, user_id')
+      .in('id', productIds),
+    variantIds.length > 0
+      ? supabase
+          .from('product_variants')
+          .select('id, product_id, price, price_tiers, primary_values, shipping_package')
+          .in('id', variantIds)
+      : Promise.resolve({ data: [] as any[] }),
+    loadOrderPricingContext(supabase, productIds, userId)
+  ])
+  if (productsError) {
+    logger.error('Error loading products for pricing:', productsError)
+    throw productsError
+  }
+
+  const productById = new Map<number, any>((products || []).map((p: any) => [Number(p.id), p]))
+  const variantById = new Map<number, any>((variants || []).map((v: any) => [Number(v.id), v]))
+
+  const lines: PricedOrderLine[] = []
+  let subtotal = 0
+  for (const item of requested) {
+    const product = productById.get(item.productId)
+    if (!product) continue
+    const candidate = item.variantId !== null ? variantById.get(item.variantId) : null
+    const variant = candidate && Number(candidate.product_id) === item.productId ? candidate : null
+    const price = priceOrderLine(context, { product, variant, variantId: item.variantId, quantity: item.quantity })
+    if (!price) continue
+    const totalPrice = price.unitPrice * item.quantity
+    subtotal += totalPrice
+    lines.push({ ...price, productId: item.productId, variantId: item.variantId, quantity: item.quantity, product, variant, totalPrice })
+  }
+  return { subtotal, lines }
+}
@@ -0,0 +1,451 @@
+/**
+ * Order returns
+ * Buyers open a return request for delivered items, one request per supplier in the order.
+ * Suppliers approve or reject it; an approved return issues a refund, reverses the supplier's payable
+ * and puts the returned units back in stock.
+ *
+ * Return status: requested -> approved (refund issued) | rejected
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { postRefundLedgerEntries, roundMoney } from './supplier-ledger'
+import { adjustStockForOrderItems } from './stock-decrement'
+import { reverseCoinsForRefund } from './loyalty-coins'
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected'
+
+export const RETURN_REASONS = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'missing_parts',
+  'no_longer_needed'
+] as const
+
+export type ReturnReason = typeof RETURN_REASONS[number]
+
+// Items can only be returned after they reach the buyer
+const RETURNABLE_ITEM_STATUSES = ['delivered', 'picked_up']
+
+export const MAX_RETURN_PHOTOS = 5
+
+// Matches the 30 day window on the returns & refunds support page
+export const RETURN_WINDOW_DAYS = 30
+
+// Processing time promised on /support/returns-refunds
+export const REFUND_TIMELINE = '3-5 business days'
+
+export interface ReturnRequestItem {
+  id?: string
+  return_request_id?: string
+  confirmed_order_item_id: string
+  product_id: number
+  variant_id: string | null
+  product_name: string | null
+  variant_name: string | null
+  quantity: number
+  unit_price: number
+  refund_amount: number
+}
+
+export interface ReturnRequest {
+  id: string
+  return_number: string
+  order_id: string
+  order_number: string
+  confirmed_order_id: string
+  user_id: string
+  supplier_id: string
+  reason: ReturnReason
+  details: string | null
+  photos: string[]
+  status: ReturnStatus
+  refund_amount: number
+  currency: string
+  supplier_note: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+  items?: ReturnRequestItem[]
+}
+
+/**
+ * issued: the refund has been approved and sent back through the original payment method
+ * due: the buyer is owed money (e.g. a paid order was cancelled) and finance still has to pay it out
+ */
+export type RefundStatus = 'issued' | 'due'
+
+export interface OrderRefund {
+  id: string
+  refund_number: string
+  return_request_id: string | null
+  order_id: string
+  order_number: string
+  user_id: string
+  supplier_id: string | null
+  amount: number
+  currency: string
+  method: string
+  source: 'return' | 'cancellation'
+  status: RefundStatus
+  created_at: string
+}
+
+export interface ReturnItemSelection {
+  itemKey: string
+  quantity: number
+}
+
+export function formatRefundMethod(method: string): string {
+  return method
+    .split('_')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ')
+}
+
+function generateNumber(prefix: string): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 8).toUpperCase()
+  return `${prefix}-${date}-${suffix}`
+}
+
+/**
+ * Match client item keys (`${product_id}-${variant_id || 'default'}-${index}`) back to confirmed items
+ * Keys are built from the same query order the order detail API uses; when the index no longer lines up
+ * we fall back to the first item with the same product and variant
+ */
+function resolveItemKey(items: any[], itemKey: string): any | null {
+  const match = itemKey.match(/^(\d+)-(.+)-(\d+)$/)
+  if (!match) return null
+
+  const [, productId, variantKey, index] = match
+  const sameProduct = (item: any) =>
+    String(item.product_id) === productId && String(item.variant_id || 'default') === variantKey
+
+  const byIndex = items[Number(index)]
+  if (byIndex && sameProduct(byIndex)) return byIndex
+  return items.find(sameProduct) || null
+}
+
+/**
+ * Open return requests for the selected items of a buyer's order
+ * Items are grouped by supplier so each supplier only reviews their own products
+ */
+export async function createReturnRequests(
+  supabase: SupabaseClient,
+  params: {
+    userId: string
+    orderNumber: string
+    reason: ReturnReason
+    details?: string | null
+    photos?: string[]
+    items: ReturnItemSelection[]
+  }
+): Promise<ReturnRequest[]> {
+  const { data: confirmedOrder } = await supabase
+    .from('confirmed_orders')
+    .select('id, order_id, order_number, user_id, received_at')
+    .eq('order_number', params.orderNumber)
+    .single()
+
+  if (!confirmedOrder || confirmedOrder.user_id !== params.userId) {
+    throw new ProductionError('Order not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  if (confirmedOrder.received_at) {
+    const windowEnd = new Date(confirmedOrder.received_at).getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    if (Date.now() > windowEnd) {
+      throw createValidationError(`Returns are only accepted within ${RETURN_WINDOW_DAYS} days of delivery`)
+    }
+  }
+
+  const { data: orderItems, error: itemsError } = await supabase
+    .from('confirmed_order_items')
+    .select('id, product_id, product_name, variant_id, variant_name, quantity, price, total_price, status')
+    .eq('confirmed_order_id', confirmedOrder.id)
+
+  if (itemsError) {
+    throw itemsError
+  }
+
+  // Quantities already covered by open or approved returns
+  const { data: previousReturns } = await supabase
+    .from('return_requests')
+    .select('status, return_request_items(confirmed_order_item_id, quantity)')
+    .eq('confirmed_order_id', confirmedOrder.id)
+    .in('status', ['requested', 'approved'])
+
+  const returnedQuantities = new Map<string, number>()
+  for (const previous of previousReturns || []) {
+    for (const item of (previous as any).return_request_items || []) {
+      returnedQuantities.set(
+        item.confirmed_order_item_id,
+        (returnedQuantities.get(item.confirmed_order_item_id) || 0) + (item.quantity || 0)
+      )
+    }
+  }
+
+  const selected: ReturnRequestItem[] = []
+  for (const selection of params.items) {
+    const item = resolveItemKey(orderItems || [], selection.itemKey)
+    if (!item) {
+      throw createValidationError('One of the selected items is not part of this order')
+    }
+    if (!RETURNABLE_ITEM_STATUSES.includes(item.status)) {
+      throw createValidationError(`${item.product_name || 'This item'} can only be returned after it has been delivered`)
+    }
+
+    const remaining = (item.quantity || 0) - (returnedQuantities.get(item.id) || 0)
+    const quantity = Math.floor(Number(selection.quantity) || 0)
+    if (quantity < 1 || quantity > remaining) {
+      throw createValidationError(
+        remaining > 0
+          ? `You can return at most ${remaining} of ${item.product_name || 'this item'}`
+          : `${item.product_name || 'This item'} already has a return in progress`
+      )
+    }
+
+    const unitPrice = Number(item.price) || 0
+    selected.push({
+      confirmed_order_item_id: item.id,
+      product_id: item.product_id,
+      variant_id: item.variant_id || null,
+      product_name: item.product_name || null,
+      variant_name: item.variant_name || null,
+      quantity,
+      unit_price: unitPrice,
+      refund_amount: roundMoney(unitPrice * quantity)
+    })
+    returnedQuantities.set(item.id, (returnedQuantities.get(item.id) || 0) + quantity)
+  }
+
+  if (selected.length === 0) {
+    throw createValidationError('Select at least one item to return')
+  }
+
+  const { data: products } = await supabase
+    .from('products')
+    .select('id, supplier_id, user_id')
+    .in('id', [...new Set(selected.map(item => item.product_id))])
+
+  const supplierByProduct = new Map<number, string>()
+  for (const product of products || []) {
+    const supplierId = product.supplier_id || product.user_id
+    if (supplierId) supplierByProduct.set(product.id, supplierId)
+  }
+
+  const bySupplier = new Map<string, ReturnRequestItem[]>()
+  for (const item of selected) {
+    const supplierId = supplierByProduct.get(item.product_id)
+    if (!supplierId) {
+      throw createValidationError(`${item.product_name || 'This item'} can no longer be returned`)
+    }
+    bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), item])
+  }
+
+  const created: ReturnRequest[] = []
+  for (const [supplierId, items] of bySupplier) {
+    const { data: request, error: requestError } = await supabase
+      .from('return_requests')
+      .insert({
+        return_number: generateNumber('RT'),
+        order_id: confirmedOrder.order_id,
+        order_number: confirmedOrder.order_number,
+        confirmed_order_id: confirmedOrder.id,
+        user_id: params.userId,
+        supplier_id: supplierId,
+        reason: params.reason,
+        details: params.details || null,
+        photos: (params.photos || []).slice(0, MAX_RETURN_PHOTOS),
+        status: 'requested',
+        refund_amount: roundMoney(items.reduce((sum, item) => sum + item.refund_amount, 0)),
+        currency: 'TZS'
+      })
+      .select('*')
+      .single()
+
+    if (requestError || !request) {
+      logger.error('Error creating return request', requestError)
+      throw requestError || new Error('Failed to create return request')
+    }
+
+    const { error: itemsInsertError } = await supabase
+      .from('return_request_items')
+      .insert(items.map(item => ({ ...item, return_request_id: request.id })))
+
+    if (itemsInsertError) {
+      logger.error(`Error adding items to return request ${request.return_number}`, itemsInsertError)
+      await supabase.from('return_requests').delete().eq('id', request.id)
+      throw itemsInsertError
+    }
+
+    created.push({ ...request, items })
+  }
+
+  return created
+}
+
+/**
+ * Record money owed back to the buyer for an order
+ * The refund goes back through the order's original payment method, and loyalty coins
+ * earned on the refunded amount are taken back
+ */
+export async function createOrderRefund(
+  supabase: SupabaseClient,
+  refund: {
+    order_id: string
+    order_number: string
+    user_id: string
+    supplier_id: string | null
+    return_request_id?: string | null
+    amount: number
+    source: OrderRefund['source']
+    status: RefundStatus
+  }
+): Promise<OrderRefund> {
+  const { data: order } = await supabase
+    .from('orders')
+    .select('payment_method, currency')
+    .eq('id', refund.order_id)
+    .single()
+
+  const { data, error } = await supabase
+    .from('order_refunds')
+    .insert({
+      ...refund,
+      return_request_id: refund.return_request_id || null,
+      refund_number: generateNumber('RF'),
+      amount: roundMoney(refund.amount),
+      currency: order?.currency || 'TZS',
+      method: order?.payment_method || 'original_payment_method'
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    logger.error(`Error recording ${refund.source} refund for order ${refund.order_number}`, error)
+    throw error || new Error('Failed to record refund')
+  }
+
+  await reverseCoinsForRefund(supabase, data as OrderRefund)
+  return data as OrderRefund
+}
+
+/**
+ * Return requests with their items, newest first
+ */
+export async function getReturnRequests(
+  supabase: SupabaseClient,
+  filter: { userId?: string; supplierId?: string; orderNumber?: string; status?: ReturnStatus }
+): Promise<ReturnRequest[]> {
+  let query = supabase
+    .from('return_requests')
+    .select('*, items:return_request_items(*)')
+    .order('created_at', { ascending: false })
+
+  if (filter.userId) query = query.eq('user_id', filter.userId)
+  if (filter.supplierId) query = query.eq('supplier_id', filter.supplierId)
+  if (filter.orderNumber) query = query.eq('order_number', filter.orderNumber)
+  if (filter.status) query = query.eq('status', filter.status)
+
+  const { data, error } = await query
+  if (error) {
+    throw error
+  }
+  return (data || []) as ReturnRequest[]
+}
+
+/**
+ * Approve or reject a pending return request on behalf of its supplier
+ * Approval issues the refund record and reverses the supplier's payable for the returned items
+ */
+export async function resolveReturnRequest(
+  supabase: SupabaseClient,
+  params: { returnRequestId: string; supplierId: string; action: 'approve' | 'reject'; note?: string | null }
+): Promise<{ request: ReturnRequest; refund: OrderRefund | null }> {
+  const { data: request } = await supabase
+    .from('return_requests')
+    .select('*, items:return_request_items(*)')
+    .eq('id', params.returnRequestId)
+    .eq('supplier_id', params.supplierId)
+    .single()
+
+  if (!request) {
+    throw new ProductionError('Return request not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  if (request.status !== 'requested') {
+    throw new ProductionError(`Return request is already ${request.status}`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const now = new Date().toISOString()
+  const status: ReturnStatus = params.action === 'approve' ? 'approved' : 'rejected'
+
+  // Guard on status so two reviewers can't resolve the same request
+  const { data: updated, error: updateError } = await supabase
+    .from('return_requests')
+    .update({ status, supplier_note: params.note || null, resolved_at: now, updated_at: now })
+    .eq('id', request.id)
+    .eq('status', 'requested')
+    .select('*')
+    .single()
+
+  if (updateError || !updated) {
+    throw new ProductionError('Return request was updated by someone else, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const resolved = { ...updated, items: request.items } as ReturnRequest
+  if (status === 'rejected') {
+    return { request: resolved, refund: null }
+  }
+
+  const refund = await createOrderRefund(supabase, {
+    order_id: request.order_id,
+    order_number: request.order_number,
+    user_id: request.user_id,
+    supplier_id: request.supplier_id,
+    return_request_id: request.id,
+    amount: Number(request.refund_amount) || 0,
+    source: 'return',
+    status: 'issued'
+  })
+
+  await postRefundLedgerEntries(
+    supabase,
+    {
+      id: refund.id,
+      supplier_id: request.supplier_id,
+      order_id: request.order_id,
+      order_number: request.order_number,
+      confirmed_order_id: request.confirmed_order_id,
+      currency: refund.currency
+    },
+    (request.items || []).map((item: ReturnRequestItem) => ({
+      confirmed_order_item_id: item.confirmed_order_item_id,
+      product_id: item.product_id,
+      amount: Number(item.refund_amount) || 0
+    }))
+  )
+
+  // Returned units go back on the shelf
+  await adjustStockForOrderItems(
+    supabase,
+    (request.items || []).map((item: ReturnRequestItem) => ({
+      product_id: item.product_id,
+      variant_name: item.variant_name,
+      quantity: item.quantity
+    })),
+    'restore',
+    {
+      reason: 'return',
+      order_id: request.order_id,
+      order_number: request.order_number,
+      actor_id: params.supplierId,
+      note: request.return_number
+    }
+  )
+
+  return { request: resolved, refund }
+}
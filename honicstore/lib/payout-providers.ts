@@ -0,0 +1,122 @@
+/**
+ * Payout providers
+ * Pluggable disbursement backends used by the supplier payout batch job.
+ * Select one with PAYOUT_PROVIDER=clickpesa|mock (defaults to mock outside production)
+ */
+
+import { logger } from './logger'
+import { initiateClickPesaPayout, queryClickPesaPayoutStatus, formatAmountForClickPesa } from './clickpesa-api'
+
+export interface PayoutDestination {
+  account_type: 'bank' | 'mobile_money' | 'paypal'
+  account_name: string
+  account_number?: string | null
+  bank_name?: string | null
+  mobile_provider?: string | null
+  mobile_number?: string | null
+  paypal_email?: string | null
+}
+
+export interface DisbursementRequest {
+  reference: string
+  amount: number
+  currency: string
+  destination: PayoutDestination
+}
+
+/**
+ * sent: provider accepted the disbursement, final outcome not known yet
+ * reconciled: provider confirmed the money arrived
+ * failed: provider rejected or reversed the disbursement
+ */
+export interface DisbursementResult {
+  status: 'sent' | 'reconciled' | 'failed'
+  providerReference?: string
+  message?: string
+}
+
+export interface PayoutProvider {
+  name: string
+  disburse(request: DisbursementRequest): Promise<DisbursementResult>
+  checkStatus(reference: string): Promise<DisbursementResult>
+}
+
+function mapClickPesaPayoutStatus(status: string): DisbursementResult['status'] {
+  if (status === 'SUCCESS' || status === 'SETTLED') return 'reconciled'
+  if (status === 'FAILED' || status === 'REVERSED' || status === 'ERROR') return 'failed'
+  return 'sent'
+}
+
+export const clickPesaPayoutProvider: PayoutProvider = {
+  name: 'clickpesa',
+
+  async disburse(request) {
+    const { destination } = request
+    if (destination.account_type === 'paypal') {
+      return { status: 'failed', message: 'PayPal payouts are not supported by ClickPesa' }
+    }
+
+    const channel = destination.account_type === 'mobile_money' ? 'mobile_money' : 'bank'
+    const result = await initiateClickPesaPayout({
+      amount: formatAmountForClickPesa(request.amount),
+      currency: request.currency === 'USD' ? 'USD' : 'TZS',
+      orderReference: request.reference,
+      phoneNumber: destination.mobile_number || undefined,
+      accountNumber: destination.account_number || undefined,
+      accountName: destination.account_name,
+      bankName: destination.bank_name || undefined
+    }, channel)
+
+    if (!result.accepted) {
+      return { status: 'failed', providerReference: result.payoutId, message: result.error || result.message }
+    }
+    return {
+      status: mapClickPesaPayoutStatus(result.status),
+      providerReference: result.payoutId,
+      message: result.message
+    }
+  },
+
+  async checkStatus(reference) {
+    const result = await queryClickPesaPayoutStatus(reference)
+    if (result.status === 'UNKNOWN' || (result.status === 'ERROR' && result.error)) {
+      // Can't tell yet - keep it as sent and retry on the next run
+      return { status: 'sent', message: result.error }
+    }
+    return {
+      status: mapClickPesaPayoutStatus(result.status),
+      providerReference: result.payoutId,
+      message: result.message || result.error
+    }
+  }
+}
+
+/**
+ * Local mock provider for development and testing
+ * Accepts everything and reconciles on the next status check, except destinations whose
+ * account or mobile number contains "FAIL", which are rejected immediately
+ */
+export function createMockPayoutProvider(): PayoutProvider {
+  return {
+    name: 'mock',
+
+    async disburse(request) {
+      const target = `${request.destination.account_number || ''}${request.destination.mobile_number || ''}`
+      if (target.toUpperCase().includes('FAIL')) {
+        return { status: 'failed', message: 'Mock provider rejected destination' }
+      }
+      logger.log(`💸 [mock payout] ${request.reference}: ${request.currency} ${request.amount} -> ${request.destination.account_name}`)
+      return { status: 'sent', providerReference: `MOCK-${request.reference}` }
+    },
+
+    async checkStatus(reference) {
+      return { status: 'reconciled', providerReference: `MOCK-${reference}` }
+    }
+  }
+}
+
+export function getPayoutProvider(name: string | undefined = process.env.PAYOUT_PROVIDER): PayoutProvider {
+  const providerName = (name || (process.env.NODE_ENV === 'production' ? 'clickpesa' : 'mock')).toLowerCase()
+  if (providerName === 'clickpesa') return clickPesaPayoutProvider
+  return createMockPayoutProvider()
+}
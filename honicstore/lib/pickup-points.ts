@@ -0,0 +1,759 @@
+/**
+ * Pickup points
+ * Pickup orders are collected from a pickup point: the store or a partner shop, each with an
+ * address, coordinates, weekly opening hours and a daily capacity. The buyer picks one at checkout
+ * from suggestions ranked by how close it is to their region, district and ward; the order keeps
+ * it in orders.pickup_point_id. A point is full for the day once daily_capacity pickup orders
+ * placed that day (East Africa Time) name it.
+ *
+ * Suppliers mark their items delivered when the parcel reaches the point. Once nothing is left in
+ * transit the order is ready (orders.pickup_ready_at) and a daily cron reminds buyers whose parcel
+ * has waited PICKUP_REMINDER_DAYS, up to MAX_PICKUP_REMINDERS times. The buyer shows a QR of the
+ * pickup ID; the point's staff (pickup_points.staff_ids) or an admin scan it and confirm the
+ * handover, which moves the items to picked_up.
+ *
+ * Order pickup fields: pickup_point_id, pickup_ready_at, pickup_reminders_sent,
+ * pickup_last_reminded_at, picked_up_at, picked_up_by
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { haversineDistanceKm, normalizeLocationKey } from './shipping-calculator'
+import { DISTRICTS_BY_REGION, WARDS_BY_DISTRICT } from './tanzania-address'
+import { isValidUUID } from './order-ids'
+import { recordOrderEvents } from './order-events'
+import { awardCoinsForOrder } from './loyalty-coins'
+import { buildUrl } from './url-utils'
+
+const POINTS_TABLE = 'pickup_points'
+
+export const MAX_DAILY_CAPACITY = 10000
+export const MAX_PICKUP_POINT_STAFF = 50
+export const PICKUP_REMINDER_DAYS = Math.max(1, parseInt(process.env.PICKUP_REMINDER_DAYS || '3') || 3)
+export const MAX_PICKUP_REMINDERS = 3
+
+// Opening hours and "today" are in East Africa Time, which has no daylight saving
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000
+
+// Orders that no longer hold a pickup slot
+const RELEASED_ORDER_STATUSES = ['cancelled', 'expired', 'payment_failed']
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export interface PickupOpeningHours {
+  // 0 = Sunday
+  day: number
+  // "HH:MM", 24-hour
+  open: string
+  close: string
+}
+
+export interface PickupPoint {
+  id: number
+  name: string
+  region: string
+  district: string | null
+  ward: string | null
+  address: string
+  lat: number | null
+  lon: number | null
+  phone: string | null
+  opening_hours: PickupOpeningHours[]
+  daily_capacity: number
+  instructions: string | null
+  staff_ids: string[]
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface PickupPointInput {
+  name?: string
+  region?: string
+  district?: string | null
+  ward?: string | null
+  address?: string
+  lat?: number | null
+  lon?: number | null
+  phone?: string | null
+  openingHours?: PickupOpeningHours[]
+  dailyCapacity?: number
+  instructions?: string | null
+  staffIds?: string[]
+  isActive?: boolean
+}
+
+export type PickupPointMatch = 'ward' | 'district' | 'region' | 'other'
+
+export interface PickupPointSuggestion {
+  id: number
+  name: string
+  region: string
+  district: string | null
+  ward: string | null
+  address: string
+  phone: string | null
+  lat: number | null
+  lon: number | null
+  hours: string
+  openNow: boolean
+  instructions: string | null
+  remainingToday: number
+  isFull: boolean
+  distanceKm: number | null
+  match: PickupPointMatch
+}
+
+export interface PickupHandoverItem {
+  id: string
+  productName: string
+  variantName: string | null
+  quantity: number
+  status: string
+}
+
+export interface PickupHandover {
+  orderId: string
+  orderNumber: string
+  pickupId: string
+  pickupPointId: number | null
+  pickupPointName: string | null
+  customerName: string | null
+  readyAt: string | null
+  pickedUpAt: string | null
+  items: PickupHandoverItem[]
+}
+
+function cleanText(value: unknown, max: number): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ').slice(0, max) : null
+}
+
+function eatDate(now: Date): Date {
+  return new Date(now.getTime() + EAT_OFFSET_MS)
+}
+
+/**
+ * Start of the current East Africa Time day, as a UTC timestamp
+ */
+function startOfPickupDay(now: Date = new Date()): string {
+  const local = eatDate(now)
+  local.setUTCHours(0, 0, 0, 0)
+  return new Date(local.getTime() - EAT_OFFSET_MS).toISOString()
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export function normalizeOpeningHours(value: unknown): PickupOpeningHours[] {
+  if (!Array.isArray(value)) {
+    throw createValidationError('Opening hours must be a list of days', 'openingHours')
+  }
+
+  const seen = new Set<number>()
+  const hours: PickupOpeningHours[] = []
+  for (const entry of value) {
+    const day = Number(entry?.day)
+    const open = typeof entry?.open === 'string' ? entry.open.trim() : ''
+    const close = typeof entry?.close === 'string' ? entry.close.trim() : ''
+    if (!Number.isInteger(day) || day < 0 || day > 6) {
+      throw createValidationError('Each day must be 0 (Sunday) to 6 (Saturday)', 'openingHours')
+    }
+    if (seen.has(day)) {
+      throw createValidationError(`${DAY_NAMES[day]} is listed more than once`, 'openingHours')
+    }
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(open) || !/^([01]\d|2[0-3]):[0-5]\d$/.test(close)) {
+      throw createValidationError(`${DAY_NAMES[day]}: times must be HH:MM`, 'openingHours')
+    }
+    if (toMinutes(close) <= toMinutes(open)) {
+      throw createValidationError(`${DAY_NAMES[day]}: closing time must be after opening time`, 'openingHours')
+    }
+    seen.add(day)
+    hours.push({ day, open, close })
+  }
+  return hours.sort((a, b) => a.day - b.day)
+}
+
+/**
+ * e.g. "Mon-Fri 09:00-18:00, Sat 09:00-14:00"; consecutive days with the same hours are merged
+ */
+export function formatOpeningHours(hours: PickupOpeningHours[] | null | undefined): string {
+  const sorted = [...(hours || [])].sort((a, b) => a.day - b.day)
+  if (sorted.length === 0) return 'Hours not listed'
+
+  const groups: Array<{ from: number; to: number; open: string; close: string }> = []
+  for (const entry of sorted) {
+    const last = groups[groups.length - 1]
+    if (last && last.to === entry.day - 1 && last.open === entry.open && last.close === entry.close) {
+      last.to = entry.day
+    } else {
+      groups.push({ from: entry.day, to: entry.day, open: entry.open, close: entry.close })
+    }
+  }
+  return groups
+    .map(group => {
+      const days = group.from === group.to ? DAY_NAMES[group.from] : `${DAY_NAMES[group.from]}-${DAY_NAMES[group.to]}`
+      return `${days} ${group.open}-${group.close}`
+    })
+    .join(', ')
+}
+
+export function isPickupPointOpen(point: Pick<PickupPoint, 'opening_hours'>, now: Date = new Date()): boolean {
+  const local = eatDate(now)
+  const today = (point.opening_hours || []).find(entry => entry.day === local.getUTCDay())
+  if (!today) return false
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes()
+  return minutes >= toMinutes(today.open) && minutes < toMinutes(today.close)
+}
+
+export function formatPickupPointLocation(point: Pick<PickupPoint, 'name' | 'address' | 'ward' | 'district' | 'region'>): string {
+  const area = [point.ward, point.district, point.region].filter(Boolean).join(', ')
+  return [point.name, point.address, area].filter(Boolean).join('\n')
+}
+
+export function normalizePickupPointInput(body: Record<string, any>): PickupPointInput {
+  const input: PickupPointInput = {}
+
+  if (body.name !== undefined) {
+    const name = cleanText(body.name, 100)
+    if (!name) throw createValidationError('Name is required', 'name')
+    input.name = name
+  }
+  if (body.region !== undefined) {
+    const region = cleanText(body.region, 100)
+    if (!region) throw createValidationError('Region is required', 'region')
+    input.region = region
+  }
+  if (body.district !== undefined) input.district = cleanText(body.district, 100)
+  if (body.ward !== undefined) input.ward = cleanText(body.ward, 100)
+  if (body.address !== undefined) {
+    const address = cleanText(body.address, 300)
+    if (!address) throw createValidationError('Address is required', 'address')
+    input.address = address
+  }
+  if (body.lat !== undefined || body.lon !== undefined) {
+    const empty = (value: unknown) => value === undefined || value === null || value === ''
+    if (empty(body.lat) && empty(body.lon)) {
+      input.lat = null
+      input.lon = null
+    } else {
+      const lat = Number(body.lat)
+      const lon = Number(body.lon)
+      if (empty(body.lat) || empty(body.lon) || !Number.isFinite(lat) || !Number.isFinite(lon) ||
+          lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+        throw createValidationError('Coordinates need a valid latitude and longitude', 'lat')
+      }
+      input.lat = lat
+      input.lon = lon
+    }
+  }
+  if (body.phone !== undefined) input.phone = cleanText(body.phone, 30)
+  if (body.openingHours !== undefined) input.openingHours = normalizeOpeningHours(body.openingHours)
+  if (body.dailyCapacity !== undefined) {
+    const capacity = Number(body.dailyCapacity)
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_DAILY_CAPACITY) {
+      throw createValidationError(`Daily capacity must be a whole number from 1 to ${MAX_DAILY_CAPACITY}`, 'dailyCapacity')
+    }
+    input.dailyCapacity = capacity
+  }
+  if (body.instructions !== undefined) input.instructions = cleanText(body.instructions, 1000)
+  if (body.staffIds !== undefined) {
+    if (!Array.isArray(body.staffIds) || body.staffIds.length > MAX_PICKUP_POINT_STAFF ||
+        body.staffIds.some((id: unknown) => typeof id !== 'string' || !isValidUUID(id))) {
+      throw createValidationError(`Staff must be a list of up to ${MAX_PICKUP_POINT_STAFF} user IDs`, 'staffIds')
+    }
+    input.staffIds = [...new Set<string>(body.staffIds)]
+  }
+  if (body.isActive !== undefined) input.isActive = body.isActive === true
+  return input
+}
+
+function toPickupPointRow(input: PickupPointInput): Record<string, any> {
+  const row: Record<string, any> = {}
+  if (input.name !== undefined) row.name = input.name
+  if (input.region !== undefined) row.region = input.region
+  if (input.district !== undefined) row.district = input.district
+  if (input.ward !== undefined) row.ward = input.ward
+  if (input.address !== undefined) row.address = input.address
+  if (input.lat !== undefined) row.lat = input.lat
+  if (input.lon !== undefined) row.lon = input.lon
+  if (input.phone !== undefined) row.phone = input.phone
+  if (input.openingHours !== undefined) row.opening_hours = input.openingHours
+  if (input.dailyCapacity !== undefined) row.daily_capacity = input.dailyCapacity
+  if (input.instructions !== undefined) row.instructions = input.instructions
+  if (input.staffIds !== undefined) row.staff_ids = input.staffIds
+  if (input.isActive !== undefined) row.is_active = input.isActive
+  return row
+}
+
+export async function getPickupPoints(
+  supabase: SupabaseClient,
+  options: { activeOnly?: boolean } = {}
+): Promise<PickupPoint[]> {
+  let query = supabase.from(POINTS_TABLE).select('*').order('region').order('name')
+  if (options.activeOnly) query = query.eq('is_active', true)
+
+  const { data, error } = await query
+  if (error) {
+    logger.error('Error loading pickup points:', error)
+    throw new ProductionError('Failed to load pickup points', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (data || []) as PickupPoint[]
+}
+
+export async function getPickupPoint(supabase: SupabaseClient, pointId: number): Promise<PickupPoint> {
+  const { data, error } = await supabase
+    .from(POINTS_TABLE)
+    .select('*')
+    .eq('id', pointId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading pickup point:', error)
+    throw new ProductionError('Failed to load pickup point', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('Pickup point not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return data as PickupPoint
+}
+
+export async function createPickupPoint(supabase: SupabaseClient, input: PickupPointInput): Promise<PickupPoint> {
+  if (!input.name) throw createValidationError('Name is required', 'name')
+  if (!input.region) throw createValidationError('Region is required', 'region')
+  if (!input.address) throw createValidationError('Address is required', 'address')
+  if (!input.dailyCapacity) throw createValidationError('Daily capacity is required', 'dailyCapacity')
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from(POINTS_TABLE)
+    .insert({
+      opening_hours: [],
+      staff_ids: [],
+      is_active: true,
+      ...toPickupPointRow(input),
+      created_at: now,
+      updated_at: now
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    logger.error('Error creating pickup point:', error)
+    throw new ProductionError('Failed to create pickup point', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return data as PickupPoint
+}
+
+export async function updatePickupPoint(
+  supabase: SupabaseClient,
+  pointId: number,
+  input: PickupPointInput
+): Promise<PickupPoint> {
+  await getPickupPoint(supabase, pointId)
+
+  const { data, error } = await supabase
+    .from(POINTS_TABLE)
+    .update({ ...toPickupPointRow(input), updated_at: new Date().toISOString() })
+    .eq('id', pointId)
+    .select('*')
+    .single()
+
+  if (error) {
+    logger.error('Error updating pickup point:', error)
+    throw new ProductionError('Failed to update pickup point', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return data as PickupPoint
+}
+
+/**
+ * Pickup orders placed today that still hold a slot, per point
+ */
+export async function getPickupLoadToday(supabase: SupabaseClient, pointIds: number[]): Promise<Map<number, number>> {
+  const load = new Map<number, number>()
+  if (pointIds.length === 0) return load
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select('pickup_point_id')
+    .in('pickup_point_id', pointIds)
+    .gte('created_at', startOfPickupDay())
+    .not('status', 'in', `(${RELEASED_ORDER_STATUSES.join(',')})`)
+
+  if (error) {
+    logger.error('Error counting pickup point load:', error)
+    throw new ProductionError('Failed to check pickup point capacity', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  for (const row of data || []) {
+    load.set(row.pickup_point_id, (load.get(row.pickup_point_id) || 0) + 1)
+  }
+  return load
+}
+
+/**
+ * Fill in the district and region of a ward or district the buyer picked on its own
+ */
+function resolveBuyerArea(area: { region?: string | null; district?: string | null; ward?: string | null }) {
+  let region = cleanText(area.region, 100)
+  let district = cleanText(area.district, 100)
+  const ward = cleanText(area.ward, 100)
+
+  if (!district && ward) {
+    const wardKey = normalizeLocationKey(ward)
+    district = Object.keys(WARDS_BY_DISTRICT).find(name =>
+      WARDS_BY_DISTRICT[name].some(candidate => normalizeLocationKey(candidate) === wardKey)
+    ) || null
+  }
+  if (!region && district) {
+    const districtKey = normalizeLocationKey(district)
+    region = Object.keys(DISTRICTS_BY_REGION).find(name =>
+      DISTRICTS_BY_REGION[name].some(candidate => normalizeLocationKey(candidate) === districtKey)
+    ) || null
+  }
+  return { region, district, ward }
+}
+
+const MATCH_RANK: Record<PickupPointMatch, number> = { ward: 0, district: 1, region: 2, other: 3 }
+
+/**
+ * Active pickup points nearest the buyer: same ward first, then district, then region, then the
+ * rest; by distance within each when the buyer's coordinates are known, else by name
+ */
+export async function suggestPickupPoints(
+  supabase: SupabaseClient,
+  area: { region?: string | null; district?: string | null; ward?: string | null; lat?: number | null; lon?: number | null },
+  options: { limit?: number; now?: Date } = {}
+): Promise<PickupPointSuggestion[]> {
+  const points = await getPickupPoints(supabase, { activeOnly: true })
+  const load = await getPickupLoadToday(supabase, points.map(point => point.id))
+  const { region, district, ward } = resolveBuyerArea(area)
+  const lat = typeof area.lat === 'number' && Number.isFinite(area.lat) ? area.lat : null
+  const lon = typeof area.lon === 'number' && Number.isFinite(area.lon) ? area.lon : null
+  const same = (a: string | null, b: string | null) => !!a && !!b && normalizeLocationKey(a) === normalizeLocationKey(b)
+
+  const suggestions = points.map((point): PickupPointSuggestion => {
+    const match: PickupPointMatch = same(point.region, region)
+      ? same(point.district, district)
+        ? same(point.ward, ward) ? 'ward' : 'district'
+        : 'region'
+      : 'other'
+    const remaining = Math.max(0, point.daily_capacity - (load.get(point.id) || 0))
+    return {
+      id: point.id,
+      name: point.name,
+      region: point.region,
+      district: point.district,
+      ward: point.ward,
+      address: point.address,
+      phone: point.phone,
+      lat: point.lat,
+      lon: point.lon,
+      hours: formatOpeningHours(point.opening_hours),
+      openNow: isPickupPointOpen(point, options.now),
+      instructions: point.instructions,
+      remainingToday: remaining,
+      isFull: remaining === 0,
+      distanceKm: lat !== null && lon !== null && point.lat !== null && point.lon !== null
+        ? Math.round(haversineDistanceKm(lat, lon, point.lat, point.lon) * 10) / 10
+        : null,
+      match
+    }
+  })
+
+  suggestions.sort((a, b) =>
+    MATCH_RANK[a.match] - MATCH_RANK[b.match] ||
+    (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) ||
+    a.name.localeCompare(b.name)
+  )
+  return suggestions.slice(0, options.limit ?? 20)
+}
+
+/**
+ * The pickup point an order is being placed for, if it is open to new orders today
+ */
+export async function assertPickupPointAvailable(supabase: SupabaseClient, pointId: number): Promise<PickupPoint> {
+  const point = await getPickupPoint(supabase, pointId).catch(error => {
+    if (error instanceof ProductionError && error.statusCode === 404) {
+      throw createValidationError('Choose a pickup point', 'pickupPointId')
+    }
+    throw error
+  })
+  if (!point.is_active) {
+    throw new ProductionError(`${point.name} no longer takes pickup orders, please choose another pickup point`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  const load = await getPickupLoadToday(supabase, [point.id])
+  if ((load.get(point.id) || 0) >= point.daily_capacity) {
+    throw new ProductionError(`${point.name} is full for today, please choose another pickup point`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  return point
+}
+
+/**
+ * Recount a point once the pickup order naming it has been inserted, the way stock holds are
+ * checked: orders racing for the last slot each see the other and at worst both are refused.
+ * The caller removes its order on the 409.
+ */
+export async function confirmPickupPointCapacity(
+  supabase: SupabaseClient,
+  point: Pick<PickupPoint, 'id' | 'name' | 'daily_capacity'>
+): Promise<void> {
+  const load = await getPickupLoadToday(supabase, [point.id])
+  if ((load.get(point.id) || 0) > point.daily_capacity) {
+    throw new ProductionError(`${point.name} is full for today, please choose another pickup point`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+}
+
+/**
+ * Start the pickup wait once no item of a pickup order is still on its way to the point
+ */
+export async function markPickupReadyIfArrived(supabase: SupabaseClient, confirmedOrderId: string, orderId: string): Promise<void> {
+  const { data: openItems, error } = await supabase
+    .from('confirmed_order_items')
+    .select('id')
+    .eq('confirmed_order_id', confirmedOrderId)
+    .not('status', 'in', '(delivered,picked_up,cancelled)')
+
+  if (error || (openItems && openItems.length > 0)) {
+    if (error) logger.error('Error checking pickup readiness:', error)
+    return
+  }
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({ pickup_ready_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('delivery_option', 'pickup')
+    .is('pickup_ready_at', null)
+
+  if (updateError) {
+    logger.error(`Error marking order ${orderId} ready for pickup:`, updateError)
+  }
+}
+
+/**
+ * Pickup ID from whatever the scanner read: the QR holds the pickup desk URL, staff may type the ID
+ */
+export function parsePickupCode(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null
+  let code = value.trim()
+  try {
+    const url = new URL(code)
+    code = url.searchParams.get('code') || ''
+  } catch {
+    // Not a URL, the ID itself
+  }
+  code = code.trim()
+  // formatPickupId adds dashes after the date and time; the nanoid part may hold its own
+  const formatted = /^(\d{8})-(\d{6})-([A-Za-z0-9_-]{8})$/.exec(code)
+  if (formatted) code = formatted.slice(1).join('')
+  return /^\d{14}[A-Za-z0-9_-]{8}$/.test(code) ? code : null
+}
+
+/**
+ * What the pickup QR encodes: the pickup desk with the order's code filled in, so any camera app works
+ */
+export function pickupQrValue(pickupId: string): string {
+  return buildUrl('/pickup-desk', { code: pickupId })
+}
+
+async function getPickupOrder(supabase: SupabaseClient, code: string) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, order_number, pickup_id, user_id, delivery_option, pickup_point_id, pickup_ready_at, picked_up_at, shipping_address, billing_address')
+    .eq('pickup_id', code)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading pickup order:', error)
+    throw new ProductionError('Failed to load order', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!order || order.delivery_option !== 'pickup') {
+    throw new ProductionError('No pickup order matches this code', ErrorCodes.NOT_FOUND, 404)
+  }
+  return order
+}
+
+/**
+ * Staff may hand over orders for a point they work at; admins may hand over any
+ */
+async function assertCanHandOver(
+  supabase: SupabaseClient,
+  order: { pickup_point_id: number | null },
+  staff: { userId: string; isAdmin: boolean }
+): Promise<PickupPoint | null> {
+  const point = order.pickup_point_id ? await getPickupPoint(supabase, order.pickup_point_id) : null
+  if (staff.isAdmin) return point
+  if (!point || !(point.staff_ids || []).includes(staff.userId)) {
+    throw new ProductionError("Only staff at this order's pickup point can hand it over", ErrorCodes.FORBIDDEN, 403)
+  }
+  return point
+}
+
+/**
+ * The order behind a scanned pickup code, for staff to check before handing it over
+ */
+export async function getPickupHandover(
+  supabase: SupabaseClient,
+  code: string,
+  staff: { userId: string; isAdmin: boolean }
+): Promise<PickupHandover> {
+  const order = await getPickupOrder(supabase, code)
+  const point = await assertCanHandOver(supabase, order, staff)
+
+  const { data: confirmedOrder } = await supabase
+    .from('confirmed_orders')
+    .select('id')
+    .eq('order_id', order.id)
+    .maybeSingle()
+
+  const { data: items } = confirmedOrder
+    ? await supabase
+        .from('confirmed_order_items')
+        .select('id, product_name, variant_name, quantity, status')
+        .eq('confirmed_order_id', confirmedOrder.id)
+    : { data: [] as any[] }
+
+  const contact = order.billing_address?.fullName ? order.billing_address : order.shipping_address
+  return {
+    orderId: order.id,
+    orderNumber: order.order_number,
+    pickupId: order.pickup_id,
+    pickupPointId: order.pickup_point_id,
+    pickupPointName: point?.name || null,
+    customerName: contact?.fullName || null,
+    readyAt: order.pickup_ready_at,
+    pickedUpAt: order.picked_up_at,
+    items: (items || []).map((item: any) => ({
+      id: item.id,
+      productName: item.product_name,
+      variantName: item.variant_name || null,
+      quantity: item.quantity,
+      status: item.status
+    }))
+  }
+}
+
+/**
+ * Hand the parcel to the buyer: items that reached the point become picked_up. Items still in
+ * transit stay open, and the order is complete once none are left.
+ */
+export async function confirmPickupHandover(
+  supabase: SupabaseClient,
+  code: string,
+  staff: { userId: string; isAdmin: boolean }
+): Promise<{ handover: PickupHandover; handedOver: number; completed: boolean; coinsEarned: number }> {
+  const handover = await getPickupHandover(supabase, code, staff)
+  if (handover.items.length === 0) {
+    throw new ProductionError('This order has not been paid yet', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const ready = handover.items.filter(item => item.status === 'delivered')
+  if (ready.length === 0) {
+    const message = handover.items.every(item => item.status === 'picked_up' || item.status === 'cancelled')
+      ? 'This order has already been collected'
+      : 'The parcel has not reached the pickup point yet'
+    throw new ProductionError(message, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: updated, error } = await supabase
+    .from('confirmed_order_items')
+    .update({ status: 'picked_up' })
+    .in('id', ready.map(item => item.id))
+    .eq('status', 'delivered')
+    .select('id, confirmed_order_id, products(user_id, supplier_id)')
+
+  if (error) {
+    logger.error('Error confirming pickup handover:', error)
+    throw new ProductionError('Failed to confirm handover', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!updated || updated.length === 0) {
+    throw new ProductionError('This order has just been handed over, please scan again', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  await recordOrderEvents(supabase, updated.map((item: any) => ({
+    order_id: handover.orderId,
+    order_number: handover.orderNumber,
+    confirmed_order_item_id: item.id,
+    supplier_id: item.products?.supplier_id || item.products?.user_id || null,
+    status: 'picked_up',
+    actor_id: staff.userId,
+    actor_role: staff.isAdmin ? 'admin' as const : 'pickup_point' as const,
+    source: 'pickup_handover',
+    note: handover.pickupPointName
+  })))
+
+  const updatedIds = new Set(updated.map((item: any) => item.id))
+  const completed = handover.items.every(item =>
+    updatedIds.has(item.id) || item.status === 'picked_up' || item.status === 'cancelled'
+  )
+
+  const now = new Date().toISOString()
+  let coinsEarned = 0
+  if (completed) {
+    await supabase
+      .from('confirmed_orders')
+      .update({ status: 'picked_up', updated_at: now })
+      .eq('id', updated[0].confirmed_order_id)
+    await supabase
+      .from('orders')
+      .update({ picked_up_at: now, picked_up_by: staff.userId })
+      .eq('id', handover.orderId)
+    coinsEarned = await awardCoinsForOrder(supabase, handover.orderId)
+  }
+
+  return {
+    handover: {
+      ...handover,
+      pickedUpAt: completed ? now : handover.pickedUpAt,
+      items: handover.items.map(item => (updatedIds.has(item.id) ? { ...item, status: 'picked_up' } : item))
+    },
+    handedOver: updated.length,
+    completed,
+    coinsEarned
+  }
+}
+
+/**
+ * Ready pickup orders whose parcel has waited PICKUP_REMINDER_DAYS since it arrived or since the
+ * last reminder
+ */
+export async function getPickupOrdersDueReminder(
+  supabase: SupabaseClient,
+  options: { limit?: number; now?: Date } = {}
+): Promise<Array<Record<string, any>>> {
+  const cutoff = new Date((options.now ?? new Date()).getTime() - PICKUP_REMINDER_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id, order_number, pickup_id, user_id, pickup_point_id, pickup_ready_at, pickup_reminders_sent, pickup_last_reminded_at, shipping_address, billing_address')
+    .eq('delivery_option', 'pickup')
+    .not('pickup_ready_at', 'is', null)
+    .lte('pickup_ready_at', cutoff)
+    .is('picked_up_at', null)
+    .or(`pickup_last_reminded_at.is.null,pickup_last_reminded_at.lte.${cutoff}`)
+    .not('status', 'in', `(${RELEASED_ORDER_STATUSES.join(',')})`)
+    .order('pickup_ready_at', { ascending: true })
+    .limit(options.limit ?? 100)
+
+  if (error) {
+    logger.error('Error loading pickup orders due a reminder:', error)
+    throw new ProductionError('Failed to load pickup orders', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (data || []).filter(order => (order.pickup_reminders_sent || 0) < MAX_PICKUP_REMINDERS)
+}
+
+export async function recordPickupReminder(supabase: SupabaseClient, order: { id: string; pickup_reminders_sent?: number | null }): Promise<void> {
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      pickup_reminders_sent: (order.pickup_reminders_sent || 0) + 1,
+      pickup_last_reminded_at: new Date().toISOString()
+    })
+    .eq('id', order.id)
+
+  if (error) {
+    logger.error(`Error recording pickup reminder for order ${order.id}:`, error)
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * Platform coupons
+ * Marketplace-wide discount codes, as opposed to supplier_promotions which only cover one supplier's products.
+ * Coupons can be open to everyone or assigned_only, in which case a buyer needs it in their wallet
+ * (buyer_coupons) to use it. Wallet entries are handed out automatically for a first order, a birthday
+ * or an abandoned cart. Every use is a coupon_redemptions row, which is what per-user and total limits count.
+ * A use made through a wallet entry counts against that entry, so a coupon handed out once per occasion
+ * (each birthday, each abandoned cart) can be used again on the next occasion.
+ * Codes share one namespace with supplier promotions, and the platform coupon wins a lookup.
+ *
+ * Redemption status: applied -> released (order cancelled or expired unpaid)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { roundMoney } from './supplier-ledger'
+
+export type CouponKind = 'general' | 'first_order' | 'birthday' | 'abandoned_cart'
+
+export type WalletCouponStatus = 'active' | 'used' | 'expired'
+
+export interface PlatformCoupon {
+  id: string
+  code: string
+  name: string
+  description: string | null
+  kind: CouponKind
+  discount_type: 'percentage' | 'fixed'
+  discount_value: number
+  max_discount_amount: number | null
+  min_purchase_amount: number | null
+  starts_at: string
+  ends_at: string | null
+  is_active: boolean
+  assigned_only: boolean
+  // Total uses across all buyers; null for unlimited
+  usage_limit: number | null
+  per_user_limit: number
+  // How long a wallet entry stays valid after it is handed out; null to follow ends_at
+  valid_days: number | null
+  created_at: string
+}
+
+export interface BuyerCoupon {
+  id: string
+  user_id: string
+  coupon_id: string
+  source: CouponKind | 'manual'
+  // What the coupon was handed out for (birthday year, abandoned cart id) so it is only given once
+  source_reference: string | null
+  expires_at: string | null
+  created_at: string
+  coupon?: PlatformCoupon
+}
+
+export interface CouponRedemption {
+  id: string
+  coupon_id: string
+  buyer_coupon_id: string | null
+  user_id: string
+  order_id: string
+  order_number: string
+  discount_amount: number
+  status: 'applied' | 'released'
+  created_at: string
+}
+
+export interface WalletCoupon {
+  code: string
+  name: string
+  description: string | null
+  kind: CouponKind
+  discountType: PlatformCoupon['discount_type']
+  discountValue: number
+  maxDiscountAmount: number | null
+  minPurchaseAmount: number | null
+  validUntil: string | null
+  status: WalletCouponStatus
+  usesLeft: number
+  lastUsedAt: string | null
+  lastOrderNumber: string | null
+}
+
+export interface ValidatedCoupon {
+  coupon: PlatformCoupon
+  buyerCoupon: BuyerCoupon | null
+  discount: number
+}
+
+const COUPONS_TABLE = 'platform_coupons'
+const WALLET_TABLE = 'buyer_coupons'
+const REDEMPTIONS_TABLE = 'coupon_redemptions'
+
+export function calculateCouponDiscount(coupon: PlatformCoupon, subtotal: number): number {
+  let discount = coupon.discount_type === 'percentage'
+    ? (subtotal * coupon.discount_value) / 100
+    : coupon.discount_value
+  if (coupon.discount_type === 'percentage' && coupon.max_discount_amount && discount > coupon.max_discount_amount) {
+    discount = coupon.max_discount_amount
+  }
+  return roundMoney(Math.max(0, Math.min(discount, subtotal)))
+}
+
+function isWithinDates(coupon: PlatformCoupon, now = new Date()): boolean {
+  return new Date(coupon.starts_at) <= now && (!coupon.ends_at || new Date(coupon.ends_at) > now)
+}
+
+// A wallet entry runs out at its own expiry or the coupon's end date, whichever is first
+function walletExpiry(entry: BuyerCoupon): string | null {
+  const dates = [entry.expires_at, entry.coupon?.ends_at].filter(Boolean) as string[]
+  if (dates.length === 0) return null
+  return dates.reduce((earliest, date) => (new Date(date) < new Date(earliest) ? date : earliest))
+}
+
+/**
+ * Look up an active coupon by code; null when the code is not a platform coupon
+ */
+export async function getPlatformCouponByCode(
+  supabase: SupabaseClient,
+  code: string
+): Promise<PlatformCoupon | null> {
+  const { data, error } = await supabase
+    .from(COUPONS_TABLE)
+    .select('*')
+    .eq('code', code.toUpperCase().trim())
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) {
+    logger.error(`Error looking up platform coupon ${code}`, error)
+    return null
+  }
+  return data as PlatformCoupon | null
+}
+
+/**
+ * Whether a code already names a platform coupon or a supplier promotion, active or not
+ * The checkout code box takes both and looks platform coupons up first, so a new code of either
+ * kind must not reuse one of the other
+ */
+export async function isDiscountCodeTaken(supabase: SupabaseClient, code: string): Promise<boolean> {
+  const normalized = code.toUpperCase().trim()
+  const [coupons, promotions] = await Promise.all([
+    supabase.from(COUPONS_TABLE).select('id').eq('code', normalized).limit(1),
+    supabase.from('supplier_promotions').select('id').eq('code', normalized).limit(1)
+  ])
+  if (coupons.error || promotions.error) {
+    logger.error(`Error checking discount code ${normalized}`, coupons.error || promotions.error)
+    throw new ProductionError('Unable to check the code', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (coupons.data || []).length > 0 || (promotions.data || []).length > 0
+}
+
+async function countRedemptions(
+  supabase: SupabaseClient,
+  couponId: string,
+  scope: { userId?: string; buyerCouponId?: string | null } = {}
+): Promise<number> {
+  let query = supabase
+    .from(REDEMPTIONS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('coupon_id', couponId)
+    .eq('status', 'applied')
+  if (scope.buyerCouponId) {
+    query = query.eq('buyer_coupon_id', scope.buyerCouponId)
+  } else if (scope.userId) {
+    query = query.eq('user_id', scope.userId)
+  }
+
+  const { count, error } = await query
+  if (error) {
+    logger.error(`Error counting redemptions for coupon ${couponId}`, error)
+    throw new ProductionError('Unable to check coupon', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return count || 0
+}
+
+/**
+ * Check that a buyer can use a coupon on an order of this subtotal and price the discount
+ */
+export async function validatePlatformCoupon(
+  supabase: SupabaseClient,
+  params: { coupon: PlatformCoupon; userId: string; subtotal: number }
+): Promise<ValidatedCoupon> {
+  const { coupon, userId, subtotal } = params
+  const now = new Date()
+
+  if (!isWithinDates(coupon, now)) {
+    throw createValidationError('Invalid or expired coupon code')
+  }
+
+  // Newest unexpired wallet entry, if the buyer has one
+  const { data: entries } = await supabase
+    .from(WALLET_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('coupon_id', coupon.id)
+    .order('created_at', { ascending: false })
+
+  const buyerCoupon = ((entries || []) as BuyerCoupon[])
+    .find(entry => !entry.expires_at || new Date(entry.expires_at) > now) || null
+
+  if (coupon.assigned_only && !buyerCoupon) {
+    throw createValidationError('This coupon is not available on your account')
+  }
+
+  const userUses = await countRedemptions(supabase, coupon.id, { userId, buyerCouponId: buyerCoupon?.id })
+  if (userUses >= coupon.per_user_limit) {
+    throw createValidationError('You have already used this coupon')
+  }
+
+  if (coupon.usage_limit && await countRedemptions(supabase, coupon.id) >= coupon.usage_limit) {
+    throw createValidationError('This coupon has reached its usage limit')
+  }
+
+  if (coupon.kind === 'first_order') {
+    const { count } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('payment_status', 'paid')
+    if ((count || 0) > 0) {
+      throw createValidationError('This coupon is only valid on your first order')
+    }
+  }
+
+  if (coupon.min_purchase_amount && subtotal < coupon.min_purchase_amount) {
+    throw createValidationError(`Minimum purchase of ${coupon.min_purchase_amount} TZS required for this coupon`)
+  }
+
+  return { coupon, buyerCoupon, discount: calculateCouponDiscount(coupon, subtotal) }
+}
+
+/**
+ * Record a coupon use against a newly created order
+ * Inserted first and counted afterwards, so two checkouts racing for the last use cannot both
+ * succeed. Over the limit the redemption is released again and a 409 thrown
+ */
+export async function redeemPlatformCoupon(
+  supabase: SupabaseClient,
+  order: { id: string; order_number: string; user_id: string },
+  validated: ValidatedCoupon
+): Promise<void> {
+  const { coupon } = validated
+  const { error } = await supabase.from(REDEMPTIONS_TABLE).insert({
+    coupon_id: coupon.id,
+    buyer_coupon_id: validated.buyerCoupon?.id || null,
+    user_id: order.user_id,
+    order_id: order.id,
+    order_number: order.order_number,
+    discount_amount: validated.discount,
+    status: 'applied'
+  })
+
+  if (error) {
+    logger.error(`Error redeeming coupon ${coupon.code} for order ${order.order_number}`, error)
+    throw new ProductionError('Unable to apply coupon', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  const overUserLimit = await countRedemptions(supabase, coupon.id, {
+    userId: order.user_id,
+    buyerCouponId: validated.buyerCoupon?.id
+  }) > coupon.per_user_limit
+  const overTotalLimit = !!coupon.usage_limit && await countRedemptions(supabase, coupon.id) > coupon.usage_limit
+  if (overUserLimit || overTotalLimit) {
+    await releaseCouponRedemption(supabase, order.id)
+    throw new ProductionError(
+      overUserLimit ? 'You have already used this coupon' : 'This coupon has reached its usage limit',
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+}
+
+/**
+ * Give a coupon use back when its order is cancelled or expires unpaid
+ */
+export async function releaseCouponRedemption(supabase: SupabaseClient, orderId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(REDEMPTIONS_TABLE)
+    .update({ status: 'released' })
+    .eq('order_id', orderId)
+    .eq('status', 'applied')
+    .select('id')
+
+  if (error) {
+    logger.error(`Error releasing coupon redemption for order ${orderId}`, error)
+    return 0
+  }
+  return data?.length || 0
+}
+
+/**
+ * Put the current coupon of a kind in a buyer's wallet
+ * The reference makes it one-off per occasion (one birthday coupon per year, one per abandoned cart).
+ * Returns null when no coupon of that kind is running or the buyer already has it
+ */
+export async function assignCouponToBuyer(
+  supabase: SupabaseClient,
+  params: { userId: string; kind: Exclude<CouponKind, 'general'>; reference?: string | null }
+): Promise<{ buyerCoupon: BuyerCoupon; coupon: PlatformCoupon } | null> {
+  try {
+    const now = new Date()
+    const { data: coupons } = await supabase
+      .from(COUPONS_TABLE)
+      .select('*')
+      .eq('kind', params.kind)
+      .eq('is_active', true)
+      .lte('starts_at', now.toISOString())
+      .order('created_at', { ascending: false })
+
+    const coupon = ((coupons || []) as PlatformCoupon[]).find(candidate => isWithinDates(candidate, now))
+    if (!coupon) return null
+
+    let existingQuery = supabase
+      .from(WALLET_TABLE)
+      .select('id')
+      .eq('user_id', params.userId)
+      .eq('coupon_id', coupon.id)
+    existingQuery = params.reference
+      ? existingQuery.eq('source_reference', params.reference)
+      : existingQuery.is('source_reference', null)
+
+    const { data: existing } = await existingQuery.limit(1)
+    if (existing && existing.length > 0) return null
+
+    const expiresAt = coupon.valid_days
+      ? new Date(now.getTime() + coupon.valid_days * 24 * 60 * 60 * 1000).toISOString()
+      : null
+
+    const { data: buyerCoupon, error } = await supabase
+      .from(WALLET_TABLE)
+      .insert({
+        user_id: params.userId,
+        coupon_id: coupon.id,
+        source: params.kind,
+        source_reference: params.reference || null,
+        expires_at: expiresAt
+      })
+      .select('*')
+      .single()
+
+    if (error || !buyerCoupon) {
+      logger.error(`Error assigning ${params.kind} coupon to user ${params.userId}`, error)
+      return null
+    }
+
+    logger.log(`🎟️ Assigned ${params.kind} coupon ${coupon.code} to user ${params.userId}`)
+    return { buyerCoupon: buyerCoupon as BuyerCoupon, coupon }
+  } catch (error) {
+    logger.error(`Error assigning ${params.kind} coupon to user ${params.userId}`, error)
+    return null
+  }
+}
+
+/**
+ * A buyer's wallet with each coupon's status, newest first
+ */
+export async function getCouponWallet(supabase: SupabaseClient, userId: string): Promise<WalletCoupon[]> {
+  const { data: entries, error } = await supabase
+    .from(WALLET_TABLE)
+    .select('*, coupon:platform_coupons(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error(`Error fetching coupon wallet for user ${userId}`, error)
+    throw error
+  }
+
+  const { data: redemptions } = await supabase
+    .from(REDEMPTIONS_TABLE)
+    .select('buyer_coupon_id, order_number, created_at')
+    .eq('user_id', userId)
+    .eq('status', 'applied')
+    .order('created_at', { ascending: false })
+
+  const now = new Date()
+  const seen = new Set<string>()
+  const wallet: WalletCoupon[] = []
+
+  // A coupon handed out more than once shows once, with its latest entry
+  for (const entry of (entries || []) as BuyerCoupon[]) {
+    const coupon = entry.coupon
+    if (!coupon || seen.has(coupon.id)) continue
+    seen.add(coupon.id)
+
+    const uses = (redemptions || []).filter(redemption => redemption.buyer_coupon_id === entry.id)
+    const validUntil = walletExpiry(entry)
+    const usesLeft = Math.max(0, coupon.per_user_limit - uses.length)
+
+    let status: WalletCouponStatus = 'active'
+    if (usesLeft === 0) {
+      status = 'used'
+    } else if (!coupon.is_active || (validUntil && new Date(validUntil) <= now)) {
+      status = 'expired'
+    }
+
+    wallet.push({
+      code: coupon.code,
+      name: coupon.name,
+      description: coupon.description,
+      kind: coupon.kind,
+      discountType: coupon.discount_type,
+      discountValue: coupon.discount_value,
+      maxDiscountAmount: coupon.max_discount_amount,
+      minPurchaseAmount: coupon.min_purchase_amount,
+      validUntil,
+      status,
+      usesLeft,
+      lastUsedAt: uses[0]?.created_at || null,
+      lastOrderNumber: uses[0]?.order_number || null
+    })
+  }
+
+  return wallet
+}
@@ -0,0 +1,276 @@
+/**
+ * Quantity (wholesale) price tiers
+ * A product or variant can lower its unit price from a minimum quantity on, e.g. 1-9 at the
+ * regular price, 10-49 and 50+ cheaper. Tiers live in a price_tiers jsonb column on products and
+ * product_variants as [{ min_quantity, price }], so they travel with the row through saves and
+ * revisions. A variant without tiers of its own follows the product's at the same discount.
+ *
+ * Tiers apply per cart line. A running sale wins when it is cheaper than the tier price.
+ */
+
+import { createValidationError, ProductionError } from './error-handler'
+import { roundMoney } from './supplier-ledger'
+import { resolveSalePrice, SaleWindow } from './product-sales'
+
+export interface PriceTier {
+  min_quantity: number
+  price: number
+}
+
+// A quantity range and its unit price, the first band being the regular price
+export interface TierBand {
+  minQuantity: number
+  // null for the open-ended last band
+  maxQuantity: number | null
+  price: number
+}
+
+export interface TierResolution {
+  price: number
+  regularPrice: number
+  // null at the regular price
+  tier: TierBand | null
+  // The next band up, for "buy 10 for TZS 900 each" hints
+  nextTier: TierBand | null
+}
+
+export interface UnitPriceResolution extends TierResolution {
+  sale: SaleWindow | null
+}
+
+// What order_items.price_tier records, so invoices show the tier an order was priced at
+export interface OrderItemPriceTier {
+  min_quantity: number
+  max_quantity: number | null
+  unit_price: number
+  regular_price: number
+}
+
+export const MAX_PRICE_TIERS = 5
+
+/**
+ * Tiers as stored, sorted by quantity; anything malformed is skipped rather than failing a page
+ */
+export function parsePriceTiers(value: unknown): PriceTier[] {
+  let list = value
+  if (typeof list === 'string') {
+    try {
+      list = JSON.parse(list)
+    } catch {
+      return []
+    }
+  }
+  if (!Array.isArray(list)) return []
+
+  const tiers = new Map<number, PriceTier>()
+  for (const entry of list) {
+    const minQuantity = Number(entry?.min_quantity ?? entry?.minQuantity)
+    const price = Number(entry?.price)
+    if (Number.isInteger(minQuantity) && minQuantity >= 2 && Number.isFinite(price) && price > 0) {
+      tiers.set(minQuantity, { min_quantity: minQuantity, price })
+    }
+  }
+  return [...tiers.values()].sort((a, b) => a.min_quantity - b.min_quantity)
+}
+
+/**
+ * Validate tiers from the product form or API
+ * Each tier needs a minimum quantity of 2 or more and a unit price below the tier before it
+ */
+export function normalizePriceTiers(value: unknown, regularPrice: number, field: string = 'priceTiers'): PriceTier[] {
+  if (value === undefined || value === null || value === '') return []
+  if (!Array.isArray(value)) {
+    throw createValidationError('Price tiers must be a list', field)
+  }
+  if (value.length > MAX_PRICE_TIERS) {
+    throw createValidationError(`A product can have at most ${MAX_PRICE_TIERS} price tiers`, field)
+  }
+
+  const tiers: PriceTier[] = []
+  for (const entry of value) {
+    const minQuantity = Number(entry?.minQuantity ?? entry?.min_quantity)
+    const price = Number(entry?.price)
+    if (!Number.isInteger(minQuantity) || minQuantity < 2) {
+      throw createValidationError('Tier quantities must be whole numbers of 2 or more', field)
+    }
+    if (!Number.isFinite(price) || price <= 0) {
+      throw createValidationError('Tier prices must be more than 0', field)
+    }
+    tiers.push({ min_quantity: minQuantity, price: roundMoney(price) })
+  }
+  tiers.sort((a, b) => a.min_quantity - b.min_quantity)
+
+  let previousPrice = regularPrice > 0 ? regularPrice : Infinity
+  for (let i = 0; i < tiers.length; i++) {
+    if (i > 0 && tiers[i].min_quantity === tiers[i - 1].min_quantity) {
+      throw createValidationError(`There are two tiers starting at ${tiers[i].min_quantity} units`, field)
+    }
+    if (tiers[i].price >= previousPrice) {
+      throw createValidationError(`The price from ${tiers[i].min_quantity} units must be lower than the price for fewer units`, field)
+    }
+    previousPrice = tiers[i].price
+  }
+  return tiers
+}
+
+/**
+ * Tiers from a product save: the product's own (undefined when the body leaves them out) and one
+ * list per entry in body.variants, each checked against its own regular price
+ */
+export function normalizeProductPriceTiers(
+  body: Record<string, any>,
+  productPrice: number
+): { product: PriceTier[] | undefined; variants: PriceTier[][] } {
+  const product = body.priceTiers === undefined ? undefined : normalizePriceTiers(body.priceTiers, productPrice)
+  const variants = (Array.isArray(body.variants) ? body.variants : []).map((variant: any, index: number) => {
+    const variantPrice = Number(variant?.price) > 0 ? Number(variant.price) : productPrice
+    try {
+      return normalizePriceTiers(variant?.priceTiers ?? variant?.price_tiers, variantPrice, 'variants')
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        throw createValidationError(`Variant ${variant?.variant_name || index + 1}: ${error.message}`, 'variants')
+      }
+      throw error
+    }
+  })
+  return { product, variants }
+}
+
+/**
+ * Quantity bands for display, starting with the regular price; empty when there are no tiers
+ */
+export function tierBands(tiers: PriceTier[], regularPrice: number): TierBand[] {
+  if (tiers.length === 0) return []
+  const bands: TierBand[] = [{ minQuantity: 1, maxQuantity: tiers[0].min_quantity - 1, price: regularPrice }]
+  tiers.forEach((tier, index) => {
+    const next = tiers[index + 1]
+    bands.push({ minQuantity: tier.min_quantity, maxQuantity: next ? next.min_quantity - 1 : null, price: tier.price })
+  })
+  return bands
+}
+
+/**
+ * The tiers that apply to a product or one of its variants
+ */
+export function effectivePriceTiers(params: {
+  productPrice: number
+  productTiers?: unknown
+  variantPrice?: number | null
+  variantTiers?: unknown
+}): { tiers: PriceTier[]; regularPrice: number } {
+  const productPrice = Number(params.productPrice) || 0
+  const variantPrice = Number(params.variantPrice) || 0
+  const regularPrice = variantPrice > 0 ? variantPrice : productPrice
+
+  const own = parsePriceTiers(params.variantTiers)
+  if (own.length > 0) return { tiers: own, regularPrice }
+
+  const productTiers = parsePriceTiers(params.productTiers)
+  if (productTiers.length === 0 || productPrice <= 0 || regularPrice === productPrice) {
+    return { tiers: productTiers, regularPrice }
+  }
+  const ratio = regularPrice / productPrice
+  return {
+    tiers: productTiers.map(tier => ({ min_quantity: tier.min_quantity, price: roundMoney(tier.price * ratio) })),
+    regularPrice
+  }
+}
+
+/**
+ * Unit price for a line quantity from the tiers alone
+ */
+export function resolveTierPrice(params: {
+  productPrice: number
+  productTiers?: unknown
+  variantPrice?: number | null
+  variantTiers?: unknown
+  quantity: number
+}): TierResolution {
+  const { tiers, regularPrice } = effectivePriceTiers(params)
+  const bands = tierBands(tiers, regularPrice)
+  if (bands.length === 0) {
+    return { price: regularPrice, regularPrice, tier: null, nextTier: null }
+  }
+
+  const quantity = Math.max(1, params.quantity || 1)
+  let index = 0
+  for (let i = 1; i < bands.length; i++) {
+    if (quantity >= bands[i].minQuantity) index = i
+  }
+  return {
+    price: bands[index].price,
+    regularPrice,
+    tier: index > 0 ? bands[index] : null,
+    nextTier: bands[index + 1] || null
+  }
+}
+
+/**
+ * Unit price for a cart or order line: the tier price, or a running sale when that is cheaper
+ */
+export function resolveUnitPrice(
+  sales: SaleWindow[] | undefined,
+  params: {
+    productPrice: number
+    productTiers?: unknown
+    variantId?: number | null
+    variantPrice?: number | null
+    variantTiers?: unknown
+    quantity: number
+    now?: Date
+  }
+): UnitPriceResolution {
+  const tiered = resolveTierPrice(params)
+  const sale = resolveSalePrice(sales, {
+    productPrice: params.productPrice,
+    variantId: params.variantId,
+    variantPrice: params.variantPrice,
+    quantity: params.quantity,
+    now: params.now
+  })
+  if (sale.sale && sale.price < tiered.price) {
+    return {
+      price: sale.price,
+      regularPrice: tiered.regularPrice,
+      tier: null,
+      nextTier: tiered.nextTier && tiered.nextTier.price < sale.price ? tiered.nextTier : null,
+      sale: sale.sale
+    }
+  }
+  return { ...tiered, sale: null }
+}
+
+export function toOrderItemPriceTier(resolution: TierResolution): OrderItemPriceTier | null {
+  if (!resolution.tier) return null
+  return {
+    min_quantity: resolution.tier.minQuantity,
+    max_quantity: resolution.tier.maxQuantity,
+    unit_price: resolution.tier.price,
+    regular_price: resolution.regularPrice
+  }
+}
+
+/**
+ * "10-49 units" / "50+ units"
+ */
+export function formatTierRange(minQuantity: number, maxQuantity: number | null): string {
+  if (maxQuantity === null) return `${minQuantity}+ units`
+  if (maxQuantity === minQuantity) return `${minQuantity} ${minQuantity === 1 ? 'unit' : 'units'}`
+  return `${minQuantity}-${maxQuantity} units`
+}
+
+/**
+ * Invoice note for an order item priced at a quantity tier, null for items at the regular price
+ */
+export function describeOrderItemPriceTier(value: unknown, currency: string = 'TZS'): string | null {
+  const tier = value as Partial<OrderItemPriceTier> | null
+  const minQuantity = Number(tier?.min_quantity)
+  const regularPrice = Number(tier?.regular_price)
+  if (!tier || !Number.isInteger(minQuantity) || minQuantity < 2) return null
+
+  const maxQuantity = tier.max_quantity === null || tier.max_quantity === undefined ? null : Number(tier.max_quantity)
+  const regular = Number.isFinite(regularPrice) && regularPrice > 0
+    ? ` (regular ${currency} ${regularPrice.toLocaleString()} each)`
+    : ''
+  return `Volume price for ${formatTierRange(minQuantity, maxQuantity)}${regular}`
+}
@@ -0,0 +1,663 @@
+/**
+ * Product analytics
+ * Daily per-product roll-up of the shopper funnel and of sales, read by the supplier analytics page.
+ *
+ * Funnel events (view, add to cart, checkout started) come from the product view route and the
+ * storefront beacons. Each (product, event type, browser session) is counted once, and every accepted
+ * event recounts that product's column for the day so beacons landing together can't leave it wrong.
+ *
+ * Sales columns are never incremented. They are recounted from the order_clearing lines of the supplier
+ * ledger whenever sale or refund lines are posted, so revenue here always equals the ledger's gross
+ * sales net of refunds. The refresh-product-stats cron recounts recent days and can rebuild older ones.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { createValidationError } from './error-handler'
+
+export type ProductEventType = 'view' | 'add_to_cart' | 'checkout_start'
+
+export const PRODUCT_EVENT_TYPES: ProductEventType[] = ['view', 'add_to_cart', 'checkout_start']
+
+// Views are recorded by /api/products/[id]/view next to the lifetime counter
+export const PRODUCT_BEACON_EVENT_TYPES: ProductEventType[] = ['add_to_cart', 'checkout_start']
+
+export const MAX_EVENT_PRODUCTS = 50
+
+export const DEFAULT_ANALYTICS_DAYS = 30
+
+export const MAX_ANALYTICS_DAYS = 366
+
+const EVENTS_TABLE = 'product_events'
+const DAILY_TABLE = 'product_daily_stats'
+const LEDGER_TABLE = 'supplier_ledger_entries'
+
+const EVENT_COLUMNS: Record<ProductEventType, 'views' | 'add_to_carts' | 'checkouts_started'> = {
+  view: 'views',
+  add_to_cart: 'add_to_carts',
+  checkout_start: 'checkouts_started'
+}
+
+// PostgREST returns at most 1000 rows per request and long .in() lists overflow the URL
+const PAGE_SIZE = 1000
+const ID_CHUNK_SIZE = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/
+
+export interface ProductDailyStat {
+  product_id: number
+  supplier_id: string | null
+  stat_date: string
+  views: number
+  add_to_carts: number
+  checkouts_started: number
+  orders: number
+  units_sold: number
+  sales_amount: number
+  refunded_amount: number
+}
+
+export interface AnalyticsRange {
+  from: string
+  to: string
+  days: number
+  previousFrom: string
+  previousTo: string
+}
+
+export interface ProductAnalyticsTotals {
+  views: number
+  addToCarts: number
+  checkoutsStarted: number
+  orders: number
+  unitsSold: number
+  grossSales: number
+  refunds: number
+  // Gross sales net of refunds, the same figure the supplier ledger reports
+  revenue: number
+  averageOrderValue: number
+}
+
+export interface ProductAnalyticsRow {
+  productId: number
+  name: string
+  category: string
+  views: number
+  addToCarts: number
+  checkoutsStarted: number
+  orders: number
+  unitsSold: number
+  revenue: number
+  conversionRate: number
+}
+
+interface ClearingLine {
+  product_id: number
+  supplier_id: string
+  entry_type: 'sale' | 'refund'
+  debit: number
+  credit: number
+  confirmed_order_id: string | null
+  confirmed_order_item_id: string | null
+  created_at: string
+}
+
+export function isValidAnalyticsSessionId(value: unknown): value is string {
+  return typeof value === 'string' && SESSION_ID_PATTERN.test(value)
+}
+
+function dateKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10)
+}
+
+function addDays(date: string, days: number): string {
+  return dateKey(new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * DAY_MS))
+}
+
+function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+function rateOf(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0
+}
+
+// null when there is nothing to compare against
+function changeOf(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null
+  return Math.round(((current - previous) / previous) * 1000) / 10
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Validate a from/to pair of YYYY-MM-DD dates (inclusive, UTC) and work out the previous period of equal length
+ * Defaults to the last DEFAULT_ANALYTICS_DAYS days ending today
+ */
+export function resolveAnalyticsRange(fromParam?: string | null, toParam?: string | null): AnalyticsRange {
+  const today = dateKey(new Date())
+
+  if ((fromParam && !DATE_PATTERN.test(fromParam)) || (toParam && !DATE_PATTERN.test(toParam))) {
+    throw createValidationError('Dates must be in YYYY-MM-DD format')
+  }
+
+  const to = toParam && toParam < today ? toParam : today
+  const from = fromParam || addDays(to, -(DEFAULT_ANALYTICS_DAYS - 1))
+
+  if (Number.isNaN(new Date(`${from}T00:00:00.000Z`).getTime()) || Number.isNaN(new Date(`${to}T00:00:00.000Z`).getTime())) {
+    throw createValidationError('Invalid date range')
+  }
+  if (from > to) {
+    throw createValidationError('The start date must be on or before the end date')
+  }
+
+  const days = Math.round((new Date(`${to}T00:00:00.000Z`).getTime() - new Date(`${from}T00:00:00.000Z`).getTime()) / DAY_MS) + 1
+  if (days > MAX_ANALYTICS_DAYS) {
+    throw createValidationError(`The date range can be at most ${MAX_ANALYTICS_DAYS} days`)
+  }
+
+  return {
+    from,
+    to,
+    days,
+    previousFrom: addDays(from, -days),
+    previousTo: addDays(from, -1)
+  }
+}
+
+/**
+ * Recount one product's column for a day from the raw events and store it in the roll-up
+ */
+async function refreshEventStat(
+  supabase: SupabaseClient,
+  product: { id: number; supplierId: string | null },
+  eventType: ProductEventType,
+  statDate: string
+): Promise<void> {
+  try {
+    const { count, error } = await supabase
+      .from(EVENTS_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('product_id', product.id)
+      .eq('event_type', eventType)
+      .gte('created_at', `${statDate}T00:00:00.000Z`)
+      .lte('created_at', `${statDate}T23:59:59.999Z`)
+
+    if (error) throw error
+
+    // Only the counted column is sent, so the other columns of an existing row are left alone
+    const { error: upsertError } = await supabase
+      .from(DAILY_TABLE)
+      .upsert({
+        product_id: product.id,
+        supplier_id: product.supplierId,
+        stat_date: statDate,
+        [EVENT_COLUMNS[eventType]]: count || 0,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'product_id,stat_date' })
+
+    if (upsertError) throw upsertError
+  } catch (error) {
+    logger.error(`Error refreshing ${eventType} stats for product ${product.id} on ${statDate}`, error)
+  }
+}
+
+/**
+ * Record a funnel event for each product
+ * Returns how many were counted (unknown products and repeats within the session are skipped)
+ */
+export async function recordProductEvents(
+  supabase: SupabaseClient,
+  params: {
+    productIds: number[]
+    eventType: ProductEventType
+    sessionId: string
+  }
+): Promise<number> {
+  const productIds = [...new Set(params.productIds)].slice(0, MAX_EVENT_PRODUCTS)
+  if (productIds.length === 0) return 0
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, supplier_id, user_id')
+    .in('id', productIds)
+
+  if (productsError) {
+    throw productsError
+  }
+
+  let recorded = 0
+  for (const product of products || []) {
+    const { data: event, error } = await supabase
+      .from(EVENTS_TABLE)
+      .insert({
+        product_id: product.id,
+        supplier_id: product.supplier_id || product.user_id || null,
+        event_type: params.eventType,
+        session_id: params.sessionId
+      })
+      .select('created_at')
+      .single()
+
+    if (error || !event) {
+      // Unique index on (product_id, event_type, session_id): already counted this session
+      if (error?.code === '23505') continue
+      logger.error(`Error recording ${params.eventType} for product ${product.id}`, error)
+      continue
+    }
+
+    await refreshEventStat(
+      supabase,
+      { id: product.id, supplierId: product.supplier_id || product.user_id || null },
+      params.eventType,
+      dateKey(event.created_at)
+    )
+    recorded++
+  }
+
+  return recorded
+}
+
+async function fetchClearingLines(
+  supabase: SupabaseClient,
+  filter: { from: string; to: string; supplierId?: string; productIds?: number[] }
+): Promise<ClearingLine[]> {
+  const lines: ClearingLine[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from(LEDGER_TABLE)
+      .select('product_id, supplier_id, entry_type, debit, credit, confirmed_order_id, confirmed_order_item_id, created_at')
+      .eq('account', 'order_clearing')
+      .in('entry_type', ['sale', 'refund'])
+      .not('product_id', 'is', null)
+      .gte('created_at', `${filter.from}T00:00:00.000Z`)
+      .lte('created_at', `${filter.to}T23:59:59.999Z`)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (filter.supplierId) {
+      query = query.eq('supplier_id', filter.supplierId)
+    }
+    if (filter.productIds) {
+      query = query.in('product_id', filter.productIds)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+
+    lines.push(...((data || []) as ClearingLine[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return lines
+}
+
+/**
+ * Upsert the sales columns for every (product, day) key, counting the given ledger lines
+ * Keys with no lines are written as zero so a recount can also clear a stale row
+ */
+async function writeSalesStats(
+  supabase: SupabaseClient,
+  keys: Map<string, { productId: number; supplierId: string | null; statDate: string }>,
+  lines: ClearingLine[]
+): Promise<number> {
+  const saleItemIds = [...new Set(
+    lines.filter(line => line.entry_type === 'sale' && line.confirmed_order_item_id).map(line => line.confirmed_order_item_id as string)
+  )]
+
+  const quantities = new Map<string, number>()
+  for (const ids of chunk(saleItemIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('confirmed_order_items')
+      .select('id, quantity')
+      .in('id', ids)
+
+    if (error) throw error
+    for (const item of data || []) {
+      quantities.set(item.id, Number(item.quantity) || 0)
+    }
+  }
+
+  const totals = new Map<string, { orders: Set<string>; units: number; sales: number; refunds: number }>()
+  for (const key of keys.keys()) {
+    totals.set(key, { orders: new Set(), units: 0, sales: 0, refunds: 0 })
+  }
+
+  for (const line of lines) {
+    const key = `${line.product_id}|${dateKey(line.created_at)}`
+    const entry = totals.get(key)
+    if (!entry) continue
+
+    if (line.entry_type === 'sale') {
+      entry.sales += Number(line.debit) || 0
+      entry.units += line.confirmed_order_item_id ? quantities.get(line.confirmed_order_item_id) || 0 : 0
+      if (line.confirmed_order_id) entry.orders.add(line.confirmed_order_id)
+    } else {
+      entry.refunds += Number(line.credit) || 0
+    }
+  }
+
+  const now = new Date().toISOString()
+  const rows = [...keys.entries()].map(([key, target]) => {
+    const entry = totals.get(key)!
+    return {
+      product_id: target.productId,
+      supplier_id: target.supplierId,
+      stat_date: target.statDate,
+      orders: entry.orders.size,
+      units_sold: entry.units,
+      sales_amount: roundMoney(entry.sales),
+      refunded_amount: roundMoney(entry.refunds),
+      updated_at: now
+    }
+  })
+
+  for (const batch of chunk(rows, 500)) {
+    const { error } = await supabase
+      .from(DAILY_TABLE)
+      .upsert(batch, { onConflict: 'product_id,stat_date' })
+
+    if (error) throw error
+  }
+
+  return rows.length
+}
+
+/**
+ * Recount the sales columns for the products and days touched by freshly posted ledger lines
+ * Called by the ledger after sale and refund postings. Errors are logged, the posting itself stands
+ */
+export async function refreshProductSalesStats(
+  supabase: SupabaseClient,
+  postedLines: Array<{ product_id: number | null; supplier_id: string; created_at?: string | null }>
+): Promise<void> {
+  try {
+    const keys = new Map<string, { productId: number; supplierId: string | null; statDate: string }>()
+    for (const line of postedLines) {
+      if (line.product_id == null) continue
+      const statDate = dateKey(line.created_at || new Date())
+      keys.set(`${line.product_id}|${statDate}`, { productId: line.product_id, supplierId: line.supplier_id, statDate })
+    }
+    if (keys.size === 0) return
+
+    const statDates = [...new Set([...keys.values()].map(key => key.statDate))]
+    const lines: ClearingLine[] = []
+    for (const statDate of statDates) {
+      const productIds = [...new Set([...keys.values()].filter(key => key.statDate === statDate).map(key => key.productId))]
+      lines.push(...await fetchClearingLines(supabase, { from: statDate, to: statDate, productIds }))
+    }
+
+    await writeSalesStats(supabase, keys, lines)
+  } catch (error) {
+    logger.error('Error refreshing product sales stats', error)
+  }
+}
+
+/**
+ * Rebuild the sales columns for every product with ledger activity between two dates (inclusive)
+ * Used by the refresh-product-stats cron, also to backfill days from before the roll-up existed
+ */
+export async function rebuildProductSalesStats(
+  supabase: SupabaseClient,
+  range: { from: string; to: string }
+): Promise<number> {
+  const lines = await fetchClearingLines(supabase, range)
+
+  const keys = new Map<string, { productId: number; supplierId: string | null; statDate: string }>()
+  for (const line of lines) {
+    const statDate = dateKey(line.created_at)
+    keys.set(`${line.product_id}|${statDate}`, { productId: line.product_id, supplierId: line.supplier_id, statDate })
+  }
+  if (keys.size === 0) return 0
+
+  return writeSalesStats(supabase, keys, lines)
+}
+
+async function fetchDailyStats(
+  supabase: SupabaseClient,
+  params: { supplierId: string; from: string; to: string }
+): Promise<ProductDailyStat[]> {
+  const rows: ProductDailyStat[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(DAILY_TABLE)
+      .select('product_id, supplier_id, stat_date, views, add_to_carts, checkouts_started, orders, units_sold, sales_amount, refunded_amount')
+      .eq('supplier_id', params.supplierId)
+      .gte('stat_date', params.from)
+      .lte('stat_date', params.to)
+      .order('stat_date', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    rows.push(...((data || []) as ProductDailyStat[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return rows
+}
+
+function sumStats(rows: ProductDailyStat[], orderIds: Set<string>): ProductAnalyticsTotals {
+  const totals = rows.reduce((sum, row) => ({
+    views: sum.views + (row.views || 0),
+    addToCarts: sum.addToCarts + (row.add_to_carts || 0),
+    checkoutsStarted: sum.checkoutsStarted + (row.checkouts_started || 0),
+    unitsSold: sum.unitsSold + (row.units_sold || 0),
+    grossSales: sum.grossSales + (Number(row.sales_amount) || 0),
+    refunds: sum.refunds + (Number(row.refunded_amount) || 0)
+  }), { views: 0, addToCarts: 0, checkoutsStarted: 0, unitsSold: 0, grossSales: 0, refunds: 0 })
+
+  const revenue = roundMoney(totals.grossSales - totals.refunds)
+  return {
+    ...totals,
+    // An order with several of the supplier's products is one order, so this comes from the ledger
+    orders: orderIds.size,
+    grossSales: roundMoney(totals.grossSales),
+    refunds: roundMoney(totals.refunds),
+    revenue,
+    averageOrderValue: orderIds.size > 0 ? roundMoney(revenue / orderIds.size) : 0
+  }
+}
+
+/**
+ * Supplier analytics for a date range: totals with the previous period for comparison, the conversion
+ * funnel, a daily series, per-product and per-category breakdowns, customers and recent orders.
+ * Everything is read from the daily roll-up except order and customer counts, which need distinct
+ * orders and come from the supplier's ledger sale lines.
+ */
+export async function getSupplierAnalytics(
+  supabase: SupabaseClient,
+  params: { supplierId: string; range: AnalyticsRange }
+) {
+  const { range } = params
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, name, category, rating')
+    .or(`supplier_id.eq.${params.supplierId},user_id.eq.${params.supplierId}`)
+
+  if (productsError) {
+    throw productsError
+  }
+
+  const [stats, lines] = await Promise.all([
+    fetchDailyStats(supabase, { supplierId: params.supplierId, from: range.previousFrom, to: range.to }),
+    fetchClearingLines(supabase, { supplierId: params.supplierId, from: range.previousFrom, to: range.to })
+  ])
+
+  const currentStats = stats.filter(row => row.stat_date >= range.from)
+  const previousStats = stats.filter(row => row.stat_date < range.from)
+
+  // Orders are placed on the day their first sale line was posted
+  const orderDates = new Map<string, string>()
+  const orderAmounts = new Map<string, number>()
+  for (const line of lines) {
+    if (!line.confirmed_order_id) continue
+    if (line.entry_type === 'sale' && !orderDates.has(line.confirmed_order_id)) {
+      orderDates.set(line.confirmed_order_id, dateKey(line.created_at))
+    }
+    orderAmounts.set(
+      line.confirmed_order_id,
+      (orderAmounts.get(line.confirmed_order_id) || 0) + (Number(line.debit) || 0) - (Number(line.credit) || 0)
+    )
+  }
+
+  const currentOrderIds = new Set<string>()
+  const previousOrderIds = new Set<string>()
+  for (const [orderId, date] of orderDates) {
+    if (date >= range.from) {
+      currentOrderIds.add(orderId)
+    } else {
+      previousOrderIds.add(orderId)
+    }
+  }
+
+  const totals = sumStats(currentStats, currentOrderIds)
+  const previousTotals = sumStats(previousStats, previousOrderIds)
+  const changes = {
+    views: changeOf(totals.views, previousTotals.views),
+    addToCarts: changeOf(totals.addToCarts, previousTotals.addToCarts),
+    checkoutsStarted: changeOf(totals.checkoutsStarted, previousTotals.checkoutsStarted),
+    orders: changeOf(totals.orders, previousTotals.orders),
+    unitsSold: changeOf(totals.unitsSold, previousTotals.unitsSold),
+    revenue: changeOf(totals.revenue, previousTotals.revenue)
+  }
+
+  // Every stage counts product-level sessions, so purchases are product orders rather than checkouts
+  const purchases = currentStats.reduce((sum, row) => sum + (row.orders || 0), 0)
+  const funnel = [
+    { stage: 'view', count: totals.views, rate: 100 },
+    { stage: 'add_to_cart', count: totals.addToCarts, rate: rateOf(totals.addToCarts, totals.views) },
+    { stage: 'checkout_start', count: totals.checkoutsStarted, rate: rateOf(totals.checkoutsStarted, totals.addToCarts) },
+    { stage: 'purchase', count: purchases, rate: rateOf(purchases, totals.checkoutsStarted) }
+  ]
+
+  const dailyMap = new Map<string, { views: number; addToCarts: number; checkoutsStarted: number; orders: number; unitsSold: number; revenue: number }>()
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    dailyMap.set(date, { views: 0, addToCarts: 0, checkoutsStarted: 0, orders: 0, unitsSold: 0, revenue: 0 })
+  }
+  for (const row of currentStats) {
+    const day = dailyMap.get(row.stat_date)
+    if (!day) continue
+    day.views += row.views || 0
+    day.addToCarts += row.add_to_carts || 0
+    day.checkoutsStarted += row.checkouts_started || 0
+    day.unitsSold += row.units_sold || 0
+    day.revenue = roundMoney(day.revenue + (Number(row.sales_amount) || 0) - (Number(row.refunded_amount) || 0))
+  }
+  for (const orderId of currentOrderIds) {
+    const day = dailyMap.get(orderDates.get(orderId)!)
+    if (day) day.orders++
+  }
+  const daily = [...dailyMap.entries()].map(([date, counts]) => ({ date, ...counts }))
+
+  const productTotals = new Map<number, Omit<ProductAnalyticsRow, 'productId' | 'name' | 'category' | 'conversionRate'>>()
+  for (const row of currentStats) {
+    const current = productTotals.get(row.product_id) || { views: 0, addToCarts: 0, checkoutsStarted: 0, orders: 0, unitsSold: 0, revenue: 0 }
+    productTotals.set(row.product_id, {
+      views: current.views + (row.views || 0),
+      addToCarts: current.addToCarts + (row.add_to_carts || 0),
+      checkoutsStarted: current.checkoutsStarted + (row.checkouts_started || 0),
+      orders: current.orders + (row.orders || 0),
+      unitsSold: current.unitsSold + (row.units_sold || 0),
+      revenue: roundMoney(current.revenue + (Number(row.sales_amount) || 0) - (Number(row.refunded_amount) || 0))
+    })
+  }
+
+  const productRows: ProductAnalyticsRow[] = (products || []).map((product: any) => {
+    const counts = productTotals.get(product.id) || { views: 0, addToCarts: 0, checkoutsStarted: 0, orders: 0, unitsSold: 0, revenue: 0 }
+    return {
+      productId: product.id,
+      name: product.name,
+      category: product.category || 'Uncategorized',
+      ...counts,
+      conversionRate: rateOf(counts.orders, counts.views)
+    }
+  }).sort((a, b) => b.revenue - a.revenue || b.views - a.views)
+
+  const categoryMap = new Map<string, { unitsSold: number; orders: number; revenue: number }>()
+  for (const product of productRows) {
+    const current = categoryMap.get(product.category) || { unitsSold: 0, orders: 0, revenue: 0 }
+    categoryMap.set(product.category, {
+      unitsSold: current.unitsSold + product.unitsSold,
+      orders: current.orders + product.orders,
+      revenue: roundMoney(current.revenue + product.revenue)
+    })
+  }
+  const categories = [...categoryMap.entries()]
+    .map(([category, counts]) => ({ category, ...counts }))
+    .filter(category => category.orders > 0)
+    .sort((a, b) => b.revenue - a.revenue)
+
+  const orderRows: Array<{ id: string; order_number: string | null; user_id: string | null; status: string | null; payment_status: string | null; created_at: string }> = []
+  for (const ids of chunk([...currentOrderIds], ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('confirmed_orders')
+      .select('id, order_number, user_id, status, payment_status, created_at')
+      .in('id', ids)
+
+    if (error) throw error
+    orderRows.push(...(data || []))
+  }
+
+  const customerMap = new Map<string, { orders: number; totalSpent: number }>()
+  for (const order of orderRows) {
+    if (!order.user_id) continue
+    const current = customerMap.get(order.user_id) || { orders: 0, totalSpent: 0 }
+    customerMap.set(order.user_id, {
+      orders: current.orders + 1,
+      totalSpent: roundMoney(current.totalSpent + (orderAmounts.get(order.id) || 0))
+    })
+  }
+  const customers = {
+    uniqueCustomers: customerMap.size,
+    repeatCustomers: [...customerMap.values()].filter(customer => customer.orders > 1).length,
+    topCustomers: [...customerMap.entries()]
+      .map(([id, counts]) => ({ id, ...counts }))
+      .sort((a, b) => b.totalSpent - a.totalSpent)
+      .slice(0, 5)
+  }
+
+  const recentOrders = orderRows
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, 10)
+    .map(order => ({
+      id: order.id,
+      orderNumber: order.order_number || `ORD-${order.id}`,
+      total: roundMoney(orderAmounts.get(order.id) || 0),
+      status: order.status || 'pending',
+      paymentStatus: order.payment_status || 'pending',
+      createdAt: order.created_at
+    }))
+
+  const ratings = (products || []).map((product: any) => Number(product.rating) || 0).filter((rating: number) => rating > 0)
+
+  return {
+    range,
+    totals,
+    previousTotals,
+    changes,
+    funnel,
+    daily,
+    products: productRows,
+    categories,
+    customers,
+    recentOrders,
+    catalog: {
+      productCount: (products || []).length,
+      averageRating: ratings.length > 0
+        ? Math.round((ratings.reduce((sum: number, rating: number) => sum + rating, 0) / ratings.length) * 10) / 10
+        : 0
+    }
+  }
+}
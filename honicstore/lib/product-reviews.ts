@@ -0,0 +1,665 @@
+/**
+ * Product reviews
+ * A review is tied to one delivered confirmed_order_items row, so every published review is a
+ * verified purchase and a buyer can review a product once per order it was delivered in.
+ * Reviews that look like spam (links, phone numbers, emails) are held for moderation, and reported
+ * reviews go to the same admin queue. Enough open reports hide a review until an admin decides.
+ * The supplier can post one public reply per review and buyers can vote reviews helpful.
+ * products.rating / products.reviews are recomputed from approved reviews only.
+ *
+ * Review status: approved | flagged (hidden, waiting for moderation) -> approved | rejected
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { notifyAllAdmins } from './notification-helpers'
+import { getMediaBucketName, isStorageMediaUrl } from './media-upload'
+
+export type ReviewStatus = 'approved' | 'flagged' | 'rejected'
+
+export const REVIEW_REPORT_REASONS = [
+  'spam',
+  'fake',
+  'offensive',
+  'off_topic',
+  'other'
+] as const
+
+export type ReviewReportReason = typeof REVIEW_REPORT_REASONS[number]
+
+// Items can only be reviewed after they reach the buyer
+const REVIEWABLE_ITEM_STATUSES = ['delivered', 'picked_up']
+
+export const MAX_REVIEW_LENGTH = 5000
+
+export const MAX_REVIEW_PHOTOS = 5
+
+// Review photos must be uploads to the platform's own storage
+const REVIEW_PHOTO_BUCKET = getMediaBucketName('image', 'review')
+
+export const MAX_SUPPLIER_REPLY_LENGTH = 1000
+
+// Open reports needed to take an approved review off the product page before an admin looks at it
+export const REVIEW_REPORTS_TO_HIDE = 3
+
+const REVIEWS_TABLE = 'product_reviews'
+const VOTES_TABLE = 'review_helpful_votes'
+const REPORTS_TABLE = 'review_reports'
+
+// Contact details and links are how review spam tries to pull buyers off the platform
+const HOLD_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /(https?:\/\/|www\.)\S+/i, reason: 'Contains a link' },
+  { pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i, reason: 'Contains an email address' },
+  { pattern: /(\+?\d[\d\s-]{8,}\d)/, reason: 'Contains a phone number' }
+]
+
+export interface ProductReview {
+  id: number
+  product_id: number
+  user_id: string
+  confirmed_order_item_id: string | null
+  rating: number
+  comment: string | null
+  images: string[]
+  status: ReviewStatus
+  moderation_reason: string | null
+  helpful_count: number
+  supplier_reply: string | null
+  supplier_reply_at: string | null
+  moderated_by: string | null
+  moderated_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewReport {
+  id: string
+  review_id: number
+  reporter_id: string
+  reason: ReviewReportReason
+  details: string | null
+  status: 'open' | 'resolved'
+  created_at: string
+}
+
+interface ReviewerProfile {
+  full_name: string | null
+  company_name: string | null
+  avatar_url: string | null
+}
+
+/**
+ * Reason a review should be held for moderation, or null when it can be published straight away
+ */
+function holdReason(comment: string | null): string | null {
+  if (!comment) return null
+  const match = HOLD_PATTERNS.find(({ pattern }) => pattern.test(comment))
+  return match ? match.reason : null
+}
+
+export function normalizeReviewInput(
+  rating: unknown,
+  comment: unknown,
+  images: unknown
+): { rating: number; comment: string | null; images: string[] } {
+  const value = Number(rating)
+  if (!Number.isInteger(value) || value < 1 || value > 5) {
+    throw createValidationError('Rating must be between 1 and 5')
+  }
+
+  const text = typeof comment === 'string' ? comment.trim() : ''
+  if (text.length > MAX_REVIEW_LENGTH) {
+    throw createValidationError(`Reviews can be at most ${MAX_REVIEW_LENGTH} characters`)
+  }
+
+  const photos = Array.isArray(images)
+    ? images.filter((url): url is string => typeof url === 'string' && isStorageMediaUrl(url, REVIEW_PHOTO_BUCKET))
+    : []
+  if (photos.length > MAX_REVIEW_PHOTOS) {
+    throw createValidationError(`You can add at most ${MAX_REVIEW_PHOTOS} photos`)
+  }
+
+  return { rating: value, comment: text || null, images: photos }
+}
+
+/**
+ * Recompute products.rating and products.reviews from the approved reviews
+ * Called whenever a review is published, hidden or moderated
+ */
+export async function recomputeProductRating(supabase: SupabaseClient, productId: number): Promise<void> {
+  try {
+    const { data: reviews, error } = await supabase
+      .from(REVIEWS_TABLE)
+      .select('rating')
+      .eq('product_id', productId)
+      .eq('status', 'approved')
+
+    if (error) {
+      throw error
+    }
+
+    const count = (reviews || []).length
+    const total = (reviews || []).reduce((sum, review: any) => sum + (Number(review.rating) || 0), 0)
+    const average = count > 0 ? Math.round((total / count) * 10) / 10 : 0
+
+    const { error: updateError } = await supabase
+      .from('products')
+      .update({ rating: average, reviews: count })
+      .eq('id', productId)
+
+    if (updateError) {
+      throw updateError
+    }
+  } catch (error) {
+    logger.error(`Error recomputing rating for product ${productId}`, error)
+  }
+}
+
+async function getReviewerProfiles(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, ReviewerProfile>> {
+  const profiles = new Map<string, ReviewerProfile>()
+  if (userIds.length === 0) return profiles
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, full_name, company_name, avatar_url')
+    .in('id', userIds)
+
+  for (const profile of data || []) {
+    profiles.set(profile.id, profile)
+  }
+  return profiles
+}
+
+async function getReview(supabase: SupabaseClient, reviewId: number, productId?: number): Promise<ProductReview> {
+  let query = supabase
+    .from(REVIEWS_TABLE)
+    .select('*')
+    .eq('id', reviewId)
+
+  if (productId !== undefined) {
+    query = query.eq('product_id', productId)
+  }
+
+  const { data: review } = await query.maybeSingle()
+  if (!review) {
+    throw new ProductionError('Review not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return review as ProductReview
+}
+
+/**
+ * Publish a review for a product the buyer has received
+ * Uses the buyer's delivered order items that don't have a review yet; once every delivery of the
+ * product has been reviewed there is nothing left to review
+ */
+export async function createReview(
+  supabase: SupabaseClient,
+  params: {
+    productId: number
+    userId: string
+    rating: number
+    comment: string | null
+    images: string[]
+  }
+): Promise<ProductReview> {
+  const { data: product } = await supabase
+    .from('products')
+    .select('id, name')
+    .eq('id', params.productId)
+    .maybeSingle()
+
+  if (!product) {
+    throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const { data: deliveredItems, error: itemsError } = await supabase
+    .from('confirmed_order_items')
+    .select('id, confirmed_orders!inner(user_id)')
+    .eq('product_id', params.productId)
+    .eq('confirmed_orders.user_id', params.userId)
+    .in('status', REVIEWABLE_ITEM_STATUSES)
+
+  if (itemsError) {
+    throw itemsError
+  }
+  if (!deliveredItems || deliveredItems.length === 0) {
+    throw new ProductionError(
+      'You can review this product once an order containing it has been delivered to you',
+      ErrorCodes.FORBIDDEN,
+      403
+    )
+  }
+
+  const { data: existingReviews } = await supabase
+    .from(REVIEWS_TABLE)
+    .select('confirmed_order_item_id')
+    .eq('product_id', params.productId)
+    .eq('user_id', params.userId)
+
+  const reviewedItems = new Set((existingReviews || []).map((review: any) => review.confirmed_order_item_id))
+  const item = deliveredItems.find((candidate: any) => !reviewedItems.has(candidate.id))
+  if (!item) {
+    throw new ProductionError('You have already reviewed this product', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const moderationReason = holdReason(params.comment)
+
+  const { data: review, error } = await supabase
+    .from(REVIEWS_TABLE)
+    .insert({
+      product_id: params.productId,
+      user_id: params.userId,
+      confirmed_order_item_id: item.id,
+      rating: params.rating,
+      comment: params.comment,
+      images: params.images,
+      status: moderationReason ? 'flagged' : 'approved',
+      moderation_reason: moderationReason,
+      helpful_count: 0
+    })
+    .select('*')
+    .single()
+
+  if (error || !review) {
+    // Unique index on confirmed_order_item_id: a second submit raced this one
+    if (error?.code === '23505') {
+      throw new ProductionError('You have already reviewed this product', ErrorCodes.VALIDATION_ERROR, 409)
+    }
+    logger.error(`Error creating review for product ${params.productId}`, error)
+    throw error || new Error('Failed to create review')
+  }
+
+  if (moderationReason) {
+    await notifyAllAdmins(
+      'product_flagged',
+      'Review held for moderation',
+      `A new ${params.rating}-star review of ${product.name} was held: ${moderationReason.toLowerCase()}.`,
+      {
+        product_id: params.productId,
+        review_id: review.id,
+        reason: moderationReason
+      }
+    )
+  } else {
+    await recomputeProductRating(supabase, params.productId)
+  }
+
+  return review as ProductReview
+}
+
+/**
+ * Approved reviews for the product page, newest first
+ */
+export async function getApprovedReviews(supabase: SupabaseClient, productId: number) {
+  const { data: reviews, error } = await supabase
+    .from(REVIEWS_TABLE)
+    .select('*')
+    .eq('product_id', productId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  const profiles = await getReviewerProfiles(
+    supabase,
+    [...new Set((reviews || []).map((review: any) => review.user_id).filter(Boolean))]
+  )
+
+  return (reviews || []).map((review: any) => toClientReview(review as ProductReview, profiles.get(review.user_id)))
+}
+
+/**
+ * Toggle the user's helpful vote on a review
+ * helpful_count is recounted from the votes so concurrent votes can't drift it
+ */
+export async function toggleHelpfulVote(
+  supabase: SupabaseClient,
+  params: { reviewId: number; productId: number; userId: string }
+): Promise<{ voted: boolean; helpfulCount: number }> {
+  const review = await getReview(supabase, params.reviewId, params.productId)
+  if (review.status !== 'approved') {
+    throw new ProductionError('Review not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  if (review.user_id === params.userId) {
+    throw createValidationError('You cannot vote on your own review')
+  }
+
+  const { data: existing } = await supabase
+    .from(VOTES_TABLE)
+    .select('id')
+    .eq('review_id', review.id)
+    .eq('user_id', params.userId)
+    .maybeSingle()
+
+  if (existing) {
+    await supabase.from(VOTES_TABLE).delete().eq('id', existing.id)
+  } else {
+    const { error } = await supabase
+      .from(VOTES_TABLE)
+      .insert({ review_id: review.id, user_id: params.userId })
+
+    // A double click that lost the race on the unique index already counts as a vote
+    if (error && error.code !== '23505') {
+      logger.error(`Error recording helpful vote on review ${review.id}`, error)
+      throw error
+    }
+  }
+
+  const { count } = await supabase
+    .from(VOTES_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('review_id', review.id)
+
+  const helpfulCount = count || 0
+  await supabase
+    .from(REVIEWS_TABLE)
+    .update({ helpful_count: helpfulCount })
+    .eq('id', review.id)
+
+  return { voted: !existing, helpfulCount }
+}
+
+/**
+ * Report a review to the admins
+ * Enough open reports hide the review and take it out of the product rating until it is moderated
+ */
+export async function reportReview(
+  supabase: SupabaseClient,
+  params: {
+    reviewId: number
+    productId: number
+    reporterId: string
+    reason: ReviewReportReason
+    details?: string | null
+  }
+): Promise<ReviewReport> {
+  const review = await getReview(supabase, params.reviewId, params.productId)
+  if (review.status !== 'approved') {
+    throw new ProductionError('Review not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  if (review.user_id === params.reporterId) {
+    throw createValidationError('You cannot report your own review')
+  }
+
+  const { data: existing } = await supabase
+    .from(REPORTS_TABLE)
+    .select('id')
+    .eq('review_id', review.id)
+    .eq('reporter_id', params.reporterId)
+    .maybeSingle()
+
+  if (existing) {
+    throw new ProductionError('You have already reported this review', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: report, error } = await supabase
+    .from(REPORTS_TABLE)
+    .insert({
+      review_id: review.id,
+      reporter_id: params.reporterId,
+      reason: params.reason,
+      details: params.details || null,
+      status: 'open'
+    })
+    .select('*')
+    .single()
+
+  if (error || !report) {
+    logger.error(`Error reporting review ${review.id}`, error)
+    throw error || new Error('Failed to report review')
+  }
+
+  const { count: openReports } = await supabase
+    .from(REPORTS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('review_id', review.id)
+    .eq('status', 'open')
+
+  const hidden = (openReports || 0) >= REVIEW_REPORTS_TO_HIDE
+  if (hidden) {
+    // Only hide it if it is still approved, an admin may have just moderated it
+    await supabase
+      .from(REVIEWS_TABLE)
+      .update({
+        status: 'flagged',
+        moderation_reason: `Reported ${openReports} times`,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', review.id)
+      .eq('status', 'approved')
+
+    await recomputeProductRating(supabase, review.product_id)
+  }
+
+  await notifyAllAdmins(
+    'product_flagged',
+    hidden ? 'Review hidden after reports' : 'Review reported',
+    `A review of product ${review.product_id} was reported as ${params.reason}` +
+      (hidden ? ` and is hidden until it is moderated.` : '.'),
+    {
+      product_id: review.product_id,
+      review_id: review.id,
+      reporter_id: params.reporterId,
+      reason: params.reason,
+      details: params.details || undefined,
+      open_reports: openReports || 0
+    }
+  )
+
+  return report as ReviewReport
+}
+
+/**
+ * Post the supplier's public reply to a review of one of their products
+ * Each review gets a single reply, it can't be changed afterwards
+ */
+export async function replyToReview(
+  supabase: SupabaseClient,
+  params: { reviewId: number; supplierId: string; reply: string }
+): Promise<ProductReview> {
+  const reply = params.reply.trim()
+  if (!reply) {
+    throw createValidationError('Write a reply first')
+  }
+  if (reply.length > MAX_SUPPLIER_REPLY_LENGTH) {
+    throw createValidationError(`Replies can be at most ${MAX_SUPPLIER_REPLY_LENGTH} characters`)
+  }
+
+  const review = await getReview(supabase, params.reviewId)
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('id')
+    .eq('id', review.product_id)
+    .or(`supplier_id.eq.${params.supplierId},user_id.eq.${params.supplierId}`)
+    .maybeSingle()
+
+  if (!product) {
+    throw new ProductionError('Review not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  if (review.status === 'rejected') {
+    throw createValidationError('This review has been removed')
+  }
+  if (review.supplier_reply) {
+    throw new ProductionError('You have already replied to this review', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const now = new Date().toISOString()
+  const { data: updated, error } = await supabase
+    .from(REVIEWS_TABLE)
+    .update({ supplier_reply: reply, supplier_reply_at: now, updated_at: now })
+    .eq('id', review.id)
+    .is('supplier_reply', null)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error(`Error replying to review ${review.id}`, error)
+    throw error
+  }
+  // Another reply landed between the check and the update
+  if (!updated) {
+    throw new ProductionError('You have already replied to this review', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  return updated as ProductReview
+}
+
+/**
+ * Reviews on the supplier's products, including ones waiting for moderation
+ */
+export async function getSupplierReviews(supabase: SupabaseClient, supplierId: string) {
+  const { data: products } = await supabase
+    .from('products')
+    .select('id, name, image')
+    .or(`supplier_id.eq.${supplierId},user_id.eq.${supplierId}`)
+
+  const productMap = new Map<number, { id: number; name: string; image: string | null }>()
+  for (const product of products || []) {
+    productMap.set(product.id, product)
+  }
+  if (productMap.size === 0) return []
+
+  const { data: reviews, error } = await supabase
+    .from(REVIEWS_TABLE)
+    .select('*')
+    .in('product_id', [...productMap.keys()])
+    .neq('status', 'rejected')
+    .order('created_at', { ascending: false })
+    .limit(200)
+
+  if (error) {
+    throw error
+  }
+
+  const profiles = await getReviewerProfiles(
+    supabase,
+    [...new Set((reviews || []).map((review: any) => review.user_id).filter(Boolean))]
+  )
+
+  return (reviews || []).map((review: any) => {
+    const product = productMap.get(review.product_id)
+    return {
+      ...toClientReview(review as ProductReview, profiles.get(review.user_id)),
+      productName: product?.name || null,
+      productImage: product?.image || null,
+      status: review.status as ReviewStatus
+    }
+  })
+}
+
+/**
+ * Admin moderation queue: held or hidden reviews plus approved reviews with open reports
+ */
+export async function getModerationQueue(supabase: SupabaseClient) {
+  const { data: openReports } = await supabase
+    .from(REPORTS_TABLE)
+    .select('review_id, reason, details, created_at')
+    .eq('status', 'open')
+    .order('created_at', { ascending: true })
+
+  const reportsByReview = new Map<number, any[]>()
+  for (const report of openReports || []) {
+    reportsByReview.set(report.review_id, [...(reportsByReview.get(report.review_id) || []), report])
+  }
+
+  let query = supabase
+    .from(REVIEWS_TABLE)
+    .select('*, products(name)')
+    .order('created_at', { ascending: true })
+    .limit(200)
+
+  query = reportsByReview.size > 0
+    ? query.or(`status.eq.flagged,id.in.(${[...reportsByReview.keys()].join(',')})`)
+    : query.eq('status', 'flagged')
+
+  const { data: reviews, error } = await query
+  if (error) {
+    throw error
+  }
+
+  return (reviews || [])
+    .filter((review: any) => review.status !== 'rejected')
+    .map((review: any) => ({
+      id: review.id,
+      productId: review.product_id,
+      productName: review.products?.name || null,
+      rating: review.rating,
+      comment: review.comment,
+      images: review.images || [],
+      status: review.status as ReviewStatus,
+      moderationReason: review.moderation_reason,
+      reports: (reportsByReview.get(review.id) || []).map(report => ({
+        reason: report.reason,
+        details: report.details,
+        createdAt: report.created_at
+      })),
+      createdAt: review.created_at
+    }))
+}
+
+/**
+ * Approve (publish or keep) or reject (remove) a review from the moderation queue
+ * Closes its open reports and recomputes the product rating
+ */
+export async function moderateReview(
+  supabase: SupabaseClient,
+  params: { reviewId: number; adminId: string; action: 'approve' | 'reject'; note?: string | null }
+): Promise<ProductReview> {
+  const review = await getReview(supabase, params.reviewId)
+  const now = new Date().toISOString()
+
+  const { data: updated, error } = await supabase
+    .from(REVIEWS_TABLE)
+    .update({
+      status: params.action === 'approve' ? 'approved' : 'rejected',
+      moderation_reason: params.note || review.moderation_reason,
+      moderated_by: params.adminId,
+      moderated_at: now,
+      updated_at: now
+    })
+    .eq('id', review.id)
+    .select('*')
+    .single()
+
+  if (error || !updated) {
+    logger.error(`Error moderating review ${review.id}`, error)
+    throw error || new Error('Failed to moderate review')
+  }
+
+  await supabase
+    .from(REPORTS_TABLE)
+    .update({ status: 'resolved' })
+    .eq('review_id', review.id)
+    .eq('status', 'open')
+
+  await recomputeProductRating(supabase, review.product_id)
+
+  return updated as ProductReview
+}
+
+// SECURITY: Never expose the reviewer's user id or order item to clients
+export function toClientReview(review: ProductReview, profile?: ReviewerProfile) {
+  return {
+    id: review.id,
+    productId: review.product_id,
+    userName: profile?.full_name || profile?.company_name || 'Anonymous',
+    userAvatar: profile?.avatar_url || null,
+    rating: review.rating,
+    comment: review.comment,
+    helpful: review.helpful_count || 0,
+    images: review.images || [],
+    verifiedPurchase: !!review.confirmed_order_item_id,
+    supplierReply: review.supplier_reply
+      ? { body: review.supplier_reply, date: review.supplier_reply_at }
+      : null,
+    date: review.created_at,
+    updatedAt: review.updated_at
+  }
+}
@@ -0,0 +1,752 @@
+/**
+ * Product publishing workflow and revisions
+ * Every supplier edit is saved as a numbered revision holding a full snapshot of the product's
+ * content. Edits to a published product are staged: the live listing keeps its content until an
+ * admin approves the revision. Drafts and products waiting for their first review are not visible,
+ * so their edits apply straight away and the revision is kept for history and rollback.
+ * Stock is not content: quantities always apply immediately and approving a revision never
+ * overwrites the stock of an existing variant.
+ *
+ * Product status (products.publication_status, null on older rows means published):
+ *   draft -> pending_review -> published, archived from any state and restored to draft
+ * Revision status: draft | pending_review -> approved | rejected, or superseded by a newer edit
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { createNotification, notifyAllAdmins } from './notification-helpers'
+import { parsePriceTiers, PriceTier } from './price-tiers'
+import { parseShippingPackage, ShippingPackage } from './shipping-packages'
+
+export type ProductPublicationStatus = 'draft' | 'pending_review' | 'published' | 'archived'
+
+export type ProductRevisionStatus = 'draft' | 'pending_review' | 'approved' | 'rejected' | 'superseded'
+
+export const PRODUCT_PUBLICATION_STATUSES: ProductPublicationStatus[] = ['draft', 'pending_review', 'published', 'archived']
+
+export const MAX_REJECTION_REASON_LENGTH = 1000
+
+// Product columns a revision captures and an approval writes back
+export const REVISION_CONTENT_FIELDS = [
+  'name',
+  'slug',
+  'description',
+  'category',
+  'category_id',
+  'brand',
+  'model',
+  'price',
+  'original_price',
+  'price_tiers',
+  'shipping_package',
+  'image',
+  'sku',
+  'specifications',
+  'variant_config',
+  'variant_images',
+  'specification_images',
+  'video',
+  'view360',
+  'import_china',
+  'free_delivery'
+] as const
+
+// Always checked; PROHIBITED_PRODUCT_KEYWORDS adds a comma separated list on top
+const DEFAULT_PROHIBITED_KEYWORDS = [
+  'counterfeit',
+  'replica',
+  'fake',
+  'knockoff',
+  'cocaine',
+  'heroin',
+  'cannabis',
+  'firearm',
+  'ammunition',
+  'explosive',
+  'ivory',
+  'rhino horn',
+  'pangolin',
+  'stolen'
+]
+
+const PRODUCTS_TABLE = 'products'
+const VARIANTS_TABLE = 'product_variants'
+const REVISIONS_TABLE = 'product_revisions'
+
+export interface RevisionVariant {
+  // null for a variant the revision adds
+  id: number | null
+  variant_name: string
+  price: number | null
+  price_tiers: PriceTier[]
+  shipping_package: ShippingPackage | null
+  sku: string | null
+  image: string | null
+  stock_quantity: number
+}
+
+export interface ProductSnapshot {
+  fields: Record<string, unknown>
+  variants: RevisionVariant[]
+}
+
+export interface ProductRevision {
+  id: number
+  product_id: number
+  supplier_id: string
+  revision_number: number
+  status: ProductRevisionStatus
+  snapshot: ProductSnapshot
+  changed_fields: string[]
+  flagged_keywords: string[]
+  note: string | null
+  created_by: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_reason: string | null
+  created_at: string
+}
+
+export interface SnapshotChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export function normalizePublicationStatus(status: unknown): ProductPublicationStatus {
+  return (PRODUCT_PUBLICATION_STATUSES as unknown[]).includes(status) ? status as ProductPublicationStatus : 'published'
+}
+
+function toRevisionVariant(variant: Record<string, any>): RevisionVariant {
+  const id = Number(variant.id)
+  const price = variant.price === null || variant.price === undefined || variant.price === '' ? null : Number(variant.price)
+  return {
+    id: Number.isInteger(id) && id > 0 ? id : null,
+    variant_name: String(variant.variant_name ?? variant.name ?? '').trim(),
+    price: price !== null && Number.isFinite(price) ? price : null,
+    price_tiers: parsePriceTiers(variant.price_tiers ?? variant.priceTiers),
+    shipping_package: parseShippingPackage(variant.shipping_package ?? variant.shippingPackage),
+    sku: variant.sku ? String(variant.sku).trim() : null,
+    image: variant.image ? String(variant.image).trim() : null,
+    stock_quantity: Math.max(0, parseInt(String(variant.stock_quantity ?? variant.stockQuantity ?? 0)) || 0)
+  }
+}
+
+/**
+ * Snapshot of a products row and its product_variants rows
+ * Columns missing from the row (e.g. model on older databases) are left out rather than nulled
+ */
+export function buildProductSnapshot(product: Record<string, any>, variants: Array<Record<string, any>> = []): ProductSnapshot {
+  const fields: Record<string, unknown> = {}
+  for (const field of REVISION_CONTENT_FIELDS) {
+    if (field in product) fields[field] = product[field] ?? null
+  }
+  return {
+    fields,
+    variants: variants.map(toRevisionVariant).sort((a, b) => (a.id ?? Infinity) - (b.id ?? Infinity))
+  }
+}
+
+/**
+ * Overlay product column changes and, when given, a replacement variant list on a snapshot
+ */
+export function mergeIntoSnapshot(
+  snapshot: ProductSnapshot,
+  changes: Record<string, unknown>,
+  variants?: Array<Record<string, any>>
+): ProductSnapshot {
+  const fields = { ...snapshot.fields }
+  for (const field of REVISION_CONTENT_FIELDS) {
+    if (changes[field] !== undefined) fields[field] = changes[field]
+  }
+  return {
+    fields,
+    variants: variants ? variants.map(toRevisionVariant) : snapshot.variants
+  }
+}
+
+async function fetchProduct(supabase: SupabaseClient, productId: number) {
+  const { data: product, error } = await supabase
+    .from(PRODUCTS_TABLE)
+    .select('*, product_variants (*)')
+    .eq('id', productId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error(`Error loading product ${productId} for revision`, error)
+    throw error
+  }
+  if (!product) {
+    throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return product as Record<string, any>
+}
+
+/**
+ * Throws a 404 unless the product belongs to the supplier
+ */
+export async function assertSupplierOwnsProduct(supabase: SupabaseClient, productId: number, supplierId: string): Promise<void> {
+  const { data: product } = await supabase
+    .from(PRODUCTS_TABLE)
+    .select('id')
+    .eq('id', productId)
+    .or(`supplier_id.eq.${supplierId},user_id.eq.${supplierId}`)
+    .maybeSingle()
+  if (!product) {
+    throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+  }
+}
+
+/**
+ * Current live content of a product as a snapshot, with the product row it came from
+ */
+export async function loadProductSnapshot(
+  supabase: SupabaseClient,
+  productId: number
+): Promise<{ product: Record<string, any>; snapshot: ProductSnapshot }> {
+  const product = await fetchProduct(supabase, productId)
+  return { product, snapshot: buildProductSnapshot(product, product.product_variants || []) }
+}
+
+function comparable(value: unknown): string {
+  // Snapshots from before a list column existed count the same as an empty list
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return 'null'
+  return JSON.stringify(value)
+}
+
+/**
+ * Field by field differences; variants are matched by id, or by name for variants without one
+ */
+export function diffProductSnapshots(before: ProductSnapshot | null, after: ProductSnapshot): SnapshotChange[] {
+  const changes: SnapshotChange[] = []
+  const fields = new Set([...Object.keys(before?.fields || {}), ...Object.keys(after.fields)])
+  for (const field of REVISION_CONTENT_FIELDS) {
+    if (!fields.has(field) || field === 'slug') continue
+    const previous = before?.fields[field] ?? null
+    const next = after.fields[field] ?? null
+    if (comparable(previous) !== comparable(next)) {
+      changes.push({ field, before: previous, after: next })
+    }
+  }
+
+  const beforeVariants = before?.variants || []
+  const matched = new Set<RevisionVariant>()
+  for (const variant of after.variants) {
+    const previous = beforeVariants.find(candidate =>
+      !matched.has(candidate) && (variant.id ? candidate.id === variant.id : candidate.variant_name === variant.variant_name)
+    )
+    const label = `variant: ${variant.variant_name || previous?.variant_name || 'unnamed'}`
+    if (!previous) {
+      changes.push({ field: label, before: null, after: { name: variant.variant_name, price: variant.price, sku: variant.sku } })
+      continue
+    }
+    matched.add(previous)
+    for (const key of ['variant_name', 'price', 'price_tiers', 'shipping_package', 'sku', 'image'] as const) {
+      if (comparable(previous[key]) !== comparable(variant[key])) {
+        changes.push({ field: `${label} ${key === 'variant_name' ? 'name' : key}`, before: previous[key], after: variant[key] })
+      }
+    }
+  }
+  for (const previous of beforeVariants) {
+    if (!matched.has(previous)) {
+      changes.push({ field: `variant: ${previous.variant_name || 'unnamed'}`, before: { name: previous.variant_name, price: previous.price, sku: previous.sku }, after: null })
+    }
+  }
+  return changes
+}
+
+function prohibitedKeywords(): string[] {
+  const extra = (process.env.PROHIBITED_PRODUCT_KEYWORDS || '')
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(Boolean)
+  return [...new Set([...DEFAULT_PROHIBITED_KEYWORDS, ...extra])]
+}
+
+/**
+ * Prohibited keywords found in a snapshot's customer-facing text
+ */
+export function findProhibitedKeywords(snapshot: ProductSnapshot): string[] {
+  const { fields } = snapshot
+  const text = [
+    fields.name,
+    fields.description,
+    fields.brand,
+    fields.model,
+    fields.category,
+    fields.specifications ? JSON.stringify(fields.specifications) : '',
+    ...snapshot.variants.map(variant => variant.variant_name)
+  ].filter(Boolean).join(' ').toLowerCase()
+
+  return prohibitedKeywords().filter(keyword => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')
+    return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`, 'i').test(text)
+  })
+}
+
+async function latestRevision(supabase: SupabaseClient, productId: number): Promise<ProductRevision | null> {
+  const { data } = await supabase
+    .from(REVISIONS_TABLE)
+    .select('*')
+    .eq('product_id', productId)
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return (data as ProductRevision) || null
+}
+
+async function flagForModeration(product: Record<string, any>, revision: ProductRevision) {
+  if (revision.flagged_keywords.length === 0) return
+  await notifyAllAdmins(
+    'product_flagged',
+    'Product flagged for review',
+    `"${revision.snapshot.fields.name || product.name}" (revision ${revision.revision_number}) mentions: ${revision.flagged_keywords.join(', ')}`,
+    {
+      supplier_id: revision.supplier_id,
+      product_id: revision.product_id,
+      revision_id: revision.id,
+      action_url: `/api/admin/product-revisions?status=pending_review`
+    }
+  )
+}
+
+/**
+ * Save an edit as the next revision of a product
+ * The revision is pending review when the product is published or waiting for review, a draft otherwise.
+ * Older pending revisions of the product are superseded. Callers apply the content themselves
+ * for products that aren't published; for published products it waits for approval
+ */
+export async function recordProductRevision(
+  supabase: SupabaseClient,
+  params: { productId: number; actorId: string; snapshot: ProductSnapshot; note?: string | null }
+): Promise<ProductRevision> {
+  const product = await fetchProduct(supabase, params.productId)
+  const productStatus = normalizePublicationStatus(product.publication_status)
+  if (productStatus === 'archived') {
+    throw new ProductionError('Restore this product before editing it', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const status: ProductRevisionStatus = productStatus === 'draft' ? 'draft' : 'pending_review'
+  const previous = await latestRevision(supabase, params.productId)
+  const base = previous?.snapshot || buildProductSnapshot(product, product.product_variants || [])
+  const changedFields = diffProductSnapshots(base, params.snapshot).map(change => change.field)
+  const flaggedKeywords = status === 'pending_review' ? findProhibitedKeywords(params.snapshot) : []
+
+  await supabase
+    .from(REVISIONS_TABLE)
+    .update({ status: 'superseded' })
+    .eq('product_id', params.productId)
+    .in('status', ['draft', 'pending_review'])
+
+  let revision: ProductRevision | null = null
+  let revisionNumber = (previous?.revision_number || 0) + 1
+  for (let attempt = 0; attempt < 3 && !revision; attempt++) {
+    const { data, error } = await supabase
+      .from(REVISIONS_TABLE)
+      .insert({
+        product_id: params.productId,
+        supplier_id: product.supplier_id || product.user_id,
+        revision_number: revisionNumber,
+        status,
+        snapshot: params.snapshot,
+        changed_fields: changedFields,
+        flagged_keywords: flaggedKeywords,
+        note: params.note || null,
+        created_by: params.actorId
+      })
+      .select('*')
+      .single()
+
+    // Unique (product_id, revision_number): another save took this number
+    if (error?.code === '23505') {
+      revisionNumber++
+      continue
+    }
+    if (error || !data) {
+      logger.error(`Error recording revision for product ${params.productId}`, error)
+      throw error || new Error('Failed to save revision')
+    }
+    revision = data as ProductRevision
+  }
+  if (!revision) {
+    throw new ProductionError('Product was edited at the same time, please try again', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  await supabase
+    .from(PRODUCTS_TABLE)
+    .update({ pending_revision_id: status === 'pending_review' ? revision.id : null })
+    .eq('id', params.productId)
+
+  await flagForModeration(product, revision)
+  return revision
+}
+
+/**
+ * Write a snapshot's content to the live product
+ * Variants are matched by id: matched variants get the new name, price, sku and image but keep their
+ * stock, new ones are created with the snapshot's stock and variants left out are removed
+ */
+export async function applyProductSnapshot(
+  supabase: SupabaseClient,
+  productId: number,
+  snapshot: ProductSnapshot
+): Promise<void> {
+  const fields: Record<string, unknown> = {}
+  for (const field of REVISION_CONTENT_FIELDS) {
+    if (field in snapshot.fields) fields[field] = snapshot.fields[field]
+  }
+
+  const { error } = await supabase
+    .from(PRODUCTS_TABLE)
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', productId)
+  if (error) {
+    logger.error(`Error applying revision to product ${productId}`, error)
+    throw error
+  }
+
+  const { data: currentVariants } = await supabase
+    .from(VARIANTS_TABLE)
+    .select('id')
+    .eq('product_id', productId)
+  const currentIds = new Set((currentVariants || []).map(variant => variant.id as number))
+  const keptIds = new Set<number>()
+
+  for (const variant of snapshot.variants) {
+    if (variant.id && currentIds.has(variant.id)) {
+      keptIds.add(variant.id)
+      await supabase
+        .from(VARIANTS_TABLE)
+        .update({
+          variant_name: variant.variant_name,
+          price: variant.price,
+          price_tiers: variant.price_tiers,
+          shipping_package: variant.shipping_package ?? null,
+          sku: variant.sku,
+          image: variant.image
+        })
+        .eq('id', variant.id)
+      continue
+    }
+    const { data: created, error: insertError } = await supabase
+      .from(VARIANTS_TABLE)
+      .insert({
+        product_id: productId,
+        variant_name: variant.variant_name,
+        price: variant.price ?? fields.price ?? null,
+        price_tiers: variant.price_tiers ?? [],
+        shipping_package: variant.shipping_package ?? null,
+        stock_quantity: variant.stock_quantity,
+        sku: variant.sku,
+        image: variant.image,
+        in_stock: variant.stock_quantity > 0
+      })
+      .select('id')
+      .single()
+    if (insertError) {
+      logger.error(`Error adding revision variant to product ${productId}`, insertError)
+    } else if (created) {
+      keptIds.add(created.id)
+    }
+  }
+
+  const removedIds = [...currentIds].filter(id => !keptIds.has(id))
+  if (removedIds.length > 0) {
+    await supabase.from(VARIANTS_TABLE).delete().in('id', removedIds)
+  }
+
+  if (snapshot.variants.length > 0 || removedIds.length > 0) {
+    const { data: allVariants } = await supabase
+      .from(VARIANTS_TABLE)
+      .select('stock_quantity')
+      .eq('product_id', productId)
+    if (allVariants && allVariants.length > 0) {
+      const totalStock = allVariants.reduce((sum, variant) => sum + (variant.stock_quantity || 0), 0)
+      await supabase
+        .from(PRODUCTS_TABLE)
+        .update({ stock_quantity: totalStock, in_stock: totalStock > 0 })
+        .eq('id', productId)
+    }
+  }
+}
+
+async function getRevision(supabase: SupabaseClient, revisionId: number): Promise<ProductRevision> {
+  const { data, error } = await supabase
+    .from(REVISIONS_TABLE)
+    .select('*')
+    .eq('id', revisionId)
+    .maybeSingle()
+  if (error) {
+    logger.error(`Error loading revision ${revisionId}`, error)
+    throw error
+  }
+  if (!data) {
+    throw new ProductionError('Revision not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return data as ProductRevision
+}
+
+/**
+ * Revisions of one product, newest first
+ */
+export async function listProductRevisions(supabase: SupabaseClient, productId: number): Promise<ProductRevision[]> {
+  const { data, error } = await supabase
+    .from(REVISIONS_TABLE)
+    .select('*')
+    .eq('product_id', productId)
+    .order('revision_number', { ascending: false })
+    .limit(100)
+  if (error) {
+    logger.error(`Error listing revisions for product ${productId}`, error)
+    throw error
+  }
+  return (data || []) as ProductRevision[]
+}
+
+/**
+ * A supplier's revision with its differences from another revision, or from the live product
+ */
+export async function compareProductRevision(
+  supabase: SupabaseClient,
+  params: { productId: number; revisionId: number; againstRevisionId?: number | null }
+): Promise<{ revision: ProductRevision; against: number | 'live'; changes: SnapshotChange[] }> {
+  const revision = await getRevision(supabase, params.revisionId)
+  if (revision.product_id !== params.productId) {
+    throw new ProductionError('Revision not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  if (params.againstRevisionId) {
+    const other = await getRevision(supabase, params.againstRevisionId)
+    if (other.product_id !== params.productId) {
+      throw new ProductionError('Revision not found', ErrorCodes.NOT_FOUND, 404)
+    }
+    return { revision, against: other.id, changes: diffProductSnapshots(other.snapshot, revision.snapshot) }
+  }
+
+  const { snapshot } = await loadProductSnapshot(supabase, params.productId)
+  return { revision, against: 'live', changes: diffProductSnapshots(snapshot, revision.snapshot) }
+}
+
+/**
+ * Pending revision of a product, if an edit is waiting for review
+ */
+export async function getPendingRevision(supabase: SupabaseClient, productId: number): Promise<ProductRevision | null> {
+  const { data } = await supabase
+    .from(REVISIONS_TABLE)
+    .select('*')
+    .eq('product_id', productId)
+    .eq('status', 'pending_review')
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return (data as ProductRevision) || null
+}
+
+/**
+ * Save an older revision's content as a new revision
+ * Published products get it as a pending edit; other products get it applied straight away
+ */
+export async function rollbackProductRevision(
+  supabase: SupabaseClient,
+  params: { productId: number; revisionId: number; actorId: string }
+): Promise<ProductRevision> {
+  const target = await getRevision(supabase, params.revisionId)
+  if (target.product_id !== params.productId) {
+    throw new ProductionError('Revision not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const { product } = await loadProductSnapshot(supabase, params.productId)
+  const productStatus = normalizePublicationStatus(product.publication_status)
+  if (productStatus === 'archived') {
+    throw new ProductionError('Restore this product before rolling it back', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  if (productStatus !== 'published') {
+    await applyProductSnapshot(supabase, params.productId, target.snapshot)
+  }
+
+  return recordProductRevision(supabase, {
+    productId: params.productId,
+    actorId: params.actorId,
+    snapshot: target.snapshot,
+    note: `Rolled back to revision ${target.revision_number}`
+  })
+}
+
+/**
+ * Supplier status changes: submit a draft for review, archive, or restore an archived product to draft
+ */
+export async function changeProductPublicationStatus(
+  supabase: SupabaseClient,
+  params: { productId: number; actorId: string; action: 'submit' | 'archive' | 'restore' }
+): Promise<{ status: ProductPublicationStatus; revision?: ProductRevision }> {
+  const { product, snapshot } = await loadProductSnapshot(supabase, params.productId)
+  const current = normalizePublicationStatus(product.publication_status)
+
+  if (params.action === 'archive') {
+    if (current === 'archived') return { status: current }
+    await supabase
+      .from(REVISIONS_TABLE)
+      .update({ status: 'superseded' })
+      .eq('product_id', params.productId)
+      .in('status', ['draft', 'pending_review'])
+    await supabase
+      .from(PRODUCTS_TABLE)
+      .update({ publication_status: 'archived', is_hidden: true, pending_revision_id: null, updated_at: new Date().toISOString() })
+      .eq('id', params.productId)
+    return { status: 'archived' }
+  }
+
+  if (params.action === 'restore') {
+    if (current !== 'archived') {
+      throw createValidationError('Only archived products can be restored')
+    }
+    await supabase
+      .from(PRODUCTS_TABLE)
+      .update({ publication_status: 'draft', is_hidden: true, updated_at: new Date().toISOString() })
+      .eq('id', params.productId)
+    return { status: 'draft' }
+  }
+
+  if (current !== 'draft') {
+    throw createValidationError(current === 'published'
+      ? 'This product is already published, edits are sent for review when you save them'
+      : 'This product is already waiting for review')
+  }
+
+  await supabase
+    .from(PRODUCTS_TABLE)
+    .update({ publication_status: 'pending_review', updated_at: new Date().toISOString() })
+    .eq('id', params.productId)
+
+  const revision = await recordProductRevision(supabase, {
+    productId: params.productId,
+    actorId: params.actorId,
+    snapshot,
+    note: 'Submitted for review'
+  })
+  return { status: 'pending_review', revision }
+}
+
+/**
+ * Admin queue of revisions waiting for review, flagged ones first, each with its changes from the live product
+ */
+export async function getRevisionReviewQueue(
+  supabase: SupabaseClient,
+  params: { limit?: number } = {}
+): Promise<Array<ProductRevision & { product_name: string; publication_status: ProductPublicationStatus; changes: SnapshotChange[] }>> {
+  const { data, error } = await supabase
+    .from(REVISIONS_TABLE)
+    .select('*, products (id, name, publication_status, published_revision_id)')
+    .eq('status', 'pending_review')
+    .order('created_at', { ascending: true })
+    .limit(Math.min(params.limit || 50, 200))
+  if (error) {
+    logger.error('Error loading product revision queue', error)
+    throw error
+  }
+
+  const queue = []
+  for (const row of (data || []) as Array<ProductRevision & { products: Record<string, any> | null }>) {
+    const { products: product, ...revision } = row
+    const publicationStatus = normalizePublicationStatus(product?.publication_status)
+    let base: ProductSnapshot | null = null
+    if (publicationStatus === 'published') {
+      base = (await loadProductSnapshot(supabase, revision.product_id)).snapshot
+    } else if (product?.published_revision_id) {
+      base = (await getRevision(supabase, product.published_revision_id)).snapshot
+    }
+    queue.push({
+      ...revision,
+      product_name: String(product?.name || revision.snapshot.fields.name || ''),
+      publication_status: publicationStatus,
+      changes: diffProductSnapshots(base, revision.snapshot)
+    })
+  }
+
+  return queue.sort((a, b) => Number(b.flagged_keywords.length > 0) - Number(a.flagged_keywords.length > 0))
+}
+
+/**
+ * Approve or reject a pending revision
+ * Approval writes the content live and publishes the product; rejection needs a reason, leaves the
+ * live product alone and sends a product that was waiting for its first review back to draft
+ */
+export async function reviewProductRevision(
+  supabase: SupabaseClient,
+  params: { revisionId: number; adminId: string; action: 'approve' | 'reject'; reason?: string | null }
+): Promise<ProductRevision> {
+  const revision = await getRevision(supabase, params.revisionId)
+  if (revision.status !== 'pending_review') {
+    throw new ProductionError(`This revision is ${revision.status.replace('_', ' ')}, not waiting for review`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const reason = params.reason?.trim().slice(0, MAX_REJECTION_REASON_LENGTH) || null
+  if (params.action === 'reject' && (!reason || reason.length < 3)) {
+    throw createValidationError('Give the supplier a reason for rejecting this revision')
+  }
+
+  const now = new Date().toISOString()
+  // Claim the revision first so two admins can't review it at once
+  const { data: claimed, error } = await supabase
+    .from(REVISIONS_TABLE)
+    .update({
+      status: params.action === 'approve' ? 'approved' : 'rejected',
+      reviewed_by: params.adminId,
+      reviewed_at: now,
+      review_reason: reason
+    })
+    .eq('id', revision.id)
+    .eq('status', 'pending_review')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error(`Error reviewing revision ${revision.id}`, error)
+    throw error
+  }
+  if (!claimed) {
+    throw new ProductionError('This revision was just reviewed or replaced', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const name = String(revision.snapshot.fields.name || 'Your product')
+  if (params.action === 'approve') {
+    await applyProductSnapshot(supabase, revision.product_id, revision.snapshot)
+    await supabase
+      .from(PRODUCTS_TABLE)
+      .update({
+        publication_status: 'published',
+        is_hidden: false,
+        published_revision_id: revision.id,
+        pending_revision_id: null
+      })
+      .eq('id', revision.product_id)
+
+    await createNotification(
+      revision.supplier_id,
+      'product_approved',
+      'Product changes approved',
+      `${name} (revision ${revision.revision_number}) is now live.`,
+      { product_id: revision.product_id, revision_id: revision.id, action_url: '/supplier/products' }
+    )
+  } else {
+    const product = await fetchProduct(supabase, revision.product_id)
+    await supabase
+      .from(PRODUCTS_TABLE)
+      .update({
+        pending_revision_id: null,
+        ...(normalizePublicationStatus(product.publication_status) === 'pending_review' ? { publication_status: 'draft' } : {})
+      })
+      .eq('id', revision.product_id)
+
+    await createNotification(
+      revision.supplier_id,
+      'product_rejected',
+      'Product changes rejected',
+      `${name} (revision ${revision.revision_number}) was not approved: ${reason}`,
+      { product_id: revision.product_id, revision_id: revision.id, action_url: '/supplier/products' }
+    )
+  }
+
+  return claimed as ProductRevision
+}
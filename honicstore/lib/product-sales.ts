@@ -0,0 +1,560 @@
+/**
+ * Scheduled sales
+ * A sale gives a whole product, or one of its variants, a temporary price between starts_at and
+ * ends_at, optionally only for the first units sold. Prices in products and product_variants are
+ * never rewritten: the catalog, cart and checkout resolve the effective price when a request comes
+ * in, so a sale starts and ends on time even when the listing itself is cached. A product-wide sale
+ * scales variants with their own price by the same ratio.
+ *
+ * Capped sales count units through product_sale_claims rows written when an order is placed and
+ * released when it is cancelled or expires unpaid, the same way coupon uses are counted.
+ *
+ * Sale status: scheduled -> cancelled. Claim status: applied -> released
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { roundMoney } from './supplier-ledger'
+import { ShortTtlCache } from './short-ttl-cache'
+
+export type ProductSaleStatus = 'scheduled' | 'cancelled'
+
+// How a sale stands right now, for the supplier dashboard
+export type SaleState = 'upcoming' | 'running' | 'sold_out' | 'ended' | 'cancelled'
+
+export interface ProductSale {
+  id: string
+  product_id: number
+  // null for a sale on the whole product
+  variant_id: number | null
+  supplier_id: string
+  sale_price: number
+  starts_at: string
+  ends_at: string
+  // First N units only; null for no cap
+  quantity_cap: number | null
+  status: ProductSaleStatus
+  // Set once the price-alerts cron has told watchers the sale started
+  start_alerted_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// A sale with the units already claimed, which is what price resolution works from
+export interface SaleWindow extends ProductSale {
+  quantity_sold: number
+}
+
+// What the catalog and cart send to the client for a running sale
+export interface ClientSale {
+  id: string
+  price: number
+  regularPrice: number
+  endsAt: string
+  // Units left under the cap; null when the sale has no cap
+  remaining: number | null
+}
+
+export interface SaleInput {
+  variantId: number | null
+  salePrice: number
+  startsAt: string
+  endsAt: string
+  quantityCap: number | null
+}
+
+export interface SaleClaimLine {
+  saleId: string
+  productId: number
+  variantId: number | null
+  productName?: string | null
+  quantity: number
+}
+
+export const MAX_SALE_DAYS = 90
+
+const SALES_TABLE = 'product_sales'
+const CLAIMS_TABLE = 'product_sale_claims'
+
+// Sales and sold units per product; short enough that a new sale or a sold-out cap shows up quickly
+const salesCache = new ShortTtlCache<SaleWindow[]>(30000)
+
+function remainingUnits(sale: SaleWindow): number | null {
+  return sale.quantity_cap === null ? null : Math.max(0, sale.quantity_cap - sale.quantity_sold)
+}
+
+function isRunning(sale: SaleWindow, now: Date): boolean {
+  return sale.status === 'scheduled' &&
+    new Date(sale.starts_at).getTime() <= now.getTime() &&
+    new Date(sale.ends_at).getTime() > now.getTime()
+}
+
+export function saleState(sale: SaleWindow, now: Date = new Date()): SaleState {
+  if (sale.status === 'cancelled') return 'cancelled'
+  if (new Date(sale.ends_at).getTime() <= now.getTime()) return 'ended'
+  if (new Date(sale.starts_at).getTime() > now.getTime()) return 'upcoming'
+  return remainingUnits(sale) === 0 ? 'sold_out' : 'running'
+}
+
+/**
+ * Sales that have not ended yet for each product, with their claimed units
+ * Checkout passes fresh so caps are counted from the database rather than the cache
+ */
+export async function getProductSales(
+  supabase: SupabaseClient,
+  productIds: number[],
+  options: { fresh?: boolean } = {}
+): Promise<Map<number, SaleWindow[]>> {
+  const result = new Map<number, SaleWindow[]>()
+  const missing: number[] = []
+  for (const productId of [...new Set(productIds.filter(id => Number.isInteger(id) && id > 0))]) {
+    const cached = options.fresh ? null : salesCache.get(String(productId))
+    if (cached) result.set(productId, cached)
+    else missing.push(productId)
+  }
+  if (missing.length === 0) return result
+
+  const { data: sales, error } = await supabase
+    .from(SALES_TABLE)
+    .select('*')
+    .in('product_id', missing)
+    .eq('status', 'scheduled')
+    .gt('ends_at', new Date().toISOString())
+
+  // Prices fall back to the regular ones rather than failing the page
+  if (error) {
+    logger.error('Error loading product sales', error)
+    return result
+  }
+
+  const capped = (sales || []).filter((sale: ProductSale) => sale.quantity_cap !== null).map((sale: ProductSale) => sale.id)
+  const sold = new Map<string, number>()
+  if (capped.length > 0) {
+    const { data: claims, error: claimsError } = await supabase
+      .from(CLAIMS_TABLE)
+      .select('sale_id, quantity')
+      .in('sale_id', capped)
+      .eq('status', 'applied')
+    if (claimsError) {
+      logger.error('Error counting product sale claims', claimsError)
+    }
+    for (const claim of claims || []) {
+      sold.set(claim.sale_id, (sold.get(claim.sale_id) || 0) + (Number(claim.quantity) || 0))
+    }
+  }
+
+  for (const productId of missing) {
+    const windows = ((sales || []) as ProductSale[])
+      .filter(sale => sale.product_id === productId)
+      .map(sale => ({ ...sale, sale_price: Number(sale.sale_price), quantity_sold: sold.get(sale.id) || 0 }))
+    salesCache.set(String(productId), windows)
+    result.set(productId, windows)
+  }
+  return result
+}
+
+/**
+ * Effective unit price of a product or variant at a moment
+ * Only sales with enough units left for the whole quantity apply; the lowest price wins
+ */
+export function resolveSalePrice(
+  sales: SaleWindow[] | undefined,
+  params: { productPrice: number; variantId?: number | null; variantPrice?: number | null; quantity?: number; now?: Date }
+): { price: number; sale: SaleWindow | null } {
+  const now = params.now || new Date()
+  const quantity = Math.max(1, params.quantity || 1)
+  const productPrice = Number(params.productPrice) || 0
+  const regularPrice = params.variantPrice !== null && params.variantPrice !== undefined && Number(params.variantPrice) > 0
+    ? Number(params.variantPrice)
+    : productPrice
+  const variantId = params.variantId ?? null
+
+  let best: { price: number; sale: SaleWindow | null } = { price: regularPrice, sale: null }
+  for (const sale of sales || []) {
+    if (!isRunning(sale, now)) continue
+    if (sale.variant_id !== null && sale.variant_id !== variantId) continue
+    const remaining = remainingUnits(sale)
+    if (remaining !== null && remaining < quantity) continue
+
+    // A product-wide sale keeps the price difference between variants
+    const price = sale.variant_id === null && productPrice > 0 && regularPrice !== productPrice
+      ? roundMoney(regularPrice * sale.sale_price / productPrice)
+      : sale.sale_price
+    if (price < best.price) best = { price, sale }
+  }
+  return best
+}
+
+export function toClientSale(sale: SaleWindow, price: number, regularPrice: number): ClientSale {
+  return {
+    id: sale.id,
+    price,
+    regularPrice,
+    endsAt: sale.ends_at,
+    remaining: remainingUnits(sale)
+  }
+}
+
+/**
+ * Apply running sales to a catalog product in its client shape (price, originalPrice, variants)
+ * The regular price moves to originalPrice when that is higher than what was there, so the card
+ * shows the saving; sale describes the running sale for the countdown
+ */
+export function applySalesToProduct<T extends Record<string, any>>(product: T, sales: SaleWindow[] | undefined, now: Date = new Date()): T {
+  if (!sales || sales.length === 0) return product
+
+  const productPrice = Number(product.price) || 0
+  const { price, sale } = resolveSalePrice(sales, { productPrice, now })
+  let cardSale: ClientSale | null = sale ? toClientSale(sale, price, productPrice) : null
+
+  const variants = Array.isArray(product.variants)
+    ? product.variants.map((variant: any) => {
+      const variantPrice = variant.price === null || variant.price === undefined ? null : Number(variant.price)
+      const resolved = resolveSalePrice(sales, { productPrice, variantId: Number(variant.id) || null, variantPrice, now })
+      if (!resolved.sale) return variant
+      const regular = variantPrice && variantPrice > 0 ? variantPrice : productPrice
+      const variantSale = toClientSale(resolved.sale, resolved.price, regular)
+      // Variant-only sales still put a countdown on the card
+      if (!cardSale) cardSale = variantSale
+      return { ...variant, price: resolved.price, regularPrice: regular, sale: variantSale }
+    })
+    : product.variants
+
+  if (!cardSale) return product
+
+  const originalPrice = Math.max(Number(product.originalPrice ?? product.original_price) || 0, productPrice)
+  return {
+    ...product,
+    price,
+    ...(sale ? { originalPrice, original_price: originalPrice } : {}),
+    variants,
+    sale: cardSale
+  }
+}
+
+export function applySalesToProducts<T extends Record<string, any>>(products: T[], salesByProduct: Map<number, SaleWindow[]>, now: Date = new Date()): T[] {
+  return products.map(product => applySalesToProduct(product, salesByProduct.get(Number(product.id)), now))
+}
+
+/**
+ * Seconds until any of these sales starts or ends, so cached responses can expire with the price
+ */
+export function secondsUntilPriceChange(salesByProduct: Map<number, SaleWindow[]>, now: Date = new Date()): number | null {
+  let next: number | null = null
+  for (const sales of salesByProduct.values()) {
+    for (const sale of sales) {
+      for (const boundary of [new Date(sale.starts_at).getTime(), new Date(sale.ends_at).getTime()]) {
+        const seconds = Math.ceil((boundary - now.getTime()) / 1000)
+        if (seconds > 0 && (next === null || seconds < next)) next = seconds
+      }
+    }
+  }
+  return next
+}
+
+/**
+ * Cache-Control for a response whose prices change sooner than its usual max age, or null to keep
+ * the route's own caching
+ */
+export function priceChangeCacheControl(salesByProduct: Map<number, SaleWindow[]>, maxAgeSeconds: number, now: Date = new Date()): string | null {
+  const seconds = secondsUntilPriceChange(salesByProduct, now)
+  if (seconds === null || seconds >= maxAgeSeconds) return null
+  return `public, max-age=0, s-maxage=${seconds}, must-revalidate`
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw createValidationError(`${field} must be a valid date and time`, field)
+  }
+  return date
+}
+
+/**
+ * Validate a sale from the supplier dashboard
+ */
+export function normalizeSaleInput(body: Record<string, any>, now: Date = new Date()): SaleInput {
+  const salePrice = Number(body.salePrice)
+  if (!Number.isFinite(salePrice) || salePrice <= 0) {
+    throw createValidationError('Sale price must be more than 0', 'salePrice')
+  }
+
+  const startsAt = body.startsAt ? parseDate(body.startsAt, 'startsAt') : now
+  const endsAt = parseDate(body.endsAt, 'endsAt')
+  if (endsAt <= startsAt) {
+    throw createValidationError('The sale must end after it starts', 'endsAt')
+  }
+  if (endsAt <= now) {
+    throw createValidationError('The sale must end in the future', 'endsAt')
+  }
+  if (endsAt.getTime() - startsAt.getTime() > MAX_SALE_DAYS * 24 * 60 * 60 * 1000) {
+    throw createValidationError(`A sale can run for at most ${MAX_SALE_DAYS} days`, 'endsAt')
+  }
+
+  let quantityCap: number | null = null
+  if (body.quantityCap !== undefined && body.quantityCap !== null && body.quantityCap !== '') {
+    quantityCap = Number(body.quantityCap)
+    if (!Number.isInteger(quantityCap) || quantityCap < 1) {
+      throw createValidationError('Quantity cap must be a whole number of 1 or more', 'quantityCap')
+    }
+  }
+
+  let variantId: number | null = null
+  if (body.variantId !== undefined && body.variantId !== null && body.variantId !== '') {
+    variantId = Number(body.variantId)
+    if (!Number.isInteger(variantId) || variantId < 1) {
+      throw createValidationError('Variant not found', 'variantId')
+    }
+  }
+
+  return {
+    variantId,
+    salePrice: roundMoney(salePrice),
+    // Sales that start "now" are stored with the request time so they are live straight away
+    startsAt: (startsAt < now ? now : startsAt).toISOString(),
+    endsAt: endsAt.toISOString(),
+    quantityCap
+  }
+}
+
+/**
+ * A supplier's sales for one product, newest first, with units sold on capped ones
+ */
+export async function listProductSales(supabase: SupabaseClient, productId: number): Promise<SaleWindow[]> {
+  const { data, error } = await supabase
+    .from(SALES_TABLE)
+    .select('*')
+    .eq('product_id', productId)
+    .order('starts_at', { ascending: false })
+    .limit(100)
+  if (error) {
+    logger.error(`Error listing sales for product ${productId}`, error)
+    throw error
+  }
+
+  const sales = (data || []) as ProductSale[]
+  const sold = new Map<string, number>()
+  if (sales.length > 0) {
+    const { data: claims } = await supabase
+      .from(CLAIMS_TABLE)
+      .select('sale_id, quantity')
+      .in('sale_id', sales.map(sale => sale.id))
+      .eq('status', 'applied')
+    for (const claim of claims || []) {
+      sold.set(claim.sale_id, (sold.get(claim.sale_id) || 0) + (Number(claim.quantity) || 0))
+    }
+  }
+  return sales.map(sale => ({ ...sale, sale_price: Number(sale.sale_price), quantity_sold: sold.get(sale.id) || 0 }))
+}
+
+/**
+ * Schedule a sale on one of the supplier's products
+ * The sale price has to be below the regular price, and two sales on the same product or variant
+ * cannot overlap
+ */
+export async function createProductSale(
+  supabase: SupabaseClient,
+  params: { supplierId: string; productId: number; input: SaleInput }
+): Promise<ProductSale> {
+  const { input } = params
+  const { data: product } = await supabase
+    .from('products')
+    .select('id, price')
+    .eq('id', params.productId)
+    .or(`supplier_id.eq.${params.supplierId},user_id.eq.${params.supplierId}`)
+    .maybeSingle()
+  if (!product) {
+    throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  let regularPrice = Number(product.price) || 0
+  if (input.variantId !== null) {
+    const { data: variant } = await supabase
+      .from('product_variants')
+      .select('id, price')
+      .eq('id', input.variantId)
+      .eq('product_id', params.productId)
+      .maybeSingle()
+    if (!variant) {
+      throw createValidationError('Variant not found', 'variantId')
+    }
+    if (Number(variant.price) > 0) regularPrice = Number(variant.price)
+  }
+  if (input.salePrice >= regularPrice) {
+    throw createValidationError('Sale price must be lower than the regular price', 'salePrice')
+  }
+
+  let overlapQuery = supabase
+    .from(SALES_TABLE)
+    .select('id')
+    .eq('product_id', params.productId)
+    .eq('status', 'scheduled')
+    .lt('starts_at', input.endsAt)
+    .gt('ends_at', input.startsAt)
+  overlapQuery = input.variantId === null ? overlapQuery.is('variant_id', null) : overlapQuery.eq('variant_id', input.variantId)
+  const { data: overlapping } = await overlapQuery.limit(1)
+  if (overlapping && overlapping.length > 0) {
+    throw new ProductionError(
+      input.variantId === null ? 'This product already has a sale at that time' : 'This variant already has a sale at that time',
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+
+  const { data: sale, error } = await supabase
+    .from(SALES_TABLE)
+    .insert({
+      product_id: params.productId,
+      variant_id: input.variantId,
+      supplier_id: params.supplierId,
+      sale_price: input.salePrice,
+      starts_at: input.startsAt,
+      ends_at: input.endsAt,
+      quantity_cap: input.quantityCap,
+      status: 'scheduled'
+    })
+    .select('*')
+    .single()
+
+  if (error || !sale) {
+    logger.error(`Error creating sale for product ${params.productId}`, error)
+    throw error || new Error('Failed to create sale')
+  }
+  salesCache.delete(String(params.productId))
+  return sale as ProductSale
+}
+
+/**
+ * Cancel a sale; a running sale ends straight away
+ */
+export async function cancelProductSale(
+  supabase: SupabaseClient,
+  params: { supplierId: string; productId: number; saleId: string }
+): Promise<ProductSale> {
+  const { data: sale, error } = await supabase
+    .from(SALES_TABLE)
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', params.saleId)
+    .eq('product_id', params.productId)
+    .eq('supplier_id', params.supplierId)
+    .eq('status', 'scheduled')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error(`Error cancelling sale ${params.saleId}`, error)
+    throw error
+  }
+  if (!sale) {
+    throw new ProductionError('Sale not found or already cancelled', ErrorCodes.NOT_FOUND, 404)
+  }
+  salesCache.delete(String(params.productId))
+  return sale as ProductSale
+}
+
+/**
+ * Count an order's sale-priced units against their caps
+ * Inserted first and summed afterwards, so two checkouts racing for the last units cannot both
+ * get the sale price. Over a cap the order's claims are released again and a 409 thrown
+ */
+export async function claimSaleUnits(
+  supabase: SupabaseClient,
+  order: { id: string; order_number: string },
+  lines: SaleClaimLine[]
+): Promise<void> {
+  if (lines.length === 0) return
+
+  const { error } = await supabase.from(CLAIMS_TABLE).insert(lines.map(line => ({
+    sale_id: line.saleId,
+    order_id: order.id,
+    order_number: order.order_number,
+    product_id: line.productId,
+    variant_id: line.variantId,
+    quantity: line.quantity,
+    status: 'applied'
+  })))
+  if (error) {
+    logger.error(`Error recording sale units for order ${order.order_number}`, error)
+    throw new ProductionError('Unable to apply sale price', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  const saleIds = [...new Set(lines.map(line => line.saleId))]
+  const { data: sales } = await supabase
+    .from(SALES_TABLE)
+    .select('id, quantity_cap')
+    .in('id', saleIds)
+    .not('quantity_cap', 'is', null)
+  if (!sales || sales.length === 0) return
+
+  const { data: claims } = await supabase
+    .from(CLAIMS_TABLE)
+    .select('sale_id, quantity')
+    .in('sale_id', sales.map((sale: any) => sale.id))
+    .eq('status', 'applied')
+  const sold = new Map<string, number>()
+  for (const claim of claims || []) {
+    sold.set(claim.sale_id, (sold.get(claim.sale_id) || 0) + (Number(claim.quantity) || 0))
+  }
+
+  const soldOut = sales.find((sale: any) => (sold.get(sale.id) || 0) > sale.quantity_cap)
+  if (soldOut) {
+    await releaseSaleClaims(supabase, order.id)
+    const line = lines.find(candidate => candidate.saleId === soldOut.id)
+    throw new ProductionError(
+      `The sale on ${line?.productName || 'an item in your order'} has just sold out. Please refresh and try again.`,
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+}
+
+/**
+ * Give sale units back when their order is cancelled or expires unpaid
+ */
+export async function releaseSaleClaims(supabase: SupabaseClient, orderId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(CLAIMS_TABLE)
+    .update({ status: 'released' })
+    .eq('order_id', orderId)
+    .eq('status', 'applied')
+    .select('id')
+
+  if (error) {
+    logger.error(`Error releasing sale units for order ${orderId}`, error)
+    return 0
+  }
+  return data?.length || 0
+}
+
+/**
+ * Sales that have started since the price-alerts cron last ran
+ */
+export async function collectStartedSales(supabase: SupabaseClient, limit: number = 100): Promise<ProductSale[]> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from(SALES_TABLE)
+    .select('*')
+    .eq('status', 'scheduled')
+    .is('start_alerted_at', null)
+    .lte('starts_at', now)
+    .gt('ends_at', now)
+    .order('starts_at', { ascending: true })
+    .limit(limit)
+  if (error) {
+    logger.error('Error loading started sales', error)
+    throw error
+  }
+  return (data || []) as ProductSale[]
+}
+
+export async function markSalesStartAlerted(supabase: SupabaseClient, saleIds: string[]): Promise<void> {
+  if (saleIds.length === 0) return
+  const { error } = await supabase
+    .from(SALES_TABLE)
+    .update({ start_alerted_at: new Date().toISOString() })
+    .in('id', saleIds)
+  if (error) {
+    logger.error('Error marking sales as alerted', error)
+  }
+}
@@ -0,0 +1,977 @@
+/**
+ * Requests for quotation (RFQ)
+ * A buyer who needs a large or custom quantity describes it (a product, a China import, a PCB or
+ * prototyping job, or anything else) with a quantity, target price, deadline and photos. The request
+ * goes to matching suppliers, who answer from /supplier/quotes with a unit price against one of their
+ * own products and a date the price holds until.
+ * Accepting a quote puts that product in the buyer's cart at the quoted quantity, and the cart,
+ * checkout and order APIs charge the quoted price for exactly that line until the quote is used by
+ * an order or expires.
+ *
+ * Request status: open -> accepted | closed (an open request past its deadline shows as expired)
+ * Quote status: submitted -> accepted -> ordered | declined | withdrawn
+ *   (a submitted or accepted quote past valid_until shows as expired; an ordered quote goes back to
+ *   accepted when its order is cancelled or expires unpaid)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { createNotification, notifyAllAdmins } from './notification-helpers'
+import { roundMoney } from './supplier-ledger'
+
+const REQUESTS_TABLE = 'quote_requests'
+const INVITES_TABLE = 'quote_request_suppliers'
+const QUOTES_TABLE = 'supplier_quotes'
+
+export const QUOTE_REQUEST_SOURCES = ['product', 'china_import', 'pcb', 'prototyping', 'custom'] as const
+
+export type QuoteRequestSource = typeof QUOTE_REQUEST_SOURCES[number]
+
+export type QuoteRequestStatus = 'open' | 'accepted' | 'closed'
+
+export type QuoteRequestState = QuoteRequestStatus | 'expired'
+
+export type QuoteStatus = 'submitted' | 'accepted' | 'ordered' | 'declined' | 'withdrawn'
+
+export type QuoteState = QuoteStatus | 'expired'
+
+export const MAX_QUOTE_ATTACHMENTS = 5
+
+export const MAX_SPECIFICATION_LENGTH = 4000
+
+// A request is sent to at most this many suppliers
+export const MAX_MATCHED_SUPPLIERS = 20
+
+// Deadlines and quote validity can be set this far ahead
+export const MAX_DEADLINE_DAYS = 180
+export const MAX_QUOTE_VALIDITY_DAYS = 90
+
+export const QUOTE_ATTACHMENT_BUCKET = 'quote-attachments'
+
+// Words in a product's category or name that make its supplier a match for service requests
+const SOURCE_KEYWORDS: Partial<Record<QuoteRequestSource, string[]>> = {
+  pcb: ['pcb', 'circuit board'],
+  prototyping: ['prototyp', 'development board', 'breadboard', '3d print']
+}
+
+export interface QuoteRequest {
+  id: string
+  request_number: string
+  user_id: string
+  source: QuoteRequestSource
+  product_id: number | null
+  variant_id: number | null
+  title: string
+  specification: string | null
+  category: string | null
+  quantity: number
+  target_unit_price: number | null
+  currency: string
+  deadline: string
+  attachments: string[]
+  status: QuoteRequestStatus
+  accepted_quote_id: string | null
+  supplier_count: number
+  closed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SupplierQuote {
+  id: string
+  quote_number: string
+  quote_request_id: string
+  request_number: string
+  buyer_id: string
+  supplier_id: string
+  product_id: number
+  variant_id: number | null
+  quantity: number
+  unit_price: number
+  currency: string
+  lead_time_days: number | null
+  valid_until: string
+  note: string | null
+  status: QuoteStatus
+  order_id: string | null
+  order_number: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface QuoteRequestInput {
+  source: QuoteRequestSource
+  productId: number | null
+  variantId: number | null
+  title: string
+  specification: string | null
+  category: string | null
+  quantity: number
+  targetUnitPrice: number | null
+  deadline: string
+  attachments: string[]
+}
+
+export interface SupplierQuoteInput {
+  productId: number
+  variantId: number | null
+  quantity: number | null
+  unitPrice: number
+  leadTimeDays: number | null
+  validUntil: string
+  note: string | null
+}
+
+// A quote accepted by the buyer and not yet used by an order, as the cart and order APIs price it
+export interface AcceptedQuote {
+  id: string
+  quote_number: string
+  product_id: number
+  variant_id: number | null
+  quantity: number
+  unit_price: number
+  valid_until: string
+}
+
+export interface QuoteClaimLine {
+  quoteId: string
+  productName: string
+}
+
+function generateNumber(prefix: string): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 8).toUpperCase()
+  return `${prefix}-${date}-${suffix}`
+}
+
+export function isValidRequestNumber(value: string | null | undefined): value is string {
+  return !!value && /^RFQ-\d{8}-[A-Z0-9]{1,6}$/.test(value)
+}
+
+export function isValidQuoteNumber(value: string | null | undefined): value is string {
+  return !!value && /^QT-\d{8}-[A-Z0-9]{1,6}$/.test(value)
+}
+
+function isQuoteAttachmentUrl(url: unknown): url is string {
+  return typeof url === 'string'
+    && /^https?:\/\//.test(url)
+    && url.includes(`/storage/v1/object/public/${QUOTE_ATTACHMENT_BUCKET}/`)
+}
+
+function optionalText(value: unknown, max: number, label: string, field: string): string | null {
+  const text = typeof value === 'string' ? value.trim() : ''
+  if (text.length > max) {
+    throw createValidationError(`${label} can be at most ${max} characters`, field)
+  }
+  return text || null
+}
+
+function positiveInteger(value: unknown, label: string, field: string, max: number = 1000000): number {
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw createValidationError(`${label} must be a whole number between 1 and ${max.toLocaleString()}`, field)
+  }
+  return number
+}
+
+function optionalPrice(value: unknown, label: string, field: string): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const price = Number(value)
+  if (!Number.isFinite(price) || price <= 0) {
+    throw createValidationError(`${label} must be more than 0`, field)
+  }
+  return roundMoney(price)
+}
+
+function optionalId(value: unknown): number | null {
+  if (value === undefined || value === null || value === '' || value === 'default') return null
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * A future date no more than maxDays ahead, as the end of that day in UTC
+ */
+function futureDate(value: unknown, maxDays: number, label: string, field: string): string {
+  const text = typeof value === 'string' ? value.trim() : ''
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T23:59:59.999Z` : text)
+  if (!text || Number.isNaN(date.getTime())) {
+    throw createValidationError(`${label} is required`, field)
+  }
+  const now = Date.now()
+  if (date.getTime() <= now) {
+    throw createValidationError(`${label} must be in the future`, field)
+  }
+  if (date.getTime() > now + maxDays * 24 * 60 * 60 * 1000) {
+    throw createValidationError(`${label} can be at most ${maxDays} days ahead`, field)
+  }
+  return date.toISOString()
+}
+
+export function quoteRequestState(request: Pick<QuoteRequest, 'status' | 'deadline'>, now: Date = new Date()): QuoteRequestState {
+  if (request.status === 'open' && new Date(request.deadline).getTime() <= now.getTime()) return 'expired'
+  return request.status
+}
+
+export function quoteState(quote: Pick<SupplierQuote, 'status' | 'valid_until'>, now: Date = new Date()): QuoteState {
+  if ((quote.status === 'submitted' || quote.status === 'accepted') && new Date(quote.valid_until).getTime() <= now.getTime()) {
+    return 'expired'
+  }
+  return quote.status
+}
+
+/**
+ * Validate a new request from the quote form
+ */
+export function normalizeQuoteRequestInput(body: Record<string, any>): QuoteRequestInput {
+  const source = QUOTE_REQUEST_SOURCES.includes(body.source) ? body.source as QuoteRequestSource : 'custom'
+  const productId = optionalId(body.productId)
+  if (source === 'product' && !productId) {
+    throw createValidationError('Choose the product you want a quote for', 'productId')
+  }
+
+  const attachments = Array.isArray(body.attachments) ? body.attachments.filter(isQuoteAttachmentUrl) : []
+  if (attachments.length > MAX_QUOTE_ATTACHMENTS) {
+    throw createValidationError(`You can attach up to ${MAX_QUOTE_ATTACHMENTS} photos`, 'attachments')
+  }
+
+  const title = optionalText(body.title, 150, 'Title', 'title')
+  const specification = optionalText(body.specification, MAX_SPECIFICATION_LENGTH, 'Specification', 'specification')
+  if (!title && source !== 'product') {
+    throw createValidationError('Say what you need a quote for', 'title')
+  }
+  if (!specification && (source === 'pcb' || source === 'prototyping' || source === 'custom')) {
+    throw createValidationError('Describe the specification so suppliers can price it', 'specification')
+  }
+
+  return {
+    source,
+    productId: source === 'product' || source === 'china_import' ? productId : null,
+    variantId: productId ? optionalId(body.variantId) : null,
+    title: title || '',
+    specification,
+    category: optionalText(body.category, 100, 'Category', 'category'),
+    quantity: positiveInteger(body.quantity, 'Quantity', 'quantity'),
+    targetUnitPrice: optionalPrice(body.targetUnitPrice, 'Target price', 'targetUnitPrice'),
+    deadline: futureDate(body.deadline, MAX_DEADLINE_DAYS, 'Deadline', 'deadline'),
+    attachments
+  }
+}
+
+/**
+ * Validate a supplier's quote against the request it answers
+ */
+export function normalizeSupplierQuoteInput(body: Record<string, any>): SupplierQuoteInput {
+  const productId = optionalId(body.productId)
+  if (!productId) {
+    throw createValidationError('Choose the product you are quoting', 'productId')
+  }
+  const unitPrice = optionalPrice(body.unitPrice, 'Unit price', 'unitPrice')
+  if (unitPrice === null) {
+    throw createValidationError('Unit price is required', 'unitPrice')
+  }
+
+  return {
+    productId,
+    variantId: optionalId(body.variantId),
+    quantity: body.quantity === undefined || body.quantity === null || body.quantity === ''
+      ? null
+      : positiveInteger(body.quantity, 'Quantity', 'quantity'),
+    unitPrice,
+    leadTimeDays: body.leadTimeDays === undefined || body.leadTimeDays === null || body.leadTimeDays === ''
+      ? null
+      : positiveInteger(body.leadTimeDays, 'Lead time', 'leadTimeDays', 365),
+    validUntil: futureDate(body.validUntil, MAX_QUOTE_VALIDITY_DAYS, 'Valid until', 'validUntil'),
+    note: optionalText(body.note, 1000, 'Note', 'note')
+  }
+}
+
+/**
+ * Suppliers a request goes to: the product's own supplier, suppliers of visible China import
+ * products, or suppliers whose products match the service or category asked for
+ */
+async function matchQuoteSuppliers(
+  supabase: SupabaseClient,
+  request: Pick<QuoteRequestInput, 'source' | 'category'> & { supplierId: string | null },
+  buyerId: string
+): Promise<string[]> {
+  if (request.supplierId) {
+    return request.supplierId === buyerId ? [] : [request.supplierId]
+  }
+
+  const terms = [...(SOURCE_KEYWORDS[request.source] || [])]
+  if (request.category) terms.push(request.category.replace(/[%,()]/g, ' ').trim())
+
+  let query = supabase
+    .from('products')
+    .select('supplier_id, user_id')
+    .eq('is_hidden', false)
+    .order('updated_at', { ascending: false })
+    .limit(500)
+
+  if (request.source === 'china_import') {
+    query = query.eq('import_china', true)
+  } else if (terms.filter(Boolean).length > 0) {
+    query = query.or(terms.filter(Boolean).flatMap(term => [`category.ilike.%${term}%`, `name.ilike.%${term}%`]).join(','))
+  } else {
+    return []
+  }
+
+  const { data, error } = await query
+  if (error) {
+    logger.error('Error matching suppliers for quote request', error)
+    return []
+  }
+
+  const supplierIds = new Set<string>()
+  for (const product of data || []) {
+    const supplierId = product.supplier_id || product.user_id
+    if (supplierId && supplierId !== buyerId) supplierIds.add(supplierId)
+    if (supplierIds.size >= MAX_MATCHED_SUPPLIERS) break
+  }
+  return [...supplierIds]
+}
+
+/**
+ * Open a quote request and send it to matching suppliers
+ * Requests nobody matches go to the admins, who can pass them on by hand
+ */
+export async function createQuoteRequest(
+  supabase: SupabaseClient,
+  buyerId: string,
+  input: QuoteRequestInput
+): Promise<QuoteRequest> {
+  let supplierId: string | null = null
+  let title = input.title
+  let category = input.category
+
+  if (input.productId) {
+    const { data: product } = await supabase
+      .from('products')
+      .select('id, name, category, supplier_id, user_id, is_hidden')
+      .eq('id', input.productId)
+      .single()
+
+    if (!product || product.is_hidden) {
+      throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+    }
+    title = title || product.name
+    category = category || product.category || null
+    // China import requests name an example product but go to every import supplier
+    if (input.source === 'product') {
+      supplierId = product.supplier_id || product.user_id || null
+    }
+  }
+
+  const supplierIds = await matchQuoteSuppliers(supabase, { source: input.source, category, supplierId }, buyerId)
+
+  const { data: request, error } = await supabase
+    .from(REQUESTS_TABLE)
+    .insert({
+      request_number: generateNumber('RFQ'),
+      user_id: buyerId,
+      source: input.source,
+      product_id: input.productId,
+      variant_id: input.variantId,
+      title,
+      specification: input.specification,
+      category,
+      quantity: input.quantity,
+      target_unit_price: input.targetUnitPrice,
+      currency: 'TZS',
+      deadline: input.deadline,
+      attachments: input.attachments,
+      status: 'open',
+      supplier_count: supplierIds.length
+    })
+    .select('*')
+    .single()
+
+  if (error || !request) {
+    logger.error('Error creating quote request', error)
+    throw error || new Error('Failed to create quote request')
+  }
+
+  if (supplierIds.length > 0) {
+    const { error: inviteError } = await supabase
+      .from(INVITES_TABLE)
+      .insert(supplierIds.map(id => ({ quote_request_id: request.id, supplier_id: id })))
+
+    if (inviteError) {
+      logger.error(`Error sending quote request ${request.request_number} to suppliers`, inviteError)
+      await supabase.from(REQUESTS_TABLE).delete().eq('id', request.id)
+      throw inviteError
+    }
+  }
+
+  await notifyQuoteRequestSuppliers(request as QuoteRequest, supplierIds)
+  return request as QuoteRequest
+}
+
+async function notifyQuoteRequestSuppliers(request: QuoteRequest, supplierIds: string[]): Promise<void> {
+  try {
+    const message = `${request.quantity.toLocaleString()} x ${request.title}, quotes needed by ${new Date(request.deadline).toLocaleDateString()}`
+    const metadata = { request_number: request.request_number, action_url: `/supplier/quotes?request=${request.request_number}` }
+
+    if (supplierIds.length === 0) {
+      await notifyAllAdmins('system', 'Quote request without suppliers', `${request.request_number}: ${message}`, {
+        request_number: request.request_number,
+        source: request.source
+      })
+      return
+    }
+    for (const supplierId of supplierIds) {
+      await createNotification(supplierId, 'info', 'New quote request', message, metadata)
+    }
+  } catch (error) {
+    logger.error(`Error notifying suppliers of quote request ${request.request_number}`, error)
+  }
+}
+
+/**
+ * A buyer's requests with the quotes received, newest first
+ */
+export async function getBuyerQuoteRequests(
+  supabase: SupabaseClient,
+  buyerId: string
+): Promise<Array<QuoteRequest & { quotes: SupplierQuote[] }>> {
+  const { data, error } = await supabase
+    .from(REQUESTS_TABLE)
+    .select(`*, quotes:${QUOTES_TABLE}(*)`)
+    .eq('user_id', buyerId)
+    .order('created_at', { ascending: false })
+    .limit(100)
+
+  if (error) {
+    throw error
+  }
+  return (data || []) as Array<QuoteRequest & { quotes: SupplierQuote[] }>
+}
+
+/**
+ * Requests sent to a supplier, each with the supplier's own quote if any, newest first
+ */
+export async function getSupplierQuoteRequests(
+  supabase: SupabaseClient,
+  supplierId: string
+): Promise<Array<{ request: QuoteRequest; quote: SupplierQuote | null }>> {
+  const { data: invites, error } = await supabase
+    .from(INVITES_TABLE)
+    .select(`quote_request_id, request:${REQUESTS_TABLE}(*)`)
+    .eq('supplier_id', supplierId)
+    .order('created_at', { ascending: false })
+    .limit(100)
+
+  if (error) {
+    throw error
+  }
+
+  const requests = (invites || []).map((invite: any) => invite.request).filter(Boolean) as QuoteRequest[]
+  if (requests.length === 0) return []
+
+  const { data: quotes } = await supabase
+    .from(QUOTES_TABLE)
+    .select('*')
+    .eq('supplier_id', supplierId)
+    .in('quote_request_id', requests.map(request => request.id))
+    .neq('status', 'withdrawn')
+
+  const quoteByRequest = new Map<string, SupplierQuote>()
+  for (const quote of (quotes || []) as SupplierQuote[]) {
+    quoteByRequest.set(quote.quote_request_id, quote)
+  }
+  return requests.map(request => ({ request, quote: quoteByRequest.get(request.id) || null }))
+}
+
+async function getBuyerRequest(supabase: SupabaseClient, buyerId: string, requestNumber: string): Promise<QuoteRequest> {
+  const { data: request } = await supabase
+    .from(REQUESTS_TABLE)
+    .select('*')
+    .eq('request_number', requestNumber)
+    .eq('user_id', buyerId)
+    .single()
+
+  if (!request) {
+    throw new ProductionError('Quote request not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return request as QuoteRequest
+}
+
+function assertOpen(request: QuoteRequest): void {
+  const state = quoteRequestState(request)
+  if (state !== 'open') {
+    throw new ProductionError(`This quote request is ${state}`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+}
+
+/**
+ * Send or revise a supplier's quote on a request they were sent
+ * A supplier has one live quote per request; quoting again replaces the price and terms
+ */
+export async function submitSupplierQuote(
+  supabase: SupabaseClient,
+  supplierId: string,
+  requestNumber: string,
+  input: SupplierQuoteInput
+): Promise<SupplierQuote> {
+  const { data: request } = await supabase
+    .from(REQUESTS_TABLE)
+    .select('*')
+    .eq('request_number', requestNumber)
+    .single()
+
+  const { data: invite } = request
+    ? await supabase
+        .from(INVITES_TABLE)
+        .select('id')
+        .eq('quote_request_id', request.id)
+        .eq('supplier_id', supplierId)
+        .maybeSingle()
+    : { data: null }
+
+  if (!request || !invite) {
+    throw new ProductionError('Quote request not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  assertOpen(request as QuoteRequest)
+
+  const { data: product } = await supabase
+    .from('products')
+    .select('id, name, supplier_id, user_id, is_hidden')
+    .eq('id', input.productId)
+    .single()
+
+  if (!product || (product.supplier_id || product.user_id) !== supplierId) {
+    throw createValidationError('Quote one of your own products', 'productId')
+  }
+  if (product.is_hidden) {
+    throw createValidationError(`${product.name} is hidden from the store, so the buyer could not order it`, 'productId')
+  }
+
+  if (input.variantId) {
+    const { data: variant } = await supabase
+      .from('product_variants')
+      .select('id')
+      .eq('id', input.variantId)
+      .eq('product_id', product.id)
+      .maybeSingle()
+    if (!variant) {
+      throw createValidationError('That variant does not belong to this product', 'variantId')
+    }
+  }
+
+  const now = new Date().toISOString()
+  const terms = {
+    product_id: product.id,
+    variant_id: input.variantId,
+    quantity: input.quantity || request.quantity,
+    unit_price: input.unitPrice,
+    currency: 'TZS',
+    lead_time_days: input.leadTimeDays,
+    valid_until: input.validUntil,
+    note: input.note,
+    updated_at: now
+  }
+
+  const { data: existing } = await supabase
+    .from(QUOTES_TABLE)
+    .select('id')
+    .eq('quote_request_id', request.id)
+    .eq('supplier_id', supplierId)
+    .eq('status', 'submitted')
+    .maybeSingle()
+
+  const { data: quote, error } = existing
+    ? await supabase
+        .from(QUOTES_TABLE)
+        .update(terms)
+        .eq('id', existing.id)
+        .eq('status', 'submitted')
+        .select('*')
+        .single()
+    : await supabase
+        .from(QUOTES_TABLE)
+        .insert({
+          ...terms,
+          quote_number: generateNumber('QT'),
+          quote_request_id: request.id,
+          request_number: request.request_number,
+          buyer_id: request.user_id,
+          supplier_id: supplierId,
+          status: 'submitted'
+        })
+        .select('*')
+        .single()
+
+  if (error || !quote) {
+    logger.error(`Error saving quote on ${request.request_number}`, error)
+    throw new ProductionError('The quote was updated by someone else, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  try {
+    const { data: supplier } = await supabase
+      .from('profiles')
+      .select('full_name, company_name')
+      .eq('id', supplierId)
+      .single()
+    await createNotification(
+      request.user_id,
+      'info',
+      existing ? 'Quote updated' : 'New quote received',
+      `${supplier?.company_name || supplier?.full_name || 'A supplier'} quoted TZS ${quote.unit_price.toLocaleString()} each for ${request.title}`,
+      { request_number: request.request_number, quote_number: quote.quote_number, action_url: `/account/quotes?request=${request.request_number}` }
+    )
+  } catch (notifyError) {
+    logger.error(`Error notifying buyer of quote ${quote.quote_number}`, notifyError)
+  }
+
+  return quote as SupplierQuote
+}
+
+/**
+ * Take back a quote the buyer has not accepted yet
+ */
+export async function withdrawSupplierQuote(
+  supabase: SupabaseClient,
+  supplierId: string,
+  requestNumber: string
+): Promise<SupplierQuote> {
+  const { data: quote, error } = await supabase
+    .from(QUOTES_TABLE)
+    .update({ status: 'withdrawn', updated_at: new Date().toISOString() })
+    .eq('request_number', requestNumber)
+    .eq('supplier_id', supplierId)
+    .eq('status', 'submitted')
+    .select('*')
+    .maybeSingle()
+
+  if (error || !quote) {
+    throw new ProductionError('There is no open quote to withdraw', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  return quote as SupplierQuote
+}
+
+/**
+ * Close a request the buyer no longer needs; quotes still waiting are declined
+ */
+export async function closeQuoteRequest(
+  supabase: SupabaseClient,
+  buyerId: string,
+  requestNumber: string
+): Promise<QuoteRequest> {
+  const request = await getBuyerRequest(supabase, buyerId, requestNumber)
+  if (request.status !== 'open') {
+    throw new ProductionError(`This quote request is already ${request.status}`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const now = new Date().toISOString()
+  const { data: closed, error } = await supabase
+    .from(REQUESTS_TABLE)
+    .update({ status: 'closed', closed_at: now, updated_at: now })
+    .eq('id', request.id)
+    .eq('status', 'open')
+    .select('*')
+    .single()
+
+  if (error || !closed) {
+    throw new ProductionError('Quote request was updated meanwhile, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  await supabase
+    .from(QUOTES_TABLE)
+    .update({ status: 'declined', updated_at: now })
+    .eq('quote_request_id', request.id)
+    .eq('status', 'submitted')
+
+  return closed as QuoteRequest
+}
+
+/**
+ * Accept one quote on an open request
+ * The request closes as accepted, the other quotes are declined and the quoted product goes into the
+ * buyer's cart at the quoted quantity
+ */
+export async function acceptSupplierQuote(
+  supabase: SupabaseClient,
+  buyerId: string,
+  requestNumber: string,
+  quoteNumber: string
+): Promise<{ request: QuoteRequest; quote: SupplierQuote }> {
+  const request = await getBuyerRequest(supabase, buyerId, requestNumber)
+  assertOpen(request)
+
+  const { data: quote } = await supabase
+    .from(QUOTES_TABLE)
+    .select('*')
+    .eq('quote_number', quoteNumber)
+    .eq('quote_request_id', request.id)
+    .single()
+
+  if (!quote) {
+    throw new ProductionError('Quote not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  const state = quoteState(quote as SupplierQuote)
+  if (state !== 'submitted') {
+    throw new ProductionError(`This quote is ${state}`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const now = new Date().toISOString()
+
+  // Guard on status so two tabs can't accept different quotes
+  const { data: accepted, error: requestError } = await supabase
+    .from(REQUESTS_TABLE)
+    .update({ status: 'accepted', accepted_quote_id: quote.id, closed_at: now, updated_at: now })
+    .eq('id', request.id)
+    .eq('status', 'open')
+    .select('*')
+    .single()
+
+  if (requestError || !accepted) {
+    throw new ProductionError('Quote request was updated meanwhile, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: acceptedQuote, error: quoteError } = await supabase
+    .from(QUOTES_TABLE)
+    .update({ status: 'accepted', updated_at: now })
+    .eq('id', quote.id)
+    .eq('status', 'submitted')
+    .select('*')
+    .single()
+
+  if (quoteError || !acceptedQuote) {
+    await supabase
+      .from(REQUESTS_TABLE)
+      .update({ status: 'open', accepted_quote_id: null, closed_at: null, updated_at: now })
+      .eq('id', request.id)
+    throw new ProductionError('The supplier withdrew this quote, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const { data: declined } = await supabase
+    .from(QUOTES_TABLE)
+    .update({ status: 'declined', updated_at: now })
+    .eq('quote_request_id', request.id)
+    .eq('status', 'submitted')
+    .select('supplier_id, quote_number')
+
+  await addQuoteToCart(supabase, buyerId, acceptedQuote as SupplierQuote)
+
+  try {
+    await createNotification(
+      acceptedQuote.supplier_id,
+      'order_updated',
+      'Quote accepted',
+      `Your quote ${acceptedQuote.quote_number} for ${request.title} was accepted. The buyer can now check out at TZS ${acceptedQuote.unit_price.toLocaleString()} each.`,
+      { request_number: request.request_number, quote_number: acceptedQuote.quote_number, action_url: `/supplier/quotes?request=${request.request_number}` }
+    )
+    for (const other of declined || []) {
+      await createNotification(
+        other.supplier_id,
+        'info',
+        'Quote not selected',
+        `The buyer chose another quote for ${request.title}`,
+        { request_number: request.request_number, quote_number: other.quote_number }
+      )
+    }
+  } catch (error) {
+    logger.error(`Error notifying suppliers about accepted quote ${acceptedQuote.quote_number}`, error)
+  }
+
+  return { request: accepted as QuoteRequest, quote: acceptedQuote as SupplierQuote }
+}
+
+/**
+ * Put the quoted line in the buyer's cart, replacing the quantity of the same product and variant
+ */
+async function addQuoteToCart(supabase: SupabaseClient, buyerId: string, quote: SupplierQuote): Promise<void> {
+  let existingQuery = supabase
+    .from('cart_items')
+    .select('id')
+    .eq('user_id', buyerId)
+    .eq('product_id', quote.product_id)
+  existingQuery = quote.variant_id ? existingQuery.eq('variant_id', quote.variant_id) : existingQuery.is('variant_id', null)
+  const { data: existing } = await existingQuery.limit(1).maybeSingle()
+
+  const { error } = existing
+    ? await supabase
+        .from('cart_items')
+        .update({ quantity: quote.quantity, price: quote.unit_price, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+    : await supabase
+        .from('cart_items')
+        .insert({
+          user_id: buyerId,
+          product_id: quote.product_id,
+          variant_id: quote.variant_id,
+          quantity: quote.quantity,
+          price: quote.unit_price,
+          currency: 'TZS'
+        })
+
+  if (error) {
+    // The quote stays accepted, so the buyer can still add the product by hand at the quoted quantity
+    logger.error(`Error adding quote ${quote.quote_number} to cart`, error)
+  }
+}
+
+/**
+ * Accepted quotes a buyer can still order with, keyed by `${product_id}-${variant_id || 'default'}`
+ */
+export async function getAcceptedQuotes(supabase: SupabaseClient, buyerId: string): Promise<Map<string, AcceptedQuote>> {
+  const quotes = new Map<string, AcceptedQuote>()
+  const { data, error } = await supabase
+    .from(QUOTES_TABLE)
+    .select('id, quote_number, product_id, variant_id, quantity, unit_price, valid_until')
+    .eq('buyer_id', buyerId)
+    .eq('status', 'accepted')
+    .is('order_id', null)
+    .gt('valid_until', new Date().toISOString())
+    .order('updated_at', { ascending: true })
+
+  if (error) {
+    logger.error('Error loading accepted quotes', error)
+    return quotes
+  }
+  // Later acceptances win for the same product and variant
+  for (const quote of (data || []) as AcceptedQuote[]) {
+    quotes.set(`${quote.product_id}-${quote.variant_id || 'default'}`, quote)
+  }
+  return quotes
+}
+
+/**
+ * The accepted quote for a cart or order line, when the line is for exactly the quoted quantity
+ */
+export function findQuoteForLine(
+  quotes: Map<string, AcceptedQuote> | undefined,
+  line: { productId: number; variantId: number | null; quantity: number }
+): { quote: AcceptedQuote; applies: boolean } | null {
+  const quote = quotes?.get(`${line.productId}-${line.variantId || 'default'}`)
+  if (!quote) return null
+  return { quote, applies: quote.quantity === line.quantity }
+}
+
+/**
+ * Mark quotes as used by a new order; the order is undone if one was used by another order meanwhile
+ */
+export async function claimQuotes(
+  supabase: SupabaseClient,
+  order: { id: string; order_number: string },
+  lines: QuoteClaimLine[]
+): Promise<void> {
+  for (const line of lines) {
+    const { data } = await supabase
+      .from(QUOTES_TABLE)
+      .update({ status: 'ordered', order_id: order.id, order_number: order.order_number, updated_at: new Date().toISOString() })
+      .eq('id', line.quoteId)
+      .eq('status', 'accepted')
+      .is('order_id', null)
+      .select('id')
+      .maybeSingle()
+
+    if (!data) {
+      await releaseOrderQuotes(supabase, order.id)
+      throw new ProductionError(
+        `The quoted price for ${line.productName} has already been used by another order. Please refresh and try again.`,
+        ErrorCodes.VALIDATION_ERROR,
+        409
+      )
+    }
+  }
+}
+
+/**
+ * Make quotes usable again when their order is cancelled or expires unpaid
+ */
+export async function releaseOrderQuotes(supabase: SupabaseClient, orderId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(QUOTES_TABLE)
+    .update({ status: 'accepted', order_id: null, order_number: null, updated_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .eq('status', 'ordered')
+    .select('id')
+
+  if (error) {
+    logger.error(`Error releasing quotes for order ${orderId}`, error)
+    return 0
+  }
+  return data?.length || 0
+}
+
+// SECURITY: Never expose UUIDs (request, quote, buyer or supplier ids) to clients
+export function toClientQuote(quote: SupplierQuote, extras: { supplierName?: string | null; productName?: string | null; variantName?: string | null } = {}) {
+  return {
+    quoteNumber: quote.quote_number,
+    supplierName: extras.supplierName || null,
+    productId: quote.product_id,
+    productName: extras.productName || null,
+    variantId: quote.variant_id,
+    variantName: extras.variantName || null,
+    quantity: quote.quantity,
+    unitPrice: Number(quote.unit_price),
+    totalPrice: roundMoney(Number(quote.unit_price) * quote.quantity),
+    currency: quote.currency,
+    leadTimeDays: quote.lead_time_days,
+    validUntil: quote.valid_until,
+    note: quote.note,
+    state: quoteState(quote),
+    orderNumber: quote.order_number,
+    createdAt: quote.created_at,
+    updatedAt: quote.updated_at
+  }
+}
+
+export function toClientQuoteRequest(request: QuoteRequest) {
+  return {
+    requestNumber: request.request_number,
+    source: request.source,
+    productId: request.product_id,
+    variantId: request.variant_id,
+    title: request.title,
+    specification: request.specification,
+    category: request.category,
+    quantity: request.quantity,
+    targetUnitPrice: request.target_unit_price !== null ? Number(request.target_unit_price) : null,
+    currency: request.currency,
+    deadline: request.deadline,
+    attachments: request.attachments || [],
+    state: quoteRequestState(request),
+    supplierCount: request.supplier_count || 0,
+    createdAt: request.created_at
+  }
+}
+
+/**
+ * Supplier display names and product/variant names for a set of quotes
+ */
+export async function getQuoteLabels(
+  supabase: SupabaseClient,
+  quotes: SupplierQuote[]
+): Promise<{
+  supplierNames: Map<string, string>
+  productNames: Map<number, string>
+  variantNames: Map<number, string>
+}> {
+  const supplierNames = new Map<string, string>()
+  const productNames = new Map<number, string>()
+  const variantNames = new Map<number, string>()
+  if (quotes.length === 0) return { supplierNames, productNames, variantNames }
+
+  const supplierIds = [...new Set(quotes.map(quote => quote.supplier_id))]
+  const productIds = [...new Set(quotes.map(quote => quote.product_id))]
+  const variantIds = [...new Set(quotes.map(quote => quote.variant_id).filter((id): id is number => !!id))]
+
+  const [{ data: profiles }, { data: products }, { data: variants }] = await Promise.all([
+    supabase.from('profiles').select('id, full_name, company_name').in('id', supplierIds),
+    supabase.from('products').select('id, name').in('id', productIds),
+    variantIds.length > 0
+      ? supabase.from('product_variants').select('id, variant_name').in('id', variantIds)
+      : Promise.resolve({ data: [] as any[] })
+  ])
+
+  for (const profile of profiles || []) {
+    supplierNames.set(profile.id, profile.company_name || profile.full_name || 'Supplier')
+  }
+  for (const product of products || []) productNames.set(product.id, product.name)
+  for (const variant of variants || []) variantNames.set(variant.id, variant.variant_name)
+  return { supplierNames, productNames, variantNames }
+}
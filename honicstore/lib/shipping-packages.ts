@@ -0,0 +1,305 @@
+/**
+ * Shipping packages, supplier dispatch locations and shipments
+ * A product, or a variant packed differently from it, records the packed size of one unit in a
+ * shipping_package jsonb column ({ weight_kg, length_cm, width_cm, height_cm }); a variant without
+ * its own package uses the product's. Carriers charge the billable weight: the larger of the
+ * actual weight and the volumetric weight (length x width x height / divisor).
+ *
+ * Orders ship in one shipment per supplier, sent from the dispatch location on the supplier's
+ * company info (profiles.dispatch_*) or from the store when a supplier has not set one.
+ * lib/shipping-rates prices each shipment on its own and the estimate adds them up.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+
+export interface ShippingPackage {
+  weight_kg: number | null
+  length_cm: number | null
+  width_cm: number | null
+  height_cm: number | null
+}
+
+export interface DispatchLocation {
+  region: string | null
+  district: string | null
+  ward: string | null
+  address: string | null
+  lat: number | null
+  lon: number | null
+}
+
+export interface ShipmentLine {
+  productId: number
+  variantId: number | null
+  // Seller of the product (supplier_id, else user_id); null for the store's own stock
+  supplierId: string | null
+  quantity: number
+  package: ShippingPackage | null
+  freeDelivery: boolean
+}
+
+export interface Shipment {
+  supplierId: string | null
+  supplierName: string | null
+  origin: DispatchLocation | null
+  lines: ShipmentLine[]
+}
+
+export const MAX_PACKAGE_WEIGHT_KG = 1000
+export const MAX_PACKAGE_SIDE_CM = 500
+
+const PACKAGE_FIELDS = ['weight_kg', 'length_cm', 'width_cm', 'height_cm'] as const
+
+const PACKAGE_LABELS: Record<typeof PACKAGE_FIELDS[number], string> = {
+  weight_kg: 'Weight',
+  length_cm: 'Length',
+  width_cm: 'Width',
+  height_cm: 'Height'
+}
+
+function readPackageValue(value: Record<string, any>, field: typeof PACKAGE_FIELDS[number]): unknown {
+  const camel = field.replace(/_([a-z])/g, (_, ch: string) => ch.toUpperCase())
+  return value[field] ?? value[camel]
+}
+
+/**
+ * A package as stored; null when nothing usable is set. Malformed values are dropped, not thrown.
+ */
+export function parseShippingPackage(value: unknown): ShippingPackage | null {
+  let raw = value
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw)
+    } catch {
+      return null
+    }
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null
+
+  const pkg = {} as ShippingPackage
+  let hasValue = false
+  for (const field of PACKAGE_FIELDS) {
+    const n = Number(readPackageValue(raw as Record<string, any>, field))
+    pkg[field] = Number.isFinite(n) && n > 0 ? n : null
+    if (pkg[field] !== null) hasValue = true
+  }
+  return hasValue ? pkg : null
+}
+
+/**
+ * Validate a package from the product form or API; blank fields are allowed, bad numbers are not
+ */
+export function normalizeShippingPackage(value: unknown, field: string = 'shippingPackage'): ShippingPackage | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw createValidationError('Shipping package must be an object', field)
+  }
+
+  const pkg = {} as ShippingPackage
+  for (const key of PACKAGE_FIELDS) {
+    const raw = readPackageValue(value as Record<string, any>, key)
+    if (raw === undefined || raw === null || raw === '') {
+      pkg[key] = null
+      continue
+    }
+    const n = Number(raw)
+    const max = key === 'weight_kg' ? MAX_PACKAGE_WEIGHT_KG : MAX_PACKAGE_SIDE_CM
+    if (!Number.isFinite(n) || n <= 0 || n > max) {
+      throw createValidationError(
+        `${PACKAGE_LABELS[key]} must be more than 0 and at most ${max} ${key === 'weight_kg' ? 'kg' : 'cm'}`,
+        field
+      )
+    }
+    pkg[key] = Math.round(n * 1000) / 1000
+  }
+
+  const sides = [pkg.length_cm, pkg.width_cm, pkg.height_cm]
+  if (sides.some(side => side !== null) && sides.some(side => side === null)) {
+    throw createValidationError('Enter length, width and height together, or leave all three blank', field)
+  }
+  return PACKAGE_FIELDS.some(key => pkg[key] !== null) ? pkg : null
+}
+
+/**
+ * Packages from a product save: the product's own (undefined when the body leaves it out) and one
+ * per entry in body.variants
+ */
+export function normalizeProductShippingPackages(
+  body: Record<string, any>
+): { product: ShippingPackage | null | undefined; variants: Array<ShippingPackage | null> } {
+  const product = body.shippingPackage === undefined ? undefined : normalizeShippingPackage(body.shippingPackage)
+  const variants = (Array.isArray(body.variants) ? body.variants : []).map((variant: any, index: number) => {
+    try {
+      return normalizeShippingPackage(variant?.shippingPackage ?? variant?.shipping_package, 'variants')
+    } catch (error) {
+      if (error instanceof ProductionError) {
+        throw createValidationError(`Variant ${variant?.variant_name || index + 1}: ${error.message}`, 'variants')
+      }
+      throw error
+    }
+  })
+  return { product, variants }
+}
+
+/**
+ * Billable kg for one unit: actual or volumetric weight, whichever is larger; null when unknown
+ */
+export function billableWeightKg(pkg: ShippingPackage | null, volumetricDivisor: number): number | null {
+  if (!pkg) return null
+  const volumetric = pkg.length_cm && pkg.width_cm && pkg.height_cm && volumetricDivisor > 0
+    ? (pkg.length_cm * pkg.width_cm * pkg.height_cm) / volumetricDivisor
+    : null
+  if (pkg.weight_kg === null && volumetric === null) return null
+  return Math.max(pkg.weight_kg ?? 0, volumetric ?? 0)
+}
+
+/**
+ * Package for an order or cart line: the variant's own, else the product's
+ */
+export function resolveLinePackage(product: Record<string, any>, variant?: Record<string, any> | null): ShippingPackage | null {
+  return parseShippingPackage(variant?.shipping_package) ?? parseShippingPackage(product?.shipping_package)
+}
+
+export function productSupplierId(product: Record<string, any>): string | null {
+  return product?.supplier_id || product?.user_id || null
+}
+
+export function toDispatchLocation(profile: Record<string, any> | null | undefined): DispatchLocation | null {
+  if (!profile) return null
+  const lat = Number(profile.dispatch_lat)
+  const lon = Number(profile.dispatch_lon)
+  const location: DispatchLocation = {
+    region: profile.dispatch_region || null,
+    district: profile.dispatch_district || null,
+    ward: profile.dispatch_ward || null,
+    address: profile.dispatch_address || null,
+    lat: profile.dispatch_lat !== null && profile.dispatch_lat !== undefined && Number.isFinite(lat) ? lat : null,
+    lon: profile.dispatch_lon !== null && profile.dispatch_lon !== undefined && Number.isFinite(lon) ? lon : null
+  }
+  return location.region || (location.lat !== null && location.lon !== null) ? location : null
+}
+
+export function formatDispatchLocation(location: DispatchLocation | null): string | null {
+  if (!location) return null
+  const parts = [location.ward, location.district, location.region].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+/**
+ * Split lines into one shipment per supplier, each with the supplier's dispatch location
+ */
+export async function groupShipments(supabase: SupabaseClient, lines: ShipmentLine[]): Promise<Shipment[]> {
+  const supplierIds = [...new Set(lines.map(line => line.supplierId).filter((id): id is string => !!id))]
+  const profiles = new Map<string, Record<string, any>>()
+
+  if (supplierIds.length > 0) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, company_name, full_name, dispatch_region, dispatch_district, dispatch_ward, dispatch_address, dispatch_lat, dispatch_lon')
+      .in('id', supplierIds)
+
+    if (error) {
+      // Shipments still go out, priced from the store
+      logger.error('Error loading supplier dispatch locations:', error)
+    }
+    for (const profile of data || []) profiles.set(profile.id, profile)
+  }
+
+  const shipments = new Map<string, Shipment>()
+  for (const line of lines) {
+    const key = line.supplierId || 'store'
+    let shipment = shipments.get(key)
+    if (!shipment) {
+      const profile = line.supplierId ? profiles.get(line.supplierId) : null
+      shipment = {
+        supplierId: line.supplierId,
+        supplierName: profile?.company_name || profile?.full_name || null,
+        origin: toDispatchLocation(profile),
+        lines: []
+      }
+      shipments.set(key, shipment)
+    }
+    shipment.lines.push(line)
+  }
+  return [...shipments.values()]
+}
+
+export function normalizeDispatchLocationInput(body: Record<string, any>): DispatchLocation {
+  const text = (value: unknown, max: number) =>
+    typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ').slice(0, max) : null
+
+  const region = text(body.region, 100)
+  if (!region) {
+    throw createValidationError('Region is required', 'region')
+  }
+
+  const hasLat = body.lat !== undefined && body.lat !== null && body.lat !== ''
+  const hasLon = body.lon !== undefined && body.lon !== null && body.lon !== ''
+  if (hasLat !== hasLon) {
+    throw createValidationError('Enter both latitude and longitude, or neither', 'lat')
+  }
+  const lat = hasLat ? Number(body.lat) : null
+  const lon = hasLon ? Number(body.lon) : null
+  if (lat !== null && (!Number.isFinite(lat) || lat < -90 || lat > 90)) {
+    throw createValidationError('Latitude must be between -90 and 90', 'lat')
+  }
+  if (lon !== null && (!Number.isFinite(lon) || lon < -180 || lon > 180)) {
+    throw createValidationError('Longitude must be between -180 and 180', 'lon')
+  }
+
+  return {
+    region,
+    district: text(body.district, 100),
+    ward: text(body.ward, 100),
+    address: text(body.address, 300),
+    lat,
+    lon
+  }
+}
+
+export async function getDispatchLocation(supabase: SupabaseClient, supplierId: string): Promise<DispatchLocation | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('dispatch_region, dispatch_district, dispatch_ward, dispatch_address, dispatch_lat, dispatch_lon')
+    .eq('id', supplierId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading dispatch location:', error)
+    throw new ProductionError('Failed to load dispatch location', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return toDispatchLocation(data)
+}
+
+/**
+ * Save where the supplier's shipments leave from. Not part of the reviewed company details, so
+ * it does not put the account back under review.
+ */
+export async function updateDispatchLocation(
+  supabase: SupabaseClient,
+  supplierId: string,
+  location: DispatchLocation
+): Promise<DispatchLocation | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({
+      dispatch_region: location.region,
+      dispatch_district: location.district,
+      dispatch_ward: location.ward,
+      dispatch_address: location.address,
+      dispatch_lat: location.lat,
+      dispatch_lon: location.lon,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', supplierId)
+    .select('dispatch_region, dispatch_district, dispatch_ward, dispatch_address, dispatch_lat, dispatch_lon')
+    .single()
+
+  if (error) {
+    logger.error('Error saving dispatch location:', error)
+    throw new ProductionError('Failed to save dispatch location', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return toDispatchLocation(data)
+}
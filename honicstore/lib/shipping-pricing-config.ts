@@ -1,3 +1,10 @@
+// Bundled rate table: lib/shipping-rates falls back to these prices until a version is published
+// from the admin rate tables, and copies them into the first draft.
+
+// Store pickup point; distance tiers without their own origin are measured from here
+export const STORE_ORIGIN_LAT = -(6 + 48 / 60 + 56.4 / 3600)
+export const STORE_ORIGIN_LON = 39 + 16 / 60 + 48.4 / 3600
+
 export const DEFAULT_REGION_BASE_PRICE = 5000
 export const DAR_ES_SALAAM_FALLBACK_BASE_PRICE = 2500
 
@@ -123,3 +130,9 @@ export const DAR_ES_SALAAM_DISTANCE_TIERS: Array<{ maxKm: number; price: number
   { maxKm: 25, price: 7000 },
   { maxKm: Number.POSITIVE_INFINITY, price: 9000 },
 ]
+
+// Weight pricing per shipment: the fee covers this many billable kg, each kg after that adds
+// PER_EXTRA_KG_PRICE. Volumetric kg = length x width x height (cm) / VOLUMETRIC_DIVISOR.
+export const INCLUDED_WEIGHT_KG = 5
+export const PER_EXTRA_KG_PRICE = 1000
+export const VOLUMETRIC_DIVISOR = 5000
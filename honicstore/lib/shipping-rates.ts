@@ -0,0 +1,889 @@
+/**
+ * Shipping rate tables
+ * Every delivery fee comes from one rate table stored in shipping_rate_versions. A version holds a
+ * default fee, an optional free-shipping threshold, the origin distances are measured from, and a
+ * list of rules keyed by region, district and ward. The most specific matching rule prices the
+ * address: its fee, or when the delivery point is known and the rule has distance tiers, the tier
+ * for the distance from the rule's origin (a tier is the full fee, not a surcharge).
+ *
+ * Weight is priced per shipment on top of that fee: the fee covers includedWeightKg billable kg and
+ * each kg after that adds perKgFee. An order with items from several suppliers is one shipment per
+ * supplier (lib/shipping-packages), each measured from its supplier's dispatch location, and the
+ * shipment fees are added up.
+ *
+ * Admins edit a draft, preview the quote any address would get under it, and publish it with an
+ * effective date. The live table is the published version with the latest effective_from that has
+ * been reached, so a version can be scheduled ahead and an archived one hands back to the previous.
+ * Until a version is published the bundled prices in shipping-pricing-config are used.
+ *
+ * Version status: draft -> published -> archived
+ *   (a published version shows as scheduled before effective_from, and superseded once a later one
+ *   takes over)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { ShortTtlCache } from './short-ttl-cache'
+import { haversineDistanceKm, normalizeLocationKey } from './shipping-calculator'
+import { billableWeightKg, formatDispatchLocation, Shipment } from './shipping-packages'
+import {
+  DAR_ES_SALAAM_DISTANCE_TIERS,
+  DAR_ES_SALAAM_FALLBACK_BASE_PRICE,
+  DAR_ES_SALAAM_WARD_PRICE_MAP,
+  DEFAULT_REGION_BASE_PRICE,
+  INCLUDED_WEIGHT_KG,
+  PER_EXTRA_KG_PRICE,
+  REGION_BASE_PRICE_MAP,
+  STORE_ORIGIN_LAT,
+  STORE_ORIGIN_LON,
+  VOLUMETRIC_DIVISOR,
+} from './shipping-pricing-config'
+
+const VERSIONS_TABLE = 'shipping_rate_versions'
+
+export type ShippingRateVersionStatus = 'draft' | 'published' | 'archived'
+
+export type ShippingRateVersionState = 'draft' | 'scheduled' | 'active' | 'superseded' | 'archived'
+
+export const MAX_SHIPPING_RATE_RULES = 5000
+export const MAX_DISTANCE_TIERS = 10
+export const MAX_SHIPPING_FEE = 1_000_000
+export const MAX_VERSION_NAME_LENGTH = 100
+export const MAX_INCLUDED_WEIGHT_KG = 1000
+
+// A version can be published to take effect up to this far ahead
+export const MAX_EFFECTIVE_DAYS_AHEAD = 90
+
+// Checkout reads the live table on every estimate; a publish clears this on the instance that made it
+const activeTableCache = new ShortTtlCache<ShippingRateTable>(60000)
+const ACTIVE_TABLE_KEY = 'active'
+
+export interface ShippingDistanceTier {
+  // Inclusive upper bound; null covers every distance past the previous tier
+  maxKm: number | null
+  fee: number
+}
+
+export interface ShippingRateRule {
+  region: string
+  district: string | null
+  ward: string | null
+  fee: number
+  distanceTiers: ShippingDistanceTier[]
+  // Where distance tiers are measured from when the shipment has no origin of its own, e.g. a
+  // regional hub; the table origin when unset
+  originLat: number | null
+  originLon: number | null
+  // Overrides the table threshold for this area; 0 means always free
+  freeThreshold: number | null
+}
+
+export interface ShippingRateTable {
+  // null for the bundled table
+  versionId: number | null
+  name: string
+  defaultFee: number
+  freeThreshold: number | null
+  originLat: number
+  originLon: number
+  includedWeightKg: number
+  perKgFee: number
+  // cm³ per volumetric kg
+  volumetricDivisor: number
+  rules: ShippingRateRule[]
+}
+
+// The public view of a rate table, for pages that explain shipping prices
+export interface ShippingRateSummary {
+  defaultFee: number
+  lowestFee: number
+  freeThreshold: number | null
+  includedWeightKg: number
+  perKgFee: number
+  // Cheapest fee anywhere in the region, and the region-wide free threshold
+  regions: Array<{ region: string; lowestFee: number; freeThreshold: number | null }>
+}
+
+export interface ShippingRateVersion {
+  id: number
+  name: string
+  status: ShippingRateVersionStatus
+  effective_from: string | null
+  default_fee: number
+  free_threshold: number | null
+  origin_lat: number
+  origin_lon: number
+  included_weight_kg: number | null
+  per_kg_fee: number | null
+  volumetric_divisor: number | null
+  rules: ShippingRateRule[]
+  notes: string | null
+  based_on_version_id: number | null
+  created_by: string | null
+  published_by: string | null
+  published_at: string | null
+  archived_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ShippingRateDraftInput {
+  name?: string
+  notes?: string | null
+  defaultFee?: number
+  freeThreshold?: number | null
+  originLat?: number
+  originLon?: number
+  includedWeightKg?: number
+  perKgFee?: number
+  volumetricDivisor?: number
+  rules?: ShippingRateRule[]
+}
+
+export interface ShippingRateAddress {
+  deliveryOption: string
+  region?: string | null
+  district?: string | null
+  ward?: string | null
+  lat?: number | null
+  lon?: number | null
+  // The shipment's dispatch point; distance tiers use it before the rule or table origin
+  originLat?: number | null
+  originLon?: number | null
+  // Total billable kg of the shipment; unknown weight adds nothing
+  billableWeightKg?: number | null
+  subtotal?: number
+  allProductsHaveFreeDelivery?: boolean
+}
+
+export interface ShipmentRateQuote {
+  supplierName: string | null
+  // "Ward, District, Region" of the dispatch location; null when sent from the store
+  origin: string | null
+  itemCount: number
+  quote: ShippingRateQuote
+}
+
+export interface ShippingRateQuote {
+  shippingFee: number
+  distanceKm: number | null
+  // Fee of the region-wide rule (or the default), and what the district/ward rule adds on top of it
+  regionBaseFee: number
+  wardDistanceFee: number
+  billableWeightKg: number | null
+  weightFee: number
+  versionId: number | null
+  matchedRule: Pick<ShippingRateRule, 'region' | 'district' | 'ward'> | null
+  pricedBy: 'pickup' | 'free_delivery' | 'free_threshold' | 'distance_tier' | 'rule' | 'default'
+}
+
+function toMoney(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  if (!Number.isFinite(n) || n < 0 || n > MAX_SHIPPING_FEE) return null
+  return Math.round(n)
+}
+
+function toCoordinate(value: unknown, min: number, max: number): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) && n >= min && n <= max ? n : null
+}
+
+function cleanLocation(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim().replace(/\s+/g, ' ')
+  return trimmed ? trimmed.slice(0, 100) : null
+}
+
+const DAR_ES_SALAAM = 'Dar es Salaam'
+
+// The bundled maps are keyed in lower case; rules show place names the way addresses spell them
+function placeName(value: string): string {
+  if (normalizeLocationKey(value) === normalizeLocationKey(DAR_ES_SALAAM)) return DAR_ES_SALAAM
+  return value.replace(/(^|[\s-])([a-z])/g, (_, sep: string, ch: string) => sep + ch.toUpperCase())
+}
+
+function ruleKey(rule: Pick<ShippingRateRule, 'region' | 'district' | 'ward'>): string {
+  return [rule.region, rule.district || '', rule.ward || ''].map(normalizeLocationKey).join('|')
+}
+
+/**
+ * The prices that shipped with the code, as a rate table: a fee per region, a fixed fee for Dar es
+ * Salaam wards, and distance tiers from the store for the rest of Dar es Salaam
+ */
+export function getBundledShippingRateTable(): ShippingRateTable {
+  const rules: ShippingRateRule[] = []
+  for (const [region, fee] of Object.entries(REGION_BASE_PRICE_MAP)) {
+    const isDar = normalizeLocationKey(region) === normalizeLocationKey(DAR_ES_SALAAM)
+    rules.push({
+      region: placeName(region),
+      district: null,
+      ward: null,
+      fee: isDar ? DAR_ES_SALAAM_FALLBACK_BASE_PRICE : fee,
+      distanceTiers: isDar
+        ? DAR_ES_SALAAM_DISTANCE_TIERS.map(tier => ({
+            maxKm: Number.isFinite(tier.maxKm) ? tier.maxKm : null,
+            fee: tier.price
+          }))
+        : [],
+      originLat: null,
+      originLon: null,
+      freeThreshold: null
+    })
+  }
+  for (const [ward, fee] of Object.entries(DAR_ES_SALAAM_WARD_PRICE_MAP)) {
+    rules.push({
+      region: DAR_ES_SALAAM,
+      district: null,
+      ward: placeName(ward),
+      fee,
+      distanceTiers: [],
+      originLat: null,
+      originLon: null,
+      freeThreshold: null
+    })
+  }
+  return {
+    versionId: null,
+    name: 'Bundled rates',
+    defaultFee: DEFAULT_REGION_BASE_PRICE,
+    freeThreshold: null,
+    originLat: STORE_ORIGIN_LAT,
+    originLon: STORE_ORIGIN_LON,
+    includedWeightKg: INCLUDED_WEIGHT_KG,
+    perKgFee: PER_EXTRA_KG_PRICE,
+    volumetricDivisor: VOLUMETRIC_DIVISOR,
+    rules
+  }
+}
+
+export function toShippingRateTable(version: ShippingRateVersion): ShippingRateTable {
+  return {
+    versionId: version.id,
+    name: version.name,
+    defaultFee: Number(version.default_fee) || 0,
+    freeThreshold: toMoney(version.free_threshold),
+    originLat: Number(version.origin_lat),
+    originLon: Number(version.origin_lon),
+    // Versions saved before weight pricing existed keep the bundled weight settings
+    includedWeightKg: version.included_weight_kg != null ? Number(version.included_weight_kg) : INCLUDED_WEIGHT_KG,
+    perKgFee: version.per_kg_fee != null ? Number(version.per_kg_fee) : PER_EXTRA_KG_PRICE,
+    volumetricDivisor: Number(version.volumetric_divisor) > 0 ? Number(version.volumetric_divisor) : VOLUMETRIC_DIVISOR,
+    rules: Array.isArray(version.rules) ? version.rules : []
+  }
+}
+
+function ruleSpecificity(rule: ShippingRateRule): number {
+  return 1 + (rule.district ? 1 : 0) + (rule.ward ? 2 : 0)
+}
+
+function ruleMatches(rule: ShippingRateRule, region: string, district: string | null, ward: string | null): boolean {
+  if (normalizeLocationKey(rule.region) !== normalizeLocationKey(region)) return false
+  if (rule.district && (!district || normalizeLocationKey(rule.district) !== normalizeLocationKey(district))) return false
+  if (rule.ward && (!ward || normalizeLocationKey(rule.ward) !== normalizeLocationKey(ward))) return false
+  return true
+}
+
+/**
+ * Most specific rule for an address: ward beats district beats region
+ */
+export function matchShippingRateRule(
+  table: ShippingRateTable,
+  address: { region?: string | null; district?: string | null; ward?: string | null }
+): ShippingRateRule | null {
+  const region = cleanLocation(address.region)
+  if (!region) return null
+  const district = cleanLocation(address.district)
+  const ward = cleanLocation(address.ward)
+  let best: ShippingRateRule | null = null
+  for (const rule of table.rules) {
+    if (!ruleMatches(rule, region, district, ward)) continue
+    if (!best || ruleSpecificity(rule) > ruleSpecificity(best)) best = rule
+  }
+  return best
+}
+
+/**
+ * Shipping fee for an address under a rate table. Pure, so previews and checkout price the same way.
+ */
+export function calculateShippingRate(table: ShippingRateTable, address: ShippingRateAddress): ShippingRateQuote {
+  const free = (pricedBy: ShippingRateQuote['pricedBy']): ShippingRateQuote => ({
+    shippingFee: 0,
+    distanceKm: null,
+    regionBaseFee: 0,
+    wardDistanceFee: 0,
+    billableWeightKg: null,
+    weightFee: 0,
+    versionId: table.versionId,
+    matchedRule: null,
+    pricedBy
+  })
+
+  if (address.deliveryOption === 'pickup') return free('pickup')
+  if (address.allProductsHaveFreeDelivery === true) return free('free_delivery')
+
+  const rule = matchShippingRateRule(table, address)
+  const regionRule = rule?.district || rule?.ward ? matchShippingRateRule(table, { region: address.region }) : rule
+  // A ward rule can exist without a region-wide one, in which case the default is the base
+  const regionBaseFee = regionRule && !regionRule.district && !regionRule.ward ? regionRule.fee : table.defaultFee
+  const matchedRule = rule ? { region: rule.region, district: rule.district, ward: rule.ward } : null
+
+  const threshold = rule?.freeThreshold ?? table.freeThreshold
+  if (threshold !== null && typeof address.subtotal === 'number' && address.subtotal >= threshold) {
+    return { ...free('free_threshold'), matchedRule }
+  }
+
+  const lat = typeof address.lat === 'number' && Number.isFinite(address.lat) ? address.lat : null
+  const lon = typeof address.lon === 'number' && Number.isFinite(address.lon) ? address.lon : null
+  const hasShipmentOrigin = typeof address.originLat === 'number' && typeof address.originLon === 'number'
+  const originLat = hasShipmentOrigin ? address.originLat as number : rule?.originLat ?? table.originLat
+  const originLon = hasShipmentOrigin ? address.originLon as number : rule?.originLon ?? table.originLon
+  const distanceKm = lat === null || lon === null ? null : haversineDistanceKm(originLat, originLon, lat, lon)
+
+  let shippingFee = rule ? rule.fee : table.defaultFee
+  let pricedBy: ShippingRateQuote['pricedBy'] = rule ? 'rule' : 'default'
+  if (rule && distanceKm !== null && rule.distanceTiers.length > 0) {
+    const tier = rule.distanceTiers.find(entry => entry.maxKm === null || distanceKm <= entry.maxKm)
+    if (tier) {
+      shippingFee = tier.fee
+      pricedBy = 'distance_tier'
+    }
+  }
+
+  const weight = typeof address.billableWeightKg === 'number' && address.billableWeightKg > 0
+    ? Math.round(address.billableWeightKg * 100) / 100
+    : null
+  const weightFee = weight !== null && weight > table.includedWeightKg
+    ? Math.ceil(weight - table.includedWeightKg) * table.perKgFee
+    : 0
+
+  return {
+    shippingFee: shippingFee + weightFee,
+    distanceKm,
+    regionBaseFee,
+    wardDistanceFee: Math.max(0, shippingFee - regionBaseFee),
+    billableWeightKg: weight,
+    weightFee,
+    versionId: table.versionId,
+    matchedRule,
+    pricedBy
+  }
+}
+
+/**
+ * Price each shipment of an order to one address and add them up. The free-shipping threshold is
+ * checked against the whole order's subtotal, so every shipment is free once it is reached.
+ */
+export function calculateShipmentRates(
+  table: ShippingRateTable,
+  address: Omit<ShippingRateAddress, 'originLat' | 'originLon' | 'billableWeightKg' | 'allProductsHaveFreeDelivery'>,
+  shipments: Shipment[]
+): { shippingFee: number; versionId: number | null; shipments: ShipmentRateQuote[] } {
+  const quotes = shipments.map(shipment => {
+    let weight = 0
+    for (const line of shipment.lines) {
+      weight += (billableWeightKg(line.package, table.volumetricDivisor) ?? 0) * line.quantity
+    }
+    const hasOrigin = shipment.origin?.lat != null && shipment.origin?.lon != null
+    return {
+      supplierName: shipment.supplierName,
+      origin: formatDispatchLocation(shipment.origin),
+      itemCount: shipment.lines.reduce((sum, line) => sum + line.quantity, 0),
+      quote: calculateShippingRate(table, {
+        ...address,
+        originLat: hasOrigin ? shipment.origin!.lat : null,
+        originLon: hasOrigin ? shipment.origin!.lon : null,
+        billableWeightKg: weight,
+        allProductsHaveFreeDelivery: shipment.lines.length > 0 && shipment.lines.every(line => line.freeDelivery)
+      })
+    }
+  })
+
+  return {
+    shippingFee: quotes.reduce((sum, entry) => sum + entry.quote.shippingFee, 0),
+    versionId: table.versionId,
+    shipments: quotes
+  }
+}
+
+/**
+ * The rate table checkout charges from right now
+ */
+export async function getActiveShippingRateTable(supabase: SupabaseClient): Promise<ShippingRateTable> {
+  const cached = activeTableCache.get(ACTIVE_TABLE_KEY)
+  if (cached) return cached
+
+  const { data, error } = await supabase
+    .from(VERSIONS_TABLE)
+    .select('*')
+    .eq('status', 'published')
+    .lte('effective_from', new Date().toISOString())
+    .order('effective_from', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    // Keep checkout working on the bundled prices rather than failing every order
+    logger.error('Error loading shipping rate table:', error)
+    return getBundledShippingRateTable()
+  }
+
+  const table = data ? toShippingRateTable(data as ShippingRateVersion) : getBundledShippingRateTable()
+  activeTableCache.set(ACTIVE_TABLE_KEY, table)
+  return table
+}
+
+/**
+ * Starting fees and free thresholds from a rate table, without its origins or rule details
+ */
+export function summarizeShippingRateTable(table: ShippingRateTable): ShippingRateSummary {
+  const regions = new Map<string, { region: string; lowestFee: number; freeThreshold: number | null }>()
+  for (const rule of table.rules) {
+    const lowestFee = Math.min(rule.fee, ...rule.distanceTiers.map(tier => tier.fee))
+    const key = normalizeLocationKey(rule.region)
+    const entry = regions.get(key) || { region: rule.region, lowestFee, freeThreshold: table.freeThreshold }
+    entry.lowestFee = Math.min(entry.lowestFee, lowestFee)
+    if (!rule.district && !rule.ward && rule.freeThreshold !== null) {
+      entry.freeThreshold = rule.freeThreshold
+    }
+    regions.set(key, entry)
+  }
+  return {
+    defaultFee: table.defaultFee,
+    lowestFee: Math.min(table.defaultFee, ...[...regions.values()].map(entry => entry.lowestFee)),
+    freeThreshold: table.freeThreshold,
+    includedWeightKg: table.includedWeightKg,
+    perKgFee: table.perKgFee,
+    regions: [...regions.values()].sort((a, b) => a.region.localeCompare(b.region))
+  }
+}
+
+function normalizeDistanceTiers(value: unknown, field: string): ShippingDistanceTier[] {
+  if (value === null || value === undefined) return []
+  if (!Array.isArray(value)) {
+    throw createValidationError('Distance tiers must be a list', field)
+  }
+  if (value.length > MAX_DISTANCE_TIERS) {
+    throw createValidationError(`A rule can have at most ${MAX_DISTANCE_TIERS} distance tiers`, field)
+  }
+
+  const tiers: ShippingDistanceTier[] = value.map((entry: any) => {
+    const unbounded = entry?.maxKm === null || entry?.maxKm === undefined || entry?.maxKm === ''
+    const maxKm = unbounded ? null : Number(entry.maxKm)
+    if (maxKm !== null && (!Number.isFinite(maxKm) || maxKm <= 0)) {
+      throw createValidationError('Each distance tier needs a positive km limit', field)
+    }
+    const fee = toMoney(entry?.fee)
+    if (fee === null) {
+      throw createValidationError(`Each distance tier needs a fee between 0 and ${MAX_SHIPPING_FEE}`, field)
+    }
+    return { maxKm, fee }
+  })
+
+  tiers.sort((a, b) => (a.maxKm ?? Infinity) - (b.maxKm ?? Infinity))
+  for (let i = 1; i < tiers.length; i++) {
+    if ((tiers[i].maxKm ?? Infinity) === (tiers[i - 1].maxKm ?? Infinity)) {
+      throw createValidationError('Distance tiers must have different km limits', field)
+    }
+  }
+  return tiers
+}
+
+/**
+ * Validate rules sent from the rate table editor
+ */
+export function normalizeShippingRateRules(value: unknown): ShippingRateRule[] {
+  if (!Array.isArray(value)) {
+    throw createValidationError('Rules must be a list', 'rules')
+  }
+  if (value.length > MAX_SHIPPING_RATE_RULES) {
+    throw createValidationError(`A rate table can have at most ${MAX_SHIPPING_RATE_RULES} rules`, 'rules')
+  }
+
+  const seen = new Set<string>()
+  return value.map((raw: any, index: number) => {
+    const field = `rules[${index}]`
+    const region = cleanLocation(raw?.region)
+    if (!region) {
+      throw createValidationError('Every rule needs a region', field)
+    }
+    const district = cleanLocation(raw?.district)
+    const ward = cleanLocation(raw?.ward)
+    const fee = toMoney(raw?.fee)
+    if (fee === null) {
+      throw createValidationError(`Fee must be between 0 and ${MAX_SHIPPING_FEE}`, field)
+    }
+    const originLat = toCoordinate(raw?.originLat, -90, 90)
+    const originLon = toCoordinate(raw?.originLon, -180, 180)
+    if ((originLat === null) !== (originLon === null)) {
+      throw createValidationError('Set both origin latitude and longitude, or neither', field)
+    }
+    const noThreshold = raw?.freeThreshold === null || raw?.freeThreshold === undefined || raw?.freeThreshold === ''
+    const freeThreshold = noThreshold ? null : toMoney(raw.freeThreshold)
+    if (!noThreshold && freeThreshold === null) {
+      throw createValidationError('Free shipping threshold must be a positive amount', field)
+    }
+
+    const rule: ShippingRateRule = {
+      region,
+      district,
+      ward,
+      fee,
+      distanceTiers: normalizeDistanceTiers(raw?.distanceTiers, field),
+      originLat,
+      originLon,
+      freeThreshold
+    }
+    const key = ruleKey(rule)
+    if (seen.has(key)) {
+      throw createValidationError(
+        `There is already a rule for ${[ward, district, region].filter(Boolean).join(', ')}`,
+        field
+      )
+    }
+    seen.add(key)
+    return rule
+  })
+}
+
+/**
+ * Validate a draft update; only the fields present in the body are returned
+ */
+export function normalizeShippingRateDraftInput(body: Record<string, any>): ShippingRateDraftInput {
+  const input: ShippingRateDraftInput = {}
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > MAX_VERSION_NAME_LENGTH) {
+      throw createValidationError(`Name is required and must be at most ${MAX_VERSION_NAME_LENGTH} characters`, 'name')
+    }
+    input.name = name
+  }
+  if (body.notes !== undefined) {
+    input.notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim().slice(0, 1000) : null
+  }
+  if (body.defaultFee !== undefined) {
+    const fee = toMoney(body.defaultFee)
+    if (fee === null) {
+      throw createValidationError(`Default fee must be between 0 and ${MAX_SHIPPING_FEE}`, 'defaultFee')
+    }
+    input.defaultFee = fee
+  }
+  if (body.freeThreshold !== undefined) {
+    const empty = body.freeThreshold === null || body.freeThreshold === ''
+    const threshold = empty ? null : toMoney(body.freeThreshold)
+    if (!empty && threshold === null) {
+      throw createValidationError('Free shipping threshold must be a positive amount', 'freeThreshold')
+    }
+    input.freeThreshold = threshold
+  }
+  if (body.originLat !== undefined || body.originLon !== undefined) {
+    const lat = toCoordinate(body.originLat, -90, 90)
+    const lon = toCoordinate(body.originLon, -180, 180)
+    if (lat === null || lon === null) {
+      throw createValidationError('Origin needs a valid latitude and longitude', 'origin')
+    }
+    input.originLat = lat
+    input.originLon = lon
+  }
+  if (body.includedWeightKg !== undefined) {
+    const kg = Number(body.includedWeightKg)
+    if (!Number.isFinite(kg) || kg < 0 || kg > MAX_INCLUDED_WEIGHT_KG) {
+      throw createValidationError(`Included weight must be between 0 and ${MAX_INCLUDED_WEIGHT_KG} kg`, 'includedWeightKg')
+    }
+    input.includedWeightKg = kg
+  }
+  if (body.perKgFee !== undefined) {
+    const fee = toMoney(body.perKgFee)
+    if (fee === null) {
+      throw createValidationError(`Fee per extra kg must be between 0 and ${MAX_SHIPPING_FEE}`, 'perKgFee')
+    }
+    input.perKgFee = fee
+  }
+  if (body.volumetricDivisor !== undefined) {
+    const divisor = Number(body.volumetricDivisor)
+    if (!Number.isInteger(divisor) || divisor < 1000 || divisor > 10000) {
+      throw createValidationError('Volumetric divisor must be a whole number between 1000 and 10000', 'volumetricDivisor')
+    }
+    input.volumetricDivisor = divisor
+  }
+  if (body.rules !== undefined) {
+    input.rules = normalizeShippingRateRules(body.rules)
+  }
+  return input
+}
+
+export function shippingRateVersionState(
+  version: ShippingRateVersion,
+  activeVersionId: number | null,
+  now: Date = new Date()
+): ShippingRateVersionState {
+  if (version.status !== 'published') return version.status
+  if (version.id === activeVersionId) return 'active'
+  if (version.effective_from && new Date(version.effective_from) > now) return 'scheduled'
+  return 'superseded'
+}
+
+function activeVersionIdOf(versions: ShippingRateVersion[], now: Date = new Date()): number | null {
+  let active: ShippingRateVersion | null = null
+  for (const version of versions) {
+    if (version.status !== 'published' || !version.effective_from) continue
+    if (new Date(version.effective_from) > now) continue
+    if (!active || new Date(version.effective_from) > new Date(active.effective_from!)) active = version
+  }
+  return active?.id ?? null
+}
+
+/**
+ * Every version, newest first, with its state; rules are left out of the list
+ */
+export async function getShippingRateVersions(
+  supabase: SupabaseClient
+): Promise<{ versions: Array<Omit<ShippingRateVersion, 'rules'> & { rule_count: number; state: ShippingRateVersionState }>; activeVersionId: number | null }> {
+  const { data, error } = await supabase
+    .from(VERSIONS_TABLE)
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(200)
+
+  if (error) {
+    logger.error('Error loading shipping rate versions:', error)
+    throw new ProductionError('Failed to load shipping rate versions', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  const versions = (data || []) as ShippingRateVersion[]
+  const activeVersionId = activeVersionIdOf(versions)
+  return {
+    activeVersionId,
+    versions: versions.map(({ rules, ...version }) => ({
+      ...version,
+      rule_count: Array.isArray(rules) ? rules.length : 0,
+      state: shippingRateVersionState(version as ShippingRateVersion, activeVersionId)
+    }))
+  }
+}
+
+export async function getShippingRateVersion(supabase: SupabaseClient, versionId: number): Promise<ShippingRateVersion> {
+  const { data, error } = await supabase
+    .from(VERSIONS_TABLE)
+    .select('*')
+    .eq('id', versionId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error loading shipping rate version:', error)
+    throw new ProductionError('Failed to load shipping rate version', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('Shipping rate version not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return data as ShippingRateVersion
+}
+
+/**
+ * Start a draft from an existing version, or from the live table when none is given
+ */
+export async function createShippingRateDraft(
+  supabase: SupabaseClient,
+  params: { adminId: string; name?: string; basedOnVersionId?: number | null }
+): Promise<ShippingRateVersion> {
+  const source = params.basedOnVersionId
+    ? toShippingRateTable(await getShippingRateVersion(supabase, params.basedOnVersionId))
+    : await getActiveShippingRateTable(supabase)
+
+  const name = params.name?.trim() || `Draft from ${source.name}`
+  if (name.length > MAX_VERSION_NAME_LENGTH) {
+    throw createValidationError(`Name must be at most ${MAX_VERSION_NAME_LENGTH} characters`, 'name')
+  }
+
+  const { data, error } = await supabase
+    .from(VERSIONS_TABLE)
+    .insert({
+      name,
+      status: 'draft',
+      default_fee: source.defaultFee,
+      free_threshold: source.freeThreshold,
+      origin_lat: source.originLat,
+      origin_lon: source.originLon,
+      included_weight_kg: source.includedWeightKg,
+      per_kg_fee: source.perKgFee,
+      volumetric_divisor: source.volumetricDivisor,
+      rules: source.rules,
+      based_on_version_id: source.versionId,
+      created_by: params.adminId
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    logger.error('Error creating shipping rate draft:', error)
+    throw new ProductionError('Failed to create shipping rate draft', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return data as ShippingRateVersion
+}
+
+async function getDraft(supabase: SupabaseClient, versionId: number): Promise<ShippingRateVersion> {
+  const version = await getShippingRateVersion(supabase, versionId)
+  if (version.status !== 'draft') {
+    throw new ProductionError(
+      `This version is ${version.status}; start a new draft to change rates`,
+      ErrorCodes.VALIDATION_ERROR,
+      409
+    )
+  }
+  return version
+}
+
+export async function updateShippingRateDraft(
+  supabase: SupabaseClient,
+  versionId: number,
+  input: ShippingRateDraftInput
+): Promise<ShippingRateVersion> {
+  await getDraft(supabase, versionId)
+
+  const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+  if (input.name !== undefined) updates.name = input.name
+  if (input.notes !== undefined) updates.notes = input.notes
+  if (input.defaultFee !== undefined) updates.default_fee = input.defaultFee
+  if (input.freeThreshold !== undefined) updates.free_threshold = input.freeThreshold
+  if (input.originLat !== undefined) updates.origin_lat = input.originLat
+  if (input.originLon !== undefined) updates.origin_lon = input.originLon
+  if (input.includedWeightKg !== undefined) updates.included_weight_kg = input.includedWeightKg
+  if (input.perKgFee !== undefined) updates.per_kg_fee = input.perKgFee
+  if (input.volumetricDivisor !== undefined) updates.volumetric_divisor = input.volumetricDivisor
+  if (input.rules !== undefined) updates.rules = input.rules
+
+  const { data, error } = await supabase
+    .from(VERSIONS_TABLE)
+    .update(updates)
+    .eq('id', versionId)
+    .eq('status', 'draft')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error updating shipping rate draft:', error)
+    throw new ProductionError('Failed to update shipping rate draft', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('The draft was published meanwhile, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+  return data as ShippingRateVersion
+}
+
+export async function deleteShippingRateDraft(supabase: SupabaseClient, versionId: number): Promise<void> {
+  await getDraft(supabase, versionId)
+
+  const { error } = await supabase
+    .from(VERSIONS_TABLE)
+    .delete()
+    .eq('id', versionId)
+    .eq('status', 'draft')
+
+  if (error) {
+    logger.error('Error deleting shipping rate draft:', error)
+    throw new ProductionError('Failed to delete shipping rate draft', ErrorCodes.DATABASE_ERROR, 500)
+  }
+}
+
+/**
+ * Publish a draft, live from effectiveFrom (now when not given)
+ */
+export async function publishShippingRateVersion(
+  supabase: SupabaseClient,
+  params: { versionId: number; adminId: string; effectiveFrom?: string | null }
+): Promise<ShippingRateVersion> {
+  const draft = await getDraft(supabase, params.versionId)
+
+  const now = new Date()
+  let effectiveFrom = now
+  if (params.effectiveFrom) {
+    effectiveFrom = new Date(params.effectiveFrom)
+    if (Number.isNaN(effectiveFrom.getTime())) {
+      throw createValidationError('Effective date is not a valid date', 'effectiveFrom')
+    }
+    if (effectiveFrom.getTime() > now.getTime() + MAX_EFFECTIVE_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+      throw createValidationError(`Effective date can be at most ${MAX_EFFECTIVE_DAYS_AHEAD} days ahead`, 'effectiveFrom')
+    }
+    // A past date would rewrite which table earlier orders were priced with
+    if (effectiveFrom < now) effectiveFrom = now
+  }
+
+  // Rules saved before a validation change are checked again before they can price orders
+  normalizeShippingRateRules(draft.rules)
+
+  const { data, error } = await supabase
+    .from(VERSIONS_TABLE)
+    .update({
+      status: 'published',
+      effective_from: effectiveFrom.toISOString(),
+      published_by: params.adminId,
+      published_at: now.toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', params.versionId)
+    .eq('status', 'draft')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error publishing shipping rate version:', error)
+    throw new ProductionError('Failed to publish shipping rate version', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('The draft was published meanwhile, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  activeTableCache.delete(ACTIVE_TABLE_KEY)
+  logger.log(`Shipping rate version ${params.versionId} published, effective ${effectiveFrom.toISOString()}`)
+  return data as ShippingRateVersion
+}
+
+/**
+ * Retire a published version; the previous published version takes over if this one was live
+ */
+export async function archiveShippingRateVersion(supabase: SupabaseClient, versionId: number): Promise<ShippingRateVersion> {
+  const version = await getShippingRateVersion(supabase, versionId)
+  if (version.status !== 'published') {
+    throw new ProductionError(`Only published versions can be archived; this one is ${version.status}`, ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from(VERSIONS_TABLE)
+    .update({ status: 'archived', archived_at: now, updated_at: now })
+    .eq('id', versionId)
+    .eq('status', 'published')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error archiving shipping rate version:', error)
+    throw new ProductionError('Failed to archive shipping rate version', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  if (!data) {
+    throw new ProductionError('The version was archived meanwhile, please refresh', ErrorCodes.VALIDATION_ERROR, 409)
+  }
+
+  activeTableCache.delete(ACTIVE_TABLE_KEY)
+  return data as ShippingRateVersion
+}
+
+/**
+ * What an address would pay under a version next to what it pays today
+ */
+export async function previewShippingRate(
+  supabase: SupabaseClient,
+  versionId: number,
+  address: ShippingRateAddress
+): Promise<{ quote: ShippingRateQuote; current: ShippingRateQuote; difference: number }> {
+  const [version, live] = await Promise.all([
+    getShippingRateVersion(supabase, versionId),
+    getActiveShippingRateTable(supabase)
+  ])
+  const quote = calculateShippingRate(toShippingRateTable(version), address)
+  const current = calculateShippingRate(live, address)
+  return { quote, current, difference: quote.shippingFee - current.shippingFee }
+}
@@ -27,6 +27,10 @@ export class ShortTtlCache<T> {
     })
   }
 
+  delete(key: string): void {
+    this.store.delete(key)
+  }
+
   private cleanup(): void {
     const now = Date.now()
     for (const [key, entry] of this.store.entries()) {
@@ -0,0 +1,428 @@
+/**
+ * Spreadsheet files
+ * Reads and writes single-sheet CSV and XLSX tables without a third-party library.
+ * XLSX support covers what spreadsheet apps produce for plain tables: shared and inline strings,
+ * numbers and booleans in the first worksheet. Formatting, formulas and extra sheets are ignored
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+export type SpreadsheetFormat = 'csv' | 'xlsx'
+
+export type SpreadsheetCell = string | number | boolean | null | undefined
+
+export const CSV_CONTENT_TYPE = 'text/csv; charset=utf-8'
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// Guards against zip bombs: no single part of an uploaded workbook may inflate past this
+const MAX_XLSX_PART_BYTES = 50 * 1024 * 1024
+
+function cellText(value: SpreadsheetCell): string {
+  return value === null || value === undefined ? '' : String(value)
+}
+
+/**
+ * Spreadsheet format from a file name or ?format= value, null when unsupported
+ */
+export function detectSpreadsheetFormat(nameOrFormat: string | null | undefined): SpreadsheetFormat | null {
+  const value = String(nameOrFormat || '').toLowerCase().trim()
+  if (value === 'csv' || value.endsWith('.csv')) return 'csv'
+  if (value === 'xlsx' || value.endsWith('.xlsx')) return 'xlsx'
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function csvCell(value: SpreadsheetCell): string {
+  const text = cellText(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * RFC 4180 CSV with a BOM so Excel opens UTF-8 text correctly
+ */
+export function writeCsv(rows: SpreadsheetCell[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Parse CSV text into rows of strings; quoted fields may contain commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// ---------------------------------------------------------------------------
+// Zip container
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function writeZip(files: Array<{ name: string; content: string }>): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8')
+    const data = Buffer.from(file.content, 'utf8')
+    const compressed = deflateRawSync(data)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // deflate
+    local.writeUInt32LE(0, 10) // time and date
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+    localParts.push(local, name, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(0, 12)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centralParts.push(central, name)
+
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  let endOffset = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a valid XLSX file')
+  }
+
+  const entries = new Map<string, () => Buffer>()
+  const count = buffer.readUInt16LE(endOffset + 10)
+  let pointer = buffer.readUInt32LE(endOffset + 16)
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(pointer) !== 0x02014b50) {
+      throw new Error('Not a valid XLSX file')
+    }
+    const method = buffer.readUInt16LE(pointer + 10)
+    const compressedSize = buffer.readUInt32LE(pointer + 20)
+    const size = buffer.readUInt32LE(pointer + 24)
+    const nameLength = buffer.readUInt16LE(pointer + 28)
+    const extraLength = buffer.readUInt16LE(pointer + 30)
+    const commentLength = buffer.readUInt16LE(pointer + 32)
+    const localOffset = buffer.readUInt32LE(pointer + 42)
+    const name = buffer.toString('utf8', pointer + 46, pointer + 46 + nameLength)
+    pointer += 46 + nameLength + extraLength + commentLength
+
+    entries.set(name, () => {
+      if (size > MAX_XLSX_PART_BYTES) {
+        throw new Error('XLSX file is too large')
+      }
+      const localNameLength = buffer.readUInt16LE(localOffset + 26)
+      const localExtraLength = buffer.readUInt16LE(localOffset + 28)
+      const start = localOffset + 30 + localNameLength + localExtraLength
+      const data = buffer.subarray(start, start + compressedSize)
+      if (method === 0) return data
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_XLSX_PART_BYTES })
+      throw new Error('Unsupported XLSX compression')
+    })
+  }
+
+  return entries
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&'
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'quot': return '"'
+      case 'apos': return "'"
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10))
+    }
+  })
+}
+
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A'
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+// Text of an <si> or <is> element; rich text is split across several <t> runs
+function elementText(xml: string): string {
+  let text = ''
+  for (const match of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += unescapeXml(match[1])
+  }
+  return text
+}
+
+/**
+ * Single-sheet workbook; strings are written inline so no shared string table is needed
+ */
+export function writeXlsx(rows: SpreadsheetCell[][], sheetName: string = 'Sheet1'): Buffer {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, colIndex) => {
+      const ref = `${columnName(colIndex)}${rowIndex + 1}`
+      if (value === null || value === undefined || value === '') return ''
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${ref}"><v>${value}</v></c>`
+      }
+      if (typeof value === 'boolean') {
+        return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`
+      }
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+    }).join('')
+    return `<row r="${rowIndex + 1}">${cells}</row>`
+  }).join('')
+
+  const safeSheetName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1')
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows}</sheetData>` +
+        '</worksheet>'
+    }
+  ])
+}
+
+/**
+ * Rows of the first worksheet as strings; missing cells come back as ''
+ */
+export function readXlsx(buffer: Buffer): string[][] {
+  const entries = readZip(buffer)
+  const read = (name: string): string | null => {
+    const entry = entries.get(name)
+    return entry ? entry().toString('utf8') : null
+  }
+
+  // The first sheet listed in the workbook, resolved through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml'
+  const workbook = read('xl/workbook.xml')
+  const relationships = read('xl/_rels/workbook.xml.rels')
+  const firstSheetId = workbook?.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1]
+  if (firstSheetId && relationships) {
+    for (const match of relationships.matchAll(/<Relationship\s[^>]*>/g)) {
+      if (!match[0].includes(`Id="${firstSheetId}"`)) continue
+      const target = match[0].match(/Target="([^"]+)"/)?.[1]
+      if (target) {
+        sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`
+      }
+    }
+  }
+
+  const sheet = read(sheetPath)
+  if (!sheet) {
+    throw new Error('XLSX file has no worksheet')
+  }
+
+  const sharedStrings: string[] = []
+  const sharedXml = read('xl/sharedStrings.xml')
+  if (sharedXml) {
+    for (const match of sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+      sharedStrings.push(elementText(match[1]))
+    }
+  }
+
+  const rows: string[][] = []
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] || '', 10)
+    const rowIndex = Number.isNaN(rowNumber) ? rows.length : rowNumber - 1
+    const row: string[] = []
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const body = cellMatch[2] || ''
+      const ref = attributes.match(/\br="([A-Z]+)\d*"/i)?.[1]
+      const colIndex = ref ? columnIndex(ref) : row.length
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1]
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let value = ''
+      if (type === 's') {
+        value = sharedStrings[parseInt(rawValue || '', 10)] ?? ''
+      } else if (type === 'inlineStr') {
+        value = elementText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '')
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE'
+      } else if (rawValue !== undefined) {
+        value = unescapeXml(rawValue)
+      }
+
+      while (row.length < colIndex) row.push('')
+      row[colIndex] = value
+    }
+
+    while (rows.length < rowIndex) rows.push([])
+    rows[rowIndex] = row
+  }
+
+  return rows
+}
+
+/**
+ * Parse an uploaded CSV or XLSX file into rows of strings
+ */
+export function readSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): string[][] {
+  return format === 'xlsx' ? readXlsx(buffer) : parseCsv(buffer.toString('utf8'))
+}
+
+/**
+ * Encode rows in the requested format along with the HTTP content type to send them with
+ */
+export function writeSpreadsheet(
+  rows: SpreadsheetCell[][],
+  format: SpreadsheetFormat,
+  sheetName?: string
+): { body: Uint8Array<ArrayBuffer> | string; contentType: string } {
+  return format === 'xlsx'
+    ? { body: new Uint8Array(writeXlsx(rows, sheetName)), contentType: XLSX_CONTENT_TYPE }
+    : { body: writeCsv(rows), contentType: CSV_CONTENT_TYPE }
+}
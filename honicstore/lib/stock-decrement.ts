@@ -1,10 +1,14 @@
 /**
  * Stock decrement helper for simplified variant system
- * Decrements both variant stock_quantity AND product stock_quantity when order is paid
+ * Decrements both variant stock_quantity AND product stock_quantity when order is paid,
+ * and puts the same quantities back when paid items are cancelled or returned.
+ * Supplier corrections use the same path, so every change lands in the inventory journal
  */
 
 import { SupabaseClient } from '@supabase/supabase-js'
 import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { recordInventoryMovements, InventoryMovement, InventoryMovementContext } from './inventory-journal'
 
 interface OrderItem {
   id?: string
@@ -108,6 +112,14 @@ export async function decrementStockForOrderItem(
     if (productUpdateError) {
       logger.log(`❌ Error updating product ${item.product_id} stock:`, productUpdateError)
     } else {
+      await recordInventoryMovements(supabase, [{
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        variant_value: null,
+        reason: 'sale',
+        quantity_change: calculatedTotalStock - currentProductStock,
+        quantity_after: calculatedTotalStock
+      }])
       logger.log(`✅ Product ${item.product_id} stock updated:`, {
         previousProductStock: currentProductStock,
         newProductStock: newProductStock,
@@ -127,3 +139,299 @@ export async function decrementStockForOrderItem(
 
 
 
+
+export interface StockAdjustmentItem {
+  product_id: number
+  quantity: number
+  variant_id?: number | string | null
+  variant_name?: string | null
+  variant_attributes?: any
+}
+
+export type StockAdjustmentDirection = 'decrement' | 'restore' | 'increment'
+
+/**
+ * Apply order items to stock the way the payment webhook does
+ * - Variant items: adjust the matching primary_values quantity, then resync product stock from all variants
+ * - Simple items: adjust products.stock_quantity directly
+ * 'restore' is the exact inverse of 'decrement', so cancellations put back what payment took.
+ * Every quantity that changes is written to the inventory journal under movement.reason
+ */
+export async function adjustStockForOrderItems(
+  supabase: SupabaseClient,
+  items: StockAdjustmentItem[],
+  direction: StockAdjustmentDirection,
+  movement: InventoryMovementContext
+): Promise<void> {
+  const sign = direction === 'decrement' ? -1 : 1
+  const movements: InventoryMovement[] = []
+  const journal = (entry: Pick<InventoryMovement, 'product_id' | 'variant_id' | 'variant_value' | 'quantity_change' | 'quantity_after'>) => {
+    if (entry.quantity_change === 0) return
+    movements.push({
+      ...entry,
+      reason: movement.reason,
+      order_id: movement.order_id || null,
+      order_number: movement.order_number || null,
+      actor_id: movement.actor_id || null,
+      note: movement.note || null
+    })
+  }
+  const dirtyVariantProductIds = new Set<number>()
+  const productVariantsCache = new Map<number, Array<{ id: number; primary_values: any }>>()
+  const getProductVariants = async (productId: number) => {
+    const cached = productVariantsCache.get(productId)
+    if (cached) return cached
+    const { data: variants, error: variantsError } = await supabase
+      .from('product_variants')
+      .select('id, primary_values')
+      .eq('product_id', productId)
+    if (variantsError || !variants) return null
+    productVariantsCache.set(productId, variants as Array<{ id: number; primary_values: any }>)
+    return variants as Array<{ id: number; primary_values: any }>
+  }
+
+  for (const item of items) {
+    try {
+      let variantAttributes = item.variant_attributes
+      if (typeof variantAttributes === 'string') {
+        try {
+          variantAttributes = JSON.parse(variantAttributes)
+        } catch {
+          logger.warn(`Could not parse variant_attributes for item ${item.product_id}`)
+          variantAttributes = null
+        }
+      }
+
+      if ((!variantAttributes || Object.keys(variantAttributes || {}).length === 0) && item.variant_name) {
+        const productVariants = await getProductVariants(item.product_id)
+        if (productVariants) {
+          for (const variant of productVariants) {
+            let pvArray = variant.primary_values
+            if (typeof pvArray === 'string') {
+              try {
+                pvArray = JSON.parse(pvArray)
+              } catch {
+                continue
+              }
+            }
+
+            if (pvArray && Array.isArray(pvArray)) {
+              const matchingPv = pvArray.find((pv: any) => String(pv.value) === String(item.variant_name))
+              if (matchingPv) {
+                variantAttributes = { [matchingPv.attribute]: matchingPv.value }
+                break
+              }
+            }
+          }
+        }
+      }
+
+      if (variantAttributes && typeof variantAttributes === 'object' && Object.keys(variantAttributes).length > 0) {
+        const variants = await getProductVariants(item.product_id)
+        if (!variants || variants.length === 0) continue
+
+        for (const variant of variants) {
+          let primaryValues = variant.primary_values
+          if (typeof primaryValues === 'string') {
+            try {
+              primaryValues = JSON.parse(primaryValues)
+            } catch (e) {
+              logger.error(`Error parsing primary_values for variant ${variant.id}`, e)
+              continue
+            }
+          }
+          if (!primaryValues || !Array.isArray(primaryValues)) continue
+
+          let updated = false
+          const changes: Array<{ value: string; change: number; after: number }> = []
+          const updatedPrimaryValues = primaryValues.map((pv: any) => {
+            const matches = Object.entries(variantAttributes).some(
+              ([key, value]) => pv.attribute === key && String(pv.value) === String(value)
+            )
+            if (!matches) return pv
+            const currentQty = typeof pv.quantity === 'number' ? pv.quantity : parseInt(String(pv.quantity)) || 0
+            const newQty = Math.max(0, currentQty + sign * item.quantity)
+            updated = true
+            changes.push({ value: String(pv.value), change: newQty - currentQty, after: newQty })
+            return { ...pv, quantity: newQty }
+          })
+
+          if (!updated) continue
+
+          const { error: variantUpdateError } = await supabase
+            .from('product_variants')
+            .update({ primary_values: updatedPrimaryValues })
+            .eq('id', variant.id)
+          if (variantUpdateError) {
+            logger.error(`Error updating variant ${variant.id}`, variantUpdateError)
+            continue
+          }
+          changes.forEach(change => journal({
+            product_id: item.product_id,
+            variant_id: variant.id,
+            variant_value: change.value,
+            quantity_change: change.change,
+            quantity_after: change.after
+          }))
+
+          const cachedVariants = productVariantsCache.get(item.product_id)
+          if (cachedVariants) {
+            const target = cachedVariants.find((cv) => cv.id === variant.id)
+            if (target) target.primary_values = updatedPrimaryValues
+          }
+          dirtyVariantProductIds.add(item.product_id)
+        }
+      } else {
+        const { data: product, error: fetchError } = await supabase
+          .from('products')
+          .select('stock_quantity, in_stock')
+          .eq('id', item.product_id)
+          .single()
+        if (fetchError || !product) {
+          logger.error(`Error fetching product for stock ${direction}`, fetchError)
+          continue
+        }
+
+        const currentStock = product.stock_quantity || 0
+        const newStock = Math.max(0, currentStock + sign * item.quantity)
+        const { error: updateError } = await supabase
+          .from('products')
+          .update({
+            stock_quantity: newStock,
+            in_stock: newStock > 0,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', item.product_id)
+        if (updateError) {
+          logger.error(`Error updating product stock`, updateError)
+        } else {
+          journal({
+            product_id: item.product_id,
+            variant_id: null,
+            variant_value: null,
+            quantity_change: newStock - currentStock,
+            quantity_after: newStock
+          })
+        }
+      }
+    } catch (stockError) {
+      logger.error(`Error in stock ${direction} for product ${item.product_id}`, stockError)
+    }
+  }
+
+  for (const productId of dirtyVariantProductIds) {
+    const allVariants = (await getProductVariants(productId)) || []
+    let totalStock = 0
+    for (const v of allVariants) {
+      let pvArray = v.primary_values
+      if (typeof pvArray === 'string') {
+        try {
+          pvArray = JSON.parse(pvArray)
+        } catch {
+          continue
+        }
+      }
+      if (pvArray && Array.isArray(pvArray)) {
+        for (const pv of pvArray) {
+          const qty = typeof pv.quantity === 'number' ? pv.quantity : parseInt(String(pv.quantity)) || 0
+          totalStock += qty
+        }
+      }
+    }
+    const { error: productUpdateError } = await supabase
+      .from('products')
+      .update({
+        stock_quantity: totalStock,
+        in_stock: totalStock > 0,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', productId)
+    if (productUpdateError) logger.error(`Error updating product stock`, productUpdateError)
+  }
+
+  await recordInventoryMovements(supabase, movements)
+}
+
+export interface StockLevel {
+  variant_id: number | null
+  attribute: string | null
+  // primary_values value, null for a product without variants
+  value: string | null
+  quantity: number
+}
+
+/**
+ * Current stock per variant value, or a single product-level row for products without variants
+ */
+export async function getStockLevels(supabase: SupabaseClient, productId: number): Promise<StockLevel[]> {
+  const { data: product, error } = await supabase
+    .from('products')
+    .select('id, stock_quantity, product_variants(id, primary_values)')
+    .eq('id', productId)
+    .single()
+
+  if (error || !product) {
+    throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const levels: StockLevel[] = []
+  for (const variant of (product as any).product_variants || []) {
+    let pvArray = variant.primary_values
+    if (typeof pvArray === 'string') {
+      try {
+        pvArray = JSON.parse(pvArray)
+      } catch {
+        continue
+      }
+    }
+    if (!Array.isArray(pvArray)) continue
+    for (const pv of pvArray) {
+      levels.push({
+        variant_id: variant.id,
+        attribute: pv.attribute ?? null,
+        value: String(pv.value),
+        quantity: typeof pv.quantity === 'number' ? pv.quantity : parseInt(String(pv.quantity)) || 0
+      })
+    }
+  }
+
+  if (levels.length === 0) {
+    levels.push({ variant_id: null, attribute: null, value: null, quantity: product.stock_quantity || 0 })
+  }
+  return levels
+}
+
+/**
+ * Manual stock correction by a supplier, journalled as 'manual_adjustment'
+ * Variant products must name the value to adjust; stock can't go below zero
+ */
+export async function adjustProductStock(
+  supabase: SupabaseClient,
+  params: { productId: number; variantValue?: string | null; change: number; actorId: string; note: string }
+): Promise<StockLevel[]> {
+  if (!Number.isInteger(params.change) || params.change === 0) {
+    throw createValidationError('Adjustment must be a whole number other than zero')
+  }
+
+  const levels = await getStockLevels(supabase, params.productId)
+  const hasVariants = levels.some(level => level.value !== null)
+  const target = hasVariants
+    ? levels.find(level => level.value === params.variantValue)
+    : levels[0]
+
+  if (!target) {
+    throw createValidationError(hasVariants ? 'Choose which variant to adjust' : 'Variant not found')
+  }
+  if (target.quantity + params.change < 0) {
+    throw createValidationError(`Only ${target.quantity} in stock, cannot remove ${-params.change}`)
+  }
+
+  await adjustStockForOrderItems(
+    supabase,
+    [{ product_id: params.productId, variant_name: target.value, quantity: Math.abs(params.change) }],
+    params.change > 0 ? 'increment' : 'decrement',
+    { reason: 'manual_adjustment', actor_id: params.actorId, note: params.note }
+  )
+
+  return getStockLevels(supabase, params.productId)
+}
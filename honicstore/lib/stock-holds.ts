@@ -0,0 +1,336 @@
+/**
+ * Stock holds
+ * Checkout reserves each line's quantity for a short TTL so two buyers cannot pay
+ * for the last unit. Stock is still only decremented when payment succeeds; the
+ * webhook then marks the order's holds converted. Expired holds stop counting
+ * immediately and are marked released by the cleanup-orders cron
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes } from './error-handler'
+
+export type StockHoldStatus = 'active' | 'converted' | 'released'
+
+export interface StockHold {
+  id: string
+  order_id: string
+  order_number: string | null
+  product_id: number
+  variant_value: string | null
+  quantity: number
+  status: StockHoldStatus
+  expires_at: string
+  released_reason: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface StockHoldItem {
+  product_id: number
+  product_name?: string | null
+  variant_name?: string | null
+  quantity: number
+}
+
+export const STOCK_HOLD_TTL_MINUTES = 30
+
+const HOLDS_TABLE = 'stock_holds'
+
+interface ProductStock {
+  stock_quantity: number | null
+  // primary_values quantities keyed by value, the same match the payment webhook uses
+  variantQuantities: Map<string, number>
+}
+
+function parsePrimaryValues(primaryValues: any): any[] {
+  if (typeof primaryValues === 'string') {
+    try {
+      primaryValues = JSON.parse(primaryValues)
+    } catch {
+      return []
+    }
+  }
+  return Array.isArray(primaryValues) ? primaryValues : []
+}
+
+async function loadProductStock(
+  supabase: SupabaseClient,
+  productIds: number[]
+): Promise<Map<number, ProductStock>> {
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, stock_quantity, product_variants(primary_values)')
+    .in('id', productIds)
+
+  if (error) {
+    logger.error('Error loading product stock for holds', error)
+    throw new ProductionError('Unable to check stock', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  const stock = new Map<number, ProductStock>()
+  for (const product of products || []) {
+    const variantQuantities = new Map<string, number>()
+    for (const variant of (product as any).product_variants || []) {
+      for (const pv of parsePrimaryValues(variant.primary_values)) {
+        const key = String(pv.value)
+        if (variantQuantities.has(key)) continue
+        variantQuantities.set(key, typeof pv.quantity === 'number' ? pv.quantity : parseInt(String(pv.quantity)) || 0)
+      }
+    }
+    stock.set(product.id, { stock_quantity: product.stock_quantity, variantQuantities })
+  }
+  return stock
+}
+
+/**
+ * Resolve the variant value the webhook will decrement for this line, or null for product-level stock
+ */
+function resolveVariantValue(stock: ProductStock | undefined, variantName?: string | null): string | null {
+  if (!stock || !variantName) return null
+  return stock.variantQuantities.has(String(variantName)) ? String(variantName) : null
+}
+
+function onHandFor(stock: ProductStock | undefined, variantValue: string | null): number | null {
+  if (!stock) return 0
+  if (variantValue !== null) return stock.variantQuantities.get(variantValue) ?? 0
+  return stock.stock_quantity
+}
+
+const holdKey = (productId: number, variantValue: string | null) => `${productId}|${variantValue ?? ''}`
+
+async function getActiveHolds(supabase: SupabaseClient, productIds: number[]): Promise<StockHold[]> {
+  const { data, error } = await supabase
+    .from(HOLDS_TABLE)
+    .select('*')
+    .in('product_id', productIds)
+    .eq('status', 'active')
+    .gt('expires_at', new Date().toISOString())
+
+  if (error) {
+    logger.error('Error fetching active stock holds', error)
+    throw new ProductionError('Unable to check stock', ErrorCodes.DATABASE_ERROR, 500)
+  }
+  return (data || []) as StockHold[]
+}
+
+/**
+ * Reserve stock for every line of an order
+ * Holds are inserted first and checked afterwards against on-hand stock minus every
+ * active hold, including ones inserted concurrently. Two checkouts racing for the
+ * last unit each see the other's hold, so at worst both are refused, never both accepted.
+ * On shortfall this order's holds are released and a 409 names the product
+ */
+export async function reserveStockForOrder(
+  supabase: SupabaseClient,
+  order: { id: string; order_number: string | null },
+  items: StockHoldItem[],
+  ttlMinutes: number = STOCK_HOLD_TTL_MINUTES
+): Promise<StockHold[]> {
+  if (items.length === 0) return []
+
+  const productIds = [...new Set(items.map(item => Number(item.product_id)))]
+  const stock = await loadProductStock(supabase, productIds)
+
+  // One hold per product/variant so repeated lines are summed
+  const requested = new Map<string, { product_id: number; variant_value: string | null; quantity: number; label: string }>()
+  for (const item of items) {
+    const productId = Number(item.product_id)
+    const variantValue = resolveVariantValue(stock.get(productId), item.variant_name)
+    const key = holdKey(productId, variantValue)
+    const existing = requested.get(key)
+    if (existing) {
+      existing.quantity += item.quantity
+    } else {
+      const label = item.product_name || `Product ${productId}`
+      requested.set(key, {
+        product_id: productId,
+        variant_value: variantValue,
+        quantity: item.quantity,
+        label: variantValue ? `${label} (${variantValue})` : label
+      })
+    }
+  }
+
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + ttlMinutes * 60 * 1000).toISOString()
+  const { data: inserted, error: insertError } = await supabase
+    .from(HOLDS_TABLE)
+    .insert(Array.from(requested.values()).map(hold => ({
+      order_id: order.id,
+      order_number: order.order_number,
+      product_id: hold.product_id,
+      variant_value: hold.variant_value,
+      quantity: hold.quantity,
+      status: 'active',
+      expires_at: expiresAt,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString()
+    })))
+    .select('*')
+
+  if (insertError) {
+    logger.error(`Error creating stock holds for order ${order.order_number}`, insertError)
+    throw new ProductionError('Unable to reserve stock', ErrorCodes.DATABASE_ERROR, 500)
+  }
+
+  const held = new Map<string, number>()
+  for (const hold of await getActiveHolds(supabase, productIds)) {
+    const key = holdKey(hold.product_id, hold.variant_value)
+    held.set(key, (held.get(key) || 0) + hold.quantity)
+  }
+
+  for (const [key, hold] of requested) {
+    const onHand = onHandFor(stock.get(hold.product_id), hold.variant_value)
+    if (onHand === null) continue // untracked stock
+
+    const totalHeld = held.get(key) || 0
+    if (totalHeld > onHand) {
+      await releaseStockHolds(supabase, order.id, 'insufficient_stock')
+      const available = Math.max(0, onHand - (totalHeld - hold.quantity))
+      throw new ProductionError(
+        available > 0
+          ? `Only ${available} of ${hold.label} available`
+          : `${hold.label} is out of stock`,
+        ErrorCodes.VALIDATION_ERROR,
+        409
+      )
+    }
+  }
+
+  logger.log(`🔒 Reserved stock for order ${order.order_number} until ${expiresAt}`, {
+    holds: requested.size
+  })
+  return (inserted || []) as StockHold[]
+}
+
+/**
+ * Mark an order's holds as converted once payment has decremented stock
+ * Called after the decrement so the units are never counted as available in between
+ */
+export async function convertStockHolds(supabase: SupabaseClient, orderId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from(HOLDS_TABLE)
+    .update({ status: 'converted', updated_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .eq('status', 'active')
+    .select('id, expires_at')
+
+  if (error) {
+    logger.error(`Error converting stock holds for order ${orderId}`, error)
+    return 0
+  }
+
+  const expired = (data || []).filter(hold => new Date(hold.expires_at) < new Date())
+  if (expired.length > 0) {
+    logger.warn(`Order ${orderId} was paid after ${expired.length} stock hold(s) expired`)
+  }
+  return data?.length || 0
+}
+
+/**
+ * Release an order's active holds (cancelled order, failed reservation)
+ */
+export async function releaseStockHolds(
+  supabase: SupabaseClient,
+  orderId: string,
+  reason: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from(HOLDS_TABLE)
+    .update({ status: 'released', released_reason: reason, updated_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .eq('status', 'active')
+    .select('id')
+
+  if (error) {
+    logger.error(`Error releasing stock holds for order ${orderId}`, error)
+    return 0
+  }
+  return data?.length || 0
+}
+
+/**
+ * Release every active hold past its TTL
+ */
+export async function releaseExpiredStockHolds(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from(HOLDS_TABLE)
+    .update({ status: 'released', released_reason: 'expired', updated_at: new Date().toISOString() })
+    .eq('status', 'active')
+    .lte('expires_at', new Date().toISOString())
+    .select('id')
+
+  if (error) {
+    logger.error('Error releasing expired stock holds', error)
+    throw error
+  }
+  return data?.length || 0
+}
+
+/**
+ * Total quantity under active holds per product
+ */
+export async function getHeldQuantities(
+  supabase: SupabaseClient,
+  productIds: number[]
+): Promise<Map<number, number>> {
+  const held = new Map<number, number>()
+  if (productIds.length === 0) return held
+
+  const { data, error } = await supabase
+    .from(HOLDS_TABLE)
+    .select('product_id, quantity')
+    .in('product_id', productIds)
+    .eq('status', 'active')
+    .gt('expires_at', new Date().toISOString())
+
+  if (error) {
+    logger.error('Error fetching held quantities', error)
+    return held
+  }
+  for (const hold of data || []) {
+    held.set(hold.product_id, (held.get(hold.product_id) || 0) + hold.quantity)
+  }
+  return held
+}
+
+/**
+ * First line that on-hand stock minus active holds cannot cover, by product and variant value the
+ * same way reserveStockForOrder counts it; null when every line fits. Nothing is reserved.
+ */
+export async function findStockShortfall(
+  supabase: SupabaseClient,
+  items: StockHoldItem[]
+): Promise<StockHoldItem | null> {
+  if (items.length === 0) return null
+
+  const productIds = [...new Set(items.map(item => Number(item.product_id)))]
+  const stock = await loadProductStock(supabase, productIds)
+
+  const requested = new Map<string, { item: StockHoldItem; variantValue: string | null; quantity: number }>()
+  for (const item of items) {
+    const productId = Number(item.product_id)
+    const variantValue = resolveVariantValue(stock.get(productId), item.variant_name)
+    const key = holdKey(productId, variantValue)
+    const existing = requested.get(key)
+    if (existing) {
+      existing.quantity += item.quantity
+    } else {
+      requested.set(key, { item, variantValue, quantity: item.quantity })
+    }
+  }
+
+  const held = new Map<string, number>()
+  for (const hold of await getActiveHolds(supabase, productIds)) {
+    const key = holdKey(hold.product_id, hold.variant_value)
+    held.set(key, (held.get(key) || 0) + hold.quantity)
+  }
+
+  for (const [key, line] of requested) {
+    const onHand = onHandFor(stock.get(Number(line.item.product_id)), line.variantValue)
+    if (onHand === null) continue // untracked stock
+    if (line.quantity > onHand - (held.get(key) || 0)) return line.item
+  }
+  return null
+}
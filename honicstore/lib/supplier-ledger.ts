@@ -0,0 +1,510 @@
+/**
+ * Supplier ledger helpers
+ * Posts double-entry lines for paid order items and reads supplier balances.
+ *
+ * Every posting is a balanced transaction (sum of debits === sum of credits) sharing one transaction_id:
+ * - order_clearing: money collected from the buyer (debit on sale)
+ * - platform_commission: Honic's share at the supplier's plan rate (credit on sale)
+ * - supplier_payable: what Honic owes the supplier (credit on sale, debit on payout)
+ * - payout_clearing: money on its way to the supplier's payout account
+ *
+ * Refunds reverse the original sale lines for the returned amount at the rate frozen on the sale
+ * After each sale or refund posting the product analytics roll-up recounts its sales from these lines
+ */
+
+import crypto from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { getSupplierPlan } from './supplier-plan-utils'
+import { refreshProductSalesStats } from './product-analytics'
+
+export type LedgerAccount = 'order_clearing' | 'platform_commission' | 'supplier_payable' | 'payout_clearing'
+
+export type LedgerEntryType = 'sale' | 'payout' | 'payout_reversal' | 'refund'
+
+export interface LedgerEntry {
+  id?: string
+  transaction_id: string
+  supplier_id: string
+  order_id: string | null
+  order_number: string | null
+  confirmed_order_id: string | null
+  confirmed_order_item_id: string | null
+  product_id: number | null
+  payout_id?: string | null
+  refund_id?: string | null
+  entry_type: LedgerEntryType
+  account: LedgerAccount
+  debit: number
+  credit: number
+  commission_rate: number | null
+  currency: string
+  description: string | null
+  created_at?: string
+}
+
+export interface SupplierLedgerOrder {
+  orderNumber: string | null
+  confirmedOrderId: string | null
+  grossAmount: number
+  commissionAmount: number
+  payableAmount: number
+  commissionRate: number | null
+  itemCount: number
+  postedAt: string | null
+}
+
+export interface SupplierLedgerSummary {
+  grossSales: number
+  commission: number
+  payable: number
+  balance: number
+  currency: string
+  orders: SupplierLedgerOrder[]
+}
+
+const LEDGER_TABLE = 'supplier_ledger_entries'
+
+// Matches the Free plan rate advertised on the supplier support page
+export const DEFAULT_COMMISSION_RATE = 15
+
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Split a gross amount into platform commission and supplier payable
+ * commissionRate is a percentage (e.g. 15 for 15%)
+ */
+export function splitCommission(grossAmount: number, commissionRate: number): { commission: number; payable: number } {
+  const commission = roundMoney((grossAmount * commissionRate) / 100)
+  return {
+    commission,
+    payable: roundMoney(grossAmount - commission)
+  }
+}
+
+/**
+ * Resolve the supplier (owner) id for each product
+ * Products use supplier_id, older rows only have user_id
+ */
+async function getProductSupplierMap(
+  supabase: SupabaseClient,
+  productIds: number[]
+): Promise<Map<number, string>> {
+  const map = new Map<number, string>()
+  if (productIds.length === 0) return map
+
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, supplier_id, user_id')
+    .in('id', productIds)
+
+  if (error) {
+    logger.error('Error fetching products for ledger posting', error)
+    return map
+  }
+
+  for (const product of products || []) {
+    const supplierId = product.supplier_id || product.user_id
+    if (supplierId) map.set(product.id, supplierId)
+  }
+  return map
+}
+
+/**
+ * Post sale, commission and payable lines for every confirmed item of a paid order
+ * Safe to call more than once: items that already have a sale posting are skipped
+ */
+export async function postOrderLedgerEntries(
+  supabase: SupabaseClient,
+  orderId: string
+): Promise<{ posted: number; skipped: number }> {
+  const { data: confirmedOrder, error: confirmedOrderError } = await supabase
+    .from('confirmed_orders')
+    .select('id, order_id, order_number')
+    .eq('order_id', orderId)
+    .single()
+
+  if (confirmedOrderError || !confirmedOrder) {
+    logger.warn(`No confirmed order found for order ${orderId}, ledger posting deferred`)
+    return { posted: 0, skipped: 0 }
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('confirmed_order_items')
+    .select('id, product_id, quantity, price, total_price')
+    .eq('confirmed_order_id', confirmedOrder.id)
+
+  if (itemsError) {
+    logger.error('Error fetching confirmed order items for ledger posting', itemsError)
+    throw itemsError
+  }
+  if (!items || items.length === 0) {
+    return { posted: 0, skipped: 0 }
+  }
+
+  const { data: existing } = await supabase
+    .from(LEDGER_TABLE)
+    .select('confirmed_order_item_id')
+    .eq('confirmed_order_id', confirmedOrder.id)
+    .eq('entry_type', 'sale')
+
+  const alreadyPosted = new Set((existing || []).map((row: any) => row.confirmed_order_item_id))
+  const supplierMap = await getProductSupplierMap(
+    supabase,
+    [...new Set(items.map((item: any) => item.product_id))]
+  )
+
+  // Plan rate is looked up once per supplier and frozen on the entry (rate at time of sale)
+  const rateCache = new Map<string, number>()
+  const getRate = async (supplierId: string) => {
+    const cached = rateCache.get(supplierId)
+    if (cached !== undefined) return cached
+    const plan = await getSupplierPlan(supplierId, supabase)
+    const rate = typeof plan?.commission_rate === 'number' ? plan.commission_rate : DEFAULT_COMMISSION_RATE
+    rateCache.set(supplierId, rate)
+    return rate
+  }
+
+  const rows: LedgerEntry[] = []
+  let skipped = 0
+
+  for (const item of items) {
+    if (alreadyPosted.has(item.id)) {
+      skipped++
+      continue
+    }
+
+    const supplierId = supplierMap.get(item.product_id)
+    if (!supplierId) {
+      logger.warn(`No supplier found for product ${item.product_id}, skipping ledger posting`)
+      skipped++
+      continue
+    }
+
+    const gross = roundMoney(
+      typeof item.total_price === 'number' ? item.total_price : (item.price || 0) * (item.quantity || 0)
+    )
+    const rate = await getRate(supplierId)
+    const { commission, payable } = splitCommission(gross, rate)
+    const transactionId = crypto.randomUUID()
+
+    const base = {
+      transaction_id: transactionId,
+      supplier_id: supplierId,
+      order_id: confirmedOrder.order_id,
+      order_number: confirmedOrder.order_number,
+      confirmed_order_id: confirmedOrder.id,
+      confirmed_order_item_id: item.id,
+      product_id: item.product_id,
+      entry_type: 'sale' as const,
+      commission_rate: rate,
+      currency: 'TZS'
+    }
+
+    rows.push(
+      { ...base, account: 'order_clearing', debit: gross, credit: 0, description: 'Gross sale' },
+      { ...base, account: 'platform_commission', debit: 0, credit: commission, description: `Platform commission (${rate}%)` },
+      { ...base, account: 'supplier_payable', debit: 0, credit: payable, description: 'Supplier payable' }
+    )
+  }
+
+  if (rows.length === 0) {
+    return { posted: 0, skipped }
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from(LEDGER_TABLE)
+    .insert(rows)
+    .select('product_id, supplier_id, account, created_at')
+  if (insertError) {
+    logger.error(`Error posting ledger entries for order ${orderId}`, insertError)
+    throw insertError
+  }
+
+  await refreshProductSalesStats(supabase, (inserted || []).filter((entry: any) => entry.account === 'order_clearing'))
+
+  logger.log(`✅ Posted ${rows.length / 3} ledger transaction(s) for order ${confirmedOrder.order_number}`)
+  return { posted: rows.length / 3, skipped }
+}
+
+/**
+ * Post a payout (debit payable) or its reversal when the disbursement fails (credit payable back)
+ */
+export async function postPayoutLedgerEntry(
+  supabase: SupabaseClient,
+  payout: { id: string; supplier_id: string; amount: number; currency?: string; batch_number?: string | null },
+  entryType: 'payout' | 'payout_reversal'
+): Promise<void> {
+  const amount = roundMoney(payout.amount)
+  const isReversal = entryType === 'payout_reversal'
+  const base = {
+    transaction_id: crypto.randomUUID(),
+    supplier_id: payout.supplier_id,
+    order_id: null,
+    order_number: null,
+    confirmed_order_id: null,
+    confirmed_order_item_id: null,
+    product_id: null,
+    payout_id: payout.id,
+    entry_type: entryType,
+    commission_rate: null,
+    currency: payout.currency || 'TZS'
+  }
+  const description = isReversal
+    ? `Payout reversed${payout.batch_number ? ` (${payout.batch_number})` : ''}`
+    : `Payout${payout.batch_number ? ` (${payout.batch_number})` : ''}`
+
+  const rows: LedgerEntry[] = [
+    { ...base, account: 'supplier_payable', debit: isReversal ? 0 : amount, credit: isReversal ? amount : 0, description },
+    { ...base, account: 'payout_clearing', debit: isReversal ? amount : 0, credit: isReversal ? 0 : amount, description }
+  ]
+
+  const { error } = await supabase.from(LEDGER_TABLE).insert(rows)
+  if (error) {
+    logger.error(`Error posting ${entryType} ledger entry for payout ${payout.id}`, error)
+    throw error
+  }
+}
+
+/**
+ * Reverse the sale lines for refunded items (credit clearing, debit commission and payable)
+ * Uses the commission rate frozen on each item's sale posting so the supplier gives back exactly
+ * the share they were credited. Safe to call more than once per refund
+ */
+export async function postRefundLedgerEntries(
+  supabase: SupabaseClient,
+  refund: {
+    id: string
+    supplier_id: string
+    order_id: string | null
+    order_number: string | null
+    confirmed_order_id: string | null
+    currency?: string
+  },
+  items: Array<{ confirmed_order_item_id: string; product_id: number; amount: number }>
+): Promise<{ posted: number }> {
+  const { data: existing } = await supabase
+    .from(LEDGER_TABLE)
+    .select('id')
+    .eq('refund_id', refund.id)
+    .limit(1)
+
+  if (existing && existing.length > 0) {
+    return { posted: 0 }
+  }
+
+  const { data: saleEntries } = await supabase
+    .from(LEDGER_TABLE)
+    .select('confirmed_order_item_id, commission_rate')
+    .eq('entry_type', 'sale')
+    .eq('account', 'supplier_payable')
+    .in('confirmed_order_item_id', items.map(item => item.confirmed_order_item_id))
+
+  const saleRates = new Map<string, number>()
+  for (const entry of saleEntries || []) {
+    if (typeof entry.commission_rate === 'number') {
+      saleRates.set(entry.confirmed_order_item_id, entry.commission_rate)
+    }
+  }
+
+  const rows: LedgerEntry[] = []
+  for (const item of items) {
+    const rate = saleRates.get(item.confirmed_order_item_id)
+    if (rate === undefined) {
+      // Nothing was credited for this item yet, so there is nothing to reverse
+      logger.warn(`No sale posting for item ${item.confirmed_order_item_id}, skipping refund reversal`)
+      continue
+    }
+
+    const gross = roundMoney(item.amount)
+    const { commission, payable } = splitCommission(gross, rate)
+    const base = {
+      transaction_id: crypto.randomUUID(),
+      supplier_id: refund.supplier_id,
+      order_id: refund.order_id,
+      order_number: refund.order_number,
+      confirmed_order_id: refund.confirmed_order_id,
+      confirmed_order_item_id: item.confirmed_order_item_id,
+      product_id: item.product_id,
+      refund_id: refund.id,
+      entry_type: 'refund' as const,
+      commission_rate: rate,
+      currency: refund.currency || 'TZS'
+    }
+
+    rows.push(
+      { ...base, account: 'order_clearing', debit: 0, credit: gross, description: 'Refund to buyer' },
+      { ...base, account: 'platform_commission', debit: commission, credit: 0, description: `Commission reversed (${rate}%)` },
+      { ...base, account: 'supplier_payable', debit: payable, credit: 0, description: 'Supplier payable reversed' }
+    )
+  }
+
+  if (rows.length === 0) {
+    return { posted: 0 }
+  }
+
+  const { data: inserted, error } = await supabase
+    .from(LEDGER_TABLE)
+    .insert(rows)
+    .select('product_id, supplier_id, account, created_at')
+  if (error) {
+    logger.error(`Error posting refund ledger entries for refund ${refund.id}`, error)
+    throw error
+  }
+
+  await refreshProductSalesStats(supabase, (inserted || []).filter((entry: any) => entry.account === 'order_clearing'))
+
+  return { posted: rows.length / 3 }
+}
+
+/**
+ * Balance that is available for payout
+ * Sale credits only count once they are older than the holdback cutoff, so refunds and
+ * disputes on recent orders can still be absorbed before money leaves the platform
+ */
+export async function getSupplierSettledBalance(
+  supabase: SupabaseClient,
+  supplierId: string,
+  cutoff: Date
+): Promise<number> {
+  const { data: entries, error } = await supabase
+    .from(LEDGER_TABLE)
+    .select('entry_type, debit, credit, created_at')
+    .eq('supplier_id', supplierId)
+    .eq('account', 'supplier_payable')
+
+  if (error) {
+    throw error
+  }
+
+  let settled = 0
+  for (const entry of entries || []) {
+    if (entry.entry_type === 'sale' && new Date(entry.created_at) > cutoff) continue
+    settled += (Number(entry.credit) || 0) - (Number(entry.debit) || 0)
+  }
+  return roundMoney(settled)
+}
+
+/**
+ * Suppliers that have ever had a payable posted - candidates for a payout run
+ */
+export async function getSuppliersWithPayables(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from(LEDGER_TABLE)
+    .select('supplier_id')
+    .eq('account', 'supplier_payable')
+
+  if (error) {
+    throw error
+  }
+  return [...new Set((data || []).map((row: any) => row.supplier_id as string))]
+}
+
+/**
+ * Supplier payable movements for a statement period (oldest first)
+ */
+export async function getSupplierStatementEntries(
+  supabase: SupabaseClient,
+  supplierId: string,
+  from?: Date | null,
+  to?: Date | null
+): Promise<LedgerEntry[]> {
+  let query = supabase
+    .from(LEDGER_TABLE)
+    .select('*')
+    .eq('supplier_id', supplierId)
+    .eq('account', 'supplier_payable')
+    .order('created_at', { ascending: true })
+
+  if (from) query = query.gte('created_at', from.toISOString())
+  if (to) query = query.lte('created_at', to.toISOString())
+
+  const { data, error } = await query
+  if (error) {
+    throw error
+  }
+  return (data || []) as LedgerEntry[]
+}
+
+/**
+ * Running balance and per-order breakdown for a supplier
+ * Balance is credits minus debits on the supplier_payable account
+ */
+export async function getSupplierLedgerSummary(
+  supabase: SupabaseClient,
+  supplierId: string
+): Promise<SupplierLedgerSummary> {
+  const { data: entries, error } = await supabase
+    .from(LEDGER_TABLE)
+    .select('transaction_id, order_number, confirmed_order_id, entry_type, account, debit, credit, commission_rate, currency, created_at')
+    .eq('supplier_id', supplierId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  let grossSales = 0
+  let commission = 0
+  let balance = 0
+  const orders = new Map<string, SupplierLedgerOrder & { transactions: Set<string> }>()
+
+  for (const entry of entries || []) {
+    const debit = Number(entry.debit) || 0
+    const credit = Number(entry.credit) || 0
+
+    if (entry.entry_type === 'payout' || entry.entry_type === 'payout_reversal') {
+      if (entry.account === 'supplier_payable') balance += credit - debit
+      continue
+    }
+
+    const key = entry.confirmed_order_id || entry.order_number || entry.transaction_id
+
+    if (!orders.has(key)) {
+      orders.set(key, {
+        orderNumber: entry.order_number,
+        confirmedOrderId: entry.confirmed_order_id,
+        grossAmount: 0,
+        commissionAmount: 0,
+        payableAmount: 0,
+        commissionRate: entry.commission_rate,
+        itemCount: 0,
+        postedAt: entry.created_at,
+        transactions: new Set()
+      })
+    }
+    const order = orders.get(key)!
+
+    if (entry.account === 'order_clearing') {
+      grossSales += debit - credit
+      order.grossAmount += debit - credit
+    } else if (entry.account === 'platform_commission') {
+      commission += credit - debit
+      order.commissionAmount += credit - debit
+    } else if (entry.account === 'supplier_payable') {
+      balance += credit - debit
+      order.payableAmount += credit - debit
+    }
+
+    if (entry.entry_type === 'sale' && !order.transactions.has(entry.transaction_id)) {
+      order.transactions.add(entry.transaction_id)
+      order.itemCount++
+    }
+  }
+
+  return {
+    grossSales: roundMoney(grossSales),
+    commission: roundMoney(commission),
+    payable: roundMoney(grossSales - commission),
+    balance: roundMoney(balance),
+    currency: entries?.[0]?.currency || 'TZS',
+    orders: Array.from(orders.values()).map(({ transactions, ...order }) => ({
+      ...order,
+      grossAmount: roundMoney(order.grossAmount),
+      commissionAmount: roundMoney(order.commissionAmount),
+      payableAmount: roundMoney(order.payableAmount)
+    }))
+  }
+}
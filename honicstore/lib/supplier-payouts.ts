@@ -0,0 +1,359 @@
+/**
+ * Supplier payout batches
+ * Gathers settled supplier balances into a batch, disburses them through a PayoutProvider
+ * and tracks each payout through pending -> sent -> reconciled (or failed)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { decryptPayoutAccount } from './payout-encryption'
+import { PayoutProvider } from './payout-providers'
+import {
+  getSupplierSettledBalance,
+  getSuppliersWithPayables,
+  postPayoutLedgerEntry,
+  roundMoney
+} from './supplier-ledger'
+
+export type PayoutStatus = 'pending' | 'sent' | 'failed' | 'reconciled'
+
+export type PayoutBatchStatus = 'processing' | 'completed' | 'completed_with_errors'
+
+export interface SupplierPayout {
+  id: string
+  batch_id: string
+  batch_number: string
+  supplier_id: string
+  payout_account_id: string
+  amount: number
+  currency: string
+  status: PayoutStatus
+  provider: string
+  provider_reference: string | null
+  failure_reason: string | null
+  sent_at: string | null
+  reconciled_at: string | null
+  created_at: string
+}
+
+export interface PayoutRunOptions {
+  holdbackDays: number
+  minimumAmount: number
+}
+
+export const PAYOUT_HOLDBACK_DAYS = Math.max(
+  0,
+  parseInt(process.env.PAYOUT_HOLDBACK_DAYS || '7', 10) || 7
+)
+
+export const PAYOUT_MINIMUM_AMOUNT = Math.max(
+  0,
+  parseFloat(process.env.PAYOUT_MINIMUM_AMOUNT || '10000') || 10000
+)
+
+// How long a payout may stay pending before a later run treats its own run as crashed
+const PENDING_PAYOUT_GRACE_MS = 60 * 60 * 1000
+
+function generateBatchNumber(): string {
+  const now = new Date()
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 8).toUpperCase()
+  return `PB-${date}-${suffix}`
+}
+
+/**
+ * Create a batch with one pending payout per supplier whose settled balance clears the minimum
+ * The payable is debited as soon as the payout is created so the same money can't be batched twice
+ */
+export async function createPayoutBatch(
+  supabase: SupabaseClient,
+  provider: PayoutProvider,
+  options: PayoutRunOptions = { holdbackDays: PAYOUT_HOLDBACK_DAYS, minimumAmount: PAYOUT_MINIMUM_AMOUNT }
+): Promise<{ batchId: string | null; batchNumber: string | null; payouts: number; skipped: string[] }> {
+  const cutoff = new Date(Date.now() - options.holdbackDays * 24 * 60 * 60 * 1000)
+  const supplierIds = await getSuppliersWithPayables(supabase)
+  const skipped: string[] = []
+
+  const candidates: Array<{ supplierId: string; amount: number; accountId: string }> = []
+  for (const supplierId of supplierIds) {
+    const settled = await getSupplierSettledBalance(supabase, supplierId, cutoff)
+    if (settled < options.minimumAmount) continue
+
+    const { data: account } = await supabase
+      .from('supplier_payout_accounts')
+      .select('id')
+      .eq('supplier_id', supplierId)
+      .eq('is_default', true)
+      .single()
+
+    if (!account) {
+      skipped.push(supplierId)
+      logger.warn(`Supplier ${supplierId} has a settled balance but no default payout account`)
+      continue
+    }
+    candidates.push({ supplierId, amount: settled, accountId: account.id })
+  }
+
+  if (candidates.length === 0) {
+    return { batchId: null, batchNumber: null, payouts: 0, skipped }
+  }
+
+  const batchNumber = generateBatchNumber()
+  const { data: batch, error: batchError } = await supabase
+    .from('supplier_payout_batches')
+    .insert({
+      batch_number: batchNumber,
+      provider: provider.name,
+      status: 'processing',
+      holdback_days: options.holdbackDays,
+      cutoff_at: cutoff.toISOString(),
+      payout_count: candidates.length,
+      total_amount: roundMoney(candidates.reduce((sum, c) => sum + c.amount, 0)),
+      currency: 'TZS'
+    })
+    .select('id')
+    .single()
+
+  if (batchError || !batch) {
+    logger.error('Error creating payout batch', batchError)
+    throw batchError || new Error('Failed to create payout batch')
+  }
+
+  let created = 0
+  let createdAmount = 0
+  for (const candidate of candidates) {
+    const { data: payout, error: payoutError } = await supabase
+      .from('supplier_payouts')
+      .insert({
+        batch_id: batch.id,
+        batch_number: batchNumber,
+        supplier_id: candidate.supplierId,
+        payout_account_id: candidate.accountId,
+        amount: candidate.amount,
+        currency: 'TZS',
+        status: 'pending',
+        provider: provider.name
+      })
+      .select('id, supplier_id, amount, currency')
+      .single()
+
+    if (payoutError || !payout) {
+      logger.error(`Error creating payout for supplier ${candidate.supplierId}`, payoutError)
+      continue
+    }
+
+    await postPayoutLedgerEntry(supabase, { ...payout, batch_number: batchNumber }, 'payout')
+    created++
+    createdAmount += Number(payout.amount) || 0
+  }
+
+  // A payout that could not be inserted reserves nothing, so it is not part of the batch either
+  if (created < candidates.length) {
+    await supabase
+      .from('supplier_payout_batches')
+      .update({ payout_count: created, total_amount: roundMoney(createdAmount), updated_at: new Date().toISOString() })
+      .eq('id', batch.id)
+  }
+
+  return { batchId: batch.id, batchNumber, payouts: created, skipped }
+}
+
+async function markPayoutFailed(supabase: SupabaseClient, payout: SupplierPayout, reason: string): Promise<void> {
+  await supabase
+    .from('supplier_payouts')
+    .update({ status: 'failed', failure_reason: reason, updated_at: new Date().toISOString() })
+    .eq('id', payout.id)
+
+  // Give the money back to the supplier's balance so the next run can retry it
+  await postPayoutLedgerEntry(supabase, payout, 'payout_reversal')
+}
+
+async function refreshBatchStatus(supabase: SupabaseClient, batchId: string): Promise<void> {
+  const { data: payouts } = await supabase
+    .from('supplier_payouts')
+    .select('status')
+    .eq('batch_id', batchId)
+
+  const statuses = (payouts || []).map((p: any) => p.status as PayoutStatus)
+  let status: PayoutBatchStatus = 'processing'
+  if (statuses.every(s => s === 'reconciled' || s === 'failed')) {
+    status = statuses.some(s => s === 'failed') ? 'completed_with_errors' : 'completed'
+  }
+
+  await supabase
+    .from('supplier_payout_batches')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', batchId)
+}
+
+/**
+ * Submit every pending payout of a batch to the provider
+ */
+export async function submitPayoutBatch(
+  supabase: SupabaseClient,
+  batchId: string,
+  provider: PayoutProvider
+): Promise<{ sent: number; failed: number }> {
+  const { data: payouts, error } = await supabase
+    .from('supplier_payouts')
+    .select('*')
+    .eq('batch_id', batchId)
+    .eq('status', 'pending')
+
+  if (error) {
+    throw error
+  }
+
+  let sent = 0
+  let failed = 0
+
+  for (const payout of (payouts || []) as SupplierPayout[]) {
+    const { data: account } = await supabase
+      .from('supplier_payout_accounts')
+      .select('*')
+      .eq('id', payout.payout_account_id)
+      .single()
+
+    if (!account) {
+      await markPayoutFailed(supabase, payout, 'Payout account no longer exists')
+      failed++
+      continue
+    }
+
+    try {
+      const destination = decryptPayoutAccount(account) as any
+      const result = await provider.disburse({
+        reference: payout.id.replace(/[^A-Za-z0-9]/g, ''),
+        amount: Number(payout.amount),
+        currency: payout.currency,
+        destination
+      })
+
+      if (result.status === 'failed') {
+        await markPayoutFailed(supabase, payout, result.message || 'Payout rejected by provider')
+        failed++
+        continue
+      }
+
+      const now = new Date().toISOString()
+      await supabase
+        .from('supplier_payouts')
+        .update({
+          status: result.status,
+          provider_reference: result.providerReference || null,
+          sent_at: now,
+          reconciled_at: result.status === 'reconciled' ? now : null,
+          updated_at: now
+        })
+        .eq('id', payout.id)
+      sent++
+    } catch (disburseError: any) {
+      logger.error(`Error disbursing payout ${payout.id}`, disburseError)
+      await markPayoutFailed(supabase, payout, disburseError?.message || 'Payout provider error')
+      failed++
+    }
+  }
+
+  await refreshBatchStatus(supabase, batchId)
+  return { sent, failed }
+}
+
+/**
+ * Submit payouts left pending by a run that stopped between creating and submitting them
+ * Their balance is already reserved, so without this they would never be paid. Only payouts older
+ * than PENDING_PAYOUT_GRACE_MS are picked up, to stay clear of a run still submitting its batch;
+ * the provider reference is the payout id, so the provider can refuse a payout it already took.
+ */
+export async function resubmitStalePendingPayouts(
+  supabase: SupabaseClient,
+  provider: PayoutProvider
+): Promise<{ batches: number; sent: number; failed: number }> {
+  const { data: payouts, error } = await supabase
+    .from('supplier_payouts')
+    .select('batch_id')
+    .eq('status', 'pending')
+    .eq('provider', provider.name)
+    .lt('created_at', new Date(Date.now() - PENDING_PAYOUT_GRACE_MS).toISOString())
+
+  if (error) {
+    throw error
+  }
+
+  const batchIds = [...new Set((payouts || []).map((payout: any) => payout.batch_id as string))]
+  let sent = 0
+  let failed = 0
+  for (const batchId of batchIds) {
+    logger.warn(`Resubmitting pending payouts left in batch ${batchId}`)
+    const result = await submitPayoutBatch(supabase, batchId, provider)
+    sent += result.sent
+    failed += result.failed
+  }
+  return { batches: batchIds.length, sent, failed }
+}
+
+/**
+ * Ask the provider about payouts still marked sent and settle them as reconciled or failed
+ */
+export async function reconcileSentPayouts(
+  supabase: SupabaseClient,
+  provider: PayoutProvider
+): Promise<{ reconciled: number; failed: number; pending: number }> {
+  const { data: payouts, error } = await supabase
+    .from('supplier_payouts')
+    .select('*')
+    .eq('status', 'sent')
+    .eq('provider', provider.name)
+
+  if (error) {
+    throw error
+  }
+
+  let reconciled = 0
+  let failed = 0
+  let pending = 0
+  const touchedBatches = new Set<string>()
+
+  for (const payout of (payouts || []) as SupplierPayout[]) {
+    const result = await provider.checkStatus(payout.id.replace(/[^A-Za-z0-9]/g, ''))
+    if (result.status === 'reconciled') {
+      const now = new Date().toISOString()
+      await supabase
+        .from('supplier_payouts')
+        .update({ status: 'reconciled', reconciled_at: now, updated_at: now })
+        .eq('id', payout.id)
+      reconciled++
+      touchedBatches.add(payout.batch_id)
+    } else if (result.status === 'failed') {
+      await markPayoutFailed(supabase, payout, result.message || 'Payout failed at provider')
+      failed++
+      touchedBatches.add(payout.batch_id)
+    } else {
+      pending++
+    }
+  }
+
+  for (const batchId of touchedBatches) {
+    await refreshBatchStatus(supabase, batchId)
+  }
+
+  return { reconciled, failed, pending }
+}
+
+/**
+ * Payout history for the supplier portal (newest first)
+ */
+export async function getSupplierPayoutHistory(
+  supabase: SupabaseClient,
+  supplierId: string
+): Promise<SupplierPayout[]> {
+  const { data, error } = await supabase
+    .from('supplier_payouts')
+    .select('*')
+    .eq('supplier_id', supplierId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+  return (data || []) as SupplierPayout[]
+}
@@ -283,6 +283,29 @@ const translations: Record<Language, Translations> = {
       toastInvalidEmailDesc: 'Enter a valid email address.',
 
       shippingSummaryLabel: 'Shipping:',
+      shipmentFromStore: 'Honic store',
+      shipmentItemsLabel: 'items',
+      pickupPointTitle: 'Choose a pickup point',
+      pickupPointSubtitle: 'Where you will collect your order. Points nearest your area are listed first.',
+      pickupPointLoading: 'Finding pickup points...',
+      pickupPointNone: 'No pickup points in this area yet. Try another region.',
+      pickupPointOpenNow: 'Open now',
+      pickupPointClosedNow: 'Closed now',
+      pickupPointFull: 'Full today',
+      pickupPointSlotsLeft: 'pickups left today',
+      pickupPointKmAway: 'km away',
+      errSelectPickupPoint: 'Please choose a pickup point',
+      deliverySlotTitle: 'Same-day delivery',
+      deliverySlotSubtitle: 'Get your order today by choosing a delivery window, or keep standard delivery.',
+      deliverySlotLoading: 'Checking same-day delivery...',
+      deliverySlotStandard: 'Standard delivery',
+      deliverySlotStandardHint: 'Delivered in the usual time for your area',
+      deliverySlotNotEligible: 'Same-day delivery is not available because some items in your cart are not same-day products.',
+      deliverySlotOutOfStock: 'Same-day delivery is not available because some items in your cart are not in stock.',
+      deliverySlotNoneLeft: 'All of today\'s same-day slots have closed. Choose standard delivery or order earlier tomorrow.',
+      deliverySlotOrderBy: 'Order by',
+      deliverySlotFull: 'Full',
+      deliverySlotLeft: 'left',
       discountPrefix: 'Discount',
       orderReviewEmptyCart: 'No items in cart. Please add items to your cart first.',
       itemTotalPriceLabel: 'Item Total Price:',
@@ -599,6 +622,29 @@ const translations: Record<Language, Translations> = {
       toastInvalidEmailDesc: 'Ingiza barua pepe halali.',
 
       shippingSummaryLabel: 'Usafirishaji:',
+      shipmentFromStore: 'Duka la Honic',
+      shipmentItemsLabel: 'bidhaa',
+      pickupPointTitle: 'Chagua kituo cha kuchukulia',
+      pickupPointSubtitle: 'Mahali utakapochukua oda yako. Vituo vilivyo karibu na eneo lako vinaonyeshwa kwanza.',
+      pickupPointLoading: 'Inatafuta vituo vya kuchukulia...',
+      pickupPointNone: 'Bado hakuna vituo vya kuchukulia katika eneo hili. Jaribu mkoa mwingine.',
+      pickupPointOpenNow: 'Kiko wazi sasa',
+      pickupPointClosedNow: 'Kimefungwa sasa',
+      pickupPointFull: 'Kimejaa leo',
+      pickupPointSlotsLeft: 'nafasi zimebaki leo',
+      pickupPointKmAway: 'km kutoka hapa',
+      errSelectPickupPoint: 'Tafadhali chagua kituo cha kuchukulia',
+      deliverySlotTitle: 'Usafirishaji wa siku hiyo hiyo',
+      deliverySlotSubtitle: 'Pata oda yako leo kwa kuchagua muda wa kuletewa, au endelea na usafirishaji wa kawaida.',
+      deliverySlotLoading: 'Inakagua usafirishaji wa siku hiyo hiyo...',
+      deliverySlotStandard: 'Usafirishaji wa kawaida',
+      deliverySlotStandardHint: 'Inaletwa kwa muda wa kawaida wa eneo lako',
+      deliverySlotNotEligible: 'Usafirishaji wa siku hiyo hiyo haupatikani kwa sababu baadhi ya bidhaa kwenye kikapu chako si za siku hiyo hiyo.',
+      deliverySlotOutOfStock: 'Usafirishaji wa siku hiyo hiyo haupatikani kwa sababu baadhi ya bidhaa kwenye kikapu chako hazipo stoo.',
+      deliverySlotNoneLeft: 'Nafasi zote za leo za siku hiyo hiyo zimefungwa. Chagua usafirishaji wa kawaida au agiza mapema kesho.',
+      deliverySlotOrderBy: 'Agiza kabla ya',
+      deliverySlotFull: 'Imejaa',
+      deliverySlotLeft: 'zimebaki',
       discountPrefix: 'Punguzo',
       orderReviewEmptyCart: 'Hakuna vitu kwenye kikapu. Ongeza bidhaa kwenye kikapu kwanza.',
       itemTotalPriceLabel: 'Jumla ya bei ya kipengele:',
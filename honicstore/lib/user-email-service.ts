@@ -25,6 +25,7 @@ import {
   getPickupReminderTemplate,
   getOrderPlacedWelcomeTemplate,
   getPasswordChangeOTPTemplate,
+  getNewMessageTemplate,
   EmailTemplateOptions
 } from './email-templates'
 import { logger } from './logger'
@@ -212,6 +213,7 @@ export async function sendOrderConfirmationEmail(
     items: Array<{ name: string; quantity: number; price: number; image?: string }>
     subtotal: number
     shipping: number
+    discount?: number
     tax: number
     total: number
     shippingAddress: any
@@ -219,6 +221,7 @@ export async function sendOrderConfirmationEmail(
     paymentMethod: string
     trackingUrl?: string
     invoiceUrl?: string
+    deliverySlot?: string
   }
 ): Promise<{ success: boolean; error?: string }> {
   try {
@@ -903,3 +906,43 @@ export async function sendPickupReminderEmail(
 
 
 
+
+/**
+ * Send New Message Email
+ * Lets the other side of a buyer/supplier conversation know a message is waiting
+ */
+export async function sendNewMessageEmail(
+  userEmail: string,
+  messageData: {
+    senderName: string
+    subject: string
+    preview: string
+    threadUrl: string
+  }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!validateEmail(userEmail)) {
+      return { success: false, error: 'Invalid email address' }
+    }
+
+    const options = await getCompanySettings()
+    const { html, text } = getNewMessageTemplate(messageData, options)
+
+    const result = await sendEmail({
+      to: userEmail,
+      subject: `New message from ${messageData.senderName}: ${messageData.subject}`,
+      html,
+      text,
+      from: `Messages <${getSenderEmailForFrom()}>`,
+    })
+
+    if (result.success) {
+      logger.log(`New message email sent to ${userEmail}`)
+    }
+
+    return result
+  } catch (error: any) {
+    logger.error('Error sending new message email:', error)
+    return { success: false, error: error.message }
+  }
+}
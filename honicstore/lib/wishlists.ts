@@ -0,0 +1,580 @@
+/**
+ * Wishlists and saved-for-later
+ * Both live in the wishlists / wishlist_items tables. A buyer has one saved-for-later list and any
+ * number of named wishlists, the first of which is their default. Every item records the variant
+ * (when one was chosen) and the price at the moment it was saved, which is what the price-drop
+ * cron compares against.
+ * A wishlist can be shared read-only through a random token; turning sharing off clears the token,
+ * so an old link stops working and sharing again gives a new one.
+ * The first time a buyer's lists are read, product ids left in the old profiles arrays
+ * (wishlist_product_ids / saved_later_product_ids) are copied in at today's price.
+ */
+
+import crypto from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from './logger'
+import { ProductionError, ErrorCodes, createValidationError } from './error-handler'
+import { getProductSales, resolveSalePrice } from './product-sales'
+
+export type WishlistKind = 'wishlist' | 'saved_later'
+
+export const MAX_WISHLISTS = 20
+
+export const MAX_WISHLIST_ITEMS = 500
+
+export const MAX_WISHLIST_NAME_LENGTH = 60
+
+export const DEFAULT_WISHLIST_NAME = 'My Wishlist'
+
+// Smallest drop below the saved price that is worth an email
+export const WISHLIST_PRICE_DROP_MIN_PERCENT = 5
+
+const LISTS_TABLE = 'wishlists'
+const ITEMS_TABLE = 'wishlist_items'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const LEGACY_COLUMNS: Record<WishlistKind, string> = {
+  wishlist: 'wishlist_product_ids',
+  saved_later: 'saved_later_product_ids'
+}
+
+export interface Wishlist {
+  id: string
+  user_id: string
+  kind: WishlistKind
+  name: string
+  is_default: boolean
+  share_token: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface WishlistItem {
+  id: string
+  wishlist_id: string
+  user_id: string
+  product_id: number
+  variant_id: number | null
+  price_at_save: number
+  last_alerted_price: number | null
+  alerted_at: string | null
+  checked_at: string | null
+  added_at: string
+}
+
+export function toClientWishlistItem(item: any) {
+  return {
+    id: item.id,
+    listId: item.wishlist_id,
+    productId: item.product_id,
+    variantId: item.variant_id,
+    variantName: item.variant?.variant_name || null,
+    priceAtSave: Number(item.price_at_save),
+    addedAt: item.added_at
+  }
+}
+
+function toClientList(list: Wishlist, itemCount: number) {
+  return {
+    id: list.id,
+    name: list.name,
+    isDefault: list.is_default,
+    shared: !!list.share_token,
+    shareToken: list.share_token,
+    itemCount,
+    createdAt: list.created_at
+  }
+}
+
+function normalizeListName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : ''
+  if (!trimmed || trimmed.length > MAX_WISHLIST_NAME_LENGTH) {
+    throw createValidationError(`List name is required (max ${MAX_WISHLIST_NAME_LENGTH} characters)`)
+  }
+  return trimmed
+}
+
+/**
+ * Current price of a product, or of the chosen variant when it has its own price
+ */
+async function getSavePrice(
+  supabase: SupabaseClient,
+  productId: number,
+  variantId: number | null
+): Promise<number> {
+  const { data: product } = await supabase
+    .from('products')
+    .select('id, price')
+    .eq('id', productId)
+    .maybeSingle()
+
+  if (!product) {
+    throw new ProductionError('Product not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  if (variantId === null) {
+    return Number(product.price) || 0
+  }
+
+  const { data: variant } = await supabase
+    .from('product_variants')
+    .select('id, price')
+    .eq('id', variantId)
+    .eq('product_id', productId)
+    .maybeSingle()
+
+  if (!variant) {
+    throw createValidationError('Variant not found for this product')
+  }
+
+  return Number(variant.price) || Number(product.price) || 0
+}
+
+/**
+ * Copy product ids from the old profiles array into a freshly created list
+ */
+async function importLegacyItems(supabase: SupabaseClient, list: Wishlist): Promise<void> {
+  try {
+    const column = LEGACY_COLUMNS[list.kind]
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select(column)
+      .eq('id', list.user_id)
+      .maybeSingle()
+
+    const ids: number[] = Array.isArray((profile as any)?.[column])
+      ? [...new Set<number>((profile as any)[column].map(Number).filter(Number.isFinite))]
+      : []
+    if (ids.length === 0) return
+
+    const { data: products } = await supabase
+      .from('products')
+      .select('id, price')
+      .in('id', ids)
+
+    const rows = (products || []).map((product: any) => ({
+      wishlist_id: list.id,
+      user_id: list.user_id,
+      product_id: product.id,
+      variant_id: null,
+      price_at_save: Number(product.price) || 0
+    }))
+    if (rows.length === 0) return
+
+    const { error } = await supabase.from(ITEMS_TABLE).insert(rows)
+    if (error) throw error
+  } catch (error) {
+    logger.error(`Error importing legacy ${list.kind} items for user ${list.user_id}`, error)
+  }
+}
+
+/**
+ * The buyer's default wishlist or their saved-for-later list, created on first use
+ */
+export async function getDefaultList(
+  supabase: SupabaseClient,
+  userId: string,
+  kind: WishlistKind
+): Promise<Wishlist> {
+  const { data: existing } = await supabase
+    .from(LISTS_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .eq('is_default', true)
+    .maybeSingle()
+
+  if (existing) {
+    return existing as Wishlist
+  }
+
+  const { data: created, error } = await supabase
+    .from(LISTS_TABLE)
+    .insert({
+      user_id: userId,
+      kind,
+      name: kind === 'wishlist' ? DEFAULT_WISHLIST_NAME : 'Saved for later',
+      is_default: true
+    })
+    .select('*')
+    .single()
+
+  if (error || !created) {
+    // Unique index on (user_id, kind) where is_default: another request created it first
+    if (error?.code === '23505') {
+      const { data: raced } = await supabase
+        .from(LISTS_TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('kind', kind)
+        .eq('is_default', true)
+        .single()
+      if (raced) return raced as Wishlist
+    }
+    logger.error(`Error creating default ${kind} list for user ${userId}`, error)
+    throw error || new Error('Failed to create list')
+  }
+
+  await importLegacyItems(supabase, created as Wishlist)
+  return created as Wishlist
+}
+
+/**
+ * One of the buyer's lists by id, or their default list of that kind when no id is given
+ */
+export async function resolveList(
+  supabase: SupabaseClient,
+  userId: string,
+  params: { kind: WishlistKind; listId?: string | null }
+): Promise<Wishlist> {
+  if (!params.listId) {
+    return getDefaultList(supabase, userId, params.kind)
+  }
+  if (!UUID_PATTERN.test(params.listId)) {
+    throw new ProductionError('List not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const { data: list } = await supabase
+    .from(LISTS_TABLE)
+    .select('*')
+    .eq('id', params.listId)
+    .eq('user_id', userId)
+    .eq('kind', params.kind)
+    .maybeSingle()
+
+  if (!list) {
+    throw new ProductionError('List not found', ErrorCodes.NOT_FOUND, 404)
+  }
+  return list as Wishlist
+}
+
+export async function getListItems(supabase: SupabaseClient, list: Wishlist) {
+  const { data, error } = await supabase
+    .from(ITEMS_TABLE)
+    .select('*, variant:product_variants(variant_name)')
+    .eq('wishlist_id', list.id)
+    .order('added_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+  return (data || []).map(toClientWishlistItem)
+}
+
+/**
+ * Save a product (and variant) to a list at today's price. Saving it again refreshes the price.
+ */
+export async function addListItem(
+  supabase: SupabaseClient,
+  list: Wishlist,
+  params: { productId: number; variantId: number | null }
+) {
+  const price = await getSavePrice(supabase, params.productId, params.variantId)
+
+  let existingQuery = supabase
+    .from(ITEMS_TABLE)
+    .select('id')
+    .eq('wishlist_id', list.id)
+    .eq('product_id', params.productId)
+  existingQuery = params.variantId === null
+    ? existingQuery.is('variant_id', null)
+    : existingQuery.eq('variant_id', params.variantId)
+
+  const { data: existing } = await existingQuery.maybeSingle()
+
+  if (existing) {
+    const { data: updated, error } = await supabase
+      .from(ITEMS_TABLE)
+      .update({
+        price_at_save: price,
+        last_alerted_price: null,
+        alerted_at: null,
+        added_at: new Date().toISOString()
+      })
+      .eq('id', existing.id)
+      .select('*, variant:product_variants(variant_name)')
+      .single()
+
+    if (error) throw error
+    return toClientWishlistItem(updated)
+  }
+
+  const { count } = await supabase
+    .from(ITEMS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('wishlist_id', list.id)
+
+  if ((count || 0) >= MAX_WISHLIST_ITEMS) {
+    throw createValidationError(`A list can hold up to ${MAX_WISHLIST_ITEMS} items`)
+  }
+
+  const { data: item, error } = await supabase
+    .from(ITEMS_TABLE)
+    .insert({
+      wishlist_id: list.id,
+      user_id: list.user_id,
+      product_id: params.productId,
+      variant_id: params.variantId,
+      price_at_save: price
+    })
+    .select('*, variant:product_variants(variant_name)')
+    .single()
+
+  if (error || !item) {
+    logger.error(`Error adding product ${params.productId} to list ${list.id}`, error)
+    throw error || new Error('Failed to add item')
+  }
+
+  await supabase.from(LISTS_TABLE).update({ updated_at: new Date().toISOString() }).eq('id', list.id)
+  return toClientWishlistItem(item)
+}
+
+/**
+ * Remove a product from a list: one variant when given, otherwise every saved variant of it
+ */
+export async function removeListItem(
+  supabase: SupabaseClient,
+  list: Wishlist,
+  params: { productId: number; variantId?: number | null }
+): Promise<void> {
+  let query = supabase
+    .from(ITEMS_TABLE)
+    .delete()
+    .eq('wishlist_id', list.id)
+    .eq('product_id', params.productId)
+
+  if (params.variantId !== undefined && params.variantId !== null) {
+    query = query.eq('variant_id', params.variantId)
+  }
+
+  const { error } = await query
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * The buyer's named wishlists with item counts, default first
+ */
+export async function getUserWishlists(supabase: SupabaseClient, userId: string) {
+  await getDefaultList(supabase, userId, 'wishlist')
+
+  const { data: lists, error } = await supabase
+    .from(LISTS_TABLE)
+    .select('*, wishlist_items(count)')
+    .eq('user_id', userId)
+    .eq('kind', 'wishlist')
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return (lists || []).map((list: any) => toClientList(list, list.wishlist_items?.[0]?.count || 0))
+}
+
+export async function createWishlist(supabase: SupabaseClient, userId: string, name: unknown) {
+  const listName = normalizeListName(name)
+
+  const { count } = await supabase
+    .from(LISTS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('kind', 'wishlist')
+
+  if ((count || 0) >= MAX_WISHLISTS) {
+    throw createValidationError(`You can have up to ${MAX_WISHLISTS} wishlists`)
+  }
+
+  // Make sure the default list exists so the new one is never taken for it
+  await getDefaultList(supabase, userId, 'wishlist')
+
+  const { data: list, error } = await supabase
+    .from(LISTS_TABLE)
+    .insert({ user_id: userId, kind: 'wishlist', name: listName, is_default: false })
+    .select('*')
+    .single()
+
+  if (error || !list) {
+    logger.error(`Error creating wishlist for user ${userId}`, error)
+    throw error || new Error('Failed to create wishlist')
+  }
+  return toClientList(list as Wishlist, 0)
+}
+
+/**
+ * Rename a wishlist and/or turn its read-only share link on or off
+ */
+export async function updateWishlist(
+  supabase: SupabaseClient,
+  userId: string,
+  listId: string,
+  changes: { name?: unknown; shared?: boolean }
+) {
+  const list = await resolveList(supabase, userId, { kind: 'wishlist', listId })
+
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (changes.name !== undefined) {
+    update.name = normalizeListName(changes.name)
+  }
+  if (changes.shared === true && !list.share_token) {
+    update.share_token = crypto.randomBytes(16).toString('hex')
+  } else if (changes.shared === false) {
+    update.share_token = null
+  }
+
+  const { data: updated, error } = await supabase
+    .from(LISTS_TABLE)
+    .update(update)
+    .eq('id', list.id)
+    .select('*, wishlist_items(count)')
+    .single()
+
+  if (error || !updated) {
+    throw error || new Error('Failed to update wishlist')
+  }
+  return toClientList(updated as Wishlist, (updated as any).wishlist_items?.[0]?.count || 0)
+}
+
+export async function deleteWishlist(supabase: SupabaseClient, userId: string, listId: string): Promise<void> {
+  const list = await resolveList(supabase, userId, { kind: 'wishlist', listId })
+  if (list.is_default) {
+    throw createValidationError('Your default wishlist cannot be deleted')
+  }
+
+  const { error: itemsError } = await supabase.from(ITEMS_TABLE).delete().eq('wishlist_id', list.id)
+  if (itemsError) throw itemsError
+
+  const { error } = await supabase.from(LISTS_TABLE).delete().eq('id', list.id)
+  if (error) throw error
+}
+
+/**
+ * A shared wishlist for its public read-only page, with current prices and stock
+ */
+export async function getSharedWishlist(supabase: SupabaseClient, token: string) {
+  if (!/^[a-f0-9]{32}$/.test(token)) {
+    throw new ProductionError('Wishlist not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const { data: list } = await supabase
+    .from(LISTS_TABLE)
+    .select('id, user_id, name, kind, share_token, updated_at')
+    .eq('share_token', token)
+    .eq('kind', 'wishlist')
+    .maybeSingle()
+
+  if (!list) {
+    throw new ProductionError('Wishlist not found', ErrorCodes.NOT_FOUND, 404)
+  }
+
+  const [{ data: owner }, { data: items, error }] = await Promise.all([
+    supabase.from('profiles').select('full_name').eq('id', list.user_id).maybeSingle(),
+    supabase
+      .from(ITEMS_TABLE)
+      .select('id, product_id, variant_id, added_at, product:products(id, name, slug, image, price, in_stock), variant:product_variants(id, variant_name, price, in_stock, image)')
+      .eq('wishlist_id', list.id)
+      .order('added_at', { ascending: false })
+  ])
+
+  if (error) {
+    throw error
+  }
+
+  // Only the first name of the owner is shown on a public page
+  const ownerName = (owner?.full_name || '').trim().split(/\s+/)[0] || null
+
+  return {
+    name: list.name,
+    ownerName,
+    updatedAt: list.updated_at,
+    items: (items || [])
+      .filter((item: any) => item.product)
+      .map((item: any) => ({
+        productId: item.product_id,
+        variantId: item.variant_id,
+        variantName: item.variant?.variant_name || null,
+        name: item.product.name,
+        slug: item.product.slug || String(item.product.id),
+        image: item.variant?.image || item.product.image || null,
+        price: Number(item.variant?.price) || Number(item.product.price) || 0,
+        inStock: item.variant ? item.variant.in_stock !== false : item.product.in_stock !== false,
+        addedAt: item.added_at
+      }))
+  }
+}
+
+/**
+ * Next batch of wishlist items for the price-drop cron, least recently checked first. Returns the
+ * ones whose current price, running sales included, is at least WISHLIST_PRICE_DROP_MIN_PERCENT
+ * below the price at save and below the last price already alerted, and marks the whole batch as
+ * checked. productIds limits the batch to those products, for sales that have just started.
+ */
+export async function collectWishlistPriceDrops(supabase: SupabaseClient, batchSize: number, productIds?: number[]) {
+  let query = supabase
+    .from(ITEMS_TABLE)
+    .select('id, user_id, product_id, variant_id, price_at_save, last_alerted_price, product:products(id, name, image, price, slug), variant:product_variants(id, price), list:wishlists!inner(kind)')
+    .eq('list.kind', 'wishlist')
+  if (productIds) {
+    query = query.in('product_id', productIds)
+  }
+  const { data: items, error } = await query
+    .order('checked_at', { ascending: true, nullsFirst: true })
+    .limit(batchSize)
+
+  if (error) {
+    throw error
+  }
+
+  const scanned = items || []
+  if (scanned.length > 0) {
+    const { error: checkedError } = await supabase
+      .from(ITEMS_TABLE)
+      .update({ checked_at: new Date().toISOString() })
+      .in('id', scanned.map((item: any) => item.id))
+    if (checkedError) {
+      logger.error('Error marking wishlist items as checked', checkedError)
+    }
+  }
+
+  const sales = await getProductSales(supabase, scanned.map((item: any) => Number(item.product_id)))
+
+  return scanned
+    .filter((item: any) => item.product)
+    .map((item: any) => {
+      const currentPrice = resolveSalePrice(sales.get(Number(item.product_id)), {
+        productPrice: Number(item.product.price) || 0,
+        variantId: item.variant_id ?? null,
+        variantPrice: item.variant ? Number(item.variant.price) || null : null
+      }).price
+      const savedPrice = Number(item.price_at_save) || 0
+      const reference = item.last_alerted_price !== null ? Math.min(Number(item.last_alerted_price), savedPrice) : savedPrice
+      return { item, currentPrice, savedPrice, reference }
+    })
+    .filter(({ currentPrice, savedPrice, reference }) =>
+      savedPrice > 0 &&
+      currentPrice > 0 &&
+      currentPrice < reference &&
+      ((savedPrice - currentPrice) / savedPrice) * 100 >= WISHLIST_PRICE_DROP_MIN_PERCENT
+    )
+    .map(({ item, currentPrice, savedPrice }) => ({
+      itemId: item.id as string,
+      userId: item.user_id as string,
+      product: item.product as { id: number; name: string; image: string | null; price: number; slug: string | null },
+      savedPrice,
+      currentPrice
+    }))
+}
+
+export async function markWishlistItemAlerted(supabase: SupabaseClient, itemId: string, price: number): Promise<void> {
+  const { error } = await supabase
+    .from(ITEMS_TABLE)
+    .update({ last_alerted_price: price, alerted_at: new Date().toISOString() })
+    .eq('id', itemId)
+
+  if (error) {
+    logger.error(`Error marking wishlist item ${itemId} as alerted`, error)
+  }
+}